@@ -5,6 +5,15 @@ import { redirect } from "next/navigation";
 import { z } from "zod";
 import { prisma } from "@/lib/prisma";
 import { auth, requireTenantAccess, canEdit } from "@/auth";
+import { rollbackGuardedRollouts } from "@/lib/rollout-plans";
+import { startEscalation, stopEscalation } from "@/lib/escalations";
+import {
+  checkTransition,
+  getIncidentWorkflow,
+  partitionTransitions,
+  type IncidentStatus,
+  type RejectedTransition,
+} from "@/lib/incident-workflow";
 
 // Validation schemas
 const createIncidentSchema = z.object({
@@ -26,29 +35,12 @@ const updateIncidentSchema = z.object({
 
 type PrismaTransaction = Omit<typeof prisma, "$connect" | "$disconnect" | "$on" | "$transaction" | "$use" | "$extends">;
 
-type IncidentRecord = {
-  id: string;
-  status: "OPEN" | "MITIGATED" | "RESOLVED";
-  assigneeId: string | null;
-};
-
 export type ActionState = {
   error?: string;
   success?: boolean;
   data?: unknown;
 };
 
-// Valid status transitions
-const VALID_TRANSITIONS: Record<string, string[]> = {
-  OPEN: ["MITIGATED", "RESOLVED"],
-  MITIGATED: ["RESOLVED"],
-  RESOLVED: [], // Cannot transition from resolved
-};
-
-function isValidTransition(from: string, to: string): boolean {
-  return VALID_TRANSITIONS[from]?.includes(to) || false;
-}
-
 // Helper to get user ID (with dev mode fallback)
 async function getUserId(): Promise<string> {
   const session = await auth();
@@ -147,6 +139,12 @@ export async function createIncident(
       return newIncident;
     });
 
+    // Roll back flag rollouts guarded against this service
+    await rollbackGuardedRollouts({ tenantId: tenant.id, tenantSlug }, incident, userId);
+
+    // Page the service's escalation policy
+    await startEscalation({ tenantId: tenant.id, tenantSlug }, incident);
+
     revalidatePath(`/t/${tenantSlug}/incidents`);
     redirect(`/t/${tenantSlug}/incidents/${incident.id}`);
   } catch (error) {
@@ -241,7 +239,7 @@ export async function updateIncident(
 export async function changeIncidentStatus(
   tenantSlug: string,
   incidentId: string,
-  newStatus: "OPEN" | "MITIGATED" | "RESOLVED"
+  newStatus: IncidentStatus
 ): Promise<ActionState> {
   try {
     const role = await requireTenantAccess(tenantSlug);
@@ -261,11 +259,11 @@ export async function changeIncidentStatus(
       return { error: "Incident not found" };
     }
 
-    // Validate status transition
-    if (!isValidTransition(existingIncident.status, newStatus)) {
-      return {
-        error: `Invalid status transition: ${existingIncident.status} → ${newStatus}`,
-      };
+    // Validate status transition against the tenant's workflow
+    const workflow = await getIncidentWorkflow(tenant.id);
+    const transitionError = checkTransition(workflow, existingIncident.status, newStatus);
+    if (transitionError) {
+      return { error: transitionError };
     }
 
     const updated = await prisma.$transaction(async (tx: PrismaTransaction) => {
@@ -302,6 +300,13 @@ export async function changeIncidentStatus(
       return incident;
     });
 
+    // Any move out of OPEN acknowledges the incident; reopening pages from the first level again
+    if (newStatus !== "OPEN") {
+      await stopEscalation(incidentId);
+    } else if (existingIncident.status !== "OPEN") {
+      await startEscalation({ tenantId: tenant.id, tenantSlug }, updated);
+    }
+
     revalidatePath(`/t/${tenantSlug}/incidents`);
     revalidatePath(`/t/${tenantSlug}/incidents/${incidentId}`);
     return { success: true, data: updated };
@@ -494,7 +499,7 @@ export async function assignIncident(
 export async function bulkUpdateStatus(
   tenantSlug: string,
   incidentIds: string[],
-  newStatus: "OPEN" | "MITIGATED" | "RESOLVED"
+  newStatus: IncidentStatus
 ): Promise<ActionState> {
   try {
     const role = await requireTenantAccess(tenantSlug);
@@ -505,23 +510,20 @@ export async function bulkUpdateStatus(
     const userId = await getUserId();
     const tenant = await getTenantBySlug(tenantSlug);
 
-    // Verify all incidents belong to tenant and have valid transitions
+    // Only incidents in this tenant whose transition the workflow allows are updated
     const incidents = await prisma.incident.findMany({
       where: { id: { in: incidentIds }, tenantId: tenant.id },
     });
 
-    const invalidTransitions = incidents.filter(
-      (i: IncidentRecord) => !isValidTransition(i.status, newStatus)
-    );
-
-    if (invalidTransitions.length > 0) {
-      return {
-        error: `${invalidTransitions.length} incident(s) cannot transition to ${newStatus}`,
-      };
-    }
+    const workflow = await getIncidentWorkflow(tenant.id);
+    const { allowed, rejected } = partitionTransitions(workflow, incidents, newStatus);
+    const found = new Set(incidents.map((incident: { id: string }) => incident.id));
+    const missing: RejectedTransition[] = incidentIds
+      .filter((id) => !found.has(id))
+      .map((id) => ({ incidentId: id, error: "Incident not found" }));
 
     await prisma.$transaction(async (tx: PrismaTransaction) => {
-      for (const incident of incidents) {
+      for (const incident of allowed) {
         await tx.incident.update({
           where: { id: incident.id },
           data: { status: newStatus },
@@ -551,8 +553,16 @@ export async function bulkUpdateStatus(
       }
     });
 
+    for (const incident of allowed) {
+      if (newStatus !== "OPEN") {
+        await stopEscalation(incident.id);
+      } else if (incident.status !== "OPEN") {
+        await startEscalation({ tenantId: tenant.id, tenantSlug }, incident);
+      }
+    }
+
     revalidatePath(`/t/${tenantSlug}/incidents`);
-    return { success: true, data: { updated: incidents.length } };
+    return { success: true, data: { updated: allowed.length, rejected: [...missing, ...rejected] } };
   } catch (error) {
     console.error("Error in bulk status update:", error);
     return { error: "Failed to update incidents" };
@@ -0,0 +1,50 @@
+import { authenticateSdkKey } from "@/lib/sdk-keys";
+import { runWithTenantContext } from "@/lib/tenant";
+import { codeReferenceUploadSchema, replaceCodeReferences } from "@/lib/code-references";
+import { NextRequest, NextResponse } from "next/server";
+
+/**
+ * Upload the flag key usages found in one repository by scripts/scan-code-refs.ts
+ * Authenticated by a server SDK key so it can run in CI; replaces the repository's previous scan
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const sdkKey = await authenticateSdkKey(request);
+
+    if (!sdkKey) {
+      return NextResponse.json({ error: "Invalid SDK key" }, { status: 401 });
+    }
+
+    // Client keys ship to browsers, so anyone could overwrite the tenant's code references with one
+    if (sdkKey.scope !== "SERVER") {
+      return NextResponse.json({ error: "Code reference uploads require a server SDK key" }, { status: 403 });
+    }
+
+    const body = await request.json();
+    const parsed = codeReferenceUploadSchema.safeParse(body);
+
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: parsed.error.issues[0].message },
+        { status: 400 }
+      );
+    }
+
+    const tenantContext = { tenantId: sdkKey.tenantId, tenantSlug: sdkKey.tenantSlug };
+    const result = await runWithTenantContext(tenantContext, () =>
+      replaceCodeReferences(sdkKey.tenantId, parsed.data)
+    );
+
+    return NextResponse.json({
+      repository: result.repository.name,
+      references: result.references,
+      scannedAt: result.repository.scannedAt,
+    });
+  } catch (error) {
+    console.error("Error uploading code references:", error);
+    return NextResponse.json(
+      { error: "Failed to upload code references" },
+      { status: 500 }
+    );
+  }
+}
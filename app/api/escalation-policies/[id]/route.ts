@@ -0,0 +1,157 @@
+import { prisma } from "@/lib/prisma";
+import { getCurrentTenantContext } from "@/lib/tenant";
+import { getSession } from "@/lib/auth";
+import { escalationPolicySchema, validateEscalationTargets } from "@/lib/escalations";
+import { NextRequest, NextResponse } from "next/server";
+
+type PrismaTransaction = Omit<typeof prisma, "$connect" | "$disconnect" | "$on" | "$transaction" | "$use" | "$extends">;
+
+const updatePolicySchema = escalationPolicySchema.partial();
+
+async function isAdmin(userId: string, tenantId: string): Promise<boolean> {
+  const membership = await prisma.membership.findFirst({
+    where: { userId, tenantId },
+  });
+  return membership?.role === "ADMIN";
+}
+
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getSession();
+    const tenantContext = await getCurrentTenantContext();
+    const { id } = await params;
+
+    if (!session.user || !tenantContext) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    if (!(await isAdmin(session.user.id, tenantContext.tenantId))) {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    const existingPolicy = await prisma.escalationPolicy.findFirst({
+      where: { id, tenantId: tenantContext.tenantId },
+    });
+
+    if (!existingPolicy) {
+      return NextResponse.json({ error: "Escalation policy not found" }, { status: 404 });
+    }
+
+    const body = await request.json();
+    const parsed = updatePolicySchema.safeParse(body);
+
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: parsed.error.issues[0].message },
+        { status: 400 }
+      );
+    }
+
+    if (parsed.data.levels) {
+      const targets = await validateEscalationTargets(tenantContext.tenantId, parsed.data.levels);
+      if (!targets.valid) {
+        return NextResponse.json({ error: targets.error }, { status: 400 });
+      }
+    }
+
+    if (parsed.data.service && parsed.data.service !== existingPolicy.service) {
+      const duplicate = await prisma.escalationPolicy.findFirst({
+        where: { tenantId: tenantContext.tenantId, service: parsed.data.service },
+      });
+      if (duplicate) {
+        return NextResponse.json(
+          { error: `Service "${parsed.data.service}" already has an escalation policy` },
+          { status: 409 }
+        );
+      }
+    }
+
+    // Incidents already escalating pick up the new levels at their next step
+    const policy = await prisma.$transaction(async (tx: PrismaTransaction) => {
+      const updated = await tx.escalationPolicy.update({
+        where: { id },
+        data: parsed.data,
+      });
+
+      // Audit log
+      await tx.auditLog.create({
+        data: {
+          tenantId: tenantContext.tenantId,
+          actorId: session.user!.id,
+          action: "UPDATE",
+          entityType: "EscalationPolicy",
+          entityId: id,
+          beforeData: existingPolicy,
+          afterData: updated,
+        },
+      });
+
+      return updated;
+    });
+
+    return NextResponse.json(policy);
+  } catch (error) {
+    console.error("Error updating escalation policy:", error);
+    return NextResponse.json(
+      { error: "Failed to update escalation policy" },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getSession();
+    const tenantContext = await getCurrentTenantContext();
+    const { id } = await params;
+
+    if (!session.user || !tenantContext) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    if (!(await isAdmin(session.user.id, tenantContext.tenantId))) {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    const existingPolicy = await prisma.escalationPolicy.findFirst({
+      where: { id, tenantId: tenantContext.tenantId },
+    });
+
+    if (!existingPolicy) {
+      return NextResponse.json({ error: "Escalation policy not found" }, { status: 404 });
+    }
+
+    // Deleting the policy also drops its in-flight escalations
+    await prisma.$transaction(async (tx: PrismaTransaction) => {
+      await tx.escalationPolicy.delete({
+        where: { id },
+      });
+
+      // Audit log
+      await tx.auditLog.create({
+        data: {
+          tenantId: tenantContext.tenantId,
+          actorId: session.user!.id,
+          action: "DELETE",
+          entityType: "EscalationPolicy",
+          entityId: id,
+          beforeData: existingPolicy,
+        },
+      });
+    });
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("Error deleting escalation policy:", error);
+    return NextResponse.json(
+      { error: "Failed to delete escalation policy" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,113 @@
+import { prisma } from "@/lib/prisma";
+import { getCurrentTenantContext } from "@/lib/tenant";
+import { getSession } from "@/lib/auth";
+import { escalationPolicySchema, validateEscalationTargets } from "@/lib/escalations";
+import { NextRequest, NextResponse } from "next/server";
+
+type PrismaTransaction = Omit<typeof prisma, "$connect" | "$disconnect" | "$on" | "$transaction" | "$use" | "$extends">;
+
+// GET /api/escalation-policies - Escalation policies with their levels, by service
+export async function GET() {
+  try {
+    const session = await getSession();
+    const tenantContext = await getCurrentTenantContext();
+
+    if (!session.user || !tenantContext) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const policies = await prisma.escalationPolicy.findMany({
+      where: { tenantId: tenantContext.tenantId },
+      orderBy: { service: "asc" },
+    });
+
+    return NextResponse.json({ policies });
+  } catch (error) {
+    console.error("Error fetching escalation policies:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch escalation policies" },
+      { status: 500 }
+    );
+  }
+}
+
+// POST /api/escalation-policies - Admins attach a policy to a service
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getSession();
+    const tenantContext = await getCurrentTenantContext();
+
+    if (!session.user || !tenantContext) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const membership = await prisma.membership.findFirst({
+      where: {
+        userId: session.user.id,
+        tenantId: tenantContext.tenantId,
+      },
+    });
+
+    if (membership?.role !== "ADMIN") {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    const body = await request.json();
+    const parsed = escalationPolicySchema.safeParse(body);
+
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: parsed.error.issues[0].message },
+        { status: 400 }
+      );
+    }
+
+    const targets = await validateEscalationTargets(tenantContext.tenantId, parsed.data.levels);
+    if (!targets.valid) {
+      return NextResponse.json({ error: targets.error }, { status: 400 });
+    }
+
+    const existing = await prisma.escalationPolicy.findFirst({
+      where: { tenantId: tenantContext.tenantId, service: parsed.data.service },
+    });
+
+    if (existing) {
+      return NextResponse.json(
+        { error: `Service "${parsed.data.service}" already has an escalation policy` },
+        { status: 409 }
+      );
+    }
+
+    const policy = await prisma.$transaction(async (tx: PrismaTransaction) => {
+      const newPolicy = await tx.escalationPolicy.create({
+        data: {
+          tenantId: tenantContext.tenantId,
+          createdById: session.user!.id,
+          ...parsed.data,
+        },
+      });
+
+      // Audit log
+      await tx.auditLog.create({
+        data: {
+          tenantId: tenantContext.tenantId,
+          actorId: session.user!.id,
+          action: "CREATE",
+          entityType: "EscalationPolicy",
+          entityId: newPolicy.id,
+          afterData: newPolicy,
+        },
+      });
+
+      return newPolicy;
+    });
+
+    return NextResponse.json(policy, { status: 201 });
+  } catch (error) {
+    console.error("Error creating escalation policy:", error);
+    return NextResponse.json(
+      { error: "Failed to create escalation policy" },
+      { status: 500 }
+    );
+  }
+}
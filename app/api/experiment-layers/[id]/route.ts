@@ -0,0 +1,148 @@
+import { prisma } from "@/lib/prisma";
+import { getCurrentTenantContext } from "@/lib/tenant";
+import { getSession } from "@/lib/auth";
+import { experimentLayerSchema } from "@/lib/experiment-layers";
+import { NextRequest, NextResponse } from "next/server";
+
+type PrismaTransaction = Omit<typeof prisma, "$connect" | "$disconnect" | "$on" | "$transaction" | "$use" | "$extends">;
+
+const updateLayerSchema = experimentLayerSchema.partial();
+
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getSession();
+    const tenantContext = await getCurrentTenantContext();
+    const { id } = await params;
+
+    if (!session.user || !tenantContext) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const existingLayer = await prisma.experimentLayer.findFirst({
+      where: { id, tenantId: tenantContext.tenantId },
+    });
+
+    if (!existingLayer) {
+      return NextResponse.json({ error: "Experiment layer not found" }, { status: 404 });
+    }
+
+    const body = await request.json();
+    const parsed = updateLayerSchema.safeParse(body);
+
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: parsed.error.issues[0].message },
+        { status: 400 }
+      );
+    }
+
+    if (parsed.data.name && parsed.data.name !== existingLayer.name) {
+      const duplicate = await prisma.experimentLayer.findFirst({
+        where: { tenantId: tenantContext.tenantId, name: parsed.data.name },
+      });
+      if (duplicate) {
+        return NextResponse.json(
+          { error: `Experiment layer "${parsed.data.name}" already exists` },
+          { status: 409 }
+        );
+      }
+    }
+
+    // Buckets are salted by the layer id, so renaming doesn't move any user
+    const layer = await prisma.$transaction(async (tx: PrismaTransaction) => {
+      const updated = await tx.experimentLayer.update({
+        where: { id },
+        data: parsed.data,
+      });
+
+      // Audit log
+      await tx.auditLog.create({
+        data: {
+          tenantId: tenantContext.tenantId,
+          actorId: session.user!.id,
+          action: "UPDATE",
+          entityType: "ExperimentLayer",
+          entityId: id,
+          beforeData: existingLayer,
+          afterData: updated,
+        },
+      });
+
+      return updated;
+    });
+
+    return NextResponse.json(layer);
+  } catch (error) {
+    console.error("Error updating experiment layer:", error);
+    return NextResponse.json(
+      { error: "Failed to update experiment layer" },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getSession();
+    const tenantContext = await getCurrentTenantContext();
+    const { id } = await params;
+
+    if (!session.user || !tenantContext) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const existingLayer = await prisma.experimentLayer.findFirst({
+      where: { id, tenantId: tenantContext.tenantId },
+    });
+
+    if (!existingLayer) {
+      return NextResponse.json({ error: "Experiment layer not found" }, { status: 404 });
+    }
+
+    // Deleting a layer in use would silently widen its flags to every user
+    const flags = await prisma.featureFlag.findMany({
+      where: { tenantId: tenantContext.tenantId, layerId: id },
+      select: { key: true, environment: true },
+    });
+    if (flags.length > 0) {
+      return NextResponse.json(
+        {
+          error: `Layer is used by ${flags.length} flag(s): ${flags.map((f) => `${f.key} (${f.environment})`).join(", ")}`,
+        },
+        { status: 409 }
+      );
+    }
+
+    await prisma.$transaction(async (tx: PrismaTransaction) => {
+      await tx.experimentLayer.delete({
+        where: { id },
+      });
+
+      // Audit log
+      await tx.auditLog.create({
+        data: {
+          tenantId: tenantContext.tenantId,
+          actorId: session.user!.id,
+          action: "DELETE",
+          entityType: "ExperimentLayer",
+          entityId: id,
+          beforeData: existingLayer,
+        },
+      });
+    });
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("Error deleting experiment layer:", error);
+    return NextResponse.json(
+      { error: "Failed to delete experiment layer" },
+      { status: 500 }
+    );
+  }
+}
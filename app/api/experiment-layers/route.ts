@@ -0,0 +1,95 @@
+import { prisma } from "@/lib/prisma";
+import { getCurrentTenantContext } from "@/lib/tenant";
+import { getSession } from "@/lib/auth";
+import { experimentLayerSchema, getExperimentLayers } from "@/lib/experiment-layers";
+import { NextRequest, NextResponse } from "next/server";
+
+type PrismaTransaction = Omit<typeof prisma, "$connect" | "$disconnect" | "$on" | "$transaction" | "$use" | "$extends">;
+
+/**
+ * List experiment layers with how much of each is allocated per environment
+ */
+export async function GET() {
+  try {
+    const session = await getSession();
+    const tenantContext = await getCurrentTenantContext();
+
+    if (!session.user || !tenantContext) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const layers = await getExperimentLayers(tenantContext.tenantId);
+
+    return NextResponse.json({ layers });
+  } catch (error) {
+    console.error("Error fetching experiment layers:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch experiment layers" },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getSession();
+    const tenantContext = await getCurrentTenantContext();
+
+    if (!session.user || !tenantContext) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const body = await request.json();
+    const parsed = experimentLayerSchema.safeParse(body);
+
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: parsed.error.issues[0].message },
+        { status: 400 }
+      );
+    }
+
+    const existing = await prisma.experimentLayer.findFirst({
+      where: { tenantId: tenantContext.tenantId, name: parsed.data.name },
+    });
+
+    if (existing) {
+      return NextResponse.json(
+        { error: `Experiment layer "${parsed.data.name}" already exists` },
+        { status: 409 }
+      );
+    }
+
+    const layer = await prisma.$transaction(async (tx: PrismaTransaction) => {
+      const newLayer = await tx.experimentLayer.create({
+        data: {
+          tenantId: tenantContext.tenantId,
+          name: parsed.data.name,
+          description: parsed.data.description,
+        },
+      });
+
+      // Audit log
+      await tx.auditLog.create({
+        data: {
+          tenantId: tenantContext.tenantId,
+          actorId: session.user!.id,
+          action: "CREATE",
+          entityType: "ExperimentLayer",
+          entityId: newLayer.id,
+          afterData: newLayer,
+        },
+      });
+
+      return newLayer;
+    });
+
+    return NextResponse.json(layer, { status: 201 });
+  } catch (error) {
+    console.error("Error creating experiment layer:", error);
+    return NextResponse.json(
+      { error: "Failed to create experiment layer" },
+      { status: 500 }
+    );
+  }
+}
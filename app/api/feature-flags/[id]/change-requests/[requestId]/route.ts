@@ -0,0 +1,64 @@
+import { getCurrentTenantContext } from "@/lib/tenant";
+import { getSession } from "@/lib/auth";
+import { approveFlagChangeRequest, rejectFlagChangeRequest } from "@/lib/flag-change-requests";
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+
+const reviewSchema = z.discriminatedUnion("action", [
+  z.object({ action: z.literal("approve"), comment: z.string().optional() }),
+  z.object({ action: z.literal("reject"), comment: z.string().min(1, "A comment is required to reject a change") }),
+]);
+
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; requestId: string }> }
+) {
+  try {
+    const session = await getSession();
+    const tenantContext = await getCurrentTenantContext();
+    const { id: flagId, requestId } = await params;
+
+    if (!session.user || !tenantContext) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const body = await request.json();
+    const parsed = reviewSchema.safeParse(body);
+
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: parsed.error.issues[0].message },
+        { status: 400 }
+      );
+    }
+
+    const result =
+      parsed.data.action === "approve"
+        ? await approveFlagChangeRequest(
+            tenantContext.tenantId,
+            flagId,
+            requestId,
+            session.user.id,
+            parsed.data.comment
+          )
+        : await rejectFlagChangeRequest(
+            tenantContext.tenantId,
+            flagId,
+            requestId,
+            session.user.id,
+            parsed.data.comment
+          );
+
+    if (!result.success) {
+      return NextResponse.json({ error: result.error }, { status: result.status });
+    }
+
+    return NextResponse.json(result.changeRequest);
+  } catch (error) {
+    console.error("Error reviewing change request:", error);
+    return NextResponse.json(
+      { error: "Failed to review change request" },
+      { status: 500 }
+    );
+  }
+}
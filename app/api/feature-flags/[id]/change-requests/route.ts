@@ -0,0 +1,33 @@
+import { getCurrentTenantContext } from "@/lib/tenant";
+import { getSession } from "@/lib/auth";
+import { listFlagChangeRequests } from "@/lib/flag-change-requests";
+import { NextRequest, NextResponse } from "next/server";
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getSession();
+    const tenantContext = await getCurrentTenantContext();
+    const { id: flagId } = await params;
+
+    if (!session.user || !tenantContext) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const changeRequests = await listFlagChangeRequests(tenantContext.tenantId, flagId);
+
+    if (!changeRequests) {
+      return NextResponse.json({ error: "Feature flag not found" }, { status: 404 });
+    }
+
+    return NextResponse.json({ changeRequests });
+  } catch (error) {
+    console.error("Error fetching change requests:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch change requests" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,39 @@
+import { prisma } from "@/lib/prisma";
+import { getCurrentTenantContext } from "@/lib/tenant";
+import { getSession } from "@/lib/auth";
+import { getFlagCodeReferences } from "@/lib/code-references";
+import { NextRequest, NextResponse } from "next/server";
+
+// GET /api/feature-flags/[id]/code-references - Where this flag's key is used in scanned repositories
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getSession();
+    const tenantContext = await getCurrentTenantContext();
+    const { id: flagId } = await params;
+
+    if (!session.user || !tenantContext) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const flag = await prisma.featureFlag.findFirst({
+      where: { id: flagId, tenantId: tenantContext.tenantId },
+    });
+
+    if (!flag) {
+      return NextResponse.json({ error: "Feature flag not found" }, { status: 404 });
+    }
+
+    const codeReferences = await getFlagCodeReferences(tenantContext.tenantId, flag.key);
+
+    return NextResponse.json(codeReferences);
+  } catch (error) {
+    console.error("Error fetching code references:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch code references" },
+      { status: 500 }
+    );
+  }
+}
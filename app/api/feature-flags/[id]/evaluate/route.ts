@@ -1,7 +1,9 @@
 import { prisma } from "@/lib/prisma";
 import { getCurrentTenantContext } from "@/lib/tenant";
 import { getSession } from "@/lib/auth";
-import { evaluateFeatureFlag } from "@/lib/feature-flags";
+import { evaluateFeatureFlag } from "@next-ops/flag-evaluator";
+import { loadSegmentsForFlags } from "@/lib/segments";
+import { findTenantFlags } from "@/lib/flag-queries";
 import { NextRequest, NextResponse } from "next/server";
 import { z } from "zod";
 
@@ -9,6 +11,7 @@ const evaluateSchema = z.object({
   userId: z.string().min(1),
   environment: z.enum(["DEV", "STAGING", "PROD"]),
   service: z.string().optional(),
+  attributes: z.record(z.string(), z.union([z.string(), z.number(), z.boolean()])).optional(),
 });
 
 export async function POST(
@@ -47,7 +50,12 @@ export async function POST(
       );
     }
 
-    const result = evaluateFeatureFlag(flag, parsed.data);
+    // Prerequisites may reach any flag in the environment, along with their segments
+    const environmentFlags = await findTenantFlags(tenantContext.tenantId, { environment: flag.environment });
+    const segments = await loadSegmentsForFlags(tenantContext.tenantId, environmentFlags);
+    const flags = Object.fromEntries(environmentFlags.map((f) => [f.key, f]));
+    // Dashboard test evaluations aren't recorded, so they never count as usage in analytics or cleanup
+    const result = evaluateFeatureFlag(flag, parsed.data, { segments, flags });
 
     return NextResponse.json({
       flagKey: flag.key,
@@ -0,0 +1,53 @@
+import { prisma } from "@/lib/prisma";
+import { getCurrentTenantContext } from "@/lib/tenant";
+import { getSession } from "@/lib/auth";
+import { getFlagInsights } from "@/lib/flag-analytics";
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+
+const insightsSchema = z.object({
+  hours: z.coerce.number().int().min(1).max(24 * 30).default(24),
+});
+
+// GET /api/feature-flags/[id]/insights?hours=24 - Hourly evaluation counts, true/false split and rule hits
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getSession();
+    const tenantContext = await getCurrentTenantContext();
+    const { id: flagId } = await params;
+
+    if (!session.user || !tenantContext) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const parsed = insightsSchema.safeParse(Object.fromEntries(request.nextUrl.searchParams.entries()));
+
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: parsed.error.issues[0].message },
+        { status: 400 }
+      );
+    }
+
+    const flag = await prisma.featureFlag.findFirst({
+      where: { id: flagId, tenantId: tenantContext.tenantId },
+    });
+
+    if (!flag) {
+      return NextResponse.json({ error: "Feature flag not found" }, { status: 404 });
+    }
+
+    const insights = await getFlagInsights(tenantContext.tenantId, flagId, parsed.data.hours);
+
+    return NextResponse.json(insights);
+  } catch (error) {
+    console.error("Error fetching flag insights:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch flag insights" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,77 @@
+import { getCurrentTenantContext } from "@/lib/tenant";
+import { getSession } from "@/lib/auth";
+import { planPromotion, promoteFlag } from "@/lib/flag-promotion";
+import { holdForApproval } from "@/lib/flag-change-requests";
+import { NextRequest, NextResponse } from "next/server";
+
+// GET /api/feature-flags/[id]/promote - Preview what promoting to the next environment would change
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getSession();
+    const tenantContext = await getCurrentTenantContext();
+    const { id: flagId } = await params;
+
+    if (!session.user || !tenantContext) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const result = await planPromotion(tenantContext.tenantId, flagId);
+
+    if (!result.success) {
+      return NextResponse.json({ error: result.error }, { status: result.status });
+    }
+
+    const { plan } = result;
+    return NextResponse.json({
+      sourceEnvironment: plan.sourceEnvironment,
+      targetEnvironment: plan.targetEnvironment,
+      targetFlagId: plan.targetFlagId,
+      diff: plan.diff,
+      error: plan.error,
+    });
+  } catch (error) {
+    console.error("Error previewing flag promotion:", error);
+    return NextResponse.json(
+      { error: "Failed to preview promotion" },
+      { status: 500 }
+    );
+  }
+}
+
+// POST /api/feature-flags/[id]/promote - Copy the flag's configuration to the next environment
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getSession();
+    const tenantContext = await getCurrentTenantContext();
+    const { id: flagId } = await params;
+
+    if (!session.user || !tenantContext) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const changeRequest = await holdForApproval(tenantContext.tenantId, flagId, { type: "promote" }, session.user.id);
+    if (changeRequest) {
+      return NextResponse.json({ changeRequest }, { status: 202 });
+    }
+
+    const result = await promoteFlag(tenantContext.tenantId, flagId, session.user.id);
+
+    if (!result.success) {
+      return NextResponse.json({ error: result.error }, { status: result.status });
+    }
+
+    return NextResponse.json(result.flag, { status: result.created ? 201 : 200 });
+  } catch (error) {
+    console.error("Error promoting feature flag:", error);
+    return NextResponse.json(
+      { error: "Failed to promote feature flag" },
+      { status: 500 }
+    );
+  }
+}
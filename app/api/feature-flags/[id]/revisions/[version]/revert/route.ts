@@ -0,0 +1,54 @@
+import { getCurrentTenantContext } from "@/lib/tenant";
+import { getSession } from "@/lib/auth";
+import { revertFlagToRevision } from "@/lib/flag-updates";
+import { holdForApproval } from "@/lib/flag-change-requests";
+import { NextRequest, NextResponse } from "next/server";
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; version: string }> }
+) {
+  try {
+    const session = await getSession();
+    const tenantContext = await getCurrentTenantContext();
+    const { id: flagId, version } = await params;
+
+    if (!session.user || !tenantContext) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const revisionVersion = Number(version);
+    if (!Number.isInteger(revisionVersion) || revisionVersion < 1) {
+      return NextResponse.json({ error: "Invalid revision" }, { status: 400 });
+    }
+
+    const changeRequest = await holdForApproval(
+      tenantContext.tenantId,
+      flagId,
+      { type: "revert", version: revisionVersion },
+      session.user.id
+    );
+    if (changeRequest) {
+      return NextResponse.json({ changeRequest }, { status: 202 });
+    }
+
+    const result = await revertFlagToRevision(
+      tenantContext.tenantId,
+      flagId,
+      revisionVersion,
+      session.user.id
+    );
+
+    if (!result.success) {
+      return NextResponse.json({ error: result.error }, { status: result.status });
+    }
+
+    return NextResponse.json(result.flag);
+  } catch (error) {
+    console.error("Error reverting feature flag:", error);
+    return NextResponse.json(
+      { error: "Failed to revert feature flag" },
+      { status: 500 }
+    );
+  }
+}
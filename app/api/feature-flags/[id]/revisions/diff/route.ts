@@ -0,0 +1,69 @@
+import { prisma } from "@/lib/prisma";
+import { getCurrentTenantContext } from "@/lib/tenant";
+import { getSession } from "@/lib/auth";
+import { diffFlagSnapshots, type FlagRevisionSnapshot } from "@/lib/flag-revisions";
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+
+const diffQuerySchema = z.object({
+  from: z.coerce.number().int().min(0).optional(),
+  to: z.coerce.number().int().min(1),
+});
+
+/**
+ * Diff two revisions of a flag; "from" defaults to the revision before "to",
+ * and from=0 compares against an empty flag
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getSession();
+    const tenantContext = await getCurrentTenantContext();
+    const { id: flagId } = await params;
+
+    if (!session.user || !tenantContext) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const parsed = diffQuerySchema.safeParse({
+      from: request.nextUrl.searchParams.get("from") ?? undefined,
+      to: request.nextUrl.searchParams.get("to") ?? undefined,
+    });
+
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: parsed.error.issues[0].message },
+        { status: 400 }
+      );
+    }
+
+    const { to } = parsed.data;
+    const from = parsed.data.from ?? to - 1;
+
+    const revisions = await prisma.flagRevision.findMany({
+      where: { flagId, tenantId: tenantContext.tenantId, version: { in: [from, to] } },
+    });
+
+    const before = revisions.find((revision) => revision.version === from);
+    const after = revisions.find((revision) => revision.version === to);
+
+    if (!after || (from > 0 && !before)) {
+      return NextResponse.json({ error: "Revision not found" }, { status: 404 });
+    }
+
+    const diff = diffFlagSnapshots(
+      before ? (before.snapshot as unknown as FlagRevisionSnapshot) : null,
+      after.snapshot as unknown as FlagRevisionSnapshot
+    );
+
+    return NextResponse.json({ from, to, diff });
+  } catch (error) {
+    console.error("Error diffing flag revisions:", error);
+    return NextResponse.json(
+      { error: "Failed to diff flag revisions" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,49 @@
+import { prisma } from "@/lib/prisma";
+import { getCurrentTenantContext } from "@/lib/tenant";
+import { getSession } from "@/lib/auth";
+import { NextRequest, NextResponse } from "next/server";
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getSession();
+    const tenantContext = await getCurrentTenantContext();
+    const { id: flagId } = await params;
+
+    if (!session.user || !tenantContext) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const flag = await prisma.featureFlag.findFirst({
+      where: { id: flagId, tenantId: tenantContext.tenantId },
+    });
+
+    if (!flag) {
+      return NextResponse.json({ error: "Feature flag not found" }, { status: 404 });
+    }
+
+    // Snapshots are left out of the list; the diff endpoint returns what changed
+    const revisions = await prisma.flagRevision.findMany({
+      where: { flagId, tenantId: tenantContext.tenantId },
+      select: {
+        id: true,
+        version: true,
+        changeType: true,
+        metadata: true,
+        createdAt: true,
+        actor: { select: { id: true, name: true } },
+      },
+      orderBy: { version: "desc" },
+    });
+
+    return NextResponse.json({ revisions });
+  } catch (error) {
+    console.error("Error fetching flag revisions:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch flag revisions" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,228 @@
+import { prisma } from "@/lib/prisma";
+import { getCurrentTenantContext } from "@/lib/tenant";
+import { getSession } from "@/lib/auth";
+import { rolloutPlanSchema } from "@/lib/rollout-plans";
+import { approvalConflict } from "@/lib/flag-change-requests";
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+
+type PrismaTransaction = Omit<typeof prisma, "$connect" | "$disconnect" | "$on" | "$transaction" | "$use" | "$extends">;
+
+const updatePlanSchema = z.object({
+  action: z.enum(["pause", "resume", "abort"]),
+});
+
+const AUDIT_ACTIONS = {
+  pause: "PAUSE_ROLLOUT",
+  resume: "RESUME_ROLLOUT",
+  abort: "ABORT_ROLLOUT",
+} as const;
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getSession();
+    const tenantContext = await getCurrentTenantContext();
+    const { id: flagId } = await params;
+
+    if (!session.user || !tenantContext) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const flag = await prisma.featureFlag.findFirst({
+      where: { id: flagId, tenantId: tenantContext.tenantId },
+    });
+
+    if (!flag) {
+      return NextResponse.json({ error: "Feature flag not found" }, { status: 404 });
+    }
+
+    // The most recent plan, so a finished or aborted plan stays visible until replaced
+    const plan = await prisma.rolloutPlan.findFirst({
+      where: { flagId, tenantId: tenantContext.tenantId },
+      include: { createdBy: { select: { id: true, name: true } } },
+      orderBy: { createdAt: "desc" },
+    });
+
+    return NextResponse.json({ plan });
+  } catch (error) {
+    console.error("Error fetching rollout plan:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch rollout plan" },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getSession();
+    const tenantContext = await getCurrentTenantContext();
+    const { id: flagId } = await params;
+
+    if (!session.user || !tenantContext) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const flag = await prisma.featureFlag.findFirst({
+      where: { id: flagId, tenantId: tenantContext.tenantId },
+    });
+
+    if (!flag) {
+      return NextResponse.json({ error: "Feature flag not found" }, { status: 404 });
+    }
+
+    // The worker applies these later without review
+    const conflict = await approvalConflict(tenantContext.tenantId, flag.environment, "start a rollout plan");
+    if (conflict) {
+      return NextResponse.json({ error: conflict }, { status: 409 });
+    }
+
+    const body = await request.json();
+    const parsed = rolloutPlanSchema.safeParse(body);
+
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: parsed.error.issues[0].message },
+        { status: 400 }
+      );
+    }
+
+    const running = await prisma.rolloutPlan.findFirst({
+      where: { flagId, tenantId: tenantContext.tenantId, status: { in: ["ACTIVE", "PAUSED"] } },
+    });
+
+    if (running) {
+      return NextResponse.json(
+        { error: "Flag already has a rollout plan in progress" },
+        { status: 409 }
+      );
+    }
+
+    const plan = await prisma.$transaction(async (tx: PrismaTransaction) => {
+      const created = await tx.rolloutPlan.create({
+        data: {
+          tenantId: tenantContext.tenantId,
+          flagId,
+          steps: parsed.data.steps,
+          intervalMinutes: parsed.data.intervalMinutes,
+          nextStepAt: parsed.data.startAt ?? new Date(),
+          guardService: parsed.data.guard?.service,
+          guardSeverity: parsed.data.guard?.severity,
+          // safeState is recorded by the worker right before the first step
+          createdById: session.user!.id,
+        },
+      });
+
+      // Audit log
+      await tx.auditLog.create({
+        data: {
+          tenantId: tenantContext.tenantId,
+          actorId: session.user!.id,
+          action: "CREATE_ROLLOUT",
+          entityType: "FeatureFlag",
+          entityId: flagId,
+          afterData: created,
+        },
+      });
+
+      return created;
+    });
+
+    return NextResponse.json(plan, { status: 201 });
+  } catch (error) {
+    console.error("Error creating rollout plan:", error);
+    return NextResponse.json(
+      { error: "Failed to create rollout plan" },
+      { status: 500 }
+    );
+  }
+}
+
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getSession();
+    const tenantContext = await getCurrentTenantContext();
+    const { id: flagId } = await params;
+
+    if (!session.user || !tenantContext) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const body = await request.json();
+    const parsed = updatePlanSchema.safeParse(body);
+
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: parsed.error.issues[0].message },
+        { status: 400 }
+      );
+    }
+
+    const plan = await prisma.rolloutPlan.findFirst({
+      where: { flagId, tenantId: tenantContext.tenantId, status: { in: ["ACTIVE", "PAUSED"] } },
+    });
+
+    if (!plan) {
+      return NextResponse.json({ error: "No rollout plan in progress" }, { status: 404 });
+    }
+
+    const { action } = parsed.data;
+
+    if ((action === "pause" && plan.status !== "ACTIVE") || (action === "resume" && plan.status !== "PAUSED")) {
+      return NextResponse.json(
+        { error: `Rollout plan is already ${plan.status.toLowerCase()}` },
+        { status: 409 }
+      );
+    }
+
+    // Resuming after a failed step retries it now; otherwise the interval starts over
+    const data =
+      action === "pause"
+        ? { status: "PAUSED" as const, nextStepAt: null }
+        : action === "resume"
+        ? {
+            status: "ACTIVE" as const,
+            nextStepAt: new Date(plan.error || plan.currentStep < 0 ? Date.now() : Date.now() + plan.intervalMinutes * 60_000),
+          }
+        : { status: "ABORTED" as const, nextStepAt: null };
+
+    const updated = await prisma.$transaction(async (tx: PrismaTransaction) => {
+      const result = await tx.rolloutPlan.update({
+        where: { id: plan.id },
+        data,
+      });
+
+      // Audit log
+      await tx.auditLog.create({
+        data: {
+          tenantId: tenantContext.tenantId,
+          actorId: session.user!.id,
+          action: AUDIT_ACTIONS[action],
+          entityType: "FeatureFlag",
+          entityId: flagId,
+          beforeData: plan,
+          afterData: result,
+        },
+      });
+
+      return result;
+    });
+
+    return NextResponse.json(updated);
+  } catch (error) {
+    console.error("Error updating rollout plan:", error);
+    return NextResponse.json(
+      { error: "Failed to update rollout plan" },
+      { status: 500 }
+    );
+  }
+}
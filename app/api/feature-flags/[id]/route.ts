@@ -1,19 +1,15 @@
 import { prisma } from "@/lib/prisma";
 import { getCurrentTenantContext } from "@/lib/tenant";
 import { getSession } from "@/lib/auth";
+import { loadSegmentsForFlags } from "@/lib/segments";
+import { findDependentFlags } from "@/lib/prerequisites";
+import { recordFlagChange } from "@/lib/flag-changes";
+import { applyFlagPatch, flagPatchSchema } from "@/lib/flag-updates";
+import { approvalConflict, holdForApproval } from "@/lib/flag-change-requests";
 import { NextRequest, NextResponse } from "next/server";
-import { z } from "zod";
 
 type PrismaTransaction = Omit<typeof prisma, "$connect" | "$disconnect" | "$on" | "$transaction" | "$use" | "$extends">;
 
-const updateFlagSchema = z.object({
-  name: z.string().min(1).optional(),
-  key: z.string().min(1).optional(),
-  description: z.string().optional(),
-  enabled: z.boolean().optional(),
-  rolloutPercentage: z.number().min(0).max(100).optional(),
-});
-
 export async function GET(
   request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
@@ -40,7 +36,15 @@ export async function GET(
       return NextResponse.json({ error: "Feature flag not found" }, { status: 404 });
     }
 
-    return NextResponse.json(flag);
+    // Segments this flag depends on and flags that depend on it, for display
+    const segments = await loadSegmentsForFlags(tenantContext.tenantId, [flag]);
+    const dependents = await findDependentFlags(tenantContext.tenantId, flag.environment, flag.key);
+
+    return NextResponse.json({
+      ...flag,
+      segments: Object.values(segments).map((segment) => ({ id: segment.id, name: segment.name })),
+      dependents,
+    });
   } catch (error) {
     console.error("Error fetching feature flag:", error);
     return NextResponse.json(
@@ -63,16 +67,8 @@ export async function PATCH(
       return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
     }
 
-    const existingFlag = await prisma.featureFlag.findFirst({
-      where: { id, tenantId: tenantContext.tenantId },
-    });
-
-    if (!existingFlag) {
-      return NextResponse.json({ error: "Feature flag not found" }, { status: 404 });
-    }
-
     const body = await request.json();
-    const parsed = updateFlagSchema.safeParse(body);
+    const parsed = flagPatchSchema.safeParse(body);
 
     if (!parsed.success) {
       return NextResponse.json(
@@ -81,41 +77,25 @@ export async function PATCH(
       );
     }
 
-    // Verify user exists in database before creating audit log
-    const userExists = await prisma.user.findUnique({
-      where: { id: session.user!.id },
-    });
-
-    const flag = await prisma.$transaction(async (tx: PrismaTransaction) => {
-      const updated = await tx.featureFlag.update({
-        where: { id },
-        data: parsed.data,
-        include: {
-          rules: {
-            orderBy: { order: "asc" },
-          },
-        },
-      });
+    const changeRequest = await holdForApproval(
+      tenantContext.tenantId,
+      id,
+      { type: "update", patch: parsed.data },
+      session.user.id
+    );
+    if (changeRequest) {
+      return NextResponse.json({ changeRequest }, { status: 202 });
+    }
 
-      // Only create audit log if user exists in database
-      if (userExists) {
-        await tx.auditLog.create({
-          data: {
-            tenantId: tenantContext.tenantId,
-            actorId: session.user!.id,
-            action: "UPDATE",
-            entityType: "FeatureFlag",
-            entityId: id,
-            beforeData: existingFlag,
-            afterData: updated,
-          },
-        });
-      }
-
-      return updated;
+    const result = await applyFlagPatch(tenantContext.tenantId, id, parsed.data, {
+      actorId: session.user.id,
     });
 
-    return NextResponse.json(flag);
+    if (!result.success) {
+      return NextResponse.json({ error: result.error }, { status: result.status });
+    }
+
+    return NextResponse.json(result.flag);
   } catch (error) {
     console.error("Error updating feature flag:", error);
     return NextResponse.json(
@@ -146,11 +126,34 @@ export async function DELETE(
       return NextResponse.json({ error: "Feature flag not found" }, { status: 404 });
     }
 
+    // A delete can't be held for review, so flags that need approval can't be deleted directly
+    const conflict = await approvalConflict(tenantContext.tenantId, existingFlag.environment, "delete flag");
+    if (conflict) {
+      return NextResponse.json({ error: conflict }, { status: 409 });
+    }
+
+    const dependents = await findDependentFlags(tenantContext.tenantId, existingFlag.environment, existingFlag.key);
+    if (dependents.length > 0) {
+      return NextResponse.json(
+        {
+          error: `Flag is a prerequisite of ${dependents.length} flag(s): ${dependents.map((f) => f.key).join(", ")}`,
+        },
+        { status: 409 }
+      );
+    }
+
     await prisma.$transaction(async (tx: PrismaTransaction) => {
       await tx.featureFlag.delete({
         where: { id },
       });
 
+      await recordFlagChange(tx, tenantContext.tenantId, {
+        type: "flag_deleted",
+        environment: existingFlag.environment,
+        flagId: id,
+        flagKey: existingFlag.key,
+      });
+
       // Audit log
       await tx.auditLog.create({
         data: {
@@ -1,11 +1,10 @@
-import { prisma } from "@/lib/prisma";
 import { getCurrentTenantContext } from "@/lib/tenant";
 import { getSession } from "@/lib/auth";
+import { deleteFlagRule, updateFlagRule, updateRuleSchema } from "@/lib/flag-rules";
+import { holdForApproval } from "@/lib/flag-change-requests";
 import { NextRequest, NextResponse } from "next/server";
 
-type PrismaTransaction = Omit<typeof prisma, "$connect" | "$disconnect" | "$on" | "$transaction" | "$use" | "$extends">;
-
-export async function DELETE(
+export async function PATCH(
   request: NextRequest,
   { params }: { params: Promise<{ id: string; ruleId: string }> }
 ) {
@@ -18,42 +17,75 @@ export async function DELETE(
       return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
     }
 
-    // Verify flag exists and belongs to tenant
-    const flag = await prisma.featureFlag.findFirst({
-      where: { id: flagId, tenantId: tenantContext.tenantId },
-    });
+    const body = await request.json();
+    const parsed = updateRuleSchema.safeParse(body);
+
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: parsed.error.issues[0].message },
+        { status: 400 }
+      );
+    }
 
-    if (!flag) {
-      return NextResponse.json({ error: "Feature flag not found" }, { status: 404 });
+    const changeRequest = await holdForApproval(
+      tenantContext.tenantId,
+      flagId,
+      { type: "update_rule", ruleId, rule: parsed.data },
+      session.user.id
+    );
+    if (changeRequest) {
+      return NextResponse.json({ changeRequest }, { status: 202 });
     }
 
-    // Verify rule exists and belongs to flag
-    const rule = await prisma.rule.findFirst({
-      where: { id: ruleId, flagId },
+    const result = await updateFlagRule(tenantContext.tenantId, flagId, ruleId, parsed.data, {
+      actorId: session.user.id,
     });
 
-    if (!rule) {
-      return NextResponse.json({ error: "Rule not found" }, { status: 404 });
+    if (!result.success) {
+      return NextResponse.json({ error: result.error }, { status: result.status });
+    }
+
+    return NextResponse.json(result.rule);
+  } catch (error) {
+    console.error("Error updating rule:", error);
+    return NextResponse.json(
+      { error: "Failed to update rule" },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; ruleId: string }> }
+) {
+  try {
+    const session = await getSession();
+    const tenantContext = await getCurrentTenantContext();
+    const { id: flagId, ruleId } = await params;
+
+    if (!session.user || !tenantContext) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
     }
 
-    await prisma.$transaction(async (tx: PrismaTransaction) => {
-      await tx.rule.delete({
-        where: { id: ruleId },
-      });
+    const changeRequest = await holdForApproval(
+      tenantContext.tenantId,
+      flagId,
+      { type: "delete_rule", ruleId },
+      session.user.id
+    );
+    if (changeRequest) {
+      return NextResponse.json({ changeRequest }, { status: 202 });
+    }
 
-      // Audit log
-      await tx.auditLog.create({
-        data: {
-          tenantId: tenantContext.tenantId,
-          actorId: session.user!.id,
-          action: "DELETE_RULE",
-          entityType: "FeatureFlag",
-          entityId: flagId,
-          beforeData: rule,
-        },
-      });
+    const result = await deleteFlagRule(tenantContext.tenantId, flagId, ruleId, {
+      actorId: session.user.id,
     });
 
+    if (!result.success) {
+      return NextResponse.json({ error: result.error }, { status: result.status });
+    }
+
     return NextResponse.json({ success: true });
   } catch (error) {
     console.error("Error deleting rule:", error);
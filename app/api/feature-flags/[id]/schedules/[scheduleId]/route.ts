@@ -0,0 +1,73 @@
+import { prisma } from "@/lib/prisma";
+import { getCurrentTenantContext } from "@/lib/tenant";
+import { getSession } from "@/lib/auth";
+import { NextRequest, NextResponse } from "next/server";
+
+type PrismaTransaction = Omit<typeof prisma, "$connect" | "$disconnect" | "$on" | "$transaction" | "$use" | "$extends">;
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; scheduleId: string }> }
+) {
+  try {
+    const session = await getSession();
+    const tenantContext = await getCurrentTenantContext();
+    const { id: flagId, scheduleId } = await params;
+
+    if (!session.user || !tenantContext) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const schedule = await prisma.scheduledFlagChange.findFirst({
+      where: { id: scheduleId, flagId, tenantId: tenantContext.tenantId },
+    });
+
+    if (!schedule) {
+      return NextResponse.json({ error: "Scheduled change not found" }, { status: 404 });
+    }
+
+    // Only pending changes can be cancelled; guard the update so a change the worker already claimed is left alone
+    const cancelled = await prisma.$transaction(async (tx: PrismaTransaction) => {
+      const result = await tx.scheduledFlagChange.updateMany({
+        where: { id: scheduleId, status: "PENDING" },
+        data: { status: "CANCELLED" },
+      });
+
+      if (result.count === 0) {
+        return null;
+      }
+
+      const updated = await tx.scheduledFlagChange.findUniqueOrThrow({ where: { id: scheduleId } });
+
+      // Audit log
+      await tx.auditLog.create({
+        data: {
+          tenantId: tenantContext.tenantId,
+          actorId: session.user!.id,
+          action: "CANCEL_SCHEDULED_CHANGE",
+          entityType: "FeatureFlag",
+          entityId: flagId,
+          beforeData: schedule,
+          afterData: updated,
+        },
+      });
+
+      return updated;
+    });
+
+    if (!cancelled) {
+      return NextResponse.json(
+        { error: `Scheduled change is already ${schedule.status.toLowerCase()}` },
+        { status: 409 }
+      );
+    }
+
+    return NextResponse.json(cancelled);
+  } catch (error) {
+    console.error("Error cancelling scheduled change:", error);
+    return NextResponse.json(
+      { error: "Failed to cancel scheduled change" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,146 @@
+import { prisma } from "@/lib/prisma";
+import { Prisma } from "@prisma/client";
+import { getCurrentTenantContext } from "@/lib/tenant";
+import { getSession } from "@/lib/auth";
+import { flagPatchSchema } from "@/lib/flag-updates";
+import { approvalConflict } from "@/lib/flag-change-requests";
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+
+type PrismaTransaction = Omit<typeof prisma, "$connect" | "$disconnect" | "$on" | "$transaction" | "$use" | "$extends">;
+
+const createScheduleSchema = z.object({
+  scheduledFor: z.coerce.date(),
+  patch: flagPatchSchema.refine((patch) => Object.keys(patch).length > 0, {
+    message: "Scheduled change must update at least one field",
+  }),
+});
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getSession();
+    const tenantContext = await getCurrentTenantContext();
+    const { id: flagId } = await params;
+
+    if (!session.user || !tenantContext) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const flag = await prisma.featureFlag.findFirst({
+      where: { id: flagId, tenantId: tenantContext.tenantId },
+    });
+
+    if (!flag) {
+      return NextResponse.json({ error: "Feature flag not found" }, { status: 404 });
+    }
+
+    const schedules = await prisma.scheduledFlagChange.findMany({
+      where: { flagId, tenantId: tenantContext.tenantId },
+      include: { createdBy: { select: { id: true, name: true } } },
+      orderBy: { scheduledFor: "asc" },
+    });
+
+    return NextResponse.json({ schedules });
+  } catch (error) {
+    console.error("Error fetching scheduled changes:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch scheduled changes" },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getSession();
+    const tenantContext = await getCurrentTenantContext();
+    const { id: flagId } = await params;
+
+    if (!session.user || !tenantContext) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const flag = await prisma.featureFlag.findFirst({
+      where: { id: flagId, tenantId: tenantContext.tenantId },
+      include: { rules: { select: { id: true } } },
+    });
+
+    if (!flag) {
+      return NextResponse.json({ error: "Feature flag not found" }, { status: 404 });
+    }
+
+    // The worker applies these later without review
+    const conflict = await approvalConflict(tenantContext.tenantId, flag.environment, "schedule changes");
+    if (conflict) {
+      return NextResponse.json({ error: conflict }, { status: 409 });
+    }
+
+    const body = await request.json();
+    const parsed = createScheduleSchema.safeParse(body);
+
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: parsed.error.issues[0].message },
+        { status: 400 }
+      );
+    }
+
+    const { scheduledFor, patch } = parsed.data;
+
+    if (scheduledFor.getTime() <= Date.now()) {
+      return NextResponse.json(
+        { error: "Scheduled time must be in the future" },
+        { status: 400 }
+      );
+    }
+
+    // The full patch is validated again when applied, but catch obviously stale rule ids now
+    const missingRule = patch.rules?.find((edit) => !flag.rules.some((rule) => rule.id === edit.id));
+    if (missingRule) {
+      return NextResponse.json(
+        { error: `Invalid rule: rule ${missingRule.id} not found` },
+        { status: 400 }
+      );
+    }
+
+    const schedule = await prisma.$transaction(async (tx: PrismaTransaction) => {
+      const created = await tx.scheduledFlagChange.create({
+        data: {
+          tenantId: tenantContext.tenantId,
+          flagId,
+          scheduledFor,
+          patch: patch as unknown as Prisma.InputJsonValue,
+          createdById: session.user!.id,
+        },
+      });
+
+      // Audit log
+      await tx.auditLog.create({
+        data: {
+          tenantId: tenantContext.tenantId,
+          actorId: session.user!.id,
+          action: "SCHEDULE_CHANGE",
+          entityType: "FeatureFlag",
+          entityId: flagId,
+          afterData: created,
+        },
+      });
+
+      return created;
+    });
+
+    return NextResponse.json(schedule, { status: 201 });
+  } catch (error) {
+    console.error("Error scheduling flag change:", error);
+    return NextResponse.json(
+      { error: "Failed to schedule flag change" },
+      { status: 500 }
+    );
+  }
+}
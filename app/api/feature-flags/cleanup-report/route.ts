@@ -0,0 +1,40 @@
+import { getCurrentTenantContext } from "@/lib/tenant";
+import { getSession } from "@/lib/auth";
+import { buildFlagCleanupReport, STALE_AFTER_DAYS } from "@/lib/flag-cleanup";
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+
+const cleanupReportSchema = z.object({
+  days: z.coerce.number().int().min(1).max(365).default(STALE_AFTER_DAYS),
+});
+
+// GET /api/feature-flags/cleanup-report?days=30 - Classify every flag as active, permanent, stale, fully rolled out or unused
+export async function GET(request: NextRequest) {
+  try {
+    const session = await getSession();
+    const tenantContext = await getCurrentTenantContext();
+
+    if (!session.user || !tenantContext) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const parsed = cleanupReportSchema.safeParse(Object.fromEntries(request.nextUrl.searchParams.entries()));
+
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: parsed.error.issues[0].message },
+        { status: 400 }
+      );
+    }
+
+    const report = await buildFlagCleanupReport(tenantContext.tenantId, new Date(), parsed.data.days);
+
+    return NextResponse.json(report);
+  } catch (error) {
+    console.error("Error building flag cleanup report:", error);
+    return NextResponse.json(
+      { error: "Failed to build flag cleanup report" },
+      { status: 500 }
+    );
+  }
+}
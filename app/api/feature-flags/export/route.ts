@@ -0,0 +1,47 @@
+import { getCurrentTenantContext } from "@/lib/tenant";
+import { getSession } from "@/lib/auth";
+import { exportFlags, serializeFlagExport } from "@/lib/flag-import-export";
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+
+const exportSchema = z.object({
+  format: z.enum(["json", "yaml"]).default("json"),
+});
+
+// GET /api/feature-flags/export?format=json|yaml - Download every flag in the tenant
+export async function GET(request: NextRequest) {
+  try {
+    const session = await getSession();
+    const tenantContext = await getCurrentTenantContext();
+
+    if (!session.user || !tenantContext) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const parsed = exportSchema.safeParse(Object.fromEntries(request.nextUrl.searchParams.entries()));
+
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: parsed.error.issues[0].message },
+        { status: 400 }
+      );
+    }
+
+    const { format } = parsed.data;
+    const document = await exportFlags(tenantContext.tenantId);
+
+    return new NextResponse(serializeFlagExport(document, format), {
+      status: 200,
+      headers: {
+        "Content-Type": format === "yaml" ? "application/yaml" : "application/json",
+        "Content-Disposition": `attachment; filename="flags-${tenantContext.tenantSlug}.${format === "yaml" ? "yaml" : "json"}"`,
+      },
+    });
+  } catch (error) {
+    console.error("Error exporting feature flags:", error);
+    return NextResponse.json(
+      { error: "Failed to export feature flags" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,75 @@
+import { prisma } from "@/lib/prisma";
+import { getCurrentTenantContext } from "@/lib/tenant";
+import { getSession } from "@/lib/auth";
+import { importFlags, parseFlagImport, planFlagImport } from "@/lib/flag-import-export";
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+
+const importSchema = z.object({
+  format: z.enum(["json", "yaml"]).optional(),
+  dryRun: z.enum(["true", "false"]).default("false"),
+});
+
+// POST /api/feature-flags/import?format=json|yaml&dryRun=true - Import flags from an export document
+// The body is the document itself; format defaults from the Content-Type
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getSession();
+    const tenantContext = await getCurrentTenantContext();
+
+    if (!session.user || !tenantContext) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const parsed = importSchema.safeParse(Object.fromEntries(request.nextUrl.searchParams.entries()));
+
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: parsed.error.issues[0].message },
+        { status: 400 }
+      );
+    }
+
+    const dryRun = parsed.data.dryRun === "true";
+    const format = parsed.data.format ?? (request.headers.get("content-type")?.includes("yaml") ? "yaml" : "json");
+
+    // Importing rewrites flags in every environment at once
+    if (!dryRun) {
+      const membership = await prisma.membership.findFirst({
+        where: {
+          userId: session.user.id,
+          tenantId: tenantContext.tenantId,
+        },
+      });
+
+      if (membership?.role !== "ADMIN") {
+        return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+      }
+    }
+
+    const document = parseFlagImport(await request.text(), format);
+
+    if (!document.success) {
+      return NextResponse.json({ error: document.error }, { status: 400 });
+    }
+
+    if (dryRun) {
+      const plan = await planFlagImport(tenantContext.tenantId, document.document);
+      return NextResponse.json({ dryRun: true, ...plan });
+    }
+
+    const result = await importFlags(tenantContext.tenantId, document.document, session.user.id);
+
+    if (!result.success) {
+      return NextResponse.json({ error: result.error, ...result.plan }, { status: result.status });
+    }
+
+    return NextResponse.json({ dryRun: false, ...result.plan });
+  } catch (error) {
+    console.error("Error importing feature flags:", error);
+    return NextResponse.json(
+      { error: "Failed to import feature flags" },
+      { status: 500 }
+    );
+  }
+}
@@ -1,6 +1,9 @@
 import { prisma } from "@/lib/prisma";
 import { getCurrentTenantContext } from "@/lib/tenant";
 import { getSession } from "@/lib/auth";
+import { findTenantFlags } from "@/lib/flag-queries";
+import { recordFlagChange } from "@/lib/flag-changes";
+import { recordFlagRevision } from "@/lib/flag-revisions";
 import { NextRequest, NextResponse } from "next/server";
 import { z } from "zod";
 
@@ -12,6 +15,7 @@ const createFlagSchema = z.object({
   description: z.string().optional(),
   environment: z.enum(["DEV", "STAGING", "PROD"]),
   enabled: z.boolean().default(false),
+  lifetime: z.enum(["TEMPORARY", "PERMANENT"]).default("TEMPORARY"),
 });
 
 const listFlagsSchema = z.object({
@@ -32,30 +36,7 @@ export async function GET(request: NextRequest) {
     const query = Object.fromEntries(searchParams.entries());
     const parsed = listFlagsSchema.parse(query);
 
-    const where: Record<string, unknown> = {
-      tenantId: tenantContext.tenantId,
-    };
-
-    if (parsed.environment) {
-      where.environment = parsed.environment;
-    }
-
-    if (parsed.search) {
-      where.OR = [
-        { key: { contains: parsed.search, mode: "insensitive" } },
-        { name: { contains: parsed.search, mode: "insensitive" } },
-      ];
-    }
-
-    const flags = await prisma.featureFlag.findMany({
-      where,
-      include: {
-        rules: {
-          orderBy: { order: "asc" },
-        },
-      },
-      orderBy: { createdAt: "desc" },
-    });
+    const flags = await findTenantFlags(tenantContext.tenantId, parsed);
 
     return NextResponse.json({ flags });
   } catch (error) {
@@ -111,12 +92,26 @@ export async function POST(request: NextRequest) {
           description: parsed.data.description,
           environment: parsed.data.environment,
           enabled: parsed.data.enabled,
+          lifetime: parsed.data.lifetime,
+          ownerId: session.user!.id,
         },
         include: {
           rules: true,
         },
       });
 
+      await recordFlagChange(tx, tenantContext.tenantId, {
+        type: "flag_updated",
+        environment: newFlag.environment,
+        flagId: newFlag.id,
+        flagKey: newFlag.key,
+      });
+
+      await recordFlagRevision(tx, tenantContext.tenantId, newFlag.id, {
+        changeType: "created",
+        actorId: session.user!.id,
+      });
+
       // Audit log
       await tx.auditLog.create({
         data: {
@@ -0,0 +1,111 @@
+import { prisma } from "@/lib/prisma";
+import { getCurrentTenantContext } from "@/lib/tenant";
+import { getSession } from "@/lib/auth";
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+
+type PrismaTransaction = Omit<typeof prisma, "$connect" | "$disconnect" | "$on" | "$transaction" | "$use" | "$extends">;
+
+const updateSettingsSchema = z.object({
+  environments: z.array(z.enum(["DEV", "STAGING", "PROD"])),
+});
+
+// GET /api/flag-approval-settings - Environments whose flag changes need a second person
+export async function GET() {
+  try {
+    const session = await getSession();
+    const tenantContext = await getCurrentTenantContext();
+
+    if (!session.user || !tenantContext) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const tenant = await prisma.tenant.findUnique({
+      where: { id: tenantContext.tenantId },
+      select: { flagApprovalEnvironments: true },
+    });
+
+    if (!tenant) {
+      return NextResponse.json({ error: "Tenant not found" }, { status: 404 });
+    }
+
+    return NextResponse.json({ environments: tenant.flagApprovalEnvironments });
+  } catch (error) {
+    console.error("Error fetching approval settings:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch approval settings" },
+      { status: 500 }
+    );
+  }
+}
+
+// PUT /api/flag-approval-settings - Admins choose which environments require approval
+export async function PUT(request: NextRequest) {
+  try {
+    const session = await getSession();
+    const tenantContext = await getCurrentTenantContext();
+
+    if (!session.user || !tenantContext) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const membership = await prisma.membership.findFirst({
+      where: {
+        userId: session.user.id,
+        tenantId: tenantContext.tenantId,
+      },
+    });
+
+    if (membership?.role !== "ADMIN") {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    const body = await request.json();
+    const parsed = updateSettingsSchema.safeParse(body);
+
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: parsed.error.issues[0].message },
+        { status: 400 }
+      );
+    }
+
+    const environments = [...new Set(parsed.data.environments)];
+
+    const tenant = await prisma.$transaction(async (tx: PrismaTransaction) => {
+      const before = await tx.tenant.findUniqueOrThrow({
+        where: { id: tenantContext.tenantId },
+        select: { flagApprovalEnvironments: true },
+      });
+
+      const updated = await tx.tenant.update({
+        where: { id: tenantContext.tenantId },
+        data: { flagApprovalEnvironments: environments },
+        select: { flagApprovalEnvironments: true },
+      });
+
+      // Audit log
+      await tx.auditLog.create({
+        data: {
+          tenantId: tenantContext.tenantId,
+          actorId: session.user!.id,
+          action: "UPDATE_APPROVAL_SETTINGS",
+          entityType: "Tenant",
+          entityId: tenantContext.tenantId,
+          beforeData: before,
+          afterData: updated,
+        },
+      });
+
+      return updated;
+    });
+
+    return NextResponse.json({ environments: tenant.flagApprovalEnvironments });
+  } catch (error) {
+    console.error("Error updating approval settings:", error);
+    return NextResponse.json(
+      { error: "Failed to update approval settings" },
+      { status: 500 }
+    );
+  }
+}
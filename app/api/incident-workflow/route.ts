@@ -0,0 +1,108 @@
+import { prisma } from "@/lib/prisma";
+import { getCurrentTenantContext } from "@/lib/tenant";
+import { getSession } from "@/lib/auth";
+import { DEFAULT_INCIDENT_WORKFLOW, getIncidentWorkflow, incidentWorkflowSchema } from "@/lib/incident-workflow";
+import { Prisma } from "@prisma/client";
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+
+type PrismaTransaction = Omit<typeof prisma, "$connect" | "$disconnect" | "$on" | "$transaction" | "$use" | "$extends">;
+
+// null resets the tenant to the default workflow
+const updateWorkflowSchema = z.object({
+  workflow: incidentWorkflowSchema.nullable(),
+});
+
+// GET /api/incident-workflow - Allowed incident status transitions for this tenant
+export async function GET() {
+  try {
+    const session = await getSession();
+    const tenantContext = await getCurrentTenantContext();
+
+    if (!session.user || !tenantContext) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const workflow = await getIncidentWorkflow(tenantContext.tenantId);
+
+    return NextResponse.json({ workflow, isDefault: workflow === DEFAULT_INCIDENT_WORKFLOW });
+  } catch (error) {
+    console.error("Error fetching incident workflow:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch incident workflow" },
+      { status: 500 }
+    );
+  }
+}
+
+// PUT /api/incident-workflow - Admins replace the tenant's status workflow
+export async function PUT(request: NextRequest) {
+  try {
+    const session = await getSession();
+    const tenantContext = await getCurrentTenantContext();
+
+    if (!session.user || !tenantContext) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const membership = await prisma.membership.findFirst({
+      where: {
+        userId: session.user.id,
+        tenantId: tenantContext.tenantId,
+      },
+    });
+
+    if (membership?.role !== "ADMIN") {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    const body = await request.json();
+    const parsed = updateWorkflowSchema.safeParse(body);
+
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: parsed.error.issues[0].message },
+        { status: 400 }
+      );
+    }
+
+    const { workflow } = parsed.data;
+
+    await prisma.$transaction(async (tx: PrismaTransaction) => {
+      const before = await tx.tenant.findUniqueOrThrow({
+        where: { id: tenantContext.tenantId },
+        select: { incidentWorkflow: true },
+      });
+
+      const updated = await tx.tenant.update({
+        where: { id: tenantContext.tenantId },
+        data: { incidentWorkflow: workflow ?? Prisma.DbNull },
+        select: { incidentWorkflow: true },
+      });
+
+      // Audit log
+      await tx.auditLog.create({
+        data: {
+          tenantId: tenantContext.tenantId,
+          actorId: session.user!.id,
+          action: "UPDATE_INCIDENT_WORKFLOW",
+          entityType: "Tenant",
+          entityId: tenantContext.tenantId,
+          beforeData: before as Prisma.InputJsonValue,
+          afterData: updated as Prisma.InputJsonValue,
+        },
+      });
+    });
+
+    return NextResponse.json({
+      workflow: workflow ?? DEFAULT_INCIDENT_WORKFLOW,
+      isDefault: workflow === null,
+    });
+  } catch (error) {
+    console.error("Error updating incident workflow:", error);
+    return NextResponse.json(
+      { error: "Failed to update incident workflow" },
+      { status: 500 }
+    );
+  }
+}
@@ -3,19 +3,15 @@ import { getCurrentTenantContext } from "@/lib/tenant";
 import { getSession } from "@/lib/auth";
 import { NextRequest, NextResponse } from "next/server";
 import { z } from "zod";
+import { startEscalation, stopEscalation } from "@/lib/escalations";
+import { checkTransition, getIncidentWorkflow, INCIDENT_STATUSES } from "@/lib/incident-workflow";
+import { computeSla, findSlaTarget, getSlaTargets } from "@/lib/incident-sla";
 
 const updateStatusSchema = z.object({
-  status: z.enum(["OPEN", "MITIGATED", "RESOLVED"]),
+  status: z.enum(INCIDENT_STATUSES),
   message: z.string().optional(),
 });
 
-// Valid status transitions
-const VALID_TRANSITIONS: Record<string, string[]> = {
-  OPEN: ["MITIGATED", "RESOLVED"],
-  MITIGATED: ["RESOLVED"],
-  RESOLVED: [],
-};
-
 export async function GET(
   request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
@@ -46,6 +42,9 @@ export async function GET(
           orderBy: { createdAt: "asc" },
         },
         attachments: true,
+        escalation: {
+          include: { policy: { select: { id: true, name: true } } },
+        },
       },
     });
 
@@ -56,7 +55,10 @@ export async function GET(
       );
     }
 
-    return NextResponse.json(incident);
+    const targets = await getSlaTargets(tenantContext.tenantId);
+    const target = findSlaTarget(targets, incident.severity, incident.service);
+
+    return NextResponse.json({ ...incident, sla: computeSla(incident, incident.timeline, target) });
   } catch (error) {
     console.error("Error fetching incident:", error);
     return NextResponse.json(
@@ -103,15 +105,11 @@ export async function PATCH(
       );
     }
 
-    // Validate status transition
-    const validTransitions = VALID_TRANSITIONS[incident.status] || [];
-    if (!validTransitions.includes(newStatus)) {
-      return NextResponse.json(
-        {
-          error: `Cannot transition from ${incident.status} to ${newStatus}. Valid transitions: ${validTransitions.join(", ") || "none"}`,
-        },
-        { status: 400 }
-      );
+    // Validate status transition against the tenant's workflow
+    const workflow = await getIncidentWorkflow(tenantContext.tenantId);
+    const transitionError = checkTransition(workflow, incident.status, newStatus);
+    if (transitionError) {
+      return NextResponse.json({ error: transitionError }, { status: 400 });
     }
 
     // Verify user exists in database before creating timeline/audit logs
@@ -172,6 +170,13 @@ export async function PATCH(
       return updated;
     });
 
+    // Any move out of OPEN acknowledges the incident; reopening pages from the first level again
+    if (newStatus !== "OPEN") {
+      await stopEscalation(id);
+    } else if (incident.status !== "OPEN") {
+      await startEscalation(tenantContext, updatedIncident);
+    }
+
     return NextResponse.json(updatedIncident);
   } catch (error) {
     if (error instanceof z.ZodError) {
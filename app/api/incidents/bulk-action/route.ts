@@ -4,12 +4,19 @@ import { getCurrentTenantContext } from "@/lib/tenant";
 import { prisma } from "@/lib/prisma";
 import { Prisma } from "@prisma/client";
 import { z } from "zod";
+import { startEscalation, stopEscalation } from "@/lib/escalations";
+import {
+  getIncidentWorkflow,
+  INCIDENT_STATUSES,
+  partitionTransitions,
+  type RejectedTransition,
+} from "@/lib/incident-workflow";
 
 const bulkActionSchema = z.object({
   incidentIds: z.array(z.string()).min(1),
   action: z.enum(["assign-engineer", "change-status"]),
   assigneeId: z.string().optional(),
-  status: z.enum(["OPEN", "MITIGATED", "RESOLVED"]).optional(),
+  status: z.enum(INCIDENT_STATUSES).optional(),
   message: z.string().optional(),
 });
 
@@ -50,6 +57,7 @@ export async function POST(request: NextRequest) {
     });
 
     let updatedCount = 0;
+    const rejected: RejectedTransition[] = [];
 
     if (action === "assign-engineer") {
       if (!assigneeId) {
@@ -112,9 +120,20 @@ export async function POST(request: NextRequest) {
         );
       }
 
+      // Report each incident the workflow rejects instead of skipping it silently
+      const workflow = await getIncidentWorkflow(tenantContext.tenantId);
+      const partition = partitionTransitions(workflow, incidents, status);
+      const found = new Set(incidents.map((incident) => incident.id));
+      for (const incidentId of incidentIds) {
+        if (!found.has(incidentId)) {
+          rejected.push({ incidentId, error: "Incident not found" });
+        }
+      }
+      rejected.push(...partition.rejected);
+
       const result = await prisma.incident.updateMany({
         where: {
-          id: { in: incidentIds },
+          id: { in: partition.allowed.map((incident) => incident.id) },
           tenantId: tenantContext.tenantId,
         },
         data: { status },
@@ -122,9 +141,17 @@ export async function POST(request: NextRequest) {
 
       updatedCount = result.count;
 
+      for (const incident of partition.allowed) {
+        if (status !== "OPEN") {
+          await stopEscalation(incident.id);
+        } else if (incident.status !== "OPEN") {
+          await startEscalation(tenantContext, incident);
+        }
+      }
+
       // Create timeline events and audit logs (only if user exists)
       if (userExists) {
-        for (const incident of incidents) {
+        for (const incident of partition.allowed) {
           await prisma.timelineEvent.create({
             data: {
               incidentId: incident.id,
@@ -154,7 +181,7 @@ export async function POST(request: NextRequest) {
     }
 
     return NextResponse.json(
-      { success: true, updatedCount },
+      { success: true, updatedCount, rejected },
       { status: 200 }
     );
   } catch (error) {
@@ -1,6 +1,10 @@
 import { prisma } from "@/lib/prisma";
 import { getCurrentTenantContext } from "@/lib/tenant";
 import { getSession } from "@/lib/auth";
+import { rollbackGuardedRollouts } from "@/lib/rollout-plans";
+import { startEscalation } from "@/lib/escalations";
+import { INCIDENT_STATUSES } from "@/lib/incident-workflow";
+import { computeSla, findSlaTarget, getSlaTargets } from "@/lib/incident-sla";
 import { NextRequest, NextResponse } from "next/server";
 import { z } from "zod";
 
@@ -13,7 +17,7 @@ const createIncidentSchema = z.object({
 });
 
 const listIncidentsSchema = z.object({
-  status: z.enum(["OPEN", "MITIGATED", "RESOLVED"]).optional(),
+  status: z.enum(INCIDENT_STATUSES).optional(),
   severity: z.enum(["SEV1", "SEV2", "SEV3", "SEV4"]).optional(),
   environment: z.enum(["DEV", "STAGING", "PROD"]).optional(),
   service: z.string().optional(),
@@ -74,6 +78,10 @@ export async function GET(request: NextRequest) {
       include: {
         createdBy: { select: { id: true, name: true, email: true } },
         assignee: { select: { id: true, name: true, email: true } },
+        timeline: {
+          where: { type: "STATUS_CHANGE" },
+          select: { type: true, createdAt: true, data: true },
+        },
       },
       orderBy: { createdAt: "desc" },
       take: limit + 1, // fetch one extra to determine if there's a next page
@@ -86,8 +94,15 @@ export async function GET(request: NextRequest) {
       nextCursor = incidents[incidents.length - 1]?.id || null;
     }
 
+    // SLA clocks come from the status change events, which aren't returned themselves
+    const targets = await getSlaTargets(tenantContext.tenantId);
+    const now = new Date();
+
     return NextResponse.json({
-      incidents,
+      incidents: incidents.map(({ timeline, ...incident }) => ({
+        ...incident,
+        sla: computeSla(incident, timeline, findSlaTarget(targets, incident.severity, incident.service), now),
+      })),
       nextCursor,
       hasMore: incidents.length === limit,
     });
@@ -167,6 +182,12 @@ export async function POST(request: NextRequest) {
       },
     });
 
+    // Roll back flag rollouts guarded against this service
+    await rollbackGuardedRollouts(tenantContext, incident, session.user.id);
+
+    // Page the service's escalation policy
+    await startEscalation(tenantContext, incident);
+
     return NextResponse.json(incident, { status: 201 });
   } catch (error) {
     if (error instanceof z.ZodError) {
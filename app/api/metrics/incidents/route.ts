@@ -0,0 +1,41 @@
+import { getCurrentTenantContext } from "@/lib/tenant";
+import { getSession } from "@/lib/auth";
+import { getIncidentMetrics, METRICS_BUCKETS } from "@/lib/incident-metrics";
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+
+const metricsSchema = z.object({
+  days: z.coerce.number().int().min(1).max(365).default(30),
+  bucket: z.enum(METRICS_BUCKETS).default("day"),
+});
+
+// GET /api/metrics/incidents?days=30&bucket=day - MTTA/MTTM/MTTR, breakdowns and trends for incidents opened in the range
+export async function GET(request: NextRequest) {
+  try {
+    const session = await getSession();
+    const tenantContext = await getCurrentTenantContext();
+
+    if (!session.user || !tenantContext) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const parsed = metricsSchema.safeParse(Object.fromEntries(request.nextUrl.searchParams.entries()));
+
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: parsed.error.issues[0].message },
+        { status: 400 }
+      );
+    }
+
+    const metrics = await getIncidentMetrics(tenantContext.tenantId, parsed.data.days, parsed.data.bucket);
+
+    return NextResponse.json(metrics);
+  } catch (error) {
+    console.error("Error fetching incident metrics:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch incident metrics" },
+      { status: 500 }
+    );
+  }
+}
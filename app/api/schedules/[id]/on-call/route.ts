@@ -0,0 +1,41 @@
+import { getCurrentTenantContext } from "@/lib/tenant";
+import { getSession } from "@/lib/auth";
+import { getOnCall } from "@/lib/on-call";
+import { NextRequest, NextResponse } from "next/server";
+
+// GET /api/schedules/[id]/on-call?at=<ISO timestamp> - Who is on call at that time (default: now)
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getSession();
+    const tenantContext = await getCurrentTenantContext();
+    const { id } = await params;
+
+    if (!session.user || !tenantContext) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const atParam = request.nextUrl.searchParams.get("at");
+    const at = atParam ? new Date(atParam) : new Date();
+
+    if (Number.isNaN(at.getTime())) {
+      return NextResponse.json({ error: "at must be an ISO timestamp" }, { status: 400 });
+    }
+
+    const onCall = await getOnCall(tenantContext.tenantId, id, at);
+
+    if (onCall === undefined) {
+      return NextResponse.json({ error: "Schedule not found" }, { status: 404 });
+    }
+
+    return NextResponse.json({ scheduleId: id, at, onCall });
+  } catch (error) {
+    console.error("Error resolving on-call:", error);
+    return NextResponse.json(
+      { error: "Failed to resolve on-call" },
+      { status: 500 }
+    );
+  }
+}
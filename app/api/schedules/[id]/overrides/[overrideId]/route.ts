@@ -0,0 +1,66 @@
+import { prisma } from "@/lib/prisma";
+import { getCurrentTenantContext } from "@/lib/tenant";
+import { getSession } from "@/lib/auth";
+import { NextRequest, NextResponse } from "next/server";
+
+type PrismaTransaction = Omit<typeof prisma, "$connect" | "$disconnect" | "$on" | "$transaction" | "$use" | "$extends">;
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; overrideId: string }> }
+) {
+  try {
+    const session = await getSession();
+    const tenantContext = await getCurrentTenantContext();
+    const { id, overrideId } = await params;
+
+    if (!session.user || !tenantContext) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const membership = await prisma.membership.findFirst({
+      where: {
+        userId: session.user.id,
+        tenantId: tenantContext.tenantId,
+      },
+    });
+
+    if (!membership || membership.role === "VIEWER") {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    const existingOverride = await prisma.override.findFirst({
+      where: { id: overrideId, scheduleId: id, tenantId: tenantContext.tenantId },
+    });
+
+    if (!existingOverride) {
+      return NextResponse.json({ error: "Override not found" }, { status: 404 });
+    }
+
+    await prisma.$transaction(async (tx: PrismaTransaction) => {
+      await tx.override.delete({
+        where: { id: overrideId },
+      });
+
+      // Audit log
+      await tx.auditLog.create({
+        data: {
+          tenantId: tenantContext.tenantId,
+          actorId: session.user!.id,
+          action: "DELETE",
+          entityType: "Override",
+          entityId: overrideId,
+          beforeData: existingOverride,
+        },
+      });
+    });
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("Error deleting override:", error);
+    return NextResponse.json(
+      { error: "Failed to delete override" },
+      { status: 500 }
+    );
+  }
+}
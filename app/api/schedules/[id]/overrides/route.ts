@@ -0,0 +1,94 @@
+import { prisma } from "@/lib/prisma";
+import { getCurrentTenantContext } from "@/lib/tenant";
+import { getSession } from "@/lib/auth";
+import { findNonMembers, overrideSchema } from "@/lib/on-call";
+import { NextRequest, NextResponse } from "next/server";
+
+type PrismaTransaction = Omit<typeof prisma, "$connect" | "$disconnect" | "$on" | "$transaction" | "$use" | "$extends">;
+
+// POST /api/schedules/[id]/overrides - Put someone on call for a while, ahead of the rotations
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getSession();
+    const tenantContext = await getCurrentTenantContext();
+    const { id } = await params;
+
+    if (!session.user || !tenantContext) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    // Engineers can cover for each other; only viewers are left out
+    const membership = await prisma.membership.findFirst({
+      where: {
+        userId: session.user.id,
+        tenantId: tenantContext.tenantId,
+      },
+    });
+
+    if (!membership || membership.role === "VIEWER") {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    const schedule = await prisma.schedule.findFirst({
+      where: { id, tenantId: tenantContext.tenantId },
+    });
+
+    if (!schedule) {
+      return NextResponse.json({ error: "Schedule not found" }, { status: 404 });
+    }
+
+    const body = await request.json();
+    const parsed = overrideSchema.safeParse(body);
+
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: parsed.error.issues[0].message },
+        { status: 400 }
+      );
+    }
+
+    const nonMembers = await findNonMembers(tenantContext.tenantId, [parsed.data.userId]);
+    if (nonMembers.length > 0) {
+      return NextResponse.json(
+        { error: `User "${parsed.data.userId}" is not a member of this tenant` },
+        { status: 400 }
+      );
+    }
+
+    const override = await prisma.$transaction(async (tx: PrismaTransaction) => {
+      const newOverride = await tx.override.create({
+        data: {
+          tenantId: tenantContext.tenantId,
+          scheduleId: id,
+          createdById: session.user!.id,
+          ...parsed.data,
+        },
+      });
+
+      // Audit log
+      await tx.auditLog.create({
+        data: {
+          tenantId: tenantContext.tenantId,
+          actorId: session.user!.id,
+          action: "CREATE",
+          entityType: "Override",
+          entityId: newOverride.id,
+          afterData: newOverride,
+        },
+      });
+
+      return newOverride;
+    });
+
+    return NextResponse.json(override, { status: 201 });
+  } catch (error) {
+    console.error("Error creating override:", error);
+    return NextResponse.json(
+      { error: "Failed to create override" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,216 @@
+import { prisma } from "@/lib/prisma";
+import { getCurrentTenantContext } from "@/lib/tenant";
+import { getSession } from "@/lib/auth";
+import { findNonMembers, resolveOnCall, rotationSchema, scheduleSchema, toRotationData } from "@/lib/on-call";
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+
+type PrismaTransaction = Omit<typeof prisma, "$connect" | "$disconnect" | "$on" | "$transaction" | "$use" | "$extends">;
+
+const updateScheduleSchema = scheduleSchema.partial().extend({
+  rotations: z.array(rotationSchema).optional(),
+});
+
+async function isAdmin(userId: string, tenantId: string): Promise<boolean> {
+  const membership = await prisma.membership.findFirst({
+    where: { userId, tenantId },
+  });
+  return membership?.role === "ADMIN";
+}
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getSession();
+    const tenantContext = await getCurrentTenantContext();
+    const { id } = await params;
+
+    if (!session.user || !tenantContext) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const schedule = await prisma.schedule.findFirst({
+      where: { id, tenantId: tenantContext.tenantId },
+      include: {
+        rotations: { orderBy: [{ layer: "desc" }, { createdAt: "asc" }] },
+        overrides: { where: { endsAt: { gt: new Date() } }, orderBy: { startsAt: "asc" } },
+      },
+    });
+
+    if (!schedule) {
+      return NextResponse.json({ error: "Schedule not found" }, { status: 404 });
+    }
+
+    return NextResponse.json({ ...schedule, onCall: resolveOnCall(schedule, new Date()) });
+  } catch (error) {
+    console.error("Error fetching schedule:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch schedule" },
+      { status: 500 }
+    );
+  }
+}
+
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getSession();
+    const tenantContext = await getCurrentTenantContext();
+    const { id } = await params;
+
+    if (!session.user || !tenantContext) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    if (!(await isAdmin(session.user.id, tenantContext.tenantId))) {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    const existingSchedule = await prisma.schedule.findFirst({
+      where: { id, tenantId: tenantContext.tenantId },
+      include: { rotations: true },
+    });
+
+    if (!existingSchedule) {
+      return NextResponse.json({ error: "Schedule not found" }, { status: 404 });
+    }
+
+    const body = await request.json();
+    const parsed = updateScheduleSchema.safeParse(body);
+
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: parsed.error.issues[0].message },
+        { status: 400 }
+      );
+    }
+
+    const { rotations, ...data } = parsed.data;
+
+    if (rotations) {
+      const nonMembers = await findNonMembers(
+        tenantContext.tenantId,
+        rotations.flatMap((rotation) => rotation.userIds)
+      );
+      if (nonMembers.length > 0) {
+        return NextResponse.json(
+          { error: `User "${nonMembers[0]}" is not a member of this tenant` },
+          { status: 400 }
+        );
+      }
+    }
+
+    if (data.name && data.name !== existingSchedule.name) {
+      const duplicate = await prisma.schedule.findFirst({
+        where: { tenantId: tenantContext.tenantId, name: data.name },
+      });
+      if (duplicate) {
+        return NextResponse.json(
+          { error: `Schedule "${data.name}" already exists` },
+          { status: 409 }
+        );
+      }
+    }
+
+    const schedule = await prisma.$transaction(async (tx: PrismaTransaction) => {
+      await tx.schedule.update({
+        where: { id },
+        data,
+      });
+
+      // The rotation list is replaced as a whole; overrides are left alone
+      if (rotations) {
+        await tx.rotation.deleteMany({ where: { scheduleId: id } });
+        await tx.rotation.createMany({
+          data: rotations.map((rotation) => toRotationData(tenantContext.tenantId, id, rotation)),
+        });
+      }
+
+      const updated = await tx.schedule.findUniqueOrThrow({
+        where: { id },
+        include: { rotations: true },
+      });
+
+      // Audit log
+      await tx.auditLog.create({
+        data: {
+          tenantId: tenantContext.tenantId,
+          actorId: session.user!.id,
+          action: "UPDATE",
+          entityType: "Schedule",
+          entityId: id,
+          beforeData: existingSchedule,
+          afterData: updated,
+        },
+      });
+
+      return updated;
+    });
+
+    return NextResponse.json(schedule);
+  } catch (error) {
+    console.error("Error updating schedule:", error);
+    return NextResponse.json(
+      { error: "Failed to update schedule" },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getSession();
+    const tenantContext = await getCurrentTenantContext();
+    const { id } = await params;
+
+    if (!session.user || !tenantContext) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    if (!(await isAdmin(session.user.id, tenantContext.tenantId))) {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    const existingSchedule = await prisma.schedule.findFirst({
+      where: { id, tenantId: tenantContext.tenantId },
+      include: { rotations: true },
+    });
+
+    if (!existingSchedule) {
+      return NextResponse.json({ error: "Schedule not found" }, { status: 404 });
+    }
+
+    await prisma.$transaction(async (tx: PrismaTransaction) => {
+      await tx.schedule.delete({
+        where: { id },
+      });
+
+      // Audit log
+      await tx.auditLog.create({
+        data: {
+          tenantId: tenantContext.tenantId,
+          actorId: session.user!.id,
+          action: "DELETE",
+          entityType: "Schedule",
+          entityId: id,
+          beforeData: existingSchedule,
+        },
+      });
+    });
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("Error deleting schedule:", error);
+    return NextResponse.json(
+      { error: "Failed to delete schedule" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,126 @@
+import { prisma } from "@/lib/prisma";
+import { getCurrentTenantContext } from "@/lib/tenant";
+import { getSession } from "@/lib/auth";
+import { findNonMembers, getSchedules, scheduleWithRotationsSchema, toRotationData } from "@/lib/on-call";
+import { NextRequest, NextResponse } from "next/server";
+
+type PrismaTransaction = Omit<typeof prisma, "$connect" | "$disconnect" | "$on" | "$transaction" | "$use" | "$extends">;
+
+// GET /api/schedules - On-call schedules with their rotations, upcoming overrides and who is on call now
+export async function GET() {
+  try {
+    const session = await getSession();
+    const tenantContext = await getCurrentTenantContext();
+
+    if (!session.user || !tenantContext) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const schedules = await getSchedules(tenantContext.tenantId);
+
+    return NextResponse.json({ schedules });
+  } catch (error) {
+    console.error("Error fetching schedules:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch schedules" },
+      { status: 500 }
+    );
+  }
+}
+
+// POST /api/schedules - Admins create a schedule, optionally with its rotations
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getSession();
+    const tenantContext = await getCurrentTenantContext();
+
+    if (!session.user || !tenantContext) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const membership = await prisma.membership.findFirst({
+      where: {
+        userId: session.user.id,
+        tenantId: tenantContext.tenantId,
+      },
+    });
+
+    if (membership?.role !== "ADMIN") {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    const body = await request.json();
+    const parsed = scheduleWithRotationsSchema.safeParse(body);
+
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: parsed.error.issues[0].message },
+        { status: 400 }
+      );
+    }
+
+    const { rotations, ...data } = parsed.data;
+
+    const nonMembers = await findNonMembers(
+      tenantContext.tenantId,
+      rotations.flatMap((rotation) => rotation.userIds)
+    );
+    if (nonMembers.length > 0) {
+      return NextResponse.json(
+        { error: `User "${nonMembers[0]}" is not a member of this tenant` },
+        { status: 400 }
+      );
+    }
+
+    const existing = await prisma.schedule.findFirst({
+      where: { tenantId: tenantContext.tenantId, name: data.name },
+    });
+
+    if (existing) {
+      return NextResponse.json(
+        { error: `Schedule "${data.name}" already exists` },
+        { status: 409 }
+      );
+    }
+
+    const schedule = await prisma.$transaction(async (tx: PrismaTransaction) => {
+      const newSchedule = await tx.schedule.create({
+        data: {
+          tenantId: tenantContext.tenantId,
+          ...data,
+        },
+      });
+
+      await tx.rotation.createMany({
+        data: rotations.map((rotation) => toRotationData(tenantContext.tenantId, newSchedule.id, rotation)),
+      });
+
+      const created = await tx.schedule.findUniqueOrThrow({
+        where: { id: newSchedule.id },
+        include: { rotations: true },
+      });
+
+      // Audit log
+      await tx.auditLog.create({
+        data: {
+          tenantId: tenantContext.tenantId,
+          actorId: session.user!.id,
+          action: "CREATE",
+          entityType: "Schedule",
+          entityId: newSchedule.id,
+          afterData: created,
+        },
+      });
+
+      return created;
+    });
+
+    return NextResponse.json(schedule, { status: 201 });
+  } catch (error) {
+    console.error("Error creating schedule:", error);
+    return NextResponse.json(
+      { error: "Failed to create schedule" },
+      { status: 500 }
+    );
+  }
+}
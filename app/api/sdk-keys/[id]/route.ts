@@ -0,0 +1,75 @@
+import { prisma } from "@/lib/prisma";
+import { getCurrentTenantContext } from "@/lib/tenant";
+import { getSession } from "@/lib/auth";
+import { NextRequest, NextResponse } from "next/server";
+
+type PrismaTransaction = Omit<typeof prisma, "$connect" | "$disconnect" | "$on" | "$transaction" | "$use" | "$extends">;
+
+async function isAdmin(userId: string, tenantId: string): Promise<boolean> {
+  const membership = await prisma.membership.findFirst({
+    where: { userId, tenantId },
+  });
+  return membership?.role === "ADMIN";
+}
+
+/**
+ * Revoke an SDK key; the record is kept so its usage stays visible
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getSession();
+    const tenantContext = await getCurrentTenantContext();
+    const { id: sdkKeyId } = await params;
+
+    if (!session.user || !tenantContext) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    if (!(await isAdmin(session.user.id, tenantContext.tenantId))) {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    const existing = await prisma.sdkKey.findFirst({
+      where: { id: sdkKeyId, tenantId: tenantContext.tenantId },
+    });
+
+    if (!existing) {
+      return NextResponse.json({ error: "SDK key not found" }, { status: 404 });
+    }
+
+    if (existing.revokedAt) {
+      return NextResponse.json({ error: "SDK key is already revoked" }, { status: 409 });
+    }
+
+    await prisma.$transaction(async (tx: PrismaTransaction) => {
+      const revoked = await tx.sdkKey.update({
+        where: { id: sdkKeyId },
+        data: { revokedAt: new Date() },
+      });
+
+      // Audit log
+      await tx.auditLog.create({
+        data: {
+          tenantId: tenantContext.tenantId,
+          actorId: session.user!.id,
+          action: "REVOKE",
+          entityType: "SdkKey",
+          entityId: sdkKeyId,
+          beforeData: { name: existing.name, environment: existing.environment, revokedAt: null },
+          afterData: { name: revoked.name, environment: revoked.environment, revokedAt: revoked.revokedAt },
+        },
+      });
+    });
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("Error revoking SDK key:", error);
+    return NextResponse.json(
+      { error: "Failed to revoke SDK key" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,124 @@
+import { prisma } from "@/lib/prisma";
+import { getCurrentTenantContext } from "@/lib/tenant";
+import { getSession } from "@/lib/auth";
+import { generateSdkKey, generateSigningSecret, getSdkKeyPrefix, hashSdkKey } from "@/lib/sdk-keys";
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+
+type PrismaTransaction = Omit<typeof prisma, "$connect" | "$disconnect" | "$on" | "$transaction" | "$use" | "$extends">;
+
+async function isAdmin(userId: string, tenantId: string): Promise<boolean> {
+  const membership = await prisma.membership.findFirst({
+    where: { userId, tenantId },
+  });
+  return membership?.role === "ADMIN";
+}
+
+const createSdkKeySchema = z.object({
+  name: z.string().min(1).max(100),
+  environment: z.enum(["DEV", "STAGING", "PROD"]),
+  scope: z.enum(["CLIENT", "SERVER"]).default("CLIENT"),
+});
+
+// Never return the key hash or signing secret to the client
+const sdkKeySelect = {
+  id: true,
+  name: true,
+  environment: true,
+  scope: true,
+  keyPrefix: true,
+  lastUsedAt: true,
+  revokedAt: true,
+  createdAt: true,
+};
+
+export async function GET() {
+  try {
+    const session = await getSession();
+    const tenantContext = await getCurrentTenantContext();
+
+    if (!session.user || !tenantContext) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const sdkKeys = await prisma.sdkKey.findMany({
+      where: { tenantId: tenantContext.tenantId },
+      select: sdkKeySelect,
+      orderBy: { createdAt: "desc" },
+    });
+
+    return NextResponse.json({ sdkKeys });
+  } catch (error) {
+    console.error("Error fetching SDK keys:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch SDK keys" },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getSession();
+    const tenantContext = await getCurrentTenantContext();
+
+    if (!session.user || !tenantContext) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    if (!(await isAdmin(session.user.id, tenantContext.tenantId))) {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    const body = await request.json();
+    const parsed = createSdkKeySchema.safeParse(body);
+
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: parsed.error.issues[0].message },
+        { status: 400 }
+      );
+    }
+
+    const key = generateSdkKey(parsed.data.environment, parsed.data.scope);
+    const signingSecret = parsed.data.scope === "SERVER" ? generateSigningSecret() : null;
+
+    const sdkKey = await prisma.$transaction(async (tx: PrismaTransaction) => {
+      const newKey = await tx.sdkKey.create({
+        data: {
+          tenantId: tenantContext.tenantId,
+          name: parsed.data.name,
+          environment: parsed.data.environment,
+          scope: parsed.data.scope,
+          keyHash: hashSdkKey(key),
+          keyPrefix: getSdkKeyPrefix(key),
+          signingSecret,
+        },
+        select: sdkKeySelect,
+      });
+
+      // Audit log
+      await tx.auditLog.create({
+        data: {
+          tenantId: tenantContext.tenantId,
+          actorId: session.user!.id,
+          action: "CREATE",
+          entityType: "SdkKey",
+          entityId: newKey.id,
+          afterData: newKey,
+        },
+      });
+
+      return newKey;
+    });
+
+    // The full key and signing secret are only returned once, at creation
+    return NextResponse.json({ ...sdkKey, key, ...(signingSecret && { signingSecret }) }, { status: 201 });
+  } catch (error) {
+    console.error("Error creating SDK key:", error);
+    return NextResponse.json(
+      { error: "Failed to create SDK key" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,101 @@
+import { authenticateSdkKey } from "@/lib/sdk-keys";
+import { parseSdkEvaluateRequest } from "@/lib/sdk-evaluation";
+import { runWithTenantContext } from "@/lib/tenant";
+import { findTenantFlags } from "@/lib/flag-queries";
+import { evaluateAllFlags } from "@next-ops/flag-evaluator";
+import { loadSegmentsForFlags } from "@/lib/segments";
+import { recordFlagEvaluations } from "@/lib/flag-analytics";
+import { NextRequest, NextResponse } from "next/server";
+
+// Browser SDKs call this cross-origin, authenticated by the SDK key rather than cookies
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Methods": "POST, OPTIONS",
+  "Access-Control-Allow-Headers": "Authorization, Content-Type",
+};
+
+export async function OPTIONS() {
+  return new NextResponse(null, { status: 204, headers: corsHeaders });
+}
+
+/**
+ * Evaluate one flag in the SDK key's environment for one context
+ * The caller is about to serve the result, so it is recorded as an exposure
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ flagKey: string }> }
+) {
+  try {
+    const sdkKey = await authenticateSdkKey(request);
+    const { flagKey } = await params;
+
+    if (!sdkKey) {
+      return NextResponse.json(
+        { error: "Invalid SDK key" },
+        { status: 401, headers: corsHeaders }
+      );
+    }
+
+    const body = await request.json();
+    const parsed = parseSdkEvaluateRequest(body, sdkKey);
+
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: parsed.error },
+        { status: 400, headers: corsHeaders }
+      );
+    }
+
+    const { includeTrace, context } = parsed;
+    const tenantContext = { tenantId: sdkKey.tenantId, tenantSlug: sdkKey.tenantSlug };
+
+    const evaluation = await runWithTenantContext(tenantContext, async () => {
+      // Prerequisites may reach any flag in the environment, along with their segments
+      const flags = await findTenantFlags(sdkKey.tenantId, { environment: sdkKey.environment });
+      const flag = flags.find((f) => f.key === flagKey);
+      if (!flag) {
+        return null;
+      }
+
+      const segments = await loadSegmentsForFlags(sdkKey.tenantId, flags);
+      const result = evaluateAllFlags(
+        [flag],
+        { ...context, environment: sdkKey.environment },
+        { segments, flags: Object.fromEntries(flags.map((f) => [f.key, f])) },
+        { includeTrace }
+      )[flagKey];
+
+      void recordFlagEvaluations(sdkKey.tenantId, [
+        {
+          flagId: flag.id,
+          environment: sdkKey.environment,
+          userId: context.userId,
+          enabled: result.enabled,
+          ruleIndex: result.ruleIndex,
+          variant: result.variant,
+        },
+      ]);
+
+      return result;
+    });
+
+    if (!evaluation) {
+      return NextResponse.json(
+        { error: "Feature flag not found" },
+        { status: 404, headers: corsHeaders }
+      );
+    }
+
+    return NextResponse.json(
+      { environment: sdkKey.environment, flagKey, evaluation },
+      { headers: corsHeaders }
+    );
+  } catch (error) {
+    console.error("Error evaluating feature flag for SDK:", error);
+    return NextResponse.json(
+      { error: "Failed to evaluate feature flag" },
+      { status: 500, headers: corsHeaders }
+    );
+  }
+}
@@ -0,0 +1,85 @@
+import { authenticateSdkKey } from "@/lib/sdk-keys";
+import { parseSdkEvaluateRequest } from "@/lib/sdk-evaluation";
+import { runWithTenantContext } from "@/lib/tenant";
+import { findTenantFlags } from "@/lib/flag-queries";
+import { evaluateAllFlags } from "@next-ops/flag-evaluator";
+import { loadSegmentsForFlags } from "@/lib/segments";
+import { createEtag, matchesEtag } from "@/lib/etag";
+import { NextRequest, NextResponse } from "next/server";
+
+// Browser SDKs call this cross-origin, authenticated by the SDK key rather than cookies
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Methods": "POST, OPTIONS",
+  "Access-Control-Allow-Headers": "Authorization, Content-Type, If-None-Match",
+  "Access-Control-Expose-Headers": "ETag",
+};
+
+export async function OPTIONS() {
+  return new NextResponse(null, { status: 204, headers: corsHeaders });
+}
+
+/**
+ * Evaluate every flag in the SDK key's environment for one context
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const sdkKey = await authenticateSdkKey(request);
+
+    if (!sdkKey) {
+      return NextResponse.json(
+        { error: "Invalid SDK key" },
+        { status: 401, headers: corsHeaders }
+      );
+    }
+
+    const body = await request.json();
+    const parsed = parseSdkEvaluateRequest(body, sdkKey);
+
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: parsed.error },
+        { status: 400, headers: corsHeaders }
+      );
+    }
+
+    const { includeTrace, context } = parsed;
+    const tenantContext = { tenantId: sdkKey.tenantId, tenantSlug: sdkKey.tenantSlug };
+
+    const results = await runWithTenantContext(tenantContext, async () => {
+      const flags = await findTenantFlags(sdkKey.tenantId, { environment: sdkKey.environment });
+      const segments = await loadSegmentsForFlags(sdkKey.tenantId, flags);
+
+      // Not recorded for analytics: clients prefetch every flag here, so only reported exposures count
+      return evaluateAllFlags(
+        flags,
+        { ...context, environment: sdkKey.environment },
+        { segments },
+        { includeTrace }
+      );
+    });
+
+    const responseBody = JSON.stringify({ environment: sdkKey.environment, flags: results });
+    const etag = createEtag(responseBody);
+    const cacheHeaders = {
+      ...corsHeaders,
+      ETag: etag,
+      "Cache-Control": "private, no-cache",
+    };
+
+    if (matchesEtag(request, etag)) {
+      return new NextResponse(null, { status: 304, headers: cacheHeaders });
+    }
+
+    return new NextResponse(responseBody, {
+      status: 200,
+      headers: { ...cacheHeaders, "Content-Type": "application/json" },
+    });
+  } catch (error) {
+    console.error("Error evaluating feature flags for SDK:", error);
+    return NextResponse.json(
+      { error: "Failed to evaluate feature flags" },
+      { status: 500, headers: corsHeaders }
+    );
+  }
+}
@@ -0,0 +1,54 @@
+import { authenticateSdkKey } from "@/lib/sdk-keys";
+import { runWithTenantContext } from "@/lib/tenant";
+import { flagExposuresSchema, recordFlagExposures } from "@/lib/flag-analytics";
+import { NextRequest, NextResponse } from "next/server";
+
+// Browser SDKs call this cross-origin, authenticated by the SDK key rather than cookies
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Methods": "POST, OPTIONS",
+  "Access-Control-Allow-Headers": "Authorization, Content-Type",
+};
+
+export async function OPTIONS() {
+  return new NextResponse(null, { status: 204, headers: corsHeaders });
+}
+
+/**
+ * Record the flags an SDK actually served to one user, for evaluation analytics and cleanup
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const sdkKey = await authenticateSdkKey(request);
+
+    if (!sdkKey) {
+      return NextResponse.json(
+        { error: "Invalid SDK key" },
+        { status: 401, headers: corsHeaders }
+      );
+    }
+
+    const body = await request.json();
+    const parsed = flagExposuresSchema.safeParse(body);
+
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: parsed.error.issues[0].message },
+        { status: 400, headers: corsHeaders }
+      );
+    }
+
+    const recorded = await runWithTenantContext(
+      { tenantId: sdkKey.tenantId, tenantSlug: sdkKey.tenantSlug },
+      () => recordFlagExposures(sdkKey.tenantId, sdkKey.environment, parsed.data)
+    );
+
+    return NextResponse.json({ recorded }, { status: 202, headers: corsHeaders });
+  } catch (error) {
+    console.error("Error recording flag exposures:", error);
+    return NextResponse.json(
+      { error: "Failed to record flag exposures" },
+      { status: 500, headers: corsHeaders }
+    );
+  }
+}
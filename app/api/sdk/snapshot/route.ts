@@ -0,0 +1,82 @@
+import { authenticateSdkKey } from "@/lib/sdk-keys";
+import { runWithTenantContext } from "@/lib/tenant";
+import { buildFlagSnapshot, getRulesetVersion, signSnapshot } from "@/lib/flag-snapshots";
+import { matchesEtag } from "@/lib/etag";
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+
+const snapshotQuerySchema = z.object({
+  since: z.coerce.number().int().min(0).optional(),
+});
+
+function versionEtag(version: number) {
+  return `"v${version}"`;
+}
+
+function versionHeaders(version: number) {
+  return {
+    ETag: versionEtag(version),
+    "X-Snapshot-Version": String(version),
+    "Cache-Control": "private, no-cache",
+  };
+}
+
+/**
+ * Signed ruleset snapshot for local evaluation in backend services
+ * Returns 304 when the environment has not changed since the client's version
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const sdkKey = await authenticateSdkKey(request);
+
+    if (!sdkKey) {
+      return NextResponse.json({ error: "Invalid SDK key" }, { status: 401 });
+    }
+
+    // Snapshots hold every allowlisted user and segment member, so browser keys can't read them
+    if (sdkKey.scope !== "SERVER" || !sdkKey.signingSecret) {
+      return NextResponse.json({ error: "Snapshots require a server SDK key" }, { status: 403 });
+    }
+    const signingSecret = sdkKey.signingSecret;
+
+    const query = Object.fromEntries(request.nextUrl.searchParams.entries());
+    const parsed = snapshotQuerySchema.safeParse(query);
+
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: parsed.error.issues[0].message },
+        { status: 400 }
+      );
+    }
+
+    const tenantContext = { tenantId: sdkKey.tenantId, tenantSlug: sdkKey.tenantSlug };
+
+    return await runWithTenantContext(tenantContext, async () => {
+      const version = await getRulesetVersion(sdkKey.tenantId, sdkKey.environment);
+      const unchanged = parsed.data.since !== undefined && version <= parsed.data.since;
+
+      if (unchanged || matchesEtag(request, versionEtag(version))) {
+        return new NextResponse(null, { status: 304, headers: versionHeaders(version) });
+      }
+
+      // The snapshot reads the version again, so a change landing in between is labelled correctly
+      const snapshot = await buildFlagSnapshot(sdkKey.tenantId, sdkKey.environment);
+      const body = JSON.stringify(snapshot);
+
+      return new NextResponse(body, {
+        status: 200,
+        headers: {
+          ...versionHeaders(snapshot.version),
+          "X-Snapshot-Signature": `sha256=${signSnapshot(body, signingSecret)}`,
+          "Content-Type": "application/json",
+        },
+      });
+    });
+  } catch (error) {
+    console.error("Error building flag snapshot:", error);
+    return NextResponse.json(
+      { error: "Failed to build flag snapshot" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,95 @@
+import { authenticateSdkKey } from "@/lib/sdk-keys";
+import { runWithTenantContext } from "@/lib/tenant";
+import { getFlagChangesSince, getLatestFlagChangeId } from "@/lib/flag-changes";
+import { NextRequest } from "next/server";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+/**
+ * Stream flag changes for the SDK key's environment
+ * Reconnecting clients send Last-Event-ID (or ?lastEventId=) to replay what they missed
+ */
+export async function GET(request: NextRequest) {
+  const sdkKey = await authenticateSdkKey(request);
+
+  if (!sdkKey) {
+    return new Response("Invalid SDK key", { status: 401 });
+  }
+
+  const resumeFrom = request.headers.get("last-event-id") ?? request.nextUrl.searchParams.get("lastEventId");
+  const resumeId = resumeFrom !== null ? parseInt(resumeFrom, 10) : NaN;
+
+  const tenantContext = { tenantId: sdkKey.tenantId, tenantSlug: sdkKey.tenantSlug };
+  const { tenantId, environment } = sdkKey;
+
+  // Without a resume point the client only wants changes from now on
+  let lastEventId = Number.isNaN(resumeId)
+    ? await runWithTenantContext(tenantContext, () => getLatestFlagChangeId(tenantId, environment))
+    : resumeId;
+
+  const encoder = new TextEncoder();
+
+  const stream = new ReadableStream({
+    async start(controller) {
+      // Send initial connection message
+      controller.enqueue(
+        encoder.encode(`data: ${JSON.stringify({ type: "connected", environment, lastEventId })}\n\n`)
+      );
+
+      const sendChanges = async () => {
+        const changes = await runWithTenantContext(tenantContext, () =>
+          getFlagChangesSince(tenantId, environment, lastEventId)
+        );
+
+        for (const change of changes) {
+          const data = {
+            type: change.type,
+            flagId: change.flagId,
+            flagKey: change.flagKey,
+            version: change.version,
+            createdAt: change.createdAt,
+          };
+          controller.enqueue(
+            encoder.encode(`id: ${change.id}\nevent: ${change.type}\ndata: ${JSON.stringify(data)}\n\n`)
+          );
+          lastEventId = change.id;
+        }
+      };
+
+      // Replay anything missed while disconnected
+      try {
+        await sendChanges();
+      } catch (error) {
+        console.error("SSE replay error:", error);
+      }
+
+      // Poll for changes every 2 seconds
+      const intervalId = setInterval(async () => {
+        try {
+          await sendChanges();
+
+          // Send heartbeat
+          controller.enqueue(encoder.encode(`: heartbeat\n\n`));
+        } catch (error) {
+          console.error("SSE polling error:", error);
+        }
+      }, 2000);
+
+      // Clean up on close
+      request.signal.addEventListener("abort", () => {
+        clearInterval(intervalId);
+        controller.close();
+      });
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-cache, no-transform",
+      Connection: "keep-alive",
+      "X-Accel-Buffering": "no",
+    },
+  });
+}
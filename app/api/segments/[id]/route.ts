@@ -0,0 +1,213 @@
+import { prisma } from "@/lib/prisma";
+import { Prisma } from "@prisma/client";
+import { getCurrentTenantContext } from "@/lib/tenant";
+import { getSession } from "@/lib/auth";
+import { recordFlagChange } from "@/lib/flag-changes";
+import { approvalConflict } from "@/lib/flag-change-requests";
+import { segmentConditionsSchema } from "@next-ops/flag-evaluator";
+import { findFlagsUsingSegment } from "@/lib/segments";
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+
+type PrismaTransaction = Omit<typeof prisma, "$connect" | "$disconnect" | "$on" | "$transaction" | "$use" | "$extends">;
+
+const updateSegmentSchema = z.object({
+  name: z.string().min(1).max(100).optional(),
+  description: z.string().optional(),
+  userIds: z.array(z.string().min(1)).optional(),
+  conditions: segmentConditionsSchema.optional(),
+});
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getSession();
+    const tenantContext = await getCurrentTenantContext();
+    const { id } = await params;
+
+    if (!session.user || !tenantContext) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const segment = await prisma.segment.findFirst({
+      where: { id, tenantId: tenantContext.tenantId },
+    });
+
+    if (!segment) {
+      return NextResponse.json({ error: "Segment not found" }, { status: 404 });
+    }
+
+    const flags = await findFlagsUsingSegment(tenantContext.tenantId, id);
+
+    return NextResponse.json({ ...segment, flags });
+  } catch (error) {
+    console.error("Error fetching segment:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch segment" },
+      { status: 500 }
+    );
+  }
+}
+
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getSession();
+    const tenantContext = await getCurrentTenantContext();
+    const { id } = await params;
+
+    if (!session.user || !tenantContext) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const existingSegment = await prisma.segment.findFirst({
+      where: { id, tenantId: tenantContext.tenantId },
+    });
+
+    if (!existingSegment) {
+      return NextResponse.json({ error: "Segment not found" }, { status: 404 });
+    }
+
+    const body = await request.json();
+    const parsed = updateSegmentSchema.safeParse(body);
+
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: parsed.error.issues[0].message },
+        { status: 400 }
+      );
+    }
+
+    if (parsed.data.name && parsed.data.name !== existingSegment.name) {
+      const duplicate = await prisma.segment.findFirst({
+        where: { tenantId: tenantContext.tenantId, name: parsed.data.name },
+      });
+      if (duplicate) {
+        return NextResponse.json(
+          { error: `Segment "${parsed.data.name}" already exists` },
+          { status: 409 }
+        );
+      }
+    }
+
+    const { conditions, ...rest } = parsed.data;
+    const affectedFlags = await findFlagsUsingSegment(tenantContext.tenantId, id);
+
+    // New targeting changes every flag using the segment at once, which can't be held as one change request
+    if (conditions || rest.userIds) {
+      for (const environment of new Set(affectedFlags.map((flag) => flag.environment))) {
+        const conflict = await approvalConflict(tenantContext.tenantId, environment, "change segment targeting");
+        if (conflict) {
+          return NextResponse.json({ error: conflict }, { status: 409 });
+        }
+      }
+    }
+
+    const segment = await prisma.$transaction(async (tx: PrismaTransaction) => {
+      const updated = await tx.segment.update({
+        where: { id },
+        data: {
+          ...rest,
+          ...(conditions && { conditions: conditions as unknown as Prisma.InputJsonValue }),
+        },
+      });
+
+      // Every flag targeting this segment now evaluates differently
+      for (const flag of affectedFlags) {
+        await recordFlagChange(tx, tenantContext.tenantId, {
+          type: "rule_changed",
+          environment: flag.environment,
+          flagId: flag.id,
+          flagKey: flag.key,
+        });
+      }
+
+      // Audit log
+      await tx.auditLog.create({
+        data: {
+          tenantId: tenantContext.tenantId,
+          actorId: session.user!.id,
+          action: "UPDATE",
+          entityType: "Segment",
+          entityId: id,
+          beforeData: existingSegment,
+          afterData: updated,
+        },
+      });
+
+      return updated;
+    });
+
+    return NextResponse.json(segment);
+  } catch (error) {
+    console.error("Error updating segment:", error);
+    return NextResponse.json(
+      { error: "Failed to update segment" },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getSession();
+    const tenantContext = await getCurrentTenantContext();
+    const { id } = await params;
+
+    if (!session.user || !tenantContext) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const existingSegment = await prisma.segment.findFirst({
+      where: { id, tenantId: tenantContext.tenantId },
+    });
+
+    if (!existingSegment) {
+      return NextResponse.json({ error: "Segment not found" }, { status: 404 });
+    }
+
+    // Deleting a segment in use would silently turn its rules off
+    const flags = await findFlagsUsingSegment(tenantContext.tenantId, id);
+    if (flags.length > 0) {
+      return NextResponse.json(
+        {
+          error: `Segment is used by ${flags.length} flag(s): ${flags.map((f) => `${f.key} (${f.environment})`).join(", ")}`,
+        },
+        { status: 409 }
+      );
+    }
+
+    await prisma.$transaction(async (tx: PrismaTransaction) => {
+      await tx.segment.delete({
+        where: { id },
+      });
+
+      // Audit log
+      await tx.auditLog.create({
+        data: {
+          tenantId: tenantContext.tenantId,
+          actorId: session.user!.id,
+          action: "DELETE",
+          entityType: "Segment",
+          entityId: id,
+          beforeData: existingSegment,
+        },
+      });
+    });
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("Error deleting segment:", error);
+    return NextResponse.json(
+      { error: "Failed to delete segment" },
+      { status: 500 }
+    );
+  }
+}
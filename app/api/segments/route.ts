@@ -0,0 +1,106 @@
+import { prisma } from "@/lib/prisma";
+import { Prisma } from "@prisma/client";
+import { getCurrentTenantContext } from "@/lib/tenant";
+import { getSession } from "@/lib/auth";
+import { segmentConditionsSchema } from "@next-ops/flag-evaluator";
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+
+type PrismaTransaction = Omit<typeof prisma, "$connect" | "$disconnect" | "$on" | "$transaction" | "$use" | "$extends">;
+
+const createSegmentSchema = z.object({
+  name: z.string().min(1).max(100),
+  description: z.string().optional(),
+  userIds: z.array(z.string().min(1)).default([]),
+  conditions: segmentConditionsSchema.default([]),
+});
+
+export async function GET() {
+  try {
+    const session = await getSession();
+    const tenantContext = await getCurrentTenantContext();
+
+    if (!session.user || !tenantContext) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const segments = await prisma.segment.findMany({
+      where: { tenantId: tenantContext.tenantId },
+      orderBy: { name: "asc" },
+    });
+
+    return NextResponse.json({ segments });
+  } catch (error) {
+    console.error("Error fetching segments:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch segments" },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getSession();
+    const tenantContext = await getCurrentTenantContext();
+
+    if (!session.user || !tenantContext) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const body = await request.json();
+    const parsed = createSegmentSchema.safeParse(body);
+
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: parsed.error.issues[0].message },
+        { status: 400 }
+      );
+    }
+
+    const existing = await prisma.segment.findFirst({
+      where: { tenantId: tenantContext.tenantId, name: parsed.data.name },
+    });
+
+    if (existing) {
+      return NextResponse.json(
+        { error: `Segment "${parsed.data.name}" already exists` },
+        { status: 409 }
+      );
+    }
+
+    const segment = await prisma.$transaction(async (tx: PrismaTransaction) => {
+      const newSegment = await tx.segment.create({
+        data: {
+          tenantId: tenantContext.tenantId,
+          name: parsed.data.name,
+          description: parsed.data.description,
+          userIds: parsed.data.userIds,
+          conditions: parsed.data.conditions as unknown as Prisma.InputJsonValue,
+        },
+      });
+
+      // Audit log
+      await tx.auditLog.create({
+        data: {
+          tenantId: tenantContext.tenantId,
+          actorId: session.user!.id,
+          action: "CREATE",
+          entityType: "Segment",
+          entityId: newSegment.id,
+          afterData: newSegment,
+        },
+      });
+
+      return newSegment;
+    });
+
+    return NextResponse.json(segment, { status: 201 });
+  } catch (error) {
+    console.error("Error creating segment:", error);
+    return NextResponse.json(
+      { error: "Failed to create segment" },
+      { status: 500 }
+    );
+  }
+}
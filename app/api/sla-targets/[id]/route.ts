@@ -0,0 +1,159 @@
+import { prisma } from "@/lib/prisma";
+import { getCurrentTenantContext } from "@/lib/tenant";
+import { getSession } from "@/lib/auth";
+import { findConflictingSlaTarget, slaTargetSchema, updateSlaTargetSchema } from "@/lib/incident-sla";
+import { NextRequest, NextResponse } from "next/server";
+
+type PrismaTransaction = Omit<typeof prisma, "$connect" | "$disconnect" | "$on" | "$transaction" | "$use" | "$extends">;
+
+async function isAdmin(userId: string, tenantId: string): Promise<boolean> {
+  const membership = await prisma.membership.findFirst({
+    where: { userId, tenantId },
+  });
+  return membership?.role === "ADMIN";
+}
+
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getSession();
+    const tenantContext = await getCurrentTenantContext();
+    const { id } = await params;
+
+    if (!session.user || !tenantContext) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    if (!(await isAdmin(session.user.id, tenantContext.tenantId))) {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    const existingTarget = await prisma.slaTarget.findFirst({
+      where: { id, tenantId: tenantContext.tenantId },
+    });
+
+    if (!existingTarget) {
+      return NextResponse.json({ error: "SLA target not found" }, { status: 404 });
+    }
+
+    const body = await request.json();
+    const parsed = updateSlaTargetSchema.safeParse(body);
+
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: parsed.error.issues[0].message },
+        { status: 400 }
+      );
+    }
+
+    // The merged target must still set at least one stage
+    const merged = slaTargetSchema.safeParse({
+      severity: existingTarget.severity,
+      service: existingTarget.service,
+      acknowledgeMinutes: existingTarget.acknowledgeMinutes,
+      mitigateMinutes: existingTarget.mitigateMinutes,
+      resolveMinutes: existingTarget.resolveMinutes,
+      ...parsed.data,
+    });
+
+    if (!merged.success) {
+      return NextResponse.json(
+        { error: merged.error.issues[0].message },
+        { status: 400 }
+      );
+    }
+
+    const data = { ...merged.data, service: merged.data.service ?? null };
+
+    const conflict = await findConflictingSlaTarget(tenantContext.tenantId, data.severity, data.service, id);
+    if (conflict) {
+      return NextResponse.json({ error: conflict }, { status: 409 });
+    }
+
+    // Open incidents are measured against the new target straight away
+    const target = await prisma.$transaction(async (tx: PrismaTransaction) => {
+      const updated = await tx.slaTarget.update({
+        where: { id },
+        data,
+      });
+
+      // Audit log
+      await tx.auditLog.create({
+        data: {
+          tenantId: tenantContext.tenantId,
+          actorId: session.user!.id,
+          action: "UPDATE",
+          entityType: "SlaTarget",
+          entityId: id,
+          beforeData: existingTarget,
+          afterData: updated,
+        },
+      });
+
+      return updated;
+    });
+
+    return NextResponse.json(target);
+  } catch (error) {
+    console.error("Error updating SLA target:", error);
+    return NextResponse.json(
+      { error: "Failed to update SLA target" },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getSession();
+    const tenantContext = await getCurrentTenantContext();
+    const { id } = await params;
+
+    if (!session.user || !tenantContext) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    if (!(await isAdmin(session.user.id, tenantContext.tenantId))) {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    const existingTarget = await prisma.slaTarget.findFirst({
+      where: { id, tenantId: tenantContext.tenantId },
+    });
+
+    if (!existingTarget) {
+      return NextResponse.json({ error: "SLA target not found" }, { status: 404 });
+    }
+
+    await prisma.$transaction(async (tx: PrismaTransaction) => {
+      await tx.slaTarget.delete({
+        where: { id },
+      });
+
+      // Audit log
+      await tx.auditLog.create({
+        data: {
+          tenantId: tenantContext.tenantId,
+          actorId: session.user!.id,
+          action: "DELETE",
+          entityType: "SlaTarget",
+          entityId: id,
+          beforeData: existingTarget,
+        },
+      });
+    });
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("Error deleting SLA target:", error);
+    return NextResponse.json(
+      { error: "Failed to delete SLA target" },
+      { status: 500 }
+    );
+  }
+}
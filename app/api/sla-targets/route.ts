@@ -0,0 +1,100 @@
+import { prisma } from "@/lib/prisma";
+import { getCurrentTenantContext } from "@/lib/tenant";
+import { getSession } from "@/lib/auth";
+import { findConflictingSlaTarget, getSlaTargets, slaTargetSchema } from "@/lib/incident-sla";
+import { NextRequest, NextResponse } from "next/server";
+
+type PrismaTransaction = Omit<typeof prisma, "$connect" | "$disconnect" | "$on" | "$transaction" | "$use" | "$extends">;
+
+// GET /api/sla-targets - Response-time targets by severity and service
+export async function GET() {
+  try {
+    const session = await getSession();
+    const tenantContext = await getCurrentTenantContext();
+
+    if (!session.user || !tenantContext) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const targets = await getSlaTargets(tenantContext.tenantId);
+
+    return NextResponse.json({ targets });
+  } catch (error) {
+    console.error("Error fetching SLA targets:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch SLA targets" },
+      { status: 500 }
+    );
+  }
+}
+
+// POST /api/sla-targets - Admins add a target for a severity, optionally for one service
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getSession();
+    const tenantContext = await getCurrentTenantContext();
+
+    if (!session.user || !tenantContext) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const membership = await prisma.membership.findFirst({
+      where: {
+        userId: session.user.id,
+        tenantId: tenantContext.tenantId,
+      },
+    });
+
+    if (membership?.role !== "ADMIN") {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    const body = await request.json();
+    const parsed = slaTargetSchema.safeParse(body);
+
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: parsed.error.issues[0].message },
+        { status: 400 }
+      );
+    }
+
+    const data = { ...parsed.data, service: parsed.data.service ?? null };
+
+    const conflict = await findConflictingSlaTarget(tenantContext.tenantId, data.severity, data.service);
+    if (conflict) {
+      return NextResponse.json({ error: conflict }, { status: 409 });
+    }
+
+    const target = await prisma.$transaction(async (tx: PrismaTransaction) => {
+      const newTarget = await tx.slaTarget.create({
+        data: {
+          tenantId: tenantContext.tenantId,
+          ...data,
+        },
+      });
+
+      // Audit log
+      await tx.auditLog.create({
+        data: {
+          tenantId: tenantContext.tenantId,
+          actorId: session.user!.id,
+          action: "CREATE",
+          entityType: "SlaTarget",
+          entityId: newTarget.id,
+          afterData: newTarget,
+        },
+      });
+
+      return newTarget;
+    });
+
+    return NextResponse.json(target, { status: 201 });
+  } catch (error) {
+    console.error("Error creating SLA target:", error);
+    return NextResponse.json(
+      { error: "Failed to create SLA target" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,93 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import { FontAwesomeIcon } from "@fortawesome/react-fontawesome";
+import { faUserCheck, faSpinner } from "@fortawesome/free-solid-svg-icons";
+import { useToast } from "@/app/components/ToastProvider";
+
+type Environment = "DEV" | "STAGING" | "PROD";
+
+const ENVIRONMENTS: Environment[] = ["DEV", "STAGING", "PROD"];
+
+export default function FlagApprovalsCard() {
+  const toast = useToast();
+  const [environments, setEnvironments] = useState<Environment[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    fetchSettings();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, []);
+
+  const fetchSettings = async () => {
+    try {
+      setLoading(true);
+      const response = await fetch("/api/flag-approval-settings");
+      if (!response.ok) throw new Error("Failed to fetch approval settings");
+      const data = await response.json();
+      setEnvironments(data.environments);
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : "Failed to fetch approval settings");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleToggle = async (environment: Environment) => {
+    const next = environments.includes(environment)
+      ? environments.filter((env) => env !== environment)
+      : [...environments, environment];
+
+    setSaving(true);
+    try {
+      const response = await fetch("/api/flag-approval-settings", {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ environments: next }),
+      });
+
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error === "Forbidden" ? "Only admins can change approval settings" : data.error || "Failed to update approval settings");
+      }
+
+      setEnvironments(data.environments);
+      toast.success("Approval settings updated");
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : "Failed to update approval settings");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="bg-white dark:bg-gray-800 rounded-lg p-6 border border-gray-200 dark:border-gray-700">
+      <h2 className="text-lg font-semibold text-gray-900 dark:text-white mb-2 flex items-center gap-2">
+        <FontAwesomeIcon icon={faUserCheck} />
+        Flag Change Approvals
+      </h2>
+      <p className="text-sm text-gray-500 dark:text-gray-400 mb-4">
+        In these environments, flag and rule changes create a change request that an admin other than the author must approve.
+      </p>
+
+      {loading ? (
+        <FontAwesomeIcon icon={faSpinner} className="animate-spin text-gray-400" />
+      ) : (
+        <div className="flex gap-6">
+          {ENVIRONMENTS.map((environment) => (
+            <label key={environment} className="flex items-center gap-2 text-gray-700 dark:text-gray-300">
+              <input
+                type="checkbox"
+                checked={environments.includes(environment)}
+                onChange={() => handleToggle(environment)}
+                disabled={saving}
+              />
+              {environment}
+            </label>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,195 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import { FontAwesomeIcon } from "@fortawesome/react-fontawesome";
+import { faCheck, faXmark, faSpinner, faUserCheck } from "@fortawesome/free-solid-svg-icons";
+import { useToast } from "@/app/components/ToastProvider";
+import FlagDiff, { type DiffRule, type FlagConfigDiff } from "@/app/components/FlagDiff";
+
+interface ChangeRequest {
+  id: string;
+  status: "PENDING" | "APPROVED" | "REJECTED";
+  change: { type: string };
+  reviewComment: string | null;
+  reviewedAt: string | null;
+  error: string | null;
+  createdAt: string;
+  author: { id: string; name: string };
+  reviewer: { id: string; name: string } | null;
+  diff: FlagConfigDiff | null;
+}
+
+const CHANGE_LABELS: Record<string, string> = {
+  update: "Update settings",
+  add_rule: "Add rule",
+  update_rule: "Update rule",
+  delete_rule: "Delete rule",
+  revert: "Revert",
+  promote: "Promote",
+};
+
+const statusColors = {
+  PENDING: "bg-yellow-100 text-yellow-800 dark:bg-yellow-900 dark:text-yellow-300",
+  APPROVED: "bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-300",
+  REJECTED: "bg-red-100 text-red-800 dark:bg-red-900 dark:text-red-300",
+};
+
+export default function FlagChangeRequests({
+  flagId,
+  refreshKey,
+  formatRule,
+  onApplied,
+}: {
+  flagId: string;
+  refreshKey: number;
+  formatRule: (rule: DiffRule) => string;
+  onApplied: () => void;
+}) {
+  const toast = useToast();
+  const [changeRequests, setChangeRequests] = useState<ChangeRequest[]>([]);
+  const [reviewing, setReviewing] = useState<string | null>(null);
+  const [comments, setComments] = useState<Record<string, string>>({});
+
+  useEffect(() => {
+    fetchChangeRequests();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [flagId, refreshKey]);
+
+  const fetchChangeRequests = async () => {
+    try {
+      const response = await fetch(`/api/feature-flags/${flagId}/change-requests`);
+      if (!response.ok) throw new Error("Failed to fetch change requests");
+      const data = await response.json();
+      setChangeRequests(data.changeRequests);
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : "Failed to fetch change requests");
+    }
+  };
+
+  const handleReview = async (requestId: string, action: "approve" | "reject") => {
+    const comment = comments[requestId]?.trim();
+    if (action === "reject" && !comment) {
+      toast.error("Add a comment explaining the rejection");
+      return;
+    }
+
+    setReviewing(requestId);
+    try {
+      const response = await fetch(`/api/feature-flags/${flagId}/change-requests/${requestId}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ action, ...(comment && { comment }) }),
+      });
+
+      if (!response.ok) {
+        const data = await response.json();
+        throw new Error(data.error || `Failed to ${action} change`);
+      }
+
+      toast.success(action === "approve" ? "Change approved and applied" : "Change rejected");
+      if (action === "approve") onApplied();
+      await fetchChangeRequests();
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : `Failed to ${action} change`);
+      await fetchChangeRequests();
+    } finally {
+      setReviewing(null);
+    }
+  };
+
+  const pending = changeRequests.filter((request) => request.status === "PENDING");
+  const decided = changeRequests.filter((request) => request.status !== "PENDING").slice(0, 5);
+
+  if (changeRequests.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 rounded-lg shadow-lg p-8 mb-6">
+      <h2 className="text-xl font-semibold text-gray-900 dark:text-white mb-2 flex items-center gap-2">
+        <FontAwesomeIcon icon={faUserCheck} />
+        Change Requests
+      </h2>
+      <p className="text-sm text-gray-500 dark:text-gray-400 mb-6">
+        Changes held for review are applied once an admin other than the author approves them.
+      </p>
+
+      {pending.length === 0 && (
+        <p className="text-sm text-gray-500 dark:text-gray-400 mb-4">No pending changes.</p>
+      )}
+
+      <div className="space-y-4">
+        {pending.map((request) => (
+          <div key={request.id} className="p-4 rounded-lg border border-gray-200 dark:border-gray-700">
+            <div className="flex items-center gap-2 mb-3">
+              <span className={`px-2 py-0.5 rounded text-xs ${statusColors[request.status]}`}>{request.status}</span>
+              <span className="text-sm font-medium text-gray-900 dark:text-white">
+                {CHANGE_LABELS[request.change.type] || request.change.type}
+              </span>
+              <span className="text-xs text-gray-500 dark:text-gray-400">
+                by {request.author.name} · {new Date(request.createdAt).toLocaleString()}
+              </span>
+            </div>
+
+            {request.diff ? (
+              <FlagDiff diff={request.diff} formatRule={formatRule} />
+            ) : (
+              <p className="text-sm text-gray-500 dark:text-gray-400">Preview unavailable.</p>
+            )}
+
+            {request.error && (
+              <p className="mt-3 text-sm text-red-600 dark:text-red-400">Last approval failed: {request.error}</p>
+            )}
+
+            <div className="flex items-center gap-2 mt-4">
+              <input
+                type="text"
+                value={comments[request.id] || ""}
+                onChange={(e) => setComments({ ...comments, [request.id]: e.target.value })}
+                placeholder="Comment (required to reject)"
+                className="flex-1 px-3 py-1 bg-gray-50 dark:bg-gray-700 border border-gray-300 dark:border-gray-600 rounded text-sm text-gray-900 dark:text-white"
+              />
+              <button
+                onClick={() => handleReview(request.id, "approve")}
+                disabled={reviewing === request.id}
+                className="px-3 py-1 bg-green-600 hover:bg-green-700 disabled:bg-gray-400 text-white rounded text-sm flex items-center gap-2"
+              >
+                <FontAwesomeIcon
+                  icon={reviewing === request.id ? faSpinner : faCheck}
+                  className={reviewing === request.id ? "animate-spin" : ""}
+                />
+                Approve
+              </button>
+              <button
+                onClick={() => handleReview(request.id, "reject")}
+                disabled={reviewing === request.id}
+                className="px-3 py-1 bg-red-600 hover:bg-red-700 disabled:bg-gray-400 text-white rounded text-sm flex items-center gap-2"
+              >
+                <FontAwesomeIcon icon={faXmark} />
+                Reject
+              </button>
+            </div>
+          </div>
+        ))}
+      </div>
+
+      {decided.length > 0 && (
+        <div className="mt-6">
+          <h3 className="text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">Recent decisions</h3>
+          <ul className="space-y-2 text-sm">
+            {decided.map((request) => (
+              <li key={request.id} className="flex items-center gap-2 text-gray-600 dark:text-gray-400">
+                <span className={`px-2 py-0.5 rounded text-xs ${statusColors[request.status]}`}>{request.status}</span>
+                <span>
+                  {CHANGE_LABELS[request.change.type] || request.change.type} by {request.author.name}
+                  {request.reviewer && `, reviewed by ${request.reviewer.name}`}
+                  {request.reviewComment && `: "${request.reviewComment}"`}
+                </span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+}
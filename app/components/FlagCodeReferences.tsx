@@ -0,0 +1,79 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import { FontAwesomeIcon } from "@fortawesome/react-fontawesome";
+import { faCode, faChevronDown, faChevronRight } from "@fortawesome/free-solid-svg-icons";
+
+interface CodeReference {
+  id: string;
+  file: string;
+  line: number;
+  context: string;
+  repository: { name: string; branch: string | null; scannedAt: string };
+}
+
+export default function FlagCodeReferences({ flagId }: { flagId: string }) {
+  const [scannedRepositories, setScannedRepositories] = useState(0);
+  const [references, setReferences] = useState<CodeReference[]>([]);
+  const [expanded, setExpanded] = useState(false);
+
+  useEffect(() => {
+    fetch(`/api/feature-flags/${flagId}/code-references`)
+      .then((response) => (response.ok ? response.json() : { scannedRepositories: 0, references: [] }))
+      .then((data) => {
+        setScannedRepositories(data.scannedRepositories);
+        setReferences(data.references);
+      })
+      .catch(() => setReferences([]));
+  }, [flagId]);
+
+  // Nothing to say until the scanner has uploaded at least one repository
+  if (scannedRepositories === 0) {
+    return null;
+  }
+
+  return (
+    <div className="bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 rounded-lg shadow-lg p-6 mb-6">
+      <button
+        onClick={() => setExpanded(!expanded)}
+        disabled={references.length === 0}
+        className="w-full flex items-center gap-2 text-left"
+      >
+        <FontAwesomeIcon icon={faCode} className="text-gray-500 dark:text-gray-400" />
+        <span className="font-medium text-gray-900 dark:text-white">
+          {references.length === 0
+            ? "No code references"
+            : `Referenced in ${references.length} place${references.length === 1 ? "" : "s"}`}
+        </span>
+        <span className="text-sm text-gray-500 dark:text-gray-400">
+          across {scannedRepositories} scanned repositor{scannedRepositories === 1 ? "y" : "ies"}
+        </span>
+        {references.length > 0 && (
+          <FontAwesomeIcon
+            icon={expanded ? faChevronDown : faChevronRight}
+            className="ml-auto text-gray-500 dark:text-gray-400"
+          />
+        )}
+      </button>
+
+      {expanded && (
+        <div className="mt-4 space-y-3">
+          {references.map((reference) => (
+            <div key={reference.id} className="border border-gray-200 dark:border-gray-700 rounded">
+              <div className="px-3 py-2 bg-gray-50 dark:bg-gray-900 text-sm font-mono text-gray-700 dark:text-gray-300 flex justify-between">
+                <span>
+                  {reference.file}:{reference.line}
+                </span>
+                <span className="text-gray-500 dark:text-gray-400">
+                  {reference.repository.name}
+                  {reference.repository.branch && `@${reference.repository.branch}`}
+                </span>
+              </div>
+              <pre className="px-3 py-2 text-xs text-gray-700 dark:text-gray-300 overflow-x-auto">{reference.context}</pre>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,87 @@
+"use client";
+
+export interface DiffRule {
+  id: string;
+  type: string;
+  condition: Record<string, unknown>;
+  serve: unknown;
+  order: number;
+}
+
+export interface FlagConfigDiff {
+  fields: { field: string; before: unknown; after: unknown }[];
+  rules: {
+    added: DiffRule[];
+    removed: DiffRule[];
+    changed: { before: DiffRule; after: DiffRule }[];
+    unchanged: number;
+  };
+}
+
+const formatValue = (value: unknown) => {
+  if (value === null || value === undefined || value === "") return "—";
+  if (typeof value === "string") return value;
+  return JSON.stringify(value);
+};
+
+export default function FlagDiff({
+  diff,
+  formatRule,
+}: {
+  diff: FlagConfigDiff;
+  formatRule: (rule: DiffRule) => string;
+}) {
+  return (
+    <div>
+      {diff.fields.length === 0 &&
+        diff.rules.added.length === 0 &&
+        diff.rules.removed.length === 0 &&
+        diff.rules.changed.length === 0 && (
+          <p className="text-sm text-gray-500 dark:text-gray-400">No changes to settings or rules.</p>
+        )}
+
+      {diff.fields.length > 0 && (
+        <table className="w-full text-sm mb-4">
+          <tbody>
+            {diff.fields.map((change) => (
+              <tr key={change.field} className="border-b border-gray-200 dark:border-gray-700">
+                <td className="py-2 pr-4 text-gray-500 dark:text-gray-400 align-top">{change.field}</td>
+                <td className="py-2 pr-4 font-mono text-xs text-red-700 dark:text-red-400 line-through break-all align-top">
+                  {formatValue(change.before)}
+                </td>
+                <td className="py-2 font-mono text-xs text-green-700 dark:text-green-400 break-all align-top">
+                  {formatValue(change.after)}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+
+      <ul className="space-y-2 text-sm">
+        {diff.rules.removed.map((rule) => (
+          <li key={`removed-${rule.id}`} className="p-2 rounded border bg-red-50 border-red-200 text-red-800 dark:bg-red-500/10 dark:border-red-500/30 dark:text-red-400">
+            − {formatRule(rule)}
+          </li>
+        ))}
+        {diff.rules.changed.map(({ before, after }) => (
+          <li key={`changed-${after.id}`} className="p-2 rounded border bg-yellow-50 border-yellow-200 text-yellow-800 dark:bg-yellow-500/10 dark:border-yellow-500/30 dark:text-yellow-400">
+            <div className="line-through opacity-75">{formatRule(before)}</div>
+            <div>→ {formatRule(after)}</div>
+          </li>
+        ))}
+        {diff.rules.added.map((rule) => (
+          <li key={`added-${rule.id}`} className="p-2 rounded border bg-green-50 border-green-200 text-green-800 dark:bg-green-500/10 dark:border-green-500/30 dark:text-green-400">
+            + {formatRule(rule)}
+          </li>
+        ))}
+      </ul>
+
+      {diff.rules.unchanged > 0 && (
+        <p className="mt-3 text-xs text-gray-500 dark:text-gray-400">
+          {diff.rules.unchanged} rule(s) unchanged
+        </p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,200 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import { FontAwesomeIcon } from "@fortawesome/react-fontawesome";
+import { faClockRotateLeft, faSpinner, faRotateLeft } from "@fortawesome/free-solid-svg-icons";
+import { useToast } from "@/app/components/ToastProvider";
+import FlagDiff, { type DiffRule, type FlagConfigDiff } from "@/app/components/FlagDiff";
+
+interface Revision {
+  id: string;
+  version: number;
+  changeType: string;
+  metadata: Record<string, unknown> | null;
+  createdAt: string;
+  actor: { id: string; name: string } | null;
+}
+
+const CHANGE_LABELS: Record<string, string> = {
+  baseline: "History started",
+  created: "Flag created",
+  updated: "Settings updated",
+  rule_added: "Rule added",
+  rule_updated: "Rule updated",
+  rule_deleted: "Rule deleted",
+  reverted: "Reverted",
+  promoted: "Promoted",
+};
+
+const describeRevision = (revision: Revision) => {
+  const label = CHANGE_LABELS[revision.changeType] || revision.changeType;
+  const metadata = revision.metadata || {};
+  if (metadata.revertedTo) return `${label} to v${metadata.revertedTo}`;
+  if (metadata.promotedFrom) return `${label} from ${metadata.promotedFrom}`;
+  if (metadata.scheduledChangeId) return `${label} (scheduled)`;
+  if (metadata.rolloutPlanId && metadata.incidentId) return `${label} (rollout guard)`;
+  if (metadata.rolloutPlanId) return `${label} (rollout plan)`;
+  return label;
+};
+
+export default function FlagHistory({
+  flagId,
+  formatRule,
+  onReverted,
+  onSubmittedForApproval,
+}: {
+  flagId: string;
+  formatRule: (rule: DiffRule) => string;
+  onReverted: () => void;
+  onSubmittedForApproval: () => void;
+}) {
+  const toast = useToast();
+  const [revisions, setRevisions] = useState<Revision[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [selected, setSelected] = useState<number | null>(null);
+  const [diff, setDiff] = useState<FlagConfigDiff | null>(null);
+  const [loadingDiff, setLoadingDiff] = useState(false);
+  const [reverting, setReverting] = useState(false);
+
+  useEffect(() => {
+    fetchRevisions();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [flagId]);
+
+  const fetchRevisions = async () => {
+    try {
+      setLoading(true);
+      const response = await fetch(`/api/feature-flags/${flagId}/revisions`);
+      if (!response.ok) throw new Error("Failed to fetch history");
+      const data = await response.json();
+      setRevisions(data.revisions);
+      if (data.revisions.length > 0) {
+        selectRevision(data.revisions[0].version);
+      }
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : "Failed to fetch history");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const selectRevision = async (version: number) => {
+    setSelected(version);
+    setDiff(null);
+    setLoadingDiff(true);
+    try {
+      const response = await fetch(`/api/feature-flags/${flagId}/revisions/diff?to=${version}`);
+      if (!response.ok) throw new Error("Failed to load changes");
+      const data = await response.json();
+      setDiff(data.diff);
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : "Failed to load changes");
+    } finally {
+      setLoadingDiff(false);
+    }
+  };
+
+  const handleRevert = async (version: number) => {
+    if (!confirm(`Restore this flag to v${version}? This is recorded as a new revision.`)) return;
+
+    setReverting(true);
+    try {
+      const response = await fetch(`/api/feature-flags/${flagId}/revisions/${version}/revert`, {
+        method: "POST",
+      });
+
+      if (!response.ok) {
+        const data = await response.json();
+        throw new Error(data.error || "Failed to revert flag");
+      }
+
+      if (response.status === 202) {
+        toast.success("Revert submitted for approval");
+        onSubmittedForApproval();
+        return;
+      }
+
+      toast.success(`Flag restored to v${version}`);
+      onReverted();
+      await fetchRevisions();
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : "Failed to revert flag");
+    } finally {
+      setReverting(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center py-12">
+        <FontAwesomeIcon icon={faSpinner} className="animate-spin text-2xl text-gray-400" />
+      </div>
+    );
+  }
+
+  if (revisions.length === 0) {
+    return (
+      <div className="text-center py-12 text-gray-500 dark:text-gray-400">
+        <FontAwesomeIcon icon={faClockRotateLeft} className="text-4xl mb-4" />
+        <p>No history yet. Revisions are recorded on every change to this flag.</p>
+      </div>
+    );
+  }
+
+  const latestVersion = revisions[0].version;
+
+  return (
+    <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+      <div className="space-y-2">
+        {revisions.map((revision) => (
+          <button
+            key={revision.id}
+            onClick={() => selectRevision(revision.version)}
+            className={`w-full text-left p-3 rounded-lg border transition-colors ${
+              selected === revision.version
+                ? "bg-blue-50 border-blue-300 dark:bg-blue-500/10 dark:border-blue-500/40"
+                : "bg-gray-50 border-gray-200 hover:bg-gray-100 dark:bg-gray-700 dark:border-gray-600 dark:hover:bg-gray-600"
+            }`}
+          >
+            <div className="flex items-center justify-between">
+              <span className="text-sm font-medium text-gray-900 dark:text-white">{describeRevision(revision)}</span>
+              <span className="text-xs font-mono text-gray-500 dark:text-gray-400">v{revision.version}</span>
+            </div>
+            <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+              {new Date(revision.createdAt).toLocaleString()}
+              {revision.actor && ` · ${revision.actor.name}`}
+            </p>
+          </button>
+        ))}
+      </div>
+
+      <div className="md:col-span-2">
+        {loadingDiff || !diff || selected === null ? (
+          <div className="flex items-center justify-center py-12">
+            <FontAwesomeIcon icon={faSpinner} className="animate-spin text-xl text-gray-400" />
+          </div>
+        ) : (
+          <div>
+            <div className="flex justify-between items-center mb-4">
+              <h3 className="text-sm font-medium text-gray-700 dark:text-gray-300">
+                Changes in v{selected}
+              </h3>
+              {selected !== latestVersion && (
+                <button
+                  onClick={() => handleRevert(selected)}
+                  disabled={reverting}
+                  className="px-3 py-1 bg-gray-600 hover:bg-gray-500 disabled:bg-gray-400 text-white rounded text-sm flex items-center gap-2"
+                >
+                  <FontAwesomeIcon icon={reverting ? faSpinner : faRotateLeft} className={reverting ? "animate-spin" : ""} />
+                  Restore v{selected}
+                </button>
+              )}
+            </div>
+
+            <FlagDiff diff={diff} formatRule={formatRule} />
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
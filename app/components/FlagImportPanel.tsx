@@ -0,0 +1,150 @@
+"use client";
+
+import { useState } from "react";
+import { FontAwesomeIcon } from "@fortawesome/react-fontawesome";
+import { faSpinner, faFileImport } from "@fortawesome/free-solid-svg-icons";
+import { useToast } from "@/app/components/ToastProvider";
+
+type ImportAction = "create" | "update" | "unchanged" | "conflict";
+
+interface ImportPlan {
+  summary: Record<ImportAction, number>;
+  changes: {
+    key: string;
+    environment: string;
+    action: ImportAction;
+    error: string | null;
+  }[];
+}
+
+const actionColors: Record<ImportAction, string> = {
+  create: "bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-300",
+  update: "bg-blue-100 text-blue-800 dark:bg-blue-900 dark:text-blue-300",
+  unchanged: "bg-gray-100 text-gray-700 dark:bg-gray-700 dark:text-gray-300",
+  conflict: "bg-red-100 text-red-800 dark:bg-red-900 dark:text-red-300",
+};
+
+export default function FlagImportPanel({
+  onClose,
+  onImported,
+}: {
+  onClose: () => void;
+  onImported: () => void;
+}) {
+  const toast = useToast();
+  const [text, setText] = useState("");
+  const [format, setFormat] = useState<"json" | "yaml">("json");
+  const [plan, setPlan] = useState<ImportPlan | null>(null);
+  const [working, setWorking] = useState(false);
+
+  const handleFile = async (file: File) => {
+    setFormat(/\.ya?ml$/i.test(file.name) ? "yaml" : "json");
+    setText(await file.text());
+    setPlan(null);
+  };
+
+  const submit = async (dryRun: boolean) => {
+    setWorking(true);
+    try {
+      const response = await fetch(`/api/feature-flags/import?format=${format}&dryRun=${dryRun}`, {
+        method: "POST",
+        headers: { "Content-Type": format === "yaml" ? "application/yaml" : "application/json" },
+        body: text,
+      });
+      const data = await response.json();
+
+      if (data.changes) setPlan(data);
+      if (!response.ok) throw new Error(data.error || "Failed to import flags");
+
+      if (!dryRun) {
+        toast.success(`Imported ${data.summary.create} new and ${data.summary.update} updated flags`);
+        onImported();
+        onClose();
+      }
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : "Failed to import flags");
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  const pending = plan ? plan.summary.create + plan.summary.update : 0;
+
+  return (
+    <div className="mb-6 p-6 bg-gray-800 rounded-lg border border-gray-700">
+      <h2 className="text-lg font-semibold text-white mb-4">Import Flags</h2>
+      <div className="flex items-center gap-4 mb-3">
+        <input
+          type="file"
+          accept=".json,.yaml,.yml"
+          onChange={(e) => e.target.files?.[0] && handleFile(e.target.files[0])}
+          className="text-sm text-gray-300"
+        />
+        <select
+          value={format}
+          onChange={(e) => {
+            setFormat(e.target.value as "json" | "yaml");
+            setPlan(null);
+          }}
+          className="px-3 py-1 bg-gray-700 border border-gray-600 rounded text-white text-sm"
+        >
+          <option value="json">JSON</option>
+          <option value="yaml">YAML</option>
+        </select>
+      </div>
+      <textarea
+        value={text}
+        onChange={(e) => {
+          setText(e.target.value);
+          setPlan(null);
+        }}
+        rows={8}
+        placeholder="Paste an export, or choose a file"
+        className="w-full px-3 py-2 bg-gray-700 border border-gray-600 rounded text-white font-mono text-xs"
+      />
+
+      {plan && (
+        <div className="mt-4">
+          <p className="text-sm text-gray-300 mb-2">
+            {plan.summary.create} to create, {plan.summary.update} to update, {plan.summary.unchanged} unchanged,{" "}
+            {plan.summary.conflict} conflicts
+          </p>
+          <div className="max-h-64 overflow-y-auto space-y-1">
+            {plan.changes
+              .filter((change) => change.action !== "unchanged")
+              .map((change) => (
+                <div key={`${change.key}-${change.environment}`} className="flex items-center gap-2 text-sm">
+                  <span className={`px-2 py-0.5 rounded text-xs ${actionColors[change.action]}`}>{change.action}</span>
+                  <span className="font-mono text-white">{change.key}</span>
+                  <span className="text-gray-400">{change.environment}</span>
+                  {change.error && <span className="text-red-400">{change.error}</span>}
+                </div>
+              ))}
+          </div>
+        </div>
+      )}
+
+      <div className="flex justify-end gap-2 mt-4">
+        <button onClick={onClose} className="px-4 py-2 bg-gray-600 hover:bg-gray-500 text-white rounded">
+          Cancel
+        </button>
+        <button
+          onClick={() => submit(true)}
+          disabled={working || !text}
+          className="px-4 py-2 bg-gray-600 hover:bg-gray-500 disabled:bg-gray-700 text-white rounded flex items-center gap-2"
+        >
+          {working && <FontAwesomeIcon icon={faSpinner} className="animate-spin" />}
+          Preview
+        </button>
+        <button
+          onClick={() => submit(false)}
+          disabled={working || !plan || plan.summary.conflict > 0 || pending === 0}
+          className="px-4 py-2 bg-blue-600 hover:bg-blue-700 disabled:bg-gray-600 text-white rounded flex items-center gap-2"
+        >
+          <FontAwesomeIcon icon={faFileImport} />
+          Import {pending > 0 && `${pending} changes`}
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,194 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import { FontAwesomeIcon } from "@fortawesome/react-fontawesome";
+import { faChartColumn, faSpinner } from "@fortawesome/free-solid-svg-icons";
+import { useToast } from "@/app/components/ToastProvider";
+
+interface Insights {
+  from: string;
+  hours: number;
+  series: { hour: string; evaluations: number; enabled: number }[];
+  totals: { evaluations: number; enabled: number; disabled: number };
+  rules: { ruleIndex: number; count: number }[];
+  variants: { variant: string; count: number }[];
+}
+
+const RANGES = [
+  { hours: 24, label: "24h" },
+  { hours: 24 * 7, label: "7d" },
+  { hours: 24 * 30, label: "30d" },
+];
+
+const percentOf = (count: number, total: number) => (total > 0 ? (count / total) * 100 : 0);
+
+export default function FlagInsights({
+  flagId,
+  describeRule,
+}: {
+  flagId: string;
+  // Rule indexes refer to the flag's rules in evaluation order at the time they were recorded
+  describeRule: (ruleIndex: number) => string;
+}) {
+  const toast = useToast();
+  const [hours, setHours] = useState(24);
+  const [insights, setInsights] = useState<Insights | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    fetchInsights();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [flagId, hours]);
+
+  const fetchInsights = async () => {
+    try {
+      setLoading(true);
+      const response = await fetch(`/api/feature-flags/${flagId}/insights?hours=${hours}`);
+      if (!response.ok) throw new Error("Failed to fetch insights");
+      setInsights(await response.json());
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : "Failed to fetch insights");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const rangeButtons = (
+    <div className="flex gap-1">
+      {RANGES.map((range) => (
+        <button
+          key={range.hours}
+          onClick={() => setHours(range.hours)}
+          className={`px-3 py-1 rounded text-sm ${
+            hours === range.hours
+              ? "bg-blue-600 text-white"
+              : "bg-gray-100 text-gray-700 hover:bg-gray-200 dark:bg-gray-700 dark:text-gray-300 dark:hover:bg-gray-600"
+          }`}
+        >
+          {range.label}
+        </button>
+      ))}
+    </div>
+  );
+
+  if (loading || !insights) {
+    return (
+      <div className="flex items-center justify-center py-12">
+        <FontAwesomeIcon icon={faSpinner} className="animate-spin text-2xl text-gray-400" />
+      </div>
+    );
+  }
+
+  if (insights.totals.evaluations === 0) {
+    return (
+      <div>
+        <div className="flex justify-end mb-4">{rangeButtons}</div>
+        <div className="text-center py-12 text-gray-500 dark:text-gray-400">
+          <FontAwesomeIcon icon={faChartColumn} className="text-4xl mb-4" />
+          <p>No evaluations in this period.</p>
+        </div>
+      </div>
+    );
+  }
+
+  const { totals } = insights;
+  const peak = Math.max(...insights.series.map((point) => point.evaluations), 1);
+
+  return (
+    <div className="space-y-8">
+      <div className="flex justify-between items-center">
+        <p className="text-sm text-gray-600 dark:text-gray-400">
+          <span className="text-2xl font-bold text-gray-900 dark:text-white mr-2">
+            {totals.evaluations.toLocaleString()}
+          </span>
+          evaluations
+        </p>
+        {rangeButtons}
+      </div>
+
+      {/* Evaluations over time: each bar is one hour, the green part is the enabled share */}
+      <div>
+        <h3 className="text-sm font-medium text-gray-700 dark:text-gray-300 mb-3">Evaluations over time</h3>
+        <div className="flex items-end gap-px h-40 bg-gray-50 dark:bg-gray-900 rounded p-2">
+          {insights.series.map((point) => (
+            <div
+              key={point.hour}
+              className="flex-1 flex flex-col justify-end h-full"
+              title={`${new Date(point.hour).toLocaleString()}: ${point.evaluations} evaluations, ${point.enabled} enabled`}
+            >
+              <div
+                className="bg-gray-300 dark:bg-gray-600"
+                style={{ height: `${percentOf(point.evaluations - point.enabled, peak)}%` }}
+              />
+              <div className="bg-green-500" style={{ height: `${percentOf(point.enabled, peak)}%` }} />
+            </div>
+          ))}
+        </div>
+        <div className="flex justify-between text-xs text-gray-500 dark:text-gray-400 mt-1">
+          <span>{new Date(insights.from).toLocaleString()}</span>
+          <span>Now</span>
+        </div>
+      </div>
+
+      <div>
+        <h3 className="text-sm font-medium text-gray-700 dark:text-gray-300 mb-3">True / false split</h3>
+        <div className="h-3 flex bg-gray-100 dark:bg-gray-700 rounded-full overflow-hidden">
+          <div className="h-full bg-green-500" style={{ width: `${percentOf(totals.enabled, totals.evaluations)}%` }} />
+          <div className="h-full bg-gray-400" style={{ width: `${percentOf(totals.disabled, totals.evaluations)}%` }} />
+        </div>
+        <div className="flex justify-between text-xs text-gray-600 dark:text-gray-400 mt-1">
+          <span>
+            True: {totals.enabled.toLocaleString()} ({percentOf(totals.enabled, totals.evaluations).toFixed(1)}%)
+          </span>
+          <span>
+            False: {totals.disabled.toLocaleString()} ({percentOf(totals.disabled, totals.evaluations).toFixed(1)}%)
+          </span>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+        <div>
+          <h3 className="text-sm font-medium text-gray-700 dark:text-gray-300 mb-3">Rule hits</h3>
+          <div className="space-y-3">
+            {insights.rules.map((rule) => (
+              <div key={rule.ruleIndex}>
+                <div className="flex justify-between text-sm mb-1">
+                  <span className="text-gray-700 dark:text-gray-300 truncate mr-2">{describeRule(rule.ruleIndex)}</span>
+                  <span className="text-gray-500 dark:text-gray-400">{rule.count.toLocaleString()}</span>
+                </div>
+                <div className="h-2 bg-gray-100 dark:bg-gray-700 rounded-full overflow-hidden">
+                  <div
+                    className="h-full bg-blue-500 transition-all"
+                    style={{ width: `${percentOf(rule.count, totals.evaluations)}%` }}
+                  />
+                </div>
+              </div>
+            ))}
+          </div>
+        </div>
+
+        {insights.variants.length > 0 && (
+          <div>
+            <h3 className="text-sm font-medium text-gray-700 dark:text-gray-300 mb-3">Variants served</h3>
+            <div className="space-y-3">
+              {insights.variants.map((variant) => (
+                <div key={variant.variant}>
+                  <div className="flex justify-between text-sm mb-1">
+                    <span className="font-mono text-gray-700 dark:text-gray-300">{variant.variant}</span>
+                    <span className="text-gray-500 dark:text-gray-400">{variant.count.toLocaleString()}</span>
+                  </div>
+                  <div className="h-2 bg-gray-100 dark:bg-gray-700 rounded-full overflow-hidden">
+                    <div
+                      className="h-full bg-purple-500 transition-all"
+                      style={{ width: `${percentOf(variant.count, totals.evaluations)}%` }}
+                    />
+                  </div>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
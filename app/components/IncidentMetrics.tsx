@@ -0,0 +1,325 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import { FontAwesomeIcon } from "@fortawesome/react-fontawesome";
+import {
+  faExclamationTriangle,
+  faCheckCircle,
+  faShieldAlt,
+  faClock,
+  faChartLine,
+  faSpinner,
+  faStopwatch,
+} from "@fortawesome/free-solid-svg-icons";
+import { useToast } from "@/app/components/ToastProvider";
+
+interface ResponseTime {
+  averageSeconds: number | null;
+  incidents: number;
+}
+
+interface MetricsCount {
+  key: string;
+  count: number;
+}
+
+interface Metrics {
+  from: string;
+  days: number;
+  bucket: "day" | "week";
+  total: number;
+  unresolved: MetricsCount[];
+  responseTimes: { mtta: ResponseTime; mttm: ResponseTime; mttr: ResponseTime };
+  byStatus: MetricsCount[];
+  bySeverity: MetricsCount[];
+  byService: MetricsCount[];
+  byEnvironment: MetricsCount[];
+  trend: {
+    start: string;
+    opened: number;
+    bySeverity: Record<string, number>;
+    mttaSeconds: number | null;
+    mttrSeconds: number | null;
+  }[];
+}
+
+// Longer ranges use weekly buckets so the charts stay readable
+const RANGES = [
+  { days: 7, bucket: "day", label: "7d" },
+  { days: 30, bucket: "day", label: "30d" },
+  { days: 90, bucket: "week", label: "90d" },
+];
+
+const severityColors: Record<string, string> = {
+  SEV1: "bg-red-500",
+  SEV2: "bg-orange-500",
+  SEV3: "bg-yellow-500",
+  SEV4: "bg-blue-500",
+};
+
+// Services beyond this are left off the breakdown
+const MAX_SERVICES = 8;
+
+const percentOf = (count: number, total: number) => (total > 0 ? (count / total) * 100 : 0);
+
+function formatSeconds(seconds: number | null): string {
+  if (seconds == null) return "—";
+  const minutes = Math.floor(seconds / 60);
+  if (minutes < 1) return `${Math.round(seconds)}s`;
+  if (minutes < 60) return `${minutes}m`;
+  const hours = Math.floor(minutes / 60);
+  if (hours < 24) return `${hours}h ${minutes % 60}m`;
+  return `${Math.floor(hours / 24)}d ${hours % 24}h`;
+}
+
+function countOf(counts: MetricsCount[], ...keys: string[]): number {
+  return counts.filter((c) => keys.includes(c.key)).reduce((sum, c) => sum + c.count, 0);
+}
+
+function Breakdown({ title, counts, total, color }: { title: string; counts: MetricsCount[]; total: number; color?: string }) {
+  return (
+    <div>
+      <h3 className="text-sm font-medium text-gray-700 dark:text-gray-300 mb-3">{title}</h3>
+      {counts.length === 0 ? (
+        <p className="text-sm text-gray-500 dark:text-gray-400">No incidents in this period</p>
+      ) : (
+        <div className="space-y-3">
+          {counts.map(({ key, count }) => (
+            <div key={key}>
+              <div className="flex justify-between text-sm mb-1">
+                <span className="text-gray-700 dark:text-gray-300 truncate mr-2">{key}</span>
+                <span className="text-gray-500 dark:text-gray-400">
+                  {count} ({Math.round(percentOf(count, total))}%)
+                </span>
+              </div>
+              <div className="h-2 bg-gray-100 dark:bg-gray-700 rounded-full overflow-hidden">
+                <div
+                  className={`h-full ${color ?? severityColors[key]} transition-all`}
+                  style={{ width: `${percentOf(count, total)}%` }}
+                />
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+function DurationTrend({
+  title,
+  trend,
+  field,
+  color,
+}: {
+  title: string;
+  trend: Metrics["trend"];
+  field: "mttaSeconds" | "mttrSeconds";
+  color: string;
+}) {
+  const peak = Math.max(...trend.map((point) => point[field] ?? 0), 1);
+
+  return (
+    <div>
+      <h3 className="text-sm font-medium text-gray-700 dark:text-gray-300 mb-3">{title}</h3>
+      <div className="flex items-end gap-px h-24 bg-gray-50 dark:bg-gray-900 rounded p-2">
+        {trend.map((point) => (
+          <div
+            key={point.start}
+            className="flex-1 flex flex-col justify-end h-full"
+            title={`${new Date(point.start).toLocaleDateString()}: ${formatSeconds(point[field])}`}
+          >
+            <div className={color} style={{ height: `${percentOf(point[field] ?? 0, peak)}%` }} />
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+/**
+ * Server-side incident metrics: counts, MTTA/MTTM/MTTR, trends and breakdowns for a range
+ */
+export default function IncidentMetrics() {
+  const toast = useToast();
+  const [range, setRange] = useState(RANGES[1]);
+  const [metrics, setMetrics] = useState<Metrics | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    fetchMetrics();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [range]);
+
+  const fetchMetrics = async () => {
+    try {
+      setLoading(true);
+      const response = await fetch(`/api/metrics/incidents?days=${range.days}&bucket=${range.bucket}`);
+      if (!response.ok) throw new Error("Failed to fetch incident metrics");
+      setMetrics(await response.json());
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : "Failed to fetch incident metrics");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const rangeButtons = (
+    <div className="flex gap-1">
+      {RANGES.map((r) => (
+        <button
+          key={r.days}
+          onClick={() => setRange(r)}
+          className={`px-3 py-1 rounded text-sm ${
+            range.days === r.days
+              ? "bg-blue-600 text-white"
+              : "bg-gray-100 text-gray-700 hover:bg-gray-200 dark:bg-gray-700 dark:text-gray-300 dark:hover:bg-gray-600"
+          }`}
+        >
+          {r.label}
+        </button>
+      ))}
+    </div>
+  );
+
+  if (loading || !metrics) {
+    return (
+      <div className="flex items-center justify-center py-12">
+        <FontAwesomeIcon icon={faSpinner} className="animate-spin text-2xl text-gray-400" />
+      </div>
+    );
+  }
+
+  const statCards = [
+    { label: "Total Incidents", hint: "Opened in range", value: metrics.total, icon: faExclamationTriangle, color: "blue" },
+    // Current counts, including incidents opened before the range
+    { label: "Open Incidents", hint: "Right now", value: countOf(metrics.unresolved, "OPEN", "ACKNOWLEDGED"), icon: faClock, color: "red" },
+    { label: "Mitigated", hint: "Right now", value: countOf(metrics.unresolved, "MITIGATED"), icon: faShieldAlt, color: "yellow" },
+    { label: "Resolved", hint: "Opened in range", value: countOf(metrics.byStatus, "RESOLVED"), icon: faCheckCircle, color: "green" },
+  ];
+
+  const cardColors: Record<string, { border: string; text: string; icon: string }> = {
+    blue: { border: "border-blue-200 dark:border-blue-700/50", text: "text-blue-600 dark:text-blue-400", icon: "text-blue-500" },
+    red: { border: "border-red-200 dark:border-red-700/50", text: "text-red-600 dark:text-red-400", icon: "text-red-500" },
+    yellow: { border: "border-yellow-200 dark:border-yellow-700/50", text: "text-yellow-600 dark:text-yellow-400", icon: "text-yellow-500" },
+    green: { border: "border-green-200 dark:border-green-700/50", text: "text-green-600 dark:text-green-400", icon: "text-green-500" },
+  };
+
+  const responseTimes = [
+    { label: "MTTA", description: "Mean time to acknowledge", value: metrics.responseTimes.mtta },
+    { label: "MTTM", description: "Mean time to mitigate", value: metrics.responseTimes.mttm },
+    { label: "MTTR", description: "Mean time to resolve", value: metrics.responseTimes.mttr },
+  ];
+
+  const peak = Math.max(...metrics.trend.map((point) => point.opened), 1);
+
+  return (
+    <div className="space-y-6">
+      <div className="flex justify-between items-center">
+        <p className="text-sm text-gray-500 dark:text-gray-400">
+          Incidents opened since {new Date(metrics.from).toLocaleDateString()}
+        </p>
+        {rangeButtons}
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4">
+        {statCards.map((card) => (
+          <div
+            key={card.label}
+            className={`bg-white dark:bg-gray-800 rounded-lg p-4 border ${cardColors[card.color].border}`}
+          >
+            <div className="flex items-center justify-between">
+              <div>
+                <p className="text-gray-500 dark:text-gray-400 text-sm">{card.label}</p>
+                <p className={`text-3xl font-bold ${cardColors[card.color].text}`}>{card.value}</p>
+                <p className="text-xs text-gray-500 dark:text-gray-400">{card.hint}</p>
+              </div>
+              <FontAwesomeIcon icon={card.icon} className={`${cardColors[card.color].icon} text-2xl`} />
+            </div>
+          </div>
+        ))}
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        {responseTimes.map(({ label, description, value }) => (
+          <div
+            key={label}
+            className="bg-white dark:bg-gray-800 rounded-lg p-4 border border-gray-200 dark:border-gray-700"
+          >
+            <p className="text-gray-500 dark:text-gray-400 text-sm flex items-center gap-2">
+              <FontAwesomeIcon icon={faStopwatch} />
+              {label} · {description}
+            </p>
+            <p className="text-3xl font-bold text-gray-900 dark:text-white">{formatSeconds(value.averageSeconds)}</p>
+            <p className="text-xs text-gray-500 dark:text-gray-400">
+              across {value.incidents} incident{value.incidents === 1 ? "" : "s"}
+            </p>
+          </div>
+        ))}
+      </div>
+
+      <div className="bg-white dark:bg-gray-800 rounded-lg p-4 border border-gray-200 dark:border-gray-700 space-y-6">
+        <h2 className="text-lg font-semibold text-gray-900 dark:text-white flex items-center gap-2">
+          <FontAwesomeIcon icon={faChartLine} className="text-blue-400" />
+          Trends
+        </h2>
+
+        {/* Incidents opened per bucket, stacked by severity */}
+        <div>
+          <div className="flex justify-between items-center mb-3">
+            <h3 className="text-sm font-medium text-gray-700 dark:text-gray-300">
+              Incidents opened per {metrics.bucket}
+            </h3>
+            <div className="flex gap-3 text-xs text-gray-500 dark:text-gray-400">
+              {Object.entries(severityColors).map(([severity, color]) => (
+                <span key={severity} className="flex items-center gap-1">
+                  <span className={`w-2 h-2 rounded-full ${color}`} />
+                  {severity}
+                </span>
+              ))}
+            </div>
+          </div>
+          <div className="flex items-end gap-px h-40 bg-gray-50 dark:bg-gray-900 rounded p-2">
+            {metrics.trend.map((point) => (
+              <div
+                key={point.start}
+                className="flex-1 flex flex-col-reverse h-full"
+                title={`${new Date(point.start).toLocaleDateString()}: ${point.opened} opened`}
+              >
+                {Object.entries(severityColors).map(([severity, color]) => (
+                  <div
+                    key={severity}
+                    className={color}
+                    style={{ height: `${percentOf(point.bySeverity[severity] ?? 0, peak)}%` }}
+                  />
+                ))}
+              </div>
+            ))}
+          </div>
+          <div className="flex justify-between text-xs text-gray-500 dark:text-gray-400 mt-1">
+            <span>{new Date(metrics.from).toLocaleDateString()}</span>
+            <span>Today</span>
+          </div>
+        </div>
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+          <DurationTrend title="Time to acknowledge" trend={metrics.trend} field="mttaSeconds" color="bg-blue-500" />
+          <DurationTrend title="Time to resolve" trend={metrics.trend} field="mttrSeconds" color="bg-green-500" />
+        </div>
+      </div>
+
+      <div className="bg-white dark:bg-gray-800 rounded-lg p-4 border border-gray-200 dark:border-gray-700">
+        <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+          <Breakdown title="By severity" counts={metrics.bySeverity} total={metrics.total} />
+          <Breakdown
+            title="By service"
+            counts={metrics.byService.slice(0, MAX_SERVICES)}
+            total={metrics.total}
+            color="bg-purple-500"
+          />
+          <Breakdown title="By environment" counts={metrics.byEnvironment} total={metrics.total} color="bg-cyan-500" />
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,140 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import { FontAwesomeIcon } from "@fortawesome/react-fontawesome";
+import { faDiagramProject, faSpinner } from "@fortawesome/free-solid-svg-icons";
+import { useToast } from "@/app/components/ToastProvider";
+
+type IncidentStatus = "OPEN" | "ACKNOWLEDGED" | "MITIGATED" | "RESOLVED";
+
+type Workflow = Record<IncidentStatus, IncidentStatus[]>;
+
+const STATUSES: IncidentStatus[] = ["OPEN", "ACKNOWLEDGED", "MITIGATED", "RESOLVED"];
+
+export default function IncidentWorkflowCard() {
+  const toast = useToast();
+  const [workflow, setWorkflow] = useState<Workflow | null>(null);
+  const [isDefault, setIsDefault] = useState(true);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    fetchWorkflow();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, []);
+
+  const fetchWorkflow = async () => {
+    try {
+      setLoading(true);
+      const response = await fetch("/api/incident-workflow");
+      if (!response.ok) throw new Error("Failed to fetch incident workflow");
+      const data = await response.json();
+      setWorkflow(data.workflow);
+      setIsDefault(data.isDefault);
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : "Failed to fetch incident workflow");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const saveWorkflow = async (next: Workflow | null) => {
+    setSaving(true);
+    try {
+      const response = await fetch("/api/incident-workflow", {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ workflow: next }),
+      });
+
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error === "Forbidden" ? "Only admins can change the incident workflow" : data.error || "Failed to update incident workflow");
+      }
+
+      setWorkflow(data.workflow);
+      setIsDefault(data.isDefault);
+      toast.success("Incident workflow updated");
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : "Failed to update incident workflow");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleToggle = (from: IncidentStatus, to: IncidentStatus) => {
+    if (!workflow) return;
+
+    const next = {
+      ...workflow,
+      [from]: workflow[from].includes(to)
+        ? workflow[from].filter((status) => status !== to)
+        : [...workflow[from], to],
+    };
+    saveWorkflow(next);
+  };
+
+  return (
+    <div className="bg-white dark:bg-gray-800 rounded-lg p-6 border border-gray-200 dark:border-gray-700">
+      <h2 className="text-lg font-semibold text-gray-900 dark:text-white mb-2 flex items-center gap-2">
+        <FontAwesomeIcon icon={faDiagramProject} />
+        Incident Workflow
+      </h2>
+      <p className="text-sm text-gray-500 dark:text-gray-400 mb-4">
+        Which status changes are allowed, from the status in each row to the status in each column. Allow RESOLVED → OPEN to let incidents be reopened.
+      </p>
+
+      {loading || !workflow ? (
+        <FontAwesomeIcon icon={faSpinner} className="animate-spin text-gray-400" />
+      ) : (
+        <>
+          <div className="overflow-x-auto">
+            <table className="text-sm">
+              <thead>
+                <tr>
+                  <th className="text-left text-gray-500 dark:text-gray-400 pb-2 pr-6 font-medium">From \ To</th>
+                  {STATUSES.map((status) => (
+                    <th key={status} className="text-gray-500 dark:text-gray-400 pb-2 px-3 font-medium">
+                      {status}
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {STATUSES.map((from) => (
+                  <tr key={from}>
+                    <td className="text-gray-700 dark:text-gray-300 py-1 pr-6 font-medium">{from}</td>
+                    {STATUSES.map((to) => (
+                      <td key={to} className="text-center py-1 px-3">
+                        {from === to ? (
+                          <span className="text-gray-400">—</span>
+                        ) : (
+                          <input
+                            type="checkbox"
+                            checked={workflow[from].includes(to)}
+                            onChange={() => handleToggle(from, to)}
+                            disabled={saving}
+                            aria-label={`Allow ${from} to ${to}`}
+                          />
+                        )}
+                      </td>
+                    ))}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+          {!isDefault && (
+            <button
+              onClick={() => saveWorkflow(null)}
+              disabled={saving}
+              className="mt-4 text-sm text-blue-600 dark:text-blue-400 hover:underline disabled:opacity-50"
+            >
+              Reset to default
+            </button>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
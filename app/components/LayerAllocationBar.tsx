@@ -0,0 +1,40 @@
+"use client";
+
+export interface LayerSliceSummary {
+  flagId: string;
+  key: string;
+  enabled: boolean;
+  start: number;
+  percentage: number;
+}
+
+const sliceColors = ["bg-blue-500", "bg-purple-500", "bg-teal-500", "bg-amber-500", "bg-pink-500", "bg-indigo-500"];
+
+/**
+ * A layer's 100 buckets with each flag's slice drawn in place
+ * highlightFlagId outlines one slice, e.g. the flag being edited
+ */
+export default function LayerAllocationBar({
+  slices,
+  highlightFlagId,
+}: {
+  slices: LayerSliceSummary[];
+  highlightFlagId?: string;
+}) {
+  return (
+    <div className="relative h-6 bg-gray-200 dark:bg-gray-700 rounded overflow-hidden">
+      {slices.map((slice, index) => (
+        <div
+          key={slice.flagId}
+          title={`${slice.key}: buckets ${slice.start}-${slice.start + slice.percentage - 1}${slice.enabled ? "" : " (disabled)"}`}
+          className={`absolute inset-y-0 ${sliceColors[index % sliceColors.length]} ${
+            slice.enabled ? "" : "opacity-40"
+          } ${slice.flagId === highlightFlagId ? "ring-2 ring-inset ring-white" : ""} border-r border-gray-900/20 text-xs text-white px-1 truncate leading-6`}
+          style={{ left: `${slice.start}%`, width: `${slice.percentage}%` }}
+        >
+          {slice.key}
+        </div>
+      ))}
+    </div>
+  );
+}
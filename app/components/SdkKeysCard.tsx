@@ -0,0 +1,226 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import { FontAwesomeIcon } from "@fortawesome/react-fontawesome";
+import { faKey, faPlus, faSpinner, faCopy, faBan } from "@fortawesome/free-solid-svg-icons";
+import { useToast } from "@/app/components/ToastProvider";
+
+interface SdkKey {
+  id: string;
+  name: string;
+  environment: "DEV" | "STAGING" | "PROD";
+  scope: "CLIENT" | "SERVER";
+  keyPrefix: string;
+  lastUsedAt: string | null;
+  revokedAt: string | null;
+  createdAt: string;
+}
+
+const envColors = {
+  DEV: "bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-300",
+  STAGING: "bg-yellow-100 text-yellow-800 dark:bg-yellow-900 dark:text-yellow-300",
+  PROD: "bg-red-100 text-red-800 dark:bg-red-900 dark:text-red-300",
+};
+
+export default function SdkKeysCard() {
+  const toast = useToast();
+  const [sdkKeys, setSdkKeys] = useState<SdkKey[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [creating, setCreating] = useState(false);
+  const [name, setName] = useState("");
+  const [environment, setEnvironment] = useState<SdkKey["environment"]>("DEV");
+  const [scope, setScope] = useState<SdkKey["scope"]>("CLIENT");
+  const [createdKey, setCreatedKey] = useState<{ key: string; signingSecret?: string } | null>(null);
+
+  useEffect(() => {
+    fetchSdkKeys();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, []);
+
+  const fetchSdkKeys = async () => {
+    try {
+      setLoading(true);
+      const response = await fetch("/api/sdk-keys");
+      if (!response.ok) throw new Error("Failed to fetch SDK keys");
+      const data = await response.json();
+      setSdkKeys(data.sdkKeys);
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : "Failed to fetch SDK keys");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleCreate = async () => {
+    if (!name.trim()) return;
+
+    setCreating(true);
+    try {
+      const response = await fetch("/api/sdk-keys", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ name: name.trim(), environment, scope }),
+      });
+
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error === "Forbidden" ? "Only admins can create SDK keys" : data.error || "Failed to create SDK key");
+      }
+
+      const { key, signingSecret, ...sdkKey } = data;
+      setSdkKeys([sdkKey, ...sdkKeys]);
+      setCreatedKey({ key, signingSecret });
+      setName("");
+      toast.success("SDK key created successfully");
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : "Failed to create SDK key");
+    } finally {
+      setCreating(false);
+    }
+  };
+
+  const handleRevoke = async (sdkKeyId: string) => {
+    if (!confirm("Revoke this SDK key? Services using it will stop receiving flags.")) return;
+
+    try {
+      const response = await fetch(`/api/sdk-keys/${sdkKeyId}`, { method: "DELETE" });
+      if (!response.ok) {
+        const data = await response.json();
+        throw new Error(data.error === "Forbidden" ? "Only admins can revoke SDK keys" : data.error || "Failed to revoke SDK key");
+      }
+
+      setSdkKeys(
+        sdkKeys.map((k) => (k.id === sdkKeyId ? { ...k, revokedAt: new Date().toISOString() } : k))
+      );
+      toast.success("SDK key revoked");
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : "Failed to revoke SDK key");
+    }
+  };
+
+  const handleCopy = async (value: string) => {
+    await navigator.clipboard.writeText(value);
+    toast.success("Copied to clipboard");
+  };
+
+  return (
+    <div className="bg-white dark:bg-gray-800 rounded-lg p-6 border border-gray-200 dark:border-gray-700">
+      <h2 className="text-lg font-semibold text-gray-900 dark:text-white mb-1">SDK Keys</h2>
+      <p className="text-sm text-gray-500 dark:text-gray-400 mb-4">
+        Client keys can be shipped to browsers and only evaluate flags with{" "}
+        <code className="font-mono">POST /api/sdk/evaluate</code>. Server keys stay on your backends and CI: they can
+        also download signed snapshots and upload code references.
+      </p>
+
+      <div className="flex gap-2 mb-4">
+        <input
+          type="text"
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          placeholder="checkout-service"
+          className="flex-1 px-3 py-2 bg-gray-50 dark:bg-gray-700 border border-gray-300 dark:border-gray-600 rounded text-gray-900 dark:text-white"
+        />
+        <select
+          value={environment}
+          onChange={(e) => setEnvironment(e.target.value as SdkKey["environment"])}
+          className="px-3 py-2 bg-gray-50 dark:bg-gray-700 border border-gray-300 dark:border-gray-600 rounded text-gray-900 dark:text-white"
+        >
+          <option value="DEV">DEV</option>
+          <option value="STAGING">STAGING</option>
+          <option value="PROD">PROD</option>
+        </select>
+        <select
+          value={scope}
+          onChange={(e) => setScope(e.target.value as SdkKey["scope"])}
+          className="px-3 py-2 bg-gray-50 dark:bg-gray-700 border border-gray-300 dark:border-gray-600 rounded text-gray-900 dark:text-white"
+        >
+          <option value="CLIENT">Client</option>
+          <option value="SERVER">Server</option>
+        </select>
+        <button
+          onClick={handleCreate}
+          disabled={creating || !name.trim()}
+          className="px-4 py-2 bg-blue-600 hover:bg-blue-700 disabled:bg-gray-400 dark:disabled:bg-gray-600 text-white rounded flex items-center gap-2"
+        >
+          <FontAwesomeIcon icon={creating ? faSpinner : faPlus} className={creating ? "animate-spin" : ""} />
+          Create Key
+        </button>
+      </div>
+
+      {createdKey && (
+        <div className="mb-4 p-3 rounded border border-yellow-300 dark:border-yellow-700 bg-yellow-50 dark:bg-yellow-900/30">
+          <p className="text-sm text-yellow-800 dark:text-yellow-300 mb-2">
+            {createdKey.signingSecret
+              ? "Copy this key and its signing secret now. They will not be shown again."
+              : "Copy this key now. It will not be shown again."}
+          </p>
+          {[
+            { label: "Key", value: createdKey.key },
+            ...(createdKey.signingSecret ? [{ label: "Signing secret", value: createdKey.signingSecret }] : []),
+          ].map(({ label, value }) => (
+            <div key={label} className="flex items-center gap-2 mt-1">
+              <span className="w-28 text-xs text-gray-500">{label}</span>
+              <code className="flex-1 font-mono text-sm text-gray-900 dark:text-white break-all">{value}</code>
+              <button
+                onClick={() => handleCopy(value)}
+                className="px-3 py-1 bg-gray-600 hover:bg-gray-500 text-white rounded text-sm"
+                title={`Copy ${label.toLowerCase()}`}
+              >
+                <FontAwesomeIcon icon={faCopy} />
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {loading ? (
+        <div className="flex justify-center py-4">
+          <FontAwesomeIcon icon={faSpinner} className="animate-spin text-gray-400" />
+        </div>
+      ) : sdkKeys.length === 0 ? (
+        <div className="text-center py-6 text-gray-500">
+          <FontAwesomeIcon icon={faKey} className="text-2xl mb-2" />
+          <p>No SDK keys yet.</p>
+        </div>
+      ) : (
+        <div className="space-y-2">
+          {sdkKeys.map((sdkKey) => (
+            <div
+              key={sdkKey.id}
+              className={`flex items-center gap-3 p-3 rounded border border-gray-200 dark:border-gray-700 ${
+                sdkKey.revokedAt ? "opacity-50" : ""
+              }`}
+            >
+              <span className={`px-2 py-0.5 rounded text-xs ${envColors[sdkKey.environment]}`}>
+                {sdkKey.environment}
+              </span>
+              <span className="px-2 py-0.5 rounded text-xs bg-gray-100 text-gray-700 dark:bg-gray-700 dark:text-gray-300">
+                {sdkKey.scope === "SERVER" ? "Server" : "Client"}
+              </span>
+              <div className="flex-1">
+                <p className="text-gray-900 dark:text-white">{sdkKey.name}</p>
+                <p className="text-xs font-mono text-gray-500">{sdkKey.keyPrefix}…</p>
+              </div>
+              <span className="text-xs text-gray-500">
+                {sdkKey.revokedAt
+                  ? `Revoked ${new Date(sdkKey.revokedAt).toLocaleDateString()}`
+                  : sdkKey.lastUsedAt
+                  ? `Last used ${new Date(sdkKey.lastUsedAt).toLocaleString()}`
+                  : "Never used"}
+              </span>
+              {!sdkKey.revokedAt && (
+                <button
+                  onClick={() => handleRevoke(sdkKey.id)}
+                  className="px-3 py-1 bg-red-600 hover:bg-red-700 text-white rounded text-sm"
+                  title="Revoke key"
+                >
+                  <FontAwesomeIcon icon={faBan} />
+                </button>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,99 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import { FontAwesomeIcon } from "@fortawesome/react-fontawesome";
+import { faStopwatch } from "@fortawesome/free-solid-svg-icons";
+
+export interface SlaClock {
+  stage: "ACKNOWLEDGE" | "MITIGATE" | "RESOLVE";
+  targetMinutes: number;
+  dueAt: string;
+  reachedAt: string | null;
+  status: "ON_TRACK" | "AT_RISK" | "BREACHED" | "MET";
+}
+
+const stageLabels = {
+  ACKNOWLEDGE: "Ack",
+  MITIGATE: "Mitigate",
+  RESOLVE: "Resolve",
+};
+
+const badgeColors = {
+  ON_TRACK: "bg-gray-100 text-gray-700 dark:bg-gray-700 dark:text-gray-300",
+  AT_RISK: "bg-orange-100 text-orange-800 dark:bg-orange-500/20 dark:text-orange-400",
+  BREACHED: "bg-red-100 text-red-800 dark:bg-red-500/20 dark:text-red-400",
+  MET: "bg-green-100 text-green-800 dark:bg-green-500/20 dark:text-green-400",
+};
+
+// Matches AT_RISK_FRACTION in lib/incident-sla.ts
+const AT_RISK_FRACTION = 0.8;
+
+function formatDuration(ms: number): string {
+  const minutes = Math.floor(ms / 60_000);
+  if (minutes < 1) return "<1m";
+  if (minutes < 60) return `${minutes}m`;
+  const hours = Math.floor(minutes / 60);
+  if (hours < 24) return `${hours}h ${minutes % 60}m`;
+  return `${Math.floor(hours / 24)}d ${hours % 24}h`;
+}
+
+/**
+ * Recompute a pending clock's status against the current time so countdowns stay live
+ */
+function liveStatus(clock: SlaClock, now: number): SlaClock["status"] {
+  if (clock.reachedAt) return clock.status;
+  const remaining = new Date(clock.dueAt).getTime() - now;
+  if (remaining <= 0) return "BREACHED";
+  if (remaining <= clock.targetMinutes * 60_000 * (1 - AT_RISK_FRACTION)) return "AT_RISK";
+  return "ON_TRACK";
+}
+
+function describe(clock: SlaClock, now: number): string {
+  const label = stageLabels[clock.stage];
+  if (clock.reachedAt) {
+    return clock.status === "MET" ? `${label} met` : `${label} breached`;
+  }
+  const remaining = new Date(clock.dueAt).getTime() - now;
+  return remaining > 0
+    ? `${label} due in ${formatDuration(remaining)}`
+    : `${label} breached ${formatDuration(-remaining)} ago`;
+}
+
+/**
+ * SLA countdowns and breach badges; shows only the most urgent clock unless `all` is set
+ */
+export default function SlaBadges({ clocks, all = false }: { clocks?: SlaClock[]; all?: boolean }) {
+  const [now, setNow] = useState(() => Date.now());
+
+  useEffect(() => {
+    const intervalId = setInterval(() => setNow(Date.now()), 30_000);
+    return () => clearInterval(intervalId);
+  }, []);
+
+  if (!clocks || clocks.length === 0) return null;
+
+  // Most urgent: the next pending deadline, otherwise a stage that was missed
+  const pending = clocks
+    .filter((clock) => !clock.reachedAt)
+    .sort((a, b) => new Date(a.dueAt).getTime() - new Date(b.dueAt).getTime());
+  const urgent = pending[0] ?? clocks.find((clock) => clock.status === "BREACHED");
+  const shown = all ? clocks : urgent ? [urgent] : [];
+
+  return (
+    <div className="flex flex-wrap gap-2">
+      {shown.map((clock) => {
+        const status = liveStatus(clock, now);
+        return (
+          <span
+            key={clock.stage}
+            title={`Target: ${clock.targetMinutes} min, due ${new Date(clock.dueAt).toLocaleString()}`}
+            className={`px-3 py-1 rounded-full text-sm font-medium flex items-center gap-1 ${badgeColors[status]}`}
+          >
+            <FontAwesomeIcon icon={faStopwatch} />
+            {describe(clock, now)}
+          </span>
+        );
+      })}
+    </div>
+  );
+}
@@ -2,24 +2,10 @@
 
 import { useState, useEffect } from "react";
 import { FontAwesomeIcon } from "@fortawesome/react-fontawesome";
-import {
-  faExclamationTriangle,
-  faCheckCircle,
-  faShieldAlt,
-  faClock,
-  faChartLine,
-  faFlag,
-  faUsers,
-} from "@fortawesome/free-solid-svg-icons";
+import { faFlag, faUsers } from "@fortawesome/free-solid-svg-icons";
+import IncidentMetrics from "@/app/components/IncidentMetrics";
 
 interface Stats {
-  incidents: {
-    total: number;
-    open: number;
-    mitigated: number;
-    resolved: number;
-    bySeverity: { SEV1: number; SEV2: number; SEV3: number; SEV4: number };
-  };
   featureFlags: {
     total: number;
     enabled: number;
@@ -40,58 +26,26 @@ export default function DashboardPage() {
   useEffect(() => {
     async function fetchStats() {
       try {
-        // Fetch incidents
-        const incidentsRes = await fetch("/api/incidents?limit=100");
-        console.log("Incidents Response:", incidentsRes.status, incidentsRes.statusText);
-        if (!incidentsRes.ok) {
-          console.error("Failed to fetch incidents:", await incidentsRes.text());
-        }
-        const incidentsData = await incidentsRes.json();
-        console.log("Incidents Data:", incidentsData);
-        const incidents = incidentsData.incidents || [];
-
-        // Fetch feature flags
-        const flagsRes = await fetch("/api/feature-flags");
-        console.log("Flags Response:", flagsRes.status, flagsRes.statusText);
+        const [flagsRes, auditRes] = await Promise.all([
+          fetch("/api/feature-flags"),
+          fetch("/api/audit-logs?limit=5"),
+        ]);
         if (!flagsRes.ok) {
           console.error("Failed to fetch flags:", await flagsRes.text());
         }
-        const flagsData = await flagsRes.json();
-        console.log("Flags Data:", flagsData);
-        const flags = flagsData.flags || [];
-
-        // Fetch recent audit logs
-        const auditRes = await fetch("/api/audit-logs?limit=5");
-        console.log("Audit Logs Response:", auditRes.status, auditRes.statusText);
         if (!auditRes.ok) {
           console.error("Failed to fetch audit logs:", await auditRes.text());
         }
+        const flagsData = await flagsRes.json();
         const auditData = await auditRes.json();
-        console.log("Audit Data:", auditData);
-
-        // Calculate stats
-        const incidentStats = {
-          total: incidents.length,
-          open: incidents.filter((i: { status: string }) => i.status === "OPEN").length,
-          mitigated: incidents.filter((i: { status: string }) => i.status === "MITIGATED").length,
-          resolved: incidents.filter((i: { status: string }) => i.status === "RESOLVED").length,
-          bySeverity: {
-            SEV1: incidents.filter((i: { severity: string }) => i.severity === "SEV1").length,
-            SEV2: incidents.filter((i: { severity: string }) => i.severity === "SEV2").length,
-            SEV3: incidents.filter((i: { severity: string }) => i.severity === "SEV3").length,
-            SEV4: incidents.filter((i: { severity: string }) => i.severity === "SEV4").length,
-          },
-        };
-
-        const flagStats = {
-          total: flags.length,
-          enabled: flags.filter((f: { enabled: boolean }) => f.enabled).length,
-          disabled: flags.filter((f: { enabled: boolean }) => !f.enabled).length,
-        };
+        const flags = flagsData.flags || [];
 
         setStats({
-          incidents: incidentStats,
-          featureFlags: flagStats,
+          featureFlags: {
+            total: flags.length,
+            enabled: flags.filter((f: { enabled: boolean }) => f.enabled).length,
+            disabled: flags.filter((f: { enabled: boolean }) => !f.enabled).length,
+          },
           recentActivity: auditData.logs || [],
         });
       } catch (error) {
@@ -123,109 +77,11 @@ export default function DashboardPage() {
     <div className="space-y-6">
       <h1 className="text-2xl font-bold text-gray-900 dark:text-white">Dashboard</h1>
 
-      {/* Top Stats */}
-      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4">
-        <div className="bg-white dark:bg-gray-800 rounded-lg p-4 border border-blue-200 dark:border-blue-700/50">
-          <div className="flex items-center justify-between">
-            <div>
-              <p className="text-gray-500 dark:text-gray-400 text-sm">Total Incidents</p>
-              <p className="text-3xl font-bold text-blue-600 dark:text-blue-400">
-                {stats?.incidents.total || 0}
-              </p>
-            </div>
-            <FontAwesomeIcon
-              icon={faExclamationTriangle}
-              className="text-blue-500 text-2xl"
-            />
-          </div>
-        </div>
-
-        <div className="bg-white dark:bg-gray-800 rounded-lg p-4 border border-red-200 dark:border-red-700/50">
-          <div className="flex items-center justify-between">
-            <div>
-              <p className="text-gray-500 dark:text-gray-400 text-sm">Open Incidents</p>
-              <p className="text-3xl font-bold text-red-600 dark:text-red-400">
-                {stats?.incidents.open || 0}
-              </p>
-            </div>
-            <FontAwesomeIcon icon={faClock} className="text-red-500 text-2xl" />
-          </div>
-        </div>
-
-        <div className="bg-white dark:bg-gray-800 rounded-lg p-4 border border-yellow-200 dark:border-yellow-700/50">
-          <div className="flex items-center justify-between">
-            <div>
-              <p className="text-gray-500 dark:text-gray-400 text-sm">Mitigated</p>
-              <p className="text-3xl font-bold text-yellow-600 dark:text-yellow-400">
-                {stats?.incidents.mitigated || 0}
-              </p>
-            </div>
-            <FontAwesomeIcon
-              icon={faShieldAlt}
-              className="text-yellow-500 text-2xl"
-            />
-          </div>
-        </div>
+      {/* Incident metrics are aggregated server-side over the whole range */}
+      <IncidentMetrics />
 
-        <div className="bg-white dark:bg-gray-800 rounded-lg p-4 border border-green-200 dark:border-green-700/50">
-          <div className="flex items-center justify-between">
-            <div>
-              <p className="text-gray-500 dark:text-gray-400 text-sm">Resolved</p>
-              <p className="text-3xl font-bold text-green-600 dark:text-green-400">
-                {stats?.incidents.resolved || 0}
-              </p>
-            </div>
-            <FontAwesomeIcon
-              icon={faCheckCircle}
-              className="text-green-500 text-2xl"
-            />
-          </div>
-        </div>
-      </div>
-
-      {/* Severity Breakdown & Feature Flags */}
+      {/* Feature Flags & Recent Activity */}
       <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
-        {/* Severity Breakdown */}
-        <div className="bg-white dark:bg-gray-800 rounded-lg p-4 border border-gray-200 dark:border-gray-700">
-          <h2 className="text-lg font-semibold text-gray-900 dark:text-white mb-4 flex items-center gap-2">
-            <FontAwesomeIcon icon={faChartLine} className="text-blue-400" />
-            Incidents by Severity
-          </h2>
-          <div className="space-y-3">
-            {["SEV1", "SEV2", "SEV3", "SEV4"].map((sev) => {
-              const count =
-                stats?.incidents.bySeverity[
-                  sev as keyof typeof stats.incidents.bySeverity
-                ] || 0;
-              const total = stats?.incidents.total || 1;
-              const percentage = Math.round((count / total) * 100);
-              const colors: Record<string, string> = {
-                SEV1: "bg-red-500",
-                SEV2: "bg-orange-500",
-                SEV3: "bg-yellow-500",
-                SEV4: "bg-blue-500",
-              };
-
-              return (
-                <div key={sev}>
-                  <div className="flex justify-between text-sm mb-1">
-                    <span className="text-gray-700 dark:text-gray-300">{sev}</span>
-                    <span className="text-gray-500 dark:text-gray-400">
-                      {count} ({percentage}%)
-                    </span>
-                  </div>
-                  <div className="h-2 bg-gray-100 dark:bg-gray-700 rounded-full overflow-hidden">
-                    <div
-                      className={`h-full ${colors[sev]} transition-all`}
-                      style={{ width: `${percentage}%` }}
-                    />
-                  </div>
-                </div>
-              );
-            })}
-          </div>
-        </div>
-
         {/* Feature Flags */}
         <div className="bg-white dark:bg-gray-800 rounded-lg p-4 border border-gray-200 dark:border-gray-700">
           <h2 className="text-lg font-semibold text-gray-900 dark:text-white mb-4 flex items-center gap-2">
@@ -253,38 +109,38 @@ export default function DashboardPage() {
             </div>
           </div>
         </div>
-      </div>
 
-      {/* Recent Activity */}
-      <div className="bg-white dark:bg-gray-800 rounded-lg p-4 border border-gray-200 dark:border-gray-700">
-        <h2 className="text-lg font-semibold text-gray-900 dark:text-white mb-4 flex items-center gap-2">
-          <FontAwesomeIcon icon={faUsers} className="text-cyan-400" />
-          Recent Activity
-        </h2>
-        {stats?.recentActivity && stats.recentActivity.length > 0 ? (
-          <div className="space-y-3">
-            {stats.recentActivity.map((activity) => (
-              <div
-                key={activity.id}
-                className="flex items-center justify-between py-2 border-b border-gray-200 dark:border-gray-700 last:border-0"
-              >
-                <div>
-                  <p className="text-gray-700 dark:text-gray-300">
-                    <span className="font-medium text-gray-900 dark:text-white">
-                      {activity.type}
-                    </span>{" "}
-                    on {activity.message}
-                  </p>
+        {/* Recent Activity */}
+        <div className="bg-white dark:bg-gray-800 rounded-lg p-4 border border-gray-200 dark:border-gray-700">
+          <h2 className="text-lg font-semibold text-gray-900 dark:text-white mb-4 flex items-center gap-2">
+            <FontAwesomeIcon icon={faUsers} className="text-cyan-400" />
+            Recent Activity
+          </h2>
+          {stats?.recentActivity && stats.recentActivity.length > 0 ? (
+            <div className="space-y-3">
+              {stats.recentActivity.map((activity) => (
+                <div
+                  key={activity.id}
+                  className="flex items-center justify-between py-2 border-b border-gray-200 dark:border-gray-700 last:border-0"
+                >
+                  <div>
+                    <p className="text-gray-700 dark:text-gray-300">
+                      <span className="font-medium text-gray-900 dark:text-white">
+                        {activity.type}
+                      </span>{" "}
+                      on {activity.message}
+                    </p>
+                  </div>
+                  <span className="text-gray-500 dark:text-gray-400 text-sm">
+                    {new Date(activity.createdAt).toLocaleString()}
+                  </span>
                 </div>
-                <span className="text-gray-500 dark:text-gray-400 text-sm">
-                  {new Date(activity.createdAt).toLocaleString()}
-                </span>
-              </div>
-            ))}
-          </div>
-        ) : (
-          <p className="text-gray-500 dark:text-gray-400">No recent activity</p>
-        )}
+              ))}
+            </div>
+          ) : (
+            <p className="text-gray-500 dark:text-gray-400">No recent activity</p>
+          )}
+        </div>
       </div>
     </div>
   );
@@ -4,6 +4,11 @@ import { useParams } from "next/navigation";
 import { useEffect, useState } from "react";
 import Link from "next/link";
 import { useToast } from "@/app/components/ToastProvider";
+import FlagHistory from "@/app/components/FlagHistory";
+import FlagChangeRequests from "@/app/components/FlagChangeRequests";
+import FlagInsights from "@/app/components/FlagInsights";
+import FlagCodeReferences from "@/app/components/FlagCodeReferences";
+import LayerAllocationBar, { type LayerSliceSummary } from "@/app/components/LayerAllocationBar";
 
 interface FeatureFlag {
   id: string;
@@ -11,23 +16,222 @@ interface FeatureFlag {
   key: string;
   description: string | null;
   enabled: boolean;
+  environment: "DEV" | "STAGING" | "PROD";
   rolloutPercentage: number;
   createdAt: string;
   updatedAt: string;
   rules: Rule[];
+  segments?: SegmentSummary[];
+  dependents?: FlagSummary[];
+  variants: Variant[];
+  defaultServe: Serve | null;
+  offVariant: string | null;
+  lifetime: "TEMPORARY" | "PERMANENT";
+  ownerId: string | null;
+  layerId: string | null;
+  layerStart: number | null;
+  layerPercentage: number | null;
+}
+
+interface Member {
+  id: string;
+  name: string;
+}
+
+interface LayerSummary {
+  id: string;
+  name: string;
+  allocations: { environment: string; allocated: number; slices: LayerSliceSummary[] }[];
+}
+
+type VariantValue = string | number | boolean | unknown[] | Record<string, unknown>;
+
+interface Variant {
+  key: string;
+  value: VariantValue;
+  description?: string;
+}
+
+interface VariantDraft {
+  key: string;
+  kind: "string" | "number" | "json";
+  value: string;
+}
+
+type Serve = { variant: string } | { split: { variant: string; weight: number }[] };
+
+interface SegmentSummary {
+  id: string;
+  name: string;
+}
+
+interface FlagSummary {
+  id: string;
+  key: string;
+  name: string;
+  variants?: Variant[];
 }
 
 interface Rule {
   id: string;
-  type: "ALLOWLIST" | "PERCENT_ROLLOUT" | "AND" | "OR";
+  type: "ALLOWLIST" | "PERCENT_ROLLOUT" | "ATTRIBUTE" | "SEGMENT" | "PREREQUISITE" | "AND" | "OR";
   condition: Record<string, unknown>;
+  serve: Serve | null;
   order: number;
 }
 
+type NewRuleType = "ALLOWLIST" | "PERCENT_ROLLOUT" | "ATTRIBUTE" | "SEGMENT" | "PREREQUISITE";
+
+const ATTRIBUTE_OPERATOR_LABELS: Record<string, string> = {
+  EQUALS: "equals",
+  IN: "is one of",
+  NOT_IN: "is not one of",
+  CONTAINS: "contains",
+  STARTS_WITH: "starts with",
+  REGEX: "matches regex",
+  GT: ">",
+  GTE: ">=",
+  LT: "<",
+  LTE: "<=",
+  SEMVER_EQ: "semver =",
+  SEMVER_GT: "semver >",
+  SEMVER_GTE: "semver >=",
+  SEMVER_LT: "semver <",
+  SEMVER_LTE: "semver <=",
+  BEFORE: "is before",
+  AFTER: "is after",
+};
+
+interface ScheduledChange {
+  id: string;
+  scheduledFor: string;
+  status: "PENDING" | "APPLYING" | "APPLIED" | "FAILED" | "CANCELLED";
+  patch: {
+    enabled?: boolean;
+    rolloutPercentage?: number;
+    rules?: { id: string }[];
+    [field: string]: unknown;
+  };
+  error: string | null;
+  createdBy?: { id: string; name: string };
+}
+
+interface RolloutPlan {
+  id: string;
+  steps: number[];
+  intervalMinutes: number;
+  currentStep: number;
+  status: "ACTIVE" | "PAUSED" | "COMPLETED" | "ABORTED" | "ROLLED_BACK";
+  nextStepAt: string | null;
+  error: string | null;
+  guardService: string | null;
+  guardSeverity: string | null;
+}
+
+const formatSchedulePatch = (patch: ScheduledChange["patch"]) => {
+  const parts: string[] = [];
+  if (patch.enabled !== undefined) parts.push(patch.enabled ? "Enable flag" : "Disable flag");
+  if (patch.rolloutPercentage !== undefined) parts.push(`Set default rollout to ${patch.rolloutPercentage}%`);
+  if (patch.rules?.length) parts.push(`Edit ${patch.rules.length} rule(s)`);
+  const other = Object.keys(patch).filter((field) => !["enabled", "rolloutPercentage", "rules"].includes(field));
+  if (other.length > 0) parts.push(`Update ${other.join(", ")}`);
+  return parts.join(", ");
+};
+
 interface EvaluationResult {
   enabled: boolean;
   reason: string;
   trace: string[];
+  variant?: string;
+  value?: VariantValue;
+}
+
+const toVariantDraft = (variant: Variant): VariantDraft => ({
+  key: variant.key,
+  kind: typeof variant.value === "string" ? "string" : typeof variant.value === "number" ? "number" : "json",
+  value: typeof variant.value === "string" ? variant.value : JSON.stringify(variant.value),
+});
+
+const formatServe = (serve: Serve | null) => {
+  if (!serve) return null;
+  if ("variant" in serve) return `serves ${serve.variant}`;
+  return `serves ${serve.split.map((s) => `${s.variant} ${s.weight}%`).join(" / ")}`;
+};
+
+/**
+ * Pick a single variant or a weighted split across variants
+ */
+function ServeEditor({
+  variants,
+  value,
+  onChange,
+  emptyLabel,
+}: {
+  variants: string[];
+  value: Serve | null;
+  onChange: (serve: Serve | null) => void;
+  emptyLabel: string;
+}) {
+  const mode = !value ? "" : "variant" in value ? value.variant : "__split__";
+
+  const handleModeChange = (next: string) => {
+    if (next === "") {
+      onChange(null);
+    } else if (next === "__split__") {
+      const even = Math.floor(100 / variants.length);
+      onChange({
+        split: variants.map((variant, i) => ({
+          variant,
+          weight: i === 0 ? 100 - even * (variants.length - 1) : even,
+        })),
+      });
+    } else {
+      onChange({ variant: next });
+    }
+  };
+
+  return (
+    <div>
+      <select
+        value={mode}
+        onChange={(e) => handleModeChange(e.target.value)}
+        className="w-full px-3 py-2 bg-white dark:bg-gray-700 border border-gray-300 dark:border-gray-600 rounded text-gray-900 dark:text-white text-sm"
+      >
+        <option value="">{emptyLabel}</option>
+        {variants.map((variant) => (
+          <option key={variant} value={variant}>{variant}</option>
+        ))}
+        <option value="__split__">Weighted split</option>
+      </select>
+      {value && "split" in value && (
+        <div className="mt-2 space-y-1">
+          {value.split.map((entry, i) => (
+            <div key={entry.variant} className="flex items-center gap-2 text-sm">
+              <span className="flex-1 font-mono text-gray-700 dark:text-gray-300">{entry.variant}</span>
+              <input
+                type="number"
+                min="0"
+                max="100"
+                value={entry.weight}
+                onChange={(e) =>
+                  onChange({
+                    split: value.split.map((s, j) =>
+                      j === i ? { ...s, weight: parseInt(e.target.value) || 0 } : s
+                    ),
+                  })
+                }
+                className="w-20 px-2 py-1 bg-white dark:bg-gray-700 border border-gray-300 dark:border-gray-600 rounded text-gray-900 dark:text-white"
+              />
+              <span className="text-gray-500">%</span>
+            </div>
+          ))}
+          <p className="text-xs text-gray-500 dark:text-gray-400">
+            Total: {value.split.reduce((sum, s) => sum + s.weight, 0)}% (must be 100%)
+          </p>
+        </div>
+      )}
+    </div>
+  );
 }
 
 export default function FeatureFlagDetailPage() {
@@ -38,7 +242,9 @@ export default function FeatureFlagDetailPage() {
 
   const [flag, setFlag] = useState<FeatureFlag | null>(null);
   const [loading, setLoading] = useState(true);
+  const [activeTab, setActiveTab] = useState<"settings" | "insights" | "history">("settings");
   const [saving, setSaving] = useState(false);
+  const [changeRequestsKey, setChangeRequestsKey] = useState(0);
 
   // Form state
   const [name, setName] = useState("");
@@ -46,27 +252,99 @@ export default function FeatureFlagDetailPage() {
   const [description, setDescription] = useState("");
   const [enabled, setEnabled] = useState(false);
   const [rolloutPercentage, setRolloutPercentage] = useState(0);
+  const [lifetime, setLifetime] = useState<"TEMPORARY" | "PERMANENT">("TEMPORARY");
+  const [ownerId, setOwnerId] = useState("");
+  const [members, setMembers] = useState<Member[]>([]);
+  const [layers, setLayers] = useState<LayerSummary[]>([]);
+  const [layerId, setLayerId] = useState("");
+  const [layerStart, setLayerStart] = useState(0);
+  const [layerPercentage, setLayerPercentage] = useState(10);
   const [rules, setRules] = useState<Rule[]>([]);
 
+  // Variant state
+  const [variantDrafts, setVariantDrafts] = useState<VariantDraft[]>([]);
+  const [defaultServe, setDefaultServe] = useState<Serve | null>(null);
+  const [offVariant, setOffVariant] = useState("");
+  const [savingVariants, setSavingVariants] = useState(false);
+
   // New rule form state
   const [showAddRule, setShowAddRule] = useState(false);
-  const [newRuleType, setNewRuleType] = useState<"ALLOWLIST" | "PERCENT_ROLLOUT">("ALLOWLIST");
+  const [newRuleType, setNewRuleType] = useState<NewRuleType>("ALLOWLIST");
   const [newRuleUsers, setNewRuleUsers] = useState("");
   const [newRulePercent, setNewRulePercent] = useState(50);
+  const [newRuleAttribute, setNewRuleAttribute] = useState("");
+  const [newRuleOperator, setNewRuleOperator] = useState("EQUALS");
+  const [newRuleValues, setNewRuleValues] = useState("");
+  const [newRuleSegmentId, setNewRuleSegmentId] = useState("");
+  const [newRuleServe, setNewRuleServe] = useState<Serve | null>(null);
+  const [availableSegments, setAvailableSegments] = useState<SegmentSummary[]>([]);
+  const [newRulePrereqKey, setNewRulePrereqKey] = useState("");
+  const [newRulePrereqEnabled, setNewRulePrereqEnabled] = useState(true);
+  const [newRulePrereqVariant, setNewRulePrereqVariant] = useState("");
+  const [environmentFlags, setEnvironmentFlags] = useState<FlagSummary[]>([]);
+
+  // Scheduled changes state
+  const [schedules, setSchedules] = useState<ScheduledChange[]>([]);
+  const [showAddSchedule, setShowAddSchedule] = useState(false);
+  const [scheduleAt, setScheduleAt] = useState("");
+  const [scheduleEnabled, setScheduleEnabled] = useState("");
+  const [scheduleRollout, setScheduleRollout] = useState("");
+
+  // Rollout plan state
+  const [rolloutPlan, setRolloutPlan] = useState<RolloutPlan | null>(null);
+  const [showAddPlan, setShowAddPlan] = useState(false);
+  const [planSteps, setPlanSteps] = useState("1, 5, 25, 50, 100");
+  const [planInterval, setPlanInterval] = useState(60);
+  const [planGuardService, setPlanGuardService] = useState("");
+  const [planGuardSeverity, setPlanGuardSeverity] = useState("SEV2");
 
   // Evaluation tool state
   const [showEvaluationTool, setShowEvaluationTool] = useState(false);
   const [evalUserId, setEvalUserId] = useState("");
   const [evalEnvironment, setEvalEnvironment] = useState<"DEV" | "STAGING" | "PROD">("PROD");
   const [evalService, setEvalService] = useState("");
+  const [evalAttributes, setEvalAttributes] = useState("");
   const [evaluating, setEvaluating] = useState(false);
   const [evalResult, setEvalResult] = useState<EvaluationResult | null>(null);
 
   useEffect(() => {
     fetchFlag();
+    fetchSchedules();
+    fetchRolloutPlan();
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [flagId]);
 
+  useEffect(() => {
+    fetch(`/api/tenants/${tenantSlug}/members`)
+      .then((response) => (response.ok ? response.json() : { members: [] }))
+      .then((data) => setMembers(data.members || []))
+      .catch(() => setMembers([]));
+  }, [tenantSlug]);
+
+  useEffect(() => {
+    fetch("/api/experiment-layers")
+      .then((response) => (response.ok ? response.json() : { layers: [] }))
+      .then((data) => setLayers(data.layers || []))
+      .catch(() => setLayers([]));
+  }, []);
+
+  useEffect(() => {
+    fetch("/api/segments")
+      .then((response) => (response.ok ? response.json() : { segments: [] }))
+      .then((data) => setAvailableSegments(data.segments || []))
+      .catch(() => setAvailableSegments([]));
+  }, []);
+
+  // Other flags in this environment can be prerequisites
+  const flagEnvironment = flag?.environment;
+  useEffect(() => {
+    if (!flagEnvironment) return;
+    fetch(`/api/feature-flags?environment=${flagEnvironment}`)
+      .then((response) => (response.ok ? response.json() : { flags: [] }))
+      .then((data) => setEnvironmentFlags((data.flags || []).filter((f: FlagSummary) => f.id !== flagId)))
+      .catch(() => setEnvironmentFlags([]));
+  }, [flagEnvironment, flagId]);
+
   const fetchFlag = async () => {
     try {
       setLoading(true);
@@ -79,7 +357,15 @@ export default function FeatureFlagDetailPage() {
       setDescription(data.description || "");
       setEnabled(data.enabled);
       setRolloutPercentage(data.rolloutPercentage ?? 0);
+      setLifetime(data.lifetime ?? "TEMPORARY");
+      setOwnerId(data.ownerId ?? "");
+      setLayerId(data.layerId ?? "");
+      setLayerStart(data.layerStart ?? 0);
+      setLayerPercentage(data.layerPercentage ?? 10);
       setRules(data.rules || []);
+      setVariantDrafts((data.variants || []).map(toVariantDraft));
+      setDefaultServe(data.defaultServe ?? null);
+      setOffVariant(data.offVariant ?? "");
     } catch (err) {
       toast.error(err instanceof Error ? err.message : "Failed to load flag");
     } finally {
@@ -87,6 +373,145 @@ export default function FeatureFlagDetailPage() {
     }
   };
 
+  const fetchSchedules = async () => {
+    try {
+      const response = await fetch(`/api/feature-flags/${flagId}/schedules`);
+      if (!response.ok) throw new Error("Failed to fetch scheduled changes");
+      const data = await response.json();
+      setSchedules(data.schedules || []);
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : "Failed to load scheduled changes");
+    }
+  };
+
+  const fetchRolloutPlan = async () => {
+    try {
+      const response = await fetch(`/api/feature-flags/${flagId}/rollout-plan`);
+      if (!response.ok) throw new Error("Failed to fetch rollout plan");
+      const data = await response.json();
+      setRolloutPlan(data.plan);
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : "Failed to load rollout plan");
+    }
+  };
+
+  const handleCreatePlan = async () => {
+    const steps = planSteps.split(",").map((s) => s.trim()).filter(Boolean).map(Number);
+    if (steps.length === 0 || steps.some((step) => Number.isNaN(step))) {
+      alert("Please enter rollout percentages separated by commas");
+      return;
+    }
+
+    try {
+      const response = await fetch(`/api/feature-flags/${flagId}/rollout-plan`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          steps,
+          intervalMinutes: planInterval,
+          guard: planGuardService.trim()
+            ? { service: planGuardService.trim(), severity: planGuardSeverity }
+            : undefined,
+        }),
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.error || "Failed to start rollout plan");
+      }
+      setRolloutPlan(await response.json());
+      setShowAddPlan(false);
+      toast.success("Rollout plan started");
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : "Failed to start rollout plan");
+    }
+  };
+
+  const handlePlanAction = async (action: "pause" | "resume" | "abort") => {
+    if (action === "abort" && !confirm("Abort this rollout plan? The flag keeps its current rollout percentage.")) return;
+
+    try {
+      const response = await fetch(`/api/feature-flags/${flagId}/rollout-plan`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ action }),
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.error || "Failed to update rollout plan");
+      }
+      setRolloutPlan(await response.json());
+      toast.success(`Rollout plan ${action === "pause" ? "paused" : action === "resume" ? "resumed" : "aborted"}`);
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : "Failed to update rollout plan");
+    }
+  };
+
+  const handleAddSchedule = async () => {
+    if (!scheduleAt) {
+      alert("Please pick a time");
+      return;
+    }
+
+    const patch: Record<string, unknown> = {};
+    if (scheduleEnabled) patch.enabled = scheduleEnabled === "on";
+    if (scheduleRollout !== "") patch.rolloutPercentage = parseInt(scheduleRollout);
+    if (Object.keys(patch).length === 0) {
+      alert("Please choose at least one change");
+      return;
+    }
+
+    try {
+      const response = await fetch(`/api/feature-flags/${flagId}/schedules`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ scheduledFor: new Date(scheduleAt).toISOString(), patch }),
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.error || "Failed to schedule change");
+      }
+      await fetchSchedules();
+      setScheduleAt("");
+      setScheduleEnabled("");
+      setScheduleRollout("");
+      setShowAddSchedule(false);
+      toast.success("Change scheduled successfully");
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : "Failed to schedule change");
+    }
+  };
+
+  const handleCancelSchedule = async (scheduleId: string) => {
+    if (!confirm("Are you sure you want to cancel this scheduled change?")) return;
+
+    try {
+      const response = await fetch(`/api/feature-flags/${flagId}/schedules/${scheduleId}`, {
+        method: "DELETE",
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.error || "Failed to cancel scheduled change");
+      }
+      const cancelled = await response.json();
+      setSchedules(schedules.map((s) => (s.id === scheduleId ? { ...s, status: cancelled.status } : s)));
+      toast.success("Scheduled change cancelled");
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : "Failed to cancel scheduled change");
+    }
+  };
+
+  // Environments that require approval answer 202 with a pending change request instead of applying it
+  const submittedForApproval = (response: Response) => {
+    if (response.status !== 202) return false;
+    setChangeRequestsKey((current) => current + 1);
+    toast.success("Change submitted for approval");
+    return true;
+  };
+
   const handleSave = async () => {
     try {
       setSaving(true);
@@ -99,6 +524,9 @@ export default function FeatureFlagDetailPage() {
           description,
           enabled,
           rolloutPercentage,
+          lifetime,
+          ownerId: ownerId || null,
+          layer: layerId ? { id: layerId, start: layerStart, percentage: layerPercentage } : null,
         }),
       });
 
@@ -106,8 +534,9 @@ export default function FeatureFlagDetailPage() {
         const errorData = await response.json();
         throw new Error(errorData.error || "Failed to update feature flag");
       }
+      if (submittedForApproval(response)) return;
       const updated = await response.json();
-      setFlag(updated);
+      setFlag({ ...updated, segments: flag?.segments, dependents: flag?.dependents });
       toast.success("Feature flag updated successfully");
     } catch (err) {
       toast.error(err instanceof Error ? err.message : "Failed to save");
@@ -116,6 +545,67 @@ export default function FeatureFlagDetailPage() {
     }
   };
 
+  const savedVariantKeys = (flag?.variants || []).map((v) => v.key);
+
+  // The selected layer in this environment, with this flag's slice as currently edited
+  const selectedLayer = layers.find((layer) => layer.id === layerId);
+  const layerSlices: LayerSliceSummary[] = selectedLayer
+    ? [
+        ...(selectedLayer.allocations.find((a) => a.environment === flag?.environment)?.slices || []).filter(
+          (slice) => slice.flagId !== flagId
+        ),
+        { flagId, key: key || "this flag", enabled, start: layerStart, percentage: layerPercentage },
+      ].sort((a, b) => a.start - b.start)
+    : [];
+
+  const handleSaveVariants = async () => {
+    let variants: Variant[];
+    try {
+      variants = variantDrafts.map((draft) => {
+        if (!draft.key.trim()) throw new Error("Every variant needs a key");
+        const value =
+          draft.kind === "string"
+            ? draft.value
+            : draft.kind === "number"
+            ? Number(draft.value)
+            : JSON.parse(draft.value);
+        if (draft.kind === "number" && Number.isNaN(value)) {
+          throw new Error(`Variant "${draft.key}" must be a number`);
+        }
+        return { key: draft.key.trim(), value };
+      });
+    } catch (err) {
+      toast.error(err instanceof SyntaxError ? "Variant JSON is invalid" : err instanceof Error ? err.message : "Invalid variants");
+      return;
+    }
+
+    try {
+      setSavingVariants(true);
+      const response = await fetch(`/api/feature-flags/${flagId}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          variants,
+          defaultServe: variants.length > 0 ? defaultServe : null,
+          offVariant: variants.length > 0 && offVariant ? offVariant : null,
+        }),
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.error || "Failed to save variants");
+      }
+      if (submittedForApproval(response)) return;
+      const updated = await response.json();
+      setFlag({ ...updated, segments: flag?.segments, dependents: flag?.dependents });
+      toast.success("Variants saved successfully");
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : "Failed to save variants");
+    } finally {
+      setSavingVariants(false);
+    }
+  };
+
   const handleAddRule = async () => {
     let condition: Record<string, unknown>;
     
@@ -126,6 +616,30 @@ export default function FeatureFlagDetailPage() {
         return;
       }
       condition = { type: "ALLOWLIST", userIds };
+    } else if (newRuleType === "ATTRIBUTE") {
+      const values = newRuleValues.split(",").map(v => v.trim()).filter(Boolean);
+      if (!newRuleAttribute.trim() || values.length === 0) {
+        alert("Please enter an attribute and at least one value");
+        return;
+      }
+      condition = { type: "ATTRIBUTE", attribute: newRuleAttribute.trim(), operator: newRuleOperator, values };
+    } else if (newRuleType === "SEGMENT") {
+      if (!newRuleSegmentId) {
+        alert("Please select a segment");
+        return;
+      }
+      condition = { type: "SEGMENT", segmentId: newRuleSegmentId };
+    } else if (newRuleType === "PREREQUISITE") {
+      if (!newRulePrereqKey) {
+        alert("Please select a prerequisite flag");
+        return;
+      }
+      condition = {
+        type: "PREREQUISITE",
+        flagKey: newRulePrereqKey,
+        enabled: newRulePrereqEnabled,
+        ...(newRulePrereqVariant && { variant: newRulePrereqVariant }),
+      };
     } else {
       condition = { type: "PERCENT_ROLLOUT", percentage: newRulePercent };
     }
@@ -134,16 +648,32 @@ export default function FeatureFlagDetailPage() {
       const response = await fetch(`/api/feature-flags/${flagId}/rules`, {
         method: "POST",
         headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ condition }),
+        body: JSON.stringify({ condition, serve: newRuleServe ?? undefined }),
       });
 
-      if (!response.ok) throw new Error("Failed to add rule");
-      const newRule = await response.json();
-      setRules([...rules, newRule]);
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.error || "Failed to add rule");
+      }
+      const heldForApproval = submittedForApproval(response);
+      if (!heldForApproval) {
+        const newRule = await response.json();
+        setRules([...rules, newRule]);
+        if (newRuleType === "SEGMENT") {
+          fetchFlag();
+        }
+      }
       setNewRuleUsers("");
       setNewRulePercent(50);
+      setNewRuleAttribute("");
+      setNewRuleValues("");
+      setNewRuleSegmentId("");
+      setNewRulePrereqKey("");
+      setNewRulePrereqEnabled(true);
+      setNewRulePrereqVariant("");
+      setNewRuleServe(null);
       setShowAddRule(false);
-      toast.success("Rule added successfully");
+      if (!heldForApproval) toast.success("Rule added successfully");
     } catch (err) {
       toast.error(err instanceof Error ? err.message : "Failed to add rule");
     }
@@ -158,6 +688,7 @@ export default function FeatureFlagDetailPage() {
       });
 
       if (!response.ok) throw new Error("Failed to delete rule");
+      if (submittedForApproval(response)) return;
       setRules(rules.filter((r) => r.id !== ruleId));
       toast.success("Rule deleted successfully");
     } catch (err) {
@@ -166,13 +697,33 @@ export default function FeatureFlagDetailPage() {
   };
 
   const formatRuleDisplay = (rule: Rule) => {
-    const cond = rule.condition as { type: string; userIds?: string[]; percentage?: number };
+    const cond = rule.condition as {
+      type: string;
+      userIds?: string[];
+      percentage?: number;
+      attribute?: string;
+      operator?: string;
+      values?: unknown[];
+      segmentId?: string;
+      flagKey?: string;
+      enabled?: boolean;
+      variant?: string;
+    };
     
     if (rule.type === "ALLOWLIST") {
       const userIds = cond.userIds || [];
       return `Allow users: ${userIds.join(", ")}`;
     } else if (rule.type === "PERCENT_ROLLOUT") {
       return `${cond.percentage || 0}% rollout`;
+    } else if (rule.type === "ATTRIBUTE") {
+      const operator = ATTRIBUTE_OPERATOR_LABELS[cond.operator || ""] || cond.operator;
+      return `${cond.attribute} ${operator} ${(cond.values || []).join(", ")}`;
+    } else if (rule.type === "SEGMENT") {
+      const segment = availableSegments.find((s) => s.id === cond.segmentId);
+      return `In segment: ${segment?.name || cond.segmentId}`;
+    } else if (rule.type === "PREREQUISITE") {
+      const required = cond.enabled ? "on" : "off";
+      return `Requires ${cond.flagKey} ${required}${cond.variant ? ` serving ${cond.variant}` : ""}`;
     }
     return JSON.stringify(rule.condition);
   };
@@ -183,6 +734,16 @@ export default function FeatureFlagDetailPage() {
       return;
     }
 
+    let attributes: Record<string, unknown> | undefined;
+    if (evalAttributes.trim()) {
+      try {
+        attributes = JSON.parse(evalAttributes);
+      } catch {
+        toast.error("Attributes must be valid JSON");
+        return;
+      }
+    }
+
     setEvaluating(true);
     setEvalResult(null);
     
@@ -194,10 +755,14 @@ export default function FeatureFlagDetailPage() {
           userId: evalUserId,
           environment: evalEnvironment,
           service: evalService || undefined,
+          attributes,
         }),
       });
 
-      if (!response.ok) throw new Error("Failed to evaluate flag");
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.error || "Failed to evaluate flag");
+      }
       const result = await response.json();
       setEvalResult(result);
     } catch (err) {
@@ -231,295 +796,967 @@ export default function FeatureFlagDetailPage() {
           <h1 className="text-3xl font-bold text-gray-900 dark:text-white">Edit Feature Flag</h1>
         </div>
 
-        {/* Main Settings */}
-        <div className="bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 rounded-lg shadow-lg p-8 mb-6">
-          <h2 className="text-xl font-semibold text-gray-900 dark:text-white mb-6">Basic Settings</h2>
+        {/* Tabs */}
+        <div className="flex gap-2 mb-6 border-b border-gray-200 dark:border-gray-700">
+          {(["settings", "insights", "history"] as const).map((tab) => (
+            <button
+              key={tab}
+              onClick={() => setActiveTab(tab)}
+              className={`px-4 py-2 -mb-px border-b-2 text-sm font-medium capitalize transition-colors ${
+                activeTab === tab
+                  ? "border-blue-600 text-blue-600 dark:border-blue-400 dark:text-blue-400"
+                  : "border-transparent text-gray-500 hover:text-gray-700 dark:text-gray-400 dark:hover:text-gray-300"
+              }`}
+            >
+              {tab}
+            </button>
+          ))}
+        </div>
 
-          <div className="space-y-4">
-            <div>
-              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
-                Name
-              </label>
-              <input
-                type="text"
-                value={name}
-                onChange={(e) => setName(e.target.value)}
-                className="w-full px-4 py-2 bg-gray-50 dark:bg-gray-700 border border-gray-300 dark:border-gray-600 rounded-lg text-gray-900 dark:text-white focus:outline-none focus:ring-2 focus:ring-blue-500"
-                placeholder="Feature name"
-              />
-            </div>
+        {activeTab === "insights" && (
+          <div className="bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 rounded-lg shadow-lg p-8 mb-6">
+            <h2 className="text-xl font-semibold text-gray-900 dark:text-white mb-6">Insights</h2>
+            <FlagInsights
+              flagId={flagId}
+              describeRule={(ruleIndex) => {
+                if (ruleIndex < 0) return "Default rule";
+                const rule = flag.rules[ruleIndex];
+                return rule ? `Rule ${ruleIndex + 1}: ${formatRuleDisplay(rule)}` : `Rule ${ruleIndex + 1}`;
+              }}
+            />
+          </div>
+        )}
 
-            <div>
-              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
-                Key
-              </label>
-              <input
-                type="text"
-                value={key}
-                onChange={(e) => setKey(e.target.value)}
-                className="w-full px-4 py-2 bg-gray-50 dark:bg-gray-700 border border-gray-300 dark:border-gray-600 rounded-lg text-gray-900 dark:text-white focus:outline-none focus:ring-2 focus:ring-blue-500 font-mono"
-                placeholder="feature_key"
-              />
-            </div>
+        {activeTab === "history" && (
+          <div className="bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 rounded-lg shadow-lg p-8 mb-6">
+            <h2 className="text-xl font-semibold text-gray-900 dark:text-white mb-6">History</h2>
+            <FlagHistory
+              flagId={flagId}
+              formatRule={(rule) =>
+                `${formatRuleDisplay(rule as Rule)}${rule.serve ? ` (${formatServe(rule.serve as Serve)})` : ""}`
+              }
+              onReverted={fetchFlag}
+              onSubmittedForApproval={() => setChangeRequestsKey((current) => current + 1)}
+            />
+          </div>
+        )}
 
-            <div>
-              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
-                Description
-              </label>
-              <textarea
-                value={description}
-                onChange={(e) => setDescription(e.target.value)}
-                className="w-full px-4 py-2 bg-gray-50 dark:bg-gray-700 border border-gray-300 dark:border-gray-600 rounded-lg text-gray-900 dark:text-white focus:outline-none focus:ring-2 focus:ring-blue-500"
-                rows={3}
-                placeholder="Describe this feature flag..."
-              />
-            </div>
+        {activeTab === "settings" && (
+          <>
+          <FlagChangeRequests
+            flagId={flagId}
+            refreshKey={changeRequestsKey}
+            formatRule={(rule) =>
+              `${formatRuleDisplay(rule as Rule)}${rule.serve ? ` (${formatServe(rule.serve as Serve)})` : ""}`
+            }
+            onApplied={fetchFlag}
+          />
+
+          <FlagCodeReferences flagId={flagId} />
 
-            <div className="flex items-center gap-4">
-              <label className="flex items-center gap-2 cursor-pointer">
+          {/* Main Settings */}
+          <div className="bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 rounded-lg shadow-lg p-8 mb-6">
+            <h2 className="text-xl font-semibold text-gray-900 dark:text-white mb-6">Basic Settings</h2>
+
+            <div className="space-y-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+                  Name
+                </label>
                 <input
-                  type="checkbox"
-                  checked={enabled}
-                  onChange={(e) => setEnabled(e.target.checked)}
-                  className="w-5 h-5 rounded bg-gray-50 dark:bg-gray-700 border-gray-300 dark:border-gray-600 text-blue-600 dark:text-blue-500 focus:ring-2 focus:ring-blue-500"
+                  type="text"
+                  value={name}
+                  onChange={(e) => setName(e.target.value)}
+                  className="w-full px-4 py-2 bg-gray-50 dark:bg-gray-700 border border-gray-300 dark:border-gray-600 rounded-lg text-gray-900 dark:text-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  placeholder="Feature name"
                 />
-                <span className="text-gray-700 dark:text-gray-300">Enabled</span>
-              </label>
-            </div>
-
-            <div>
-              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
-                Rollout Percentage: {rolloutPercentage}%
-              </label>
-              <input
-                type="range"
-                min="0"
-                max="100"
-                value={rolloutPercentage}
-                onChange={(e) => setRolloutPercentage(parseInt(e.target.value))}
-                className="w-full"
-              />
-              <div className="flex justify-between text-xs text-gray-500 dark:text-gray-400 mt-1">
-                <span>0%</span>
-                <span>50%</span>
-                <span>100%</span>
               </div>
-            </div>
-          </div>
 
-          <div className="mt-6 flex gap-3">
-            <button
-              onClick={handleSave}
-              disabled={saving}
-              className="px-6 py-2 bg-blue-600 hover:bg-blue-700 disabled:bg-gray-400 dark:disabled:bg-gray-600 text-white rounded-lg transition-colors"
-            >
-              {saving ? "Saving..." : "Save Changes"}
-            </button>
-            <button
-              onClick={fetchFlag}
-              className="px-6 py-2 bg-gray-100 dark:bg-gray-700 hover:bg-gray-200 dark:hover:bg-gray-600 text-gray-700 dark:text-white rounded-lg transition-colors"
-            >
-              Reset
-            </button>
-          </div>
-        </div>
-
-        {/* Targeting Rules */}
-        <div className="bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 rounded-lg shadow-lg p-8">
-          <div className="flex justify-between items-center mb-6">
-            <h2 className="text-xl font-semibold text-gray-900 dark:text-white">Targeting Rules</h2>
-            <button
-              onClick={() => setShowAddRule(!showAddRule)}
-              className="px-4 py-2 bg-blue-600 hover:bg-blue-700 text-white rounded-lg transition-colors"
-            >
-              {showAddRule ? "Cancel" : "+ Add Rule"}
-            </button>
-          </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+                  Key
+                </label>
+                <input
+                  type="text"
+                  value={key}
+                  onChange={(e) => setKey(e.target.value)}
+                  className="w-full px-4 py-2 bg-gray-50 dark:bg-gray-700 border border-gray-300 dark:border-gray-600 rounded-lg text-gray-900 dark:text-white focus:outline-none focus:ring-2 focus:ring-blue-500 font-mono"
+                  placeholder="feature_key"
+                />
+              </div>
 
-          {showAddRule && (
-            <div className="mb-6 p-4 bg-gray-50 dark:bg-gray-700/50 border border-gray-200 dark:border-gray-600 rounded-lg">
-              <h3 className="text-sm font-medium text-gray-700 dark:text-gray-300 mb-4">New Rule</h3>
-              
-              <div className="mb-4">
-                <label className="block text-xs text-gray-500 dark:text-gray-400 mb-2">Rule Type</label>
-                <select
-                  value={newRuleType}
-                  onChange={(e) => setNewRuleType(e.target.value as "ALLOWLIST" | "PERCENT_ROLLOUT")}
-                  className="w-full px-3 py-2 bg-white dark:bg-gray-700 border border-gray-300 dark:border-gray-600 rounded text-gray-900 dark:text-white"
-                >
-                  <option value="ALLOWLIST">Allow Specific Users</option>
-                  <option value="PERCENT_ROLLOUT">Percentage Rollout</option>
-                </select>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+                  Description
+                </label>
+                <textarea
+                  value={description}
+                  onChange={(e) => setDescription(e.target.value)}
+                  className="w-full px-4 py-2 bg-gray-50 dark:bg-gray-700 border border-gray-300 dark:border-gray-600 rounded-lg text-gray-900 dark:text-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  rows={3}
+                  placeholder="Describe this feature flag..."
+                />
               </div>
 
-              {newRuleType === "ALLOWLIST" ? (
-                <div className="mb-4">
-                  <label className="block text-xs text-gray-500 dark:text-gray-400 mb-1">
-                    User IDs (comma-separated)
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+                    Lifetime
                   </label>
-                  <input
-                    type="text"
-                    value={newRuleUsers}
-                    onChange={(e) => setNewRuleUsers(e.target.value)}
-                    className="w-full px-3 py-2 bg-white dark:bg-gray-700 border border-gray-300 dark:border-gray-600 rounded text-gray-900 dark:text-white text-sm"
-                    placeholder="user1, user2, user3"
-                  />
+                  <select
+                    value={lifetime}
+                    onChange={(e) => setLifetime(e.target.value as "TEMPORARY" | "PERMANENT")}
+                    className="w-full px-4 py-2 bg-gray-50 dark:bg-gray-700 border border-gray-300 dark:border-gray-600 rounded-lg text-gray-900 dark:text-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  >
+                    <option value="TEMPORARY">Temporary</option>
+                    <option value="PERMANENT">Permanent</option>
+                  </select>
+                  <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+                    Permanent flags are left out of the cleanup report.
+                  </p>
                 </div>
-              ) : (
-                <div className="mb-4">
-                  <label className="block text-xs text-gray-500 dark:text-gray-400 mb-1">
-                    Rollout Percentage: {newRulePercent}%
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+                    Owner
                   </label>
+                  <select
+                    value={ownerId}
+                    onChange={(e) => setOwnerId(e.target.value)}
+                    className="w-full px-4 py-2 bg-gray-50 dark:bg-gray-700 border border-gray-300 dark:border-gray-600 rounded-lg text-gray-900 dark:text-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  >
+                    <option value="">No owner (admins are notified)</option>
+                    {members.map((member) => (
+                      <option key={member.id} value={member.id}>
+                        {member.name}
+                      </option>
+                    ))}
+                  </select>
+                  <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+                    Notified when the flag is ready for cleanup.
+                  </p>
+                </div>
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+                  Experiment Layer
+                </label>
+                <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                  <select
+                    value={layerId}
+                    onChange={(e) => setLayerId(e.target.value)}
+                    className="w-full px-4 py-2 bg-gray-50 dark:bg-gray-700 border border-gray-300 dark:border-gray-600 rounded-lg text-gray-900 dark:text-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  >
+                    <option value="">No layer</option>
+                    {layers.map((layer) => (
+                      <option key={layer.id} value={layer.id}>
+                        {layer.name}
+                      </option>
+                    ))}
+                  </select>
+                  {layerId && (
+                    <>
+                      <label className="flex items-center gap-2 text-sm text-gray-700 dark:text-gray-300">
+                        First bucket
+                        <input
+                          type="number"
+                          min={0}
+                          max={99}
+                          value={layerStart}
+                          onChange={(e) => setLayerStart(parseInt(e.target.value) || 0)}
+                          className="w-20 px-3 py-2 bg-gray-50 dark:bg-gray-700 border border-gray-300 dark:border-gray-600 rounded-lg text-gray-900 dark:text-white"
+                        />
+                      </label>
+                      <label className="flex items-center gap-2 text-sm text-gray-700 dark:text-gray-300">
+                        Slice size %
+                        <input
+                          type="number"
+                          min={1}
+                          max={100}
+                          value={layerPercentage}
+                          onChange={(e) => setLayerPercentage(parseInt(e.target.value) || 1)}
+                          className="w-20 px-3 py-2 bg-gray-50 dark:bg-gray-700 border border-gray-300 dark:border-gray-600 rounded-lg text-gray-900 dark:text-white"
+                        />
+                      </label>
+                    </>
+                  )}
+                </div>
+                {layerId && (
+                  <div className="mt-2">
+                    <LayerAllocationBar slices={layerSlices} highlightFlagId={flagId} />
+                  </div>
+                )}
+                <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+                  {layerId
+                    ? `Only users in layer buckets ${layerStart}-${layerStart + layerPercentage - 1} can get this flag; rules and rollout apply within the slice.`
+                    : "Put experiments on the same surface in one layer so no user is in two of them."}
+                </p>
+              </div>
+
+              <div className="flex items-center gap-4">
+                <label className="flex items-center gap-2 cursor-pointer">
                   <input
-                    type="range"
-                    min="0"
-                    max="100"
-                    value={newRulePercent}
-                    onChange={(e) => setNewRulePercent(parseInt(e.target.value))}
-                    className="w-full"
+                    type="checkbox"
+                    checked={enabled}
+                    onChange={(e) => setEnabled(e.target.checked)}
+                    className="w-5 h-5 rounded bg-gray-50 dark:bg-gray-700 border-gray-300 dark:border-gray-600 text-blue-600 dark:text-blue-500 focus:ring-2 focus:ring-blue-500"
                   />
-                  <div className="flex justify-between text-xs text-gray-500 dark:text-gray-400 mt-1">
-                    <span>0%</span>
-                    <span>50%</span>
-                    <span>100%</span>
-                  </div>
+                  <span className="text-gray-700 dark:text-gray-300">Enabled</span>
+                </label>
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+                  Default Rule Rollout: {rolloutPercentage}%
+                </label>
+                <p className="text-xs text-gray-500 dark:text-gray-400 mb-2">
+                  Users who match no targeting rule are served the flag at this percentage.
+                </p>
+                <input
+                  type="range"
+                  min="0"
+                  max="100"
+                  value={rolloutPercentage}
+                  onChange={(e) => setRolloutPercentage(parseInt(e.target.value))}
+                  className="w-full"
+                />
+                <div className="flex justify-between text-xs text-gray-500 dark:text-gray-400 mt-1">
+                  <span>0%</span>
+                  <span>50%</span>
+                  <span>100%</span>
                 </div>
-              )}
+              </div>
+            </div>
 
+            <div className="mt-6 flex gap-3">
+              <button
+                onClick={handleSave}
+                disabled={saving}
+                className="px-6 py-2 bg-blue-600 hover:bg-blue-700 disabled:bg-gray-400 dark:disabled:bg-gray-600 text-white rounded-lg transition-colors"
+              >
+                {saving ? "Saving..." : "Save Changes"}
+              </button>
               <button
-                onClick={handleAddRule}
-                className="w-full px-4 py-2 bg-green-600 hover:bg-green-700 text-white rounded transition-colors"
+                onClick={fetchFlag}
+                className="px-6 py-2 bg-gray-100 dark:bg-gray-700 hover:bg-gray-200 dark:hover:bg-gray-600 text-gray-700 dark:text-white rounded-lg transition-colors"
               >
-                Add Rule
+                Reset
               </button>
             </div>
-          )}
+          </div>
 
-          {!rules || rules.length === 0 ? (
-            <div className="text-center py-8 text-gray-500 dark:text-gray-400">
-              No targeting rules. Add rules to control who sees this feature.
+          {/* Variants */}
+          <div className="bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 rounded-lg shadow-lg p-8 mb-6">
+            <div className="flex justify-between items-center mb-2">
+              <h2 className="text-xl font-semibold text-gray-900 dark:text-white">Variants</h2>
+              <button
+                onClick={() => setVariantDrafts([...variantDrafts, { key: "", kind: "string", value: "" }])}
+                className="px-4 py-2 bg-blue-600 hover:bg-blue-700 text-white rounded-lg transition-colors"
+              >
+                + Add Variant
+              </button>
             </div>
-          ) : (
-            <div className="space-y-3">
-              {rules.map((rule) => (
-                <div
-                  key={rule.id}
-                  className="flex items-center justify-between p-4 bg-gray-50 dark:bg-gray-700 border border-gray-200 dark:border-gray-600 rounded-lg"
-                >
-                  <div className="flex items-center gap-4 text-sm">
-                    <span className="px-2 py-1 bg-blue-100 text-blue-800 border-blue-200 dark:bg-blue-500/20 dark:text-blue-400 dark:border-blue-500/30 rounded text-xs font-medium border">
-                      {rule.type}
-                    </span>
-                    <span className="text-gray-900 dark:text-white">{formatRuleDisplay(rule)}</span>
+            <p className="text-sm text-gray-500 dark:text-gray-400 mb-4">
+              Without variants this is a boolean flag. With variants, users who receive the flag get a variant value.
+            </p>
+
+            {variantDrafts.length > 0 && (
+              <div className="space-y-2 mb-4">
+                {variantDrafts.map((draft, i) => (
+                  <div key={i} className="flex gap-2">
+                    <input
+                      type="text"
+                      value={draft.key}
+                      onChange={(e) =>
+                        setVariantDrafts(variantDrafts.map((d, j) => (j === i ? { ...d, key: e.target.value } : d)))
+                      }
+                      className="w-40 px-3 py-2 bg-gray-50 dark:bg-gray-700 border border-gray-300 dark:border-gray-600 rounded text-gray-900 dark:text-white font-mono text-sm"
+                      placeholder="control"
+                    />
+                    <select
+                      value={draft.kind}
+                      onChange={(e) =>
+                        setVariantDrafts(
+                          variantDrafts.map((d, j) => (j === i ? { ...d, kind: e.target.value as VariantDraft["kind"] } : d))
+                        )
+                      }
+                      className="px-3 py-2 bg-gray-50 dark:bg-gray-700 border border-gray-300 dark:border-gray-600 rounded text-gray-900 dark:text-white text-sm"
+                    >
+                      <option value="string">String</option>
+                      <option value="number">Number</option>
+                      <option value="json">JSON</option>
+                    </select>
+                    <input
+                      type="text"
+                      value={draft.value}
+                      onChange={(e) =>
+                        setVariantDrafts(variantDrafts.map((d, j) => (j === i ? { ...d, value: e.target.value } : d)))
+                      }
+                      className="flex-1 px-3 py-2 bg-gray-50 dark:bg-gray-700 border border-gray-300 dark:border-gray-600 rounded text-gray-900 dark:text-white font-mono text-sm"
+                      placeholder={draft.kind === "json" ? '{"color": "blue"}' : "value"}
+                    />
+                    <button
+                      onClick={() => setVariantDrafts(variantDrafts.filter((_, j) => j !== i))}
+                      className="px-3 py-1 bg-red-100 hover:bg-red-200 text-red-800 border-red-200 dark:bg-red-600/20 dark:hover:bg-red-600/30 dark:text-red-400 dark:border-red-500/30 border rounded transition-colors"
+                    >
+                      Remove
+                    </button>
                   </div>
-                  <button
-                    onClick={() => handleDeleteRule(rule.id)}
-                    className="px-3 py-1 bg-red-100 hover:bg-red-200 text-red-800 border-red-200 dark:bg-red-600/20 dark:hover:bg-red-600/30 dark:text-red-400 dark:border-red-500/30 border rounded transition-colors"
+                ))}
+              </div>
+            )}
+
+            {savedVariantKeys.length > 0 && (
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mb-4">
+                <div>
+                  <label className="block text-sm text-gray-500 dark:text-gray-400 mb-1">Default serve (when enabled)</label>
+                  <ServeEditor
+                    variants={savedVariantKeys}
+                    value={defaultServe}
+                    onChange={setDefaultServe}
+                    emptyLabel="First variant"
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm text-gray-500 dark:text-gray-400 mb-1">Off variant (when disabled)</label>
+                  <select
+                    value={offVariant}
+                    onChange={(e) => setOffVariant(e.target.value)}
+                    className="w-full px-3 py-2 bg-white dark:bg-gray-700 border border-gray-300 dark:border-gray-600 rounded text-gray-900 dark:text-white text-sm"
                   >
-                    Delete
-                  </button>
+                    <option value="">None (client default)</option>
+                    {savedVariantKeys.map((key) => (
+                      <option key={key} value={key}>{key}</option>
+                    ))}
+                  </select>
                 </div>
-              ))}
-            </div>
-          )}
-        </div>
+              </div>
+            )}
 
-        {/* Evaluation Tool */}
-        <div className="bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 rounded-lg shadow-lg p-8 mb-6">
-          <div className="flex justify-between items-center mb-6">
-            <h2 className="text-xl font-semibold text-gray-900 dark:text-white">Evaluation Tool</h2>
             <button
-              onClick={() => setShowEvaluationTool(!showEvaluationTool)}
-              className="text-sm text-blue-600 dark:text-blue-400 hover:text-blue-700 dark:hover:text-blue-300"
+              onClick={handleSaveVariants}
+              disabled={savingVariants}
+              className="px-6 py-2 bg-blue-600 hover:bg-blue-700 disabled:bg-gray-400 dark:disabled:bg-gray-600 text-white rounded-lg transition-colors"
             >
-              {showEvaluationTool ? "Hide" : "Show"} Tool
+              {savingVariants ? "Saving..." : "Save Variants"}
             </button>
           </div>
 
-          {showEvaluationTool && (
-            <>
-              <p className="text-sm text-gray-500 dark:text-gray-400 mb-4">
-                Test how this feature flag evaluates for different users and contexts.
-              </p>
+          {/* Targeting Rules */}
+          <div className="bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 rounded-lg shadow-lg p-8">
+            <div className="flex justify-between items-center mb-6">
+              <h2 className="text-xl font-semibold text-gray-900 dark:text-white">Targeting Rules</h2>
+              <button
+                onClick={() => setShowAddRule(!showAddRule)}
+                className="px-4 py-2 bg-blue-600 hover:bg-blue-700 text-white rounded-lg transition-colors"
+              >
+                {showAddRule ? "Cancel" : "+ Add Rule"}
+              </button>
+            </div>
 
-              <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-4">
-                <div>
-                  <label className="block text-sm text-gray-500 dark:text-gray-400 mb-1">User ID *</label>
-                  <input
-                    type="text"
-                    value={evalUserId}
-                    onChange={(e) => setEvalUserId(e.target.value)}
-                    className="w-full px-3 py-2 bg-gray-50 dark:bg-gray-700 border border-gray-300 dark:border-gray-600 rounded text-gray-900 dark:text-white"
-                    placeholder="user-123"
-                  />
-                </div>
-                <div>
-                  <label className="block text-sm text-gray-500 dark:text-gray-400 mb-1">Environment *</label>
+            {showAddRule && (
+              <div className="mb-6 p-4 bg-gray-50 dark:bg-gray-700/50 border border-gray-200 dark:border-gray-600 rounded-lg">
+                <h3 className="text-sm font-medium text-gray-700 dark:text-gray-300 mb-4">New Rule</h3>
+              
+                <div className="mb-4">
+                  <label className="block text-xs text-gray-500 dark:text-gray-400 mb-2">Rule Type</label>
                   <select
-                    value={evalEnvironment}
-                    onChange={(e) => setEvalEnvironment(e.target.value as "DEV" | "STAGING" | "PROD")}
-                    className="w-full px-3 py-2 bg-gray-50 dark:bg-gray-700 border border-gray-300 dark:border-gray-600 rounded text-gray-900 dark:text-white"
+                    value={newRuleType}
+                    onChange={(e) => setNewRuleType(e.target.value as NewRuleType)}
+                    className="w-full px-3 py-2 bg-white dark:bg-gray-700 border border-gray-300 dark:border-gray-600 rounded text-gray-900 dark:text-white"
                   >
-                    <option value="PROD">Production</option>
-                    <option value="STAGING">Staging</option>
-                    <option value="DEV">Development</option>
+                    <option value="ALLOWLIST">Allow Specific Users</option>
+                    <option value="PERCENT_ROLLOUT">Percentage Rollout</option>
+                    <option value="ATTRIBUTE">Match User Attribute</option>
+                    <option value="SEGMENT">Match Segment</option>
+                    <option value="PREREQUISITE">Requires Another Flag</option>
                   </select>
                 </div>
-                <div>
-                  <label className="block text-sm text-gray-500 dark:text-gray-400 mb-1">Service (optional)</label>
-                  <input
-                    type="text"
-                    value={evalService}
-                    onChange={(e) => setEvalService(e.target.value)}
-                    className="w-full px-3 py-2 bg-gray-50 dark:bg-gray-700 border border-gray-300 dark:border-gray-600 rounded text-gray-900 dark:text-white"
-                    placeholder="api-gateway"
-                  />
+
+                {newRuleType === "PREREQUISITE" ? (
+                  <div className="mb-4 grid grid-cols-1 md:grid-cols-3 gap-3">
+                    <div>
+                      <label className="block text-xs text-gray-500 dark:text-gray-400 mb-1">Flag</label>
+                      <select
+                        value={newRulePrereqKey}
+                        onChange={(e) => {
+                          setNewRulePrereqKey(e.target.value);
+                          setNewRulePrereqVariant("");
+                        }}
+                        className="w-full px-3 py-2 bg-white dark:bg-gray-700 border border-gray-300 dark:border-gray-600 rounded text-gray-900 dark:text-white text-sm"
+                      >
+                        <option value="">Select a flag...</option>
+                        {environmentFlags.map((f) => (
+                          <option key={f.id} value={f.key}>{f.key}</option>
+                        ))}
+                      </select>
+                    </div>
+                    <div>
+                      <label className="block text-xs text-gray-500 dark:text-gray-400 mb-1">Must be</label>
+                      <select
+                        value={newRulePrereqEnabled ? "on" : "off"}
+                        onChange={(e) => setNewRulePrereqEnabled(e.target.value === "on")}
+                        className="w-full px-3 py-2 bg-white dark:bg-gray-700 border border-gray-300 dark:border-gray-600 rounded text-gray-900 dark:text-white text-sm"
+                      >
+                        <option value="on">On</option>
+                        <option value="off">Off</option>
+                      </select>
+                    </div>
+                    <div>
+                      <label className="block text-xs text-gray-500 dark:text-gray-400 mb-1">Serving variant</label>
+                      <select
+                        value={newRulePrereqVariant}
+                        onChange={(e) => setNewRulePrereqVariant(e.target.value)}
+                        className="w-full px-3 py-2 bg-white dark:bg-gray-700 border border-gray-300 dark:border-gray-600 rounded text-gray-900 dark:text-white text-sm"
+                      >
+                        <option value="">Any</option>
+                        {(environmentFlags.find((f) => f.key === newRulePrereqKey)?.variants || []).map((v) => (
+                          <option key={v.key} value={v.key}>{v.key}</option>
+                        ))}
+                      </select>
+                    </div>
+                  </div>
+                ) : newRuleType === "SEGMENT" ? (
+                  <div className="mb-4">
+                    <label className="block text-xs text-gray-500 dark:text-gray-400 mb-1">Segment</label>
+                    {availableSegments.length === 0 ? (
+                      <p className="text-sm text-gray-500 dark:text-gray-400">
+                        No segments yet.{" "}
+                        <Link
+                          href={`/t/${tenantSlug}/feature-flags/segments`}
+                          className="text-blue-600 dark:text-blue-400 hover:underline"
+                        >
+                          Create one
+                        </Link>
+                      </p>
+                    ) : (
+                      <select
+                        value={newRuleSegmentId}
+                        onChange={(e) => setNewRuleSegmentId(e.target.value)}
+                        className="w-full px-3 py-2 bg-white dark:bg-gray-700 border border-gray-300 dark:border-gray-600 rounded text-gray-900 dark:text-white text-sm"
+                      >
+                        <option value="">Select a segment...</option>
+                        {availableSegments.map((segment) => (
+                          <option key={segment.id} value={segment.id}>{segment.name}</option>
+                        ))}
+                      </select>
+                    )}
+                  </div>
+                ) : newRuleType === "ATTRIBUTE" ? (
+                  <div className="mb-4 grid grid-cols-1 md:grid-cols-3 gap-3">
+                    <div>
+                      <label className="block text-xs text-gray-500 dark:text-gray-400 mb-1">Attribute</label>
+                      <input
+                        type="text"
+                        value={newRuleAttribute}
+                        onChange={(e) => setNewRuleAttribute(e.target.value)}
+                        className="w-full px-3 py-2 bg-white dark:bg-gray-700 border border-gray-300 dark:border-gray-600 rounded text-gray-900 dark:text-white text-sm font-mono"
+                        placeholder="plan"
+                      />
+                    </div>
+                    <div>
+                      <label className="block text-xs text-gray-500 dark:text-gray-400 mb-1">Operator</label>
+                      <select
+                        value={newRuleOperator}
+                        onChange={(e) => setNewRuleOperator(e.target.value)}
+                        className="w-full px-3 py-2 bg-white dark:bg-gray-700 border border-gray-300 dark:border-gray-600 rounded text-gray-900 dark:text-white text-sm"
+                      >
+                        {Object.entries(ATTRIBUTE_OPERATOR_LABELS).map(([value, label]) => (
+                          <option key={value} value={value}>{label}</option>
+                        ))}
+                      </select>
+                    </div>
+                    <div>
+                      <label className="block text-xs text-gray-500 dark:text-gray-400 mb-1">
+                        Values (comma-separated)
+                      </label>
+                      <input
+                        type="text"
+                        value={newRuleValues}
+                        onChange={(e) => setNewRuleValues(e.target.value)}
+                        className="w-full px-3 py-2 bg-white dark:bg-gray-700 border border-gray-300 dark:border-gray-600 rounded text-gray-900 dark:text-white text-sm"
+                        placeholder="pro, enterprise"
+                      />
+                    </div>
+                  </div>
+                ) : newRuleType === "ALLOWLIST" ? (
+                  <div className="mb-4">
+                    <label className="block text-xs text-gray-500 dark:text-gray-400 mb-1">
+                      User IDs (comma-separated)
+                    </label>
+                    <input
+                      type="text"
+                      value={newRuleUsers}
+                      onChange={(e) => setNewRuleUsers(e.target.value)}
+                      className="w-full px-3 py-2 bg-white dark:bg-gray-700 border border-gray-300 dark:border-gray-600 rounded text-gray-900 dark:text-white text-sm"
+                      placeholder="user1, user2, user3"
+                    />
+                  </div>
+                ) : (
+                  <div className="mb-4">
+                    <label className="block text-xs text-gray-500 dark:text-gray-400 mb-1">
+                      Rollout Percentage: {newRulePercent}%
+                    </label>
+                    <input
+                      type="range"
+                      min="0"
+                      max="100"
+                      value={newRulePercent}
+                      onChange={(e) => setNewRulePercent(parseInt(e.target.value))}
+                      className="w-full"
+                    />
+                    <div className="flex justify-between text-xs text-gray-500 dark:text-gray-400 mt-1">
+                      <span>0%</span>
+                      <span>50%</span>
+                      <span>100%</span>
+                    </div>
+                  </div>
+                )}
+
+                {savedVariantKeys.length > 0 && (
+                  <div className="mb-4">
+                    <label className="block text-xs text-gray-500 dark:text-gray-400 mb-1">Serve</label>
+                    <ServeEditor
+                      variants={savedVariantKeys}
+                      value={newRuleServe}
+                      onChange={setNewRuleServe}
+                      emptyLabel="Flag default"
+                    />
+                  </div>
+                )}
+
+                <button
+                  onClick={handleAddRule}
+                  className="w-full px-4 py-2 bg-green-600 hover:bg-green-700 text-white rounded transition-colors"
+                >
+                  Add Rule
+                </button>
+              </div>
+            )}
+
+            {!rules || rules.length === 0 ? (
+              <div className="text-center py-8 text-gray-500 dark:text-gray-400">
+                No targeting rules. Add rules to control who sees this feature.
+              </div>
+            ) : (
+              <div className="space-y-3">
+                {rules.map((rule) => (
+                  <div
+                    key={rule.id}
+                    className="flex items-center justify-between p-4 bg-gray-50 dark:bg-gray-700 border border-gray-200 dark:border-gray-600 rounded-lg"
+                  >
+                    <div className="flex items-center gap-4 text-sm">
+                      <span className="px-2 py-1 bg-blue-100 text-blue-800 border-blue-200 dark:bg-blue-500/20 dark:text-blue-400 dark:border-blue-500/30 rounded text-xs font-medium border">
+                        {rule.type}
+                      </span>
+                      <span className="text-gray-900 dark:text-white">{formatRuleDisplay(rule)}</span>
+                      {rule.serve && (
+                        <span className="text-gray-500 dark:text-gray-400 font-mono text-xs">{formatServe(rule.serve)}</span>
+                      )}
+                    </div>
+                    <button
+                      onClick={() => handleDeleteRule(rule.id)}
+                      className="px-3 py-1 bg-red-100 hover:bg-red-200 text-red-800 border-red-200 dark:bg-red-600/20 dark:hover:bg-red-600/30 dark:text-red-400 dark:border-red-500/30 border rounded transition-colors"
+                    >
+                      Delete
+                    </button>
+                  </div>
+                ))}
+              </div>
+            )}
+
+            {flag.segments && flag.segments.length > 0 && (
+              <div className="mt-6">
+                <h3 className="text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">Segments used</h3>
+                <div className="flex flex-wrap gap-2">
+                  {flag.segments.map((segment) => (
+                    <Link
+                      key={segment.id}
+                      href={`/t/${tenantSlug}/feature-flags/segments`}
+                      className="px-2 py-1 bg-yellow-100 text-yellow-800 border-yellow-200 dark:bg-yellow-500/20 dark:text-yellow-400 dark:border-yellow-500/30 rounded text-xs font-medium border"
+                    >
+                      {segment.name}
+                    </Link>
+                  ))}
                 </div>
+                <p className="mt-2 text-xs text-gray-500 dark:text-gray-400">
+                  Changes to these segments apply to this flag immediately.
+                </p>
               </div>
+            )}
 
+            {flag.dependents && flag.dependents.length > 0 && (
+              <div className="mt-6">
+                <h3 className="text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">Required by</h3>
+                <div className="flex flex-wrap gap-2">
+                  {flag.dependents.map((dependent) => (
+                    <Link
+                      key={dependent.id}
+                      href={`/t/${tenantSlug}/feature-flags/${dependent.id}`}
+                      className="px-2 py-1 bg-purple-100 text-purple-800 border-purple-200 dark:bg-purple-500/20 dark:text-purple-400 dark:border-purple-500/30 rounded text-xs font-medium border font-mono"
+                    >
+                      {dependent.key}
+                    </Link>
+                  ))}
+                </div>
+                <p className="mt-2 text-xs text-gray-500 dark:text-gray-400">
+                  These flags have this flag as a prerequisite. It cannot be deleted or renamed while they do.
+                </p>
+              </div>
+            )}
+          </div>
+
+          {/* Rollout Plan */}
+          <div className="bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 rounded-lg shadow-lg p-8 mt-6">
+            <div className="flex justify-between items-center mb-6">
+              <h2 className="text-xl font-semibold text-gray-900 dark:text-white">Rollout Plan</h2>
+              {(!rolloutPlan || !["ACTIVE", "PAUSED"].includes(rolloutPlan.status)) && (
+                <button
+                  onClick={() => setShowAddPlan(!showAddPlan)}
+                  className="px-4 py-2 bg-blue-600 hover:bg-blue-700 text-white rounded-lg transition-colors"
+                >
+                  {showAddPlan ? "Cancel" : "+ New Plan"}
+                </button>
+              )}
+            </div>
+
+            {showAddPlan && (
+              <div className="mb-6 p-4 bg-gray-50 dark:bg-gray-700/50 border border-gray-200 dark:border-gray-600 rounded-lg">
+                <div className="mb-4 grid grid-cols-1 md:grid-cols-2 gap-3">
+                  <div>
+                    <label className="block text-xs text-gray-500 dark:text-gray-400 mb-1">Steps (%, comma-separated)</label>
+                    <input
+                      type="text"
+                      value={planSteps}
+                      onChange={(e) => setPlanSteps(e.target.value)}
+                      className="w-full px-3 py-2 bg-white dark:bg-gray-700 border border-gray-300 dark:border-gray-600 rounded text-gray-900 dark:text-white text-sm font-mono"
+                    />
+                  </div>
+                  <div>
+                    <label className="block text-xs text-gray-500 dark:text-gray-400 mb-1">Minutes between steps</label>
+                    <input
+                      type="number"
+                      min="1"
+                      value={planInterval}
+                      onChange={(e) => setPlanInterval(parseInt(e.target.value) || 1)}
+                      className="w-full px-3 py-2 bg-white dark:bg-gray-700 border border-gray-300 dark:border-gray-600 rounded text-gray-900 dark:text-white text-sm"
+                    />
+                  </div>
+                </div>
+                <div className="mb-4 grid grid-cols-1 md:grid-cols-2 gap-3">
+                  <div>
+                    <label className="block text-xs text-gray-500 dark:text-gray-400 mb-1">Guard service (optional)</label>
+                    <input
+                      type="text"
+                      value={planGuardService}
+                      onChange={(e) => setPlanGuardService(e.target.value)}
+                      placeholder="checkout-api"
+                      className="w-full px-3 py-2 bg-white dark:bg-gray-700 border border-gray-300 dark:border-gray-600 rounded text-gray-900 dark:text-white text-sm"
+                    />
+                  </div>
+                  <div>
+                    <label className="block text-xs text-gray-500 dark:text-gray-400 mb-1">Roll back on incidents at or above</label>
+                    <select
+                      value={planGuardSeverity}
+                      onChange={(e) => setPlanGuardSeverity(e.target.value)}
+                      className="w-full px-3 py-2 bg-white dark:bg-gray-700 border border-gray-300 dark:border-gray-600 rounded text-gray-900 dark:text-white text-sm"
+                    >
+                      <option value="SEV1">SEV1</option>
+                      <option value="SEV2">SEV2</option>
+                      <option value="SEV3">SEV3</option>
+                      <option value="SEV4">SEV4</option>
+                    </select>
+                  </div>
+                </div>
+                <p className="mb-4 text-xs text-gray-500 dark:text-gray-400">
+                  The first step is applied right away. Each step sets the default rule rollout. With a guard, opening a
+                  matching incident while the plan is in progress restores the flag to its state before the plan started.
+                </p>
+
+                <button
+                  onClick={handleCreatePlan}
+                  className="w-full px-4 py-2 bg-green-600 hover:bg-green-700 text-white rounded transition-colors"
+                >
+                  Start Rollout
+                </button>
+              </div>
+            )}
+
+            {!rolloutPlan ? (
+              <div className="text-center py-8 text-gray-500 dark:text-gray-400">
+                No rollout plan. Start one to ramp the default rule up automatically.
+              </div>
+            ) : (
+              <div>
+                <div className="flex items-center gap-3 mb-4">
+                  <span className="px-2 py-1 bg-blue-100 text-blue-800 border-blue-200 dark:bg-blue-500/20 dark:text-blue-400 dark:border-blue-500/30 rounded text-xs font-medium border">
+                    {rolloutPlan.status}
+                  </span>
+                  <span className="text-sm text-gray-500 dark:text-gray-400">
+                    Every {rolloutPlan.intervalMinutes} min
+                    {rolloutPlan.nextStepAt && ` · next step ${new Date(rolloutPlan.nextStepAt).toLocaleString()}`}
+                    {rolloutPlan.guardService &&
+                      ` · rolls back on ${rolloutPlan.guardSeverity} or worse incidents on ${rolloutPlan.guardService}`}
+                  </span>
+                </div>
+
+                <div className="flex flex-wrap items-center gap-2 mb-4">
+                  {rolloutPlan.steps.map((step, i) => (
+                    <span
+                      key={i}
+                      className={`px-2 py-1 rounded text-xs font-mono border ${
+                        i <= rolloutPlan.currentStep
+                          ? "bg-green-100 text-green-800 border-green-200 dark:bg-green-500/20 dark:text-green-400 dark:border-green-500/30"
+                          : "bg-gray-100 text-gray-600 border-gray-200 dark:bg-gray-700 dark:text-gray-400 dark:border-gray-600"
+                      }`}
+                    >
+                      {step}%
+                    </span>
+                  ))}
+                </div>
+
+                {rolloutPlan.error && (
+                  <p className="mb-4 text-sm text-red-600 dark:text-red-400">
+                    {rolloutPlan.status === "PAUSED" && "Last step failed: "}
+                    {rolloutPlan.error}
+                  </p>
+                )}
+
+                {(rolloutPlan.status === "ACTIVE" || rolloutPlan.status === "PAUSED") && (
+                  <div className="flex gap-2">
+                    <button
+                      onClick={() => handlePlanAction(rolloutPlan.status === "ACTIVE" ? "pause" : "resume")}
+                      className="px-3 py-1 bg-gray-600 hover:bg-gray-500 text-white rounded text-sm transition-colors"
+                    >
+                      {rolloutPlan.status === "ACTIVE" ? "Pause" : "Resume"}
+                    </button>
+                    <button
+                      onClick={() => handlePlanAction("abort")}
+                      className="px-3 py-1 bg-red-100 hover:bg-red-200 text-red-800 border-red-200 dark:bg-red-600/20 dark:hover:bg-red-600/30 dark:text-red-400 dark:border-red-500/30 border rounded text-sm transition-colors"
+                    >
+                      Abort
+                    </button>
+                  </div>
+                )}
+              </div>
+            )}
+          </div>
+
+          {/* Scheduled Changes */}
+          <div className="bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 rounded-lg shadow-lg p-8 my-6">
+            <div className="flex justify-between items-center mb-6">
+              <h2 className="text-xl font-semibold text-gray-900 dark:text-white">Scheduled Changes</h2>
               <button
-                onClick={handleEvaluate}
-                disabled={evaluating || !evalUserId.trim()}
-                className="w-full px-4 py-2 bg-purple-600 hover:bg-purple-700 disabled:bg-gray-400 dark:disabled:bg-gray-600 text-white rounded-lg transition-colors mb-4"
+                onClick={() => setShowAddSchedule(!showAddSchedule)}
+                className="px-4 py-2 bg-blue-600 hover:bg-blue-700 text-white rounded-lg transition-colors"
               >
-                {evaluating ? "Evaluating..." : "Evaluate Flag"}
+                {showAddSchedule ? "Cancel" : "+ Schedule Change"}
               </button>
+            </div>
 
-              {evalResult && (
-                <div className={`p-4 rounded-lg border ${
-                  evalResult.enabled 
-                    ? "bg-green-100 border-green-200 dark:bg-green-500/10 dark:border-green-500/30" 
-                    : "bg-red-100 border-red-200 dark:bg-red-500/10 dark:border-red-500/30"
-                }`}>
-                  <div className="flex items-center gap-3 mb-3">
-                    <span className={`text-2xl font-bold ${
-                      evalResult.enabled ? "text-green-700 dark:text-green-400" : "text-red-700 dark:text-red-400"
-                    }`}>
-                      {evalResult.enabled ? "✓ ENABLED" : "✗ DISABLED"}
-                    </span>
+            {showAddSchedule && (
+              <div className="mb-6 p-4 bg-gray-50 dark:bg-gray-700/50 border border-gray-200 dark:border-gray-600 rounded-lg">
+                <div className="mb-4 grid grid-cols-1 md:grid-cols-3 gap-3">
+                  <div>
+                    <label className="block text-xs text-gray-500 dark:text-gray-400 mb-1">At</label>
+                    <input
+                      type="datetime-local"
+                      value={scheduleAt}
+                      onChange={(e) => setScheduleAt(e.target.value)}
+                      className="w-full px-3 py-2 bg-white dark:bg-gray-700 border border-gray-300 dark:border-gray-600 rounded text-gray-900 dark:text-white text-sm"
+                    />
                   </div>
-                  <div className="mb-3">
-                    <span className="text-sm text-gray-500 dark:text-gray-400">Reason: </span>
-                    <span className="text-gray-900 dark:text-white">{evalResult.reason}</span>
+                  <div>
+                    <label className="block text-xs text-gray-500 dark:text-gray-400 mb-1">Flag</label>
+                    <select
+                      value={scheduleEnabled}
+                      onChange={(e) => setScheduleEnabled(e.target.value)}
+                      className="w-full px-3 py-2 bg-white dark:bg-gray-700 border border-gray-300 dark:border-gray-600 rounded text-gray-900 dark:text-white text-sm"
+                    >
+                      <option value="">No change</option>
+                      <option value="on">Enable</option>
+                      <option value="off">Disable</option>
+                    </select>
                   </div>
-                  {evalResult.trace && evalResult.trace.length > 0 && (
-                    <div>
-                      <span className="text-sm text-gray-500 dark:text-gray-400">Evaluation Trace:</span>
-                      <ul className="mt-2 space-y-1 text-sm text-gray-700 dark:text-gray-300 font-mono">
-                        {evalResult.trace.map((step, i) => (
-                          <li key={i} className="flex items-start gap-2">
-                            <span className="text-gray-500">{i + 1}.</span>
-                            <span>{step}</span>
-                          </li>
-                        ))}
-                      </ul>
+                  <div>
+                    <label className="block text-xs text-gray-500 dark:text-gray-400 mb-1">Default rule rollout (%)</label>
+                    <input
+                      type="number"
+                      min="0"
+                      max="100"
+                      value={scheduleRollout}
+                      onChange={(e) => setScheduleRollout(e.target.value)}
+                      placeholder="No change"
+                      className="w-full px-3 py-2 bg-white dark:bg-gray-700 border border-gray-300 dark:border-gray-600 rounded text-gray-900 dark:text-white text-sm"
+                    />
+                  </div>
+                </div>
+
+                <button
+                  onClick={handleAddSchedule}
+                  className="w-full px-4 py-2 bg-green-600 hover:bg-green-700 text-white rounded transition-colors"
+                >
+                  Schedule Change
+                </button>
+              </div>
+            )}
+
+            {schedules.length === 0 ? (
+              <div className="text-center py-8 text-gray-500 dark:text-gray-400">
+                No scheduled changes.
+              </div>
+            ) : (
+              <div className="space-y-3">
+                {schedules.map((schedule) => (
+                  <div
+                    key={schedule.id}
+                    className="flex items-center justify-between p-4 bg-gray-50 dark:bg-gray-700 border border-gray-200 dark:border-gray-600 rounded-lg"
+                  >
+                    <div className="text-sm">
+                      <div className="flex items-center gap-3">
+                        <span className="px-2 py-1 bg-blue-100 text-blue-800 border-blue-200 dark:bg-blue-500/20 dark:text-blue-400 dark:border-blue-500/30 rounded text-xs font-medium border">
+                          {schedule.status}
+                        </span>
+                        <span className="text-gray-900 dark:text-white">{formatSchedulePatch(schedule.patch)}</span>
+                      </div>
+                      <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">
+                        {new Date(schedule.scheduledFor).toLocaleString()}
+                        {schedule.createdBy && ` · scheduled by ${schedule.createdBy.name}`}
+                        {schedule.error && ` · ${schedule.error}`}
+                      </p>
                     </div>
-                  )}
+                    {schedule.status === "PENDING" && (
+                      <button
+                        onClick={() => handleCancelSchedule(schedule.id)}
+                        className="px-3 py-1 bg-red-100 hover:bg-red-200 text-red-800 border-red-200 dark:bg-red-600/20 dark:hover:bg-red-600/30 dark:text-red-400 dark:border-red-500/30 border rounded transition-colors"
+                      >
+                        Cancel
+                      </button>
+                    )}
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+
+          {/* Evaluation Tool */}
+          <div className="bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 rounded-lg shadow-lg p-8 mb-6">
+            <div className="flex justify-between items-center mb-6">
+              <h2 className="text-xl font-semibold text-gray-900 dark:text-white">Evaluation Tool</h2>
+              <button
+                onClick={() => setShowEvaluationTool(!showEvaluationTool)}
+                className="text-sm text-blue-600 dark:text-blue-400 hover:text-blue-700 dark:hover:text-blue-300"
+              >
+                {showEvaluationTool ? "Hide" : "Show"} Tool
+              </button>
+            </div>
+
+            {showEvaluationTool && (
+              <>
+                <p className="text-sm text-gray-500 dark:text-gray-400 mb-4">
+                  Test how this feature flag evaluates for different users and contexts.
+                </p>
+
+                <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-4">
+                  <div>
+                    <label className="block text-sm text-gray-500 dark:text-gray-400 mb-1">User ID *</label>
+                    <input
+                      type="text"
+                      value={evalUserId}
+                      onChange={(e) => setEvalUserId(e.target.value)}
+                      className="w-full px-3 py-2 bg-gray-50 dark:bg-gray-700 border border-gray-300 dark:border-gray-600 rounded text-gray-900 dark:text-white"
+                      placeholder="user-123"
+                    />
+                  </div>
+                  <div>
+                    <label className="block text-sm text-gray-500 dark:text-gray-400 mb-1">Environment *</label>
+                    <select
+                      value={evalEnvironment}
+                      onChange={(e) => setEvalEnvironment(e.target.value as "DEV" | "STAGING" | "PROD")}
+                      className="w-full px-3 py-2 bg-gray-50 dark:bg-gray-700 border border-gray-300 dark:border-gray-600 rounded text-gray-900 dark:text-white"
+                    >
+                      <option value="PROD">Production</option>
+                      <option value="STAGING">Staging</option>
+                      <option value="DEV">Development</option>
+                    </select>
+                  </div>
+                  <div>
+                    <label className="block text-sm text-gray-500 dark:text-gray-400 mb-1">Service (optional)</label>
+                    <input
+                      type="text"
+                      value={evalService}
+                      onChange={(e) => setEvalService(e.target.value)}
+                      className="w-full px-3 py-2 bg-gray-50 dark:bg-gray-700 border border-gray-300 dark:border-gray-600 rounded text-gray-900 dark:text-white"
+                      placeholder="api-gateway"
+                    />
+                  </div>
                 </div>
-              )}
-            </>
-          )}
-        </div>
+
+                <div className="mb-4">
+                  <label className="block text-sm text-gray-500 dark:text-gray-400 mb-1">Attributes (optional JSON)</label>
+                  <textarea
+                    value={evalAttributes}
+                    onChange={(e) => setEvalAttributes(e.target.value)}
+                    className="w-full px-3 py-2 bg-gray-50 dark:bg-gray-700 border border-gray-300 dark:border-gray-600 rounded text-gray-900 dark:text-white font-mono text-sm"
+                    rows={3}
+                    placeholder='{"plan": "pro", "country": "KE", "appVersion": "2.4.0"}'
+                  />
+                </div>
+
+                <button
+                  onClick={handleEvaluate}
+                  disabled={evaluating || !evalUserId.trim()}
+                  className="w-full px-4 py-2 bg-purple-600 hover:bg-purple-700 disabled:bg-gray-400 dark:disabled:bg-gray-600 text-white rounded-lg transition-colors mb-4"
+                >
+                  {evaluating ? "Evaluating..." : "Evaluate Flag"}
+                </button>
+
+                {evalResult && (
+                  <div className={`p-4 rounded-lg border ${
+                    evalResult.enabled 
+                      ? "bg-green-100 border-green-200 dark:bg-green-500/10 dark:border-green-500/30" 
+                      : "bg-red-100 border-red-200 dark:bg-red-500/10 dark:border-red-500/30"
+                  }`}>
+                    <div className="flex items-center gap-3 mb-3">
+                      <span className={`text-2xl font-bold ${
+                        evalResult.enabled ? "text-green-700 dark:text-green-400" : "text-red-700 dark:text-red-400"
+                      }`}>
+                        {evalResult.enabled ? "✓ ENABLED" : "✗ DISABLED"}
+                      </span>
+                    </div>
+                    <div className="mb-3">
+                      <span className="text-sm text-gray-500 dark:text-gray-400">Reason: </span>
+                      <span className="text-gray-900 dark:text-white">{evalResult.reason}</span>
+                    </div>
+                    {evalResult.variant && (
+                      <div className="mb-3">
+                        <span className="text-sm text-gray-500 dark:text-gray-400">Variant: </span>
+                        <span className="font-mono text-gray-900 dark:text-white">{evalResult.variant}</span>
+                        <span className="ml-2 font-mono text-sm text-gray-600 dark:text-gray-300">
+                          = {JSON.stringify(evalResult.value)}
+                        </span>
+                      </div>
+                    )}
+                    {evalResult.trace && evalResult.trace.length > 0 && (
+                      <div>
+                        <span className="text-sm text-gray-500 dark:text-gray-400">Evaluation Trace:</span>
+                        <ul className="mt-2 space-y-1 text-sm text-gray-700 dark:text-gray-300 font-mono">
+                          {evalResult.trace.map((step, i) => (
+                            <li key={i} className="flex items-start gap-2">
+                              <span className="text-gray-500">{i + 1}.</span>
+                              <span>{step}</span>
+                            </li>
+                          ))}
+                        </ul>
+                      </div>
+                    )}
+                  </div>
+                )}
+              </>
+            )}
+          </div>
+          </>
+        )}
 
         {/* Metadata */}
         <div className="mt-6 text-sm text-gray-500 dark:text-gray-400">
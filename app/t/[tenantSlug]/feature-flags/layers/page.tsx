@@ -0,0 +1,248 @@
+"use client";
+
+import { useState, useEffect, use } from "react";
+import Link from "next/link";
+import { FontAwesomeIcon } from "@fortawesome/react-fontawesome";
+import { faLayerGroup, faPlus, faTrash, faPen, faSpinner } from "@fortawesome/free-solid-svg-icons";
+import { useToast } from "@/app/components/ToastProvider";
+import LayerAllocationBar, { type LayerSliceSummary } from "@/app/components/LayerAllocationBar";
+
+interface ExperimentLayer {
+  id: string;
+  name: string;
+  description: string | null;
+  allocations: {
+    environment: "DEV" | "STAGING" | "PROD";
+    allocated: number;
+    slices: LayerSliceSummary[];
+  }[];
+}
+
+const emptyForm = { name: "", description: "" };
+
+export default function ExperimentLayersPage({
+  params,
+}: {
+  params: Promise<{ tenantSlug: string }>;
+}) {
+  const { tenantSlug } = use(params);
+  const toast = useToast();
+  const [layers, setLayers] = useState<ExperimentLayer[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [showForm, setShowForm] = useState(false);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [form, setForm] = useState(emptyForm);
+
+  useEffect(() => {
+    fetchLayers();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, []);
+
+  const fetchLayers = async () => {
+    try {
+      setLoading(true);
+      const response = await fetch("/api/experiment-layers");
+      if (!response.ok) throw new Error("Failed to fetch experiment layers");
+      const data = await response.json();
+      setLayers(data.layers);
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : "Failed to fetch experiment layers");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const openCreate = () => {
+    setEditingId(null);
+    setForm(emptyForm);
+    setShowForm(true);
+  };
+
+  const openEdit = (layer: ExperimentLayer) => {
+    setEditingId(layer.id);
+    setForm({ name: layer.name, description: layer.description || "" });
+    setShowForm(true);
+  };
+
+  const handleSave = async () => {
+    if (!form.name.trim()) return;
+
+    setSaving(true);
+    try {
+      const response = await fetch(editingId ? `/api/experiment-layers/${editingId}` : "/api/experiment-layers", {
+        method: editingId ? "PATCH" : "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ name: form.name.trim(), description: form.description || undefined }),
+      });
+
+      if (!response.ok) {
+        const data = await response.json();
+        throw new Error(data.error || "Failed to save experiment layer");
+      }
+
+      await fetchLayers();
+      setShowForm(false);
+      setForm(emptyForm);
+      toast.success(editingId ? "Experiment layer updated successfully" : "Experiment layer created successfully");
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : "Failed to save experiment layer");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async (layerId: string) => {
+    if (!confirm("Are you sure you want to delete this experiment layer?")) return;
+
+    try {
+      const response = await fetch(`/api/experiment-layers/${layerId}`, { method: "DELETE" });
+      if (!response.ok) {
+        const data = await response.json();
+        throw new Error(data.error || "Failed to delete experiment layer");
+      }
+
+      setLayers(layers.filter((l) => l.id !== layerId));
+      toast.success("Experiment layer deleted successfully");
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : "Failed to delete experiment layer");
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center py-12">
+        <FontAwesomeIcon icon={faSpinner} className="animate-spin text-2xl text-gray-400" />
+      </div>
+    );
+  }
+
+  return (
+    <div>
+      <Link
+        href={`/t/${tenantSlug}/feature-flags`}
+        className="text-blue-600 dark:text-blue-400 hover:text-blue-700 dark:hover:text-blue-300 mb-4 inline-block"
+      >
+        ← Back to Feature Flags
+      </Link>
+
+      <div className="flex justify-between items-center mb-6">
+        <div>
+          <h1 className="text-2xl font-bold text-white">Experiment Layers</h1>
+          <p className="text-sm text-gray-400">
+            Flags in a layer claim separate slices of its users, so nobody is in two of them at once.
+          </p>
+        </div>
+        <button
+          onClick={openCreate}
+          className="px-4 py-2 bg-blue-600 hover:bg-blue-700 text-white rounded-lg flex items-center gap-2"
+        >
+          <FontAwesomeIcon icon={faPlus} />
+          New Layer
+        </button>
+      </div>
+
+      {showForm && (
+        <div className="mb-6 p-6 bg-gray-800 rounded-lg border border-gray-700">
+          <h2 className="text-lg font-semibold text-white mb-4">
+            {editingId ? "Edit Experiment Layer" : "Create New Experiment Layer"}
+          </h2>
+          <div className="grid grid-cols-2 gap-4 mb-4">
+            <div>
+              <label className="block text-sm text-gray-400 mb-1">Name</label>
+              <input
+                type="text"
+                value={form.name}
+                onChange={(e) => setForm({ ...form, name: e.target.value })}
+                placeholder="Checkout page"
+                className="w-full px-3 py-2 bg-gray-700 border border-gray-600 rounded text-white"
+              />
+            </div>
+            <div>
+              <label className="block text-sm text-gray-400 mb-1">Description</label>
+              <input
+                type="text"
+                value={form.description}
+                onChange={(e) => setForm({ ...form, description: e.target.value })}
+                placeholder="Optional description"
+                className="w-full px-3 py-2 bg-gray-700 border border-gray-600 rounded text-white"
+              />
+            </div>
+          </div>
+
+          <div className="flex justify-end gap-2">
+            <button
+              onClick={() => setShowForm(false)}
+              className="px-4 py-2 bg-gray-600 hover:bg-gray-500 text-white rounded"
+            >
+              Cancel
+            </button>
+            <button
+              onClick={handleSave}
+              disabled={saving || !form.name.trim()}
+              className="px-4 py-2 bg-blue-600 hover:bg-blue-700 disabled:bg-gray-600 text-white rounded flex items-center gap-2"
+            >
+              {saving && <FontAwesomeIcon icon={faSpinner} className="animate-spin" />}
+              {editingId ? "Save" : "Create"}
+            </button>
+          </div>
+        </div>
+      )}
+
+      {layers.length === 0 ? (
+        <div className="text-center py-12 text-gray-500 dark:text-gray-500">
+          <FontAwesomeIcon icon={faLayerGroup} className="text-4xl mb-4" />
+          <p>No experiment layers yet. Create one to keep experiments on the same surface from overlapping.</p>
+        </div>
+      ) : (
+        <div className="space-y-3">
+          {layers.map((layer) => (
+            <div
+              key={layer.id}
+              className="p-4 bg-white dark:bg-gray-800 rounded-lg border border-gray-200 dark:border-gray-700"
+            >
+              <div className="flex items-start gap-4 mb-3">
+                <div className="flex-1">
+                  <p className="font-medium text-gray-900 dark:text-white">{layer.name}</p>
+                  {layer.description && (
+                    <p className="text-sm text-gray-500 dark:text-gray-400">{layer.description}</p>
+                  )}
+                </div>
+                <div className="flex items-center gap-2">
+                  <button
+                    onClick={() => openEdit(layer)}
+                    className="px-3 py-1 bg-gray-600 hover:bg-gray-500 text-white rounded text-sm"
+                  >
+                    <FontAwesomeIcon icon={faPen} />
+                  </button>
+                  <button
+                    onClick={() => handleDelete(layer.id)}
+                    className="px-3 py-1 bg-red-600 hover:bg-red-700 text-white rounded text-sm"
+                  >
+                    <FontAwesomeIcon icon={faTrash} />
+                  </button>
+                </div>
+              </div>
+
+              <div className="space-y-2">
+                {layer.allocations.map((allocation) => (
+                  <div key={allocation.environment} className="flex items-center gap-3">
+                    <span className="w-20 text-xs font-medium text-gray-500 dark:text-gray-400">
+                      {allocation.environment}
+                    </span>
+                    <div className="flex-1">
+                      <LayerAllocationBar slices={allocation.slices} />
+                    </div>
+                    <span className="w-28 text-right text-xs text-gray-500 dark:text-gray-400">
+                      {allocation.allocated}% allocated
+                    </span>
+                  </div>
+                ))}
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
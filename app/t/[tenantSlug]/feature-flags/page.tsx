@@ -13,12 +13,20 @@ import {
   faFlask,
   faChevronDown,
   faChevronRight,
+  faUsers,
+  faLayerGroup,
+  faArrowRight,
+  faBroom,
+  faFileExport,
+  faFileImport,
 } from "@fortawesome/free-solid-svg-icons";
 import { useToast } from "@/app/components/ToastProvider";
+import FlagDiff, { type FlagConfigDiff } from "@/app/components/FlagDiff";
+import FlagImportPanel from "@/app/components/FlagImportPanel";
 
 interface Rule {
   id: string;
-  type: "ALLOWLIST" | "PERCENT_ROLLOUT" | "AND" | "OR";
+  type: "ALLOWLIST" | "PERCENT_ROLLOUT" | "ATTRIBUTE" | "SEGMENT" | "PREREQUISITE" | "AND" | "OR";
   condition: Record<string, unknown>;
   order: number;
 }
@@ -30,10 +38,48 @@ interface FeatureFlag {
   description?: string;
   enabled: boolean;
   environment: "DEV" | "STAGING" | "PROD";
+  rolloutPercentage: number;
   rules: Rule[];
   createdAt: string;
 }
 
+type Environment = "DEV" | "STAGING" | "PROD";
+
+const ENVIRONMENTS: Environment[] = ["DEV", "STAGING", "PROD"];
+
+const PROMOTION_TARGETS: Partial<Record<Environment, Environment>> = {
+  DEV: "STAGING",
+  STAGING: "PROD",
+};
+
+type CleanupStatus = "active" | "permanent" | "stale" | "fully_rolled_out" | "unused";
+
+interface CleanupEntry {
+  flagId: string;
+  status: CleanupStatus;
+  removable: boolean;
+  reason: string;
+  codeReferences: number | null;
+  safeToDelete: boolean;
+}
+
+const cleanupLabels: Record<CleanupStatus, string> = {
+  active: "Active",
+  permanent: "Permanent",
+  stale: "Stale",
+  fully_rolled_out: "Fully rolled out",
+  unused: "Unused",
+};
+
+interface PromotionPreview {
+  flagId: string;
+  sourceEnvironment: Environment;
+  targetEnvironment: Environment;
+  targetFlagId: string | null;
+  diff: FlagConfigDiff;
+  error: string | null;
+}
+
 const envColors = {
   DEV: "bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-300",
   STAGING: "bg-yellow-100 text-yellow-800 dark:bg-yellow-900 dark:text-yellow-300",
@@ -50,6 +96,7 @@ export default function FeatureFlagsPage({
   const [flags, setFlags] = useState<FeatureFlag[]>([]);
   const [loading, setLoading] = useState(true);
   const [showCreate, setShowCreate] = useState(false);
+  const [showImport, setShowImport] = useState(false);
   const [creating, setCreating] = useState(false);
   const [expandedFlag, setExpandedFlag] = useState<string | null>(null);
   const [testUserId, setTestUserId] = useState("");
@@ -59,7 +106,14 @@ export default function FeatureFlagsPage({
     enabled: boolean;
     reason: string;
     trace: string[];
+    variant?: string;
+    value?: unknown;
   } | null>(null);
+  const [promotion, setPromotion] = useState<PromotionPreview | null>(null);
+  const [loadingPromotion, setLoadingPromotion] = useState<string | null>(null);
+  const [promoting, setPromoting] = useState(false);
+  const [cleanup, setCleanup] = useState<Record<string, CleanupEntry>>({});
+  const [removableOnly, setRemovableOnly] = useState(false);
 
   const [newFlag, setNewFlag] = useState({
     key: "",
@@ -67,10 +121,12 @@ export default function FeatureFlagsPage({
     description: "",
     environment: "DEV" as "DEV" | "STAGING" | "PROD",
     enabled: false,
+    lifetime: "TEMPORARY" as "TEMPORARY" | "PERMANENT",
   });
 
   useEffect(() => {
     fetchFlags();
+    fetchCleanupReport();
   }, []);
 
   const fetchFlags = async () => {
@@ -87,6 +143,18 @@ export default function FeatureFlagsPage({
     }
   };
 
+  const fetchCleanupReport = async () => {
+    try {
+      const response = await fetch("/api/feature-flags/cleanup-report");
+      if (!response.ok) throw new Error("Failed to fetch cleanup report");
+      const data = await response.json();
+      setCleanup(Object.fromEntries(data.flags.map((entry: CleanupEntry) => [entry.flagId, entry])));
+    } catch {
+      // The badges are a hint; the list works without them
+      setCleanup({});
+    }
+  };
+
   const handleCreateFlag = async () => {
     if (!newFlag.key || !newFlag.name) return;
 
@@ -111,6 +179,7 @@ export default function FeatureFlagsPage({
         description: "",
         environment: "DEV",
         enabled: false,
+        lifetime: "TEMPORARY",
       });
       toast.success("Feature flag created successfully");
     } catch (err) {
@@ -130,6 +199,11 @@ export default function FeatureFlagsPage({
 
       if (!response.ok) throw new Error("Failed to toggle flag");
 
+      if (response.status === 202) {
+        toast.success("Change submitted for approval");
+        return;
+      }
+
       setFlags(
         flags.map((f) =>
           f.id === flag.id ? { ...f, enabled: !f.enabled } : f
@@ -183,13 +257,63 @@ export default function FeatureFlagsPage({
     }
   };
 
-  const formatRuleCondition = (rule: Rule): string => {
+  const handlePreviewPromotion = async (flag: FeatureFlag) => {
+    setLoadingPromotion(flag.id);
+    try {
+      const response = await fetch(`/api/feature-flags/${flag.id}/promote`);
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error || "Failed to preview promotion");
+      setPromotion({ flagId: flag.id, ...data });
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : "Failed to preview promotion");
+    } finally {
+      setLoadingPromotion(null);
+    }
+  };
+
+  const handlePromote = async () => {
+    if (!promotion) return;
+
+    setPromoting(true);
+    try {
+      const response = await fetch(`/api/feature-flags/${promotion.flagId}/promote`, {
+        method: "POST",
+      });
+
+      if (!response.ok) {
+        const data = await response.json();
+        throw new Error(data.error || "Failed to promote flag");
+      }
+
+      if (response.status === 202) {
+        toast.success("Promotion submitted for approval");
+        setPromotion(null);
+        return;
+      }
+
+      await fetchFlags();
+      toast.success(`Flag promoted to ${promotion.targetEnvironment}`);
+      setPromotion(null);
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : "Failed to promote flag");
+    } finally {
+      setPromoting(false);
+    }
+  };
+
+  const formatRuleCondition = (rule: { type: string; condition: Record<string, unknown> }): string => {
     const cond = rule.condition;
     switch (rule.type) {
       case "ALLOWLIST":
         return `Users: ${(cond.userIds as string[])?.join(", ") || "none"}`;
       case "PERCENT_ROLLOUT":
         return `${cond.percentage}% rollout`;
+      case "ATTRIBUTE":
+        return `${cond.attribute} ${cond.operator} ${(cond.values as unknown[])?.join(", ") || ""}`;
+      case "SEGMENT":
+        return `Segment: ${cond.segmentId}`;
+      case "PREREQUISITE":
+        return `Requires ${cond.flagKey} ${cond.enabled ? "on" : "off"}${cond.variant ? ` serving ${cond.variant}` : ""}`;
       case "AND":
         return `AND (${(cond.rules as unknown[])?.length || 0} sub-rules)`;
       case "OR":
@@ -199,6 +323,20 @@ export default function FeatureFlagsPage({
     }
   };
 
+  // One row per key with its per-environment flags side by side
+  const allFlagGroups = Object.values(
+    flags.reduce<Record<string, Partial<Record<Environment, FeatureFlag>>>>((groups, flag) => {
+      groups[flag.key] = { ...groups[flag.key], [flag.environment]: flag };
+      return groups;
+    }, {})
+  );
+  const isRemovable = (flag?: FeatureFlag) => Boolean(flag && cleanup[flag.id]?.removable);
+  const removableCount = flags.filter(isRemovable).length;
+  const flagGroups = removableOnly
+    ? allFlagGroups.filter((group) => ENVIRONMENTS.some((env) => isRemovable(group[env])))
+    : allFlagGroups;
+  const expanded = flags.find((f) => f.id === expandedFlag);
+
   if (loading) {
     return (
       <div className="flex items-center justify-center py-12">
@@ -211,15 +349,56 @@ export default function FeatureFlagsPage({
     <div>
       <div className="flex justify-between items-center mb-6">
         <h1 className="text-2xl font-bold text-white">Feature Flags</h1>
-        <button
-          onClick={() => setShowCreate(!showCreate)}
-          className="px-4 py-2 bg-blue-600 hover:bg-blue-700 text-white rounded-lg flex items-center gap-2"
-        >
-          <FontAwesomeIcon icon={faPlus} />
-          New Flag
-        </button>
+        <div className="flex items-center gap-2">
+          <Link
+            href={`/t/${tenantSlug}/feature-flags/segments`}
+            className="px-4 py-2 bg-gray-600 hover:bg-gray-500 text-white rounded-lg flex items-center gap-2"
+          >
+            <FontAwesomeIcon icon={faUsers} />
+            Segments
+          </Link>
+          <Link
+            href={`/t/${tenantSlug}/feature-flags/layers`}
+            className="px-4 py-2 bg-gray-600 hover:bg-gray-500 text-white rounded-lg flex items-center gap-2"
+          >
+            <FontAwesomeIcon icon={faLayerGroup} />
+            Layers
+          </Link>
+          <button
+            onClick={() => (window.location.href = "/api/feature-flags/export?format=yaml")}
+            className="px-4 py-2 bg-gray-600 hover:bg-gray-500 text-white rounded-lg flex items-center gap-2"
+            title="Download every flag as YAML (use ?format=json for JSON)"
+          >
+            <FontAwesomeIcon icon={faFileExport} />
+            Export
+          </button>
+          <button
+            onClick={() => setShowImport(!showImport)}
+            className="px-4 py-2 bg-gray-600 hover:bg-gray-500 text-white rounded-lg flex items-center gap-2"
+          >
+            <FontAwesomeIcon icon={faFileImport} />
+            Import
+          </button>
+          <button
+            onClick={() => setShowCreate(!showCreate)}
+            className="px-4 py-2 bg-blue-600 hover:bg-blue-700 text-white rounded-lg flex items-center gap-2"
+          >
+            <FontAwesomeIcon icon={faPlus} />
+            New Flag
+          </button>
+        </div>
       </div>
 
+      {showImport && (
+        <FlagImportPanel
+          onClose={() => setShowImport(false)}
+          onImported={() => {
+            fetchFlags();
+            fetchCleanupReport();
+          }}
+        />
+      )}
+
       {/* Create Flag Form */}
       {showCreate && (
         <div className="mb-6 p-6 bg-gray-800 rounded-lg border border-gray-700">
@@ -271,6 +450,19 @@ export default function FeatureFlagsPage({
                 className="w-full px-3 py-2 bg-gray-700 border border-gray-600 rounded text-white"
               />
             </div>
+            <div>
+              <label className="block text-sm text-gray-400 mb-1">Lifetime</label>
+              <select
+                value={newFlag.lifetime}
+                onChange={(e) =>
+                  setNewFlag({ ...newFlag, lifetime: e.target.value as "TEMPORARY" | "PERMANENT" })
+                }
+                className="w-full px-3 py-2 bg-gray-700 border border-gray-600 rounded text-white"
+              >
+                <option value="TEMPORARY">Temporary (release, experiment)</option>
+                <option value="PERMANENT">Permanent (kill switch, config)</option>
+              </select>
+            </div>
           </div>
           <div className="flex justify-end gap-2">
             <button
@@ -334,6 +526,11 @@ export default function FeatureFlagsPage({
               >
                 {testResult.enabled ? "ENABLED" : "DISABLED"}
               </span>
+              {testResult.variant && (
+                <span className="px-2 py-1 rounded text-sm font-mono bg-purple-100 text-purple-800 dark:bg-purple-900 dark:text-purple-300">
+                  {testResult.variant} = {JSON.stringify(testResult.value)}
+                </span>
+              )}
               <span className="text-gray-500 dark:text-gray-400">{testResult.reason}</span>
             </div>
             <details className="text-sm">
@@ -346,6 +543,26 @@ export default function FeatureFlagsPage({
         )}
       </div>
 
+      {/* Cleanup filter */}
+      {flags.length > 0 && (
+        <div className="mb-3 flex items-center gap-3">
+          <button
+            onClick={() => setRemovableOnly(!removableOnly)}
+            className={`px-3 py-1 rounded text-sm flex items-center gap-2 ${
+              removableOnly
+                ? "bg-amber-500 text-white"
+                : "bg-gray-100 text-gray-700 hover:bg-gray-200 dark:bg-gray-700 dark:text-gray-300 dark:hover:bg-gray-600"
+            }`}
+          >
+            <FontAwesomeIcon icon={faBroom} />
+            {removableOnly ? "Showing removable flags" : "Show removable flags"}
+          </button>
+          <span className="text-sm text-gray-500 dark:text-gray-400">
+            {removableCount} of {flags.length} flags ready for cleanup
+          </span>
+        </div>
+      )}
+
       {/* Flags List */}
       {flags.length === 0 ? (
         <div className="text-center py-12 text-gray-500 dark:text-gray-500">
@@ -354,104 +571,212 @@ export default function FeatureFlagsPage({
         </div>
       ) : (
         <div className="space-y-3">
-          {flags.map((flag) => (
-            <div
-              key={flag.id}
-              className="bg-white dark:bg-gray-800 rounded-lg border border-gray-200 dark:border-gray-700 overflow-hidden"
-            >
-              <div className="p-4 flex items-center gap-4">
-                <button
-                  onClick={() => setExpandedFlag(expandedFlag === flag.id ? null : flag.id)}
-                  className="text-gray-500 dark:text-gray-400 hover:text-gray-900 dark:hover:text-white"
-                >
-                  <FontAwesomeIcon
-                    icon={expandedFlag === flag.id ? faChevronDown : faChevronRight}
-                  />
-                </button>
-
-                <button
-                  onClick={() => handleToggleFlag(flag)}
-                  className={`text-2xl ${flag.enabled ? "text-green-500" : "text-gray-400 dark:text-gray-500"}`}
-                >
-                  <FontAwesomeIcon icon={flag.enabled ? faToggleOn : faToggleOff} />
-                </button>
-
-                <div className="flex-1">
-                  <div className="flex items-center gap-2">
-                    <span className="font-mono text-gray-900 dark:text-white">{flag.key}</span>
-                    <span className={`px-2 py-0.5 rounded text-xs ${envColors[flag.environment]}`}>
-                      {flag.environment}
-                    </span>
-                  </div>
-                  <p className="text-sm text-gray-500 dark:text-gray-400">{flag.name}</p>
-                </div>
-
-                <div className="flex items-center gap-2">
-                  <span className="text-sm text-gray-500">{(flag.rules || []).length} rules</span>
-                  <button
-                    onClick={() => handleTestFlag(flag.id)}
-                    className="px-3 py-1 bg-purple-600 hover:bg-purple-700 text-white rounded text-sm"
-                    title="Test this flag"
-                  >
-                    <FontAwesomeIcon icon={faFlask} />
-                  </button>
-                  <button
-                    onClick={() => handleDeleteFlag(flag.id)}
-                    className="px-3 py-1 bg-red-600 hover:bg-red-700 text-white rounded text-sm"
-                  >
-                    <FontAwesomeIcon icon={faTrash} />
-                  </button>
+          {flagGroups.map((group) => {
+            const first = ENVIRONMENTS.map((env) => group[env]).find(Boolean)!;
+            return (
+              <div
+                key={first.key}
+                className="bg-white dark:bg-gray-800 rounded-lg border border-gray-200 dark:border-gray-700 overflow-hidden"
+              >
+                <div className="px-4 pt-4">
+                  <span className="font-mono text-gray-900 dark:text-white">{first.key}</span>
+                  <p className="text-sm text-gray-500 dark:text-gray-400">{first.name}</p>
                 </div>
-              </div>
 
-              {expandedFlag === flag.id && (
-                <div className="border-t border-gray-200 dark:border-gray-700 p-4 bg-gray-50 dark:bg-gray-900">
-                  {flag.description && (
-                    <p className="text-gray-500 dark:text-gray-400 mb-4">{flag.description}</p>
-                  )}
-
-                  <h3 className="text-sm font-semibold text-gray-700 dark:text-gray-300 mb-2">Rules</h3>
-                  {!flag.rules || flag.rules.length === 0 ? (
-                    <p className="text-gray-500 text-sm">
-                      No rules defined. Flag applies to all users when enabled.
-                    </p>
-                  ) : (
-                    <div className="space-y-2">
-                      {flag.rules.map((rule, idx) => (
+                <div className="p-4 grid grid-cols-1 md:grid-cols-3 gap-3">
+                  {ENVIRONMENTS.map((env) => {
+                    const flag = group[env];
+                    if (!flag) {
+                      return (
                         <div
-                          key={rule.id}
-                          className="flex items-center gap-3 p-2 bg-white dark:bg-gray-800 rounded border border-gray-200 dark:border-gray-700"
+                          key={env}
+                          className="p-3 rounded border border-dashed border-gray-300 dark:border-gray-600 flex items-center gap-2"
                         >
-                          <span className="text-gray-500 text-sm">{idx + 1}.</span>
-                          <span
-                            className={`px-2 py-0.5 rounded text-xs font-medium ${
-                              rule.type === "ALLOWLIST"
-                                ? "bg-blue-100 text-blue-800 dark:bg-blue-900 dark:text-blue-300"
-                                : rule.type === "PERCENT_ROLLOUT"
-                                ? "bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-300"
-                                : "bg-purple-100 text-purple-800 dark:bg-purple-900 dark:text-purple-300"
-                            }`}
+                          <span className={`px-2 py-0.5 rounded text-xs ${envColors[env]}`}>{env}</span>
+                          <span className="text-sm text-gray-400 dark:text-gray-500">Not configured</span>
+                        </div>
+                      );
+                    }
+
+                    const target = PROMOTION_TARGETS[flag.environment];
+                    return (
+                      <div
+                        key={env}
+                        className={`p-3 rounded border ${
+                          expandedFlag === flag.id
+                            ? "border-blue-300 dark:border-blue-500/40"
+                            : "border-gray-200 dark:border-gray-700"
+                        }`}
+                      >
+                        <div className="flex items-center gap-2">
+                          <button
+                            onClick={() => setExpandedFlag(expandedFlag === flag.id ? null : flag.id)}
+                            className="text-gray-500 dark:text-gray-400 hover:text-gray-900 dark:hover:text-white"
+                          >
+                            <FontAwesomeIcon
+                              icon={expandedFlag === flag.id ? faChevronDown : faChevronRight}
+                            />
+                          </button>
+
+                          <button
+                            onClick={() => handleToggleFlag(flag)}
+                            className={`text-2xl ${flag.enabled ? "text-green-500" : "text-gray-400 dark:text-gray-500"}`}
                           >
-                            {rule.type}
+                            <FontAwesomeIcon icon={flag.enabled ? faToggleOn : faToggleOff} />
+                          </button>
+
+                          <span className={`px-2 py-0.5 rounded text-xs ${envColors[flag.environment]}`}>
+                            {flag.environment}
                           </span>
-                          <span className="text-gray-700 dark:text-gray-300 text-sm">
-                            {formatRuleCondition(rule)}
+
+                          <div className="flex-1" />
+
+                          <button
+                            onClick={() => handleTestFlag(flag.id)}
+                            className="px-3 py-1 bg-purple-600 hover:bg-purple-700 text-white rounded text-sm"
+                            title="Test this flag"
+                          >
+                            <FontAwesomeIcon icon={faFlask} />
+                          </button>
+                          <button
+                            onClick={() => handleDeleteFlag(flag.id)}
+                            className="px-3 py-1 bg-red-600 hover:bg-red-700 text-white rounded text-sm"
+                          >
+                            <FontAwesomeIcon icon={faTrash} />
+                          </button>
+                        </div>
+
+                        <div className="flex items-center gap-2 mt-2">
+                          <span className="text-sm text-gray-500">{(flag.rules || []).length} rules</span>
+                          <span
+                            className="px-2 py-0.5 rounded text-xs bg-blue-100 text-blue-800 dark:bg-blue-900 dark:text-blue-300"
+                            title="Share of users served by the default rule when no targeting rule matches"
+                          >
+                            {flag.enabled ? `${flag.rolloutPercentage}% default` : "Off"}
                           </span>
+                          {cleanup[flag.id]?.removable && (
+                            <span
+                              className="px-2 py-0.5 rounded text-xs bg-amber-100 text-amber-800 dark:bg-amber-900 dark:text-amber-300 flex items-center gap-1"
+                              title={cleanup[flag.id].reason}
+                            >
+                              <FontAwesomeIcon icon={faBroom} />
+                              {cleanupLabels[cleanup[flag.id].status]}
+                            </span>
+                          )}
+                          {cleanup[flag.id]?.safeToDelete && (
+                            <span
+                              className="px-2 py-0.5 rounded text-xs bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-300"
+                              title="No references found in any scanned repository"
+                            >
+                              No code references, safe to delete
+                            </span>
+                          )}
+                          {target && (
+                            <button
+                              onClick={() => handlePreviewPromotion(flag)}
+                              disabled={loadingPromotion === flag.id}
+                              className="ml-auto px-2 py-0.5 bg-gray-600 hover:bg-gray-500 disabled:bg-gray-400 text-white rounded text-xs flex items-center gap-1"
+                              title={`Copy enabled state, rollout and rules to ${target}`}
+                            >
+                              {loadingPromotion === flag.id ? (
+                                <FontAwesomeIcon icon={faSpinner} className="animate-spin" />
+                              ) : (
+                                <FontAwesomeIcon icon={faArrowRight} />
+                              )}
+                              Promote to {target}
+                            </button>
+                          )}
                         </div>
-                      ))}
-                    </div>
-                  )}
-
-                  <Link
-                    href={`/t/${tenantSlug}/feature-flags/${flag.id}`}
-                    className="inline-block mt-4 text-blue-600 dark:text-blue-400 hover:text-blue-700 dark:hover:text-blue-300 text-sm"
-                  >
-                    Edit flag & rules →
-                  </Link>
+                      </div>
+                    );
+                  })}
                 </div>
-              )}
-            </div>
-          ))}
+
+                {promotion && group[promotion.sourceEnvironment]?.id === promotion.flagId && (
+                  <div className="border-t border-gray-200 dark:border-gray-700 p-4 bg-gray-50 dark:bg-gray-900">
+                    <h3 className="text-sm font-semibold text-gray-700 dark:text-gray-300 mb-3">
+                      Promote {promotion.sourceEnvironment} → {promotion.targetEnvironment}
+                      {!promotion.targetFlagId && ` (creates the ${promotion.targetEnvironment} flag)`}
+                    </h3>
+                    <FlagDiff diff={promotion.diff} formatRule={formatRuleCondition} />
+                    {promotion.error && (
+                      <p className="mt-3 text-sm text-red-600 dark:text-red-400">{promotion.error}</p>
+                    )}
+                    <div className="flex justify-end gap-2 mt-4">
+                      <button
+                        onClick={() => setPromotion(null)}
+                        className="px-4 py-2 bg-gray-600 hover:bg-gray-500 text-white rounded"
+                      >
+                        Cancel
+                      </button>
+                      <button
+                        onClick={handlePromote}
+                        disabled={promoting || !!promotion.error}
+                        className="px-4 py-2 bg-blue-600 hover:bg-blue-700 disabled:bg-gray-600 text-white rounded flex items-center gap-2"
+                      >
+                        {promoting && <FontAwesomeIcon icon={faSpinner} className="animate-spin" />}
+                        Promote
+                      </button>
+                    </div>
+                  </div>
+                )}
+
+                {expanded && group[expanded.environment]?.id === expanded.id && (
+                  <div className="border-t border-gray-200 dark:border-gray-700 p-4 bg-gray-50 dark:bg-gray-900">
+                    {expanded.description && (
+                      <p className="text-gray-500 dark:text-gray-400 mb-4">{expanded.description}</p>
+                    )}
+
+                    <h3 className="text-sm font-semibold text-gray-700 dark:text-gray-300 mb-2">
+                      Rules ({expanded.environment})
+                    </h3>
+                    {!expanded.rules || expanded.rules.length === 0 ? (
+                      <p className="text-gray-500 text-sm">
+                        No rules defined. Flag applies to {expanded.rolloutPercentage}% of users when enabled.
+                      </p>
+                    ) : (
+                      <div className="space-y-2">
+                        {expanded.rules.map((rule, idx) => (
+                          <div
+                            key={rule.id}
+                            className="flex items-center gap-3 p-2 bg-white dark:bg-gray-800 rounded border border-gray-200 dark:border-gray-700"
+                          >
+                            <span className="text-gray-500 text-sm">{idx + 1}.</span>
+                            <span
+                              className={`px-2 py-0.5 rounded text-xs font-medium ${
+                                rule.type === "ALLOWLIST"
+                                  ? "bg-blue-100 text-blue-800 dark:bg-blue-900 dark:text-blue-300"
+                                  : rule.type === "PERCENT_ROLLOUT"
+                                  ? "bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-300"
+                                  : rule.type === "ATTRIBUTE" || rule.type === "SEGMENT" || rule.type === "PREREQUISITE"
+                                  ? "bg-yellow-100 text-yellow-800 dark:bg-yellow-900 dark:text-yellow-300"
+                                  : "bg-purple-100 text-purple-800 dark:bg-purple-900 dark:text-purple-300"
+                              }`}
+                            >
+                              {rule.type}
+                            </span>
+                            <span className="text-gray-700 dark:text-gray-300 text-sm">
+                              {formatRuleCondition(rule)}
+                            </span>
+                          </div>
+                        ))}
+                        <p className="text-gray-500 text-sm">
+                          Otherwise: default rule serves {expanded.rolloutPercentage}% of users.
+                        </p>
+                      </div>
+                    )}
+
+                    <Link
+                      href={`/t/${tenantSlug}/feature-flags/${expanded.id}`}
+                      className="inline-block mt-4 text-blue-600 dark:text-blue-400 hover:text-blue-700 dark:hover:text-blue-300 text-sm"
+                    >
+                      Edit flag & rules →
+                    </Link>
+                  </div>
+                )}
+              </div>
+            );
+          })}
         </div>
       )}
     </div>
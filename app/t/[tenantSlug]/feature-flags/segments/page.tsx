@@ -0,0 +1,365 @@
+"use client";
+
+import { useState, useEffect, use } from "react";
+import Link from "next/link";
+import { FontAwesomeIcon } from "@fortawesome/react-fontawesome";
+import {
+  faUsers,
+  faPlus,
+  faTrash,
+  faPen,
+  faSpinner,
+  faXmark,
+} from "@fortawesome/free-solid-svg-icons";
+import { useToast } from "@/app/components/ToastProvider";
+
+interface SegmentCondition {
+  type: "ATTRIBUTE";
+  attribute: string;
+  operator: string;
+  values: (string | number | boolean)[];
+}
+
+interface Segment {
+  id: string;
+  name: string;
+  description: string | null;
+  userIds: string[];
+  conditions: SegmentCondition[];
+  updatedAt: string;
+}
+
+const OPERATORS = [
+  "EQUALS",
+  "IN",
+  "NOT_IN",
+  "CONTAINS",
+  "STARTS_WITH",
+  "REGEX",
+  "GT",
+  "GTE",
+  "LT",
+  "LTE",
+  "SEMVER_EQ",
+  "SEMVER_GT",
+  "SEMVER_GTE",
+  "SEMVER_LT",
+  "SEMVER_LTE",
+  "BEFORE",
+  "AFTER",
+];
+
+const emptyForm = {
+  name: "",
+  description: "",
+  userIds: "",
+  conditions: [] as { attribute: string; operator: string; values: string }[],
+};
+
+export default function SegmentsPage({
+  params,
+}: {
+  params: Promise<{ tenantSlug: string }>;
+}) {
+  const { tenantSlug } = use(params);
+  const toast = useToast();
+  const [segments, setSegments] = useState<Segment[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [showForm, setShowForm] = useState(false);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [form, setForm] = useState(emptyForm);
+
+  useEffect(() => {
+    fetchSegments();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, []);
+
+  const fetchSegments = async () => {
+    try {
+      setLoading(true);
+      const response = await fetch("/api/segments");
+      if (!response.ok) throw new Error("Failed to fetch segments");
+      const data = await response.json();
+      setSegments(data.segments);
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : "Failed to fetch segments");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const openCreate = () => {
+    setEditingId(null);
+    setForm(emptyForm);
+    setShowForm(true);
+  };
+
+  const openEdit = (segment: Segment) => {
+    setEditingId(segment.id);
+    setForm({
+      name: segment.name,
+      description: segment.description || "",
+      userIds: segment.userIds.join(", "),
+      conditions: segment.conditions.map((c) => ({
+        attribute: c.attribute,
+        operator: c.operator,
+        values: c.values.join(", "),
+      })),
+    });
+    setShowForm(true);
+  };
+
+  const handleSave = async () => {
+    if (!form.name.trim()) return;
+
+    const payload = {
+      name: form.name.trim(),
+      description: form.description || undefined,
+      userIds: form.userIds.split(",").map((u) => u.trim()).filter(Boolean),
+      conditions: form.conditions
+        .filter((c) => c.attribute.trim())
+        .map((c) => ({
+          type: "ATTRIBUTE",
+          attribute: c.attribute.trim(),
+          operator: c.operator,
+          values: c.values.split(",").map((v) => v.trim()).filter(Boolean),
+        })),
+    };
+
+    setSaving(true);
+    try {
+      const response = await fetch(editingId ? `/api/segments/${editingId}` : "/api/segments", {
+        method: editingId ? "PATCH" : "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(payload),
+      });
+
+      if (!response.ok) {
+        const data = await response.json();
+        throw new Error(data.error || "Failed to save segment");
+      }
+
+      await fetchSegments();
+      setShowForm(false);
+      setForm(emptyForm);
+      toast.success(editingId ? "Segment updated successfully" : "Segment created successfully");
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : "Failed to save segment");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async (segmentId: string) => {
+    if (!confirm("Are you sure you want to delete this segment?")) return;
+
+    try {
+      const response = await fetch(`/api/segments/${segmentId}`, { method: "DELETE" });
+      if (!response.ok) {
+        const data = await response.json();
+        throw new Error(data.error || "Failed to delete segment");
+      }
+
+      setSegments(segments.filter((s) => s.id !== segmentId));
+      toast.success("Segment deleted successfully");
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : "Failed to delete segment");
+    }
+  };
+
+  const updateCondition = (index: number, field: "attribute" | "operator" | "values", value: string) => {
+    setForm({
+      ...form,
+      conditions: form.conditions.map((c, i) => (i === index ? { ...c, [field]: value } : c)),
+    });
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center py-12">
+        <FontAwesomeIcon icon={faSpinner} className="animate-spin text-2xl text-gray-400" />
+      </div>
+    );
+  }
+
+  return (
+    <div>
+      <Link
+        href={`/t/${tenantSlug}/feature-flags`}
+        className="text-blue-600 dark:text-blue-400 hover:text-blue-700 dark:hover:text-blue-300 mb-4 inline-block"
+      >
+        ← Back to Feature Flags
+      </Link>
+
+      <div className="flex justify-between items-center mb-6">
+        <h1 className="text-2xl font-bold text-white">Segments</h1>
+        <button
+          onClick={openCreate}
+          className="px-4 py-2 bg-blue-600 hover:bg-blue-700 text-white rounded-lg flex items-center gap-2"
+        >
+          <FontAwesomeIcon icon={faPlus} />
+          New Segment
+        </button>
+      </div>
+
+      {showForm && (
+        <div className="mb-6 p-6 bg-gray-800 rounded-lg border border-gray-700">
+          <h2 className="text-lg font-semibold text-white mb-4">
+            {editingId ? "Edit Segment" : "Create New Segment"}
+          </h2>
+          <div className="grid grid-cols-2 gap-4 mb-4">
+            <div>
+              <label className="block text-sm text-gray-400 mb-1">Name</label>
+              <input
+                type="text"
+                value={form.name}
+                onChange={(e) => setForm({ ...form, name: e.target.value })}
+                placeholder="Beta testers"
+                className="w-full px-3 py-2 bg-gray-700 border border-gray-600 rounded text-white"
+              />
+            </div>
+            <div>
+              <label className="block text-sm text-gray-400 mb-1">Description</label>
+              <input
+                type="text"
+                value={form.description}
+                onChange={(e) => setForm({ ...form, description: e.target.value })}
+                placeholder="Optional description"
+                className="w-full px-3 py-2 bg-gray-700 border border-gray-600 rounded text-white"
+              />
+            </div>
+            <div className="col-span-2">
+              <label className="block text-sm text-gray-400 mb-1">Members (user IDs, comma-separated)</label>
+              <input
+                type="text"
+                value={form.userIds}
+                onChange={(e) => setForm({ ...form, userIds: e.target.value })}
+                placeholder="user1, user2"
+                className="w-full px-3 py-2 bg-gray-700 border border-gray-600 rounded text-white"
+              />
+            </div>
+          </div>
+
+          <div className="mb-4">
+            <div className="flex justify-between items-center mb-2">
+              <label className="block text-sm text-gray-400">Attribute conditions (all must match)</label>
+              <button
+                onClick={() =>
+                  setForm({
+                    ...form,
+                    conditions: [...form.conditions, { attribute: "", operator: "EQUALS", values: "" }],
+                  })
+                }
+                className="text-sm text-blue-400 hover:text-blue-300"
+              >
+                + Add condition
+              </button>
+            </div>
+            {form.conditions.map((condition, index) => (
+              <div key={index} className="flex gap-2 mb-2">
+                <input
+                  type="text"
+                  value={condition.attribute}
+                  onChange={(e) => updateCondition(index, "attribute", e.target.value)}
+                  placeholder="plan"
+                  className="flex-1 px-3 py-2 bg-gray-700 border border-gray-600 rounded text-white font-mono text-sm"
+                />
+                <select
+                  value={condition.operator}
+                  onChange={(e) => updateCondition(index, "operator", e.target.value)}
+                  className="px-3 py-2 bg-gray-700 border border-gray-600 rounded text-white text-sm"
+                >
+                  {OPERATORS.map((op) => (
+                    <option key={op} value={op}>{op}</option>
+                  ))}
+                </select>
+                <input
+                  type="text"
+                  value={condition.values}
+                  onChange={(e) => updateCondition(index, "values", e.target.value)}
+                  placeholder="pro, enterprise"
+                  className="flex-1 px-3 py-2 bg-gray-700 border border-gray-600 rounded text-white text-sm"
+                />
+                <button
+                  onClick={() =>
+                    setForm({ ...form, conditions: form.conditions.filter((_, i) => i !== index) })
+                  }
+                  className="px-3 py-2 text-gray-400 hover:text-white"
+                >
+                  <FontAwesomeIcon icon={faXmark} />
+                </button>
+              </div>
+            ))}
+          </div>
+
+          <div className="flex justify-end gap-2">
+            <button
+              onClick={() => setShowForm(false)}
+              className="px-4 py-2 bg-gray-600 hover:bg-gray-500 text-white rounded"
+            >
+              Cancel
+            </button>
+            <button
+              onClick={handleSave}
+              disabled={saving || !form.name.trim()}
+              className="px-4 py-2 bg-blue-600 hover:bg-blue-700 disabled:bg-gray-600 text-white rounded flex items-center gap-2"
+            >
+              {saving && <FontAwesomeIcon icon={faSpinner} className="animate-spin" />}
+              {editingId ? "Save" : "Create"}
+            </button>
+          </div>
+        </div>
+      )}
+
+      {segments.length === 0 ? (
+        <div className="text-center py-12 text-gray-500 dark:text-gray-500">
+          <FontAwesomeIcon icon={faUsers} className="text-4xl mb-4" />
+          <p>No segments yet. Create one to reuse targeting across flags.</p>
+        </div>
+      ) : (
+        <div className="space-y-3">
+          {segments.map((segment) => (
+            <div
+              key={segment.id}
+              className="p-4 bg-white dark:bg-gray-800 rounded-lg border border-gray-200 dark:border-gray-700 flex items-start gap-4"
+            >
+              <div className="flex-1">
+                <p className="font-medium text-gray-900 dark:text-white">{segment.name}</p>
+                {segment.description && (
+                  <p className="text-sm text-gray-500 dark:text-gray-400">{segment.description}</p>
+                )}
+                <p className="text-sm text-gray-500 mt-1">
+                  {segment.userIds.length} member(s), {segment.conditions.length} condition(s)
+                </p>
+                {segment.conditions.length > 0 && (
+                  <ul className="mt-2 text-xs font-mono text-gray-600 dark:text-gray-300 space-y-1">
+                    {segment.conditions.map((c, i) => (
+                      <li key={i}>
+                        {c.attribute} {c.operator} [{c.values.join(", ")}]
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </div>
+              <div className="flex items-center gap-2">
+                <button
+                  onClick={() => openEdit(segment)}
+                  className="px-3 py-1 bg-gray-600 hover:bg-gray-500 text-white rounded text-sm"
+                >
+                  <FontAwesomeIcon icon={faPen} />
+                </button>
+                <button
+                  onClick={() => handleDelete(segment.id)}
+                  className="px-3 py-1 bg-red-600 hover:bg-red-700 text-white rounded text-sm"
+                >
+                  <FontAwesomeIcon icon={faTrash} />
+                </button>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -16,6 +16,7 @@ import {
   faExchangeAlt,
 } from "@fortawesome/free-solid-svg-icons";
 import { useToast } from "@/app/components/ToastProvider";
+import SlaBadges, { type SlaClock } from "@/app/components/SlaBadges";
 
 interface Attachment {
   id: string;
@@ -39,7 +40,7 @@ interface Incident {
   id: string;
   title: string;
   severity: "SEV1" | "SEV2" | "SEV3" | "SEV4";
-  status: "OPEN" | "MITIGATED" | "RESOLVED";
+  status: "OPEN" | "ACKNOWLEDGED" | "MITIGATED" | "RESOLVED";
   service: string;
   environment: "DEV" | "STAGING" | "PROD";
   tags: string[];
@@ -49,6 +50,14 @@ interface Incident {
   assignee?: { id: string; name: string; email: string } | null;
   timeline: TimelineEvent[];
   attachments?: Attachment[];
+  escalation?: {
+    status: "ACTIVE" | "ACKNOWLEDGED" | "EXHAUSTED";
+    level: number;
+    cycle: number;
+    nextEscalationAt: string | null;
+    policy: { id: string; name: string };
+  } | null;
+  sla?: SlaClock[];
 }
 
 const severityColors = {
@@ -60,16 +69,11 @@ const severityColors = {
 
 const statusColors = {
   OPEN: "bg-red-50 text-red-700 border-l-red-500 dark:bg-red-500/20 dark:text-red-300",
+  ACKNOWLEDGED: "bg-purple-50 text-purple-700 border-l-purple-500 dark:bg-purple-500/20 dark:text-purple-300",
   MITIGATED: "bg-yellow-50 text-yellow-700 border-l-yellow-500 dark:bg-yellow-500/20 dark:text-yellow-300",
   RESOLVED: "bg-green-50 text-green-700 border-l-green-500 dark:bg-green-500/20 dark:text-green-300",
 };
 
-const VALID_TRANSITIONS: Record<string, string[]> = {
-  OPEN: ["MITIGATED", "RESOLVED"],
-  MITIGATED: ["RESOLVED"],
-  RESOLVED: [], // Cannot transition from resolved
-};
-
 export default function IncidentDetailPage({
   params,
 }: {
@@ -88,6 +92,8 @@ export default function IncidentDetailPage({
   const [addingNote, setAddingNote] = useState(false);
   const [addingAction, setAddingAction] = useState(false);
   const [isConnected, setIsConnected] = useState(false);
+  // Allowed status transitions from the tenant's workflow
+  const [workflow, setWorkflow] = useState<Record<string, string[]>>({});
 
   // Initial fetch
   useEffect(() => {
@@ -110,6 +116,23 @@ export default function IncidentDetailPage({
     fetchIncident();
   }, [id, toast]);
 
+  useEffect(() => {
+    const fetchWorkflow = async () => {
+      try {
+        const response = await fetch("/api/incident-workflow");
+        if (!response.ok) {
+          throw new Error("Failed to fetch incident workflow");
+        }
+        const data = await response.json();
+        setWorkflow(data.workflow);
+      } catch (err) {
+        toast.error(err instanceof Error ? err.message : "Failed to fetch incident workflow");
+      }
+    };
+
+    fetchWorkflow();
+  }, [toast]);
+
   // SSE for realtime updates
   useEffect(() => {
     if (!incident) return;
@@ -186,7 +209,7 @@ export default function IncidentDetailPage({
       // Optimistic update - batch state changes
       const optimisticUpdate = {
         ...incident,
-        status: newStatus as "OPEN" | "MITIGATED" | "RESOLVED",
+        status: newStatus as "OPEN" | "ACKNOWLEDGED" | "MITIGATED" | "RESOLVED",
         updatedAt: new Date().toISOString(),
       };
       setIncident(optimisticUpdate);
@@ -211,7 +234,13 @@ export default function IncidentDetailPage({
 
       // Get the server response - batch final updates
       const updated = await response.json();
-      setIncident(updated);
+      setIncident({ ...previousIncident, ...updated });
+
+      // Refetch for the timeline and SLA clocks, which the PATCH response doesn't include
+      const refreshResponse = await fetch(`/api/incidents/${id}`);
+      if (refreshResponse.ok) {
+        setIncident(await refreshResponse.json());
+      }
       setTransitionMessage("");
       setUpdating(false);
       toast.success("Status updated successfully");
@@ -387,6 +416,7 @@ export default function IncidentDetailPage({
               <span
                 className={`px-4 py-2 rounded-full font-medium border ${
                   incident.status === 'OPEN' ? 'bg-red-100 text-red-800 border-red-200 dark:bg-red-500/20 dark:text-red-300 dark:border-red-500/30' :
+                  incident.status === 'ACKNOWLEDGED' ? 'bg-purple-100 text-purple-800 border-purple-200 dark:bg-purple-500/20 dark:text-purple-300 dark:border-purple-500/30' :
                   incident.status === 'MITIGATED' ? 'bg-yellow-100 text-yellow-800 border-yellow-200 dark:bg-yellow-500/20 dark:text-yellow-300 dark:border-yellow-500/30' :
                   'bg-green-100 text-green-800 border-green-200 dark:bg-green-500/20 dark:text-green-300 dark:border-green-500/30'
                 }`}
@@ -415,8 +445,28 @@ export default function IncidentDetailPage({
                 <p className="text-gray-900 dark:text-white">{incident.assignee.name}</p>
               </div>
             )}
+            {incident.escalation && (
+              <div>
+                <p className="text-gray-500 dark:text-gray-400 font-medium">Escalation</p>
+                <p className="text-gray-900 dark:text-white">
+                  {incident.escalation.policy.name}: level {incident.escalation.level + 1}
+                  {incident.escalation.status === "ACTIVE" && incident.escalation.nextEscalationAt
+                    ? `, escalates at ${new Date(incident.escalation.nextEscalationAt).toLocaleTimeString()}`
+                    : incident.escalation.status === "EXHAUSTED"
+                    ? ", exhausted"
+                    : ", acknowledged"}
+                </p>
+              </div>
+            )}
           </div>
 
+          {incident.sla && incident.sla.length > 0 && (
+            <div className="mt-6">
+              <p className="text-sm text-gray-500 dark:text-gray-400 font-medium mb-2">SLA</p>
+              <SlaBadges clocks={incident.sla} all />
+            </div>
+          )}
+
           {incident.tags.length > 0 && (
             <div className="mt-6 flex flex-wrap gap-2">
               {incident.tags.map((tag) => (
@@ -432,7 +482,7 @@ export default function IncidentDetailPage({
         </div>
 
         {/* Status Transitions */}
-        {VALID_TRANSITIONS[incident.status]?.length > 0 && (
+        {workflow[incident.status]?.length > 0 && (
           <div className="bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 rounded-lg shadow-lg p-8 mb-8">
             <h2 className="text-xl font-bold text-gray-900 dark:text-white mb-4">
               Update Status
@@ -445,7 +495,7 @@ export default function IncidentDetailPage({
               rows={3}
             />
             <div className="flex gap-3">
-              {VALID_TRANSITIONS[incident.status]?.map((status) => (
+              {workflow[incident.status]?.map((status) => (
                 <button
                   key={status}
                   onClick={() => handleStatusTransition(status)}
@@ -6,18 +6,20 @@ import { useSearchParams } from "next/navigation";
 import { FontAwesomeIcon } from "@fortawesome/react-fontawesome";
 import { faCheck } from "@fortawesome/free-solid-svg-icons";
 import { useToast } from "@/app/components/ToastProvider";
+import SlaBadges, { type SlaClock } from "@/app/components/SlaBadges";
 
 interface Incident {
   id: string;
   title: string;
   severity: "SEV1" | "SEV2" | "SEV3" | "SEV4";
-  status: "OPEN" | "MITIGATED" | "RESOLVED";
+  status: "OPEN" | "ACKNOWLEDGED" | "MITIGATED" | "RESOLVED";
   service: string;
   environment: "DEV" | "STAGING" | "PROD";
   tags: string[];
   createdAt: string;
   createdBy: { id: string; name: string; email: string };
   assignee?: { id: string; name: string; email: string } | null;
+  sla?: SlaClock[];
 }
 
 interface SavedView {
@@ -47,6 +49,7 @@ const severityColors = {
 
 const statusColors = {
   OPEN: "bg-red-100 text-red-800 border-red-200 dark:bg-red-500/20 dark:text-red-300 dark:border-red-500/30",
+  ACKNOWLEDGED: "bg-purple-100 text-purple-800 border-purple-200 dark:bg-purple-500/20 dark:text-purple-300 dark:border-purple-500/30",
   MITIGATED: "bg-yellow-100 text-yellow-800 border-yellow-200 dark:bg-yellow-500/20 dark:text-yellow-300 dark:border-yellow-500/30",
   RESOLVED: "bg-green-100 text-green-800 border-green-200 dark:bg-green-500/20 dark:text-green-300 dark:border-green-500/30",
 };
@@ -275,6 +278,11 @@ export default function IncidentsPage({
         throw new Error(errorData.error || "Failed to perform bulk action");
       }
 
+      const result: {
+        updatedCount: number;
+        rejected: { incidentId: string; error: string }[];
+      } = await response.json();
+
       // Refresh incidents
       const refreshResponse = await fetch(`/api/incidents?${new URLSearchParams(
         Object.entries(filters).filter(([, v]) => v)
@@ -288,7 +296,16 @@ export default function IncidentsPage({
       setBulkActionType("");
       setBulkActionValue("");
       setBulkActionMessage("");
-      toast.success("Bulk action completed successfully");
+      if (result.rejected.length === 0) {
+        toast.success("Bulk action completed successfully");
+      } else {
+        toast.info(`Updated ${result.updatedCount} incident(s), ${result.rejected.length} rejected`);
+        // Report each rejected incident by title
+        for (const { incidentId, error } of result.rejected) {
+          const title = incidents.find((i) => i.id === incidentId)?.title ?? incidentId;
+          toast.error(`${title}: ${error}`);
+        }
+      }
     } catch (err) {
       toast.error(
         err instanceof Error ? err.message : "Failed to perform bulk action"
@@ -333,6 +350,7 @@ export default function IncidentsPage({
             >
               <option value="">All Statuses</option>
               <option value="OPEN">Open</option>
+              <option value="ACKNOWLEDGED">Acknowledged</option>
               <option value="MITIGATED">Mitigated</option>
               <option value="RESOLVED">Resolved</option>
             </select>
@@ -494,6 +512,7 @@ export default function IncidentsPage({
                     >
                       <option value="">Select status...</option>
                       <option value="OPEN">Open</option>
+                      <option value="ACKNOWLEDGED">Acknowledged</option>
                       <option value="MITIGATED">Mitigated</option>
                       <option value="RESOLVED">Resolved</option>
                     </select>
@@ -626,6 +645,12 @@ export default function IncidentsPage({
                     </div>
                   </div>
 
+                  {incident.sla && incident.sla.length > 0 && (
+                    <div className="mt-4">
+                      <SlaBadges clocks={incident.sla} />
+                    </div>
+                  )}
+
                   {incident.tags.length > 0 && (
                     <div className="mt-4 flex flex-wrap gap-2">
                       {incident.tags.map((tag) => (
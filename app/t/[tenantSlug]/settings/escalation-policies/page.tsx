@@ -0,0 +1,370 @@
+"use client";
+
+import { useState, useEffect, use } from "react";
+import Link from "next/link";
+import { FontAwesomeIcon } from "@fortawesome/react-fontawesome";
+import { faBell, faPlus, faTrash, faPen, faSpinner } from "@fortawesome/free-solid-svg-icons";
+import { useToast } from "@/app/components/ToastProvider";
+
+interface Member {
+  id: string;
+  name: string;
+}
+
+interface ScheduleOption {
+  id: string;
+  name: string;
+}
+
+interface EscalationLevel {
+  targetType: "USER" | "SCHEDULE";
+  targetId: string;
+  escalateAfterMinutes: number;
+}
+
+interface EscalationPolicy {
+  id: string;
+  name: string;
+  description: string | null;
+  service: string;
+  levels: EscalationLevel[];
+  repeatLimit: number;
+}
+
+const emptyForm = { name: "", description: "", service: "", repeatLimit: 0 };
+const emptyLevel: EscalationLevel = { targetType: "SCHEDULE", targetId: "", escalateAfterMinutes: 15 };
+
+export default function EscalationPoliciesPage({
+  params,
+}: {
+  params: Promise<{ tenantSlug: string }>;
+}) {
+  const { tenantSlug } = use(params);
+  const toast = useToast();
+  const [policies, setPolicies] = useState<EscalationPolicy[]>([]);
+  const [members, setMembers] = useState<Member[]>([]);
+  const [schedules, setSchedules] = useState<ScheduleOption[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [showForm, setShowForm] = useState(false);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [form, setForm] = useState(emptyForm);
+  const [levels, setLevels] = useState<EscalationLevel[]>([]);
+
+  useEffect(() => {
+    fetchPolicies();
+    fetch(`/api/tenants/${tenantSlug}/members`)
+      .then((res) => res.json())
+      .then((data) => setMembers(data.members || []))
+      .catch(() => setMembers([]));
+    fetch("/api/schedules")
+      .then((res) => res.json())
+      .then((data) => setSchedules(data.schedules || []))
+      .catch(() => setSchedules([]));
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, []);
+
+  const fetchPolicies = async () => {
+    try {
+      setLoading(true);
+      const response = await fetch("/api/escalation-policies");
+      if (!response.ok) throw new Error("Failed to fetch escalation policies");
+      const data = await response.json();
+      setPolicies(data.policies);
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : "Failed to fetch escalation policies");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const targetName = (level: EscalationLevel) =>
+    level.targetType === "USER"
+      ? members.find((m) => m.id === level.targetId)?.name || level.targetId
+      : `On call for ${schedules.find((s) => s.id === level.targetId)?.name || level.targetId}`;
+
+  const openCreate = () => {
+    setEditingId(null);
+    setForm(emptyForm);
+    setLevels([{ ...emptyLevel }]);
+    setShowForm(true);
+  };
+
+  const openEdit = (policy: EscalationPolicy) => {
+    setEditingId(policy.id);
+    setForm({
+      name: policy.name,
+      description: policy.description || "",
+      service: policy.service,
+      repeatLimit: policy.repeatLimit,
+    });
+    setLevels(policy.levels);
+    setShowForm(true);
+  };
+
+  const updateLevel = (index: number, changes: Partial<EscalationLevel>) => {
+    setLevels(levels.map((level, i) => (i === index ? { ...level, ...changes } : level)));
+  };
+
+  const handleSave = async () => {
+    if (!form.name.trim() || !form.service.trim()) return;
+
+    setSaving(true);
+    try {
+      const response = await fetch(editingId ? `/api/escalation-policies/${editingId}` : "/api/escalation-policies", {
+        method: editingId ? "PATCH" : "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          name: form.name.trim(),
+          description: form.description || undefined,
+          service: form.service.trim(),
+          repeatLimit: form.repeatLimit,
+          levels,
+        }),
+      });
+
+      if (!response.ok) {
+        const data = await response.json();
+        throw new Error(
+          data.error === "Forbidden" ? "Only admins can change escalation policies" : data.error || "Failed to save escalation policy"
+        );
+      }
+
+      await fetchPolicies();
+      setShowForm(false);
+      toast.success(editingId ? "Escalation policy updated successfully" : "Escalation policy created successfully");
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : "Failed to save escalation policy");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async (policyId: string) => {
+    if (!confirm("Are you sure you want to delete this escalation policy?")) return;
+
+    try {
+      const response = await fetch(`/api/escalation-policies/${policyId}`, { method: "DELETE" });
+      if (!response.ok) {
+        const data = await response.json();
+        throw new Error(
+          data.error === "Forbidden" ? "Only admins can delete escalation policies" : data.error || "Failed to delete escalation policy"
+        );
+      }
+
+      setPolicies(policies.filter((p) => p.id !== policyId));
+      toast.success("Escalation policy deleted successfully");
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : "Failed to delete escalation policy");
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center py-12">
+        <FontAwesomeIcon icon={faSpinner} className="animate-spin text-2xl text-gray-400" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="p-6">
+      <Link
+        href={`/t/${tenantSlug}/settings`}
+        className="text-blue-600 dark:text-blue-400 hover:text-blue-700 dark:hover:text-blue-300 mb-4 inline-block"
+      >
+        ← Back to Settings
+      </Link>
+
+      <div className="flex justify-between items-center mb-6">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900 dark:text-white">Escalation Policies</h1>
+          <p className="text-sm text-gray-500 dark:text-gray-400">
+            New incidents on a service page its first level. If nobody acknowledges in time, the next level is paged.
+          </p>
+        </div>
+        <button
+          onClick={openCreate}
+          className="px-4 py-2 bg-blue-600 hover:bg-blue-700 text-white rounded-lg flex items-center gap-2"
+        >
+          <FontAwesomeIcon icon={faPlus} />
+          New Policy
+        </button>
+      </div>
+
+      {showForm && (
+        <div className="mb-6 p-6 bg-gray-800 rounded-lg border border-gray-700">
+          <h2 className="text-lg font-semibold text-white mb-4">
+            {editingId ? "Edit Escalation Policy" : "Create New Escalation Policy"}
+          </h2>
+          <div className="grid grid-cols-2 gap-4 mb-4">
+            <div>
+              <label className="block text-sm text-gray-400 mb-1">Name</label>
+              <input
+                type="text"
+                value={form.name}
+                onChange={(e) => setForm({ ...form, name: e.target.value })}
+                placeholder="Payments"
+                className="w-full px-3 py-2 bg-gray-700 border border-gray-600 rounded text-white"
+              />
+            </div>
+            <div>
+              <label className="block text-sm text-gray-400 mb-1">Service</label>
+              <input
+                type="text"
+                value={form.service}
+                onChange={(e) => setForm({ ...form, service: e.target.value })}
+                placeholder="Payment Service"
+                className="w-full px-3 py-2 bg-gray-700 border border-gray-600 rounded text-white"
+              />
+            </div>
+            <div>
+              <label className="block text-sm text-gray-400 mb-1">Description</label>
+              <input
+                type="text"
+                value={form.description}
+                onChange={(e) => setForm({ ...form, description: e.target.value })}
+                placeholder="Optional description"
+                className="w-full px-3 py-2 bg-gray-700 border border-gray-600 rounded text-white"
+              />
+            </div>
+            <div>
+              <label className="block text-sm text-gray-400 mb-1">Repeat the levels</label>
+              <input
+                type="number"
+                min={0}
+                max={10}
+                value={form.repeatLimit}
+                onChange={(e) => setForm({ ...form, repeatLimit: Number(e.target.value) })}
+                className="w-full px-3 py-2 bg-gray-700 border border-gray-600 rounded text-white"
+              />
+            </div>
+          </div>
+
+          <div className="space-y-2 mb-4">
+            {levels.map((level, index) => (
+              <div key={index} className="flex items-center gap-2">
+                <span className="w-16 text-sm text-gray-400">Level {index + 1}</span>
+                <select
+                  value={level.targetType}
+                  onChange={(e) => updateLevel(index, { targetType: e.target.value as "USER" | "SCHEDULE", targetId: "" })}
+                  className="px-2 py-1 bg-gray-700 border border-gray-600 rounded text-white text-sm"
+                >
+                  <option value="SCHEDULE">On call for</option>
+                  <option value="USER">User</option>
+                </select>
+                <select
+                  value={level.targetId}
+                  onChange={(e) => updateLevel(index, { targetId: e.target.value })}
+                  className="flex-1 px-2 py-1 bg-gray-700 border border-gray-600 rounded text-white text-sm"
+                >
+                  <option value="">Select...</option>
+                  {(level.targetType === "USER" ? members : schedules).map((option) => (
+                    <option key={option.id} value={option.id}>
+                      {option.name}
+                    </option>
+                  ))}
+                </select>
+                <span className="text-sm text-gray-400">escalate after</span>
+                <input
+                  type="number"
+                  min={1}
+                  value={level.escalateAfterMinutes}
+                  onChange={(e) => updateLevel(index, { escalateAfterMinutes: Number(e.target.value) })}
+                  className="w-20 px-2 py-1 bg-gray-700 border border-gray-600 rounded text-white text-sm"
+                />
+                <span className="text-sm text-gray-400">min</span>
+                <button
+                  onClick={() => setLevels(levels.filter((_, i) => i !== index))}
+                  className="px-3 py-1 bg-red-600 hover:bg-red-700 text-white rounded text-sm"
+                >
+                  <FontAwesomeIcon icon={faTrash} />
+                </button>
+              </div>
+            ))}
+            <button
+              onClick={() => setLevels([...levels, { ...emptyLevel }])}
+              className="px-3 py-1 bg-gray-600 hover:bg-gray-500 text-white rounded text-sm flex items-center gap-2"
+            >
+              <FontAwesomeIcon icon={faPlus} />
+              Add Level
+            </button>
+          </div>
+
+          <div className="flex justify-end gap-2">
+            <button
+              onClick={() => setShowForm(false)}
+              className="px-4 py-2 bg-gray-600 hover:bg-gray-500 text-white rounded"
+            >
+              Cancel
+            </button>
+            <button
+              onClick={handleSave}
+              disabled={saving || !form.name.trim() || !form.service.trim() || levels.some((l) => !l.targetId)}
+              className="px-4 py-2 bg-blue-600 hover:bg-blue-700 disabled:bg-gray-600 text-white rounded flex items-center gap-2"
+            >
+              {saving && <FontAwesomeIcon icon={faSpinner} className="animate-spin" />}
+              {editingId ? "Save" : "Create"}
+            </button>
+          </div>
+        </div>
+      )}
+
+      {policies.length === 0 ? (
+        <div className="text-center py-12 text-gray-500 dark:text-gray-500">
+          <FontAwesomeIcon icon={faBell} className="text-4xl mb-4" />
+          <p>No escalation policies yet. Create one to page someone automatically when a service has an incident.</p>
+        </div>
+      ) : (
+        <div className="space-y-3">
+          {policies.map((policy) => (
+            <div
+              key={policy.id}
+              className="p-4 bg-white dark:bg-gray-800 rounded-lg border border-gray-200 dark:border-gray-700"
+            >
+              <div className="flex items-start gap-4">
+                <div className="flex-1">
+                  <p className="font-medium text-gray-900 dark:text-white">
+                    {policy.name}
+                    <span className="ml-2 px-2 py-0.5 bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-300 text-xs rounded">
+                      {policy.service}
+                    </span>
+                  </p>
+                  {policy.description && (
+                    <p className="text-sm text-gray-500 dark:text-gray-400">{policy.description}</p>
+                  )}
+                  <ol className="mt-2 space-y-1 text-sm text-gray-600 dark:text-gray-400">
+                    {policy.levels.map((level, index) => (
+                      <li key={index}>
+                        {index + 1}. {targetName(level)}, escalate after {level.escalateAfterMinutes} min
+                      </li>
+                    ))}
+                  </ol>
+                  {policy.repeatLimit > 0 && (
+                    <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">
+                      Repeats up to {policy.repeatLimit} time{policy.repeatLimit === 1 ? "" : "s"}
+                    </p>
+                  )}
+                </div>
+                <div className="flex items-center gap-2">
+                  <button
+                    onClick={() => openEdit(policy)}
+                    className="px-3 py-1 bg-gray-600 hover:bg-gray-500 text-white rounded text-sm"
+                  >
+                    <FontAwesomeIcon icon={faPen} />
+                  </button>
+                  <button
+                    onClick={() => handleDelete(policy.id)}
+                    className="px-3 py-1 bg-red-600 hover:bg-red-700 text-white rounded text-sm"
+                  >
+                    <FontAwesomeIcon icon={faTrash} />
+                  </button>
+                </div>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
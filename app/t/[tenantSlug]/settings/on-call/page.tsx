@@ -0,0 +1,700 @@
+"use client";
+
+import { useState, useEffect, use } from "react";
+import Link from "next/link";
+import { FontAwesomeIcon } from "@fortawesome/react-fontawesome";
+import {
+  faCalendarDays,
+  faPlus,
+  faTrash,
+  faPen,
+  faSpinner,
+  faUserClock,
+  faMagnifyingGlass,
+} from "@fortawesome/free-solid-svg-icons";
+import { useToast } from "@/app/components/ToastProvider";
+
+interface Member {
+  id: string;
+  name: string;
+  email: string;
+  role: string;
+}
+
+interface Rotation {
+  id: string;
+  name: string;
+  layer: number;
+  handoff: "DAILY" | "WEEKLY";
+  handoffTime: string;
+  handoffDay: number | null;
+  userIds: string[];
+  startsAt: string;
+  endsAt: string | null;
+  restrictStart: string | null;
+  restrictEnd: string | null;
+}
+
+interface Override {
+  id: string;
+  userId: string;
+  startsAt: string;
+  endsAt: string;
+  reason: string | null;
+}
+
+interface OnCall {
+  userId: string;
+  source: "OVERRIDE" | "ROTATION";
+  rotationName?: string;
+  until: string;
+}
+
+interface Schedule {
+  id: string;
+  name: string;
+  description: string | null;
+  timeZone: string;
+  rotations: Rotation[];
+  overrides: Override[];
+  onCall: OnCall | null;
+}
+
+interface RotationForm {
+  name: string;
+  layer: number;
+  handoff: "DAILY" | "WEEKLY";
+  handoffTime: string;
+  handoffDay: number;
+  userIds: string[];
+  startsAt: string;
+  endsAt: string;
+  restrictStart: string;
+  restrictEnd: string;
+}
+
+const WEEKDAYS = ["Sunday", "Monday", "Tuesday", "Wednesday", "Thursday", "Friday", "Saturday"];
+
+const emptyForm = { name: "", description: "", timeZone: "UTC" };
+const emptyOverride = { userId: "", startsAt: "", endsAt: "", reason: "" };
+
+// datetime-local inputs work in the browser's time zone
+function toLocalInput(iso: string): string {
+  const date = new Date(iso);
+  return new Date(date.getTime() - date.getTimezoneOffset() * 60_000).toISOString().slice(0, 16);
+}
+
+function newRotation(layer: number): RotationForm {
+  return {
+    name: layer === 1 ? "Primary" : `Layer ${layer}`,
+    layer,
+    handoff: "WEEKLY",
+    handoffTime: "09:00",
+    handoffDay: 1,
+    userIds: [],
+    startsAt: toLocalInput(new Date().toISOString()),
+    endsAt: "",
+    restrictStart: "",
+    restrictEnd: "",
+  };
+}
+
+export default function OnCallSchedulesPage({
+  params,
+}: {
+  params: Promise<{ tenantSlug: string }>;
+}) {
+  const { tenantSlug } = use(params);
+  const toast = useToast();
+  const [schedules, setSchedules] = useState<Schedule[]>([]);
+  const [members, setMembers] = useState<Member[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [showForm, setShowForm] = useState(false);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [form, setForm] = useState(emptyForm);
+  const [rotations, setRotations] = useState<RotationForm[]>([]);
+  const [overrideFor, setOverrideFor] = useState<string | null>(null);
+  const [overrideForm, setOverrideForm] = useState(emptyOverride);
+  const [lookupAt, setLookupAt] = useState<Record<string, string>>({});
+  const [lookupResult, setLookupResult] = useState<Record<string, string>>({});
+
+  useEffect(() => {
+    fetchSchedules();
+    fetch(`/api/tenants/${tenantSlug}/members`)
+      .then((res) => res.json())
+      .then((data) => setMembers(data.members || []))
+      .catch(() => setMembers([]));
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, []);
+
+  const fetchSchedules = async () => {
+    try {
+      setLoading(true);
+      const response = await fetch("/api/schedules");
+      if (!response.ok) throw new Error("Failed to fetch schedules");
+      const data = await response.json();
+      setSchedules(data.schedules);
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : "Failed to fetch schedules");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const memberName = (userId: string) => members.find((m) => m.id === userId)?.name || userId;
+
+  const openCreate = () => {
+    setEditingId(null);
+    setForm({ ...emptyForm, timeZone: Intl.DateTimeFormat().resolvedOptions().timeZone });
+    setRotations([newRotation(1)]);
+    setShowForm(true);
+  };
+
+  const openEdit = (schedule: Schedule) => {
+    setEditingId(schedule.id);
+    setForm({ name: schedule.name, description: schedule.description || "", timeZone: schedule.timeZone });
+    setRotations(
+      schedule.rotations.map((rotation) => ({
+        name: rotation.name,
+        layer: rotation.layer,
+        handoff: rotation.handoff,
+        handoffTime: rotation.handoffTime,
+        handoffDay: rotation.handoffDay ?? 1,
+        userIds: rotation.userIds,
+        startsAt: toLocalInput(rotation.startsAt),
+        endsAt: rotation.endsAt ? toLocalInput(rotation.endsAt) : "",
+        restrictStart: rotation.restrictStart || "",
+        restrictEnd: rotation.restrictEnd || "",
+      }))
+    );
+    setShowForm(true);
+  };
+
+  const updateRotation = (index: number, changes: Partial<RotationForm>) => {
+    setRotations(rotations.map((rotation, i) => (i === index ? { ...rotation, ...changes } : rotation)));
+  };
+
+  const toggleParticipant = (index: number, userId: string) => {
+    const current = rotations[index].userIds;
+    updateRotation(index, {
+      userIds: current.includes(userId) ? current.filter((id) => id !== userId) : [...current, userId],
+    });
+  };
+
+  const handleSave = async () => {
+    if (!form.name.trim()) return;
+
+    setSaving(true);
+    try {
+      const response = await fetch(editingId ? `/api/schedules/${editingId}` : "/api/schedules", {
+        method: editingId ? "PATCH" : "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          name: form.name.trim(),
+          description: form.description || undefined,
+          timeZone: form.timeZone,
+          rotations: rotations.map((rotation) => ({
+            name: rotation.name,
+            layer: rotation.layer,
+            handoff: rotation.handoff,
+            handoffTime: rotation.handoffTime,
+            handoffDay: rotation.handoff === "WEEKLY" ? rotation.handoffDay : null,
+            userIds: rotation.userIds,
+            startsAt: new Date(rotation.startsAt).toISOString(),
+            endsAt: rotation.endsAt ? new Date(rotation.endsAt).toISOString() : null,
+            restrictStart: rotation.restrictStart || null,
+            restrictEnd: rotation.restrictEnd || null,
+          })),
+        }),
+      });
+
+      if (!response.ok) {
+        const data = await response.json();
+        throw new Error(data.error === "Forbidden" ? "Only admins can change schedules" : data.error || "Failed to save schedule");
+      }
+
+      await fetchSchedules();
+      setShowForm(false);
+      toast.success(editingId ? "Schedule updated successfully" : "Schedule created successfully");
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : "Failed to save schedule");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async (scheduleId: string) => {
+    if (!confirm("Are you sure you want to delete this schedule?")) return;
+
+    try {
+      const response = await fetch(`/api/schedules/${scheduleId}`, { method: "DELETE" });
+      if (!response.ok) {
+        const data = await response.json();
+        throw new Error(data.error === "Forbidden" ? "Only admins can delete schedules" : data.error || "Failed to delete schedule");
+      }
+
+      setSchedules(schedules.filter((s) => s.id !== scheduleId));
+      toast.success("Schedule deleted successfully");
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : "Failed to delete schedule");
+    }
+  };
+
+  const handleAddOverride = async (scheduleId: string) => {
+    try {
+      const response = await fetch(`/api/schedules/${scheduleId}/overrides`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          userId: overrideForm.userId,
+          startsAt: new Date(overrideForm.startsAt).toISOString(),
+          endsAt: new Date(overrideForm.endsAt).toISOString(),
+          reason: overrideForm.reason || undefined,
+        }),
+      });
+
+      if (!response.ok) {
+        const data = await response.json();
+        throw new Error(data.error || "Failed to add override");
+      }
+
+      await fetchSchedules();
+      setOverrideFor(null);
+      setOverrideForm(emptyOverride);
+      toast.success("Override added");
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : "Failed to add override");
+    }
+  };
+
+  const handleDeleteOverride = async (scheduleId: string, overrideId: string) => {
+    try {
+      const response = await fetch(`/api/schedules/${scheduleId}/overrides/${overrideId}`, { method: "DELETE" });
+      if (!response.ok) {
+        const data = await response.json();
+        throw new Error(data.error || "Failed to remove override");
+      }
+
+      await fetchSchedules();
+      toast.success("Override removed");
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : "Failed to remove override");
+    }
+  };
+
+  const handleLookup = async (scheduleId: string) => {
+    const value = lookupAt[scheduleId];
+    if (!value) return;
+
+    try {
+      const response = await fetch(
+        `/api/schedules/${scheduleId}/on-call?at=${encodeURIComponent(new Date(value).toISOString())}`
+      );
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error || "Failed to look up on-call");
+
+      setLookupResult({
+        ...lookupResult,
+        [scheduleId]: data.onCall
+          ? `${data.onCall.user?.name || data.onCall.userId} (${
+              data.onCall.source === "OVERRIDE" ? "override" : data.onCall.rotationName
+            })`
+          : "Nobody is on call",
+      });
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : "Failed to look up on-call");
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center py-12">
+        <FontAwesomeIcon icon={faSpinner} className="animate-spin text-2xl text-gray-400" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="p-6">
+      <Link
+        href={`/t/${tenantSlug}/settings`}
+        className="text-blue-600 dark:text-blue-400 hover:text-blue-700 dark:hover:text-blue-300 mb-4 inline-block"
+      >
+        ← Back to Settings
+      </Link>
+
+      <div className="flex justify-between items-center mb-6">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900 dark:text-white">On-call Schedules</h1>
+          <p className="text-sm text-gray-500 dark:text-gray-400">
+            Rotations hand off daily or weekly; higher layers win where they overlap, and overrides win over everything.
+          </p>
+        </div>
+        <button
+          onClick={openCreate}
+          className="px-4 py-2 bg-blue-600 hover:bg-blue-700 text-white rounded-lg flex items-center gap-2"
+        >
+          <FontAwesomeIcon icon={faPlus} />
+          New Schedule
+        </button>
+      </div>
+
+      {showForm && (
+        <div className="mb-6 p-6 bg-gray-800 rounded-lg border border-gray-700">
+          <h2 className="text-lg font-semibold text-white mb-4">
+            {editingId ? "Edit Schedule" : "Create New Schedule"}
+          </h2>
+          <div className="grid grid-cols-3 gap-4 mb-4">
+            <div>
+              <label className="block text-sm text-gray-400 mb-1">Name</label>
+              <input
+                type="text"
+                value={form.name}
+                onChange={(e) => setForm({ ...form, name: e.target.value })}
+                placeholder="Platform primary"
+                className="w-full px-3 py-2 bg-gray-700 border border-gray-600 rounded text-white"
+              />
+            </div>
+            <div>
+              <label className="block text-sm text-gray-400 mb-1">Time zone</label>
+              <input
+                type="text"
+                value={form.timeZone}
+                onChange={(e) => setForm({ ...form, timeZone: e.target.value })}
+                placeholder="Europe/Amsterdam"
+                className="w-full px-3 py-2 bg-gray-700 border border-gray-600 rounded text-white"
+              />
+            </div>
+            <div>
+              <label className="block text-sm text-gray-400 mb-1">Description</label>
+              <input
+                type="text"
+                value={form.description}
+                onChange={(e) => setForm({ ...form, description: e.target.value })}
+                placeholder="Optional description"
+                className="w-full px-3 py-2 bg-gray-700 border border-gray-600 rounded text-white"
+              />
+            </div>
+          </div>
+
+          <div className="space-y-4 mb-4">
+            {rotations.map((rotation, index) => (
+              <div key={index} className="p-4 bg-gray-900/50 rounded border border-gray-700">
+                <div className="grid grid-cols-4 gap-3 mb-3">
+                  <div>
+                    <label className="block text-xs text-gray-400 mb-1">Rotation name</label>
+                    <input
+                      type="text"
+                      value={rotation.name}
+                      onChange={(e) => updateRotation(index, { name: e.target.value })}
+                      className="w-full px-2 py-1 bg-gray-700 border border-gray-600 rounded text-white text-sm"
+                    />
+                  </div>
+                  <div>
+                    <label className="block text-xs text-gray-400 mb-1">Layer</label>
+                    <input
+                      type="number"
+                      min={1}
+                      max={10}
+                      value={rotation.layer}
+                      onChange={(e) => updateRotation(index, { layer: Number(e.target.value) })}
+                      className="w-full px-2 py-1 bg-gray-700 border border-gray-600 rounded text-white text-sm"
+                    />
+                  </div>
+                  <div>
+                    <label className="block text-xs text-gray-400 mb-1">Handoff</label>
+                    <div className="flex gap-2">
+                      <select
+                        value={rotation.handoff}
+                        onChange={(e) => updateRotation(index, { handoff: e.target.value as "DAILY" | "WEEKLY" })}
+                        className="px-2 py-1 bg-gray-700 border border-gray-600 rounded text-white text-sm"
+                      >
+                        <option value="DAILY">Daily</option>
+                        <option value="WEEKLY">Weekly</option>
+                      </select>
+                      {rotation.handoff === "WEEKLY" && (
+                        <select
+                          value={rotation.handoffDay}
+                          onChange={(e) => updateRotation(index, { handoffDay: Number(e.target.value) })}
+                          className="px-2 py-1 bg-gray-700 border border-gray-600 rounded text-white text-sm"
+                        >
+                          {WEEKDAYS.map((day, i) => (
+                            <option key={day} value={i}>
+                              {day}
+                            </option>
+                          ))}
+                        </select>
+                      )}
+                    </div>
+                  </div>
+                  <div>
+                    <label className="block text-xs text-gray-400 mb-1">Handoff time</label>
+                    <input
+                      type="time"
+                      value={rotation.handoffTime}
+                      onChange={(e) => updateRotation(index, { handoffTime: e.target.value })}
+                      className="w-full px-2 py-1 bg-gray-700 border border-gray-600 rounded text-white text-sm"
+                    />
+                  </div>
+                  <div>
+                    <label className="block text-xs text-gray-400 mb-1">Starts</label>
+                    <input
+                      type="datetime-local"
+                      value={rotation.startsAt}
+                      onChange={(e) => updateRotation(index, { startsAt: e.target.value })}
+                      className="w-full px-2 py-1 bg-gray-700 border border-gray-600 rounded text-white text-sm"
+                    />
+                  </div>
+                  <div>
+                    <label className="block text-xs text-gray-400 mb-1">Ends (optional)</label>
+                    <input
+                      type="datetime-local"
+                      value={rotation.endsAt}
+                      onChange={(e) => updateRotation(index, { endsAt: e.target.value })}
+                      className="w-full px-2 py-1 bg-gray-700 border border-gray-600 rounded text-white text-sm"
+                    />
+                  </div>
+                  <div className="col-span-2">
+                    <label className="block text-xs text-gray-400 mb-1">Only covers (optional, daily)</label>
+                    <div className="flex items-center gap-2">
+                      <input
+                        type="time"
+                        value={rotation.restrictStart}
+                        onChange={(e) => updateRotation(index, { restrictStart: e.target.value })}
+                        className="px-2 py-1 bg-gray-700 border border-gray-600 rounded text-white text-sm"
+                      />
+                      <span className="text-gray-400 text-sm">to</span>
+                      <input
+                        type="time"
+                        value={rotation.restrictEnd}
+                        onChange={(e) => updateRotation(index, { restrictEnd: e.target.value })}
+                        className="px-2 py-1 bg-gray-700 border border-gray-600 rounded text-white text-sm"
+                      />
+                    </div>
+                  </div>
+                </div>
+
+                <label className="block text-xs text-gray-400 mb-1">Participants (in shift order)</label>
+                <div className="flex flex-wrap gap-2 mb-2">
+                  {members.map((member) => {
+                    const position = rotation.userIds.indexOf(member.id);
+                    return (
+                      <button
+                        key={member.id}
+                        onClick={() => toggleParticipant(index, member.id)}
+                        className={`px-2 py-1 rounded text-xs ${
+                          position >= 0 ? "bg-blue-600 text-white" : "bg-gray-700 text-gray-300 hover:bg-gray-600"
+                        }`}
+                      >
+                        {position >= 0 && `${position + 1}. `}
+                        {member.name}
+                      </button>
+                    );
+                  })}
+                </div>
+
+                <div className="flex justify-end">
+                  <button
+                    onClick={() => setRotations(rotations.filter((_, i) => i !== index))}
+                    className="px-3 py-1 bg-red-600 hover:bg-red-700 text-white rounded text-sm"
+                  >
+                    <FontAwesomeIcon icon={faTrash} />
+                  </button>
+                </div>
+              </div>
+            ))}
+            <button
+              onClick={() => setRotations([...rotations, newRotation(rotations.length + 1)])}
+              className="px-3 py-1 bg-gray-600 hover:bg-gray-500 text-white rounded text-sm flex items-center gap-2"
+            >
+              <FontAwesomeIcon icon={faPlus} />
+              Add Rotation
+            </button>
+          </div>
+
+          <div className="flex justify-end gap-2">
+            <button
+              onClick={() => setShowForm(false)}
+              className="px-4 py-2 bg-gray-600 hover:bg-gray-500 text-white rounded"
+            >
+              Cancel
+            </button>
+            <button
+              onClick={handleSave}
+              disabled={saving || !form.name.trim()}
+              className="px-4 py-2 bg-blue-600 hover:bg-blue-700 disabled:bg-gray-600 text-white rounded flex items-center gap-2"
+            >
+              {saving && <FontAwesomeIcon icon={faSpinner} className="animate-spin" />}
+              {editingId ? "Save" : "Create"}
+            </button>
+          </div>
+        </div>
+      )}
+
+      {schedules.length === 0 ? (
+        <div className="text-center py-12 text-gray-500 dark:text-gray-500">
+          <FontAwesomeIcon icon={faCalendarDays} className="text-4xl mb-4" />
+          <p>No on-call schedules yet. Create one to decide who gets paged.</p>
+        </div>
+      ) : (
+        <div className="space-y-4">
+          {schedules.map((schedule) => (
+            <div
+              key={schedule.id}
+              className="p-4 bg-white dark:bg-gray-800 rounded-lg border border-gray-200 dark:border-gray-700"
+            >
+              <div className="flex items-start gap-4 mb-3">
+                <div className="flex-1">
+                  <p className="font-medium text-gray-900 dark:text-white">
+                    {schedule.name}
+                    <span className="ml-2 text-xs text-gray-500 dark:text-gray-400">{schedule.timeZone}</span>
+                  </p>
+                  {schedule.description && (
+                    <p className="text-sm text-gray-500 dark:text-gray-400">{schedule.description}</p>
+                  )}
+                  <p className="text-sm text-gray-700 dark:text-gray-300 mt-1 flex items-center gap-2">
+                    <FontAwesomeIcon icon={faUserClock} />
+                    {schedule.onCall ? (
+                      <>
+                        {memberName(schedule.onCall.userId)} is on call
+                        {schedule.onCall.source === "OVERRIDE" ? " (override)" : ` (${schedule.onCall.rotationName})`}
+                        {" until "}
+                        {new Date(schedule.onCall.until).toLocaleString()}
+                      </>
+                    ) : (
+                      "Nobody is on call"
+                    )}
+                  </p>
+                </div>
+                <div className="flex items-center gap-2">
+                  <button
+                    onClick={() => {
+                      setOverrideFor(overrideFor === schedule.id ? null : schedule.id);
+                      setOverrideForm(emptyOverride);
+                    }}
+                    className="px-3 py-1 bg-gray-600 hover:bg-gray-500 text-white rounded text-sm"
+                  >
+                    Override
+                  </button>
+                  <button
+                    onClick={() => openEdit(schedule)}
+                    className="px-3 py-1 bg-gray-600 hover:bg-gray-500 text-white rounded text-sm"
+                  >
+                    <FontAwesomeIcon icon={faPen} />
+                  </button>
+                  <button
+                    onClick={() => handleDelete(schedule.id)}
+                    className="px-3 py-1 bg-red-600 hover:bg-red-700 text-white rounded text-sm"
+                  >
+                    <FontAwesomeIcon icon={faTrash} />
+                  </button>
+                </div>
+              </div>
+
+              <div className="space-y-1 mb-3">
+                {schedule.rotations.map((rotation) => (
+                  <p key={rotation.id} className="text-sm text-gray-600 dark:text-gray-400">
+                    <span className="font-medium text-gray-900 dark:text-white">
+                      L{rotation.layer} {rotation.name}
+                    </span>
+                    {" · "}
+                    {rotation.handoff === "WEEKLY"
+                      ? `${WEEKDAYS[rotation.handoffDay ?? 0]}s at ${rotation.handoffTime}`
+                      : `daily at ${rotation.handoffTime}`}
+                    {rotation.restrictStart && ` · ${rotation.restrictStart}-${rotation.restrictEnd} only`}
+                    {" · "}
+                    {rotation.userIds.map(memberName).join(" → ")}
+                  </p>
+                ))}
+              </div>
+
+              {schedule.overrides.length > 0 && (
+                <div className="space-y-1 mb-3">
+                  {schedule.overrides.map((override) => (
+                    <div key={override.id} className="flex items-center gap-2 text-sm text-amber-700 dark:text-amber-400">
+                      <span>
+                        Override: {memberName(override.userId)} from {new Date(override.startsAt).toLocaleString()} to{" "}
+                        {new Date(override.endsAt).toLocaleString()}
+                        {override.reason && ` (${override.reason})`}
+                      </span>
+                      <button
+                        onClick={() => handleDeleteOverride(schedule.id, override.id)}
+                        className="text-red-500 hover:text-red-400"
+                      >
+                        <FontAwesomeIcon icon={faTrash} />
+                      </button>
+                    </div>
+                  ))}
+                </div>
+              )}
+
+              {overrideFor === schedule.id && (
+                <div className="flex flex-wrap items-end gap-2 mb-3 p-3 bg-gray-100 dark:bg-gray-900/50 rounded">
+                  <select
+                    value={overrideForm.userId}
+                    onChange={(e) => setOverrideForm({ ...overrideForm, userId: e.target.value })}
+                    className="px-2 py-1 bg-white dark:bg-gray-700 border border-gray-300 dark:border-gray-600 rounded text-gray-900 dark:text-white text-sm"
+                  >
+                    <option value="">Who covers?</option>
+                    {members.map((member) => (
+                      <option key={member.id} value={member.id}>
+                        {member.name}
+                      </option>
+                    ))}
+                  </select>
+                  <input
+                    type="datetime-local"
+                    value={overrideForm.startsAt}
+                    onChange={(e) => setOverrideForm({ ...overrideForm, startsAt: e.target.value })}
+                    className="px-2 py-1 bg-white dark:bg-gray-700 border border-gray-300 dark:border-gray-600 rounded text-gray-900 dark:text-white text-sm"
+                  />
+                  <input
+                    type="datetime-local"
+                    value={overrideForm.endsAt}
+                    onChange={(e) => setOverrideForm({ ...overrideForm, endsAt: e.target.value })}
+                    className="px-2 py-1 bg-white dark:bg-gray-700 border border-gray-300 dark:border-gray-600 rounded text-gray-900 dark:text-white text-sm"
+                  />
+                  <input
+                    type="text"
+                    value={overrideForm.reason}
+                    onChange={(e) => setOverrideForm({ ...overrideForm, reason: e.target.value })}
+                    placeholder="Reason (optional)"
+                    className="px-2 py-1 bg-white dark:bg-gray-700 border border-gray-300 dark:border-gray-600 rounded text-gray-900 dark:text-white text-sm"
+                  />
+                  <button
+                    onClick={() => handleAddOverride(schedule.id)}
+                    disabled={!overrideForm.userId || !overrideForm.startsAt || !overrideForm.endsAt}
+                    className="px-3 py-1 bg-blue-600 hover:bg-blue-700 disabled:bg-gray-600 text-white rounded text-sm"
+                  >
+                    Add Override
+                  </button>
+                </div>
+              )}
+
+              <div className="flex items-center gap-2">
+                <input
+                  type="datetime-local"
+                  value={lookupAt[schedule.id] || ""}
+                  onChange={(e) => setLookupAt({ ...lookupAt, [schedule.id]: e.target.value })}
+                  className="px-2 py-1 bg-white dark:bg-gray-700 border border-gray-300 dark:border-gray-600 rounded text-gray-900 dark:text-white text-sm"
+                />
+                <button
+                  onClick={() => handleLookup(schedule.id)}
+                  disabled={!lookupAt[schedule.id]}
+                  className="px-3 py-1 bg-gray-600 hover:bg-gray-500 disabled:opacity-50 text-white rounded text-sm flex items-center gap-2"
+                >
+                  <FontAwesomeIcon icon={faMagnifyingGlass} />
+                  Who is on call?
+                </button>
+                {lookupResult[schedule.id] && (
+                  <span className="text-sm text-gray-700 dark:text-gray-300">{lookupResult[schedule.id]}</span>
+                )}
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
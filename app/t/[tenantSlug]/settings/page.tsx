@@ -1,5 +1,11 @@
+import Link from "next/link";
+import { FontAwesomeIcon } from "@fortawesome/react-fontawesome";
+import { faBell, faCalendarDays, faStopwatch } from "@fortawesome/free-solid-svg-icons";
 import { prisma } from "@/lib/prisma";
 import { getCurrentTenantContext } from "@/lib/tenant";
+import SdkKeysCard from "@/app/components/SdkKeysCard";
+import FlagApprovalsCard from "@/app/components/FlagApprovalsCard";
+import IncidentWorkflowCard from "@/app/components/IncidentWorkflowCard";
 
 export default async function SettingsPage() {
   const tenantContext = await getCurrentTenantContext();
@@ -106,6 +112,71 @@ export default async function SettingsPage() {
         </div>
       </div>
 
+      {/* On-call Schedules */}
+      <div className="bg-white dark:bg-gray-800 rounded-lg p-6 border border-gray-200 dark:border-gray-700 flex items-center justify-between">
+        <div>
+          <h2 className="text-lg font-semibold text-gray-900 dark:text-white mb-1 flex items-center gap-2">
+            <FontAwesomeIcon icon={faCalendarDays} />
+            On-call Schedules
+          </h2>
+          <p className="text-sm text-gray-500 dark:text-gray-400">
+            Rotations, handoffs and overrides that decide who is on call.
+          </p>
+        </div>
+        <Link
+          href={`/t/${tenantContext.tenantSlug}/settings/on-call`}
+          className="px-4 py-2 bg-blue-600 hover:bg-blue-700 text-white rounded-lg"
+        >
+          Manage
+        </Link>
+      </div>
+
+      {/* Escalation Policies */}
+      <div className="bg-white dark:bg-gray-800 rounded-lg p-6 border border-gray-200 dark:border-gray-700 flex items-center justify-between">
+        <div>
+          <h2 className="text-lg font-semibold text-gray-900 dark:text-white mb-1 flex items-center gap-2">
+            <FontAwesomeIcon icon={faBell} />
+            Escalation Policies
+          </h2>
+          <p className="text-sm text-gray-500 dark:text-gray-400">
+            Who gets paged for each service, and when to escalate if nobody acknowledges.
+          </p>
+        </div>
+        <Link
+          href={`/t/${tenantContext.tenantSlug}/settings/escalation-policies`}
+          className="px-4 py-2 bg-blue-600 hover:bg-blue-700 text-white rounded-lg"
+        >
+          Manage
+        </Link>
+      </div>
+
+      {/* SLA Targets */}
+      <div className="bg-white dark:bg-gray-800 rounded-lg p-6 border border-gray-200 dark:border-gray-700 flex items-center justify-between">
+        <div>
+          <h2 className="text-lg font-semibold text-gray-900 dark:text-white mb-1 flex items-center gap-2">
+            <FontAwesomeIcon icon={faStopwatch} />
+            SLA Targets
+          </h2>
+          <p className="text-sm text-gray-500 dark:text-gray-400">
+            Response-time targets per severity, with warnings before an incident breaches them.
+          </p>
+        </div>
+        <Link
+          href={`/t/${tenantContext.tenantSlug}/settings/sla`}
+          className="px-4 py-2 bg-blue-600 hover:bg-blue-700 text-white rounded-lg"
+        >
+          Manage
+        </Link>
+      </div>
+
+      {/* SDK Keys */}
+      <SdkKeysCard />
+
+      {/* Flag Change Approvals */}
+      <FlagApprovalsCard />
+
+      <IncidentWorkflowCard />
+
       {/* Danger Zone */}
       <div className="bg-gray-800 rounded-lg p-6 border border-red-700/50">
         <h2 className="text-lg font-semibold text-red-400 mb-4">Danger Zone</h2>
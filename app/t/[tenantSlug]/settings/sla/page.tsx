@@ -0,0 +1,288 @@
+"use client";
+
+import { useState, useEffect, use } from "react";
+import Link from "next/link";
+import { FontAwesomeIcon } from "@fortawesome/react-fontawesome";
+import { faStopwatch, faPlus, faTrash, faPen, faSpinner } from "@fortawesome/free-solid-svg-icons";
+import { useToast } from "@/app/components/ToastProvider";
+
+type Severity = "SEV1" | "SEV2" | "SEV3" | "SEV4";
+
+interface SlaTarget {
+  id: string;
+  severity: Severity;
+  service: string | null;
+  acknowledgeMinutes: number | null;
+  mitigateMinutes: number | null;
+  resolveMinutes: number | null;
+}
+
+const SEVERITIES: Severity[] = ["SEV1", "SEV2", "SEV3", "SEV4"];
+
+// Minutes are kept as strings while editing so a field can be left empty
+const emptyForm = {
+  severity: "SEV1" as Severity,
+  service: "",
+  acknowledgeMinutes: "",
+  mitigateMinutes: "",
+  resolveMinutes: "",
+};
+
+const STAGES = [
+  { field: "acknowledgeMinutes", label: "Acknowledge" },
+  { field: "mitigateMinutes", label: "Mitigate" },
+  { field: "resolveMinutes", label: "Resolve" },
+] as const;
+
+function toMinutes(value: string): number | null {
+  return value.trim() === "" ? null : Number(value);
+}
+
+export default function SlaTargetsPage({
+  params,
+}: {
+  params: Promise<{ tenantSlug: string }>;
+}) {
+  const { tenantSlug } = use(params);
+  const toast = useToast();
+  const [targets, setTargets] = useState<SlaTarget[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [showForm, setShowForm] = useState(false);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [form, setForm] = useState(emptyForm);
+
+  useEffect(() => {
+    fetchTargets();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, []);
+
+  const fetchTargets = async () => {
+    try {
+      setLoading(true);
+      const response = await fetch("/api/sla-targets");
+      if (!response.ok) throw new Error("Failed to fetch SLA targets");
+      const data = await response.json();
+      setTargets(data.targets);
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : "Failed to fetch SLA targets");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const openCreate = () => {
+    setEditingId(null);
+    setForm(emptyForm);
+    setShowForm(true);
+  };
+
+  const openEdit = (target: SlaTarget) => {
+    setEditingId(target.id);
+    setForm({
+      severity: target.severity,
+      service: target.service || "",
+      acknowledgeMinutes: target.acknowledgeMinutes?.toString() ?? "",
+      mitigateMinutes: target.mitigateMinutes?.toString() ?? "",
+      resolveMinutes: target.resolveMinutes?.toString() ?? "",
+    });
+    setShowForm(true);
+  };
+
+  const handleSave = async () => {
+    setSaving(true);
+    try {
+      const response = await fetch(editingId ? `/api/sla-targets/${editingId}` : "/api/sla-targets", {
+        method: editingId ? "PATCH" : "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          severity: form.severity,
+          service: form.service.trim() || null,
+          acknowledgeMinutes: toMinutes(form.acknowledgeMinutes),
+          mitigateMinutes: toMinutes(form.mitigateMinutes),
+          resolveMinutes: toMinutes(form.resolveMinutes),
+        }),
+      });
+
+      if (!response.ok) {
+        const data = await response.json();
+        throw new Error(data.error === "Forbidden" ? "Only admins can change SLA targets" : data.error || "Failed to save SLA target");
+      }
+
+      await fetchTargets();
+      setShowForm(false);
+      toast.success(editingId ? "SLA target updated successfully" : "SLA target created successfully");
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : "Failed to save SLA target");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async (targetId: string) => {
+    if (!confirm("Are you sure you want to delete this SLA target?")) return;
+
+    try {
+      const response = await fetch(`/api/sla-targets/${targetId}`, { method: "DELETE" });
+      if (!response.ok) {
+        const data = await response.json();
+        throw new Error(data.error === "Forbidden" ? "Only admins can delete SLA targets" : data.error || "Failed to delete SLA target");
+      }
+
+      setTargets(targets.filter((t) => t.id !== targetId));
+      toast.success("SLA target deleted successfully");
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : "Failed to delete SLA target");
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center py-12">
+        <FontAwesomeIcon icon={faSpinner} className="animate-spin text-2xl text-gray-400" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="p-6">
+      <Link
+        href={`/t/${tenantSlug}/settings`}
+        className="text-blue-600 dark:text-blue-400 hover:text-blue-700 dark:hover:text-blue-300 mb-4 inline-block"
+      >
+        ← Back to Settings
+      </Link>
+
+      <div className="flex justify-between items-center mb-6">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900 dark:text-white">SLA Targets</h1>
+          <p className="text-sm text-gray-500 dark:text-gray-400">
+            How long incidents of each severity may take to be acknowledged, mitigated and resolved, counted from when they open. A service&apos;s own target replaces the severity default.
+          </p>
+        </div>
+        <button
+          onClick={openCreate}
+          className="px-4 py-2 bg-blue-600 hover:bg-blue-700 text-white rounded-lg flex items-center gap-2"
+        >
+          <FontAwesomeIcon icon={faPlus} />
+          New Target
+        </button>
+      </div>
+
+      {showForm && (
+        <div className="mb-6 p-6 bg-gray-800 rounded-lg border border-gray-700">
+          <h2 className="text-lg font-semibold text-white mb-4">
+            {editingId ? "Edit SLA Target" : "Create New SLA Target"}
+          </h2>
+          <div className="grid grid-cols-2 gap-4 mb-4">
+            <div>
+              <label className="block text-sm text-gray-400 mb-1">Severity</label>
+              <select
+                value={form.severity}
+                onChange={(e) => setForm({ ...form, severity: e.target.value as Severity })}
+                className="w-full px-3 py-2 bg-gray-700 border border-gray-600 rounded text-white"
+              >
+                {SEVERITIES.map((severity) => (
+                  <option key={severity} value={severity}>
+                    {severity}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="block text-sm text-gray-400 mb-1">Service</label>
+              <input
+                type="text"
+                value={form.service}
+                onChange={(e) => setForm({ ...form, service: e.target.value })}
+                placeholder="All services"
+                className="w-full px-3 py-2 bg-gray-700 border border-gray-600 rounded text-white"
+              />
+            </div>
+          </div>
+
+          <div className="grid grid-cols-3 gap-4 mb-4">
+            {STAGES.map(({ field, label }) => (
+              <div key={field}>
+                <label className="block text-sm text-gray-400 mb-1">{label} within (min)</label>
+                <input
+                  type="number"
+                  min={1}
+                  value={form[field]}
+                  onChange={(e) => setForm({ ...form, [field]: e.target.value })}
+                  placeholder="No target"
+                  className="w-full px-3 py-2 bg-gray-700 border border-gray-600 rounded text-white"
+                />
+              </div>
+            ))}
+          </div>
+
+          <div className="flex justify-end gap-2">
+            <button
+              onClick={() => setShowForm(false)}
+              className="px-4 py-2 bg-gray-600 hover:bg-gray-500 text-white rounded"
+            >
+              Cancel
+            </button>
+            <button
+              onClick={handleSave}
+              disabled={saving || STAGES.every(({ field }) => !form[field].trim())}
+              className="px-4 py-2 bg-blue-600 hover:bg-blue-700 disabled:bg-gray-600 text-white rounded flex items-center gap-2"
+            >
+              {saving && <FontAwesomeIcon icon={faSpinner} className="animate-spin" />}
+              {editingId ? "Save" : "Create"}
+            </button>
+          </div>
+        </div>
+      )}
+
+      {targets.length === 0 ? (
+        <div className="text-center py-12 text-gray-500 dark:text-gray-500">
+          <FontAwesomeIcon icon={faStopwatch} className="text-4xl mb-4" />
+          <p>No SLA targets yet. Add one to track response times and warn before incidents breach.</p>
+        </div>
+      ) : (
+        <div className="space-y-3">
+          {targets.map((target) => (
+            <div
+              key={target.id}
+              className="p-4 bg-white dark:bg-gray-800 rounded-lg border border-gray-200 dark:border-gray-700"
+            >
+              <div className="flex items-start gap-4">
+                <div className="flex-1">
+                  <p className="font-medium text-gray-900 dark:text-white">
+                    {target.severity}
+                    <span className="ml-2 px-2 py-0.5 bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-300 text-xs rounded">
+                      {target.service || "All services"}
+                    </span>
+                  </p>
+                  <p className="mt-1 text-sm text-gray-600 dark:text-gray-400">
+                    {STAGES.map(({ field, label }) =>
+                      target[field] != null ? `${label} within ${target[field]} min` : null
+                    )
+                      .filter(Boolean)
+                      .join(" · ")}
+                  </p>
+                </div>
+                <div className="flex items-center gap-2">
+                  <button
+                    onClick={() => openEdit(target)}
+                    className="px-3 py-1 bg-gray-600 hover:bg-gray-500 text-white rounded text-sm"
+                  >
+                    <FontAwesomeIcon icon={faPen} />
+                  </button>
+                  <button
+                    onClick={() => handleDelete(target.id)}
+                    className="px-3 py-1 bg-red-600 hover:bg-red-700 text-white rounded text-sm"
+                  >
+                    <FontAwesomeIcon icon={faTrash} />
+                  </button>
+                </div>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,114 @@
+import { readdirSync, readFileSync, statSync } from "fs";
+import { extname, join, relative, sep } from "path";
+
+// Matches the flag-evaluator package and SDK-style helpers: evaluate("key"), isEnabled('key'), getVariant(`key`),
+// and OpenFeature client lookups: getBooleanValue("key", ...), getStringDetails("key", ...)
+export const DEFAULT_PATTERNS = [
+  String.raw`\b(?:evaluate|isEnabled|getVariant)\(\s*["'\`]([a-z0-9_-]+)["'\`]`,
+  String.raw`\bget(?:Boolean|String|Number|Object)(?:Value|Details)\(\s*["'\`]([a-z0-9_-]+)["'\`]`,
+];
+
+export const DEFAULT_EXTENSIONS = [".ts", ".tsx", ".js", ".jsx", ".mjs", ".cjs"];
+
+export const DEFAULT_EXCLUDE = ["node_modules", ".git", ".next", "dist", "build", "coverage"];
+
+const MAX_FILE_BYTES = 1024 * 1024;
+const MAX_CONTEXT_LINE_LENGTH = 200;
+
+export interface ScannedReference {
+  flagKey: string;
+  file: string;
+  line: number;
+  context: string;
+}
+
+export interface ScanOptions {
+  patterns: RegExp[];
+  extensions?: string[];
+  exclude?: string[];
+  contextLines?: number;
+}
+
+/**
+ * Compile user-supplied patterns; each must capture the flag key in its first group
+ */
+export function compilePatterns(patterns: string[]): RegExp[] {
+  return patterns.map((pattern) => {
+    let regex: RegExp;
+    try {
+      regex = new RegExp(pattern, "g");
+    } catch (error) {
+      throw new Error(`Invalid pattern ${pattern}: ${error instanceof Error ? error.message : error}`);
+    }
+
+    // An alternation with the empty string always matches; its match array length is groups + 1
+    const groups = new RegExp(`${pattern}|`).exec("")!.length - 1;
+    if (groups < 1) {
+      throw new Error(`Pattern ${pattern} must capture the flag key in a group`);
+    }
+
+    return regex;
+  });
+}
+
+/**
+ * Find flag key usages in one file's source, with `contextLines` lines either side of each match
+ */
+export function findReferences(
+  source: string,
+  file: string,
+  patterns: RegExp[],
+  contextLines: number = 2
+): ScannedReference[] {
+  const lines = source.split(/\r?\n/);
+  const references: ScannedReference[] = [];
+
+  lines.forEach((text, index) => {
+    const keys = new Set<string>();
+
+    for (const pattern of patterns) {
+      pattern.lastIndex = 0;
+      for (const match of text.matchAll(pattern)) {
+        if (match[1]) keys.add(match[1]);
+      }
+    }
+
+    for (const flagKey of keys) {
+      const context = lines
+        .slice(Math.max(0, index - contextLines), index + contextLines + 1)
+        .map((line) => line.slice(0, MAX_CONTEXT_LINE_LENGTH))
+        .join("\n");
+      references.push({ flagKey, file, line: index + 1, context });
+    }
+  });
+
+  return references;
+}
+
+/**
+ * Walk a source tree and collect flag key usages; file paths are relative to root with forward slashes
+ */
+export function scanDirectory(root: string, options: ScanOptions): ScannedReference[] {
+  const extensions = options.extensions ?? DEFAULT_EXTENSIONS;
+  const exclude = new Set(options.exclude ?? DEFAULT_EXCLUDE);
+  const references: ScannedReference[] = [];
+
+  const walk = (dir: string) => {
+    for (const entry of readdirSync(dir, { withFileTypes: true })) {
+      if (exclude.has(entry.name)) continue;
+
+      const path = join(dir, entry.name);
+      if (entry.isDirectory()) {
+        walk(path);
+      } else if (entry.isFile() && extensions.includes(extname(entry.name))) {
+        if (statSync(path).size > MAX_FILE_BYTES) continue;
+
+        const file = relative(root, path).split(sep).join("/");
+        references.push(...findReferences(readFileSync(path, "utf8"), file, options.patterns, options.contextLines));
+      }
+    }
+  };
+
+  walk(root);
+  return references;
+}
@@ -0,0 +1,86 @@
+import { Prisma } from "@prisma/client";
+import { z } from "zod";
+import { prisma } from "./prisma";
+
+export const codeReferenceUploadSchema = z.object({
+  repository: z.string().min(1).max(200),
+  branch: z.string().min(1).max(200).optional(),
+  references: z
+    .array(
+      z.object({
+        flagKey: z.string().min(1).max(200),
+        file: z.string().min(1).max(1000),
+        line: z.number().int().positive(),
+        context: z.string().max(2000),
+      })
+    )
+    .max(10000, "Too many references in one upload (max 10000)"),
+});
+
+export type CodeReferenceUpload = z.infer<typeof codeReferenceUploadSchema>;
+
+/**
+ * Replace everything known about one repository with the result of a fresh scan
+ */
+export async function replaceCodeReferences(tenantId: string, upload: CodeReferenceUpload) {
+  return prisma.$transaction(async (tx: Prisma.TransactionClient) => {
+    const repository = await tx.codeReferenceRepository.upsert({
+      where: { tenantId_name: { tenantId, name: upload.repository } },
+      create: { tenantId, name: upload.repository, branch: upload.branch },
+      update: { branch: upload.branch ?? null, scannedAt: new Date() },
+    });
+
+    await tx.codeReference.deleteMany({
+      where: { repositoryId: repository.id, tenantId },
+    });
+
+    const created = await tx.codeReference.createMany({
+      data: upload.references.map((reference) => ({
+        tenantId,
+        repositoryId: repository.id,
+        ...reference,
+      })),
+    });
+
+    return { repository, references: created.count };
+  });
+}
+
+/**
+ * Where a flag key is used, across every scanned repository
+ */
+export async function getFlagCodeReferences(tenantId: string, flagKey: string) {
+  const scannedRepositories = await prisma.codeReferenceRepository.count({
+    where: { tenantId },
+  });
+
+  const references = await prisma.codeReference.findMany({
+    where: { tenantId, flagKey },
+    include: { repository: { select: { name: true, branch: true, scannedAt: true } } },
+    orderBy: [{ file: "asc" }, { line: "asc" }],
+  });
+
+  return { scannedRepositories, references };
+}
+
+/**
+ * Reference counts per flag key, or null before any repository has been scanned
+ * Keys missing from the map have no references
+ */
+export async function countCodeReferences(tenantId: string): Promise<Map<string, number> | null> {
+  const scannedRepositories = await prisma.codeReferenceRepository.count({
+    where: { tenantId },
+  });
+
+  if (scannedRepositories === 0) {
+    return null;
+  }
+
+  const counts = await prisma.codeReference.groupBy({
+    by: ["flagKey"],
+    where: { tenantId },
+    _count: { _all: true },
+  });
+
+  return new Map(counts.map((count) => [count.flagKey, count._count._all]));
+}
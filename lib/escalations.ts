@@ -0,0 +1,383 @@
+import { z } from "zod";
+import { Prisma } from "@prisma/client";
+import { prisma } from "./prisma";
+import { runWithTenantContext, type TenantContext } from "./tenant";
+import { enqueueJob } from "./job-queue";
+import { findNonMembers, getOnCall } from "./on-call";
+
+// IncidentEscalation is not tenant-scoped in the prisma middleware so the worker can
+// poll every tenant; each step runs inside its own tenant context
+
+// How long the worker waits before retrying a level that failed to page
+const RETRY_DELAY_MS = 60_000;
+
+export const escalationLevelSchema = z.object({
+  targetType: z.enum(["USER", "SCHEDULE"]),
+  targetId: z.string().min(1),
+  escalateAfterMinutes: z.number().int().min(1).max(24 * 60),
+});
+
+export const escalationPolicySchema = z.object({
+  name: z.string().min(1).max(100),
+  description: z.string().optional(),
+  service: z.string().min(1, "Service is required"),
+  levels: z
+    .array(escalationLevelSchema)
+    .min(1, "An escalation policy needs at least one level")
+    .max(10, "An escalation policy can have at most 10 levels"),
+  repeatLimit: z.number().int().min(0).max(10).default(0),
+});
+
+export type EscalationLevel = z.infer<typeof escalationLevelSchema>;
+
+interface EscalationPolicyRecord {
+  id: string;
+  name: string;
+  levels: unknown;
+  repeatLimit: number;
+  createdById: string;
+}
+
+interface IncidentRecord {
+  id: string;
+  title: string;
+  severity: string;
+  service: string;
+}
+
+/**
+ * User targets must be members, and schedule targets must exist in the tenant
+ */
+export async function validateEscalationTargets(
+  tenantId: string,
+  levels: EscalationLevel[]
+): Promise<{ valid: boolean; error?: string }> {
+  const userIds = levels.filter((level) => level.targetType === "USER").map((level) => level.targetId);
+  const nonMembers = await findNonMembers(tenantId, userIds);
+  if (nonMembers.length > 0) {
+    return { valid: false, error: `User "${nonMembers[0]}" is not a member of this tenant` };
+  }
+
+  const scheduleIds = [
+    ...new Set(levels.filter((level) => level.targetType === "SCHEDULE").map((level) => level.targetId)),
+  ];
+  if (scheduleIds.length > 0) {
+    const schedules = await prisma.schedule.findMany({
+      where: { tenantId, id: { in: scheduleIds } },
+      select: { id: true },
+    });
+    const found = new Set(schedules.map((schedule: { id: string }) => schedule.id));
+    const missing = scheduleIds.find((id) => !found.has(id));
+    if (missing) {
+      return { valid: false, error: `Schedule "${missing}" not found` };
+    }
+  }
+
+  return { valid: true };
+}
+
+/**
+ * The level to page after one times out, or null once every pass is used up
+ */
+export function nextEscalationStep(
+  policy: { levels: EscalationLevel[]; repeatLimit: number },
+  level: number,
+  cycle: number
+): { level: number; cycle: number } | null {
+  if (level + 1 < policy.levels.length) {
+    return { level: level + 1, cycle };
+  }
+  if (cycle < policy.repeatLimit) {
+    return { level: 0, cycle: cycle + 1 };
+  }
+  return null;
+}
+
+function parseLevels(policy: EscalationPolicyRecord): EscalationLevel[] {
+  return z.array(escalationLevelSchema).parse(policy.levels);
+}
+
+/**
+ * Who a level pages right now: its user if still a member, or whoever is on call for its schedule
+ */
+async function resolveLevelTarget(
+  tenantId: string,
+  level: EscalationLevel,
+  at: Date
+): Promise<{ userId: string; name: string; via?: string } | null> {
+  if (level.targetType === "USER") {
+    const membership = await prisma.membership.findFirst({
+      where: { tenantId, userId: level.targetId },
+      include: { user: { select: { name: true } } },
+    });
+    return membership ? { userId: level.targetId, name: membership.user.name } : null;
+  }
+
+  const [onCall, schedule] = await Promise.all([
+    getOnCall(tenantId, level.targetId, at),
+    prisma.schedule.findFirst({ where: { id: level.targetId, tenantId }, select: { name: true } }),
+  ]);
+  if (!onCall?.user) return null;
+
+  return { userId: onCall.userId, name: onCall.user.name, via: schedule?.name };
+}
+
+async function exhaustEscalation(
+  tenantId: string,
+  escalationId: string,
+  policy: EscalationPolicyRecord,
+  incidentId: string
+) {
+  await prisma.incidentEscalation.update({
+    where: { id: escalationId },
+    data: { status: "EXHAUSTED", nextEscalationAt: null },
+  });
+  await prisma.timelineEvent.create({
+    data: {
+      incidentId,
+      tenantId,
+      type: "ACTION",
+      message: `Escalation policy "${policy.name}" exhausted: nobody acknowledged`,
+      data: { escalationPolicyId: policy.id },
+      createdById: policy.createdById,
+    },
+  });
+}
+
+/**
+ * Page levels starting at `from` until one has someone to page
+ * Paging assigns the incident, notifies the user and writes the timeline. Levels
+ * with nobody to page are skipped; if every remaining level is empty the
+ * escalation is exhausted.
+ */
+async function pageFrom(
+  tenantId: string,
+  escalationId: string,
+  policy: EscalationPolicyRecord,
+  incident: IncidentRecord,
+  from: { level: number; cycle: number },
+  now: Date
+) {
+  const levels = parseLevels(policy);
+  let step: { level: number; cycle: number } | null = from;
+
+  while (step) {
+    const level = levels[step.level];
+    const target = await resolveLevelTarget(tenantId, level, now);
+    const data = {
+      escalationPolicyId: policy.id,
+      level: step.level + 1,
+      repeat: step.cycle,
+      ...(target && { targetUserId: target.userId }),
+    };
+
+    if (!target) {
+      await prisma.timelineEvent.create({
+        data: {
+          incidentId: incident.id,
+          tenantId,
+          type: "ACTION",
+          message: `Escalation policy "${policy.name}": nobody to page at level ${step.level + 1}, skipping`,
+          data,
+          createdById: policy.createdById,
+        },
+      });
+      step = nextEscalationStep({ levels, repeatLimit: policy.repeatLimit }, step.level, step.cycle);
+      continue;
+    }
+
+    const paged = step;
+    await prisma.$transaction(async (tx: Prisma.TransactionClient) => {
+      await tx.incident.update({
+        where: { id: incident.id },
+        data: { assigneeId: target.userId },
+      });
+
+      await tx.timelineEvent.create({
+        data: {
+          incidentId: incident.id,
+          tenantId,
+          type: "ACTION",
+          message: `Escalation policy "${policy.name}": paged ${target.name} at level ${paged.level + 1}${
+            target.via ? ` (on call for "${target.via}")` : ""
+          }${paged.cycle > 0 ? `, repeat ${paged.cycle}` : ""}`,
+          data,
+          createdById: policy.createdById,
+        },
+      });
+
+      // Audit log
+      await tx.auditLog.create({
+        data: {
+          tenantId,
+          actorId: policy.createdById,
+          action: "ESCALATE",
+          entityType: "Incident",
+          entityId: incident.id,
+          afterData: { assigneeId: target.userId },
+          metadata: data,
+        },
+      });
+
+      await tx.incidentEscalation.update({
+        where: { id: escalationId },
+        data: {
+          level: paged.level,
+          cycle: paged.cycle,
+          nextEscalationAt: new Date(now.getTime() + level.escalateAfterMinutes * 60_000),
+        },
+      });
+    });
+
+    await enqueueJob(tenantId, "SEND_NOTIFICATION", {
+      userId: target.userId,
+      type: "incident_escalated",
+      incidentId: incident.id,
+      message: `[${incident.severity}] ${incident.title} (${incident.service}) needs acknowledgement within ${level.escalateAfterMinutes} min`,
+    });
+
+    return { paged: target.userId, level: paged.level, cycle: paged.cycle };
+  }
+
+  await exhaustEscalation(tenantId, escalationId, policy, incident.id);
+  return { paged: null };
+}
+
+/**
+ * Start the service's escalation policy for a newly opened or reopened incident
+ * Called after the incident is created or moved back to OPEN; failures are logged and never block the change
+ */
+export async function startEscalation(tenant: TenantContext, incident: IncidentRecord, now: Date = new Date()) {
+  return runWithTenantContext(tenant, async () => {
+    try {
+      const policy = await prisma.escalationPolicy.findFirst({
+        where: { tenantId: tenant.tenantId, service: incident.service },
+      });
+
+      if (!policy) {
+        return null;
+      }
+
+      // A reopened incident already has a stopped escalation; it starts over from the first level
+      const escalation = await prisma.incidentEscalation.upsert({
+        where: { incidentId: incident.id },
+        create: {
+          tenantId: tenant.tenantId,
+          incidentId: incident.id,
+          policyId: policy.id,
+        },
+        update: { policyId: policy.id, level: 0, cycle: 0, status: "ACTIVE", nextEscalationAt: null },
+      });
+
+      return await pageFrom(tenant.tenantId, escalation.id, policy, incident, { level: 0, cycle: 0 }, now);
+    } catch (error) {
+      console.error(`Failed to start escalation for incident ${incident.id}:`, error);
+      return null;
+    }
+  });
+}
+
+/**
+ * Stop escalating once someone moves the incident out of OPEN
+ */
+export async function stopEscalation(incidentId: string) {
+  return prisma.incidentEscalation.updateMany({
+    where: { incidentId, status: "ACTIVE" },
+    data: { status: "ACKNOWLEDGED", nextEscalationAt: null },
+  });
+}
+
+/**
+ * Get active escalations whose level timed out, oldest first
+ */
+export async function getDueEscalations(now: Date = new Date(), limit: number = 10) {
+  return prisma.incidentEscalation.findMany({
+    where: {
+      status: "ACTIVE",
+      nextEscalationAt: { lte: now },
+    },
+    include: { tenant: { select: { slug: true } }, policy: true },
+    orderBy: { nextEscalationAt: "asc" },
+    take: limit,
+  });
+}
+
+/**
+ * Page the next level of an escalation whose current level wasn't acknowledged in time
+ */
+export async function advanceEscalation(
+  escalation: {
+    id: string;
+    tenantId: string;
+    incidentId: string;
+    level: number;
+    cycle: number;
+    nextEscalationAt: Date | null;
+    tenant: { slug: string };
+    policy: EscalationPolicyRecord;
+  },
+  now: Date = new Date()
+) {
+  // Claim the step so concurrent workers don't page twice
+  const claimed = await prisma.incidentEscalation.updateMany({
+    where: { id: escalation.id, status: "ACTIVE", nextEscalationAt: escalation.nextEscalationAt },
+    data: { nextEscalationAt: null },
+  });
+
+  if (claimed.count === 0) {
+    return { success: false, error: "Already claimed" };
+  }
+
+  return runWithTenantContext({ tenantId: escalation.tenantId, tenantSlug: escalation.tenant.slug }, async () => {
+    const incident = await prisma.incident.findFirst({
+      where: { id: escalation.incidentId, tenantId: escalation.tenantId },
+    });
+
+    // Acknowledged (or further along) without going through stopEscalation
+    if (!incident || incident.status !== "OPEN") {
+      await prisma.incidentEscalation.update({
+        where: { id: escalation.id },
+        data: { status: "ACKNOWLEDGED" },
+      });
+      return { success: true, acknowledged: true };
+    }
+
+    const next = nextEscalationStep(
+      { levels: parseLevels(escalation.policy), repeatLimit: escalation.policy.repeatLimit },
+      escalation.level,
+      escalation.cycle
+    );
+
+    if (!next) {
+      await exhaustEscalation(escalation.tenantId, escalation.id, escalation.policy, incident.id);
+      return { success: true, exhausted: true };
+    }
+
+    try {
+      const result = await pageFrom(escalation.tenantId, escalation.id, escalation.policy, incident, next, now);
+      return { success: true, ...result };
+    } catch (error) {
+      // Put the step back so the next worker pass retries it
+      await prisma.incidentEscalation.update({
+        where: { id: escalation.id },
+        data: { nextEscalationAt: new Date(now.getTime() + RETRY_DELAY_MS) },
+      });
+      return { success: false, error: error instanceof Error ? error.message : "Unknown error" };
+    }
+  });
+}
+
+/**
+ * Escalate every incident whose current level timed out without an acknowledgement
+ */
+export async function processDueEscalations(now: Date = new Date()) {
+  const escalations = await getDueEscalations(now);
+
+  for (const escalation of escalations) {
+    console.log(`[WORKER] Escalating incident ${escalation.incidentId} (policy ${escalation.policyId})`);
+    const result = await advanceEscalation(escalation, now);
+    console.log(`[WORKER] Escalation ${escalation.id} ${result.success ? "advanced" : `not advanced: ${result.error}`}`);
+  }
+
+  return escalations.length;
+}
@@ -0,0 +1,23 @@
+import { createHash } from "crypto";
+
+/**
+ * Compute a strong ETag for a response body
+ */
+export function createEtag(body: string): string {
+  return `"${createHash("sha1").update(body).digest("base64url")}"`;
+}
+
+/**
+ * Check whether a request's If-None-Match header matches an ETag
+ */
+export function matchesEtag(request: Request, etag: string): boolean {
+  const header = request.headers.get("if-none-match");
+  if (!header) {
+    return false;
+  }
+
+  return header
+    .split(",")
+    .map((value) => value.trim().replace(/^W\//, ""))
+    .some((value) => value === etag || value === "*");
+}
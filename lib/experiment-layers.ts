@@ -0,0 +1,125 @@
+import { z } from "zod";
+import { prisma } from "./prisma";
+import type { FlagEnvironment } from "./flag-snapshots";
+
+const ENVIRONMENTS: FlagEnvironment[] = ["DEV", "STAGING", "PROD"];
+
+export const experimentLayerSchema = z.object({
+  name: z.string().min(1).max(100),
+  description: z.string().optional(),
+});
+
+// The slice of a layer's 100 buckets a flag claims
+export const layerSliceSchema = z
+  .object({
+    id: z.string().min(1),
+    start: z.number().int().min(0).max(99),
+    percentage: z.number().int().min(1).max(100),
+  })
+  .refine((slice) => slice.start + slice.percentage <= 100, {
+    message: "Layer slice must end at or before bucket 99",
+  });
+
+export type LayerSlice = z.infer<typeof layerSliceSchema>;
+
+export interface LayerAllocation {
+  environment: FlagEnvironment;
+  allocated: number;
+  slices: { flagId: string; key: string; enabled: boolean; start: number; percentage: number }[];
+}
+
+export function slicesOverlap(
+  a: { start: number; percentage: number },
+  b: { start: number; percentage: number }
+): boolean {
+  return a.start < b.start + b.percentage && b.start < a.start + a.percentage;
+}
+
+/**
+ * A flag's slice must be free in its layer for the flag's environment
+ * Slices in different environments never meet, since evaluation is per environment
+ */
+export async function validateLayerSlice(
+  tenantId: string,
+  flag: { id: string; environment: FlagEnvironment },
+  slice: LayerSlice
+): Promise<{ valid: boolean; error?: string }> {
+  const layer = await prisma.experimentLayer.findFirst({
+    where: { id: slice.id, tenantId },
+  });
+
+  if (!layer) {
+    return { valid: false, error: "experiment layer not found" };
+  }
+
+  const others = await prisma.featureFlag.findMany({
+    where: { tenantId, layerId: slice.id, environment: flag.environment, id: { not: flag.id } },
+    select: { key: true, layerStart: true, layerPercentage: true },
+  });
+
+  const clash = others.find((other) =>
+    slicesOverlap(slice, { start: other.layerStart ?? 0, percentage: other.layerPercentage ?? 0 })
+  );
+  if (clash) {
+    const end = (clash.layerStart ?? 0) + (clash.layerPercentage ?? 0) - 1;
+    return {
+      valid: false,
+      error: `slice overlaps "${clash.key}" (buckets ${clash.layerStart}-${end}) in layer "${layer.name}"`,
+    };
+  }
+
+  return { valid: true };
+}
+
+/**
+ * How much of a layer each environment has handed out, slices in bucket order
+ */
+export function summarizeLayerAllocation(
+  flags: {
+    id: string;
+    key: string;
+    enabled: boolean;
+    environment: FlagEnvironment;
+    layerStart: number | null;
+    layerPercentage: number | null;
+  }[]
+): LayerAllocation[] {
+  return ENVIRONMENTS.map((environment) => {
+    const slices = flags
+      .filter((flag) => flag.environment === environment)
+      .map((flag) => ({
+        flagId: flag.id,
+        key: flag.key,
+        enabled: flag.enabled,
+        start: flag.layerStart ?? 0,
+        percentage: flag.layerPercentage ?? 0,
+      }))
+      .sort((a, b) => a.start - b.start);
+
+    return {
+      environment,
+      allocated: slices.reduce((sum, slice) => sum + slice.percentage, 0),
+      slices,
+    };
+  });
+}
+
+/**
+ * Every layer in the tenant with its allocation per environment
+ */
+export async function getExperimentLayers(tenantId: string) {
+  const layers = await prisma.experimentLayer.findMany({
+    where: { tenantId },
+    include: {
+      flags: {
+        select: { id: true, key: true, enabled: true, environment: true, layerStart: true, layerPercentage: true },
+      },
+    },
+    orderBy: { name: "asc" },
+  });
+
+  return layers.map(({ flags, ...layer }) => ({
+    ...layer,
+    allocations: summarizeLayerAllocation(flags),
+  }));
+}
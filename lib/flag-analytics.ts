@@ -0,0 +1,217 @@
+import { createHash } from "crypto";
+import { z } from "zod";
+import { prisma } from "./prisma";
+import type { FlagEnvironment } from "./flag-snapshots";
+
+const HOUR_MS = 60 * 60 * 1000;
+
+// Rollups and raw events store -1 and "" rather than null so they can be part of the unique key
+const DEFAULT_RULE_INDEX = -1;
+
+export interface FlagEvaluationRecord {
+  flagId: string;
+  environment: FlagEnvironment;
+  userId: string;
+  enabled: boolean;
+  ruleIndex?: number;
+  variant?: string;
+}
+
+// What an SDK reports after it actually served a flag, as opposed to prefetching it
+export const flagExposuresSchema = z.object({
+  userId: z.string().min(1),
+  exposures: z
+    .array(
+      z.object({
+        flagKey: z.string().min(1),
+        enabled: z.boolean(),
+        ruleIndex: z.number().int().min(0).optional(),
+        variant: z.string().optional(),
+      })
+    )
+    .min(1)
+    .max(100),
+});
+
+export type FlagExposures = z.infer<typeof flagExposuresSchema>;
+
+export interface EvaluationBucket {
+  hour: Date;
+  ruleIndex: number;
+  variant: string;
+  enabled: boolean;
+  count: number;
+}
+
+export interface FlagInsights {
+  from: string;
+  hours: number;
+  series: { hour: string; evaluations: number; enabled: number }[];
+  totals: { evaluations: number; enabled: number; disabled: number };
+  rules: { ruleIndex: number; count: number }[];
+  variants: { variant: string; count: number }[];
+}
+
+/**
+ * Hash a user id so evaluation events never hold the raw value
+ */
+export function hashUserId(tenantId: string, userId: string): string {
+  return createHash("sha256").update(`${tenantId}:${userId}`).digest("hex");
+}
+
+export function startOfHour(date: Date): Date {
+  return new Date(Math.floor(date.getTime() / HOUR_MS) * HOUR_MS);
+}
+
+/**
+ * Store evaluation events for analytics
+ * Never throws: a failed insert must not fail the evaluation that produced it
+ */
+export async function recordFlagEvaluations(tenantId: string, evaluations: FlagEvaluationRecord[]) {
+  if (evaluations.length === 0) {
+    return;
+  }
+
+  try {
+    await prisma.flagEvaluationEvent.createMany({
+      data: evaluations.map((evaluation) => ({
+        tenantId,
+        flagId: evaluation.flagId,
+        environment: evaluation.environment,
+        ruleIndex: evaluation.ruleIndex ?? DEFAULT_RULE_INDEX,
+        variant: evaluation.variant ?? "",
+        enabled: evaluation.enabled,
+        userHash: hashUserId(tenantId, evaluation.userId),
+      })),
+    });
+  } catch (error) {
+    console.error("Error recording flag evaluations:", error);
+  }
+}
+
+/**
+ * Record the flags an SDK served, looked up by key in its environment
+ * Keys that no longer exist (e.g. a flag deleted after the client evaluated it) are skipped
+ */
+export async function recordFlagExposures(
+  tenantId: string,
+  environment: FlagEnvironment,
+  { userId, exposures }: FlagExposures
+): Promise<number> {
+  const flags = await prisma.featureFlag.findMany({
+    where: { tenantId, environment, key: { in: exposures.map((exposure) => exposure.flagKey) } },
+    select: { id: true, key: true },
+  });
+  const flagIds = new Map(flags.map((flag) => [flag.key, flag.id]));
+
+  const evaluations = exposures
+    .filter((exposure) => flagIds.has(exposure.flagKey))
+    .map((exposure) => ({
+      flagId: flagIds.get(exposure.flagKey)!,
+      environment,
+      userId,
+      enabled: exposure.enabled,
+      ruleIndex: exposure.ruleIndex,
+      variant: exposure.variant,
+    }));
+
+  await recordFlagEvaluations(tenantId, evaluations);
+  return evaluations.length;
+}
+
+/**
+ * Fold raw events from completed hours into hourly rollups, deleting them in the same statement
+ * Runs from the worker across all tenants, so it goes around the tenant-scoped models
+ */
+export async function rollupFlagEvaluations(now: Date = new Date()): Promise<number> {
+  const cutoff = startOfHour(now);
+
+  return prisma.$executeRaw`
+    WITH rolled AS (
+      DELETE FROM "FlagEvaluationEvent"
+      WHERE "createdAt" < ${cutoff}
+      RETURNING "tenantId", "flagId", "environment", "ruleIndex", "variant", "enabled", "createdAt"
+    )
+    INSERT INTO "FlagEvaluationRollup" ("tenantId", "flagId", "environment", "hour", "ruleIndex", "variant", "enabled", "count")
+    SELECT "tenantId", "flagId", "environment", date_trunc('hour', "createdAt"), "ruleIndex", "variant", "enabled", COUNT(*)::int
+    FROM rolled
+    GROUP BY "tenantId", "flagId", "environment", date_trunc('hour', "createdAt"), "ruleIndex", "variant", "enabled"
+    ON CONFLICT ("flagId", "hour", "ruleIndex", "variant", "enabled")
+    DO UPDATE SET "count" = "FlagEvaluationRollup"."count" + EXCLUDED."count"
+  `;
+}
+
+/**
+ * Summarize evaluation buckets into an hourly series, the true/false split and per-rule and per-variant counts
+ */
+export function summarizeEvaluations(buckets: EvaluationBucket[], from: Date, hours: number): FlagInsights {
+  const series = Array.from({ length: hours }, (_, i) => ({
+    hour: new Date(from.getTime() + i * HOUR_MS).toISOString(),
+    evaluations: 0,
+    enabled: 0,
+  }));
+  const totals = { evaluations: 0, enabled: 0, disabled: 0 };
+  const rules = new Map<number, number>();
+  const variants = new Map<string, number>();
+
+  for (const bucket of buckets) {
+    const slot = series[Math.floor((startOfHour(bucket.hour).getTime() - from.getTime()) / HOUR_MS)];
+    if (!slot) {
+      continue;
+    }
+
+    slot.evaluations += bucket.count;
+    totals.evaluations += bucket.count;
+    if (bucket.enabled) {
+      slot.enabled += bucket.count;
+      totals.enabled += bucket.count;
+    } else {
+      totals.disabled += bucket.count;
+    }
+
+    rules.set(bucket.ruleIndex, (rules.get(bucket.ruleIndex) ?? 0) + bucket.count);
+    if (bucket.variant) {
+      variants.set(bucket.variant, (variants.get(bucket.variant) ?? 0) + bucket.count);
+    }
+  }
+
+  return {
+    from: from.toISOString(),
+    hours,
+    series,
+    totals,
+    rules: [...rules.entries()]
+      .map(([ruleIndex, count]) => ({ ruleIndex, count }))
+      .sort((a, b) => a.ruleIndex - b.ruleIndex),
+    variants: [...variants.entries()]
+      .map(([variant, count]) => ({ variant, count }))
+      .sort((a, b) => b.count - a.count),
+  };
+}
+
+/**
+ * Evaluation analytics for one flag over the last `hours` hours, including the current one
+ * Events the worker hasn't rolled up yet are counted directly
+ */
+export async function getFlagInsights(
+  tenantId: string,
+  flagId: string,
+  hours: number,
+  now: Date = new Date()
+): Promise<FlagInsights> {
+  const from = new Date(startOfHour(now).getTime() - (hours - 1) * HOUR_MS);
+
+  const rollups = await prisma.flagEvaluationRollup.findMany({
+    where: { tenantId, flagId, hour: { gte: from } },
+    select: { hour: true, ruleIndex: true, variant: true, enabled: true, count: true },
+  });
+
+  const pending = await prisma.$queryRaw<EvaluationBucket[]>`
+    SELECT date_trunc('hour', "createdAt") AS "hour", "ruleIndex", "variant", "enabled", COUNT(*)::int AS "count"
+    FROM "FlagEvaluationEvent"
+    WHERE "tenantId" = ${tenantId} AND "flagId" = ${flagId} AND "createdAt" >= ${from}
+    GROUP BY 1, 2, 3, 4
+  `;
+
+  return summarizeEvaluations([...rollups, ...pending], from, hours);
+}
@@ -0,0 +1,432 @@
+import { Prisma } from "@prisma/client";
+import { z } from "zod";
+import { prisma } from "./prisma";
+import {
+  diffFlagSnapshots,
+  toRevisionSnapshot,
+  type FlagRevisionDiff,
+  type FlagRevisionSnapshot,
+  type RevisionRule,
+} from "./flag-revisions";
+import { applyFlagPatch, flagPatchSchema, revertFlagToRevision, type FlagPatchActor } from "./flag-updates";
+import { addFlagRule, addRuleSchema, deleteFlagRule, updateFlagRule, updateRuleSchema } from "./flag-rules";
+import { planPromotion, promoteFlag, PROMOTION_TARGETS } from "./flag-promotion";
+import type { FlagEnvironment } from "./flag-snapshots";
+
+// One entry per mutation endpoint that can be held for approval
+export const requestedChangeSchema = z.discriminatedUnion("type", [
+  z.object({ type: z.literal("update"), patch: flagPatchSchema }),
+  z.object({ type: z.literal("add_rule"), rule: addRuleSchema }),
+  z.object({ type: z.literal("update_rule"), ruleId: z.string().min(1), rule: updateRuleSchema }),
+  z.object({ type: z.literal("delete_rule"), ruleId: z.string().min(1) }),
+  z.object({ type: z.literal("revert"), version: z.number().int().min(1) }),
+  // Held on the source flag; approval depends on the environment it is promoted into
+  z.object({ type: z.literal("promote") }),
+]);
+
+export type RequestedChange = z.infer<typeof requestedChangeSchema>;
+
+// Changes that can be previewed from the flag's own snapshot
+type LocalChange = Exclude<RequestedChange, { type: "revert" | "promote" }>;
+
+export type ChangeRequestResult =
+  | { success: true; changeRequest: Prisma.FlagChangeRequestGetPayload<object> }
+  | { success: false; status: number; error: string };
+
+/**
+ * Whether changes to flags in this environment must go through a change request
+ */
+export async function requiresApproval(tenantId: string, environment: FlagEnvironment): Promise<boolean> {
+  const tenant = await prisma.tenant.findUnique({
+    where: { id: tenantId },
+    select: { flagApprovalEnvironments: true },
+  });
+
+  return tenant?.flagApprovalEnvironments.includes(environment) ?? false;
+}
+
+/**
+ * Why a change that can't be held for review (a delete, a schedule, a rollout plan) must be refused,
+ * or null when the flag's environment doesn't require approval
+ */
+export async function approvalConflict(
+  tenantId: string,
+  environment: FlagEnvironment,
+  action: string
+): Promise<string | null> {
+  if (!(await requiresApproval(tenantId, environment))) {
+    return null;
+  }
+
+  return `Cannot ${action}: changes to ${environment} flags require approval`;
+}
+
+/**
+ * Hold a change for review instead of applying it
+ */
+export async function createFlagChangeRequest(
+  tenantId: string,
+  flagId: string,
+  change: RequestedChange,
+  authorId: string
+) {
+  return prisma.$transaction(async (tx: Prisma.TransactionClient) => {
+    const changeRequest = await tx.flagChangeRequest.create({
+      data: {
+        tenantId,
+        flagId,
+        change: change as unknown as Prisma.InputJsonValue,
+        authorId,
+      },
+    });
+
+    // Audit log
+    await tx.auditLog.create({
+      data: {
+        tenantId,
+        actorId: authorId,
+        action: "REQUEST_CHANGE",
+        entityType: "FeatureFlag",
+        entityId: flagId,
+        afterData: changeRequest,
+        metadata: { changeRequestId: changeRequest.id },
+      },
+    });
+
+    return changeRequest;
+  });
+}
+
+/**
+ * Create a change request instead of applying the change when the flag's environment requires approval
+ * Returns null when the change can be applied directly
+ */
+export async function holdForApproval(
+  tenantId: string,
+  flagId: string,
+  change: RequestedChange,
+  authorId: string
+) {
+  const flag = await prisma.featureFlag.findFirst({
+    where: { id: flagId, tenantId },
+    select: { environment: true },
+  });
+
+  if (!flag) {
+    return null;
+  }
+
+  // A promotion needs approval when the environment it copies into does
+  const environment = change.type === "promote" ? PROMOTION_TARGETS[flag.environment] : flag.environment;
+  if (!environment || !(await requiresApproval(tenantId, environment))) {
+    return null;
+  }
+
+  return createFlagChangeRequest(tenantId, flagId, change, authorId);
+}
+
+/**
+ * Project a requested change onto a flag snapshot so reviewers can see its diff
+ * Validation happens when the change is applied, so this only mirrors the happy path
+ */
+export function previewRequestedChange(
+  snapshot: FlagRevisionSnapshot,
+  change: LocalChange
+): FlagRevisionSnapshot {
+  switch (change.type) {
+    case "update": {
+      const { rules: ruleEdits, ...fields } = change.patch;
+      const defined = Object.fromEntries(Object.entries(fields).filter(([, value]) => value !== undefined));
+      return {
+        ...snapshot,
+        ...defined,
+        rules: snapshot.rules.map((rule) => {
+          const edit = ruleEdits?.find((e) => e.id === rule.id);
+          if (!edit) return rule;
+          return {
+            ...rule,
+            ...(edit.condition !== undefined && {
+              type: String(edit.condition.type),
+              condition: edit.condition,
+            }),
+            ...(edit.serve !== undefined && { serve: edit.serve }),
+          };
+        }),
+      };
+    }
+    case "add_rule": {
+      const order =
+        change.rule.order ?? snapshot.rules.reduce((max, rule) => Math.max(max, rule.order), -1) + 1;
+      const rule: RevisionRule = {
+        id: "requested",
+        type: String(change.rule.condition.type),
+        condition: change.rule.condition,
+        serve: change.rule.serve ?? null,
+        order,
+      };
+      return { ...snapshot, rules: [...snapshot.rules, rule].sort((a, b) => a.order - b.order) };
+    }
+    case "update_rule":
+      return {
+        ...snapshot,
+        rules: snapshot.rules.map((rule) =>
+          rule.id === change.ruleId ? { ...rule, serve: change.rule.serve } : rule
+        ),
+      };
+    case "delete_rule":
+      return { ...snapshot, rules: snapshot.rules.filter((rule) => rule.id !== change.ruleId) };
+  }
+}
+
+/**
+ * Apply a change through the same helper its API endpoint uses
+ */
+export async function applyRequestedChange(
+  tenantId: string,
+  flagId: string,
+  change: RequestedChange,
+  actor: FlagPatchActor
+) {
+  switch (change.type) {
+    case "update":
+      return applyFlagPatch(tenantId, flagId, change.patch, actor);
+    case "add_rule":
+      return addFlagRule(tenantId, flagId, change.rule, actor);
+    case "update_rule":
+      return updateFlagRule(tenantId, flagId, change.ruleId, change.rule, actor);
+    case "delete_rule":
+      return deleteFlagRule(tenantId, flagId, change.ruleId, actor);
+    case "revert":
+      return revertFlagToRevision(tenantId, flagId, change.version, actor.actorId, actor.metadata);
+    case "promote":
+      return promoteFlag(tenantId, flagId, actor.actorId, actor.metadata);
+  }
+}
+
+/**
+ * What a pending change would do to the flag it targets; a promotion diffs the flag it promotes into
+ */
+async function diffRequestedChange(
+  tenantId: string,
+  flagId: string,
+  current: FlagRevisionSnapshot,
+  change: RequestedChange
+): Promise<FlagRevisionDiff | null> {
+  switch (change.type) {
+    case "revert": {
+      const revision = await prisma.flagRevision.findFirst({
+        where: { flagId, tenantId, version: change.version },
+      });
+      return revision ? diffFlagSnapshots(current, revision.snapshot as unknown as FlagRevisionSnapshot) : null;
+    }
+    case "promote": {
+      const planned = await planPromotion(tenantId, flagId);
+      return planned.success ? planned.plan.diff : null;
+    }
+    default:
+      return diffFlagSnapshots(current, previewRequestedChange(current, change));
+  }
+}
+
+/**
+ * A flag's change requests, newest first, with a diff against the flag's current state for pending ones
+ */
+export async function listFlagChangeRequests(tenantId: string, flagId: string, limit: number = 20) {
+  const flag = await prisma.featureFlag.findFirst({
+    where: { id: flagId, tenantId },
+    include: { rules: { orderBy: { order: "asc" } } },
+  });
+
+  if (!flag) {
+    return null;
+  }
+
+  const changeRequests = await prisma.flagChangeRequest.findMany({
+    where: { flagId, tenantId },
+    include: {
+      author: { select: { id: true, name: true } },
+      reviewer: { select: { id: true, name: true } },
+    },
+    orderBy: { createdAt: "desc" },
+    take: limit,
+  });
+
+  const current = toRevisionSnapshot(flag);
+
+  return Promise.all(
+    changeRequests.map(async (changeRequest) => {
+      const change = requestedChangeSchema.safeParse(changeRequest.change);
+      return {
+        ...changeRequest,
+        diff:
+          changeRequest.status === "PENDING" && change.success
+            ? await diffRequestedChange(tenantId, flagId, current, change.data)
+            : null,
+      };
+    })
+  );
+}
+
+/**
+ * Load a pending request and check the reviewer may decide it: an ADMIN who isn't the author
+ */
+async function loadReviewableRequest(
+  tenantId: string,
+  flagId: string,
+  requestId: string,
+  reviewerId: string
+) {
+  const changeRequest = await prisma.flagChangeRequest.findFirst({
+    where: { id: requestId, flagId, tenantId },
+  });
+
+  if (!changeRequest) {
+    return { success: false as const, status: 404, error: "Change request not found" };
+  }
+
+  if (changeRequest.status !== "PENDING") {
+    return { success: false as const, status: 409, error: "Change request is no longer pending" };
+  }
+
+  if (changeRequest.authorId === reviewerId) {
+    return { success: false as const, status: 403, error: "Change requests must be reviewed by someone other than the author" };
+  }
+
+  const membership = await prisma.membership.findFirst({
+    where: { userId: reviewerId, tenantId },
+  });
+
+  if (membership?.role !== "ADMIN") {
+    return { success: false as const, status: 403, error: "Only admins can review change requests" };
+  }
+
+  return { success: true as const, changeRequest };
+}
+
+/**
+ * Approve a pending request and apply its change on behalf of the author
+ * If the change no longer applies (e.g. the rule was deleted meanwhile) the request stays pending with the error
+ */
+export async function approveFlagChangeRequest(
+  tenantId: string,
+  flagId: string,
+  requestId: string,
+  reviewerId: string,
+  comment?: string
+): Promise<ChangeRequestResult> {
+  const loaded = await loadReviewableRequest(tenantId, flagId, requestId, reviewerId);
+  if (!loaded.success) {
+    return loaded;
+  }
+
+  const change = requestedChangeSchema.safeParse(loaded.changeRequest.change);
+  if (!change.success) {
+    return { success: false, status: 400, error: `Invalid change request: ${change.error.issues[0].message}` };
+  }
+
+  // Claim the request so two admins can't apply it twice
+  const claimed = await prisma.flagChangeRequest.updateMany({
+    where: { id: requestId, tenantId, status: "PENDING" },
+    data: {
+      status: "APPROVED",
+      reviewerId,
+      reviewComment: comment ?? null,
+      reviewedAt: new Date(),
+      error: null,
+    },
+  });
+
+  if (claimed.count === 0) {
+    return { success: false, status: 409, error: "Change request is no longer pending" };
+  }
+
+  // Hand the request back for review when the change can't be applied, rather than leave it approved
+  const releaseClaim = (error: string) =>
+    prisma.flagChangeRequest.update({
+      where: { id: requestId },
+      data: { status: "PENDING", reviewerId: null, reviewComment: null, reviewedAt: null, error },
+    });
+
+  let result: Awaited<ReturnType<typeof applyRequestedChange>>;
+  try {
+    result = await applyRequestedChange(tenantId, flagId, change.data, {
+      actorId: loaded.changeRequest.authorId,
+      metadata: { changeRequestId: requestId, approvedById: reviewerId },
+    });
+  } catch (error) {
+    await releaseClaim("Failed to apply change");
+    throw error;
+  }
+
+  if (!result.success) {
+    await releaseClaim(result.error);
+    return result;
+  }
+
+  const changeRequest = await prisma.$transaction(async (tx: Prisma.TransactionClient) => {
+    const approved = await tx.flagChangeRequest.findUniqueOrThrow({ where: { id: requestId } });
+
+    // Audit log
+    await tx.auditLog.create({
+      data: {
+        tenantId,
+        actorId: reviewerId,
+        action: "APPROVE_CHANGE",
+        entityType: "FeatureFlag",
+        entityId: flagId,
+        beforeData: loaded.changeRequest,
+        afterData: approved,
+        metadata: { changeRequestId: requestId },
+      },
+    });
+
+    return approved;
+  });
+
+  return { success: true, changeRequest };
+}
+
+/**
+ * Reject a pending request without applying it
+ */
+export async function rejectFlagChangeRequest(
+  tenantId: string,
+  flagId: string,
+  requestId: string,
+  reviewerId: string,
+  comment: string
+): Promise<ChangeRequestResult> {
+  const loaded = await loadReviewableRequest(tenantId, flagId, requestId, reviewerId);
+  if (!loaded.success) {
+    return loaded;
+  }
+
+  return prisma.$transaction(async (tx: Prisma.TransactionClient) => {
+    const claimed = await tx.flagChangeRequest.updateMany({
+      where: { id: requestId, tenantId, status: "PENDING" },
+      data: { status: "REJECTED", reviewerId, reviewComment: comment, reviewedAt: new Date() },
+    });
+
+    if (claimed.count === 0) {
+      return { success: false as const, status: 409, error: "Change request is no longer pending" };
+    }
+
+    const rejected = await tx.flagChangeRequest.findUniqueOrThrow({ where: { id: requestId } });
+
+    // Audit log
+    await tx.auditLog.create({
+      data: {
+        tenantId,
+        actorId: reviewerId,
+        action: "REJECT_CHANGE",
+        entityType: "FeatureFlag",
+        entityId: flagId,
+        beforeData: loaded.changeRequest,
+        afterData: rejected,
+        metadata: { changeRequestId: requestId, comment },
+      },
+    });
+
+    return { success: true as const, changeRequest: rejected };
+  });
+}
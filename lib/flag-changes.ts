@@ -0,0 +1,60 @@
+import { Prisma } from "@prisma/client";
+import { prisma } from "./prisma";
+import { bumpRulesetVersion, type FlagEnvironment } from "./flag-snapshots";
+
+export type FlagChangeType = "flag_updated" | "flag_deleted" | "rule_changed";
+
+export interface FlagChange {
+  type: FlagChangeType;
+  environment: FlagEnvironment;
+  flagId: string;
+  flagKey: string;
+}
+
+/**
+ * Bump the environment's ruleset version and append a change event for streaming clients
+ * Call inside the transaction that makes the change
+ */
+export async function recordFlagChange(tx: Prisma.TransactionClient, tenantId: string, change: FlagChange) {
+  const version = await bumpRulesetVersion(tx, tenantId, change.environment);
+
+  return tx.flagChangeEvent.create({
+    data: {
+      tenantId,
+      environment: change.environment,
+      type: change.type,
+      flagId: change.flagId,
+      flagKey: change.flagKey,
+      version,
+    },
+  });
+}
+
+/**
+ * Change events after a given event id, oldest first
+ */
+export async function getFlagChangesSince(
+  tenantId: string,
+  environment: FlagEnvironment,
+  afterId: number,
+  limit = 100
+) {
+  return prisma.flagChangeEvent.findMany({
+    where: { tenantId, environment, id: { gt: afterId } },
+    orderBy: { id: "asc" },
+    take: limit,
+  });
+}
+
+/**
+ * Id of the newest change event, or 0 if the environment has none
+ */
+export async function getLatestFlagChangeId(tenantId: string, environment: FlagEnvironment): Promise<number> {
+  const latest = await prisma.flagChangeEvent.findFirst({
+    where: { tenantId, environment },
+    orderBy: { id: "desc" },
+    select: { id: true },
+  });
+
+  return latest?.id ?? 0;
+}
@@ -0,0 +1,229 @@
+import { prisma } from "./prisma";
+import { countCodeReferences } from "./code-references";
+import type { FlagEnvironment } from "./flag-snapshots";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// How long a flag must sit unchanged, or unevaluated, before it is reported
+export const STALE_AFTER_DAYS = 30;
+
+export type FlagLifetime = "TEMPORARY" | "PERMANENT";
+
+export type FlagCleanupStatus = "active" | "permanent" | "stale" | "fully_rolled_out" | "unused";
+
+// Statuses that mean the flag can most likely be deleted from code and from here
+export const REMOVABLE_STATUSES: FlagCleanupStatus[] = ["stale", "fully_rolled_out", "unused"];
+
+export interface CleanupCandidate {
+  lifetime: FlagLifetime;
+  enabled: boolean;
+  rolloutPercentage: number;
+  ruleCount: number;
+  createdAt: Date;
+  // Latest change to the flag or any of its rules
+  lastChangedAt: Date;
+  lastEvaluatedAt: Date | null;
+  // Whether any flag in this environment had an exposure reported in the window
+  exposuresReported: boolean;
+}
+
+export interface FlagCleanupEntry {
+  flagId: string;
+  key: string;
+  name: string;
+  environment: FlagEnvironment;
+  ownerId: string | null;
+  status: FlagCleanupStatus;
+  removable: boolean;
+  reason: string;
+  lastChangedAt: string;
+  lastEvaluatedAt: string | null;
+  // Usages found by the code reference scanner; null until a repository has been scanned
+  codeReferences: number | null;
+  // Removable and not referenced from any scanned repository
+  safeToDelete: boolean;
+}
+
+export interface FlagCleanupReport {
+  generatedAt: string;
+  staleAfterDays: number;
+  counts: Record<FlagCleanupStatus, number>;
+  flags: FlagCleanupEntry[];
+}
+
+/**
+ * Classify one flag for cleanup
+ * Permanent flags are never reported; otherwise a flag no SDK reports serving is unused, and one that
+ * hasn't changed in the window is fully rolled out (on for everyone) or stale
+ * A flag is only called unused where SDKs report exposures at all, since silence means nothing elsewhere
+ */
+export function classifyFlag(
+  flag: CleanupCandidate,
+  now: Date = new Date(),
+  staleAfterDays: number = STALE_AFTER_DAYS
+): { status: FlagCleanupStatus; reason: string } {
+  if (flag.lifetime === "PERMANENT") {
+    return { status: "permanent", reason: "Marked as permanent" };
+  }
+
+  const cutoff = new Date(now.getTime() - staleAfterDays * DAY_MS);
+
+  // Flags younger than the window haven't had a chance to be evaluated yet
+  if (
+    flag.exposuresReported &&
+    flag.createdAt < cutoff &&
+    (!flag.lastEvaluatedAt || flag.lastEvaluatedAt < cutoff)
+  ) {
+    return { status: "unused", reason: `No exposures reported in the last ${staleAfterDays} days` };
+  }
+
+  if (flag.lastChangedAt < cutoff) {
+    if (flag.enabled && flag.rolloutPercentage === 100 && flag.ruleCount === 0) {
+      return { status: "fully_rolled_out", reason: `Served to everyone for over ${staleAfterDays} days` };
+    }
+
+    if (!flag.enabled || (flag.rolloutPercentage === 0 && flag.ruleCount === 0)) {
+      return { status: "stale", reason: `Served to no one for over ${staleAfterDays} days` };
+    }
+
+    return { status: "stale", reason: `Unchanged for over ${staleAfterDays} days` };
+  }
+
+  return { status: "active", reason: "Changed recently" };
+}
+
+/**
+ * Latest reported exposure per flag, from hourly rollups and events not rolled up yet
+ */
+async function getLastEvaluatedAt(tenantId: string): Promise<Map<string, Date>> {
+  const rollups = await prisma.flagEvaluationRollup.groupBy({
+    by: ["flagId"],
+    where: { tenantId },
+    _max: { hour: true },
+  });
+
+  const events = await prisma.flagEvaluationEvent.groupBy({
+    by: ["flagId"],
+    where: { tenantId },
+    _max: { createdAt: true },
+  });
+
+  const lastEvaluated = new Map<string, Date>();
+  const track = (flagId: string, at: Date | null) => {
+    const current = lastEvaluated.get(flagId);
+    if (at && (!current || at > current)) {
+      lastEvaluated.set(flagId, at);
+    }
+  };
+
+  for (const rollup of rollups) track(rollup.flagId, rollup._max.hour);
+  for (const event of events) track(event.flagId, event._max.createdAt);
+
+  return lastEvaluated;
+}
+
+/**
+ * Classify every flag in the tenant for cleanup
+ */
+export async function buildFlagCleanupReport(
+  tenantId: string,
+  now: Date = new Date(),
+  staleAfterDays: number = STALE_AFTER_DAYS
+): Promise<FlagCleanupReport> {
+  const flags = await prisma.featureFlag.findMany({
+    where: { tenantId },
+    include: { rules: { select: { updatedAt: true } } },
+    orderBy: [{ key: "asc" }, { environment: "asc" }],
+  });
+
+  const lastEvaluated = await getLastEvaluatedAt(tenantId);
+  const codeReferenceCounts = await countCodeReferences(tenantId);
+
+  const cutoff = new Date(now.getTime() - staleAfterDays * DAY_MS);
+  const reportingEnvironments = new Set(
+    flags
+      .filter((flag) => (lastEvaluated.get(flag.id) ?? 0) >= cutoff)
+      .map((flag) => flag.environment)
+  );
+
+  const counts: Record<FlagCleanupStatus, number> = {
+    active: 0,
+    permanent: 0,
+    stale: 0,
+    fully_rolled_out: 0,
+    unused: 0,
+  };
+
+  const entries = flags.map((flag) => {
+    // Rule edits don't touch the flag row, so they count separately
+    const lastChangedAt = flag.rules.reduce(
+      (latest, rule) => (rule.updatedAt > latest ? rule.updatedAt : latest),
+      flag.updatedAt
+    );
+    const lastEvaluatedAt = lastEvaluated.get(flag.id) ?? null;
+
+    const { status, reason } = classifyFlag(
+      {
+        lifetime: flag.lifetime,
+        enabled: flag.enabled,
+        // A layer slice caps who can get the flag, so a 100% rollout in a partial slice isn't everyone
+        rolloutPercentage: flag.layerId
+          ? Math.min(flag.rolloutPercentage, flag.layerPercentage ?? 0)
+          : flag.rolloutPercentage,
+        ruleCount: flag.rules.length,
+        createdAt: flag.createdAt,
+        lastChangedAt,
+        lastEvaluatedAt,
+        exposuresReported: reportingEnvironments.has(flag.environment),
+      },
+      now,
+      staleAfterDays
+    );
+    counts[status]++;
+
+    const removable = REMOVABLE_STATUSES.includes(status);
+    const codeReferences = codeReferenceCounts ? codeReferenceCounts.get(flag.key) ?? 0 : null;
+
+    return {
+      flagId: flag.id,
+      key: flag.key,
+      name: flag.name,
+      environment: flag.environment,
+      ownerId: flag.ownerId,
+      status,
+      removable,
+      reason,
+      lastChangedAt: lastChangedAt.toISOString(),
+      lastEvaluatedAt: lastEvaluatedAt?.toISOString() ?? null,
+      codeReferences,
+      safeToDelete: removable && codeReferences === 0,
+    };
+  });
+
+  return {
+    generatedAt: now.toISOString(),
+    staleAfterDays,
+    counts,
+    flags: entries,
+  };
+}
+
+/**
+ * Group removable flags by the user to notify: the flag's owner, or every admin for unowned flags
+ */
+export function groupCleanupByRecipient(
+  report: FlagCleanupReport,
+  adminIds: string[]
+): Map<string, FlagCleanupEntry[]> {
+  const byRecipient = new Map<string, FlagCleanupEntry[]>();
+
+  for (const entry of report.flags) {
+    if (!entry.removable) continue;
+
+    for (const recipientId of entry.ownerId ? [entry.ownerId] : adminIds) {
+      byRecipient.set(recipientId, [...(byRecipient.get(recipientId) ?? []), entry]);
+    }
+  }
+
+  return byRecipient;
+}
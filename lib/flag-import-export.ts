@@ -0,0 +1,384 @@
+import { Prisma } from "@prisma/client";
+import { dump, load, JSON_SCHEMA } from "js-yaml";
+import { z } from "zod";
+import { prisma } from "./prisma";
+import { recordFlagChange } from "./flag-changes";
+import { approvalConflict } from "./flag-change-requests";
+import {
+  diffFlagSnapshots,
+  recordFlagRevision,
+  toRevisionSnapshot,
+  type FlagRevisionDiff,
+  type FlagRevisionSnapshot,
+} from "./flag-revisions";
+import { replaceFlagRules } from "./flag-updates";
+import { getReferencedSegmentIds, loadSegments } from "./segments";
+import { getPrerequisiteGraph, getPrerequisiteKeys } from "./prerequisites";
+import {
+  findPrerequisiteCycle,
+  ruleSchema,
+  serveSchema,
+  validateVariantReferences,
+  variantsSchema,
+} from "@next-ops/flag-evaluator";
+import type { FlagEnvironment } from "./flag-snapshots";
+
+export const FLAG_EXPORT_VERSION = 1;
+
+const ENVIRONMENTS: FlagEnvironment[] = ["DEV", "STAGING", "PROD"];
+
+export type FlagExportFormat = "json" | "yaml";
+
+const environmentConfigSchema = z.object({
+  enabled: z.boolean(),
+  rolloutPercentage: z.number().int().min(0).max(100),
+  variants: variantsSchema.default([]),
+  defaultServe: serveSchema.nullable().default(null),
+  offVariant: z.string().nullable().default(null),
+  rules: z
+    .array(
+      z.object({
+        condition: ruleSchema,
+        serve: serveSchema.nullable().default(null),
+      })
+    )
+    .default([]),
+});
+
+type EnvironmentConfig = z.infer<typeof environmentConfigSchema>;
+
+/**
+ * The export/import document; see "Feature Flags: Import and Export" in the README
+ * Settings are per environment, name, description and lifetime are shared by every environment of a key
+ */
+export const flagExportSchema = z.object({
+  version: z.literal(FLAG_EXPORT_VERSION),
+  exportedAt: z.string().optional(),
+  flags: z.array(
+    z.object({
+      key: z.string().min(1).regex(/^[a-z0-9_-]+$/, "Key must be lowercase alphanumeric with hyphens/underscores"),
+      name: z.string().min(1),
+      description: z.string().nullable().default(null),
+      lifetime: z.enum(["TEMPORARY", "PERMANENT"]).default("TEMPORARY"),
+      environments: z.partialRecord(z.enum(["DEV", "STAGING", "PROD"]), environmentConfigSchema),
+    })
+  ),
+});
+
+export type FlagExport = z.infer<typeof flagExportSchema>;
+
+export type FlagImportAction = "create" | "update" | "unchanged" | "conflict";
+
+export interface FlagImportChange {
+  key: string;
+  environment: FlagEnvironment;
+  action: FlagImportAction;
+  flagId: string | null;
+  diff: FlagRevisionDiff | null;
+  error: string | null;
+}
+
+export interface FlagImportPlan {
+  summary: Record<FlagImportAction, number>;
+  changes: FlagImportChange[];
+}
+
+interface PlannedFlag extends FlagImportChange {
+  after: FlagRevisionSnapshot;
+  lifetime: "TEMPORARY" | "PERMANENT";
+  rulesChanged: boolean;
+}
+
+/**
+ * Every flag in the tenant, grouped by key
+ */
+export async function exportFlags(tenantId: string): Promise<FlagExport> {
+  const flags = await prisma.featureFlag.findMany({
+    where: { tenantId },
+    include: { rules: { orderBy: { order: "asc" } } },
+    orderBy: { key: "asc" },
+  });
+
+  const byKey = new Map<string, FlagExport["flags"][number]>();
+
+  for (const environment of ENVIRONMENTS) {
+    for (const flag of flags.filter((f) => f.environment === environment)) {
+      const entry = byKey.get(flag.key) ?? {
+        key: flag.key,
+        name: flag.name,
+        description: flag.description,
+        lifetime: flag.lifetime,
+        environments: {},
+      };
+
+      entry.environments[environment] = {
+        enabled: flag.enabled,
+        rolloutPercentage: flag.rolloutPercentage,
+        variants: flag.variants as EnvironmentConfig["variants"],
+        defaultServe: flag.defaultServe as EnvironmentConfig["defaultServe"],
+        offVariant: flag.offVariant,
+        rules: flag.rules.map((rule) => ({
+          condition: rule.condition as EnvironmentConfig["rules"][number]["condition"],
+          serve: rule.serve as EnvironmentConfig["rules"][number]["serve"],
+        })),
+      };
+
+      byKey.set(flag.key, entry);
+    }
+  }
+
+  return {
+    version: FLAG_EXPORT_VERSION,
+    exportedAt: new Date().toISOString(),
+    flags: [...byKey.values()].sort((a, b) => a.key.localeCompare(b.key)),
+  };
+}
+
+export function serializeFlagExport(document: FlagExport, format: FlagExportFormat): string {
+  return format === "yaml"
+    ? dump(document, { schema: JSON_SCHEMA, noRefs: true, lineWidth: -1 })
+    : `${JSON.stringify(document, null, 2)}\n`;
+}
+
+/**
+ * Parse and validate an import document
+ */
+export function parseFlagImport(
+  text: string,
+  format: FlagExportFormat
+): { success: true; document: FlagExport } | { success: false; error: string } {
+  let raw: unknown;
+  try {
+    // JSON_SCHEMA keeps YAML from turning dates and other scalars into non-JSON values
+    raw = format === "yaml" ? load(text, { schema: JSON_SCHEMA }) : JSON.parse(text);
+  } catch (error) {
+    return {
+      success: false,
+      error: `Invalid ${format.toUpperCase()}: ${error instanceof Error ? error.message : "parse error"}`,
+    };
+  }
+
+  const parsed = flagExportSchema.safeParse(raw);
+  if (!parsed.success) {
+    const issue = parsed.error.issues[0];
+    const path = issue.path.length > 0 ? `${issue.path.join(".")}: ` : "";
+    return { success: false, error: `${path}${issue.message}` };
+  }
+
+  const keys = parsed.data.flags.map((flag) => flag.key);
+  const duplicate = keys.find((key, index) => keys.indexOf(key) !== index);
+  if (duplicate) {
+    return { success: false, error: `Flag "${duplicate}" appears more than once` };
+  }
+
+  return { success: true, document: parsed.data };
+}
+
+const ruleContent = (rules: { condition: unknown; serve: unknown }[]) =>
+  JSON.stringify(rules.map((rule) => [rule.condition, rule.serve ?? null]));
+
+async function planFlags(tenantId: string, document: FlagExport): Promise<PlannedFlag[]> {
+  const existing = await prisma.featureFlag.findMany({
+    where: { tenantId, key: { in: document.flags.map((flag) => flag.key) } },
+    include: { rules: { orderBy: { order: "asc" } } },
+  });
+
+  // Segments are tenant-specific, so SEGMENT rules copied from another tenant won't resolve
+  const segmentIds = document.flags.flatMap((flag) =>
+    Object.values(flag.environments).flatMap((config) => getReferencedSegmentIds(config.rules))
+  );
+  const segments = await loadSegments(tenantId, [...new Set(segmentIds)]);
+
+  const planned: PlannedFlag[] = [];
+
+  for (const environment of ENVIRONMENTS) {
+    const imported = document.flags.filter((flag) => flag.environments[environment]);
+    if (imported.length === 0) continue;
+
+    // Prerequisites may point at flags created by this same import
+    const graph = await getPrerequisiteGraph(tenantId, environment);
+    for (const flag of imported) {
+      graph[flag.key] = getPrerequisiteKeys(flag.environments[environment]!.rules);
+    }
+
+    for (const flag of imported) {
+      const config = flag.environments[environment]!;
+      const current = existing.find((f) => f.key === flag.key && f.environment === environment);
+      const before = current ? toRevisionSnapshot(current) : null;
+      const after: FlagRevisionSnapshot = {
+        name: flag.name,
+        key: flag.key,
+        description: flag.description,
+        enabled: config.enabled,
+        environment,
+        rolloutPercentage: config.rolloutPercentage,
+        variants: config.variants,
+        defaultServe: config.defaultServe,
+        offVariant: config.offVariant,
+        rules: config.rules.map((rule, order) => ({
+          id: `imported-${order}`,
+          type: rule.condition.type,
+          condition: rule.condition,
+          serve: rule.serve,
+          order,
+        })),
+      };
+
+      const missingSegments = getReferencedSegmentIds(config.rules).filter((id) => !segments[id]);
+      const missingPrerequisites = getPrerequisiteKeys(config.rules).filter((key) => !(key in graph));
+      const cycle = findPrerequisiteCycle(flag.key, graph);
+      const variantCheck = validateVariantReferences(
+        config.variants,
+        [config.defaultServe, ...config.rules.map((rule) => rule.serve)],
+        config.offVariant
+      );
+
+      let error: string | null = null;
+      if (missingSegments.length > 0) {
+        error = `segment not found (${missingSegments.join(", ")})`;
+      } else if (missingPrerequisites.length > 0) {
+        error = `prerequisite flag not found in ${environment} (${missingPrerequisites.join(", ")})`;
+      } else if (cycle) {
+        error = `prerequisite cycle (${cycle.join(" → ")})`;
+      } else if (!variantCheck.valid) {
+        error = `invalid variants: ${variantCheck.error}`;
+      }
+
+      const diff = diffFlagSnapshots(before, after);
+      const rulesChanged = !current || ruleContent(current.rules) !== ruleContent(after.rules);
+      const changed = !current || diff.fields.length > 0 || rulesChanged || current.lifetime !== flag.lifetime;
+
+      planned.push({
+        key: flag.key,
+        environment,
+        action: error ? "conflict" : !current ? "create" : changed ? "update" : "unchanged",
+        flagId: current?.id ?? null,
+        diff: error || changed ? diff : null,
+        error,
+        after,
+        lifetime: flag.lifetime,
+        rulesChanged,
+      });
+    }
+  }
+
+  return planned;
+}
+
+const toPlan = (planned: PlannedFlag[]): FlagImportPlan => ({
+  summary: {
+    create: planned.filter((flag) => flag.action === "create").length,
+    update: planned.filter((flag) => flag.action === "update").length,
+    unchanged: planned.filter((flag) => flag.action === "unchanged").length,
+    conflict: planned.filter((flag) => flag.action === "conflict").length,
+  },
+  changes: planned.map(({ key, environment, action, flagId, diff, error }) => ({
+    key,
+    environment,
+    action,
+    flagId,
+    diff,
+    error,
+  })),
+});
+
+/**
+ * What importing a document would create and update, and what blocks it, without writing anything
+ */
+export async function planFlagImport(tenantId: string, document: FlagExport): Promise<FlagImportPlan> {
+  return toPlan(await planFlags(tenantId, document));
+}
+
+/**
+ * Import a document in one transaction; nothing is written if any flag conflicts or
+ * would change in an environment that requires approval
+ * Flags and environments missing from the document are left alone
+ */
+export async function importFlags(tenantId: string, document: FlagExport, actorId: string) {
+  const planned = await planFlags(tenantId, document);
+  const plan = toPlan(planned);
+
+  if (plan.summary.conflict > 0) {
+    return { success: false as const, status: 409, error: "Import has conflicts", plan };
+  }
+
+  // An import can't be held as one change request, so it is refused where changes need approval
+  const environments = new Set(
+    planned.filter((flag) => flag.action === "create" || flag.action === "update").map((flag) => flag.environment)
+  );
+  for (const environment of environments) {
+    const conflict = await approvalConflict(tenantId, environment, "import flags");
+    if (conflict) {
+      return { success: false as const, status: 409, error: conflict, plan };
+    }
+  }
+
+  await prisma.$transaction(
+    async (tx: Prisma.TransactionClient) => {
+      for (const flag of planned) {
+        if (flag.action !== "create" && flag.action !== "update") continue;
+
+        const { after } = flag;
+        const data = {
+          name: after.name,
+          description: after.description,
+          enabled: after.enabled,
+          rolloutPercentage: after.rolloutPercentage,
+          lifetime: flag.lifetime,
+          variants: after.variants as Prisma.InputJsonValue,
+          defaultServe: after.defaultServe ? (after.defaultServe as Prisma.InputJsonValue) : Prisma.JsonNull,
+          offVariant: after.offVariant,
+        };
+
+        const before = flag.flagId
+          ? await tx.featureFlag.findUniqueOrThrow({ where: { id: flag.flagId }, include: { rules: true } })
+          : null;
+
+        const saved = before
+          ? await tx.featureFlag.update({ where: { id: before.id }, data })
+          : await tx.featureFlag.create({
+              data: { ...data, tenantId, key: after.key, environment: flag.environment, ownerId: actorId },
+            });
+
+        if (flag.rulesChanged) {
+          await replaceFlagRules(tx, saved.id, after.rules);
+        }
+
+        const imported = await tx.featureFlag.findUniqueOrThrow({
+          where: { id: saved.id },
+          include: { rules: { orderBy: { order: "asc" } } },
+        });
+
+        await recordFlagChange(tx, tenantId, {
+          type: flag.rulesChanged ? "rule_changed" : "flag_updated",
+          environment: flag.environment,
+          flagId: saved.id,
+          flagKey: saved.key,
+        });
+
+        await recordFlagRevision(tx, tenantId, saved.id, {
+          changeType: before ? "updated" : "created",
+          actorId,
+          metadata: { imported: true },
+        });
+
+        // Audit log
+        await tx.auditLog.create({
+          data: {
+            tenantId,
+            actorId,
+            action: "IMPORT",
+            entityType: "FeatureFlag",
+            entityId: saved.id,
+            ...(before && { beforeData: before }),
+            afterData: imported,
+          },
+        });
+      }
+    },
+    // Large imports write many rows; the default 5s interactive transaction timeout is too tight
+    { timeout: 60_000 }
+  );
+
+  return { success: true as const, plan };
+}
@@ -0,0 +1,195 @@
+import { Prisma } from "@prisma/client";
+import { prisma } from "./prisma";
+import { recordFlagChange } from "./flag-changes";
+import {
+  diffFlagSnapshots,
+  recordFlagRevision,
+  snapshotLifecycleData,
+  toRevisionSnapshot,
+  type FlagRevisionDiff,
+  type FlagRevisionSnapshot,
+} from "./flag-revisions";
+import { replaceFlagRules, validateFlagConfiguration } from "./flag-updates";
+import type { FlagEnvironment } from "./flag-snapshots";
+
+// Flags only move forward through environments, one step at a time
+export const PROMOTION_TARGETS: Partial<Record<FlagEnvironment, FlagEnvironment>> = {
+  DEV: "STAGING",
+  STAGING: "PROD",
+};
+
+export interface PromotionPlan {
+  sourceFlagId: string;
+  sourceEnvironment: FlagEnvironment;
+  targetEnvironment: FlagEnvironment;
+  targetFlagId: string | null;
+  before: FlagRevisionSnapshot | null;
+  after: FlagRevisionSnapshot;
+  diff: FlagRevisionDiff;
+  // Set when the copy can't be applied, e.g. a rule references a segment or flag missing on the target
+  error: string | null;
+}
+
+export type PromotionPlanResult =
+  | { success: true; plan: PromotionPlan }
+  | { success: false; status: number; error: string };
+
+/**
+ * Work out what promoting a flag to the next environment would change, without writing anything
+ * Enabled state, rollout percentage and rules are copied; variants, default serve and off variant
+ * come along too because rule serves reference them. Lifetime, owner and layer slice follow the source.
+ * Name and description stay as they are on the target.
+ */
+export async function planPromotion(tenantId: string, flagId: string): Promise<PromotionPlanResult> {
+  const source = await prisma.featureFlag.findFirst({
+    where: { id: flagId, tenantId },
+    include: { rules: { orderBy: { order: "asc" } } },
+  });
+
+  if (!source) {
+    return { success: false, status: 404, error: "Feature flag not found" };
+  }
+
+  const targetEnvironment = PROMOTION_TARGETS[source.environment];
+  if (!targetEnvironment) {
+    return { success: false, status: 400, error: `${source.environment} flags cannot be promoted` };
+  }
+
+  const target = await prisma.featureFlag.findFirst({
+    where: { tenantId, key: source.key, environment: targetEnvironment },
+    include: { rules: { orderBy: { order: "asc" } } },
+  });
+
+  const sourceSnapshot = toRevisionSnapshot(source);
+  const before = target ? toRevisionSnapshot(target) : null;
+  const after: FlagRevisionSnapshot = {
+    name: before?.name ?? sourceSnapshot.name,
+    key: sourceSnapshot.key,
+    description: before ? before.description : sourceSnapshot.description,
+    enabled: sourceSnapshot.enabled,
+    environment: targetEnvironment,
+    rolloutPercentage: sourceSnapshot.rolloutPercentage,
+    variants: sourceSnapshot.variants,
+    defaultServe: sourceSnapshot.defaultServe,
+    offVariant: sourceSnapshot.offVariant,
+    lifetime: sourceSnapshot.lifetime,
+    ownerId: sourceSnapshot.ownerId,
+    layerId: sourceSnapshot.layerId,
+    layerStart: sourceSnapshot.layerStart,
+    layerPercentage: sourceSnapshot.layerPercentage,
+    rules: sourceSnapshot.rules,
+  };
+
+  // Segments and layers are tenant-wide, but prerequisite flags and layer slices are checked in the target environment
+  const validation = await validateFlagConfiguration(
+    tenantId,
+    { ...(target && { id: target.id }), key: after.key, environment: targetEnvironment },
+    after
+  );
+
+  return {
+    success: true,
+    plan: {
+      sourceFlagId: source.id,
+      sourceEnvironment: source.environment,
+      targetEnvironment,
+      targetFlagId: target?.id ?? null,
+      before,
+      after,
+      diff: diffFlagSnapshots(before, after),
+      error: validation.valid ? null : `Cannot promote: ${validation.error}`,
+    },
+  };
+}
+
+/**
+ * Copy a flag's configuration to the next environment, creating the flag there if needed
+ */
+export async function promoteFlag(
+  tenantId: string,
+  flagId: string,
+  actorId: string,
+  actorMetadata?: Record<string, unknown>
+) {
+  const planned = await planPromotion(tenantId, flagId);
+  if (!planned.success) {
+    return planned;
+  }
+
+  const { plan } = planned;
+  if (plan.error) {
+    return { success: false as const, status: 400, error: plan.error };
+  }
+
+  const existingTarget = plan.targetFlagId
+    ? await prisma.featureFlag.findFirst({
+        where: { id: plan.targetFlagId, tenantId },
+        include: { rules: { orderBy: { order: "asc" } } },
+      })
+    : null;
+
+  const { after } = plan;
+  const data = {
+    enabled: after.enabled,
+    rolloutPercentage: after.rolloutPercentage,
+    variants: (after.variants ?? []) as Prisma.InputJsonValue,
+    defaultServe: after.defaultServe ? (after.defaultServe as Prisma.InputJsonValue) : Prisma.JsonNull,
+    offVariant: after.offVariant,
+    ...snapshotLifecycleData(after),
+  };
+
+  const flag = await prisma.$transaction(async (tx: Prisma.TransactionClient) => {
+    const target = existingTarget
+      ? await tx.featureFlag.update({ where: { id: existingTarget.id }, data })
+      : await tx.featureFlag.create({
+          data: {
+            ...data,
+            tenantId,
+            key: after.key,
+            name: after.name,
+            description: after.description,
+            environment: plan.targetEnvironment,
+            ownerId: after.ownerId ?? actorId,
+          },
+        });
+
+    await replaceFlagRules(tx, target.id, after.rules);
+
+    const promoted = await tx.featureFlag.findUniqueOrThrow({
+      where: { id: target.id },
+      include: { rules: { orderBy: { order: "asc" } } },
+    });
+
+    await recordFlagChange(tx, tenantId, {
+      type: existingTarget ? "rule_changed" : "flag_updated",
+      environment: plan.targetEnvironment,
+      flagId: promoted.id,
+      flagKey: promoted.key,
+    });
+
+    const metadata = { sourceFlagId: plan.sourceFlagId, promotedFrom: plan.sourceEnvironment, ...actorMetadata };
+
+    await recordFlagRevision(tx, tenantId, promoted.id, {
+      changeType: "promoted",
+      actorId,
+      metadata,
+    });
+
+    await tx.auditLog.create({
+      data: {
+        tenantId,
+        actorId,
+        action: "PROMOTE",
+        entityType: "FeatureFlag",
+        entityId: promoted.id,
+        ...(existingTarget && { beforeData: existingTarget }),
+        afterData: promoted,
+        metadata,
+      },
+    });
+
+    return promoted;
+  });
+
+  return { success: true as const, flag, created: !existingTarget };
+}
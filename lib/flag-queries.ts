@@ -0,0 +1,36 @@
+import { prisma } from "./prisma";
+
+export interface FlagFilters {
+  environment?: "DEV" | "STAGING" | "PROD";
+  search?: string;
+}
+
+/**
+ * List a tenant's flags with their rules in evaluation order
+ */
+export async function findTenantFlags(tenantId: string, filters: FlagFilters = {}) {
+  const where: Record<string, unknown> = {
+    tenantId,
+  };
+
+  if (filters.environment) {
+    where.environment = filters.environment;
+  }
+
+  if (filters.search) {
+    where.OR = [
+      { key: { contains: filters.search, mode: "insensitive" } },
+      { name: { contains: filters.search, mode: "insensitive" } },
+    ];
+  }
+
+  return prisma.featureFlag.findMany({
+    where,
+    include: {
+      rules: {
+        orderBy: { order: "asc" },
+      },
+    },
+    orderBy: { createdAt: "desc" },
+  });
+}
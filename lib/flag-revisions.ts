@@ -0,0 +1,198 @@
+import { Prisma, type FlagLifetime } from "@prisma/client";
+
+export type FlagRevisionChange =
+  | "baseline"
+  | "created"
+  | "updated"
+  | "rule_added"
+  | "rule_updated"
+  | "rule_deleted"
+  | "reverted"
+  | "promoted";
+
+export interface RevisionRule {
+  id: string;
+  type: string;
+  condition: unknown;
+  serve: unknown;
+  order: number;
+}
+
+export interface FlagRevisionSnapshot {
+  name: string;
+  key: string;
+  description: string | null;
+  enabled: boolean;
+  environment: string;
+  rolloutPercentage: number;
+  variants: unknown;
+  defaultServe: unknown;
+  offVariant: string | null;
+  // Missing from revisions recorded before lifecycle and layer fields were captured
+  lifetime?: string;
+  ownerId?: string | null;
+  layerId?: string | null;
+  layerStart?: number | null;
+  layerPercentage?: number | null;
+  rules: RevisionRule[];
+}
+
+export interface FlagRevisionDiff {
+  fields: { field: string; before: unknown; after: unknown }[];
+  rules: {
+    added: RevisionRule[];
+    removed: RevisionRule[];
+    changed: { before: RevisionRule; after: RevisionRule }[];
+    unchanged: number;
+  };
+}
+
+// Fields restored on revert; environment is part of the flag's identity and never changes
+const REVISION_FIELDS = [
+  "name",
+  "key",
+  "description",
+  "enabled",
+  "rolloutPercentage",
+  "variants",
+  "defaultServe",
+  "offVariant",
+  "lifetime",
+  "ownerId",
+  "layerId",
+  "layerStart",
+  "layerPercentage",
+] as const;
+
+/**
+ * Capture a flag and its ordered rules as an immutable revision snapshot
+ */
+export function toRevisionSnapshot(
+  flag: Omit<FlagRevisionSnapshot, "rules"> & { rules: RevisionRule[] }
+): FlagRevisionSnapshot {
+  return {
+    name: flag.name,
+    key: flag.key,
+    description: flag.description,
+    enabled: flag.enabled,
+    environment: flag.environment,
+    rolloutPercentage: flag.rolloutPercentage,
+    variants: flag.variants,
+    defaultServe: flag.defaultServe,
+    offVariant: flag.offVariant,
+    lifetime: flag.lifetime,
+    ownerId: flag.ownerId,
+    layerId: flag.layerId,
+    layerStart: flag.layerStart,
+    layerPercentage: flag.layerPercentage,
+    rules: [...flag.rules]
+      .sort((a, b) => a.order - b.order)
+      .map((rule) => ({
+        id: rule.id,
+        type: rule.type,
+        condition: rule.condition,
+        serve: rule.serve,
+        order: rule.order,
+      })),
+  };
+}
+
+/**
+ * Prisma data for the lifecycle and layer fields a snapshot captured
+ * Older snapshots don't have them, so the flag keeps its current values
+ */
+export function snapshotLifecycleData(snapshot: FlagRevisionSnapshot) {
+  return {
+    ...(snapshot.lifetime !== undefined && { lifetime: snapshot.lifetime as FlagLifetime }),
+    ...(snapshot.ownerId !== undefined && { ownerId: snapshot.ownerId }),
+    ...(snapshot.layerId !== undefined && {
+      layerId: snapshot.layerId,
+      layerStart: snapshot.layerStart ?? null,
+      layerPercentage: snapshot.layerPercentage ?? null,
+    }),
+  };
+}
+
+/**
+ * Append a revision with the flag's current state
+ * Call inside the transaction that makes the change, after the change is written
+ */
+export async function recordFlagRevision(
+  tx: Prisma.TransactionClient,
+  tenantId: string,
+  flagId: string,
+  revision: { changeType: FlagRevisionChange; actorId: string | null; metadata?: Record<string, unknown> }
+) {
+  // The increment locks the flag row, so concurrent writers get consecutive versions instead of the same one
+  const flag = await tx.featureFlag.update({
+    where: { id: flagId, tenantId },
+    data: { revisionCount: { increment: 1 } },
+    include: { rules: { orderBy: { order: "asc" } } },
+  });
+
+  return tx.flagRevision.create({
+    data: {
+      tenantId,
+      flagId,
+      version: flag.revisionCount,
+      snapshot: toRevisionSnapshot(flag) as unknown as Prisma.InputJsonValue,
+      changeType: revision.changeType,
+      actorId: revision.actorId,
+      ...(revision.metadata && { metadata: revision.metadata as Prisma.InputJsonValue }),
+    },
+  });
+}
+
+const sameJson = (a: unknown, b: unknown) => JSON.stringify(a ?? null) === JSON.stringify(b ?? null);
+
+const sameRuleContent = (a: RevisionRule, b: RevisionRule) =>
+  a.type === b.type && sameJson(a.condition, b.condition) && sameJson(a.serve, b.serve);
+
+/**
+ * Diff two revision snapshots; a null "before" treats everything in "after" as added
+ * Fields either snapshot didn't capture are skipped rather than reported as cleared
+ * Rules are matched by id, then by identical content so re-created rules (e.g. after a revert) aren't reported twice
+ */
+export function diffFlagSnapshots(
+  before: FlagRevisionSnapshot | null,
+  after: FlagRevisionSnapshot
+): FlagRevisionDiff {
+  const fields = REVISION_FIELDS.filter(
+    (field) =>
+      after[field] !== undefined && (!before || (before[field] !== undefined && !sameJson(before[field], after[field])))
+  ).map(
+    (field) => ({ field, before: before ? before[field] : null, after: after[field] })
+  );
+
+  const remaining = [...(before?.rules ?? [])];
+  const unmatched: RevisionRule[] = [];
+  const changed: FlagRevisionDiff["rules"]["changed"] = [];
+  let unchanged = 0;
+
+  for (const rule of after.rules) {
+    const index = remaining.findIndex((candidate) => candidate.id === rule.id);
+    if (index === -1) {
+      unmatched.push(rule);
+      continue;
+    }
+    const [previous] = remaining.splice(index, 1);
+    if (sameRuleContent(previous, rule)) {
+      unchanged++;
+    } else {
+      changed.push({ before: previous, after: rule });
+    }
+  }
+
+  const added: RevisionRule[] = [];
+  for (const rule of unmatched) {
+    const index = remaining.findIndex((candidate) => sameRuleContent(candidate, rule));
+    if (index === -1) {
+      added.push(rule);
+    } else {
+      remaining.splice(index, 1);
+      unchanged++;
+    }
+  }
+
+  return { fields, rules: { added, removed: remaining, changed, unchanged } };
+}
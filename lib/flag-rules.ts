@@ -0,0 +1,241 @@
+import { Prisma } from "@prisma/client";
+import { z } from "zod";
+import { prisma } from "./prisma";
+import { recordFlagChange } from "./flag-changes";
+import { recordFlagRevision } from "./flag-revisions";
+import { validateRuleCondition, type FlagPatchActor } from "./flag-updates";
+import { serveSchema, validateVariantReferences, type Rule } from "@next-ops/flag-evaluator";
+
+export const addRuleSchema = z.object({
+  condition: z.record(z.string(), z.unknown()),
+  order: z.number().optional(),
+  serve: serveSchema.optional(),
+});
+
+export const updateRuleSchema = z.object({
+  serve: serveSchema.nullable(),
+});
+
+export type AddRuleInput = z.infer<typeof addRuleSchema>;
+export type UpdateRuleInput = z.infer<typeof updateRuleSchema>;
+
+export type FlagRuleResult =
+  | { success: true; rule: Prisma.RuleGetPayload<object> }
+  | { success: false; status: number; error: string };
+
+/**
+ * Add a targeting rule to a flag
+ * Shared by POST /api/feature-flags/[id]/rules and approved change requests
+ */
+export async function addFlagRule(
+  tenantId: string,
+  flagId: string,
+  input: AddRuleInput,
+  actor: FlagPatchActor
+): Promise<FlagRuleResult> {
+  const flag = await prisma.featureFlag.findFirst({
+    where: { id: flagId, tenantId },
+  });
+
+  if (!flag) {
+    return { success: false, status: 404, error: "Feature flag not found" };
+  }
+
+  // Validate the rule condition, its segments and prerequisites
+  const validation = await validateRuleCondition(tenantId, flag, input.condition);
+  if (!validation.valid) {
+    return { success: false, status: 400, error: `Invalid rule: ${validation.error}` };
+  }
+
+  if (input.serve) {
+    const variantCheck = validateVariantReferences(flag.variants, [input.serve]);
+    if (!variantCheck.valid) {
+      return { success: false, status: 400, error: `Invalid rule: ${variantCheck.error}` };
+    }
+  }
+
+  // Get the next order number if not provided
+  let order = input.order;
+  if (order === undefined) {
+    const maxOrder = await prisma.rule.aggregate({
+      where: { flagId },
+      _max: { order: true },
+    });
+    order = (maxOrder._max.order ?? -1) + 1;
+  }
+
+  const rule = await prisma.$transaction(async (tx: Prisma.TransactionClient) => {
+    const newRule = await tx.rule.create({
+      data: {
+        flagId,
+        type: (input.condition as { type: string }).type as Rule["type"],
+        condition: input.condition as unknown as Prisma.InputJsonValue,
+        serve: input.serve as Prisma.InputJsonValue | undefined,
+        order,
+      },
+    });
+
+    await recordFlagChange(tx, tenantId, {
+      type: "rule_changed",
+      environment: flag.environment,
+      flagId,
+      flagKey: flag.key,
+    });
+
+    await recordFlagRevision(tx, tenantId, flagId, {
+      changeType: "rule_added",
+      actorId: actor.actorId,
+      metadata: actor.metadata,
+    });
+
+    await tx.auditLog.create({
+      data: {
+        tenantId,
+        actorId: actor.actorId,
+        action: "ADD_RULE",
+        entityType: "FeatureFlag",
+        entityId: flagId,
+        afterData: newRule,
+        ...(actor.metadata && { metadata: actor.metadata as Prisma.InputJsonValue }),
+      },
+    });
+
+    return newRule;
+  });
+
+  return { success: true, rule };
+}
+
+/**
+ * Change the variant a rule serves
+ */
+export async function updateFlagRule(
+  tenantId: string,
+  flagId: string,
+  ruleId: string,
+  input: UpdateRuleInput,
+  actor: FlagPatchActor
+): Promise<FlagRuleResult> {
+  // Verify flag exists and belongs to tenant
+  const flag = await prisma.featureFlag.findFirst({
+    where: { id: flagId, tenantId },
+  });
+
+  if (!flag) {
+    return { success: false, status: 404, error: "Feature flag not found" };
+  }
+
+  // Verify rule exists and belongs to flag
+  const rule = await prisma.rule.findFirst({
+    where: { id: ruleId, flagId },
+  });
+
+  if (!rule) {
+    return { success: false, status: 404, error: "Rule not found" };
+  }
+
+  const variantCheck = validateVariantReferences(flag.variants, [input.serve]);
+  if (!variantCheck.valid) {
+    return { success: false, status: 400, error: `Invalid rule: ${variantCheck.error}` };
+  }
+
+  const updated = await prisma.$transaction(async (tx: Prisma.TransactionClient) => {
+    const updatedRule = await tx.rule.update({
+      where: { id: ruleId },
+      data: {
+        serve: input.serve === null ? Prisma.JsonNull : (input.serve as Prisma.InputJsonValue),
+      },
+    });
+
+    await recordFlagChange(tx, tenantId, {
+      type: "rule_changed",
+      environment: flag.environment,
+      flagId,
+      flagKey: flag.key,
+    });
+
+    await recordFlagRevision(tx, tenantId, flagId, {
+      changeType: "rule_updated",
+      actorId: actor.actorId,
+      metadata: actor.metadata,
+    });
+
+    await tx.auditLog.create({
+      data: {
+        tenantId,
+        actorId: actor.actorId,
+        action: "UPDATE_RULE",
+        entityType: "FeatureFlag",
+        entityId: flagId,
+        beforeData: rule,
+        afterData: updatedRule,
+        ...(actor.metadata && { metadata: actor.metadata as Prisma.InputJsonValue }),
+      },
+    });
+
+    return updatedRule;
+  });
+
+  return { success: true, rule: updated };
+}
+
+/**
+ * Remove a rule from a flag
+ */
+export async function deleteFlagRule(
+  tenantId: string,
+  flagId: string,
+  ruleId: string,
+  actor: FlagPatchActor
+): Promise<FlagRuleResult> {
+  // Verify flag exists and belongs to tenant
+  const flag = await prisma.featureFlag.findFirst({
+    where: { id: flagId, tenantId },
+  });
+
+  if (!flag) {
+    return { success: false, status: 404, error: "Feature flag not found" };
+  }
+
+  // Verify rule exists and belongs to flag
+  const rule = await prisma.rule.findFirst({
+    where: { id: ruleId, flagId },
+  });
+
+  if (!rule) {
+    return { success: false, status: 404, error: "Rule not found" };
+  }
+
+  await prisma.$transaction(async (tx: Prisma.TransactionClient) => {
+    await tx.rule.delete({
+      where: { id: ruleId },
+    });
+
+    await recordFlagChange(tx, tenantId, {
+      type: "rule_changed",
+      environment: flag.environment,
+      flagId,
+      flagKey: flag.key,
+    });
+
+    await recordFlagRevision(tx, tenantId, flagId, {
+      changeType: "rule_deleted",
+      actorId: actor.actorId,
+      metadata: actor.metadata,
+    });
+
+    await tx.auditLog.create({
+      data: {
+        tenantId,
+        actorId: actor.actorId,
+        action: "DELETE_RULE",
+        entityType: "FeatureFlag",
+        entityId: flagId,
+        beforeData: rule,
+        ...(actor.metadata && { metadata: actor.metadata as Prisma.InputJsonValue }),
+      },
+    });
+  });
+
+  return { success: true, rule };
+}
@@ -0,0 +1,95 @@
+import { createHmac } from "crypto";
+import { Prisma } from "@prisma/client";
+import { prisma } from "./prisma";
+import { findTenantFlags } from "./flag-queries";
+import { loadSegmentsForFlags } from "./segments";
+import type { FlagDefinition, FlagSnapshot, SegmentDefinition } from "@next-ops/flag-evaluator";
+
+export type FlagEnvironment = "DEV" | "STAGING" | "PROD";
+
+/**
+ * Record that an environment's ruleset changed and return the new version
+ * Call inside the transaction that makes the change so the version and data commit together
+ */
+export async function bumpRulesetVersion(
+  tx: Prisma.TransactionClient,
+  tenantId: string,
+  environment: FlagEnvironment
+): Promise<number> {
+  const row = await tx.rulesetVersion.upsert({
+    where: { tenantId_environment: { tenantId, environment } },
+    create: { tenantId, environment, version: 1 },
+    update: { version: { increment: 1 } },
+  });
+
+  return row.version;
+}
+
+/**
+ * Current ruleset version for an environment (0 if nothing has changed yet)
+ */
+export async function getRulesetVersion(tenantId: string, environment: FlagEnvironment): Promise<number> {
+  const row = await prisma.rulesetVersion.findUnique({
+    where: { tenantId_environment: { tenantId, environment } },
+  });
+
+  return row?.version ?? 0;
+}
+
+/**
+ * Assemble a snapshot from already loaded flags and segments
+ */
+export function createFlagSnapshot(
+  version: number,
+  environment: FlagEnvironment,
+  flags: FlagDefinition[],
+  segments: Record<string, SegmentDefinition>
+): FlagSnapshot {
+  return {
+    version,
+    environment,
+    generatedAt: new Date().toISOString(),
+    flags: flags.map((flag) => ({
+      key: flag.key,
+      enabled: flag.enabled,
+      environment: flag.environment,
+      rolloutPercentage: flag.rolloutPercentage,
+      rules: flag.rules.map((rule) => ({ condition: rule.condition, serve: rule.serve ?? null })),
+      variants: flag.variants ?? [],
+      defaultServe: flag.defaultServe ?? null,
+      offVariant: flag.offVariant ?? null,
+      ...(flag.layerId && {
+        layerId: flag.layerId,
+        layerStart: flag.layerStart ?? 0,
+        layerPercentage: flag.layerPercentage ?? 0,
+      }),
+    })),
+    segments: Object.fromEntries(
+      Object.values(segments).map((segment) => [
+        segment.id,
+        { id: segment.id, name: segment.name, userIds: segment.userIds, conditions: segment.conditions },
+      ])
+    ),
+  };
+}
+
+/**
+ * Load a tenant environment's flags and the segments they reference
+ */
+export async function buildFlagSnapshot(tenantId: string, environment: FlagEnvironment): Promise<FlagSnapshot> {
+  // Read the version before the data: a change landing in between leaves the
+  // snapshot labelled with an older version, so clients simply fetch it again
+  const version = await getRulesetVersion(tenantId, environment);
+  const flags = await findTenantFlags(tenantId, { environment });
+  const segments = await loadSegmentsForFlags(tenantId, flags);
+
+  return createFlagSnapshot(version, environment, flags, segments);
+}
+
+/**
+ * Sign a serialized snapshot with the server SDK key's signing secret
+ * Clients were given the secret with the key and use it to verify the body was not altered
+ */
+export function signSnapshot(body: string, signingSecret: string): string {
+  return createHmac("sha256", signingSecret).update(body).digest("hex");
+}
@@ -0,0 +1,476 @@
+import { Prisma } from "@prisma/client";
+import { z } from "zod";
+import { prisma } from "./prisma";
+import { recordFlagChange } from "./flag-changes";
+import {
+  recordFlagRevision,
+  snapshotLifecycleData,
+  type FlagRevisionSnapshot,
+  type RevisionRule,
+} from "./flag-revisions";
+import { getReferencedSegmentIds, loadSegments } from "./segments";
+import { findDependentFlags, getPrerequisiteGraph, getPrerequisiteKeys } from "./prerequisites";
+import { layerSliceSchema, validateLayerSlice } from "./experiment-layers";
+import type { FlagEnvironment } from "./flag-snapshots";
+import {
+  findPrerequisiteCycle,
+  serveSchema,
+  validateRule,
+  validateVariantReferences,
+  variantsSchema,
+  type Rule,
+} from "@next-ops/flag-evaluator";
+
+export const ruleEditSchema = z.object({
+  id: z.string().min(1),
+  condition: z.record(z.string(), z.unknown()).optional(),
+  serve: serveSchema.nullable().optional(),
+});
+
+export const flagPatchSchema = z.object({
+  name: z.string().min(1).optional(),
+  key: z.string().min(1).optional(),
+  description: z.string().optional(),
+  enabled: z.boolean().optional(),
+  rolloutPercentage: z.number().min(0).max(100).optional(),
+  variants: variantsSchema.optional(),
+  defaultServe: serveSchema.nullable().optional(),
+  offVariant: z.string().nullable().optional(),
+  lifetime: z.enum(["TEMPORARY", "PERMANENT"]).optional(),
+  ownerId: z.string().min(1).nullable().optional(),
+  layer: layerSliceSchema.nullable().optional(),
+  rules: z.array(ruleEditSchema).optional(),
+});
+
+export type FlagPatch = z.infer<typeof flagPatchSchema>;
+
+export interface FlagPatchActor {
+  actorId: string;
+  action?: string; // audit log action, defaults to UPDATE
+  metadata?: Record<string, unknown>;
+}
+
+export type FlagPatchResult =
+  | { success: true; flag: Prisma.FeatureFlagGetPayload<{ include: { rules: true } }> }
+  | { success: false; status: number; error: string };
+
+/**
+ * Validate a rule condition against the tenant's segments and the environment's prerequisite graph
+ * siblingRules are the flag's other rules after the change; when omitted the stored rules are used
+ */
+export async function validateRuleCondition(
+  tenantId: string,
+  flag: { key: string; environment: FlagEnvironment },
+  condition: unknown,
+  siblingRules?: { condition: unknown }[]
+): Promise<{ valid: boolean; error?: string }> {
+  const validation = validateRule(condition);
+  if (!validation.valid) {
+    return validation;
+  }
+
+  // Referenced segments must exist in this tenant
+  const segmentIds = getReferencedSegmentIds([{ condition }]);
+  if (segmentIds.length > 0) {
+    const segments = await loadSegments(tenantId, segmentIds);
+    const missing = segmentIds.filter((segmentId) => !segments[segmentId]);
+    if (missing.length > 0) {
+      return { valid: false, error: `segment not found (${missing.join(", ")})` };
+    }
+  }
+
+  // Prerequisite flags must exist in this environment and must not create a cycle
+  const prerequisiteKeys = getPrerequisiteKeys([{ condition }]);
+  if (prerequisiteKeys.length > 0) {
+    const graph = await getPrerequisiteGraph(tenantId, flag.environment);
+    const missing = prerequisiteKeys.filter((key) => !(key in graph));
+    if (missing.length > 0) {
+      return {
+        valid: false,
+        error: `prerequisite flag not found in ${flag.environment} (${missing.join(", ")})`,
+      };
+    }
+
+    const existingKeys = siblingRules ? getPrerequisiteKeys(siblingRules) : (graph[flag.key] ?? []);
+    graph[flag.key] = [...existingKeys, ...prerequisiteKeys];
+    const cycle = findPrerequisiteCycle(flag.key, graph);
+    if (cycle) {
+      return { valid: false, error: `prerequisite cycle (${cycle.join(" -> ")})` };
+    }
+  }
+
+  return { valid: true };
+}
+
+/**
+ * Apply a validated patch to a flag, record the change for SDKs and write the audit log
+ * Shared by PATCH /api/feature-flags/[id], the worker (scheduled changes, rollout plans) and rollout guards
+ */
+export async function applyFlagPatch(
+  tenantId: string,
+  flagId: string,
+  patch: FlagPatch,
+  actor: FlagPatchActor
+): Promise<FlagPatchResult> {
+  const existingFlag = await prisma.featureFlag.findFirst({
+    where: { id: flagId, tenantId },
+    include: { rules: { orderBy: { order: "asc" } } },
+  });
+
+  if (!existingFlag) {
+    return { success: false, status: 404, error: "Feature flag not found" };
+  }
+
+  const { variants, defaultServe, rules: ruleEdits, layer, ...fields } = patch;
+
+  // Renaming would silently break PREREQUISITE rules that reference the old key
+  if (fields.key !== undefined && fields.key !== existingFlag.key) {
+    const dependents = await findDependentFlags(tenantId, existingFlag.environment, existingFlag.key);
+    if (dependents.length > 0) {
+      return {
+        success: false,
+        status: 409,
+        error: `Cannot change key: flag is a prerequisite of ${dependents.map((f) => f.key).join(", ")}`,
+      };
+    }
+  }
+
+  // Rule edits must target this flag's rules; conditions are checked against the edited rule set
+  const nextRules = existingFlag.rules.map((rule) => {
+    const edit = ruleEdits?.find((e) => e.id === rule.id);
+    return {
+      ...rule,
+      condition: edit?.condition !== undefined ? edit.condition : rule.condition,
+      serve: edit?.serve !== undefined ? edit.serve : rule.serve,
+    };
+  });
+
+  for (const edit of ruleEdits ?? []) {
+    if (!existingFlag.rules.some((rule) => rule.id === edit.id)) {
+      return { success: false, status: 400, error: `Invalid rule: rule ${edit.id} not found` };
+    }
+
+    if (edit.condition !== undefined) {
+      const validation = await validateRuleCondition(
+        tenantId,
+        existingFlag,
+        edit.condition,
+        nextRules.filter((rule) => rule.id !== edit.id)
+      );
+      if (!validation.valid) {
+        return { success: false, status: 400, error: `Invalid rule: ${validation.error}` };
+      }
+    }
+  }
+
+  // Variant changes must keep every serve config pointing at an existing variant
+  if (
+    variants !== undefined ||
+    defaultServe !== undefined ||
+    fields.offVariant !== undefined ||
+    ruleEdits?.some((edit) => edit.serve !== undefined)
+  ) {
+    const validation = validateVariantReferences(
+      variants ?? existingFlag.variants,
+      [
+        defaultServe !== undefined ? defaultServe : existingFlag.defaultServe,
+        ...nextRules.map((rule) => rule.serve),
+      ],
+      fields.offVariant !== undefined ? fields.offVariant : existingFlag.offVariant
+    );
+    if (!validation.valid) {
+      return { success: false, status: 400, error: `Invalid variants: ${validation.error}` };
+    }
+  }
+
+  // Owners are notified about cleanup, so they must belong to the tenant
+  if (fields.ownerId) {
+    const membership = await prisma.membership.findFirst({
+      where: { userId: fields.ownerId, tenantId },
+    });
+    if (!membership) {
+      return { success: false, status: 400, error: "Owner must be a member of this tenant" };
+    }
+  }
+
+  // Overlapping slices would put users in two of the layer's flags
+  if (layer) {
+    const validation = await validateLayerSlice(tenantId, existingFlag, layer);
+    if (!validation.valid) {
+      return { success: false, status: 400, error: `Invalid layer: ${validation.error}` };
+    }
+  }
+
+  // Verify user exists in database before creating audit log
+  const userExists = await prisma.user.findUnique({
+    where: { id: actor.actorId },
+  });
+
+  const flag = await prisma.$transaction(async (tx: Prisma.TransactionClient) => {
+    for (const edit of ruleEdits ?? []) {
+      await tx.rule.update({
+        where: { id: edit.id },
+        data: {
+          ...(edit.condition !== undefined && {
+            type: (edit.condition as { type: string }).type as Rule["type"],
+            condition: edit.condition as unknown as Prisma.InputJsonValue,
+          }),
+          ...(edit.serve !== undefined && {
+            serve: edit.serve === null ? Prisma.JsonNull : (edit.serve as Prisma.InputJsonValue),
+          }),
+        },
+      });
+    }
+
+    const updated = await tx.featureFlag.update({
+      where: { id: flagId },
+      data: {
+        ...fields,
+        ...(variants !== undefined && { variants: variants as unknown as Prisma.InputJsonValue }),
+        ...(defaultServe !== undefined && {
+          defaultServe: defaultServe === null ? Prisma.JsonNull : (defaultServe as Prisma.InputJsonValue),
+        }),
+        ...(layer !== undefined && {
+          layerId: layer?.id ?? null,
+          layerStart: layer?.start ?? null,
+          layerPercentage: layer?.percentage ?? null,
+        }),
+      },
+      include: {
+        rules: {
+          orderBy: { order: "asc" },
+        },
+      },
+    });
+
+    await recordFlagChange(tx, tenantId, {
+      type: ruleEdits?.length ? "rule_changed" : "flag_updated",
+      environment: updated.environment,
+      flagId,
+      flagKey: updated.key,
+    });
+
+    await recordFlagRevision(tx, tenantId, flagId, {
+      changeType: "updated",
+      actorId: userExists ? actor.actorId : null,
+      metadata: actor.metadata,
+    });
+
+    // Only create audit log if user exists in database
+    if (userExists) {
+      await tx.auditLog.create({
+        data: {
+          tenantId,
+          actorId: actor.actorId,
+          action: actor.action ?? "UPDATE",
+          entityType: "FeatureFlag",
+          entityId: flagId,
+          beforeData: existingFlag,
+          afterData: updated,
+          ...(actor.metadata && { metadata: actor.metadata as Prisma.InputJsonValue }),
+        },
+      });
+    }
+
+    return updated;
+  });
+
+  return { success: true, flag };
+}
+
+/**
+ * Validate a complete flag configuration (e.g. a revision or a promotion) before writing it
+ */
+export async function validateFlagConfiguration(
+  tenantId: string,
+  flag: { id?: string; key: string; environment: FlagEnvironment },
+  config: Pick<
+    FlagRevisionSnapshot,
+    "variants" | "defaultServe" | "offVariant" | "rules" | "ownerId" | "layerId" | "layerStart" | "layerPercentage"
+  >
+): Promise<{ valid: boolean; error?: string }> {
+  for (const rule of config.rules) {
+    const validation = await validateRuleCondition(
+      tenantId,
+      flag,
+      rule.condition,
+      config.rules.filter((other) => other !== rule)
+    );
+    if (!validation.valid) {
+      return { valid: false, error: `invalid rule: ${validation.error}` };
+    }
+  }
+
+  const variantCheck = validateVariantReferences(
+    config.variants,
+    [config.defaultServe, ...config.rules.map((rule) => rule.serve)],
+    config.offVariant
+  );
+  if (!variantCheck.valid) {
+    return { valid: false, error: `invalid variants: ${variantCheck.error}` };
+  }
+
+  // The owner may have left the tenant since the configuration was captured
+  if (config.ownerId) {
+    const membership = await prisma.membership.findFirst({
+      where: { userId: config.ownerId, tenantId },
+    });
+    if (!membership) {
+      return { valid: false, error: "owner is no longer a member of this tenant" };
+    }
+  }
+
+  // Other flags may have claimed the slice in the meantime
+  if (config.layerId) {
+    const layerCheck = await validateLayerSlice(
+      tenantId,
+      { id: flag.id ?? "", environment: flag.environment },
+      { id: config.layerId, start: config.layerStart ?? 0, percentage: config.layerPercentage ?? 0 }
+    );
+    if (!layerCheck.valid) {
+      return { valid: false, error: `invalid layer: ${layerCheck.error}` };
+    }
+  }
+
+  return { valid: true };
+}
+
+/**
+ * Replace all of a flag's rules, keeping their order
+ */
+export async function replaceFlagRules(
+  tx: Prisma.TransactionClient,
+  flagId: string,
+  rules: Pick<RevisionRule, "type" | "condition" | "serve" | "order">[]
+) {
+  await tx.rule.deleteMany({ where: { flagId } });
+
+  for (const rule of rules) {
+    await tx.rule.create({
+      data: {
+        flagId,
+        type: rule.type as Rule["type"],
+        condition: rule.condition as Prisma.InputJsonValue,
+        serve: rule.serve === null || rule.serve === undefined ? Prisma.JsonNull : (rule.serve as Prisma.InputJsonValue),
+        order: rule.order,
+      },
+    });
+  }
+}
+
+/**
+ * Restore an earlier revision's flag settings and rules, recorded as a new revision
+ */
+export async function revertFlagToRevision(
+  tenantId: string,
+  flagId: string,
+  version: number,
+  actorId: string,
+  metadata?: Record<string, unknown>
+): Promise<FlagPatchResult> {
+  const existingFlag = await prisma.featureFlag.findFirst({
+    where: { id: flagId, tenantId },
+    include: { rules: { orderBy: { order: "asc" } } },
+  });
+
+  if (!existingFlag) {
+    return { success: false, status: 404, error: "Feature flag not found" };
+  }
+
+  const revision = await prisma.flagRevision.findFirst({
+    where: { flagId, tenantId, version },
+  });
+
+  if (!revision) {
+    return { success: false, status: 404, error: "Revision not found" };
+  }
+
+  const snapshot = revision.snapshot as unknown as FlagRevisionSnapshot;
+
+  // Key changes get the same guards as PATCH: no clashes and no broken prerequisites
+  if (snapshot.key !== existingFlag.key) {
+    const clash = await prisma.featureFlag.findFirst({
+      where: { tenantId, key: snapshot.key, environment: existingFlag.environment },
+    });
+    if (clash) {
+      return {
+        success: false,
+        status: 409,
+        error: `Cannot revert: flag "${snapshot.key}" already exists for ${existingFlag.environment}`,
+      };
+    }
+
+    const dependents = await findDependentFlags(tenantId, existingFlag.environment, existingFlag.key);
+    if (dependents.length > 0) {
+      return {
+        success: false,
+        status: 409,
+        error: `Cannot change key: flag is a prerequisite of ${dependents.map((f) => f.key).join(", ")}`,
+      };
+    }
+  }
+
+  // Segments or prerequisite flags may have been deleted since the revision was taken
+  const validation = await validateFlagConfiguration(
+    tenantId,
+    { id: flagId, key: snapshot.key, environment: existingFlag.environment },
+    snapshot
+  );
+  if (!validation.valid) {
+    return { success: false, status: 400, error: `Cannot revert: ${validation.error}` };
+  }
+
+  const flag = await prisma.$transaction(async (tx: Prisma.TransactionClient) => {
+    await replaceFlagRules(tx, flagId, snapshot.rules);
+
+    const updated = await tx.featureFlag.update({
+      where: { id: flagId },
+      data: {
+        name: snapshot.name,
+        key: snapshot.key,
+        description: snapshot.description,
+        enabled: snapshot.enabled,
+        rolloutPercentage: snapshot.rolloutPercentage,
+        variants: (snapshot.variants ?? []) as Prisma.InputJsonValue,
+        defaultServe: snapshot.defaultServe ? (snapshot.defaultServe as Prisma.InputJsonValue) : Prisma.JsonNull,
+        offVariant: snapshot.offVariant,
+        ...snapshotLifecycleData(snapshot),
+      },
+      include: {
+        rules: {
+          orderBy: { order: "asc" },
+        },
+      },
+    });
+
+    await recordFlagChange(tx, tenantId, {
+      type: "rule_changed",
+      environment: updated.environment,
+      flagId,
+      flagKey: updated.key,
+    });
+
+    await recordFlagRevision(tx, tenantId, flagId, {
+      changeType: "reverted",
+      actorId,
+      metadata: { revertedTo: version, ...metadata },
+    });
+
+    await tx.auditLog.create({
+      data: {
+        tenantId,
+        actorId,
+        action: "REVERT",
+        entityType: "FeatureFlag",
+        entityId: flagId,
+        beforeData: existingFlag,
+        afterData: updated,
+        metadata: { revertedTo: version, ...metadata } as Prisma.InputJsonValue,
+      },
+    });
+
+    return updated;
+  });
+
+  return { success: true, flag };
+}
@@ -0,0 +1,227 @@
+import { prisma } from "./prisma";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const METRICS_BUCKETS = ["day", "week"] as const;
+
+export type MetricsBucket = (typeof METRICS_BUCKETS)[number];
+
+const SEVERITIES = ["SEV1", "SEV2", "SEV3", "SEV4"];
+const STATUSES = ["OPEN", "ACKNOWLEDGED", "MITIGATED", "RESOLVED"];
+const UNRESOLVED_STATUSES = ["OPEN", "ACKNOWLEDGED", "MITIGATED"];
+const ENVIRONMENTS = ["DEV", "STAGING", "PROD"];
+
+// One row per day and severity; seconds are summed so days can be combined into buckets
+export interface ResponseTimeRow {
+  day: Date;
+  severity: string;
+  opened: number;
+  acknowledged: number;
+  acknowledgeSeconds: number | null;
+  mitigated: number;
+  mitigateSeconds: number | null;
+  resolved: number;
+  resolveSeconds: number | null;
+}
+
+// GROUPING SETS row: exactly one of severity, service, environment or status is set
+export interface BreakdownRow {
+  severity: string | null;
+  service: string | null;
+  environment: string | null;
+  status: string | null;
+  count: number;
+}
+
+export interface ResponseTime {
+  averageSeconds: number | null;
+  incidents: number;
+}
+
+export interface MetricsCount {
+  key: string;
+  count: number;
+}
+
+export interface IncidentMetrics {
+  from: string;
+  days: number;
+  bucket: MetricsBucket;
+  total: number;
+  // Incidents not resolved yet, whenever they were opened
+  unresolved: MetricsCount[];
+  responseTimes: { mtta: ResponseTime; mttm: ResponseTime; mttr: ResponseTime };
+  byStatus: MetricsCount[];
+  bySeverity: MetricsCount[];
+  byService: MetricsCount[];
+  byEnvironment: MetricsCount[];
+  trend: {
+    start: string;
+    opened: number;
+    bySeverity: Record<string, number>;
+    mttaSeconds: number | null;
+    mttrSeconds: number | null;
+  }[];
+}
+
+/**
+ * Start of the UTC day, matching Postgres date_trunc('day')
+ */
+export function startOfDay(date: Date): Date {
+  return new Date(Math.floor(date.getTime() / DAY_MS) * DAY_MS);
+}
+
+function average(seconds: number | null, count: number): number | null {
+  return count > 0 && seconds != null ? seconds / count : null;
+}
+
+function fillCounts(keys: string[], counts: Map<string, number>): MetricsCount[] {
+  return keys.map((key) => ({ key, count: counts.get(key) ?? 0 }));
+}
+
+/**
+ * Combine the SQL aggregates into totals, breakdowns and a gap-free trend series
+ * Buckets start at `from` rather than on calendar weeks, so the first one is never cut short by the range
+ */
+export function summarizeIncidentMetrics(
+  responseTimes: ResponseTimeRow[],
+  breakdown: BreakdownRow[],
+  unresolved: MetricsCount[],
+  from: Date,
+  days: number,
+  bucket: MetricsBucket,
+  now: Date = new Date()
+): IncidentMetrics {
+  const step = bucket === "day" ? DAY_MS : 7 * DAY_MS;
+  const trend: IncidentMetrics["trend"] = [];
+  for (let start = from.getTime(); start <= now.getTime(); start += step) {
+    trend.push({
+      start: new Date(start).toISOString(),
+      opened: 0,
+      bySeverity: Object.fromEntries(SEVERITIES.map((severity) => [severity, 0])),
+      mttaSeconds: null,
+      mttrSeconds: null,
+    });
+  }
+
+  const totals = { acknowledged: 0, acknowledgeSeconds: 0, mitigated: 0, mitigateSeconds: 0, resolved: 0, resolveSeconds: 0 };
+  const perBucket = new Map<string, { acknowledged: number; acknowledgeSeconds: number; resolved: number; resolveSeconds: number }>();
+
+  for (const row of responseTimes) {
+    totals.acknowledged += row.acknowledged;
+    totals.acknowledgeSeconds += row.acknowledgeSeconds ?? 0;
+    totals.mitigated += row.mitigated;
+    totals.mitigateSeconds += row.mitigateSeconds ?? 0;
+    totals.resolved += row.resolved;
+    totals.resolveSeconds += row.resolveSeconds ?? 0;
+
+    const point = trend[Math.floor((row.day.getTime() - from.getTime()) / step)];
+    if (!point) continue;
+
+    point.opened += row.opened;
+    point.bySeverity[row.severity] = (point.bySeverity[row.severity] ?? 0) + row.opened;
+
+    const sums = perBucket.get(point.start) ?? { acknowledged: 0, acknowledgeSeconds: 0, resolved: 0, resolveSeconds: 0 };
+    sums.acknowledged += row.acknowledged;
+    sums.acknowledgeSeconds += row.acknowledgeSeconds ?? 0;
+    sums.resolved += row.resolved;
+    sums.resolveSeconds += row.resolveSeconds ?? 0;
+    perBucket.set(point.start, sums);
+  }
+
+  for (const point of trend) {
+    const sums = perBucket.get(point.start);
+    if (!sums) continue;
+    point.mttaSeconds = average(sums.acknowledgeSeconds, sums.acknowledged);
+    point.mttrSeconds = average(sums.resolveSeconds, sums.resolved);
+  }
+
+  const counts = {
+    severity: new Map<string, number>(),
+    service: new Map<string, number>(),
+    environment: new Map<string, number>(),
+    status: new Map<string, number>(),
+  };
+  for (const row of breakdown) {
+    if (row.severity != null) counts.severity.set(row.severity, row.count);
+    else if (row.service != null) counts.service.set(row.service, row.count);
+    else if (row.environment != null) counts.environment.set(row.environment, row.count);
+    else if (row.status != null) counts.status.set(row.status, row.count);
+  }
+
+  return {
+    from: from.toISOString(),
+    days,
+    bucket,
+    total: [...counts.status.values()].reduce((sum, count) => sum + count, 0),
+    unresolved: fillCounts(UNRESOLVED_STATUSES, new Map(unresolved.map(({ key, count }) => [key, count]))),
+    responseTimes: {
+      mtta: { averageSeconds: average(totals.acknowledgeSeconds, totals.acknowledged), incidents: totals.acknowledged },
+      mttm: { averageSeconds: average(totals.mitigateSeconds, totals.mitigated), incidents: totals.mitigated },
+      mttr: { averageSeconds: average(totals.resolveSeconds, totals.resolved), incidents: totals.resolved },
+    },
+    byStatus: fillCounts(STATUSES, counts.status),
+    bySeverity: fillCounts(SEVERITIES, counts.severity),
+    byService: [...counts.service.entries()]
+      .map(([key, count]) => ({ key, count }))
+      .sort((a, b) => b.count - a.count || a.key.localeCompare(b.key)),
+    byEnvironment: fillCounts(ENVIRONMENTS, counts.environment),
+    trend,
+  };
+}
+
+/**
+ * Incident metrics for incidents opened in the last `days` days, including today
+ * Unresolved counts are current and include incidents opened before the range.
+ * Response times use the same stage rules as SLA clocks: a stage is reached by the first
+ * STATUS_CHANGE event into it or past it.
+ */
+export async function getIncidentMetrics(
+  tenantId: string,
+  days: number,
+  bucket: MetricsBucket,
+  now: Date = new Date()
+): Promise<IncidentMetrics> {
+  const from = new Date(startOfDay(now).getTime() - (days - 1) * DAY_MS);
+
+  // Raw queries skip the tenant middleware, so both filter on tenantId explicitly
+  const responseTimes = await prisma.$queryRaw<ResponseTimeRow[]>`
+    WITH stages AS (
+      SELECT i."id", i."severity", i."createdAt",
+        MIN(t."createdAt") FILTER (WHERE t."data"->>'to' IN ('ACKNOWLEDGED', 'MITIGATED', 'RESOLVED')) AS "acknowledgedAt",
+        MIN(t."createdAt") FILTER (WHERE t."data"->>'to' IN ('MITIGATED', 'RESOLVED')) AS "mitigatedAt",
+        MIN(t."createdAt") FILTER (WHERE t."data"->>'to' = 'RESOLVED') AS "resolvedAt"
+      FROM "Incident" i
+      LEFT JOIN "TimelineEvent" t ON t."incidentId" = i."id" AND t."type" = 'STATUS_CHANGE'
+      WHERE i."tenantId" = ${tenantId} AND i."createdAt" >= ${from}
+      GROUP BY i."id", i."severity", i."createdAt"
+    )
+    SELECT date_trunc('day', "createdAt") AS "day", "severity"::text AS "severity",
+      COUNT(*)::int AS "opened",
+      COUNT("acknowledgedAt")::int AS "acknowledged",
+      SUM(EXTRACT(EPOCH FROM ("acknowledgedAt" - "createdAt")))::float AS "acknowledgeSeconds",
+      COUNT("mitigatedAt")::int AS "mitigated",
+      SUM(EXTRACT(EPOCH FROM ("mitigatedAt" - "createdAt")))::float AS "mitigateSeconds",
+      COUNT("resolvedAt")::int AS "resolved",
+      SUM(EXTRACT(EPOCH FROM ("resolvedAt" - "createdAt")))::float AS "resolveSeconds"
+    FROM stages
+    GROUP BY 1, 2
+  `;
+
+  const breakdown = await prisma.$queryRaw<BreakdownRow[]>`
+    SELECT "severity"::text AS "severity", "service", "environment"::text AS "environment",
+      "status"::text AS "status", COUNT(*)::int AS "count"
+    FROM "Incident"
+    WHERE "tenantId" = ${tenantId} AND "createdAt" >= ${from}
+    GROUP BY GROUPING SETS (("severity"), ("service"), ("environment"), ("status"))
+  `;
+
+  const unresolved = await prisma.$queryRaw<MetricsCount[]>`
+    SELECT "status"::text AS "key", COUNT(*)::int AS "count"
+    FROM "Incident"
+    WHERE "tenantId" = ${tenantId} AND "status" <> 'RESOLVED'
+    GROUP BY "status"
+  `;
+
+  return summarizeIncidentMetrics(responseTimes, breakdown, unresolved, from, days, bucket, now);
+}
@@ -0,0 +1,278 @@
+import { z } from "zod";
+import { Prisma } from "@prisma/client";
+import { prisma } from "./prisma";
+import { runWithTenantContext } from "./tenant";
+import { enqueueJob } from "./job-queue";
+
+export const SLA_STAGES = ["ACKNOWLEDGE", "MITIGATE", "RESOLVE"] as const;
+
+export type SlaStage = (typeof SLA_STAGES)[number];
+
+export type SlaStatus = "ON_TRACK" | "AT_RISK" | "BREACHED" | "MET";
+
+// Share of a target that can pass before an incident counts as about to breach
+export const AT_RISK_FRACTION = 0.8;
+
+// A stage is reached the first time the incident moves to one of these statuses
+const STAGE_STATUSES: Record<SlaStage, string[]> = {
+  ACKNOWLEDGE: ["ACKNOWLEDGED", "MITIGATED", "RESOLVED"],
+  MITIGATE: ["MITIGATED", "RESOLVED"],
+  RESOLVE: ["RESOLVED"],
+};
+
+const STAGE_TARGETS = {
+  ACKNOWLEDGE: "acknowledgeMinutes",
+  MITIGATE: "mitigateMinutes",
+  RESOLVE: "resolveMinutes",
+} as const;
+
+const STAGE_LABELS: Record<SlaStage, string> = {
+  ACKNOWLEDGE: "time to acknowledge",
+  MITIGATE: "time to mitigate",
+  RESOLVE: "time to resolve",
+};
+
+const targetMinutesSchema = z.number().int().min(1).max(30 * 24 * 60).nullable().optional();
+
+const slaTargetFieldsSchema = z.object({
+  severity: z.enum(["SEV1", "SEV2", "SEV3", "SEV4"]),
+  service: z.string().min(1).nullable().optional(),
+  acknowledgeMinutes: targetMinutesSchema,
+  mitigateMinutes: targetMinutesSchema,
+  resolveMinutes: targetMinutesSchema,
+});
+
+export const slaTargetSchema = slaTargetFieldsSchema.refine(
+  (target) => target.acknowledgeMinutes != null || target.mitigateMinutes != null || target.resolveMinutes != null,
+  { message: "Set at least one target" }
+);
+
+// PATCH bodies are merged into the existing target and checked with slaTargetSchema
+export const updateSlaTargetSchema = slaTargetFieldsSchema.partial();
+
+export interface SlaTargetRecord {
+  severity: string;
+  service: string | null;
+  acknowledgeMinutes: number | null;
+  mitigateMinutes: number | null;
+  resolveMinutes: number | null;
+}
+
+export interface SlaClock {
+  stage: SlaStage;
+  targetMinutes: number;
+  dueAt: Date;
+  reachedAt: Date | null;
+  status: SlaStatus;
+}
+
+interface SlaIncident {
+  severity: string;
+  service: string;
+  status: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+interface SlaEvent {
+  type: string;
+  createdAt: Date;
+  data: unknown;
+}
+
+/**
+ * The target for an incident: its service's own target, otherwise the severity default
+ */
+export function findSlaTarget<T extends SlaTargetRecord>(targets: T[], severity: string, service: string): T | null {
+  const forSeverity = targets.filter((target) => target.severity === severity);
+  return (
+    forSeverity.find((target) => target.service === service) ??
+    forSeverity.find((target) => target.service === null) ??
+    null
+  );
+}
+
+/**
+ * When the incident first reached a stage, from its STATUS_CHANGE timeline events
+ * Reopening doesn't reset a stage that was already reached.
+ */
+function stageReachedAt(incident: SlaIncident, events: SlaEvent[], stage: SlaStage): Date | null {
+  const reachedBy = STAGE_STATUSES[stage];
+  const reached = events
+    .filter((event) => event.type === "STATUS_CHANGE")
+    .filter((event) => reachedBy.includes((event.data as { to?: string } | null)?.to ?? ""))
+    .map((event) => event.createdAt)
+    .sort((a, b) => a.getTime() - b.getTime());
+
+  if (reached.length > 0) {
+    return reached[0];
+  }
+
+  // Incidents moved without a timeline event (e.g. seeded data) count from their last update
+  return reachedBy.includes(incident.status) ? incident.updatedAt : null;
+}
+
+/**
+ * SLA clocks for each stage the target covers
+ */
+export function computeSla(
+  incident: SlaIncident,
+  events: SlaEvent[],
+  target: SlaTargetRecord | null,
+  now: Date = new Date()
+): SlaClock[] {
+  if (!target) return [];
+
+  const clocks: SlaClock[] = [];
+
+  for (const stage of SLA_STAGES) {
+    const targetMinutes = target[STAGE_TARGETS[stage]];
+    if (targetMinutes == null) continue;
+
+    const dueAt = new Date(incident.createdAt.getTime() + targetMinutes * 60_000);
+    const reachedAt = stageReachedAt(incident, events, stage);
+    const atRiskAt = incident.createdAt.getTime() + targetMinutes * 60_000 * AT_RISK_FRACTION;
+
+    let status: SlaStatus;
+    if (reachedAt) {
+      status = reachedAt <= dueAt ? "MET" : "BREACHED";
+    } else if (now >= dueAt) {
+      status = "BREACHED";
+    } else if (now.getTime() >= atRiskAt) {
+      status = "AT_RISK";
+    } else {
+      status = "ON_TRACK";
+    }
+
+    clocks.push({ stage, targetMinutes, dueAt, reachedAt, status });
+  }
+
+  return clocks;
+}
+
+/**
+ * Another target for the same severity and service, if there is one
+ */
+export async function findConflictingSlaTarget(
+  tenantId: string,
+  severity: string,
+  service: string | null,
+  excludeId?: string
+): Promise<string | null> {
+  const existing = await prisma.slaTarget.findFirst({
+    where: {
+      tenantId,
+      severity: severity as Prisma.SlaTargetWhereInput["severity"],
+      service,
+      ...(excludeId && { id: { not: excludeId } }),
+    },
+  });
+
+  if (!existing) return null;
+  return service ? `${severity} already has a target for "${service}"` : `${severity} already has a default target`;
+}
+
+/**
+ * Get a tenant's SLA targets, severity defaults before service targets
+ */
+export async function getSlaTargets(tenantId: string) {
+  return prisma.slaTarget.findMany({
+    where: { tenantId },
+    orderBy: [{ severity: "asc" }, { service: { sort: "asc", nulls: "first" } }],
+  });
+}
+
+/**
+ * Record an alert, notify the incident owner and write the timeline
+ * The unique alert row makes sure each warning goes out once, even with several workers.
+ */
+async function sendSlaAlert(
+  tenantId: string,
+  incident: { id: string; title: string; severity: string; createdById: string; assigneeId: string | null },
+  clock: SlaClock,
+  kind: "AT_RISK" | "BREACHED",
+  now: Date
+) {
+  const claimed = await prisma.incidentSlaAlert.createMany({
+    data: [{ tenantId, incidentId: incident.id, stage: clock.stage, kind }],
+    skipDuplicates: true,
+  });
+
+  if (claimed.count === 0) {
+    return false;
+  }
+
+  const label = STAGE_LABELS[clock.stage];
+  const message =
+    kind === "BREACHED"
+      ? `SLA breached: ${label} target of ${clock.targetMinutes} min passed`
+      : `SLA at risk: ${label} target of ${clock.targetMinutes} min is due in ${Math.max(
+          1,
+          Math.ceil((clock.dueAt.getTime() - now.getTime()) / 60_000)
+        )} min`;
+
+  await prisma.timelineEvent.create({
+    data: {
+      incidentId: incident.id,
+      tenantId,
+      type: "ACTION",
+      message,
+      data: { sla: clock.stage, kind, dueAt: clock.dueAt.toISOString() } as Prisma.InputJsonValue,
+      createdById: incident.createdById,
+    },
+  });
+
+  await enqueueJob(tenantId, "SEND_NOTIFICATION", {
+    userId: incident.assigneeId ?? incident.createdById,
+    type: "incident_sla",
+    incidentId: incident.id,
+    message: `[${incident.severity}] ${incident.title}: ${message}`,
+  });
+
+  return true;
+}
+
+/**
+ * Warn about unresolved incidents that are about to breach or have breached an SLA target
+ */
+export async function processSlaAlerts(now: Date = new Date()) {
+  const tenants = await prisma.tenant.findMany({
+    where: { slaTargets: { some: {} } },
+    select: { id: true, slug: true },
+  });
+  let sent = 0;
+
+  for (const tenant of tenants) {
+    await runWithTenantContext({ tenantId: tenant.id, tenantSlug: tenant.slug }, async () => {
+      const targets = await getSlaTargets(tenant.id);
+      const incidents = await prisma.incident.findMany({
+        where: { tenantId: tenant.id, status: { not: "RESOLVED" } },
+        include: {
+          timeline: { where: { type: "STATUS_CHANGE" }, select: { type: true, createdAt: true, data: true } },
+          slaAlerts: { select: { stage: true, kind: true } },
+        },
+      });
+
+      for (const incident of incidents) {
+        const target = findSlaTarget(targets, incident.severity, incident.service);
+        const alerted = new Set(incident.slaAlerts.map((alert: { stage: string; kind: string }) => `${alert.stage}:${alert.kind}`));
+
+        for (const clock of computeSla(incident, incident.timeline, target, now)) {
+          if (clock.reachedAt || (clock.status !== "AT_RISK" && clock.status !== "BREACHED")) continue;
+          if (alerted.has(`${clock.stage}:${clock.status}`)) continue;
+
+          try {
+            if (await sendSlaAlert(tenant.id, incident, clock, clock.status, now)) {
+              console.log(`[WORKER] SLA ${clock.status} for incident ${incident.id} (${clock.stage})`);
+              sent++;
+            }
+          } catch (error) {
+            console.error(`Failed to send SLA alert for incident ${incident.id}:`, error);
+          }
+        }
+      }
+    });
+  }
+
+  return sent;
+}
@@ -0,0 +1,120 @@
+import { z } from "zod";
+import { prisma } from "./prisma";
+
+export const INCIDENT_STATUSES = ["OPEN", "ACKNOWLEDGED", "MITIGATED", "RESOLVED"] as const;
+
+export type IncidentStatus = (typeof INCIDENT_STATUSES)[number];
+
+// Allowed next statuses for each status
+export type IncidentWorkflow = Record<IncidentStatus, IncidentStatus[]>;
+
+// Used by tenants that haven't customised their workflow; RESOLVED is terminal
+export const DEFAULT_INCIDENT_WORKFLOW: IncidentWorkflow = {
+  OPEN: ["ACKNOWLEDGED", "MITIGATED", "RESOLVED"],
+  ACKNOWLEDGED: ["MITIGATED", "RESOLVED"],
+  MITIGATED: ["RESOLVED"],
+  RESOLVED: [],
+};
+
+const statusSchema = z.enum(INCIDENT_STATUSES);
+
+/**
+ * Every status must be able to reach RESOLVED so no incident gets stuck
+ */
+function canReachResolved(workflow: IncidentWorkflow, from: IncidentStatus): boolean {
+  const seen = new Set<IncidentStatus>([from]);
+  const queue: IncidentStatus[] = [from];
+
+  while (queue.length > 0) {
+    const status = queue.shift()!;
+    if (status === "RESOLVED") return true;
+    for (const next of workflow[status]) {
+      if (!seen.has(next)) {
+        seen.add(next);
+        queue.push(next);
+      }
+    }
+  }
+
+  return false;
+}
+
+export const incidentWorkflowSchema = z
+  .record(statusSchema, z.array(statusSchema))
+  .transform((workflow) => {
+    // Drop duplicates and keep statuses in lifecycle order
+    const normalized = {} as IncidentWorkflow;
+    for (const status of INCIDENT_STATUSES) {
+      normalized[status] = INCIDENT_STATUSES.filter((next) => workflow[status].includes(next));
+    }
+    return normalized;
+  })
+  .superRefine((workflow, ctx) => {
+    for (const status of INCIDENT_STATUSES) {
+      if (workflow[status].includes(status)) {
+        ctx.addIssue({ code: "custom", message: `${status} cannot transition to itself`, path: [status] });
+      } else if (!canReachResolved(workflow, status)) {
+        ctx.addIssue({ code: "custom", message: `${status} has no path to RESOLVED`, path: [status] });
+      }
+    }
+  });
+
+export interface RejectedTransition {
+  incidentId: string;
+  error: string;
+}
+
+/**
+ * The tenant's status workflow, falling back to the default
+ */
+export async function getIncidentWorkflow(tenantId: string): Promise<IncidentWorkflow> {
+  const tenant = await prisma.tenant.findUnique({
+    where: { id: tenantId },
+    select: { incidentWorkflow: true },
+  });
+
+  if (!tenant?.incidentWorkflow) {
+    return DEFAULT_INCIDENT_WORKFLOW;
+  }
+
+  const parsed = incidentWorkflowSchema.safeParse(tenant.incidentWorkflow);
+  return parsed.success ? parsed.data : DEFAULT_INCIDENT_WORKFLOW;
+}
+
+export function allowedTransitions(workflow: IncidentWorkflow, from: string): IncidentStatus[] {
+  return workflow[from as IncidentStatus] ?? [];
+}
+
+/**
+ * Why an incident can't move from one status to another, or null if it can
+ */
+export function checkTransition(workflow: IncidentWorkflow, from: string, to: string): string | null {
+  const valid = allowedTransitions(workflow, from);
+  if (valid.includes(to as IncidentStatus)) {
+    return null;
+  }
+  return `Cannot transition from ${from} to ${to}. Valid transitions: ${valid.join(", ") || "none"}`;
+}
+
+/**
+ * Split a bulk status change into incidents that can move and the ones the workflow rejects
+ */
+export function partitionTransitions<T extends { id: string; status: string }>(
+  workflow: IncidentWorkflow,
+  incidents: T[],
+  to: string
+): { allowed: T[]; rejected: RejectedTransition[] } {
+  const allowed: T[] = [];
+  const rejected: RejectedTransition[] = [];
+
+  for (const incident of incidents) {
+    const error = checkTransition(workflow, incident.status, to);
+    if (error) {
+      rejected.push({ incidentId: incident.id, error });
+    } else {
+      allowed.push(incident);
+    }
+  }
+
+  return { allowed, rejected };
+}
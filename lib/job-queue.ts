@@ -1,7 +1,14 @@
 import { prisma } from "./prisma";
 import { Prisma } from "@prisma/client";
+import { processDueScheduledChanges } from "./scheduled-flag-changes";
+import { processDueRolloutPlans } from "./rollout-plans";
+import { processDueEscalations } from "./escalations";
+import { processSlaAlerts } from "./incident-sla";
+import { rollupFlagEvaluations } from "./flag-analytics";
+import { buildFlagCleanupReport, groupCleanupByRecipient, STALE_AFTER_DAYS } from "./flag-cleanup";
+import { runWithTenantContext } from "./tenant";
 
-export type JobType = "SCAN_ATTACHMENT" | "SEND_NOTIFICATION" | "INCIDENT_SUMMARY";
+export type JobType = "SCAN_ATTACHMENT" | "SEND_NOTIFICATION" | "INCIDENT_SUMMARY" | "FLAG_CLEANUP_REPORT";
 export type JobStatus = "PENDING" | "PROCESSING" | "COMPLETED" | "FAILED";
 
 interface JobPayload {
@@ -12,7 +19,7 @@ interface JobPayload {
   };
   SEND_NOTIFICATION: {
     userId: string;
-    type: "incident_assigned" | "status_change" | "mention";
+    type: "incident_assigned" | "incident_escalated" | "incident_sla" | "status_change" | "mention" | "flag_cleanup";
     incidentId?: string;
     message: string;
   };
@@ -20,8 +27,14 @@ interface JobPayload {
     incidentId: string;
     recipientIds: string[];
   };
+  FLAG_CLEANUP_REPORT: {
+    staleAfterDays: number;
+  };
 }
 
+// Each tenant gets a flag cleanup report at most once per interval
+const FLAG_CLEANUP_INTERVAL_MS = 24 * 60 * 60 * 1000;
+
 /**
  * Enqueue a new job for background processing
  */
@@ -172,10 +185,68 @@ async function processIncidentSummary(payload: JobPayload["INCIDENT_SUMMARY"]) {
   return summary;
 }
 
+/**
+ * Process flag cleanup report job
+ * The full report becomes the job result; owners of removable flags get a notification
+ */
+async function processFlagCleanupReport(tenantId: string, payload: JobPayload["FLAG_CLEANUP_REPORT"]) {
+  const tenant = await prisma.tenant.findUnique({ where: { id: tenantId } });
+
+  if (!tenant) {
+    throw new Error("Tenant not found");
+  }
+
+  return runWithTenantContext({ tenantId, tenantSlug: tenant.slug }, async () => {
+    const report = await buildFlagCleanupReport(tenantId, new Date(), payload.staleAfterDays);
+
+    const admins = await prisma.membership.findMany({
+      where: { tenantId, role: "ADMIN" },
+      select: { userId: true },
+    });
+
+    const recipients = groupCleanupByRecipient(report, admins.map((admin) => admin.userId));
+
+    for (const [userId, entries] of recipients) {
+      const flagList = entries.map((entry) => `${entry.key} (${entry.environment})`).join(", ");
+      await enqueueJob(tenantId, "SEND_NOTIFICATION", {
+        userId,
+        type: "flag_cleanup",
+        message: `${entries.length} feature flag${entries.length === 1 ? " is" : "s are"} ready for cleanup: ${flagList}`,
+      });
+    }
+
+    return { ...report, notified: recipients.size };
+  });
+}
+
+/**
+ * Enqueue a flag cleanup report for every tenant that hasn't had one within the interval
+ */
+export async function scheduleFlagCleanupReports(now: Date = new Date()) {
+  const tenants = await prisma.tenant.findMany({ select: { id: true, slug: true } });
+  const since = new Date(now.getTime() - FLAG_CLEANUP_INTERVAL_MS);
+  let scheduled = 0;
+
+  for (const tenant of tenants) {
+    await runWithTenantContext({ tenantId: tenant.id, tenantSlug: tenant.slug }, async () => {
+      const recent = await prisma.job.findFirst({
+        where: { tenantId: tenant.id, type: "FLAG_CLEANUP_REPORT", createdAt: { gte: since } },
+      });
+
+      if (!recent) {
+        await enqueueJob(tenant.id, "FLAG_CLEANUP_REPORT", { staleAfterDays: STALE_AFTER_DAYS });
+        scheduled++;
+      }
+    });
+  }
+
+  return scheduled;
+}
+
 /**
  * Process a single job
  */
-export async function processJob(job: { id: string; type: string; payload: unknown }) {
+export async function processJob(job: { id: string; tenantId: string; type: string; payload: unknown }) {
   await markJobProcessing(job.id);
 
   try {
@@ -191,6 +262,9 @@ export async function processJob(job: { id: string; type: string; payload: unkno
       case "INCIDENT_SUMMARY":
         result = await processIncidentSummary(job.payload as JobPayload["INCIDENT_SUMMARY"]);
         break;
+      case "FLAG_CLEANUP_REPORT":
+        result = await processFlagCleanupReport(job.tenantId, job.payload as JobPayload["FLAG_CLEANUP_REPORT"]);
+        break;
       default:
         throw new Error(`Unknown job type: ${job.type}`);
     }
@@ -207,28 +281,50 @@ export async function processJob(job: { id: string; type: string; payload: unkno
 /**
  * Worker loop - polls for jobs and processes them
  */
-export async function startWorker(pollingInterval: number = 5000) {
-  console.log("[WORKER] Starting job worker...");
+// Periodic stages run before the job queue on every tick; each is isolated so a
+// failure in one (e.g. a database error) doesn't skip the others or job processing
+const WORKER_STAGES: [name: string, run: () => Promise<unknown>][] = [
+  ["scheduled flag changes", processDueScheduledChanges],
+  ["rollout plans", processDueRolloutPlans],
+  ["escalations", processDueEscalations],
+  ["SLA alerts", processSlaAlerts],
+  ["flag evaluation rollups", rollupFlagEvaluations],
+  ["flag cleanup reports", scheduleFlagCleanupReports],
+];
 
-  const processLoop = async () => {
+/**
+ * One worker tick: every periodic stage, then up to five pending jobs
+ */
+export async function runWorkerTick() {
+  for (const [name, run] of WORKER_STAGES) {
     try {
-      const jobs = await getPendingJobs(5);
-
-      for (const job of jobs) {
-        console.log(`[WORKER] Processing job ${job.id} (${job.type})`);
-        const result = await processJob(job);
-        console.log(`[WORKER] Job ${job.id} ${result.success ? "completed" : "failed"}`);
-      }
+      await run();
     } catch (error) {
-      console.error("[WORKER] Error in job processing loop:", error);
+      console.error(`[WORKER] Error processing ${name}:`, error);
     }
-  };
+  }
+
+  try {
+    const jobs = await getPendingJobs(5);
+
+    for (const job of jobs) {
+      console.log(`[WORKER] Processing job ${job.id} (${job.type})`);
+      const result = await processJob(job);
+      console.log(`[WORKER] Job ${job.id} ${result.success ? "completed" : "failed"}`);
+    }
+  } catch (error) {
+    console.error("[WORKER] Error in job processing loop:", error);
+  }
+}
+
+export async function startWorker(pollingInterval: number = 5000) {
+  console.log("[WORKER] Starting job worker...");
 
   // Initial run
-  await processLoop();
+  await runWorkerTick();
 
   // Set up polling
-  const intervalId = setInterval(processLoop, pollingInterval);
+  const intervalId = setInterval(runWorkerTick, pollingInterval);
 
   // Return cleanup function
   return () => {
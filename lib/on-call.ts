@@ -0,0 +1,304 @@
+import { z } from "zod";
+import { prisma } from "./prisma";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const timeOfDaySchema = z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$/, "Times must be HH:MM (24-hour)");
+
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+export const scheduleSchema = z.object({
+  name: z.string().min(1).max(100),
+  description: z.string().optional(),
+  timeZone: z.string().refine(isValidTimeZone, "Unknown time zone"),
+});
+
+export const rotationSchema = z
+  .object({
+    name: z.string().min(1).max(100),
+    layer: z.number().int().min(1).max(10).default(1),
+    handoff: z.enum(["DAILY", "WEEKLY"]),
+    handoffTime: timeOfDaySchema,
+    handoffDay: z.number().int().min(0).max(6).nullable().optional(),
+    userIds: z.array(z.string().min(1)).min(1, "A rotation needs at least one participant"),
+    startsAt: z.coerce.date(),
+    endsAt: z.coerce.date().nullable().optional(),
+    restrictStart: timeOfDaySchema.nullable().optional(),
+    restrictEnd: timeOfDaySchema.nullable().optional(),
+  })
+  .refine((rotation) => rotation.handoff === "DAILY" || rotation.handoffDay != null, {
+    message: "Weekly rotations need a handoff day",
+  })
+  .refine((rotation) => !rotation.endsAt || rotation.endsAt > rotation.startsAt, {
+    message: "A rotation must end after it starts",
+  })
+  .refine((rotation) => !rotation.restrictStart === !rotation.restrictEnd, {
+    message: "A restriction needs both a start and an end time",
+  });
+
+export const overrideSchema = z
+  .object({
+    userId: z.string().min(1),
+    startsAt: z.coerce.date(),
+    endsAt: z.coerce.date(),
+    reason: z.string().max(200).optional(),
+  })
+  .refine((override) => override.endsAt > override.startsAt, {
+    message: "An override must end after it starts",
+  });
+
+// Rotations are always sent as the full list, replacing the schedule's current layers
+export const scheduleWithRotationsSchema = scheduleSchema.extend({
+  rotations: z.array(rotationSchema).default([]),
+});
+
+export type RotationInput = z.infer<typeof rotationSchema>;
+
+export function toRotationData(tenantId: string, scheduleId: string, rotation: RotationInput) {
+  return {
+    tenantId,
+    scheduleId,
+    name: rotation.name,
+    layer: rotation.layer,
+    handoff: rotation.handoff,
+    handoffTime: rotation.handoffTime,
+    handoffDay: rotation.handoff === "WEEKLY" ? rotation.handoffDay : null,
+    userIds: rotation.userIds,
+    startsAt: rotation.startsAt,
+    endsAt: rotation.endsAt ?? null,
+    restrictStart: rotation.restrictStart ?? null,
+    restrictEnd: rotation.restrictEnd ?? null,
+  };
+}
+
+export interface RotationDefinition {
+  id: string;
+  name: string;
+  layer: number;
+  handoff: "DAILY" | "WEEKLY";
+  handoffTime: string;
+  handoffDay: number | null;
+  userIds: string[];
+  startsAt: Date;
+  endsAt: Date | null;
+  restrictStart: string | null;
+  restrictEnd: string | null;
+}
+
+export interface OverrideDefinition {
+  id: string;
+  userId: string;
+  startsAt: Date;
+  endsAt: Date;
+  createdAt: Date;
+}
+
+export interface OnCallResolution {
+  userId: string;
+  source: "OVERRIDE" | "ROTATION";
+  overrideId?: string;
+  rotationId?: string;
+  rotationName?: string;
+  layer?: number;
+  // When this shift ends; someone else may take over earlier through an override
+  until: Date;
+}
+
+function toMinutes(time: string): number {
+  const [hours, minutes] = time.split(":").map(Number);
+  return hours * 60 + minutes;
+}
+
+// Days since 1970-01-01 (a Thursday) to a day of the week, 0 = Sunday
+function weekdayOf(day: number): number {
+  return (((day + 4) % 7) + 7) % 7;
+}
+
+/**
+ * The wall-clock date (as days since the epoch) and minute of day at an instant
+ */
+function zonedParts(at: Date, timeZone: string): { day: number; minutes: number } {
+  const parts = Object.fromEntries(
+    new Intl.DateTimeFormat("en-US", {
+      timeZone,
+      hourCycle: "h23",
+      year: "numeric",
+      month: "numeric",
+      day: "numeric",
+      hour: "numeric",
+      minute: "numeric",
+    })
+      .formatToParts(at)
+      .map((part) => [part.type, part.value])
+  );
+
+  return {
+    day: Date.UTC(Number(parts.year), Number(parts.month) - 1, Number(parts.day)) / DAY_MS,
+    minutes: Number(parts.hour) * 60 + Number(parts.minute),
+  };
+}
+
+/**
+ * The instant a wall-clock time happens in a time zone
+ * Checked twice so a guess on the wrong side of a DST change corrects itself
+ */
+function zonedTimeToDate(day: number, minutes: number, timeZone: string): Date {
+  const wallClock = day * DAY_MS + minutes * 60_000;
+  let instant = wallClock;
+  for (let i = 0; i < 2; i++) {
+    const local = zonedParts(new Date(instant), timeZone);
+    const offset = local.day * DAY_MS + local.minutes * 60_000 - instant;
+    instant = wallClock - offset;
+  }
+  return new Date(instant);
+}
+
+/**
+ * Local date of the most recent handoff at or before an instant
+ * Handoffs follow wall-clock time, so a 09:00 handoff stays at 09:00 across DST changes.
+ */
+function lastHandoffDay(rotation: RotationDefinition, at: Date, timeZone: string): number {
+  const local = zonedParts(at, timeZone);
+  let day = local.minutes < toMinutes(rotation.handoffTime) ? local.day - 1 : local.day;
+  if (rotation.handoff === "WEEKLY") {
+    day -= (weekdayOf(day) - (rotation.handoffDay ?? 0) + 7) % 7;
+  }
+  return day;
+}
+
+function withinRestriction(rotation: RotationDefinition, minutes: number): boolean {
+  if (!rotation.restrictStart || !rotation.restrictEnd) return true;
+
+  const start = toMinutes(rotation.restrictStart);
+  const end = toMinutes(rotation.restrictEnd);
+  // A window like 18:00-08:00 wraps past midnight
+  return start <= end ? minutes >= start && minutes < end : minutes >= start || minutes < end;
+}
+
+/**
+ * Who a single rotation has on call at an instant, and until when
+ * Returns null outside the rotation's dates or its daily restriction window.
+ */
+export function rotationShiftAt(
+  rotation: RotationDefinition,
+  at: Date,
+  timeZone: string
+): { userId: string; until: Date } | null {
+  if (rotation.userIds.length === 0) return null;
+  if (at < rotation.startsAt || (rotation.endsAt && at >= rotation.endsAt)) return null;
+
+  const local = zonedParts(at, timeZone);
+  if (!withinRestriction(rotation, local.minutes)) return null;
+
+  const period = rotation.handoff === "WEEKLY" ? 7 : 1;
+  const handoffDay = lastHandoffDay(rotation, at, timeZone);
+  const shifts = (handoffDay - lastHandoffDay(rotation, rotation.startsAt, timeZone)) / period;
+  const userId = rotation.userIds[shifts % rotation.userIds.length];
+
+  const ends = [zonedTimeToDate(handoffDay + period, toMinutes(rotation.handoffTime), timeZone)];
+  if (rotation.endsAt) ends.push(rotation.endsAt);
+  if (rotation.restrictEnd) {
+    const end = toMinutes(rotation.restrictEnd);
+    ends.push(zonedTimeToDate(local.minutes < end ? local.day : local.day + 1, end, timeZone));
+  }
+
+  return { userId, until: new Date(Math.min(...ends.map((end) => end.getTime()))) };
+}
+
+/**
+ * Resolve who is on call for a schedule at an instant
+ * An active override always wins (the most recently created one if several
+ * overlap); otherwise the highest rotation layer with someone on call does.
+ */
+export function resolveOnCall(
+  schedule: { timeZone: string; rotations: RotationDefinition[]; overrides: OverrideDefinition[] },
+  at: Date
+): OnCallResolution | null {
+  const override = schedule.overrides
+    .filter((o) => o.startsAt <= at && at < o.endsAt)
+    .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime())[0];
+
+  if (override) {
+    return { userId: override.userId, source: "OVERRIDE", overrideId: override.id, until: override.endsAt };
+  }
+
+  const layers = [...schedule.rotations].sort((a, b) => b.layer - a.layer);
+  for (const rotation of layers) {
+    const shift = rotationShiftAt(rotation, at, schedule.timeZone);
+    if (shift) {
+      return {
+        ...shift,
+        source: "ROTATION",
+        rotationId: rotation.id,
+        rotationName: rotation.name,
+        layer: rotation.layer,
+      };
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Any of these users without a membership in the tenant
+ */
+export async function findNonMembers(tenantId: string, userIds: string[]): Promise<string[]> {
+  const memberships = await prisma.membership.findMany({
+    where: { tenantId, userId: { in: userIds } },
+    select: { userId: true },
+  });
+  const members = new Set(memberships.map((m: { userId: string }) => m.userId));
+  return [...new Set(userIds)].filter((id) => !members.has(id));
+}
+
+/**
+ * Who is on call for a schedule at an instant, with their name and email
+ * Returns undefined when the schedule doesn't exist, null when nobody is on call.
+ */
+export async function getOnCall(tenantId: string, scheduleId: string, at: Date) {
+  const schedule = await prisma.schedule.findFirst({
+    where: { id: scheduleId, tenantId },
+    include: {
+      rotations: true,
+      overrides: { where: { startsAt: { lte: at }, endsAt: { gt: at } } },
+    },
+  });
+
+  if (!schedule) return undefined;
+
+  const resolution = resolveOnCall(schedule, at);
+  if (!resolution) return null;
+
+  const user = await prisma.user.findUnique({
+    where: { id: resolution.userId },
+    select: { id: true, name: true, email: true },
+  });
+
+  return { ...resolution, user };
+}
+
+/**
+ * Every schedule in the tenant with its layers, upcoming overrides and who is on call now
+ */
+export async function getSchedules(tenantId: string, now = new Date()) {
+  const schedules = await prisma.schedule.findMany({
+    where: { tenantId },
+    include: {
+      rotations: { orderBy: [{ layer: "desc" }, { createdAt: "asc" }] },
+      overrides: { where: { endsAt: { gt: now } }, orderBy: { startsAt: "asc" } },
+    },
+    orderBy: { name: "asc" },
+  });
+
+  return schedules.map((schedule) => ({
+    ...schedule,
+    onCall: resolveOnCall(schedule, now),
+  }));
+}
@@ -0,0 +1,57 @@
+import { prisma } from "./prisma";
+import { collectPrerequisiteKeys, ruleSchema } from "@next-ops/flag-evaluator";
+import type { FlagEnvironment } from "./flag-snapshots";
+
+/**
+ * Get the keys of all flags referenced by a flag's PREREQUISITE rules
+ */
+export function getPrerequisiteKeys(rules: { condition: unknown }[]): string[] {
+  const keys = new Set<string>();
+
+  for (const rule of rules) {
+    const parsed = ruleSchema.safeParse(rule.condition);
+    if (parsed.success) {
+      collectPrerequisiteKeys(parsed.data).forEach((key) => keys.add(key));
+    }
+  }
+
+  return [...keys];
+}
+
+/**
+ * Map every flag in an environment to the flag keys it depends on
+ */
+export async function getPrerequisiteGraph(
+  tenantId: string,
+  environment: FlagEnvironment
+): Promise<Record<string, string[]>> {
+  const flags = await prisma.featureFlag.findMany({
+    where: { tenantId, environment },
+    select: { key: true, rules: { select: { condition: true } } },
+  });
+
+  return Object.fromEntries(flags.map((flag) => [flag.key, getPrerequisiteKeys(flag.rules)]));
+}
+
+/**
+ * Find flags in the same environment that have a flag as a prerequisite
+ */
+export async function findDependentFlags(tenantId: string, environment: FlagEnvironment, flagKey: string) {
+  const flags = await prisma.featureFlag.findMany({
+    where: { tenantId, environment },
+    select: {
+      id: true,
+      key: true,
+      name: true,
+      rules: { select: { condition: true } },
+    },
+  });
+
+  return flags
+    .filter((flag) => getPrerequisiteKeys(flag.rules).includes(flagKey))
+    .map((flag) => ({
+      id: flag.id,
+      key: flag.key,
+      name: flag.name,
+    }));
+}
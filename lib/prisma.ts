@@ -8,11 +8,27 @@ const TENANT_SCOPED_MODELS = [
   'Incident',
   'FeatureFlag',
   'Rule',
+  'Segment',
+  'ExperimentLayer',
+  'RulesetVersion',
+  'FlagChangeEvent',
+  'FlagEvaluationEvent',
+  'FlagEvaluationRollup',
+  'FlagRevision',
+  'FlagChangeRequest',
+  'CodeReferenceRepository',
+  'CodeReference',
   'TimelineEvent',
   'Attachment',
   'AuditLog',
   'Job',
   'SavedView',
+  'Schedule',
+  'Rotation',
+  'Override',
+  'EscalationPolicy',
+  'SlaTarget',
+  'IncidentSlaAlert',
 ];
 
 const createPrismaClient = () => {
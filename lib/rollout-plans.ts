@@ -0,0 +1,298 @@
+import { z } from "zod";
+import { Prisma } from "@prisma/client";
+import { prisma } from "./prisma";
+import { runWithTenantContext, type TenantContext } from "./tenant";
+import { applyFlagPatch, flagPatchSchema } from "./flag-updates";
+import { approvalConflict } from "./flag-change-requests";
+
+// RolloutPlan is not tenant-scoped in the prisma middleware so the worker can poll
+// every tenant; each step is applied inside its own tenant context
+
+export const rolloutPlanSchema = z.object({
+  steps: z
+    .array(z.number().int().min(0).max(100))
+    .min(1, "Rollout plan needs at least one step")
+    .max(20, "Rollout plan can have at most 20 steps")
+    .refine((steps) => steps.every((step, i) => i === 0 || step > steps[i - 1]), {
+      message: "Rollout steps must increase",
+    }),
+  intervalMinutes: z.number().int().min(1).max(60 * 24 * 30),
+  startAt: z.coerce.date().optional(),
+  guard: z
+    .object({
+      service: z.string().min(1, "Guard service is required"),
+      severity: z.enum(["SEV1", "SEV2", "SEV3", "SEV4"]),
+    })
+    .optional(),
+});
+
+type Severity = "SEV1" | "SEV2" | "SEV3" | "SEV4";
+
+/**
+ * Whether an incident severity is at or above a guard threshold (SEV1 is the most severe)
+ */
+export function meetsSeverityThreshold(severity: Severity, threshold: Severity): boolean {
+  return Number(severity.slice(3)) <= Number(threshold.slice(3));
+}
+
+/**
+ * Whether the flag was edited outside the plan since its last step
+ * The plan only ever changes the rollout, so anything else differing from the
+ * state it started from (or a different rollout) is someone else's edit, which
+ * another step or a rollback to safeState would silently undo.
+ */
+export function editedOutsidePlan(
+  plan: { steps: number[]; currentStep: number; safeState: unknown },
+  flag: { enabled: boolean; rolloutPercentage: number }
+): boolean {
+  const safeState = flagPatchSchema.safeParse(plan.safeState);
+  if (flag.rolloutPercentage !== plan.steps[plan.currentStep]) {
+    return true;
+  }
+  return safeState.success && safeState.data.enabled !== undefined && safeState.data.enabled !== flag.enabled;
+}
+
+/**
+ * Get active rollout plans whose next step is due, oldest first
+ */
+export async function getDueRolloutPlans(now: Date = new Date(), limit: number = 10) {
+  return prisma.rolloutPlan.findMany({
+    where: {
+      status: "ACTIVE",
+      nextStepAt: { lte: now },
+    },
+    include: { tenant: { select: { slug: true } } },
+    orderBy: { nextStepAt: "asc" },
+    take: limit,
+  });
+}
+
+/**
+ * Apply the next step of a plan through the same path as PATCH /api/feature-flags/[id]
+ */
+export async function advanceRolloutPlan(
+  plan: {
+    id: string;
+    tenantId: string;
+    flagId: string;
+    steps: number[];
+    intervalMinutes: number;
+    currentStep: number;
+    safeState: unknown;
+    createdById: string;
+    tenant: { slug: string };
+  },
+  now: Date = new Date()
+) {
+  // Claim the step so concurrent workers don't apply it twice
+  const claimed = await prisma.rolloutPlan.updateMany({
+    where: { id: plan.id, status: "ACTIVE", currentStep: plan.currentStep, nextStepAt: { not: null } },
+    data: { nextStepAt: null },
+  });
+
+  if (claimed.count === 0) {
+    return { success: false, error: "Already claimed" };
+  }
+
+  const step = plan.currentStep + 1;
+  if (step >= plan.steps.length) {
+    await prisma.rolloutPlan.update({
+      where: { id: plan.id },
+      data: { status: "COMPLETED" },
+    });
+    return { success: true, completed: true };
+  }
+
+  try {
+    const result = await runWithTenantContext({ tenantId: plan.tenantId, tenantSlug: plan.tenant.slug }, async () => {
+      const flag = await prisma.featureFlag.findFirst({
+        where: { id: plan.flagId, tenantId: plan.tenantId },
+        select: { enabled: true, rolloutPercentage: true, environment: true },
+      });
+
+      // Approval may have been turned on for the flag's environment after the plan was created
+      const conflict = flag && (await approvalConflict(plan.tenantId, flag.environment, "apply rollout step"));
+      if (conflict) {
+        return { success: false as const, aborted: true, error: conflict };
+      }
+
+      if (flag && step === 0) {
+        // What a guard rollback restores: the flag as it is right before the plan first changes it
+        await prisma.rolloutPlan.update({
+          where: { id: plan.id },
+          data: { safeState: { enabled: flag.enabled, rolloutPercentage: flag.rolloutPercentage } },
+        });
+      } else if (flag && editedOutsidePlan(plan, flag)) {
+        return { success: false as const, aborted: true, error: "Flag was edited outside the rollout plan" };
+      }
+
+      return applyFlagPatch(
+        plan.tenantId,
+        plan.flagId,
+        { rolloutPercentage: plan.steps[step] },
+        {
+          actorId: plan.createdById,
+          action: "ROLLOUT_STEP",
+          metadata: { rolloutPlanId: plan.id, step: step + 1, totalSteps: plan.steps.length },
+        }
+      );
+    });
+
+    if (!result.success && "aborted" in result) {
+      // Someone took over the rollout by hand; further steps would overwrite their change
+      await prisma.rolloutPlan.update({
+        where: { id: plan.id },
+        data: { status: "ABORTED", error: result.error },
+      });
+      return { success: false, error: result.error };
+    }
+
+    if (!result.success) {
+      throw new Error(result.error);
+    }
+
+    const completed = step === plan.steps.length - 1;
+    await prisma.rolloutPlan.update({
+      where: { id: plan.id },
+      data: {
+        currentStep: step,
+        error: null,
+        nextStepAt: completed ? null : new Date(now.getTime() + plan.intervalMinutes * 60_000),
+        ...(completed && { status: "COMPLETED" }),
+      },
+    });
+
+    return { success: true, completed };
+  } catch (error) {
+    // Stop ramping until someone looks at it; resuming retries the same step
+    const errorMessage = error instanceof Error ? error.message : "Unknown error";
+    await prisma.rolloutPlan.update({
+      where: { id: plan.id },
+      data: { status: "PAUSED", error: errorMessage },
+    });
+    return { success: false, error: errorMessage };
+  }
+}
+
+/**
+ * Advance every rollout plan whose next step is due
+ */
+export async function processDueRolloutPlans(now: Date = new Date()) {
+  const plans = await getDueRolloutPlans(now);
+
+  for (const plan of plans) {
+    console.log(`[WORKER] Advancing rollout plan ${plan.id} for flag ${plan.flagId}`);
+    const result = await advanceRolloutPlan(plan, now);
+    console.log(`[WORKER] Rollout plan ${plan.id} ${result.success ? "advanced" : `stopped: ${result.error}`}`);
+  }
+
+  return plans.length;
+}
+
+/**
+ * Roll back flags whose in-progress rollout is guarded against a newly opened incident
+ * Called after the incident is created; failures are logged and never block incident creation
+ */
+export async function rollbackGuardedRollouts(
+  tenant: TenantContext,
+  incident: { id: string; service: string; severity: Severity },
+  actorId: string
+) {
+  return runWithTenantContext(tenant, async () => {
+    const rolledBack: string[] = [];
+
+    try {
+      const plans = await prisma.rolloutPlan.findMany({
+        where: {
+          tenantId: tenant.tenantId,
+          status: { in: ["ACTIVE", "PAUSED"] },
+          guardService: incident.service,
+        },
+        include: { flag: { select: { key: true, environment: true, enabled: true, rolloutPercentage: true } } },
+      });
+
+      for (const plan of plans) {
+        if (!plan.guardSeverity || !meetsSeverityThreshold(incident.severity, plan.guardSeverity)) {
+          continue;
+        }
+
+        // Stop the plan first so the worker can't ramp it again
+        const claimed = await prisma.rolloutPlan.updateMany({
+          where: { id: plan.id, status: { in: ["ACTIVE", "PAUSED"] } },
+          data: { status: "ROLLED_BACK", nextStepAt: null },
+        });
+        if (claimed.count === 0) {
+          continue;
+        }
+
+        // Stopped before its first step: the plan hasn't changed the flag yet
+        if (plan.currentStep < 0) {
+          continue;
+        }
+
+        const safeState = flagPatchSchema.safeParse(plan.safeState);
+        if (!safeState.success) {
+          await prisma.rolloutPlan.update({
+            where: { id: plan.id },
+            data: { error: "No safe state recorded to roll back to" },
+          });
+          continue;
+        }
+
+        if (editedOutsidePlan(plan, plan.flag)) {
+          await prisma.rolloutPlan.update({
+            where: { id: plan.id },
+            data: { error: "Not rolled back: flag was edited outside the rollout plan" },
+          });
+          await prisma.timelineEvent.create({
+            data: {
+              incidentId: incident.id,
+              tenantId: tenant.tenantId,
+              type: "ACTION",
+              message: `Stopped the rollout of feature flag ${plan.flag.key} (${plan.flag.environment}): rollout guard on ${incident.service} tripped, but the flag was edited outside the plan so it was left as is`,
+              data: { flagId: plan.flagId, flagKey: plan.flag.key, rolloutPlanId: plan.id } as Prisma.InputJsonValue,
+              createdById: actorId,
+            },
+          });
+          continue;
+        }
+
+        const result = await applyFlagPatch(tenant.tenantId, plan.flagId, safeState.data, {
+          actorId,
+          action: "AUTO_ROLLBACK",
+          metadata: { rolloutPlanId: plan.id, incidentId: incident.id },
+        });
+
+        if (!result.success) {
+          await prisma.rolloutPlan.update({
+            where: { id: plan.id },
+            data: { error: `Rollback failed: ${result.error}` },
+          });
+          continue;
+        }
+
+        await prisma.timelineEvent.create({
+          data: {
+            incidentId: incident.id,
+            tenantId: tenant.tenantId,
+            type: "ACTION",
+            message: `Rolled back feature flag ${plan.flag.key} (${plan.flag.environment}): rollout guard on ${incident.service} tripped`,
+            data: {
+              flagId: plan.flagId,
+              flagKey: plan.flag.key,
+              rolloutPlanId: plan.id,
+              restored: safeState.data,
+            } as Prisma.InputJsonValue,
+            createdById: actorId,
+          },
+        });
+
+        rolledBack.push(plan.flagId);
+      }
+    } catch (error) {
+      console.error("Error rolling back guarded rollouts:", error);
+    }
+
+    return rolledBack;
+  });
+}
@@ -0,0 +1,104 @@
+import { prisma } from "./prisma";
+import { runWithTenantContext } from "./tenant";
+import { applyFlagPatch, flagPatchSchema } from "./flag-updates";
+import { approvalConflict } from "./flag-change-requests";
+
+// ScheduledFlagChange is not tenant-scoped in the prisma middleware so the worker can poll
+// every tenant; each change is applied inside its own tenant context
+
+/**
+ * Get scheduled flag changes that are due, oldest first
+ */
+export async function getDueScheduledChanges(now: Date = new Date(), limit: number = 10) {
+  return prisma.scheduledFlagChange.findMany({
+    where: {
+      status: "PENDING",
+      scheduledFor: { lte: now },
+    },
+    include: { tenant: { select: { slug: true } } },
+    orderBy: { scheduledFor: "asc" },
+    take: limit,
+  });
+}
+
+/**
+ * Apply a single scheduled change through the same path as PATCH /api/feature-flags/[id]
+ */
+export async function applyScheduledChange(change: {
+  id: string;
+  tenantId: string;
+  flagId: string;
+  patch: unknown;
+  createdById: string;
+  tenant: { slug: string };
+}) {
+  // Claim the change so concurrent workers don't apply it twice
+  const claimed = await prisma.scheduledFlagChange.updateMany({
+    where: { id: change.id, status: "PENDING" },
+    data: { status: "APPLYING" },
+  });
+
+  if (claimed.count === 0) {
+    return { success: false, error: "Already claimed" };
+  }
+
+  try {
+    const parsed = flagPatchSchema.safeParse(change.patch);
+    if (!parsed.success) {
+      throw new Error(parsed.error.issues[0].message);
+    }
+
+    const result = await runWithTenantContext(
+      { tenantId: change.tenantId, tenantSlug: change.tenant.slug },
+      async () => {
+        // Approval may have been turned on for the flag's environment after the change was scheduled
+        const flag = await prisma.featureFlag.findFirst({
+          where: { id: change.flagId, tenantId: change.tenantId },
+          select: { environment: true },
+        });
+        const conflict = flag && (await approvalConflict(change.tenantId, flag.environment, "apply scheduled change"));
+        if (conflict) {
+          return { success: false as const, error: conflict };
+        }
+
+        return applyFlagPatch(change.tenantId, change.flagId, parsed.data, {
+          actorId: change.createdById,
+          metadata: { scheduledChangeId: change.id },
+        });
+      }
+    );
+
+    if (!result.success) {
+      throw new Error(result.error);
+    }
+
+    await prisma.scheduledFlagChange.update({
+      where: { id: change.id },
+      data: { status: "APPLIED", appliedAt: new Date() },
+    });
+
+    return { success: true };
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : "Unknown error";
+    await prisma.scheduledFlagChange.update({
+      where: { id: change.id },
+      data: { status: "FAILED", error: errorMessage },
+    });
+    return { success: false, error: errorMessage };
+  }
+}
+
+/**
+ * Apply every scheduled change that is due
+ */
+export async function processDueScheduledChanges(now: Date = new Date()) {
+  const changes = await getDueScheduledChanges(now);
+
+  for (const change of changes) {
+    console.log(`[WORKER] Applying scheduled change ${change.id} to flag ${change.flagId}`);
+    const result = await applyScheduledChange(change);
+    console.log(`[WORKER] Scheduled change ${change.id} ${result.success ? "applied" : `failed: ${result.error}`}`);
+  }
+
+  return changes.length;
+}
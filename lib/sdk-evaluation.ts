@@ -0,0 +1,36 @@
+import { z } from "zod";
+import type { SdkKeyContext } from "./sdk-keys";
+
+export const sdkEvaluateSchema = z.object({
+  userId: z.string().min(1),
+  service: z.string().optional(),
+  attributes: z.record(z.string(), z.union([z.string(), z.number(), z.boolean()])).optional(),
+  includeTrace: z.boolean().default(false),
+});
+
+type SdkEvaluateRequest = z.infer<typeof sdkEvaluateSchema>;
+
+export type ParsedSdkEvaluateRequest =
+  | {
+      success: true;
+      context: Omit<SdkEvaluateRequest, "includeTrace">;
+      includeTrace: boolean;
+    }
+  | { success: false; error: string };
+
+/**
+ * Parse the body of an SDK evaluate call
+ * Traces spell out allowlisted user ids, segment names and layer ids, so includeTrace is ignored for CLIENT keys
+ */
+export function parseSdkEvaluateRequest(
+  body: unknown,
+  sdkKey: Pick<SdkKeyContext, "scope">
+): ParsedSdkEvaluateRequest {
+  const parsed = sdkEvaluateSchema.safeParse(body);
+  if (!parsed.success) {
+    return { success: false, error: parsed.error.issues[0].message };
+  }
+
+  const { includeTrace, ...context } = parsed.data;
+  return { success: true, context, includeTrace: includeTrace && sdkKey.scope === "SERVER" };
+}
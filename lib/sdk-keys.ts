@@ -0,0 +1,99 @@
+import { createHash, randomBytes } from "crypto";
+import { prisma } from "./prisma";
+
+export type SdkEnvironment = "DEV" | "STAGING" | "PROD";
+
+/**
+ * CLIENT keys are shipped to browsers and may only evaluate flags
+ * SERVER keys stay on backends and CI; only they can download snapshots and upload code references
+ */
+export type SdkKeyScope = "CLIENT" | "SERVER";
+
+export interface SdkKeyContext {
+  id: string;
+  tenantId: string;
+  tenantSlug: string;
+  environment: SdkEnvironment;
+  scope: SdkKeyScope;
+  signingSecret: string | null;
+}
+
+// Only touch lastUsedAt once per minute so polling clients don't write on every request
+const LAST_USED_RESOLUTION_MS = 60 * 1000;
+
+/**
+ * Generate a new SDK key, e.g. "sdk-prod-<32 random chars>" (client) or "srv-prod-<32 random chars>" (server)
+ */
+export function generateSdkKey(environment: SdkEnvironment, scope: SdkKeyScope = "CLIENT"): string {
+  const prefix = scope === "SERVER" ? "srv" : "sdk";
+  return `${prefix}-${environment.toLowerCase()}-${randomBytes(24).toString("base64url")}`;
+}
+
+/**
+ * Generate the secret a server key's snapshots are signed with
+ * Stored server-side and shown once, so holding the key alone can't forge a signature
+ */
+export function generateSigningSecret(): string {
+  return randomBytes(32).toString("base64url");
+}
+
+/**
+ * Hash an SDK key for storage and lookup
+ */
+export function hashSdkKey(key: string): string {
+  return createHash("sha256").update(key).digest("hex");
+}
+
+/**
+ * Visible part of an SDK key, used to identify it once the full key is gone
+ */
+export function getSdkKeyPrefix(key: string): string {
+  // The random part is base64url and may itself contain dashes, so anchor on the environment
+  // ("sdk-" and "srv-" have the same length)
+  return key.slice(0, key.indexOf("-", "sdk-".length) + 7);
+}
+
+/**
+ * Read an SDK key from the "Authorization: Bearer <key>" header
+ */
+export function extractSdkKey(request: Request): string | null {
+  const header = request.headers.get("authorization");
+  const match = header?.match(/^Bearer\s+(\S+)$/i);
+  return match ? match[1] : null;
+}
+
+/**
+ * Resolve the tenant and environment for a request's SDK key
+ * Returns null if the key is missing, unknown or revoked
+ */
+export async function authenticateSdkKey(request: Request): Promise<SdkKeyContext | null> {
+  const key = extractSdkKey(request);
+  if (!key) {
+    return null;
+  }
+
+  const sdkKey = await prisma.sdkKey.findUnique({
+    where: { keyHash: hashSdkKey(key) },
+    include: { tenant: { select: { slug: true } } },
+  });
+
+  if (!sdkKey || sdkKey.revokedAt) {
+    return null;
+  }
+
+  if (!sdkKey.lastUsedAt || Date.now() - sdkKey.lastUsedAt.getTime() > LAST_USED_RESOLUTION_MS) {
+    await prisma.sdkKey.update({
+      where: { id: sdkKey.id },
+      data: { lastUsedAt: new Date() },
+    });
+  }
+
+  return {
+    id: sdkKey.id,
+    tenantId: sdkKey.tenantId,
+    tenantSlug: sdkKey.tenant.slug,
+    environment: sdkKey.environment,
+    scope: sdkKey.scope,
+    signingSecret: sdkKey.signingSecret,
+  };
+}
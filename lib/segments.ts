@@ -0,0 +1,72 @@
+import { prisma } from "./prisma";
+import { collectSegmentIds, ruleSchema, type SegmentDefinition } from "@next-ops/flag-evaluator";
+
+/**
+ * Get the ids of all segments referenced by a flag's rules
+ */
+export function getReferencedSegmentIds(rules: { condition: unknown }[]): string[] {
+  const ids = new Set<string>();
+
+  for (const rule of rules) {
+    const parsed = ruleSchema.safeParse(rule.condition);
+    if (parsed.success) {
+      collectSegmentIds(parsed.data).forEach((id) => ids.add(id));
+    }
+  }
+
+  return [...ids];
+}
+
+/**
+ * Load segments by id for evaluation, keyed by segment id
+ */
+export async function loadSegments(
+  tenantId: string,
+  segmentIds: string[]
+): Promise<Record<string, SegmentDefinition>> {
+  if (segmentIds.length === 0) {
+    return {};
+  }
+
+  const segments = await prisma.segment.findMany({
+    where: { tenantId, id: { in: segmentIds } },
+  });
+
+  return Object.fromEntries(segments.map((segment) => [segment.id, segment]));
+}
+
+/**
+ * Load every segment a set of flags depends on
+ */
+export async function loadSegmentsForFlags(
+  tenantId: string,
+  flags: { rules: { condition: unknown }[] }[]
+): Promise<Record<string, SegmentDefinition>> {
+  const ids = new Set(flags.flatMap((flag) => getReferencedSegmentIds(flag.rules)));
+  return loadSegments(tenantId, [...ids]);
+}
+
+/**
+ * Find flags whose rules reference a segment
+ */
+export async function findFlagsUsingSegment(tenantId: string, segmentId: string) {
+  const flags = await prisma.featureFlag.findMany({
+    where: { tenantId },
+    select: {
+      id: true,
+      key: true,
+      name: true,
+      environment: true,
+      rules: { select: { condition: true } },
+    },
+  });
+
+  return flags
+    .filter((flag) => getReferencedSegmentIds(flag.rules).includes(segmentId))
+    .map((flag) => ({
+      id: flag.id,
+      key: flag.key,
+      name: flag.name,
+      environment: flag.environment,
+    }));
+}
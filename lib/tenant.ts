@@ -1,11 +1,32 @@
+import { AsyncLocalStorage } from "async_hooks";
 import { getSession } from "./auth";
 import { prisma } from "./prisma";
 
+export interface TenantContext {
+  tenantId: string;
+  tenantSlug: string;
+}
+
+const tenantContextStorage = new AsyncLocalStorage<TenantContext>();
+
+/**
+ * Run a function with an explicit tenant context
+ * Used by callers that are not backed by a user session (SDK keys, background jobs)
+ */
+export function runWithTenantContext<T>(context: TenantContext, fn: () => T): T {
+  return tenantContextStorage.run(context, fn);
+}
+
 /**
  * Get the current tenant context from the session
  * This is used to enforce tenant isolation throughout the app
  */
-export async function getCurrentTenantContext() {
+export async function getCurrentTenantContext(): Promise<TenantContext | null> {
+  const scoped = tenantContextStorage.getStore();
+  if (scoped) {
+    return scoped;
+  }
+
   const session = await getSession();
   
   // DEV MODE: If no session, use first tenant for testing
@@ -0,0 +1,834 @@
+import { z } from "zod";
+import { createHash } from "crypto";
+
+// Rule schemas for Zod validation
+const allowlistRuleSchema = z.object({
+  type: z.literal("ALLOWLIST"),
+  userIds: z.array(z.string()),
+});
+
+const percentRolloutRuleSchema = z.object({
+  type: z.literal("PERCENT_ROLLOUT"),
+  percentage: z.number().min(0).max(100),
+});
+
+export const ATTRIBUTE_OPERATORS = [
+  "EQUALS",
+  "IN",
+  "NOT_IN",
+  "CONTAINS",
+  "STARTS_WITH",
+  "REGEX",
+  "GT",
+  "GTE",
+  "LT",
+  "LTE",
+  "SEMVER_EQ",
+  "SEMVER_GT",
+  "SEMVER_GTE",
+  "SEMVER_LT",
+  "SEMVER_LTE",
+  "BEFORE",
+  "AFTER",
+] as const;
+
+const attributeValueSchema = z.union([z.string(), z.number(), z.boolean()]);
+
+const attributeRuleSchema = z.object({
+  type: z.literal("ATTRIBUTE"),
+  attribute: z.string().min(1),
+  operator: z.enum(ATTRIBUTE_OPERATORS),
+  values: z.array(attributeValueSchema).min(1),
+});
+
+const segmentRuleSchema = z.object({
+  type: z.literal("SEGMENT"),
+  segmentId: z.string().min(1),
+});
+
+// Matches when another flag in the same environment evaluates to the required result
+const prerequisiteRuleSchema = z.object({
+  type: z.literal("PREREQUISITE"),
+  flagKey: z.string().min(1),
+  enabled: z.boolean(),
+  variant: z.string().min(1).optional(),
+});
+
+// Attribute conditions stored on a Segment; all must match
+export const segmentConditionsSchema = z.array(attributeRuleSchema);
+
+// Variant schemas for multivariate flags
+const variantValueSchema = z.union([
+  z.string(),
+  z.number(),
+  z.boolean(),
+  z.array(z.unknown()),
+  z.record(z.string(), z.unknown()),
+]);
+
+export const variantSchema = z.object({
+  key: z.string().min(1).regex(/^[A-Za-z0-9_-]+$/, "Variant key must be alphanumeric with hyphens/underscores"),
+  value: variantValueSchema,
+  description: z.string().optional(),
+});
+
+export const variantsSchema = z
+  .array(variantSchema)
+  .refine((variants) => new Set(variants.map((v) => v.key)).size === variants.length, {
+    message: "Variant keys must be unique",
+  });
+
+// What a matching rule (or the flag by default) serves: one variant or a weighted split
+export const serveSchema = z.union([
+  z.object({ variant: z.string().min(1) }),
+  z.object({
+    split: z
+      .array(z.object({ variant: z.string().min(1), weight: z.number().int().min(0).max(100) }))
+      .min(1)
+      .refine((split) => split.reduce((sum, s) => sum + s.weight, 0) === 100, {
+        message: "Split weights must add up to 100",
+      }),
+  }),
+]);
+
+export const ruleSchema: z.ZodType<Rule> = z.discriminatedUnion("type", [
+  allowlistRuleSchema,
+  percentRolloutRuleSchema,
+  attributeRuleSchema,
+  segmentRuleSchema,
+  prerequisiteRuleSchema,
+  z.object({
+    type: z.literal("AND"),
+    rules: z.array(z.lazy(() => ruleSchema)),
+  }),
+  z.object({
+    type: z.literal("OR"),
+    rules: z.array(z.lazy(() => ruleSchema)),
+  }),
+]);
+
+export type AllowlistRule = z.infer<typeof allowlistRuleSchema>;
+export type PercentRolloutRule = z.infer<typeof percentRolloutRuleSchema>;
+export type AttributeRule = z.infer<typeof attributeRuleSchema>;
+export type AttributeOperator = AttributeRule["operator"];
+export type AttributeValue = z.infer<typeof attributeValueSchema>;
+export type SegmentRule = z.infer<typeof segmentRuleSchema>;
+export type PrerequisiteRule = z.infer<typeof prerequisiteRuleSchema>;
+export type AndRule = { type: "AND"; rules: Rule[] };
+export type OrRule = { type: "OR"; rules: Rule[] };
+export type Rule =
+  | AllowlistRule
+  | PercentRolloutRule
+  | AttributeRule
+  | SegmentRule
+  | PrerequisiteRule
+  | AndRule
+  | OrRule;
+
+export type Variant = z.infer<typeof variantSchema>;
+export type VariantValue = Variant["value"];
+export type Serve = z.infer<typeof serveSchema>;
+
+export interface EvaluationContext {
+  userId: string;
+  environment: string;
+  service?: string;
+  attributes?: Record<string, AttributeValue>;
+}
+
+export interface SegmentDefinition {
+  id: string;
+  name: string;
+  userIds: string[];
+  conditions: unknown;
+}
+
+/**
+ * Data that rules may reference but that lives outside the flag itself
+ */
+export interface EvaluationOptions {
+  segments?: Record<string, SegmentDefinition>;
+  /** Flags in the same environment, keyed by flag key, for PREREQUISITE rules */
+  flags?: Record<string, FlagDefinition>;
+  /** Flag keys currently being evaluated, outermost first; used to detect cycles */
+  prerequisiteChain?: string[];
+}
+
+/**
+ * The parts of a stored flag that evaluation reads
+ */
+export interface FlagDefinition {
+  key: string;
+  enabled: boolean;
+  environment: string;
+  rolloutPercentage?: number;
+  rules: { condition: unknown; serve?: unknown }[];
+  variants?: unknown;
+  defaultServe?: unknown;
+  offVariant?: string | null;
+  /** Experiment layer slice: buckets [layerStart, layerStart + layerPercentage) of the layer */
+  layerId?: string | null;
+  layerStart?: number | null;
+  layerPercentage?: number | null;
+}
+
+/**
+ * Machine-readable form of an evaluation's reason, for SDKs that map it to their own reason codes
+ * "split" is the default rule bucketing users (a partial rollout or a weighted variant split); "default"
+ * is the default rule giving everyone the same answer
+ */
+export type EvaluationReasonKind =
+  | "disabled"
+  | "environment_mismatch"
+  | "outside_layer"
+  | "rule_match"
+  | "split"
+  | "default";
+
+export interface EvaluationResult {
+  enabled: boolean;
+  reason: string;
+  reasonKind: EvaluationReasonKind;
+  trace: string[];
+  /** Index of the targeting rule that matched; absent when the default rule applied */
+  ruleIndex?: number;
+  variant?: string;
+  value?: VariantValue;
+}
+
+export type FlagEvaluation = Omit<EvaluationResult, "trace"> & { trace?: string[] };
+
+/**
+ * Everything needed to evaluate one environment's flags outside this app
+ */
+export interface FlagSnapshot {
+  version: number;
+  environment: string;
+  generatedAt: string;
+  flags: FlagDefinition[];
+  segments: Record<string, SegmentDefinition>;
+}
+
+/**
+ * Stable hash function for deterministic percentage rollout
+ * Uses SHA-256 to hash userId + flagKey and converts to a number 0-99
+ */
+export function stableHash(userId: string, flagKey: string): number {
+  const hash = createHash("sha256");
+  hash.update(`${userId}:${flagKey}`);
+  const hex = hash.digest("hex");
+  // Take first 8 characters and convert to number, then mod 100
+  const num = parseInt(hex.substring(0, 8), 16);
+  return num % 100;
+}
+
+/**
+ * A user's bucket (0-99) in an experiment layer
+ * Salted by the layer rather than the flag, so every flag in the layer sees the same bucket
+ */
+export function layerBucket(userId: string, layerId: string): number {
+  return stableHash(userId, `layer:${layerId}`);
+}
+
+/**
+ * Look up an attribute for targeting. Explicit attributes win; userId,
+ * environment and service are exposed as built-in attributes.
+ */
+function getAttribute(context: EvaluationContext, name: string): AttributeValue | undefined {
+  if (context.attributes && name in context.attributes) {
+    return context.attributes[name];
+  }
+  if (name === "userId") return context.userId;
+  if (name === "environment") return context.environment;
+  if (name === "service") return context.service;
+  return undefined;
+}
+
+/**
+ * Parse a semantic version ("1.2.3", "v1.2.3-beta.1") into comparable parts
+ */
+function parseSemver(value: AttributeValue) {
+  const match = /^v?(\d+)(?:\.(\d+))?(?:\.(\d+))?(?:-([0-9A-Za-z.-]+))?(?:\+[0-9A-Za-z.-]+)?$/.exec(
+    String(value).trim()
+  );
+  if (!match) return null;
+  return {
+    core: [Number(match[1]), Number(match[2] ?? 0), Number(match[3] ?? 0)],
+    prerelease: match[4] ? match[4].split(".") : [],
+  };
+}
+
+/**
+ * Compare two semantic versions, returns negative/zero/positive like a sort
+ * comparator, or null if either side is not a valid version
+ */
+export function compareSemver(a: AttributeValue, b: AttributeValue): number | null {
+  const left = parseSemver(a);
+  const right = parseSemver(b);
+  if (!left || !right) return null;
+
+  for (let i = 0; i < 3; i++) {
+    if (left.core[i] !== right.core[i]) return left.core[i] - right.core[i];
+  }
+
+  // A version without a prerelease tag ranks above one with it (1.0.0 > 1.0.0-rc.1)
+  if (left.prerelease.length === 0 || right.prerelease.length === 0) {
+    return right.prerelease.length - left.prerelease.length;
+  }
+
+  const length = Math.max(left.prerelease.length, right.prerelease.length);
+  for (let i = 0; i < length; i++) {
+    const l = left.prerelease[i];
+    const r = right.prerelease[i];
+    if (l === undefined) return -1;
+    if (r === undefined) return 1;
+    if (l === r) continue;
+    const lNum = /^\d+$/.test(l);
+    const rNum = /^\d+$/.test(r);
+    if (lNum && rNum) return Number(l) - Number(r);
+    if (lNum !== rNum) return lNum ? -1 : 1;
+    return l < r ? -1 : 1;
+  }
+  return 0;
+}
+
+function toNumber(value: AttributeValue): number | null {
+  if (typeof value === "number") return value;
+  if (typeof value === "boolean" || value.trim() === "") return null;
+  const num = Number(value);
+  return Number.isNaN(num) ? null : num;
+}
+
+function toTimestamp(value: AttributeValue): number | null {
+  if (typeof value === "number") return value;
+  if (typeof value === "boolean") return null;
+  const time = Date.parse(value);
+  return Number.isNaN(time) ? null : time;
+}
+
+/**
+ * Apply a single attribute operator against one target value
+ */
+function matchesOperator(
+  operator: AttributeOperator,
+  actual: AttributeValue,
+  expected: AttributeValue
+): boolean {
+  switch (operator) {
+    case "EQUALS":
+    case "IN":
+    case "NOT_IN":
+      return String(actual) === String(expected);
+    case "CONTAINS":
+      return String(actual).includes(String(expected));
+    case "STARTS_WITH":
+      return String(actual).startsWith(String(expected));
+    case "REGEX":
+      try {
+        return new RegExp(String(expected)).test(String(actual));
+      } catch {
+        return false;
+      }
+    case "GT":
+    case "GTE":
+    case "LT":
+    case "LTE": {
+      const a = toNumber(actual);
+      const b = toNumber(expected);
+      if (a === null || b === null) return false;
+      if (operator === "GT") return a > b;
+      if (operator === "GTE") return a >= b;
+      if (operator === "LT") return a < b;
+      return a <= b;
+    }
+    case "SEMVER_EQ":
+    case "SEMVER_GT":
+    case "SEMVER_GTE":
+    case "SEMVER_LT":
+    case "SEMVER_LTE": {
+      const cmp = compareSemver(actual, expected);
+      if (cmp === null) return false;
+      if (operator === "SEMVER_EQ") return cmp === 0;
+      if (operator === "SEMVER_GT") return cmp > 0;
+      if (operator === "SEMVER_GTE") return cmp >= 0;
+      if (operator === "SEMVER_LT") return cmp < 0;
+      return cmp <= 0;
+    }
+    case "BEFORE":
+    case "AFTER": {
+      const a = toTimestamp(actual);
+      const b = toTimestamp(expected);
+      if (a === null || b === null) return false;
+      return operator === "BEFORE" ? a < b : a > b;
+    }
+    default:
+      return false;
+  }
+}
+
+/**
+ * Evaluate an attribute rule. The rule matches when the attribute satisfies the
+ * operator for any of the listed values; NOT_IN matches when it equals none.
+ * A missing attribute never matches, including for NOT_IN.
+ */
+function evaluateAttributeRule(rule: AttributeRule, context: EvaluationContext, trace: string[]): boolean {
+  const actual = getAttribute(context, rule.attribute);
+  const values = rule.values.map(String).join(", ");
+
+  if (actual === undefined) {
+    trace.push(`ATTRIBUTE: "${rule.attribute}" is not set in context -> no match`);
+    return false;
+  }
+
+  const anyMatch = rule.values.some((expected) => matchesOperator(rule.operator, actual, expected));
+  const result = rule.operator === "NOT_IN" ? !anyMatch : anyMatch;
+  trace.push(
+    `ATTRIBUTE: "${rule.attribute}" = "${actual}" ${rule.operator} [${values}] -> ${result ? "matched" : "not matched"}`
+  );
+  return result;
+}
+
+/**
+ * Evaluate a segment. Static members always match; otherwise the segment
+ * matches when it has attribute conditions and every one of them passes.
+ */
+function evaluateSegment(segment: SegmentDefinition, context: EvaluationContext, trace: string[]): boolean {
+  if (segment.userIds.includes(context.userId)) {
+    trace.push(`SEGMENT "${segment.name}": userId "${context.userId}" is a listed member -> matched`);
+    return true;
+  }
+
+  const conditions = segmentConditionsSchema.safeParse(segment.conditions ?? []);
+  if (!conditions.success) {
+    trace.push(`SEGMENT "${segment.name}": conditions failed to parse -> no match`);
+    return false;
+  }
+
+  if (conditions.data.length === 0) {
+    trace.push(`SEGMENT "${segment.name}": userId "${context.userId}" is not a member and there are no conditions -> no match`);
+    return false;
+  }
+
+  trace.push(`SEGMENT "${segment.name}": Evaluating ${conditions.data.length} condition(s)...`);
+  const result = conditions.data.every((condition) => evaluateAttributeRule(condition, context, trace));
+  trace.push(`SEGMENT "${segment.name}": ${result ? "matched" : "not matched"}`);
+  return result;
+}
+
+/**
+ * Collect the ids of every segment referenced by a rule, including nested rules
+ */
+export function collectSegmentIds(rule: Rule): string[] {
+  switch (rule.type) {
+    case "SEGMENT":
+      return [rule.segmentId];
+    case "AND":
+    case "OR":
+      return rule.rules.flatMap(collectSegmentIds);
+    default:
+      return [];
+  }
+}
+
+/**
+ * Collect the keys of every flag a rule depends on, including nested rules
+ */
+export function collectPrerequisiteKeys(rule: Rule): string[] {
+  switch (rule.type) {
+    case "PREREQUISITE":
+      return [rule.flagKey];
+    case "AND":
+    case "OR":
+      return rule.rules.flatMap(collectPrerequisiteKeys);
+    default:
+      return [];
+  }
+}
+
+/**
+ * Find a prerequisite cycle through a flag, given every flag's prerequisite keys
+ * Returns the cycle as a path of keys starting and ending with flagKey, or null
+ */
+export function findPrerequisiteCycle(
+  flagKey: string,
+  dependencies: Record<string, string[]>
+): string[] | null {
+  const visited = new Set<string>();
+
+  const visit = (key: string, path: string[]): string[] | null => {
+    for (const next of dependencies[key] ?? []) {
+      if (next === flagKey) {
+        return [...path, next];
+      }
+      if (visited.has(next)) {
+        continue;
+      }
+      visited.add(next);
+      const cycle = visit(next, [...path, next]);
+      if (cycle) {
+        return cycle;
+      }
+    }
+    return null;
+  };
+
+  return visit(flagKey, [flagKey]);
+}
+
+const describeResult = (enabled: boolean, variant?: string) =>
+  `${enabled ? "on" : "off"}${variant ? ` serving "${variant}"` : ""}`;
+
+/**
+ * Evaluate a prerequisite flag for the same context, nesting its trace
+ */
+function evaluatePrerequisite(
+  rule: PrerequisiteRule,
+  context: EvaluationContext,
+  flagKey: string,
+  trace: string[],
+  options: EvaluationOptions
+): boolean {
+  const chain = options.prerequisiteChain ?? [flagKey];
+  if (chain.includes(rule.flagKey)) {
+    trace.push(`PREREQUISITE: cycle detected (${[...chain, rule.flagKey].join(" -> ")}) -> no match`);
+    return false;
+  }
+
+  const prerequisite = options.flags?.[rule.flagKey];
+  if (!prerequisite) {
+    trace.push(`PREREQUISITE: flag "${rule.flagKey}" not found -> no match`);
+    return false;
+  }
+
+  trace.push(`PREREQUISITE: Evaluating flag "${rule.flagKey}"...`);
+  const result = evaluateFeatureFlag(prerequisite, context, {
+    ...options,
+    prerequisiteChain: [...chain, rule.flagKey],
+  });
+  trace.push(...result.trace.map((line) => line.replace(/^(\n?)/, "$1  ")));
+
+  const matched =
+    result.enabled === rule.enabled && (rule.variant === undefined || result.variant === rule.variant);
+  trace.push(
+    `PREREQUISITE: flag "${rule.flagKey}" is ${describeResult(result.enabled, result.variant)}, required ${describeResult(rule.enabled, rule.variant)} -> ${matched ? "matched" : "no match"}`
+  );
+  return matched;
+}
+
+/**
+ * Evaluate a single rule
+ */
+function evaluateRule(
+  rule: Rule,
+  context: EvaluationContext,
+  flagKey: string,
+  trace: string[],
+  options: EvaluationOptions
+): boolean {
+  switch (rule.type) {
+    case "ALLOWLIST": {
+      const result = rule.userIds.includes(context.userId);
+      trace.push(
+        `ALLOWLIST: userId "${context.userId}" ${result ? "is" : "is not"} in list [${rule.userIds.join(", ")}]`
+      );
+      return result;
+    }
+
+    case "PERCENT_ROLLOUT": {
+      const bucket = stableHash(context.userId, flagKey);
+      const result = bucket < rule.percentage;
+      trace.push(
+        `PERCENT_ROLLOUT: userId "${context.userId}" hashes to bucket ${bucket}, threshold is ${rule.percentage}% -> ${result ? "enabled" : "disabled"}`
+      );
+      return result;
+    }
+
+    case "ATTRIBUTE":
+      return evaluateAttributeRule(rule, context, trace);
+
+    case "SEGMENT": {
+      const segment = options.segments?.[rule.segmentId];
+      if (!segment) {
+        trace.push(`SEGMENT: segment "${rule.segmentId}" not found -> no match`);
+        return false;
+      }
+      return evaluateSegment(segment, context, trace);
+    }
+
+    case "PREREQUISITE":
+      return evaluatePrerequisite(rule, context, flagKey, trace, options);
+
+    case "AND": {
+      trace.push(`AND: Evaluating ${rule.rules.length} sub-rules...`);
+      const results = rule.rules.map((subRule) =>
+        evaluateRule(subRule, context, flagKey, trace, options)
+      );
+      const result = results.every(Boolean);
+      trace.push(`AND: All sub-rules ${result ? "passed" : "did not pass"}`);
+      return result;
+    }
+
+    case "OR": {
+      trace.push(`OR: Evaluating ${rule.rules.length} sub-rules...`);
+      const results = rule.rules.map((subRule) =>
+        evaluateRule(subRule, context, flagKey, trace, options)
+      );
+      const result = results.some(Boolean);
+      trace.push(`OR: At least one sub-rule ${result ? "passed" : "did not pass"}`);
+      return result;
+    }
+
+    default:
+      trace.push(`Unknown rule type, defaulting to false`);
+      return false;
+  }
+}
+
+/**
+ * Pick a variant from a weighted split. Buckets are salted separately from
+ * PERCENT_ROLLOUT so the variant a user gets is independent of rollout order.
+ */
+export function pickWeightedVariant(
+  userId: string,
+  flagKey: string,
+  split: { variant: string; weight: number }[]
+): { variant: string; bucket: number } {
+  const bucket = stableHash(userId, `${flagKey}:variant`);
+  let cumulative = 0;
+  for (const entry of split) {
+    cumulative += entry.weight;
+    if (bucket < cumulative) {
+      return { variant: entry.variant, bucket };
+    }
+  }
+  return { variant: split[split.length - 1].variant, bucket };
+}
+
+/**
+ * Resolve which variant to serve to a user who receives the flag
+ */
+function resolveServe(
+  serve: unknown,
+  variants: Variant[],
+  userId: string,
+  flagKey: string,
+  trace: string[]
+): Variant {
+  const parsed = serveSchema.safeParse(serve);
+  if (serve == null || !parsed.success) {
+    trace.push(`No variant configured, serving first variant "${variants[0].key}"`);
+    return variants[0];
+  }
+
+  let key: string;
+  if ("variant" in parsed.data) {
+    key = parsed.data.variant;
+    trace.push(`Serving variant "${key}"`);
+  } else {
+    const picked = pickWeightedVariant(userId, flagKey, parsed.data.split);
+    key = picked.variant;
+    const weights = parsed.data.split.map((s) => `${s.variant}:${s.weight}%`).join(", ");
+    trace.push(`Weighted split [${weights}]: userId "${userId}" hashes to bucket ${picked.bucket} -> variant "${key}"`);
+  }
+
+  const variant = variants.find((v) => v.key === key);
+  if (!variant) {
+    trace.push(`Variant "${key}" does not exist, serving first variant "${variants[0].key}"`);
+    return variants[0];
+  }
+  return variant;
+}
+
+/**
+ * Check that every variant referenced by serve configs and the off variant exists
+ */
+export function validateVariantReferences(
+  variants: unknown,
+  serves: unknown[],
+  offVariant?: string | null
+): { valid: boolean; error?: string } {
+  const parsedVariants = variantsSchema.safeParse(variants ?? []);
+  if (!parsedVariants.success) {
+    return { valid: false, error: parsedVariants.error.issues[0].message };
+  }
+  const keys = new Set(parsedVariants.data.map((v) => v.key));
+
+  if (offVariant && !keys.has(offVariant)) {
+    return { valid: false, error: `Off variant "${offVariant}" does not exist` };
+  }
+
+  for (const serve of serves) {
+    if (serve == null) continue;
+    const parsed = serveSchema.safeParse(serve);
+    if (!parsed.success) {
+      return { valid: false, error: parsed.error.issues[0].message };
+    }
+    const referenced = "variant" in parsed.data ? [parsed.data.variant] : parsed.data.split.map((s) => s.variant);
+    const missing = referenced.find((key) => !keys.has(key));
+    if (missing) {
+      return { valid: false, error: `Variant "${missing}" does not exist` };
+    }
+  }
+
+  return { valid: true };
+}
+
+/**
+ * Evaluate a feature flag for a given context
+ */
+export function evaluateFeatureFlag(
+  flag: FlagDefinition,
+  context: EvaluationContext,
+  options: EvaluationOptions = {}
+): EvaluationResult {
+  const trace: string[] = [];
+
+  const parsedVariants = variantsSchema.safeParse(flag.variants ?? []);
+  if (!parsedVariants.success) {
+    trace.push(`Flag variants failed to parse, evaluating as a boolean flag`);
+  }
+  const variants = parsedVariants.success ? parsedVariants.data : [];
+
+  // Boolean flags carry no variant; multivariate flags serve the rule's variant
+  // when enabled and the off variant (if any) otherwise
+  const finish = (
+    enabled: boolean,
+    reason: string,
+    reasonKind: EvaluationReasonKind,
+    serve?: unknown,
+    ruleIndex?: number
+  ): EvaluationResult => {
+    let variant: Variant | undefined;
+    if (variants.length > 0 && enabled) {
+      variant = resolveServe(serve ?? flag.defaultServe, variants, context.userId, flag.key, trace);
+    } else if (variants.length > 0 && flag.offVariant) {
+      variant = variants.find((v) => v.key === flag.offVariant);
+      trace.push(variant ? `Serving off variant "${variant.key}"` : `Off variant "${flag.offVariant}" does not exist`);
+    }
+
+    return {
+      enabled,
+      reason,
+      reasonKind,
+      trace,
+      ...(ruleIndex !== undefined && { ruleIndex }),
+      ...(variant && { variant: variant.key, value: variant.value }),
+    };
+  };
+
+  // Check if flag is globally disabled
+  if (!flag.enabled) {
+    trace.push(`Flag "${flag.key}" is globally disabled`);
+    return finish(false, "Flag is globally disabled", "disabled");
+  }
+
+  // Check environment match
+  if (flag.environment !== context.environment) {
+    trace.push(
+      `Flag environment "${flag.environment}" does not match context environment "${context.environment}"`
+    );
+    return finish(
+      false,
+      `Environment mismatch: flag is for ${flag.environment}, context is ${context.environment}`,
+      "environment_mismatch"
+    );
+  }
+
+  trace.push(`Flag "${flag.key}" is enabled for environment "${flag.environment}"`);
+
+  // Flags in a layer only see users whose layer bucket falls in their slice,
+  // so users are in at most one of the layer's flags
+  if (flag.layerId) {
+    const start = flag.layerStart ?? 0;
+    const end = start + (flag.layerPercentage ?? 0);
+    const bucket = layerBucket(context.userId, flag.layerId);
+    const inSlice = bucket >= start && bucket < end;
+    trace.push(
+      `Layer "${flag.layerId}": userId "${context.userId}" hashes to layer bucket ${bucket}, flag holds buckets ${start}-${end - 1} -> ${inSlice ? "in slice" : "not in slice"}`
+    );
+    if (!inSlice) {
+      return finish(false, `Layer: bucket ${bucket} is outside this flag's slice`, "outside_layer");
+    }
+  }
+
+  // Default rule: users no targeting rule matched are bucketed against the
+  // flag-level rollout percentage
+  const applyDefaultRule = (): EvaluationResult => {
+    const percentage = flag.rolloutPercentage ?? 0;
+    const bucket = stableHash(context.userId, flag.key);
+    const result = bucket < percentage;
+    trace.push(
+      `Default rule: userId "${context.userId}" hashes to bucket ${bucket}, rollout is ${percentage}% -> ${result ? "enabled" : "disabled"}`
+    );
+    const parsedServe = serveSchema.safeParse(flag.defaultServe);
+    const weightedSplit = result && variants.length > 0 && parsedServe.success && "split" in parsedServe.data;
+    return finish(
+      result,
+      result ? `Default rule: in ${percentage}% rollout` : `Default rule: not in ${percentage}% rollout`,
+      (percentage > 0 && percentage < 100) || weightedSplit ? "split" : "default"
+    );
+  };
+
+  if (!flag.rules || flag.rules.length === 0) {
+    trace.push("No rules defined, applying default rule");
+    return applyDefaultRule();
+  }
+
+  // Evaluate rules in order (first matching rule wins)
+  trace.push(`Evaluating ${flag.rules.length} rule(s)...`);
+
+  for (let i = 0; i < flag.rules.length; i++) {
+    const rule = flag.rules[i];
+    trace.push(`\nRule ${i + 1}:`);
+
+    try {
+      const parsedRule = ruleSchema.parse(rule.condition);
+      const result = evaluateRule(parsedRule, context, flag.key, trace, options);
+
+      if (result) {
+        return finish(true, `Matched rule ${i + 1}`, "rule_match", rule.serve, i);
+      }
+    } catch (error) {
+      trace.push(`Rule ${i + 1} failed to parse: ${error}`);
+    }
+  }
+
+  trace.push("\nNo rules matched, applying default rule");
+  return applyDefaultRule();
+}
+
+/**
+ * Evaluate several flags for one context, keyed by flag key
+ * Remote (SDK endpoint) and local (snapshot) evaluation both go through here
+ */
+export function evaluateAllFlags(
+  flags: FlagDefinition[],
+  context: EvaluationContext,
+  options: EvaluationOptions = {},
+  { includeTrace = false }: { includeTrace?: boolean } = {}
+): Record<string, FlagEvaluation> {
+  const results: Record<string, FlagEvaluation> = {};
+  const flagsByKey = options.flags ?? Object.fromEntries(flags.map((flag) => [flag.key, flag]));
+
+  for (const flag of flags) {
+    const { trace, ...result } = evaluateFeatureFlag(flag, context, { ...options, flags: flagsByKey });
+    results[flag.key] = includeTrace ? { ...result, trace } : result;
+  }
+
+  return results;
+}
+
+/**
+ * Validate a rule condition
+ */
+export function validateRule(condition: unknown): { valid: boolean; error?: string } {
+  try {
+    ruleSchema.parse(condition);
+    return { valid: true };
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return { valid: false, error: error.issues[0].message };
+    }
+    return { valid: false, error: "Invalid rule format" };
+  }
+}
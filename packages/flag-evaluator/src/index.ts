@@ -0,0 +1,215 @@
+import { createHmac, timingSafeEqual } from "crypto";
+import { evaluateAllFlags, type EvaluationContext, type FlagEvaluation, type FlagSnapshot } from "./evaluation";
+
+export * from "./evaluation";
+
+export type LocalEvaluationContext = Omit<EvaluationContext, "environment">;
+
+export interface LocalEvaluatorOptions {
+  /** Base URL of the Next Ops deployment, e.g. "https://ops.example.com" */
+  baseUrl: string;
+  /** Server SDK key for the environment to evaluate */
+  sdkKey: string;
+  /** Signing secret shown alongside the server SDK key when it was created */
+  signingSecret: string;
+  /** Queue an exposure for every evaluate() call, to be sent by flushExposures() */
+  reportExposures?: boolean;
+  fetch?: typeof fetch;
+}
+
+/** One flag served to a user, as accepted by POST /api/sdk/exposures */
+export interface FlagExposure {
+  flagKey: string;
+  enabled: boolean;
+  ruleIndex?: number;
+  variant?: string;
+}
+
+// POST /api/sdk/exposures accepts at most 100 exposures per request
+const MAX_EXPOSURES_PER_REQUEST = 100;
+
+// Exposures past this are dropped until the next flush, so an evaluator nobody flushes can't grow without bound
+const MAX_PENDING_EXPOSURES = 10_000;
+
+/**
+ * Check a snapshot body against its X-Snapshot-Signature header
+ */
+export function verifySnapshotSignature(body: string, signature: string | null, signingSecret: string): boolean {
+  if (!signature?.startsWith("sha256=")) {
+    return false;
+  }
+
+  const expected = Buffer.from(createHmac("sha256", signingSecret).update(body).digest("hex"));
+  const actual = Buffer.from(signature.slice("sha256=".length));
+
+  return expected.length === actual.length && timingSafeEqual(expected, actual);
+}
+
+/**
+ * Evaluates flags in-process from the latest snapshot
+ * Uses the same evaluation code as the server, so results match remote evaluation exactly
+ */
+export class LocalEvaluator {
+  private snapshot: FlagSnapshot | null = null;
+  private pendingExposures = new Map<string, FlagExposure[]>();
+  private pendingExposureCount = 0;
+
+  constructor(private readonly options: LocalEvaluatorOptions) {}
+
+  /** Version of the loaded snapshot, 0 before the first refresh */
+  get version(): number {
+    return this.snapshot?.version ?? 0;
+  }
+
+  /** Whether a snapshot has been loaded; an environment with no changes yet has version 0 */
+  get loaded(): boolean {
+    return this.snapshot !== null;
+  }
+
+  /**
+   * Fetch the snapshot if it changed since the loaded version
+   * Returns true when a new snapshot was loaded
+   */
+  async refresh(): Promise<boolean> {
+    const fetchImpl = this.options.fetch ?? fetch;
+    const url = new URL("/api/sdk/snapshot", this.options.baseUrl);
+    if (this.snapshot) {
+      url.searchParams.set("since", String(this.snapshot.version));
+    }
+
+    const response = await fetchImpl(url, {
+      headers: { Authorization: `Bearer ${this.options.sdkKey}` },
+    });
+
+    if (response.status === 304) {
+      return false;
+    }
+
+    if (!response.ok) {
+      throw new Error(`Failed to fetch flag snapshot: ${response.status}`);
+    }
+
+    const body = await response.text();
+    if (!verifySnapshotSignature(body, response.headers.get("x-snapshot-signature"), this.options.signingSecret)) {
+      throw new Error("Flag snapshot signature is invalid");
+    }
+
+    this.load(JSON.parse(body));
+    return true;
+  }
+
+  /** Use a snapshot obtained some other way (e.g. a file baked into a deploy) */
+  load(snapshot: FlagSnapshot) {
+    if (this.snapshot && snapshot.version < this.snapshot.version) {
+      return;
+    }
+    this.snapshot = snapshot;
+  }
+
+  /** Evaluate every flag in the snapshot for one context */
+  evaluateAll(
+    context: LocalEvaluationContext,
+    { includeTrace = false }: { includeTrace?: boolean } = {}
+  ): Record<string, FlagEvaluation> {
+    const snapshot = this.requireSnapshot();
+    return evaluateAllFlags(
+      snapshot.flags,
+      { ...context, environment: snapshot.environment },
+      { segments: snapshot.segments },
+      { includeTrace }
+    );
+  }
+
+  /** Evaluate one flag; undefined if the snapshot has no flag with that key */
+  evaluate(
+    flagKey: string,
+    context: LocalEvaluationContext,
+    { includeTrace = false }: { includeTrace?: boolean } = {}
+  ): FlagEvaluation | undefined {
+    const snapshot = this.requireSnapshot();
+    const flag = snapshot.flags.find((f) => f.key === flagKey);
+    if (!flag) {
+      return undefined;
+    }
+
+    // Prerequisites may point at any flag in the snapshot
+    const flags = Object.fromEntries(snapshot.flags.map((f) => [f.key, f]));
+    const result = evaluateAllFlags(
+      [flag],
+      { ...context, environment: snapshot.environment },
+      { segments: snapshot.segments, flags },
+      { includeTrace }
+    )[flagKey];
+
+    if (this.options.reportExposures) {
+      this.queueExposure(context.userId, {
+        flagKey,
+        enabled: result.enabled,
+        ...(result.ruleIndex !== undefined && { ruleIndex: result.ruleIndex }),
+        ...(result.variant && { variant: result.variant }),
+      });
+    }
+
+    return result;
+  }
+
+  /**
+   * Send queued exposures to POST /api/sdk/exposures, one request per user and 100 exposures
+   * Returns how many the server recorded. The queue is cleared first, so a failed batch is dropped rather than retried.
+   */
+  async flushExposures(): Promise<number> {
+    if (this.pendingExposureCount === 0) {
+      return 0;
+    }
+
+    const pending = this.pendingExposures;
+    this.pendingExposures = new Map();
+    this.pendingExposureCount = 0;
+
+    const fetchImpl = this.options.fetch ?? fetch;
+    const url = new URL("/api/sdk/exposures", this.options.baseUrl);
+    let recorded = 0;
+
+    for (const [userId, exposures] of pending) {
+      for (let i = 0; i < exposures.length; i += MAX_EXPOSURES_PER_REQUEST) {
+        const response = await fetchImpl(url, {
+          method: "POST",
+          headers: {
+            Authorization: `Bearer ${this.options.sdkKey}`,
+            "Content-Type": "application/json",
+          },
+          body: JSON.stringify({ userId, exposures: exposures.slice(i, i + MAX_EXPOSURES_PER_REQUEST) }),
+        });
+
+        if (!response.ok) {
+          throw new Error(`Failed to report flag exposures: ${response.status}`);
+        }
+
+        recorded += ((await response.json()) as { recorded: number }).recorded;
+      }
+    }
+
+    return recorded;
+  }
+
+  private queueExposure(userId: string, exposure: FlagExposure) {
+    if (this.pendingExposureCount >= MAX_PENDING_EXPOSURES) {
+      return;
+    }
+
+    const exposures = this.pendingExposures.get(userId);
+    if (exposures) {
+      exposures.push(exposure);
+    } else {
+      this.pendingExposures.set(userId, [exposure]);
+    }
+    this.pendingExposureCount++;
+  }
+
+  private requireSnapshot(): FlagSnapshot {
+    if (!this.snapshot) {
+      throw new Error("No flag snapshot loaded; call refresh() first");
+    }
+    return this.snapshot;
+  }
+}
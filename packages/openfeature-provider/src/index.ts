@@ -0,0 +1,271 @@
+import {
+  ErrorCode,
+  OpenFeatureEventEmitter,
+  ProviderEvents,
+  StandardResolutionReasons,
+  type EvaluationContext as OpenFeatureContext,
+  type JsonValue,
+  type Provider,
+  type ResolutionDetails,
+  type ResolutionReason,
+} from "@openfeature/server-sdk";
+import {
+  LocalEvaluator,
+  type FlagEvaluation,
+  type LocalEvaluationContext,
+  type LocalEvaluatorOptions,
+} from "@next-ops/flag-evaluator";
+
+export interface NextOpsProviderOptions extends Omit<LocalEvaluatorOptions, "signingSecret"> {
+  /** Signing secret of the server SDK key; required in local mode to verify snapshots */
+  signingSecret?: string;
+  /**
+   * "remote" calls POST /api/sdk/evaluate/{flagKey} for every evaluation (default)
+   * "local" polls GET /api/sdk/snapshot and evaluates in-process
+   */
+  mode?: "remote" | "local";
+  /** How often local mode checks for a new snapshot and reports exposures, in milliseconds */
+  refreshIntervalMs?: number;
+}
+
+type FlagType = "boolean" | "string" | "number" | "object";
+
+class ResolutionError extends Error {
+  constructor(
+    readonly code: ErrorCode,
+    message: string
+  ) {
+    super(message);
+  }
+}
+
+/**
+ * Map an OpenFeature evaluation context to ours
+ * The targeting key becomes the userId, "service" is passed through, and the
+ * remaining string, number, boolean and date fields become attributes.
+ * Nested objects and arrays can't be targeted by rules, so they are dropped.
+ */
+export function toEvaluationContext(context: OpenFeatureContext): LocalEvaluationContext {
+  const { targetingKey, service, ...rest } = context;
+  if (!targetingKey) {
+    throw new ResolutionError(ErrorCode.TARGETING_KEY_MISSING, "Evaluation context has no targetingKey");
+  }
+
+  const attributes: Record<string, string | number | boolean> = {};
+  for (const [name, value] of Object.entries(rest)) {
+    if (typeof value === "string" || typeof value === "number" || typeof value === "boolean") {
+      attributes[name] = value;
+    } else if (value instanceof Date) {
+      attributes[name] = value.toISOString();
+    }
+  }
+
+  return {
+    userId: targetingKey,
+    ...(typeof service === "string" && { service }),
+    ...(Object.keys(attributes).length > 0 && { attributes }),
+  };
+}
+
+/**
+ * Map our evaluation reason to an OpenFeature resolution reason
+ * The default rule reports SPLIT when users are bucketed (a partial rollout,
+ * a weighted variant split or an experiment layer), and DEFAULT when everyone
+ * gets the same answer.
+ */
+export function toResolutionReason(evaluation: FlagEvaluation): ResolutionReason {
+  switch (evaluation.reasonKind) {
+    case "disabled":
+      return StandardResolutionReasons.DISABLED;
+    case "rule_match":
+      return StandardResolutionReasons.TARGETING_MATCH;
+    // Users outside a flag's experiment layer slice were bucketed out
+    case "outside_layer":
+    case "split":
+      return StandardResolutionReasons.SPLIT;
+    case "default":
+      return StandardResolutionReasons.DEFAULT;
+    default:
+      return StandardResolutionReasons.UNKNOWN;
+  }
+}
+
+function matchesType(value: unknown, type: FlagType): boolean {
+  return type === "object" ? typeof value === "object" && value !== null : typeof value === type;
+}
+
+/**
+ * Turn one flag evaluation into OpenFeature resolution details
+ * Boolean lookups resolve to whether the flag is enabled; string, number and
+ * object lookups resolve to the served variant's value. A disabled flag with
+ * no off variant resolves to the caller's default.
+ */
+export function toResolutionDetails<T>(
+  evaluation: FlagEvaluation,
+  type: FlagType,
+  defaultValue: T
+): ResolutionDetails<T> {
+  const details = {
+    reason: toResolutionReason(evaluation),
+    ...(evaluation.variant && { variant: evaluation.variant }),
+    flagMetadata: {
+      enabled: evaluation.enabled,
+      evaluationReason: evaluation.reason,
+      ...(evaluation.ruleIndex !== undefined && { ruleIndex: evaluation.ruleIndex }),
+      ...(evaluation.trace && { trace: evaluation.trace.join("\n") }),
+    },
+  };
+
+  if (type === "boolean") {
+    return { ...details, value: evaluation.enabled as T };
+  }
+
+  if (evaluation.value === undefined) {
+    if (!evaluation.enabled) {
+      return { ...details, value: defaultValue };
+    }
+    return {
+      ...details,
+      value: defaultValue,
+      reason: StandardResolutionReasons.ERROR,
+      errorCode: ErrorCode.TYPE_MISMATCH,
+      errorMessage: `Flag has no variants; resolve it as a boolean`,
+    };
+  }
+
+  if (!matchesType(evaluation.value, type)) {
+    return {
+      ...details,
+      value: defaultValue,
+      reason: StandardResolutionReasons.ERROR,
+      errorCode: ErrorCode.TYPE_MISMATCH,
+      errorMessage: `Variant "${evaluation.variant}" is not a ${type}`,
+    };
+  }
+
+  return { ...details, value: evaluation.value as T };
+}
+
+/**
+ * OpenFeature server provider for Next Ops feature flags
+ * Remote mode evaluates on the server; local mode uses the same evaluator as
+ * @next-ops/flag-evaluator, so both modes return identical results.
+ */
+export class NextOpsProvider implements Provider {
+  readonly metadata = { name: "next-ops" } as const;
+  readonly runsOn = "server" as const;
+  readonly events = new OpenFeatureEventEmitter();
+
+  private readonly local: LocalEvaluator | null;
+  private refreshTimer: ReturnType<typeof setInterval> | null = null;
+
+  constructor(private readonly options: NextOpsProviderOptions) {
+    if (options.mode === "local" && !options.signingSecret) {
+      throw new Error("Local mode needs the server SDK key's signingSecret");
+    }
+    this.local =
+      options.mode === "local" ? new LocalEvaluator({ ...options, signingSecret: options.signingSecret!, reportExposures: true }) : null;
+  }
+
+  /**
+   * Local mode loads the first snapshot here and starts polling for changes
+   * Each poll also sends the exposures queued since the last one, since the server can't see local evaluations
+   */
+  async initialize(): Promise<void> {
+    if (!this.local) return;
+
+    await this.local.refresh();
+
+    this.refreshTimer = setInterval(() => {
+      this.local!.refresh()
+        .then((changed) => {
+          if (changed) this.events.emit(ProviderEvents.ConfigurationChanged);
+        })
+        .catch((error) => {
+          this.events.emit(ProviderEvents.Stale, { message: error instanceof Error ? error.message : String(error) });
+        });
+      // Exposures only feed analytics, so a failed report doesn't make the provider stale
+      this.local!.flushExposures().catch(() => {});
+    }, this.options.refreshIntervalMs ?? 30_000);
+    // Polling shouldn't keep the process alive on its own
+    this.refreshTimer.unref?.();
+  }
+
+  async onClose(): Promise<void> {
+    if (this.refreshTimer) {
+      clearInterval(this.refreshTimer);
+      this.refreshTimer = null;
+    }
+    await this.local?.flushExposures().catch(() => {});
+  }
+
+  resolveBooleanEvaluation(flagKey: string, defaultValue: boolean, context: OpenFeatureContext) {
+    return this.resolve(flagKey, "boolean", defaultValue, context);
+  }
+
+  resolveStringEvaluation(flagKey: string, defaultValue: string, context: OpenFeatureContext) {
+    return this.resolve(flagKey, "string", defaultValue, context);
+  }
+
+  resolveNumberEvaluation(flagKey: string, defaultValue: number, context: OpenFeatureContext) {
+    return this.resolve(flagKey, "number", defaultValue, context);
+  }
+
+  resolveObjectEvaluation<T extends JsonValue>(flagKey: string, defaultValue: T, context: OpenFeatureContext) {
+    return this.resolve(flagKey, "object", defaultValue, context);
+  }
+
+  private async resolve<T>(
+    flagKey: string,
+    type: FlagType,
+    defaultValue: T,
+    context: OpenFeatureContext
+  ): Promise<ResolutionDetails<T>> {
+    try {
+      const evaluation = await this.evaluate(flagKey, toEvaluationContext(context));
+      if (!evaluation) {
+        throw new ResolutionError(ErrorCode.FLAG_NOT_FOUND, `Flag "${flagKey}" not found`);
+      }
+      return toResolutionDetails(evaluation, type, defaultValue);
+    } catch (error) {
+      return {
+        value: defaultValue,
+        reason: StandardResolutionReasons.ERROR,
+        errorCode: error instanceof ResolutionError ? error.code : ErrorCode.GENERAL,
+        errorMessage: error instanceof Error ? error.message : String(error),
+      };
+    }
+  }
+
+  private async evaluate(flagKey: string, context: LocalEvaluationContext): Promise<FlagEvaluation | undefined> {
+    if (this.local) {
+      if (!this.local.loaded) {
+        throw new ResolutionError(ErrorCode.PROVIDER_NOT_READY, "No flag snapshot loaded yet");
+      }
+      return this.local.evaluate(flagKey, context, { includeTrace: true });
+    }
+
+    // One flag per lookup: the trace is only computed for the flag asked for, and the server records the exposure
+    const fetchImpl = this.options.fetch ?? fetch;
+    const url = new URL(`/api/sdk/evaluate/${encodeURIComponent(flagKey)}`, this.options.baseUrl);
+    const response = await fetchImpl(url, {
+      method: "POST",
+      headers: {
+        Authorization: `Bearer ${this.options.sdkKey}`,
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify({ ...context, includeTrace: true }),
+    });
+
+    if (response.status === 404) {
+      return undefined;
+    }
+
+    if (!response.ok) {
+      throw new Error(`Failed to evaluate flag: ${response.status}`);
+    }
+
+    const { evaluation } = (await response.json()) as { evaluation: FlagEvaluation };
+    return evaluation;
+  }
+}
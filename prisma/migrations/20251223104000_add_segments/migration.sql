@@ -0,0 +1,25 @@
+-- AlterEnum
+ALTER TYPE "RuleType" ADD VALUE 'SEGMENT';
+
+-- CreateTable
+CREATE TABLE "Segment" (
+    "id" TEXT NOT NULL,
+    "tenantId" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "description" TEXT,
+    "userIds" TEXT[],
+    "conditions" JSONB NOT NULL DEFAULT '[]',
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "Segment_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "Segment_tenantId_idx" ON "Segment"("tenantId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Segment_tenantId_name_key" ON "Segment"("tenantId", "name");
+
+-- AddForeignKey
+ALTER TABLE "Segment" ADD CONSTRAINT "Segment_tenantId_fkey" FOREIGN KEY ("tenantId") REFERENCES "Tenant"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,7 @@
+-- AlterTable
+ALTER TABLE "FeatureFlag" ADD COLUMN     "defaultServe" JSONB,
+ADD COLUMN     "offVariant" TEXT,
+ADD COLUMN     "variants" JSONB NOT NULL DEFAULT '[]';
+
+-- AlterTable
+ALTER TABLE "Rule" ADD COLUMN     "serve" JSONB;
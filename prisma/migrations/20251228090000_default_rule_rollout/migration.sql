@@ -0,0 +1,6 @@
+-- New flags keep the 0% default so their rules restrict who gets them.
+-- Flags without rules used to be served to everyone regardless of their
+-- rollout percentage; keep them that way now that the default rule applies it
+UPDATE "FeatureFlag" SET "rolloutPercentage" = 100
+WHERE "rolloutPercentage" = 0
+  AND NOT EXISTS (SELECT 1 FROM "Rule" WHERE "Rule"."flagId" = "FeatureFlag"."id");
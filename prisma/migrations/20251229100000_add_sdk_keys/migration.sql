@@ -0,0 +1,23 @@
+-- CreateTable
+CREATE TABLE "SdkKey" (
+    "id" TEXT NOT NULL,
+    "tenantId" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "environment" "Environment" NOT NULL,
+    "keyHash" TEXT NOT NULL,
+    "keyPrefix" TEXT NOT NULL,
+    "lastUsedAt" TIMESTAMP(3),
+    "revokedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "SdkKey_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "SdkKey_keyHash_key" ON "SdkKey"("keyHash");
+
+-- CreateIndex
+CREATE INDEX "SdkKey_tenantId_environment_idx" ON "SdkKey"("tenantId", "environment");
+
+-- AddForeignKey
+ALTER TABLE "SdkKey" ADD CONSTRAINT "SdkKey_tenantId_fkey" FOREIGN KEY ("tenantId") REFERENCES "Tenant"("id") ON DELETE CASCADE ON UPDATE CASCADE;
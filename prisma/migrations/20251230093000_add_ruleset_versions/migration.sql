@@ -0,0 +1,12 @@
+-- CreateTable
+CREATE TABLE "RulesetVersion" (
+    "tenantId" TEXT NOT NULL,
+    "environment" "Environment" NOT NULL,
+    "version" INTEGER NOT NULL DEFAULT 0,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "RulesetVersion_pkey" PRIMARY KEY ("tenantId","environment")
+);
+
+-- AddForeignKey
+ALTER TABLE "RulesetVersion" ADD CONSTRAINT "RulesetVersion_tenantId_fkey" FOREIGN KEY ("tenantId") REFERENCES "Tenant"("id") ON DELETE CASCADE ON UPDATE CASCADE;
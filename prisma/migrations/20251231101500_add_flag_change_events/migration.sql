@@ -0,0 +1,19 @@
+-- CreateTable
+CREATE TABLE "FlagChangeEvent" (
+    "id" SERIAL NOT NULL,
+    "tenantId" TEXT NOT NULL,
+    "environment" "Environment" NOT NULL,
+    "type" TEXT NOT NULL,
+    "flagId" TEXT NOT NULL,
+    "flagKey" TEXT NOT NULL,
+    "version" INTEGER NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "FlagChangeEvent_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "FlagChangeEvent_tenantId_environment_id_idx" ON "FlagChangeEvent"("tenantId", "environment", "id");
+
+-- AddForeignKey
+ALTER TABLE "FlagChangeEvent" ADD CONSTRAINT "FlagChangeEvent_tenantId_fkey" FOREIGN KEY ("tenantId") REFERENCES "Tenant"("id") ON DELETE CASCADE ON UPDATE CASCADE;
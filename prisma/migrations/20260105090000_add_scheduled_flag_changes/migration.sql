@@ -0,0 +1,34 @@
+-- CreateEnum
+CREATE TYPE "ScheduledChangeStatus" AS ENUM ('PENDING', 'APPLYING', 'APPLIED', 'FAILED', 'CANCELLED');
+
+-- CreateTable
+CREATE TABLE "ScheduledFlagChange" (
+    "id" TEXT NOT NULL,
+    "tenantId" TEXT NOT NULL,
+    "flagId" TEXT NOT NULL,
+    "scheduledFor" TIMESTAMP(3) NOT NULL,
+    "patch" JSONB NOT NULL,
+    "status" "ScheduledChangeStatus" NOT NULL DEFAULT 'PENDING',
+    "error" TEXT,
+    "createdById" TEXT NOT NULL,
+    "appliedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "ScheduledFlagChange_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "ScheduledFlagChange_status_scheduledFor_idx" ON "ScheduledFlagChange"("status", "scheduledFor");
+
+-- CreateIndex
+CREATE INDEX "ScheduledFlagChange_flagId_idx" ON "ScheduledFlagChange"("flagId");
+
+-- AddForeignKey
+ALTER TABLE "ScheduledFlagChange" ADD CONSTRAINT "ScheduledFlagChange_tenantId_fkey" FOREIGN KEY ("tenantId") REFERENCES "Tenant"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ScheduledFlagChange" ADD CONSTRAINT "ScheduledFlagChange_flagId_fkey" FOREIGN KEY ("flagId") REFERENCES "FeatureFlag"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ScheduledFlagChange" ADD CONSTRAINT "ScheduledFlagChange_createdById_fkey" FOREIGN KEY ("createdById") REFERENCES "User"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
@@ -0,0 +1,35 @@
+-- CreateEnum
+CREATE TYPE "RolloutPlanStatus" AS ENUM ('ACTIVE', 'PAUSED', 'COMPLETED', 'ABORTED');
+
+-- CreateTable
+CREATE TABLE "RolloutPlan" (
+    "id" TEXT NOT NULL,
+    "tenantId" TEXT NOT NULL,
+    "flagId" TEXT NOT NULL,
+    "steps" INTEGER[],
+    "intervalMinutes" INTEGER NOT NULL,
+    "currentStep" INTEGER NOT NULL DEFAULT -1,
+    "status" "RolloutPlanStatus" NOT NULL DEFAULT 'ACTIVE',
+    "nextStepAt" TIMESTAMP(3),
+    "error" TEXT,
+    "createdById" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "RolloutPlan_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "RolloutPlan_status_nextStepAt_idx" ON "RolloutPlan"("status", "nextStepAt");
+
+-- CreateIndex
+CREATE INDEX "RolloutPlan_flagId_idx" ON "RolloutPlan"("flagId");
+
+-- AddForeignKey
+ALTER TABLE "RolloutPlan" ADD CONSTRAINT "RolloutPlan_tenantId_fkey" FOREIGN KEY ("tenantId") REFERENCES "Tenant"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "RolloutPlan" ADD CONSTRAINT "RolloutPlan_flagId_fkey" FOREIGN KEY ("flagId") REFERENCES "FeatureFlag"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "RolloutPlan" ADD CONSTRAINT "RolloutPlan_createdById_fkey" FOREIGN KEY ("createdById") REFERENCES "User"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
@@ -0,0 +1,10 @@
+-- AlterEnum
+ALTER TYPE "RolloutPlanStatus" ADD VALUE 'ROLLED_BACK';
+
+-- AlterTable
+ALTER TABLE "RolloutPlan" ADD COLUMN     "guardService" TEXT,
+ADD COLUMN     "guardSeverity" "Severity",
+ADD COLUMN     "safeState" JSONB;
+
+-- CreateIndex
+CREATE INDEX "RolloutPlan_tenantId_guardService_idx" ON "RolloutPlan"("tenantId", "guardService");
@@ -0,0 +1,68 @@
+-- CreateTable
+CREATE TABLE "FlagRevision" (
+    "id" TEXT NOT NULL,
+    "tenantId" TEXT NOT NULL,
+    "flagId" TEXT NOT NULL,
+    "version" INTEGER NOT NULL,
+    "snapshot" JSONB NOT NULL,
+    "changeType" TEXT NOT NULL,
+    "actorId" TEXT,
+    "metadata" JSONB,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "FlagRevision_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "FlagRevision_flagId_version_key" ON "FlagRevision"("flagId", "version");
+
+-- CreateIndex
+CREATE INDEX "FlagRevision_tenantId_idx" ON "FlagRevision"("tenantId");
+
+-- AddForeignKey
+ALTER TABLE "FlagRevision" ADD CONSTRAINT "FlagRevision_tenantId_fkey" FOREIGN KEY ("tenantId") REFERENCES "Tenant"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "FlagRevision" ADD CONSTRAINT "FlagRevision_flagId_fkey" FOREIGN KEY ("flagId") REFERENCES "FeatureFlag"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "FlagRevision" ADD CONSTRAINT "FlagRevision_actorId_fkey" FOREIGN KEY ("actorId") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- Backfill: record each existing flag's current state as its first revision
+INSERT INTO "FlagRevision" ("id", "tenantId", "flagId", "version", "snapshot", "changeType", "createdAt")
+SELECT
+    'baseline_' || f."id",
+    f."tenantId",
+    f."id",
+    1,
+    jsonb_build_object(
+        'name', f."name",
+        'key', f."key",
+        'description', f."description",
+        'enabled', f."enabled",
+        'environment', f."environment",
+        'rolloutPercentage', f."rolloutPercentage",
+        'variants', f."variants",
+        'defaultServe', f."defaultServe",
+        'offVariant', f."offVariant",
+        'rules', COALESCE(
+            (
+                SELECT jsonb_agg(
+                    jsonb_build_object(
+                        'id', r."id",
+                        'type', r."type",
+                        'condition', r."condition",
+                        'serve', r."serve",
+                        'order', r."order"
+                    )
+                    ORDER BY r."order"
+                )
+                FROM "Rule" r
+                WHERE r."flagId" = f."id"
+            ),
+            '[]'::jsonb
+        )
+    ),
+    'baseline',
+    f."updatedAt"
+FROM "FeatureFlag" f;
@@ -0,0 +1,41 @@
+-- CreateEnum
+CREATE TYPE "FlagChangeRequestStatus" AS ENUM ('PENDING', 'APPROVED', 'REJECTED');
+
+-- AlterTable
+ALTER TABLE "Tenant" ADD COLUMN "flagApprovalEnvironments" "Environment"[] DEFAULT ARRAY[]::"Environment"[];
+
+-- CreateTable
+CREATE TABLE "FlagChangeRequest" (
+    "id" TEXT NOT NULL,
+    "tenantId" TEXT NOT NULL,
+    "flagId" TEXT NOT NULL,
+    "change" JSONB NOT NULL,
+    "status" "FlagChangeRequestStatus" NOT NULL DEFAULT 'PENDING',
+    "authorId" TEXT NOT NULL,
+    "reviewerId" TEXT,
+    "reviewComment" TEXT,
+    "reviewedAt" TIMESTAMP(3),
+    "error" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "FlagChangeRequest_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "FlagChangeRequest_tenantId_status_idx" ON "FlagChangeRequest"("tenantId", "status");
+
+-- CreateIndex
+CREATE INDEX "FlagChangeRequest_flagId_idx" ON "FlagChangeRequest"("flagId");
+
+-- AddForeignKey
+ALTER TABLE "FlagChangeRequest" ADD CONSTRAINT "FlagChangeRequest_tenantId_fkey" FOREIGN KEY ("tenantId") REFERENCES "Tenant"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "FlagChangeRequest" ADD CONSTRAINT "FlagChangeRequest_flagId_fkey" FOREIGN KEY ("flagId") REFERENCES "FeatureFlag"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "FlagChangeRequest" ADD CONSTRAINT "FlagChangeRequest_authorId_fkey" FOREIGN KEY ("authorId") REFERENCES "User"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "FlagChangeRequest" ADD CONSTRAINT "FlagChangeRequest_reviewerId_fkey" FOREIGN KEY ("reviewerId") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
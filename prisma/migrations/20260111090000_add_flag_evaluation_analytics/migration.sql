@@ -0,0 +1,53 @@
+-- CreateTable
+CREATE TABLE "FlagEvaluationEvent" (
+    "id" SERIAL NOT NULL,
+    "tenantId" TEXT NOT NULL,
+    "flagId" TEXT NOT NULL,
+    "environment" "Environment" NOT NULL,
+    "ruleIndex" INTEGER NOT NULL,
+    "variant" TEXT NOT NULL DEFAULT '',
+    "enabled" BOOLEAN NOT NULL,
+    "userHash" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "FlagEvaluationEvent_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "FlagEvaluationRollup" (
+    "id" SERIAL NOT NULL,
+    "tenantId" TEXT NOT NULL,
+    "flagId" TEXT NOT NULL,
+    "environment" "Environment" NOT NULL,
+    "hour" TIMESTAMP(3) NOT NULL,
+    "ruleIndex" INTEGER NOT NULL,
+    "variant" TEXT NOT NULL DEFAULT '',
+    "enabled" BOOLEAN NOT NULL,
+    "count" INTEGER NOT NULL,
+
+    CONSTRAINT "FlagEvaluationRollup_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "FlagEvaluationEvent_createdAt_idx" ON "FlagEvaluationEvent"("createdAt");
+
+-- CreateIndex
+CREATE INDEX "FlagEvaluationEvent_flagId_createdAt_idx" ON "FlagEvaluationEvent"("flagId", "createdAt");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "FlagEvaluationRollup_flagId_hour_ruleIndex_variant_enabled_key" ON "FlagEvaluationRollup"("flagId", "hour", "ruleIndex", "variant", "enabled");
+
+-- CreateIndex
+CREATE INDEX "FlagEvaluationRollup_tenantId_idx" ON "FlagEvaluationRollup"("tenantId");
+
+-- AddForeignKey
+ALTER TABLE "FlagEvaluationEvent" ADD CONSTRAINT "FlagEvaluationEvent_tenantId_fkey" FOREIGN KEY ("tenantId") REFERENCES "Tenant"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "FlagEvaluationEvent" ADD CONSTRAINT "FlagEvaluationEvent_flagId_fkey" FOREIGN KEY ("flagId") REFERENCES "FeatureFlag"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "FlagEvaluationRollup" ADD CONSTRAINT "FlagEvaluationRollup_tenantId_fkey" FOREIGN KEY ("tenantId") REFERENCES "Tenant"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "FlagEvaluationRollup" ADD CONSTRAINT "FlagEvaluationRollup_flagId_fkey" FOREIGN KEY ("flagId") REFERENCES "FeatureFlag"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,12 @@
+-- CreateEnum
+CREATE TYPE "FlagLifetime" AS ENUM ('TEMPORARY', 'PERMANENT');
+
+-- AlterEnum
+ALTER TYPE "JobType" ADD VALUE 'FLAG_CLEANUP_REPORT';
+
+-- AlterTable
+ALTER TABLE "FeatureFlag" ADD COLUMN "lifetime" "FlagLifetime" NOT NULL DEFAULT 'TEMPORARY',
+ADD COLUMN "ownerId" TEXT;
+
+-- AddForeignKey
+ALTER TABLE "FeatureFlag" ADD CONSTRAINT "FeatureFlag_ownerId_fkey" FOREIGN KEY ("ownerId") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
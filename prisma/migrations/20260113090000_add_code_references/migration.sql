@@ -0,0 +1,42 @@
+-- CreateTable
+CREATE TABLE "CodeReferenceRepository" (
+    "id" TEXT NOT NULL,
+    "tenantId" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "branch" TEXT,
+    "scannedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "CodeReferenceRepository_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "CodeReference" (
+    "id" TEXT NOT NULL,
+    "tenantId" TEXT NOT NULL,
+    "repositoryId" TEXT NOT NULL,
+    "flagKey" TEXT NOT NULL,
+    "file" TEXT NOT NULL,
+    "line" INTEGER NOT NULL,
+    "context" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "CodeReference_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "CodeReferenceRepository_tenantId_name_key" ON "CodeReferenceRepository"("tenantId", "name");
+
+-- CreateIndex
+CREATE INDEX "CodeReference_tenantId_flagKey_idx" ON "CodeReference"("tenantId", "flagKey");
+
+-- CreateIndex
+CREATE INDEX "CodeReference_repositoryId_idx" ON "CodeReference"("repositoryId");
+
+-- AddForeignKey
+ALTER TABLE "CodeReferenceRepository" ADD CONSTRAINT "CodeReferenceRepository_tenantId_fkey" FOREIGN KEY ("tenantId") REFERENCES "Tenant"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "CodeReference" ADD CONSTRAINT "CodeReference_tenantId_fkey" FOREIGN KEY ("tenantId") REFERENCES "Tenant"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "CodeReference" ADD CONSTRAINT "CodeReference_repositoryId_fkey" FOREIGN KEY ("repositoryId") REFERENCES "CodeReferenceRepository"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,31 @@
+-- CreateTable
+CREATE TABLE "ExperimentLayer" (
+    "id" TEXT NOT NULL,
+    "tenantId" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "description" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "ExperimentLayer_pkey" PRIMARY KEY ("id")
+);
+
+-- AlterTable
+ALTER TABLE "FeatureFlag" ADD COLUMN "layerId" TEXT,
+ADD COLUMN "layerStart" INTEGER,
+ADD COLUMN "layerPercentage" INTEGER;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ExperimentLayer_tenantId_name_key" ON "ExperimentLayer"("tenantId", "name");
+
+-- CreateIndex
+CREATE INDEX "ExperimentLayer_tenantId_idx" ON "ExperimentLayer"("tenantId");
+
+-- CreateIndex
+CREATE INDEX "FeatureFlag_layerId_idx" ON "FeatureFlag"("layerId");
+
+-- AddForeignKey
+ALTER TABLE "ExperimentLayer" ADD CONSTRAINT "ExperimentLayer_tenantId_fkey" FOREIGN KEY ("tenantId") REFERENCES "Tenant"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "FeatureFlag" ADD CONSTRAINT "FeatureFlag_layerId_fkey" FOREIGN KEY ("layerId") REFERENCES "ExperimentLayer"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,84 @@
+-- CreateEnum
+CREATE TYPE "RotationHandoff" AS ENUM ('DAILY', 'WEEKLY');
+
+-- CreateTable
+CREATE TABLE "Schedule" (
+    "id" TEXT NOT NULL,
+    "tenantId" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "description" TEXT,
+    "timeZone" TEXT NOT NULL DEFAULT 'UTC',
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "Schedule_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "Rotation" (
+    "id" TEXT NOT NULL,
+    "tenantId" TEXT NOT NULL,
+    "scheduleId" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "layer" INTEGER NOT NULL DEFAULT 1,
+    "handoff" "RotationHandoff" NOT NULL,
+    "handoffTime" TEXT NOT NULL,
+    "handoffDay" INTEGER,
+    "userIds" TEXT[],
+    "startsAt" TIMESTAMP(3) NOT NULL,
+    "endsAt" TIMESTAMP(3),
+    "restrictStart" TEXT,
+    "restrictEnd" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "Rotation_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "Override" (
+    "id" TEXT NOT NULL,
+    "tenantId" TEXT NOT NULL,
+    "scheduleId" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "startsAt" TIMESTAMP(3) NOT NULL,
+    "endsAt" TIMESTAMP(3) NOT NULL,
+    "reason" TEXT,
+    "createdById" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "Override_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Schedule_tenantId_name_key" ON "Schedule"("tenantId", "name");
+
+-- CreateIndex
+CREATE INDEX "Schedule_tenantId_idx" ON "Schedule"("tenantId");
+
+-- CreateIndex
+CREATE INDEX "Rotation_tenantId_idx" ON "Rotation"("tenantId");
+
+-- CreateIndex
+CREATE INDEX "Rotation_scheduleId_idx" ON "Rotation"("scheduleId");
+
+-- CreateIndex
+CREATE INDEX "Override_tenantId_idx" ON "Override"("tenantId");
+
+-- CreateIndex
+CREATE INDEX "Override_scheduleId_endsAt_idx" ON "Override"("scheduleId", "endsAt");
+
+-- AddForeignKey
+ALTER TABLE "Schedule" ADD CONSTRAINT "Schedule_tenantId_fkey" FOREIGN KEY ("tenantId") REFERENCES "Tenant"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Rotation" ADD CONSTRAINT "Rotation_tenantId_fkey" FOREIGN KEY ("tenantId") REFERENCES "Tenant"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Rotation" ADD CONSTRAINT "Rotation_scheduleId_fkey" FOREIGN KEY ("scheduleId") REFERENCES "Schedule"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Override" ADD CONSTRAINT "Override_tenantId_fkey" FOREIGN KEY ("tenantId") REFERENCES "Tenant"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Override" ADD CONSTRAINT "Override_scheduleId_fkey" FOREIGN KEY ("scheduleId") REFERENCES "Schedule"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,67 @@
+-- AlterEnum
+ALTER TYPE "IncidentStatus" ADD VALUE 'ACKNOWLEDGED' BEFORE 'MITIGATED';
+
+-- CreateEnum
+CREATE TYPE "EscalationStatus" AS ENUM ('ACTIVE', 'ACKNOWLEDGED', 'EXHAUSTED');
+
+-- CreateTable
+CREATE TABLE "EscalationPolicy" (
+    "id" TEXT NOT NULL,
+    "tenantId" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "description" TEXT,
+    "service" TEXT NOT NULL,
+    "levels" JSONB NOT NULL,
+    "repeatLimit" INTEGER NOT NULL DEFAULT 0,
+    "createdById" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "EscalationPolicy_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "IncidentEscalation" (
+    "id" TEXT NOT NULL,
+    "tenantId" TEXT NOT NULL,
+    "incidentId" TEXT NOT NULL,
+    "policyId" TEXT NOT NULL,
+    "level" INTEGER NOT NULL DEFAULT 0,
+    "cycle" INTEGER NOT NULL DEFAULT 0,
+    "status" "EscalationStatus" NOT NULL DEFAULT 'ACTIVE',
+    "nextEscalationAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "IncidentEscalation_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "EscalationPolicy_tenantId_service_key" ON "EscalationPolicy"("tenantId", "service");
+
+-- CreateIndex
+CREATE INDEX "EscalationPolicy_tenantId_idx" ON "EscalationPolicy"("tenantId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "IncidentEscalation_incidentId_key" ON "IncidentEscalation"("incidentId");
+
+-- CreateIndex
+CREATE INDEX "IncidentEscalation_status_nextEscalationAt_idx" ON "IncidentEscalation"("status", "nextEscalationAt");
+
+-- CreateIndex
+CREATE INDEX "IncidentEscalation_policyId_idx" ON "IncidentEscalation"("policyId");
+
+-- AddForeignKey
+ALTER TABLE "EscalationPolicy" ADD CONSTRAINT "EscalationPolicy_tenantId_fkey" FOREIGN KEY ("tenantId") REFERENCES "Tenant"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "EscalationPolicy" ADD CONSTRAINT "EscalationPolicy_createdById_fkey" FOREIGN KEY ("createdById") REFERENCES "User"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "IncidentEscalation" ADD CONSTRAINT "IncidentEscalation_tenantId_fkey" FOREIGN KEY ("tenantId") REFERENCES "Tenant"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "IncidentEscalation" ADD CONSTRAINT "IncidentEscalation_incidentId_fkey" FOREIGN KEY ("incidentId") REFERENCES "Incident"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "IncidentEscalation" ADD CONSTRAINT "IncidentEscalation_policyId_fkey" FOREIGN KEY ("policyId") REFERENCES "EscalationPolicy"("id") ON DELETE CASCADE ON UPDATE CASCADE;
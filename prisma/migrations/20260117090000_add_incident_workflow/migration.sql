@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "Tenant" ADD COLUMN "incidentWorkflow" JSONB;
@@ -0,0 +1,53 @@
+-- CreateEnum
+CREATE TYPE "SlaStage" AS ENUM ('ACKNOWLEDGE', 'MITIGATE', 'RESOLVE');
+
+-- CreateEnum
+CREATE TYPE "SlaAlertKind" AS ENUM ('AT_RISK', 'BREACHED');
+
+-- CreateTable
+CREATE TABLE "SlaTarget" (
+    "id" TEXT NOT NULL,
+    "tenantId" TEXT NOT NULL,
+    "severity" "Severity" NOT NULL,
+    "service" TEXT,
+    "acknowledgeMinutes" INTEGER,
+    "mitigateMinutes" INTEGER,
+    "resolveMinutes" INTEGER,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "SlaTarget_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "IncidentSlaAlert" (
+    "id" TEXT NOT NULL,
+    "tenantId" TEXT NOT NULL,
+    "incidentId" TEXT NOT NULL,
+    "stage" "SlaStage" NOT NULL,
+    "kind" "SlaAlertKind" NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "IncidentSlaAlert_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "SlaTarget_tenantId_severity_service_key" ON "SlaTarget"("tenantId", "severity", "service");
+
+-- CreateIndex
+CREATE INDEX "SlaTarget_tenantId_idx" ON "SlaTarget"("tenantId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "IncidentSlaAlert_incidentId_stage_kind_key" ON "IncidentSlaAlert"("incidentId", "stage", "kind");
+
+-- CreateIndex
+CREATE INDEX "IncidentSlaAlert_tenantId_idx" ON "IncidentSlaAlert"("tenantId");
+
+-- AddForeignKey
+ALTER TABLE "SlaTarget" ADD CONSTRAINT "SlaTarget_tenantId_fkey" FOREIGN KEY ("tenantId") REFERENCES "Tenant"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "IncidentSlaAlert" ADD CONSTRAINT "IncidentSlaAlert_tenantId_fkey" FOREIGN KEY ("tenantId") REFERENCES "Tenant"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "IncidentSlaAlert" ADD CONSTRAINT "IncidentSlaAlert_incidentId_fkey" FOREIGN KEY ("incidentId") REFERENCES "Incident"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,8 @@
+-- CreateEnum
+CREATE TYPE "SdkKeyScope" AS ENUM ('CLIENT', 'SERVER');
+
+-- AlterTable
+-- Existing keys may already be shipped to browsers, so they become client keys;
+-- services that download snapshots need a new server key
+ALTER TABLE "SdkKey" ADD COLUMN "scope" "SdkKeyScope" NOT NULL DEFAULT 'CLIENT',
+ADD COLUMN "signingSecret" TEXT;
@@ -0,0 +1,12 @@
+-- AlterTable
+ALTER TABLE "FeatureFlag" ADD COLUMN "revisionCount" INTEGER NOT NULL DEFAULT 0;
+
+-- Continue numbering after each flag's existing revisions
+UPDATE "FeatureFlag" f
+SET "revisionCount" = r."version"
+FROM (
+  SELECT "flagId", MAX("version") AS "version"
+  FROM "FlagRevision"
+  GROUP BY "flagId"
+) r
+WHERE r."flagId" = f."id";
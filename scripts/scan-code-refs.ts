@@ -0,0 +1,92 @@
+import { existsSync, readFileSync } from "fs";
+import { basename, resolve } from "path";
+import { parseArgs } from "util";
+import {
+  compilePatterns,
+  DEFAULT_EXCLUDE,
+  DEFAULT_EXTENSIONS,
+  DEFAULT_PATTERNS,
+  scanDirectory,
+} from "../lib/code-ref-scanner";
+
+// Scan a source tree for flag key usages and upload them to POST /api/code-references
+//
+//   NEXT_OPS_URL=https://ops.example.com NEXT_OPS_SDK_KEY=srv-prod-... \
+//     npx ts-node -O '{"module":"commonjs","moduleResolution":"node"}' scripts/scan-code-refs.ts \
+//     --dir ../checkout-service --branch main
+//
+// Patterns, extensions and excluded directories can be set in a JSON config file
+// (default: .flag-refs.json in the scanned directory):
+//
+//   { "patterns": ["useFlag\\(\\s*'([a-z0-9_-]+)'"], "extensions": [".ts"], "exclude": ["vendor"], "contextLines": 2 }
+
+interface ScanConfig {
+  patterns?: string[];
+  extensions?: string[];
+  exclude?: string[];
+  contextLines?: number;
+}
+
+const { values } = parseArgs({
+  options: {
+    dir: { type: "string", default: "." },
+    repository: { type: "string" },
+    branch: { type: "string" },
+    config: { type: "string" },
+    pattern: { type: "string", multiple: true },
+    context: { type: "string" },
+    "dry-run": { type: "boolean", default: false },
+  },
+});
+
+async function main() {
+  const root = resolve(values.dir!);
+  const configPath = values.config ? resolve(values.config) : resolve(root, ".flag-refs.json");
+  const config: ScanConfig = existsSync(configPath) ? JSON.parse(readFileSync(configPath, "utf8")) : {};
+
+  const patterns = compilePatterns(values.pattern ?? config.patterns ?? DEFAULT_PATTERNS);
+  const references = scanDirectory(root, {
+    patterns,
+    extensions: config.extensions ?? DEFAULT_EXTENSIONS,
+    exclude: config.exclude ?? DEFAULT_EXCLUDE,
+    contextLines: values.context !== undefined ? parseInt(values.context) : config.contextLines ?? 2,
+  });
+
+  const repository = values.repository ?? basename(root);
+  const keys = new Set(references.map((reference) => reference.flagKey));
+  console.log(`Found ${references.length} references to ${keys.size} flags in ${repository}`);
+
+  if (values["dry-run"]) {
+    for (const reference of references) {
+      console.log(`  ${reference.flagKey}  ${reference.file}:${reference.line}`);
+    }
+    return;
+  }
+
+  const baseUrl = process.env.NEXT_OPS_URL;
+  const sdkKey = process.env.NEXT_OPS_SDK_KEY;
+  if (!baseUrl || !sdkKey) {
+    throw new Error("NEXT_OPS_URL and NEXT_OPS_SDK_KEY must be set to upload (or pass --dry-run)");
+  }
+
+  const response = await fetch(`${baseUrl.replace(/\/$/, "")}/api/code-references`, {
+    method: "POST",
+    headers: {
+      Authorization: `Bearer ${sdkKey}`,
+      "Content-Type": "application/json",
+    },
+    body: JSON.stringify({ repository, branch: values.branch, references }),
+  });
+
+  if (!response.ok) {
+    const data = await response.json().catch(() => ({}));
+    throw new Error(`Upload failed (${response.status}): ${data.error ?? response.statusText}`);
+  }
+
+  console.log(`Uploaded references for ${repository}`);
+}
+
+main().catch((error) => {
+  console.error(error instanceof Error ? error.message : error);
+  process.exit(1);
+});
@@ -0,0 +1,69 @@
+import { describe, it, expect } from 'vitest';
+import { compilePatterns, DEFAULT_PATTERNS, findReferences } from '@/lib/code-ref-scanner';
+
+const source = [
+  "import { flags } from './flags';",
+  '',
+  "if (flags.evaluate('new-checkout', ctx)?.enabled) {",
+  '  renderCheckout();',
+  '}',
+  'const banner = isEnabled("promo_banner") && isEnabled(`dark-mode`);',
+].join('\n');
+
+describe('compilePatterns', () => {
+  it('requires a capture group for the flag key', () => {
+    expect(() => compilePatterns(['useFlag\\(\\s*"[a-z-]+"'])).toThrow('must capture the flag key');
+    expect(compilePatterns(['useFlag\\(\\s*"([a-z-]+)"'])).toHaveLength(1);
+  });
+
+  it('rejects invalid regular expressions', () => {
+    expect(() => compilePatterns(['useFlag(('])).toThrow('Invalid pattern');
+  });
+});
+
+describe('findReferences', () => {
+  const patterns = compilePatterns(DEFAULT_PATTERNS);
+
+  it('finds SDK calls with their line and surrounding context', () => {
+    const references = findReferences(source, 'src/checkout.ts', patterns, 1);
+
+    expect(references[0]).toEqual({
+      flagKey: 'new-checkout',
+      file: 'src/checkout.ts',
+      line: 3,
+      context: "\nif (flags.evaluate('new-checkout', ctx)?.enabled) {\n  renderCheckout();",
+    });
+  });
+
+  it('finds every key on a line, whatever the quote style', () => {
+    const keys = findReferences(source, 'src/checkout.ts', patterns).map((reference) => reference.flagKey);
+
+    expect(keys).toEqual(['new-checkout', 'promo_banner', 'dark-mode']);
+  });
+
+  it('finds OpenFeature client lookups', () => {
+    const openFeature = [
+      "const on = await client.getBooleanValue('new-checkout', false, ctx);",
+      'const theme = await client.getStringDetails("theme", "light", ctx);',
+      'const limit = await client.getNumberValue(`max-items`, 10);',
+      "const limits = await client.getObjectDetails('plan_limits', {});",
+      "const other = client.getBooleanFlag('not-openfeature');",
+    ].join('\n');
+
+    expect(findReferences(openFeature, 'src/app.ts', patterns).map((reference) => reference.flagKey)).toEqual([
+      'new-checkout',
+      'theme',
+      'max-items',
+      'plan_limits',
+    ]);
+  });
+
+  it('supports custom patterns', () => {
+    const custom = compilePatterns(["useFlag\\(\\s*'([a-z0-9_-]+)'"]);
+
+    expect(findReferences("const on = useFlag('beta-nav');", 'app.tsx', custom)).toMatchObject([
+      { flagKey: 'beta-nav', line: 1 },
+    ]);
+    expect(findReferences(source, 'src/checkout.ts', custom)).toEqual([]);
+  });
+});
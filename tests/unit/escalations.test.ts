@@ -0,0 +1,280 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+
+const mockPolicyFindFirst = vi.fn();
+const mockEscalationUpsert = vi.fn();
+const mockEscalationUpdate = vi.fn();
+const mockEscalationUpdateMany = vi.fn();
+const mockIncidentFindFirst = vi.fn();
+const mockIncidentUpdate = vi.fn();
+const mockMembershipFindFirst = vi.fn();
+const mockMembershipFindMany = vi.fn();
+const mockScheduleFindFirst = vi.fn();
+const mockScheduleFindMany = vi.fn();
+const mockUserFindUnique = vi.fn();
+const mockTimelineCreate = vi.fn();
+const mockAuditCreate = vi.fn();
+const mockJobCreate = vi.fn();
+
+vi.mock('@/lib/prisma', () => {
+  const prisma = {
+    escalationPolicy: {
+      findFirst: (args: unknown) => mockPolicyFindFirst(args),
+    },
+    incidentEscalation: {
+      upsert: (args: unknown) => mockEscalationUpsert(args),
+      update: (args: unknown) => mockEscalationUpdate(args),
+      updateMany: (args: unknown) => mockEscalationUpdateMany(args),
+    },
+    incident: {
+      findFirst: (args: unknown) => mockIncidentFindFirst(args),
+      update: (args: unknown) => mockIncidentUpdate(args),
+    },
+    membership: {
+      findFirst: (args: unknown) => mockMembershipFindFirst(args),
+      findMany: (args: unknown) => mockMembershipFindMany(args),
+    },
+    schedule: {
+      findFirst: (args: unknown) => mockScheduleFindFirst(args),
+      findMany: (args: unknown) => mockScheduleFindMany(args),
+    },
+    user: {
+      findUnique: (args: unknown) => mockUserFindUnique(args),
+    },
+    timelineEvent: {
+      create: (args: unknown) => mockTimelineCreate(args),
+    },
+    auditLog: {
+      create: (args: unknown) => mockAuditCreate(args),
+    },
+    job: {
+      create: (args: unknown) => mockJobCreate(args),
+    },
+    $transaction: (fn: (tx: unknown) => unknown) => fn(prisma),
+  };
+  return { prisma };
+});
+
+vi.mock('@/lib/tenant', () => ({
+  runWithTenantContext: (_context: unknown, fn: () => unknown) => fn(),
+}));
+
+import {
+  advanceEscalation,
+  escalationPolicySchema,
+  nextEscalationStep,
+  startEscalation,
+  validateEscalationTargets,
+} from '@/lib/escalations';
+
+const now = new Date('2026-01-16T09:00:00Z');
+
+const policy = {
+  id: 'policy-1',
+  name: 'Payments',
+  service: 'payments',
+  repeatLimit: 0,
+  createdById: 'admin-1',
+  levels: [
+    { targetType: 'USER', targetId: 'alice', escalateAfterMinutes: 10 },
+    { targetType: 'SCHEDULE', targetId: 'schedule-1', escalateAfterMinutes: 15 },
+  ],
+};
+
+const incident = { id: 'incident-1', title: 'Checkout failing', severity: 'SEV1', service: 'payments', status: 'OPEN' };
+
+function escalation(overrides: Record<string, unknown> = {}) {
+  return {
+    id: 'esc-1',
+    tenantId: 'tenant-1',
+    incidentId: 'incident-1',
+    level: 0,
+    cycle: 0,
+    nextEscalationAt: now,
+    tenant: { slug: 'acme' },
+    policy,
+    ...overrides,
+  };
+}
+
+describe('Escalation policies', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockEscalationUpsert.mockResolvedValue({ id: 'esc-1' });
+    mockEscalationUpdateMany.mockResolvedValue({ count: 1 });
+    mockIncidentFindFirst.mockResolvedValue(incident);
+    mockMembershipFindFirst.mockImplementation(async ({ where }: { where: { userId: string } }) =>
+      where.userId === 'alice' ? { userId: 'alice', user: { name: 'Alice' } } : null
+    );
+    mockScheduleFindFirst.mockResolvedValue({
+      id: 'schedule-1',
+      name: 'Primary',
+      timeZone: 'UTC',
+      rotations: [
+        {
+          id: 'rot-1',
+          name: 'Weekly',
+          layer: 1,
+          handoff: 'WEEKLY',
+          handoffTime: '09:00',
+          handoffDay: 1,
+          userIds: ['bob'],
+          startsAt: new Date('2026-01-01T00:00:00Z'),
+          endsAt: null,
+          restrictStart: null,
+          restrictEnd: null,
+        },
+      ],
+      overrides: [],
+    });
+    mockUserFindUnique.mockResolvedValue({ id: 'bob', name: 'Bob', email: 'bob@example.com' });
+    mockJobCreate.mockResolvedValue({ id: 'job-1' });
+  });
+
+  describe('nextEscalationStep', () => {
+    it('moves to the next level, then repeats up to the limit', () => {
+      const levels = escalationPolicySchema.parse(policy).levels;
+
+      expect(nextEscalationStep({ levels, repeatLimit: 1 }, 0, 0)).toEqual({ level: 1, cycle: 0 });
+      expect(nextEscalationStep({ levels, repeatLimit: 1 }, 1, 0)).toEqual({ level: 0, cycle: 1 });
+      expect(nextEscalationStep({ levels, repeatLimit: 1 }, 1, 1)).toBeNull();
+      expect(nextEscalationStep({ levels, repeatLimit: 0 }, 1, 0)).toBeNull();
+    });
+  });
+
+  describe('startEscalation', () => {
+    it('assigns and notifies the first level and schedules the next step', async () => {
+      mockPolicyFindFirst.mockResolvedValue(policy);
+
+      const result = await startEscalation({ tenantId: 'tenant-1', tenantSlug: 'acme' }, incident, now);
+
+      expect(result).toEqual({ paged: 'alice', level: 0, cycle: 0 });
+      expect(mockPolicyFindFirst).toHaveBeenCalledWith({ where: { tenantId: 'tenant-1', service: 'payments' } });
+      expect(mockIncidentUpdate).toHaveBeenCalledWith({ where: { id: 'incident-1' }, data: { assigneeId: 'alice' } });
+      expect(mockTimelineCreate.mock.calls[0][0].data).toMatchObject({
+        type: 'ACTION',
+        message: 'Escalation policy "Payments": paged Alice at level 1',
+        createdById: 'admin-1',
+      });
+      expect(mockEscalationUpdate).toHaveBeenCalledWith({
+        where: { id: 'esc-1' },
+        data: { level: 0, cycle: 0, nextEscalationAt: new Date('2026-01-16T09:10:00Z') },
+      });
+      expect(mockJobCreate.mock.calls[0][0].data).toMatchObject({
+        type: 'SEND_NOTIFICATION',
+        payload: { userId: 'alice', type: 'incident_escalated', incidentId: 'incident-1' },
+      });
+    });
+
+    it('starts a reopened incident over from the first level', async () => {
+      mockPolicyFindFirst.mockResolvedValue(policy);
+
+      const result = await startEscalation({ tenantId: 'tenant-1', tenantSlug: 'acme' }, incident, now);
+
+      expect(result).toEqual({ paged: 'alice', level: 0, cycle: 0 });
+      expect(mockEscalationUpsert).toHaveBeenCalledWith({
+        where: { incidentId: 'incident-1' },
+        create: { tenantId: 'tenant-1', incidentId: 'incident-1', policyId: policy.id },
+        update: { policyId: policy.id, level: 0, cycle: 0, status: 'ACTIVE', nextEscalationAt: null },
+      });
+    });
+
+    it('does nothing for services without a policy', async () => {
+      mockPolicyFindFirst.mockResolvedValue(null);
+
+      expect(await startEscalation({ tenantId: 'tenant-1', tenantSlug: 'acme' }, incident, now)).toBeNull();
+      expect(mockEscalationUpsert).not.toHaveBeenCalled();
+    });
+
+    it('skips levels with nobody to page', async () => {
+      mockPolicyFindFirst.mockResolvedValue({
+        ...policy,
+        levels: [{ targetType: 'USER', targetId: 'mallory', escalateAfterMinutes: 10 }, policy.levels[1]],
+      });
+
+      const result = await startEscalation({ tenantId: 'tenant-1', tenantSlug: 'acme' }, incident, now);
+
+      expect(result).toEqual({ paged: 'bob', level: 1, cycle: 0 });
+      expect(mockTimelineCreate.mock.calls[0][0].data.message).toBe(
+        'Escalation policy "Payments": nobody to page at level 1, skipping'
+      );
+      expect(mockTimelineCreate.mock.calls[1][0].data.message).toBe(
+        'Escalation policy "Payments": paged Bob at level 2 (on call for "Primary")'
+      );
+    });
+  });
+
+  describe('advanceEscalation', () => {
+    it('pages the next level when nobody acknowledged', async () => {
+      const result = await advanceEscalation(escalation(), now);
+
+      expect(result).toEqual({ success: true, paged: 'bob', level: 1, cycle: 0 });
+      expect(mockEscalationUpdateMany).toHaveBeenCalledWith({
+        where: { id: 'esc-1', status: 'ACTIVE', nextEscalationAt: now },
+        data: { nextEscalationAt: null },
+      });
+      expect(mockIncidentUpdate).toHaveBeenCalledWith({ where: { id: 'incident-1' }, data: { assigneeId: 'bob' } });
+    });
+
+    it('stops once the incident is no longer open', async () => {
+      mockIncidentFindFirst.mockResolvedValue({ ...incident, status: 'ACKNOWLEDGED' });
+
+      expect(await advanceEscalation(escalation(), now)).toEqual({ success: true, acknowledged: true });
+      expect(mockEscalationUpdate).toHaveBeenCalledWith({ where: { id: 'esc-1' }, data: { status: 'ACKNOWLEDGED' } });
+      expect(mockIncidentUpdate).not.toHaveBeenCalled();
+    });
+
+    it('repeats from level 1 within the repeat limit, then gives up', async () => {
+      const repeating = { ...policy, repeatLimit: 1 };
+
+      expect(await advanceEscalation(escalation({ level: 1, policy: repeating }), now)).toMatchObject({
+        paged: 'alice',
+        level: 0,
+        cycle: 1,
+      });
+      expect(mockTimelineCreate.mock.calls[0][0].data.message).toBe(
+        'Escalation policy "Payments": paged Alice at level 1, repeat 1'
+      );
+
+      vi.clearAllMocks();
+      mockEscalationUpdateMany.mockResolvedValue({ count: 1 });
+      mockIncidentFindFirst.mockResolvedValue(incident);
+
+      expect(await advanceEscalation(escalation({ level: 1, cycle: 1, policy: repeating }), now)).toEqual({
+        success: true,
+        exhausted: true,
+      });
+      expect(mockEscalationUpdate).toHaveBeenCalledWith({
+        where: { id: 'esc-1' },
+        data: { status: 'EXHAUSTED', nextEscalationAt: null },
+      });
+      expect(mockTimelineCreate.mock.calls[0][0].data.message).toBe(
+        'Escalation policy "Payments" exhausted: nobody acknowledged'
+      );
+    });
+
+    it('skips escalations another worker already claimed', async () => {
+      mockEscalationUpdateMany.mockResolvedValue({ count: 0 });
+
+      expect(await advanceEscalation(escalation(), now)).toEqual({ success: false, error: 'Already claimed' });
+      expect(mockIncidentFindFirst).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('validateEscalationTargets', () => {
+    it('requires members and schedules in the tenant', async () => {
+      mockMembershipFindMany.mockResolvedValue([{ userId: 'alice' }]);
+      mockScheduleFindMany.mockResolvedValue([]);
+
+      expect(await validateEscalationTargets('tenant-1', escalationPolicySchema.parse(policy).levels)).toEqual({
+        valid: false,
+        error: 'Schedule "schedule-1" not found',
+      });
+
+      mockMembershipFindMany.mockResolvedValue([]);
+      expect(await validateEscalationTargets('tenant-1', escalationPolicySchema.parse(policy).levels)).toEqual({
+        valid: false,
+        error: 'User "alice" is not a member of this tenant',
+      });
+    });
+  });
+});
@@ -0,0 +1,164 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+
+const mockLayerFindFirst = vi.fn();
+const mockFlagFindMany = vi.fn();
+
+vi.mock('@/lib/prisma', () => ({
+  prisma: {
+    experimentLayer: {
+      findFirst: (args: unknown) => mockLayerFindFirst(args),
+    },
+    featureFlag: {
+      findMany: (args: unknown) => mockFlagFindMany(args),
+    },
+  },
+}));
+
+import { evaluateAllFlags, evaluateFeatureFlag, layerBucket } from '@next-ops/flag-evaluator';
+import { createFlagSnapshot } from '@/lib/flag-snapshots';
+import {
+  layerSliceSchema,
+  slicesOverlap,
+  summarizeLayerAllocation,
+  validateLayerSlice,
+} from '@/lib/experiment-layers';
+
+const users = Array.from({ length: 400 }, (_, i) => `user-${i}`);
+
+function experiment(key: string, layer: { start: number; percentage: number } | null) {
+  return {
+    key,
+    enabled: true,
+    environment: 'PROD',
+    rolloutPercentage: 100,
+    rules: [],
+    ...(layer && { layerId: 'layer-checkout', layerStart: layer.start, layerPercentage: layer.percentage }),
+  };
+}
+
+describe('Experiment layer evaluation', () => {
+  it('puts each user in at most one flag of a layer', () => {
+    const flags = [
+      experiment('new-button', { start: 0, percentage: 30 }),
+      experiment('new-copy', { start: 30, percentage: 30 }),
+      experiment('new-layout', { start: 60, percentage: 20 }),
+    ];
+
+    const counts = users.map((userId) => {
+      const results = evaluateAllFlags(flags, { userId, environment: 'PROD' });
+      return Object.values(results).filter((result) => result.enabled).length;
+    });
+
+    expect(Math.max(...counts)).toBe(1);
+    // Buckets 80-99 are unallocated, so some users are in no experiment
+    expect(counts).toContain(0);
+  });
+
+  it('allocates users by layer bucket, independently of the flag key', () => {
+    for (const userId of users.slice(0, 50)) {
+      const bucket = layerBucket(userId, 'layer-checkout');
+      const result = evaluateFeatureFlag(experiment('new-copy', { start: 30, percentage: 30 }), {
+        userId,
+        environment: 'PROD',
+      });
+
+      expect(result.enabled).toBe(bucket >= 30 && bucket < 60);
+    }
+  });
+
+  it('explains the allocation in the trace and reason', () => {
+    const userId = users.find((id) => layerBucket(id, 'layer-checkout') >= 50)!;
+    const bucket = layerBucket(userId, 'layer-checkout');
+
+    const result = evaluateFeatureFlag(experiment('new-button', { start: 0, percentage: 50 }), {
+      userId,
+      environment: 'PROD',
+    });
+
+    expect(result).toMatchObject({
+      enabled: false,
+      reason: `Layer: bucket ${bucket} is outside this flag's slice`,
+      reasonKind: 'outside_layer',
+    });
+    expect(result.trace).toContain(
+      `Layer "layer-checkout": userId "${userId}" hashes to layer bucket ${bucket}, flag holds buckets 0-49 -> not in slice`
+    );
+  });
+
+  it('applies rules and rollout within the slice', () => {
+    const flag = { ...experiment('new-button', { start: 0, percentage: 100 }), rolloutPercentage: 0 };
+
+    expect(evaluateFeatureFlag(flag, { userId: 'user-1', environment: 'PROD' })).toMatchObject({
+      enabled: false,
+      reason: 'Default rule: not in 0% rollout',
+    });
+  });
+
+  it('carries layer slices into SDK snapshots', () => {
+    const snapshot = createFlagSnapshot(1, 'PROD', [experiment('new-button', { start: 10, percentage: 5 }), experiment('plain', null)], {});
+
+    expect(snapshot.flags[0]).toMatchObject({ layerId: 'layer-checkout', layerStart: 10, layerPercentage: 5 });
+    expect(snapshot.flags[1]).not.toHaveProperty('layerId');
+  });
+});
+
+describe('Layer slices', () => {
+  it('must fit in the layer', () => {
+    expect(layerSliceSchema.safeParse({ id: 'layer-1', start: 90, percentage: 10 }).success).toBe(true);
+    expect(layerSliceSchema.safeParse({ id: 'layer-1', start: 90, percentage: 11 }).success).toBe(false);
+    expect(layerSliceSchema.safeParse({ id: 'layer-1', start: 0, percentage: 0 }).success).toBe(false);
+  });
+
+  it('overlap only when they share a bucket', () => {
+    expect(slicesOverlap({ start: 0, percentage: 30 }, { start: 30, percentage: 10 })).toBe(false);
+    expect(slicesOverlap({ start: 0, percentage: 31 }, { start: 30, percentage: 10 })).toBe(true);
+    expect(slicesOverlap({ start: 40, percentage: 10 }, { start: 30, percentage: 50 })).toBe(true);
+  });
+
+  it('summarizes allocation per environment in bucket order', () => {
+    const allocations = summarizeLayerAllocation([
+      { id: 'f2', key: 'b', enabled: true, environment: 'PROD', layerStart: 50, layerPercentage: 25 },
+      { id: 'f1', key: 'a', enabled: false, environment: 'PROD', layerStart: 0, layerPercentage: 10 },
+      { id: 'f3', key: 'a', enabled: true, environment: 'DEV', layerStart: 0, layerPercentage: 100 },
+    ]);
+
+    expect(allocations.map((a) => [a.environment, a.allocated])).toEqual([
+      ['DEV', 100],
+      ['STAGING', 0],
+      ['PROD', 35],
+    ]);
+    expect(allocations[2].slices.map((slice) => slice.key)).toEqual(['a', 'b']);
+  });
+});
+
+describe('validateLayerSlice', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockLayerFindFirst.mockResolvedValue({ id: 'layer-1', name: 'Checkout' });
+    mockFlagFindMany.mockResolvedValue([{ key: 'new-copy', layerStart: 30, layerPercentage: 30 }]);
+  });
+
+  it('rejects slices that overlap another flag in the same environment', async () => {
+    const flag = { id: 'flag-1', environment: 'PROD' as const };
+
+    expect(await validateLayerSlice('tenant-1', flag, { id: 'layer-1', start: 0, percentage: 30 })).toEqual({ valid: true });
+    expect(await validateLayerSlice('tenant-1', flag, { id: 'layer-1', start: 50, percentage: 20 })).toEqual({
+      valid: false,
+      error: 'slice overlaps "new-copy" (buckets 30-59) in layer "Checkout"',
+    });
+    expect(mockFlagFindMany).toHaveBeenCalledWith(
+      expect.objectContaining({
+        where: { tenantId: 'tenant-1', layerId: 'layer-1', environment: 'PROD', id: { not: 'flag-1' } },
+      })
+    );
+  });
+
+  it('rejects layers from other tenants', async () => {
+    mockLayerFindFirst.mockResolvedValue(null);
+
+    expect(
+      await validateLayerSlice('tenant-1', { id: 'flag-1', environment: 'PROD' }, { id: 'layer-2', start: 0, percentage: 10 })
+    ).toEqual({ valid: false, error: 'experiment layer not found' });
+    expect(mockLayerFindFirst).toHaveBeenCalledWith({ where: { id: 'layer-2', tenantId: 'tenant-1' } });
+  });
+});
@@ -1,5 +1,15 @@
 import { describe, it, expect } from 'vitest';
-import { stableHash, evaluateFeatureFlag, validateRule } from '@/lib/feature-flags';
+import {
+  stableHash,
+  evaluateFeatureFlag,
+  validateRule,
+  compareSemver,
+  collectSegmentIds,
+  pickWeightedVariant,
+  validateVariantReferences,
+  findPrerequisiteCycle,
+  evaluateAllFlags,
+} from '@next-ops/flag-evaluator';
 
 describe('Feature Flags', () => {
   describe('stableHash', () => {
@@ -61,11 +71,12 @@ describe('Feature Flags', () => {
       expect(result.reason).toContain('Environment mismatch');
     });
 
-    it('should return enabled when no rules and flag is enabled', () => {
+    it('should return enabled when no rules and rollout is 100%', () => {
       const flag = {
         key: 'test-flag',
         enabled: true,
         environment: 'PROD',
+        rolloutPercentage: 100,
         rules: [],
       };
       const context = { userId: 'user-123', environment: 'PROD' };
@@ -73,7 +84,23 @@ describe('Feature Flags', () => {
       const result = evaluateFeatureFlag(flag, context);
       
       expect(result.enabled).toBe(true);
-      expect(result.reason).toBe('No rules defined, enabled for all');
+      expect(result.reason).toBe('Default rule: in 100% rollout');
+    });
+
+    it('should return disabled when no rules and rollout is 0%', () => {
+      const flag = {
+        key: 'test-flag',
+        enabled: true,
+        environment: 'PROD',
+        rolloutPercentage: 0,
+        rules: [],
+      };
+      const context = { userId: 'user-123', environment: 'PROD' };
+      
+      const result = evaluateFeatureFlag(flag, context);
+      
+      expect(result.enabled).toBe(false);
+      expect(result.reason).toBe('Default rule: not in 0% rollout');
     });
 
     it('should enable for user in allowlist', () => {
@@ -91,6 +118,7 @@ describe('Feature Flags', () => {
       
       expect(result.enabled).toBe(true);
       expect(result.reason).toBe('Matched rule 1');
+      expect(result.ruleIndex).toBe(0);
     });
 
     it('should disable for user not in allowlist', () => {
@@ -107,7 +135,34 @@ describe('Feature Flags', () => {
       const result = evaluateFeatureFlag(flag, context);
       
       expect(result.enabled).toBe(false);
-      expect(result.reason).toBe('No rules matched');
+      expect(result.reason).toBe('Default rule: not in 0% rollout');
+      expect(result.ruleIndex).toBeUndefined();
+    });
+
+    it('should bucket unmatched users against the default rollout', () => {
+      const flag = {
+        key: 'test-flag',
+        enabled: true,
+        environment: 'PROD',
+        rolloutPercentage: 30,
+        rules: [
+          { condition: { type: 'ALLOWLIST', userIds: ['user-456'] } }
+        ],
+      };
+
+      let enabledCount = 0;
+      for (let i = 0; i < 1000; i++) {
+        const result = evaluateFeatureFlag(flag, { userId: `user-${i}-x`, environment: 'PROD' });
+        if (result.enabled) enabledCount++;
+        expect(result.trace.some((line) => line.startsWith('Default rule:'))).toBe(true);
+      }
+
+      expect(enabledCount).toBeGreaterThan(200);
+      expect(enabledCount).toBeLessThan(400);
+
+      const first = evaluateFeatureFlag(flag, { userId: 'user-123', environment: 'PROD' });
+      const second = evaluateFeatureFlag(flag, { userId: 'user-123', environment: 'PROD' });
+      expect(first.enabled).toBe(second.enabled);
     });
 
     it('should handle percent rollout consistently', () => {
@@ -177,6 +232,345 @@ describe('Feature Flags', () => {
     });
   });
 
+  describe('ATTRIBUTE rules', () => {
+    const evaluateAttribute = (
+      condition: Record<string, unknown>,
+      attributes: Record<string, string | number | boolean>
+    ) =>
+      evaluateFeatureFlag(
+        {
+          key: 'test-flag',
+          enabled: true,
+          environment: 'PROD',
+          rules: [{ condition: { type: 'ATTRIBUTE', ...condition } }],
+        },
+        { userId: 'user-123', environment: 'PROD', attributes }
+      );
+
+    it('should match EQUALS and IN against any listed value', () => {
+      expect(evaluateAttribute({ attribute: 'plan', operator: 'EQUALS', values: ['pro'] }, { plan: 'pro' }).enabled).toBe(true);
+      expect(evaluateAttribute({ attribute: 'country', operator: 'IN', values: ['KE', 'UG'] }, { country: 'UG' }).enabled).toBe(true);
+      expect(evaluateAttribute({ attribute: 'country', operator: 'IN', values: ['KE', 'UG'] }, { country: 'US' }).enabled).toBe(false);
+    });
+
+    it('should match NOT_IN only when no value matches', () => {
+      expect(evaluateAttribute({ attribute: 'country', operator: 'NOT_IN', values: ['KE'] }, { country: 'US' }).enabled).toBe(true);
+      expect(evaluateAttribute({ attribute: 'country', operator: 'NOT_IN', values: ['KE'] }, { country: 'KE' }).enabled).toBe(false);
+    });
+
+    it('should not match when the attribute is missing, even for NOT_IN', () => {
+      const result = evaluateAttribute({ attribute: 'country', operator: 'NOT_IN', values: ['KE'] }, {});
+      expect(result.enabled).toBe(false);
+      expect(result.trace.join('\n')).toContain('not set in context');
+    });
+
+    it('should support string operators', () => {
+      expect(evaluateAttribute({ attribute: 'email', operator: 'CONTAINS', values: ['@acme'] }, { email: 'jo@acme.io' }).enabled).toBe(true);
+      expect(evaluateAttribute({ attribute: 'tier', operator: 'STARTS_WITH', values: ['ent'] }, { tier: 'enterprise' }).enabled).toBe(true);
+      expect(evaluateAttribute({ attribute: 'email', operator: 'REGEX', values: ['^[a-z]+@acme\\.io$'] }, { email: 'jo@acme.io' }).enabled).toBe(true);
+    });
+
+    it('should treat an invalid regex as no match', () => {
+      expect(evaluateAttribute({ attribute: 'email', operator: 'REGEX', values: ['('] }, { email: 'jo@acme.io' }).enabled).toBe(false);
+    });
+
+    it('should compare numbers', () => {
+      expect(evaluateAttribute({ attribute: 'seats', operator: 'GTE', values: [10] }, { seats: 10 }).enabled).toBe(true);
+      expect(evaluateAttribute({ attribute: 'seats', operator: 'LT', values: ['10'] }, { seats: '9' }).enabled).toBe(true);
+      expect(evaluateAttribute({ attribute: 'seats', operator: 'GT', values: [10] }, { seats: 'many' }).enabled).toBe(false);
+    });
+
+    it('should compare semantic versions', () => {
+      expect(evaluateAttribute({ attribute: 'appVersion', operator: 'SEMVER_GTE', values: ['2.4.0'] }, { appVersion: '2.10.1' }).enabled).toBe(true);
+      expect(evaluateAttribute({ attribute: 'appVersion', operator: 'SEMVER_LT', values: ['2.0.0'] }, { appVersion: '2.0.0-beta.1' }).enabled).toBe(true);
+    });
+
+    it('should compare dates', () => {
+      expect(evaluateAttribute({ attribute: 'signupDate', operator: 'BEFORE', values: ['2025-01-01'] }, { signupDate: '2024-06-30' }).enabled).toBe(true);
+      expect(evaluateAttribute({ attribute: 'signupDate', operator: 'AFTER', values: ['2025-01-01'] }, { signupDate: '2024-06-30' }).enabled).toBe(false);
+    });
+
+    it('should expose service as a built-in attribute', () => {
+      const result = evaluateFeatureFlag(
+        {
+          key: 'test-flag',
+          enabled: true,
+          environment: 'PROD',
+          rules: [{ condition: { type: 'ATTRIBUTE', attribute: 'service', operator: 'EQUALS', values: ['api-gateway'] } }],
+        },
+        { userId: 'user-123', environment: 'PROD', service: 'api-gateway' }
+      );
+      expect(result.enabled).toBe(true);
+    });
+  });
+
+  describe('SEGMENT rules', () => {
+    const flag = {
+      key: 'test-flag',
+      enabled: true,
+      environment: 'PROD',
+      rules: [{ condition: { type: 'SEGMENT', segmentId: 'seg-1' } }],
+    };
+    const segment = {
+      id: 'seg-1',
+      name: 'Beta testers',
+      userIds: ['user-123'],
+      conditions: [{ type: 'ATTRIBUTE', attribute: 'plan', operator: 'IN', values: ['pro', 'enterprise'] }],
+    };
+
+    it('should match listed segment members', () => {
+      const result = evaluateFeatureFlag(flag, { userId: 'user-123', environment: 'PROD' }, { segments: { 'seg-1': segment } });
+      expect(result.enabled).toBe(true);
+    });
+
+    it('should match users satisfying the segment conditions', () => {
+      const result = evaluateFeatureFlag(
+        flag,
+        { userId: 'user-999', environment: 'PROD', attributes: { plan: 'pro' } },
+        { segments: { 'seg-1': segment } }
+      );
+      expect(result.enabled).toBe(true);
+      expect(result.trace.join('\n')).toContain('Beta testers');
+    });
+
+    it('should not match users outside the segment', () => {
+      const result = evaluateFeatureFlag(
+        flag,
+        { userId: 'user-999', environment: 'PROD', attributes: { plan: 'free' } },
+        { segments: { 'seg-1': segment } }
+      );
+      expect(result.enabled).toBe(false);
+    });
+
+    it('should reflect segment edits without changing the flag', () => {
+      const edited = { ...segment, userIds: [], conditions: [] };
+      const result = evaluateFeatureFlag(flag, { userId: 'user-123', environment: 'PROD' }, { segments: { 'seg-1': edited } });
+      expect(result.enabled).toBe(false);
+    });
+
+    it('should not match when the segment is missing', () => {
+      const result = evaluateFeatureFlag(flag, { userId: 'user-123', environment: 'PROD' });
+      expect(result.enabled).toBe(false);
+      expect(result.trace.join('\n')).toContain('not found');
+    });
+
+    it('should collect segment ids from nested rules', () => {
+      const ids = collectSegmentIds({
+        type: 'OR',
+        rules: [
+          { type: 'SEGMENT', segmentId: 'seg-1' },
+          { type: 'AND', rules: [{ type: 'SEGMENT', segmentId: 'seg-2' }, { type: 'PERCENT_ROLLOUT', percentage: 10 }] },
+        ],
+      });
+      expect(ids).toEqual(['seg-1', 'seg-2']);
+    });
+  });
+
+  describe('variants', () => {
+    const variants = [
+      { key: 'control', value: 'blue' },
+      { key: 'treatment', value: { color: 'green', size: 2 } },
+    ];
+
+    it('should not return a variant for boolean flags', () => {
+      const result = evaluateFeatureFlag(
+        { key: 'test-flag', enabled: true, environment: 'PROD', rules: [] },
+        { userId: 'user-123', environment: 'PROD' }
+      );
+      expect(result.variant).toBeUndefined();
+    });
+
+    it('should serve the matching rule variant', () => {
+      const result = evaluateFeatureFlag(
+        {
+          key: 'test-flag',
+          enabled: true,
+          environment: 'PROD',
+          variants,
+          rules: [
+            { condition: { type: 'ALLOWLIST', userIds: ['user-123'] }, serve: { variant: 'treatment' } },
+          ],
+        },
+        { userId: 'user-123', environment: 'PROD' }
+      );
+      expect(result.variant).toBe('treatment');
+      expect(result.value).toEqual({ color: 'green', size: 2 });
+    });
+
+    it('should fall back to the default serve, then the first variant', () => {
+      const flag = {
+        key: 'test-flag',
+        enabled: true,
+        environment: 'PROD',
+        rolloutPercentage: 100,
+        variants,
+        rules: [],
+      };
+      const context = { userId: 'user-123', environment: 'PROD' };
+
+      expect(evaluateFeatureFlag({ ...flag, defaultServe: { variant: 'treatment' } }, context).variant).toBe('treatment');
+      expect(evaluateFeatureFlag(flag, context).variant).toBe('control');
+    });
+
+    it('should serve the off variant when disabled', () => {
+      const result = evaluateFeatureFlag(
+        { key: 'test-flag', enabled: false, environment: 'PROD', variants, offVariant: 'control', rules: [] },
+        { userId: 'user-123', environment: 'PROD' }
+      );
+      expect(result.enabled).toBe(false);
+      expect(result.variant).toBe('control');
+      expect(result.value).toBe('blue');
+    });
+
+    it('should split users deterministically by weight', () => {
+      const split = [
+        { variant: 'control', weight: 50 },
+        { variant: 'treatment', weight: 50 },
+      ];
+      const counts: Record<string, number> = { control: 0, treatment: 0 };
+      for (let i = 0; i < 1000; i++) {
+        counts[pickWeightedVariant(`user-${i}`, 'test-flag', split).variant]++;
+      }
+      expect(counts.control).toBeGreaterThan(400);
+      expect(counts.treatment).toBeGreaterThan(400);
+      expect(pickWeightedVariant('user-1', 'test-flag', split)).toEqual(pickWeightedVariant('user-1', 'test-flag', split));
+    });
+
+    it('should send everyone to a 100% weight variant', () => {
+      const split = [
+        { variant: 'control', weight: 0 },
+        { variant: 'treatment', weight: 100 },
+      ];
+      for (let i = 0; i < 50; i++) {
+        expect(pickWeightedVariant(`user-${i}`, 'test-flag', split).variant).toBe('treatment');
+      }
+    });
+
+    it('should reject serve configs that reference unknown variants', () => {
+      expect(validateVariantReferences(variants, [{ variant: 'treatment' }], 'control').valid).toBe(true);
+      expect(validateVariantReferences(variants, [{ variant: 'missing' }]).valid).toBe(false);
+      expect(validateVariantReferences(variants, [], 'missing').valid).toBe(false);
+    });
+
+    it('should reject splits that do not add up to 100', () => {
+      const result = validateVariantReferences(variants, [
+        { split: [{ variant: 'control', weight: 30 }, { variant: 'treatment', weight: 30 }] },
+      ]);
+      expect(result.valid).toBe(false);
+    });
+  });
+
+  describe('compareSemver', () => {
+    it('should order versions numerically', () => {
+      expect(compareSemver('1.10.0', '1.9.0')).toBeGreaterThan(0);
+      expect(compareSemver('v1.2', '1.2.0')).toBe(0);
+    });
+
+    it('should rank prereleases below the release', () => {
+      expect(compareSemver('1.0.0-rc.1', '1.0.0')).toBeLessThan(0);
+      expect(compareSemver('1.0.0-rc.2', '1.0.0-rc.10')).toBeLessThan(0);
+    });
+
+    it('should return null for invalid versions', () => {
+      expect(compareSemver('latest', '1.0.0')).toBeNull();
+    });
+  });
+
+  describe('PREREQUISITE rules', () => {
+    const parent = {
+      key: 'new-billing',
+      enabled: true,
+      environment: 'PROD',
+      rolloutPercentage: 0,
+      rules: [{ condition: { type: 'ALLOWLIST', userIds: ['user-1'] } }],
+      variants: [
+        { key: 'v1', value: 1 },
+        { key: 'v2', value: 2 },
+      ],
+      defaultServe: { variant: 'v2' },
+    };
+
+    const child = (condition: Record<string, unknown>) => ({
+      key: 'billing-export',
+      enabled: true,
+      environment: 'PROD',
+      rolloutPercentage: 0,
+      rules: [{ condition: { type: 'PREREQUISITE', flagKey: 'new-billing', ...condition } }],
+    });
+
+    const options = { flags: { 'new-billing': parent } };
+
+    it('should match when the prerequisite flag is on for the user', () => {
+      const flag = child({ enabled: true });
+
+      expect(evaluateFeatureFlag(flag, { userId: 'user-1', environment: 'PROD' }, options).enabled).toBe(true);
+      expect(evaluateFeatureFlag(flag, { userId: 'user-2', environment: 'PROD' }, options).enabled).toBe(false);
+    });
+
+    it('should support requiring the prerequisite to be off', () => {
+      const flag = child({ enabled: false });
+
+      expect(evaluateFeatureFlag(flag, { userId: 'user-2', environment: 'PROD' }, options).enabled).toBe(true);
+    });
+
+    it('should require a specific variant when one is given', () => {
+      const context = { userId: 'user-1', environment: 'PROD' };
+
+      expect(evaluateFeatureFlag(child({ enabled: true, variant: 'v2' }), context, options).enabled).toBe(true);
+      expect(evaluateFeatureFlag(child({ enabled: true, variant: 'v1' }), context, options).enabled).toBe(false);
+    });
+
+    it('should nest the prerequisite trace', () => {
+      const result = evaluateFeatureFlag(child({ enabled: true }), { userId: 'user-1', environment: 'PROD' }, options);
+
+      expect(result.trace).toContain('PREREQUISITE: Evaluating flag "new-billing"...');
+      expect(result.trace).toContain('  Flag "new-billing" is enabled for environment "PROD"');
+      expect(result.trace.some((line) => line.startsWith('PREREQUISITE: flag "new-billing" is on serving "v2"'))).toBe(true);
+    });
+
+    it('should not match when the prerequisite flag is missing', () => {
+      const result = evaluateFeatureFlag(child({ enabled: true }), { userId: 'user-1', environment: 'PROD' });
+
+      expect(result.enabled).toBe(false);
+      expect(result.trace).toContain('PREREQUISITE: flag "new-billing" not found -> no match');
+    });
+
+    it('should stop at cycles instead of recursing forever', () => {
+      const a = {
+        key: 'a',
+        enabled: true,
+        environment: 'PROD',
+        rules: [{ condition: { type: 'PREREQUISITE', flagKey: 'b', enabled: true } }],
+      };
+      const b = {
+        key: 'b',
+        enabled: true,
+        environment: 'PROD',
+        rules: [{ condition: { type: 'PREREQUISITE', flagKey: 'a', enabled: true } }],
+      };
+
+      const results = evaluateAllFlags([a, b], { userId: 'user-1', environment: 'PROD' }, {}, { includeTrace: true });
+
+      expect(results.a.enabled).toBe(false);
+      expect(results.a.trace?.some((line) => line.includes('cycle detected (a -> b -> a)'))).toBe(true);
+    });
+  });
+
+  describe('findPrerequisiteCycle', () => {
+    it('should find a cycle through the flag', () => {
+      expect(findPrerequisiteCycle('a', { a: ['b'], b: ['c'], c: ['a'] })).toEqual(['a', 'b', 'c', 'a']);
+    });
+
+    it('should find a flag depending on itself', () => {
+      expect(findPrerequisiteCycle('a', { a: ['a'] })).toEqual(['a', 'a']);
+    });
+
+    it('should ignore shared dependencies and cycles elsewhere', () => {
+      expect(findPrerequisiteCycle('a', { a: ['b', 'c'], b: ['d'], c: ['d'], d: [] })).toBeNull();
+      expect(findPrerequisiteCycle('a', { a: ['b'], b: ['c'], c: ['b'] })).toBeNull();
+    });
+  });
+
   describe('validateRule', () => {
     it('should validate ALLOWLIST rule', () => {
       const rule = { type: 'ALLOWLIST', userIds: ['user-1', 'user-2'] };
@@ -213,5 +607,23 @@ describe('Feature Flags', () => {
       const result = validateRule(rule);
       expect(result.valid).toBe(true);
     });
+
+    it('should validate ATTRIBUTE rule', () => {
+      const rule = { type: 'ATTRIBUTE', attribute: 'plan', operator: 'IN', values: ['pro', 'enterprise'] };
+      const result = validateRule(rule);
+      expect(result.valid).toBe(true);
+    });
+
+    it('should reject ATTRIBUTE rule with unknown operator', () => {
+      const rule = { type: 'ATTRIBUTE', attribute: 'plan', operator: 'LIKE', values: ['pro'] };
+      const result = validateRule(rule);
+      expect(result.valid).toBe(false);
+    });
+
+    it('should validate PREREQUISITE rule', () => {
+      expect(validateRule({ type: 'PREREQUISITE', flagKey: 'new-billing', enabled: true }).valid).toBe(true);
+      expect(validateRule({ type: 'PREREQUISITE', flagKey: 'new-billing', enabled: true, variant: 'v2' }).valid).toBe(true);
+      expect(validateRule({ type: 'PREREQUISITE', flagKey: 'new-billing' }).valid).toBe(false);
+    });
   });
 });
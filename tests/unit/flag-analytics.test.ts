@@ -0,0 +1,183 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+
+const mockCreateMany = vi.fn();
+const mockFlagFindMany = vi.fn();
+
+vi.mock('@/lib/prisma', () => ({
+  prisma: {
+    flagEvaluationEvent: {
+      createMany: (args: unknown) => mockCreateMany(args),
+    },
+    featureFlag: {
+      findMany: (args: unknown) => mockFlagFindMany(args),
+    },
+  },
+}));
+
+import {
+  hashUserId,
+  recordFlagEvaluations,
+  recordFlagExposures,
+  startOfHour,
+  summarizeEvaluations,
+} from '@/lib/flag-analytics';
+
+const from = new Date('2026-01-10T10:00:00.000Z');
+
+function bucket(hour: string, overrides: Record<string, unknown> = {}) {
+  return { hour: new Date(hour), ruleIndex: -1, variant: '', enabled: true, count: 1, ...overrides };
+}
+
+describe('hashUserId', () => {
+  it('is stable per tenant and never the raw id', () => {
+    const hash = hashUserId('tenant-1', 'alice');
+
+    expect(hash).toBe(hashUserId('tenant-1', 'alice'));
+    expect(hash).not.toContain('alice');
+    expect(hash).not.toBe(hashUserId('tenant-2', 'alice'));
+  });
+});
+
+describe('startOfHour', () => {
+  it('truncates to the hour', () => {
+    expect(startOfHour(new Date('2026-01-10T10:42:13.500Z')).toISOString()).toBe('2026-01-10T10:00:00.000Z');
+  });
+});
+
+describe('recordFlagExposures', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockCreateMany.mockResolvedValue({ count: 1 });
+  });
+
+  it('records reported exposures by key in the SDK key\'s environment', async () => {
+    mockFlagFindMany.mockResolvedValue([{ id: 'flag-1', key: 'new-checkout' }]);
+
+    const recorded = await recordFlagExposures('tenant-1', 'PROD', {
+      userId: 'alice',
+      exposures: [
+        { flagKey: 'new-checkout', enabled: true, ruleIndex: 0, variant: 'blue' },
+        { flagKey: 'deleted-flag', enabled: false },
+      ],
+    });
+
+    expect(recorded).toBe(1);
+    expect(mockFlagFindMany).toHaveBeenCalledWith(
+      expect.objectContaining({
+        where: { tenantId: 'tenant-1', environment: 'PROD', key: { in: ['new-checkout', 'deleted-flag'] } },
+      })
+    );
+    expect(mockCreateMany.mock.calls[0][0].data).toEqual([
+      expect.objectContaining({ flagId: 'flag-1', environment: 'PROD', enabled: true, ruleIndex: 0, variant: 'blue' }),
+    ]);
+  });
+});
+
+describe('recordFlagEvaluations', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('stores hashed user ids and defaults for unmatched rules and variants', async () => {
+    mockCreateMany.mockResolvedValue({ count: 2 });
+
+    await recordFlagEvaluations('tenant-1', [
+      { flagId: 'flag-1', environment: 'PROD', userId: 'alice', enabled: true, ruleIndex: 0, variant: 'blue' },
+      { flagId: 'flag-2', environment: 'PROD', userId: 'alice', enabled: false },
+    ]);
+
+    const { data } = mockCreateMany.mock.calls[0][0];
+    expect(data).toEqual([
+      expect.objectContaining({ flagId: 'flag-1', ruleIndex: 0, variant: 'blue', enabled: true }),
+      expect.objectContaining({ flagId: 'flag-2', ruleIndex: -1, variant: '', enabled: false }),
+    ]);
+    expect(data[0].userHash).toBe(hashUserId('tenant-1', 'alice'));
+    expect(data[0]).not.toHaveProperty('userId');
+  });
+
+  it('skips empty batches', async () => {
+    await recordFlagEvaluations('tenant-1', []);
+
+    expect(mockCreateMany).not.toHaveBeenCalled();
+  });
+
+  it('swallows storage errors so evaluation is never affected', async () => {
+    mockCreateMany.mockRejectedValue(new Error('connection lost'));
+    const consoleError = vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    await expect(
+      recordFlagEvaluations('tenant-1', [{ flagId: 'flag-1', environment: 'DEV', userId: 'bob', enabled: true }])
+    ).resolves.toBeUndefined();
+
+    expect(consoleError).toHaveBeenCalled();
+    consoleError.mockRestore();
+  });
+});
+
+describe('summarizeEvaluations', () => {
+  it('builds an hourly series with a slot for every hour in the window', () => {
+    const insights = summarizeEvaluations(
+      [
+        bucket('2026-01-10T10:00:00.000Z', { count: 3 }),
+        bucket('2026-01-10T10:00:00.000Z', { enabled: false, count: 2 }),
+        bucket('2026-01-10T12:00:00.000Z', { count: 4 }),
+      ],
+      from,
+      3
+    );
+
+    expect(insights.series).toEqual([
+      { hour: '2026-01-10T10:00:00.000Z', evaluations: 5, enabled: 3 },
+      { hour: '2026-01-10T11:00:00.000Z', evaluations: 0, enabled: 0 },
+      { hour: '2026-01-10T12:00:00.000Z', evaluations: 4, enabled: 4 },
+    ]);
+    expect(insights.totals).toEqual({ evaluations: 9, enabled: 7, disabled: 2 });
+  });
+
+  it('merges rollups and pending events for the same hour', () => {
+    const insights = summarizeEvaluations(
+      [
+        bucket('2026-01-10T10:00:00.000Z', { ruleIndex: 0, count: 10 }),
+        bucket('2026-01-10T10:00:00.000Z', { ruleIndex: 0, count: 5 }),
+      ],
+      from,
+      1
+    );
+
+    expect(insights.series[0].evaluations).toBe(15);
+    expect(insights.rules).toEqual([{ ruleIndex: 0, count: 15 }]);
+  });
+
+  it('counts hits per rule, including the default rule, and per variant', () => {
+    const insights = summarizeEvaluations(
+      [
+        bucket('2026-01-10T10:00:00.000Z', { ruleIndex: 1, variant: 'green', count: 2 }),
+        bucket('2026-01-10T10:00:00.000Z', { ruleIndex: -1, variant: 'blue', count: 5 }),
+        bucket('2026-01-10T11:00:00.000Z', { ruleIndex: 0, variant: 'blue', count: 1 }),
+      ],
+      from,
+      2
+    );
+
+    expect(insights.rules).toEqual([
+      { ruleIndex: -1, count: 5 },
+      { ruleIndex: 0, count: 1 },
+      { ruleIndex: 1, count: 2 },
+    ]);
+    expect(insights.variants).toEqual([
+      { variant: 'blue', count: 6 },
+      { variant: 'green', count: 2 },
+    ]);
+  });
+
+  it('ignores buckets outside the window', () => {
+    const insights = summarizeEvaluations(
+      [bucket('2026-01-10T09:00:00.000Z', { count: 7 }), bucket('2026-01-10T11:00:00.000Z', { count: 7 })],
+      from,
+      1
+    );
+
+    expect(insights.totals.evaluations).toBe(0);
+    expect(insights.rules).toEqual([]);
+  });
+});
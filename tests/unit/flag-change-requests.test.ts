@@ -0,0 +1,219 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+
+const mockFindFirst = vi.fn();
+const mockUpdateMany = vi.fn();
+const mockUpdate = vi.fn();
+const mockFindUniqueOrThrow = vi.fn();
+const mockMembershipFindFirst = vi.fn();
+const mockAuditCreate = vi.fn();
+const mockApplyFlagPatch = vi.fn();
+const mockCreate = vi.fn();
+const mockFlagFindFirst = vi.fn();
+const mockTenantFindUnique = vi.fn();
+
+vi.mock('@/lib/prisma', () => {
+  const flagChangeRequest = {
+    findFirst: (args: unknown) => mockFindFirst(args),
+    updateMany: (args: unknown) => mockUpdateMany(args),
+    update: (args: unknown) => mockUpdate(args),
+    findUniqueOrThrow: (args: unknown) => mockFindUniqueOrThrow(args),
+    create: (args: unknown) => mockCreate(args),
+  };
+  const client = {
+    flagChangeRequest,
+    featureFlag: { findFirst: (args: unknown) => mockFlagFindFirst(args) },
+    tenant: { findUnique: (args: unknown) => mockTenantFindUnique(args) },
+    membership: { findFirst: (args: unknown) => mockMembershipFindFirst(args) },
+    auditLog: { create: (args: unknown) => mockAuditCreate(args) },
+  };
+  return {
+    prisma: { ...client, $transaction: (fn: (tx: unknown) => unknown) => fn(client) },
+  };
+});
+
+vi.mock('@/lib/flag-updates', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@/lib/flag-updates')>()),
+  applyFlagPatch: (...args: unknown[]) => mockApplyFlagPatch(...args),
+}));
+
+import {
+  approvalConflict,
+  approveFlagChangeRequest,
+  holdForApproval,
+  previewRequestedChange,
+  rejectFlagChangeRequest,
+} from '@/lib/flag-change-requests';
+import type { FlagRevisionSnapshot } from '@/lib/flag-revisions';
+
+const allowlist = { id: 'rule-1', type: 'ALLOWLIST', condition: { type: 'ALLOWLIST', userIds: ['alice'] }, serve: null, order: 0 };
+
+const snapshot: FlagRevisionSnapshot = {
+  name: 'New Checkout',
+  key: 'new-checkout',
+  description: null,
+  enabled: false,
+  environment: 'PROD',
+  rolloutPercentage: 0,
+  variants: [],
+  defaultServe: null,
+  offVariant: null,
+  rules: [allowlist],
+};
+
+function changeRequest(overrides: Record<string, unknown> = {}) {
+  return {
+    id: 'request-1',
+    tenantId: 'tenant-1',
+    flagId: 'flag-1',
+    change: { type: 'update', patch: { enabled: true } },
+    status: 'PENDING',
+    authorId: 'user-1',
+    ...overrides,
+  };
+}
+
+describe('Flag change request previews', () => {
+  it('should apply patched fields and leave the rest alone', () => {
+    const after = previewRequestedChange(snapshot, { type: 'update', patch: { enabled: true, rolloutPercentage: 25 } });
+
+    expect(after).toEqual({ ...snapshot, enabled: true, rolloutPercentage: 25 });
+  });
+
+  it('should append added rules after the existing ones', () => {
+    const after = previewRequestedChange(snapshot, {
+      type: 'add_rule',
+      rule: { condition: { type: 'PERCENT_ROLLOUT', percentage: 10 } },
+    });
+
+    expect(after.rules).toHaveLength(2);
+    expect(after.rules[1]).toMatchObject({ type: 'PERCENT_ROLLOUT', order: 1 });
+  });
+
+  it('should drop deleted rules', () => {
+    const after = previewRequestedChange(snapshot, { type: 'delete_rule', ruleId: 'rule-1' });
+
+    expect(after.rules).toEqual([]);
+  });
+});
+
+describe('Flag change request reviews', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockFindFirst.mockResolvedValue(changeRequest());
+    mockMembershipFindFirst.mockResolvedValue({ role: 'ADMIN' });
+    mockUpdateMany.mockResolvedValue({ count: 1 });
+    mockFindUniqueOrThrow.mockResolvedValue(changeRequest({ status: 'APPROVED', reviewerId: 'user-2' }));
+    mockApplyFlagPatch.mockResolvedValue({ success: true, flag: { id: 'flag-1' } });
+  });
+
+  it('should apply the change on behalf of the author when approved', async () => {
+    const result = await approveFlagChangeRequest('tenant-1', 'flag-1', 'request-1', 'user-2');
+
+    expect(result.success).toBe(true);
+    expect(mockApplyFlagPatch).toHaveBeenCalledWith(
+      'tenant-1',
+      'flag-1',
+      { enabled: true },
+      { actorId: 'user-1', metadata: { changeRequestId: 'request-1', approvedById: 'user-2' } }
+    );
+    expect(mockAuditCreate).toHaveBeenCalledWith({
+      data: expect.objectContaining({ action: 'APPROVE_CHANGE', actorId: 'user-2' }),
+    });
+  });
+
+  it('should not let authors approve their own changes', async () => {
+    const result = await approveFlagChangeRequest('tenant-1', 'flag-1', 'request-1', 'user-1');
+
+    expect(result).toMatchObject({ success: false, status: 403 });
+    expect(mockApplyFlagPatch).not.toHaveBeenCalled();
+  });
+
+  it('should require an admin reviewer', async () => {
+    mockMembershipFindFirst.mockResolvedValue({ role: 'ENGINEER' });
+
+    const result = await rejectFlagChangeRequest('tenant-1', 'flag-1', 'request-1', 'user-2', 'Not now');
+
+    expect(result).toEqual({ success: false, status: 403, error: 'Only admins can review change requests' });
+  });
+
+  it('should keep the request pending when the change no longer applies', async () => {
+    mockApplyFlagPatch.mockResolvedValue({ success: false, status: 404, error: 'Feature flag not found' });
+
+    const result = await approveFlagChangeRequest('tenant-1', 'flag-1', 'request-1', 'user-2');
+
+    expect(result).toEqual({ success: false, status: 404, error: 'Feature flag not found' });
+    expect(mockUpdate).toHaveBeenCalledWith({
+      where: { id: 'request-1' },
+      data: expect.objectContaining({ status: 'PENDING', error: 'Feature flag not found' }),
+    });
+    expect(mockAuditCreate).not.toHaveBeenCalled();
+  });
+
+  it('should hand the request back for review when applying throws', async () => {
+    mockApplyFlagPatch.mockRejectedValue(new Error('connection reset'));
+
+    await expect(approveFlagChangeRequest('tenant-1', 'flag-1', 'request-1', 'user-2')).rejects.toThrow(
+      'connection reset'
+    );
+    expect(mockUpdate).toHaveBeenCalledWith({
+      where: { id: 'request-1' },
+      data: { status: 'PENDING', reviewerId: null, reviewComment: null, reviewedAt: null, error: 'Failed to apply change' },
+    });
+    expect(mockAuditCreate).not.toHaveBeenCalled();
+  });
+
+  it('should record the comment when rejecting', async () => {
+    mockFindUniqueOrThrow.mockResolvedValue(changeRequest({ status: 'REJECTED' }));
+
+    const result = await rejectFlagChangeRequest('tenant-1', 'flag-1', 'request-1', 'user-2', 'Too risky on Friday');
+
+    expect(result.success).toBe(true);
+    expect(mockUpdateMany).toHaveBeenCalledWith({
+      where: { id: 'request-1', tenantId: 'tenant-1', status: 'PENDING' },
+      data: expect.objectContaining({ status: 'REJECTED', reviewerId: 'user-2', reviewComment: 'Too risky on Friday' }),
+    });
+    expect(mockAuditCreate).toHaveBeenCalledWith({
+      data: expect.objectContaining({ action: 'REJECT_CHANGE', metadata: { changeRequestId: 'request-1', comment: 'Too risky on Friday' } }),
+    });
+  });
+});
+
+describe('Flag change request holds', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockTenantFindUnique.mockResolvedValue({ flagApprovalEnvironments: ['PROD'] });
+    mockCreate.mockImplementation(({ data }) => Promise.resolve({ id: 'request-1', ...data }));
+  });
+
+  it('should hold a revert of a flag that requires approval', async () => {
+    mockFlagFindFirst.mockResolvedValue({ environment: 'PROD' });
+
+    const held = await holdForApproval('tenant-1', 'flag-1', { type: 'revert', version: 3 }, 'user-1');
+
+    expect(held).toMatchObject({ flagId: 'flag-1', change: { type: 'revert', version: 3 }, authorId: 'user-1' });
+  });
+
+  it('should hold a promotion into an environment that requires approval', async () => {
+    mockFlagFindFirst.mockResolvedValue({ environment: 'STAGING' });
+
+    const held = await holdForApproval('tenant-1', 'flag-1', { type: 'promote' }, 'user-1');
+
+    expect(held).toMatchObject({ flagId: 'flag-1', change: { type: 'promote' } });
+  });
+
+  it('should let a promotion into an environment without approval through', async () => {
+    mockFlagFindFirst.mockResolvedValue({ environment: 'DEV' });
+
+    const held = await holdForApproval('tenant-1', 'flag-1', { type: 'promote' }, 'user-1');
+
+    expect(held).toBeNull();
+    expect(mockCreate).not.toHaveBeenCalled();
+  });
+
+  it('should refuse deletes, schedules and rollout plans that can\'t be held for review', async () => {
+    await expect(approvalConflict('tenant-1', 'PROD', 'delete flag')).resolves.toBe(
+      'Cannot delete flag: changes to PROD flags require approval'
+    );
+    await expect(approvalConflict('tenant-1', 'STAGING', 'schedule changes')).resolves.toBeNull();
+  });
+});
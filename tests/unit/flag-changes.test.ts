@@ -0,0 +1,63 @@
+import { describe, it, expect, vi } from 'vitest';
+
+const mockFindMany = vi.fn();
+
+vi.mock('@/lib/prisma', () => ({
+  prisma: {
+    flagChangeEvent: {
+      findMany: (args: unknown) => mockFindMany(args),
+    },
+  },
+}));
+
+import { recordFlagChange, getFlagChangesSince } from '@/lib/flag-changes';
+
+function createTx(currentVersion: number) {
+  return {
+    rulesetVersion: {
+      upsert: vi.fn().mockResolvedValue({ version: currentVersion + 1 }),
+    },
+    flagChangeEvent: {
+      create: vi.fn().mockImplementation(({ data }) => Promise.resolve({ id: 42, ...data })),
+    },
+  };
+}
+
+describe('Flag change events', () => {
+  it('should bump the environment version and record the event with it', async () => {
+    const tx = createTx(6);
+
+    const event = await recordFlagChange(tx as never, 'tenant-1', {
+      type: 'rule_changed',
+      environment: 'PROD',
+      flagId: 'flag-1',
+      flagKey: 'new-checkout',
+    });
+
+    expect(tx.rulesetVersion.upsert).toHaveBeenCalledWith({
+      where: { tenantId_environment: { tenantId: 'tenant-1', environment: 'PROD' } },
+      create: { tenantId: 'tenant-1', environment: 'PROD', version: 1 },
+      update: { version: { increment: 1 } },
+    });
+    expect(event).toMatchObject({
+      id: 42,
+      tenantId: 'tenant-1',
+      environment: 'PROD',
+      type: 'rule_changed',
+      flagKey: 'new-checkout',
+      version: 7,
+    });
+  });
+
+  it('should replay events after the last seen id in order', async () => {
+    mockFindMany.mockResolvedValueOnce([]);
+
+    await getFlagChangesSince('tenant-1', 'STAGING', 10);
+
+    expect(mockFindMany).toHaveBeenCalledWith({
+      where: { tenantId: 'tenant-1', environment: 'STAGING', id: { gt: 10 } },
+      orderBy: { id: 'asc' },
+      take: 100,
+    });
+  });
+});
@@ -0,0 +1,229 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+
+const mockFindMany = vi.fn();
+const mockRollupGroupBy = vi.fn();
+const mockEventGroupBy = vi.fn();
+const mockCountCodeReferences = vi.fn();
+
+vi.mock('@/lib/prisma', () => ({
+  prisma: {
+    featureFlag: {
+      findMany: (args: unknown) => mockFindMany(args),
+    },
+    flagEvaluationRollup: {
+      groupBy: (args: unknown) => mockRollupGroupBy(args),
+    },
+    flagEvaluationEvent: {
+      groupBy: (args: unknown) => mockEventGroupBy(args),
+    },
+  },
+}));
+
+vi.mock('@/lib/code-references', () => ({
+  countCodeReferences: (tenantId: string) => mockCountCodeReferences(tenantId),
+}));
+
+import { buildFlagCleanupReport, classifyFlag, groupCleanupByRecipient } from '@/lib/flag-cleanup';
+
+const now = new Date('2026-03-01T12:00:00.000Z');
+const longAgo = new Date('2026-01-01T00:00:00.000Z');
+const recently = new Date('2026-02-25T00:00:00.000Z');
+
+function candidate(overrides: Record<string, unknown> = {}) {
+  return {
+    lifetime: 'TEMPORARY' as const,
+    enabled: true,
+    rolloutPercentage: 50,
+    ruleCount: 1,
+    createdAt: longAgo,
+    lastChangedAt: recently,
+    lastEvaluatedAt: recently,
+    exposuresReported: true,
+    ...overrides,
+  };
+}
+
+describe('classifyFlag', () => {
+  it('never reports permanent flags', () => {
+    const result = classifyFlag(candidate({ lifetime: 'PERMANENT', lastChangedAt: longAgo, lastEvaluatedAt: null }), now);
+
+    expect(result.status).toBe('permanent');
+  });
+
+  it('reports flags without evaluations in the window as unused', () => {
+    expect(classifyFlag(candidate({ lastEvaluatedAt: null }), now).status).toBe('unused');
+    expect(classifyFlag(candidate({ lastEvaluatedAt: longAgo }), now).status).toBe('unused');
+  });
+
+  it('does not call flags unused where no exposures are reported', () => {
+    const result = classifyFlag(candidate({ lastEvaluatedAt: null, exposuresReported: false }), now);
+
+    expect(result.status).toBe('active');
+  });
+
+  it('gives new flags the whole window before calling them unused', () => {
+    const result = classifyFlag(candidate({ createdAt: recently, lastEvaluatedAt: null }), now);
+
+    expect(result.status).toBe('active');
+  });
+
+  it('reports flags serving everyone for the whole window as fully rolled out', () => {
+    const result = classifyFlag(
+      candidate({ rolloutPercentage: 100, ruleCount: 0, lastChangedAt: longAgo }),
+      now
+    );
+
+    expect(result.status).toBe('fully_rolled_out');
+  });
+
+  it('reports flags that are off or at 0% for the whole window as stale', () => {
+    expect(classifyFlag(candidate({ enabled: false, lastChangedAt: longAgo }), now)).toEqual({
+      status: 'stale',
+      reason: 'Served to no one for over 30 days',
+    });
+    expect(classifyFlag(candidate({ rolloutPercentage: 0, ruleCount: 0, lastChangedAt: longAgo }), now).status).toBe(
+      'stale'
+    );
+  });
+
+  it('honours a custom window', () => {
+    const lastChangedAt = new Date('2026-02-20T00:00:00.000Z');
+
+    expect(classifyFlag(candidate({ lastChangedAt }), now, 30).status).toBe('active');
+    expect(classifyFlag(candidate({ lastChangedAt }), now, 7).status).toBe('stale');
+  });
+});
+
+describe('buildFlagCleanupReport', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockRollupGroupBy.mockResolvedValue([]);
+    mockEventGroupBy.mockResolvedValue([]);
+    mockCountCodeReferences.mockResolvedValue(null);
+  });
+
+  it('counts rule edits and pending evaluation events as activity', async () => {
+    mockFindMany.mockResolvedValue([
+      {
+        id: 'flag-1',
+        key: 'checkout',
+        name: 'Checkout',
+        environment: 'PROD',
+        ownerId: 'user-1',
+        lifetime: 'TEMPORARY',
+        enabled: true,
+        rolloutPercentage: 50,
+        createdAt: longAgo,
+        updatedAt: longAgo,
+        rules: [{ updatedAt: recently }],
+      },
+    ]);
+    mockRollupGroupBy.mockResolvedValue([{ flagId: 'flag-1', _max: { hour: longAgo } }]);
+    mockEventGroupBy.mockResolvedValue([{ flagId: 'flag-1', _max: { createdAt: recently } }]);
+
+    const report = await buildFlagCleanupReport('tenant-1', now);
+
+    expect(report.flags[0]).toMatchObject({
+      flagId: 'flag-1',
+      status: 'active',
+      removable: false,
+      lastChangedAt: recently.toISOString(),
+      lastEvaluatedAt: recently.toISOString(),
+    });
+    expect(report.counts.active).toBe(1);
+  });
+
+  it('marks stale, fully rolled out and unused flags as removable', async () => {
+    const base = { name: 'Flag', environment: 'DEV', ownerId: null, lifetime: 'TEMPORARY', createdAt: longAgo, updatedAt: longAgo };
+    mockFindMany.mockResolvedValue([
+      { ...base, id: 'flag-1', key: 'off', enabled: false, rolloutPercentage: 0, rules: [] },
+      { ...base, id: 'flag-2', key: 'on', enabled: true, rolloutPercentage: 100, rules: [] },
+      { ...base, id: 'flag-3', key: 'kill-switch', lifetime: 'PERMANENT', enabled: true, rolloutPercentage: 100, rules: [] },
+    ]);
+    mockEventGroupBy.mockResolvedValue([
+      { flagId: 'flag-1', _max: { createdAt: recently } },
+      { flagId: 'flag-2', _max: { createdAt: recently } },
+    ]);
+
+    const report = await buildFlagCleanupReport('tenant-1', now);
+
+    expect(report.flags.map((flag) => [flag.key, flag.status, flag.removable])).toEqual([
+      ['off', 'stale', true],
+      ['on', 'fully_rolled_out', true],
+      ['kill-switch', 'permanent', false],
+    ]);
+    expect(report.flags.every((flag) => flag.codeReferences === null && !flag.safeToDelete)).toBe(true);
+  });
+
+  it('marks removable flags without code references as safe to delete once a repository is scanned', async () => {
+    const base = { name: 'Flag', environment: 'PROD', ownerId: null, lifetime: 'TEMPORARY', createdAt: longAgo, updatedAt: longAgo };
+    mockFindMany.mockResolvedValue([
+      { ...base, id: 'flag-1', key: 'old-banner', enabled: false, rolloutPercentage: 0, rules: [] },
+      { ...base, id: 'flag-2', key: 'old-checkout', enabled: false, rolloutPercentage: 0, rules: [] },
+    ]);
+    mockCountCodeReferences.mockResolvedValue(new Map([['old-checkout', 3]]));
+
+    const report = await buildFlagCleanupReport('tenant-1', now);
+
+    expect(report.flags.map((flag) => [flag.key, flag.codeReferences, flag.safeToDelete])).toEqual([
+      ['old-banner', 0, true],
+      ['old-checkout', 3, false],
+    ]);
+  });
+
+  it('only reports unused flags in environments with exposures in the window', async () => {
+    const base = { name: 'Flag', ownerId: null, lifetime: 'TEMPORARY', enabled: true, rolloutPercentage: 50, createdAt: longAgo, updatedAt: recently, rules: [] };
+    mockFindMany.mockResolvedValue([
+      { ...base, id: 'flag-1', key: 'served', environment: 'PROD' },
+      { ...base, id: 'flag-2', key: 'silent', environment: 'PROD' },
+      { ...base, id: 'flag-3', key: 'silent', environment: 'STAGING' },
+      { ...base, id: 'flag-4', key: 'retired', environment: 'DEV' },
+    ]);
+    mockRollupGroupBy.mockResolvedValue([
+      { flagId: 'flag-1', _max: { hour: recently } },
+      { flagId: 'flag-4', _max: { hour: longAgo } },
+    ]);
+
+    const report = await buildFlagCleanupReport('tenant-1', now);
+
+    expect(report.flags.map((flag) => [flag.key, flag.environment, flag.status])).toEqual([
+      ['served', 'PROD', 'active'],
+      ['silent', 'PROD', 'unused'],
+      ['silent', 'STAGING', 'active'],
+      ['retired', 'DEV', 'active'],
+    ]);
+  });
+});
+
+describe('groupCleanupByRecipient', () => {
+  it('notifies owners, and every admin for unowned flags', () => {
+    const entry = (flagId: string, ownerId: string | null, removable = true) => ({
+      flagId,
+      key: flagId,
+      name: flagId,
+      environment: 'PROD' as const,
+      ownerId,
+      status: removable ? ('stale' as const) : ('active' as const),
+      removable,
+      reason: '',
+      lastChangedAt: longAgo.toISOString(),
+      lastEvaluatedAt: null,
+      codeReferences: null,
+      safeToDelete: false,
+    });
+
+    const recipients = groupCleanupByRecipient(
+      {
+        generatedAt: now.toISOString(),
+        staleAfterDays: 30,
+        counts: { active: 1, permanent: 0, stale: 3, fully_rolled_out: 0, unused: 0 },
+        flags: [entry('a', 'user-1'), entry('b', null), entry('c', 'user-1'), entry('d', 'user-2', false)],
+      },
+      ['admin-1', 'admin-2']
+    );
+
+    expect([...recipients.keys()].sort()).toEqual(['admin-1', 'admin-2', 'user-1']);
+    expect(recipients.get('user-1')!.map((e) => e.flagId)).toEqual(['a', 'c']);
+    expect(recipients.get('admin-1')!.map((e) => e.flagId)).toEqual(['b']);
+  });
+});
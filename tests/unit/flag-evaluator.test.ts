@@ -0,0 +1,241 @@
+import { describe, it, expect, vi } from 'vitest';
+
+vi.mock('@/lib/prisma', () => ({ prisma: {} }));
+
+import { evaluateAllFlags, LocalEvaluator, verifySnapshotSignature } from '@next-ops/flag-evaluator';
+import { createFlagSnapshot, signSnapshot } from '@/lib/flag-snapshots';
+import { hashSdkKey } from '@/lib/sdk-keys';
+
+// Shaped like rows from findTenantFlags, including fields evaluation ignores
+const flags = [
+  {
+    id: 'flag-1',
+    key: 'new-checkout',
+    enabled: true,
+    environment: 'PROD',
+    rolloutPercentage: 25,
+    createdAt: new Date(),
+    variants: [
+      { key: 'control', value: 'v1' },
+      { key: 'treatment', value: 'v2' },
+    ],
+    defaultServe: { split: [{ variant: 'control', weight: 50 }, { variant: 'treatment', weight: 50 }] },
+    offVariant: 'control',
+    rules: [
+      { id: 'rule-1', condition: { type: 'SEGMENT', segmentId: 'seg-1' }, serve: { variant: 'treatment' } },
+      { id: 'rule-2', condition: { type: 'ATTRIBUTE', attribute: 'plan', operator: 'IN', values: ['pro'] }, serve: null },
+    ],
+  },
+  {
+    id: 'flag-3',
+    key: 'checkout-export',
+    enabled: true,
+    environment: 'PROD',
+    rolloutPercentage: 0,
+    createdAt: new Date(),
+    variants: [],
+    defaultServe: null,
+    offVariant: null,
+    rules: [
+      { id: 'rule-3', condition: { type: 'PREREQUISITE', flagKey: 'new-checkout', enabled: true, variant: 'treatment' }, serve: null },
+    ],
+  },
+  {
+    id: 'flag-2',
+    key: 'dark-mode',
+    enabled: false,
+    environment: 'PROD',
+    rolloutPercentage: 100,
+    createdAt: new Date(),
+    variants: [],
+    defaultServe: null,
+    offVariant: null,
+    rules: [],
+  },
+];
+
+const segments = {
+  'seg-1': { id: 'seg-1', name: 'Beta', userIds: ['user-7'], conditions: [], tenantId: 'tenant-1' },
+};
+
+const contexts = [
+  { userId: 'user-7' },
+  { userId: 'user-42', attributes: { plan: 'pro' } },
+  ...Array.from({ length: 50 }, (_, i) => ({ userId: `user-${i}`, attributes: { plan: 'free' } })),
+];
+
+function loadEvaluator(options: { reportExposures?: boolean; fetch?: typeof fetch } = {}) {
+  const snapshot = createFlagSnapshot(3, 'PROD', flags, segments);
+  const evaluator = new LocalEvaluator({ baseUrl: 'http://localhost', sdkKey: 'srv-prod-test', signingSecret: 'secret', ...options });
+  // Round-trip through JSON as a real client would receive it
+  evaluator.load(JSON.parse(JSON.stringify(snapshot)));
+  return evaluator;
+}
+
+describe('Local flag evaluation', () => {
+  it('should produce byte-identical results to remote evaluation', () => {
+    const evaluator = loadEvaluator();
+
+    for (const context of contexts) {
+      const remote = evaluateAllFlags(flags, { ...context, environment: 'PROD' }, { segments }, { includeTrace: true });
+      const local = evaluator.evaluateAll(context, { includeTrace: true });
+      expect(JSON.stringify(local)).toBe(JSON.stringify(remote));
+    }
+  });
+
+  it('should evaluate a single flag without traces by default', () => {
+    const evaluator = loadEvaluator();
+
+    const result = evaluator.evaluate('new-checkout', { userId: 'user-7' });
+
+    expect(result).toEqual({
+      enabled: true,
+      reason: 'Matched rule 1',
+      reasonKind: 'rule_match',
+      variant: 'treatment',
+      value: 'v2',
+      ruleIndex: 0,
+    });
+    expect(evaluator.evaluate('checkout-export', { userId: 'user-7' })?.enabled).toBe(true);
+    expect(evaluator.evaluate('missing', { userId: 'user-7' })).toBeUndefined();
+  });
+
+  it('should ignore snapshots older than the loaded one', () => {
+    const evaluator = loadEvaluator();
+
+    evaluator.load(createFlagSnapshot(2, 'PROD', [], {}));
+
+    expect(evaluator.version).toBe(3);
+    expect(evaluator.evaluate('dark-mode', { userId: 'user-1' })).toBeDefined();
+  });
+
+  it('should throw before a snapshot is loaded', () => {
+    const evaluator = new LocalEvaluator({ baseUrl: 'http://localhost', sdkKey: 'srv-prod-test', signingSecret: 'secret' });
+    expect(evaluator.loaded).toBe(false);
+    expect(() => evaluator.evaluateAll({ userId: 'user-1' })).toThrow('No flag snapshot loaded');
+
+    evaluator.load(createFlagSnapshot(0, 'PROD', [], {}));
+    expect(evaluator.loaded).toBe(true);
+  });
+});
+
+describe('Exposure reporting', () => {
+  function exposuresResponse() {
+    return vi.fn(async (_url: URL | RequestInfo, init?: RequestInit) =>
+      Response.json({ recorded: JSON.parse(init!.body as string).exposures.length }, { status: 202 })
+    );
+  }
+
+  it('should send served flags per user and leave evaluateAll() unreported', async () => {
+    const fetchMock = exposuresResponse();
+    const evaluator = loadEvaluator({ reportExposures: true, fetch: fetchMock });
+
+    evaluator.evaluateAll({ userId: 'user-1' });
+    evaluator.evaluate('new-checkout', { userId: 'user-7' });
+    evaluator.evaluate('dark-mode', { userId: 'user-7' });
+    evaluator.evaluate('dark-mode', { userId: 'user-8' });
+    evaluator.evaluate('missing', { userId: 'user-8' });
+
+    expect(await evaluator.flushExposures()).toBe(3);
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+    expect(fetchMock.mock.calls[0][0].toString()).toBe('http://localhost/api/sdk/exposures');
+    expect(fetchMock.mock.calls[0][1]).toMatchObject({
+      method: 'POST',
+      headers: { Authorization: 'Bearer srv-prod-test' },
+    });
+    expect(JSON.parse(fetchMock.mock.calls[0][1]!.body as string)).toEqual({
+      userId: 'user-7',
+      exposures: [
+        { flagKey: 'new-checkout', enabled: true, ruleIndex: 0, variant: 'treatment' },
+        { flagKey: 'dark-mode', enabled: false },
+      ],
+    });
+
+    expect(await evaluator.flushExposures()).toBe(0);
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+  });
+
+  it('should split a user\'s exposures into requests of 100', async () => {
+    const fetchMock = exposuresResponse();
+    const evaluator = loadEvaluator({ reportExposures: true, fetch: fetchMock });
+
+    for (let i = 0; i < 150; i++) {
+      evaluator.evaluate('dark-mode', { userId: 'user-1' });
+    }
+
+    expect(await evaluator.flushExposures()).toBe(150);
+    expect(fetchMock.mock.calls.map(([, init]) => JSON.parse(init!.body as string).exposures.length)).toEqual([100, 50]);
+  });
+
+  it('should queue nothing unless reporting is enabled', async () => {
+    const fetchMock = exposuresResponse();
+    const evaluator = loadEvaluator({ fetch: fetchMock });
+
+    evaluator.evaluate('dark-mode', { userId: 'user-1' });
+
+    expect(await evaluator.flushExposures()).toBe(0);
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+
+  it('should drop a batch the server rejects', async () => {
+    const fetchMock = vi.fn().mockResolvedValue(new Response(null, { status: 503 }));
+    const evaluator = loadEvaluator({ reportExposures: true, fetch: fetchMock });
+
+    evaluator.evaluate('dark-mode', { userId: 'user-1' });
+
+    await expect(evaluator.flushExposures()).rejects.toThrow('Failed to report flag exposures: 503');
+    expect(await evaluator.flushExposures()).toBe(0);
+  });
+});
+
+describe('Snapshot refresh', () => {
+  const sdkKey = 'srv-prod-test';
+  const signingSecret = 'signing-secret';
+
+  function snapshotResponse(version: number, signWith = signingSecret) {
+    const body = JSON.stringify(createFlagSnapshot(version, 'PROD', flags, segments));
+    return new Response(body, {
+      status: 200,
+      headers: { 'X-Snapshot-Signature': `sha256=${signSnapshot(body, signWith)}` },
+    });
+  }
+
+  it('should verify signatures made by the server', () => {
+    const body = '{"version":1}';
+    const signature = `sha256=${signSnapshot(body, signingSecret)}`;
+
+    expect(verifySnapshotSignature(body, signature, signingSecret)).toBe(true);
+    expect(verifySnapshotSignature('{"version":2}', signature, signingSecret)).toBe(false);
+    expect(verifySnapshotSignature(body, signature, 'other-secret')).toBe(false);
+    expect(verifySnapshotSignature(body, null, signingSecret)).toBe(false);
+  });
+
+  it('should not accept signatures anyone holding the key could make', () => {
+    const body = '{"version":1}';
+    const forged = `sha256=${signSnapshot(body, hashSdkKey(sdkKey))}`;
+
+    expect(verifySnapshotSignature(body, forged, signingSecret)).toBe(false);
+  });
+
+  it('should ask for changes since the loaded version', async () => {
+    const fetchMock = vi.fn()
+      .mockResolvedValueOnce(snapshotResponse(5))
+      .mockResolvedValueOnce(new Response(null, { status: 304 }));
+    const evaluator = new LocalEvaluator({ baseUrl: 'http://localhost', sdkKey, signingSecret, fetch: fetchMock });
+
+    expect(await evaluator.refresh()).toBe(true);
+    expect(await evaluator.refresh()).toBe(false);
+
+    expect(evaluator.version).toBe(5);
+    expect(fetchMock.mock.calls[0][0].toString()).toBe('http://localhost/api/sdk/snapshot');
+    expect(fetchMock.mock.calls[1][0].toString()).toBe('http://localhost/api/sdk/snapshot?since=5');
+  });
+
+  it('should reject snapshots with an invalid signature', async () => {
+    const fetchMock = vi.fn().mockResolvedValueOnce(snapshotResponse(5, 'other-secret'));
+    const evaluator = new LocalEvaluator({ baseUrl: 'http://localhost', sdkKey, signingSecret, fetch: fetchMock });
+
+    await expect(evaluator.refresh()).rejects.toThrow('signature is invalid');
+    expect(evaluator.version).toBe(0);
+  });
+});
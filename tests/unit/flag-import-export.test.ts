@@ -0,0 +1,246 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+
+const mockFlagFindMany = vi.fn();
+const mockGraphFindMany = vi.fn();
+const mockSegmentFindMany = vi.fn();
+const mockTransaction = vi.fn();
+const mockTenantFindUnique = vi.fn();
+
+vi.mock('@/lib/prisma', () => ({
+  prisma: {
+    featureFlag: {
+      // getPrerequisiteGraph selects keys and rules, the import planner includes full rules
+      findMany: (args: { select?: unknown }) => (args.select ? mockGraphFindMany(args) : mockFlagFindMany(args)),
+    },
+    segment: {
+      findMany: (args: unknown) => mockSegmentFindMany(args),
+    },
+    tenant: {
+      findUnique: (args: unknown) => mockTenantFindUnique(args),
+    },
+    $transaction: (...args: unknown[]) => mockTransaction(...args),
+  },
+}));
+
+import { importFlags, parseFlagImport, planFlagImport, serializeFlagExport, type FlagExport } from '@/lib/flag-import-export';
+
+const checkoutConfig = {
+  enabled: true,
+  rolloutPercentage: 50,
+  variants: [],
+  defaultServe: null,
+  offVariant: null,
+  rules: [{ condition: { type: 'ALLOWLIST', userIds: ['alice'] }, serve: null }],
+};
+
+function document(flags: Record<string, unknown>[]): FlagExport {
+  const parsed = parseFlagImport(JSON.stringify({ version: 1, flags }), 'json');
+  if (!parsed.success) throw new Error(parsed.error);
+  return parsed.document;
+}
+
+function existingFlag(overrides: Record<string, unknown> = {}) {
+  return {
+    id: 'flag-prod',
+    key: 'new-checkout',
+    name: 'New Checkout',
+    description: null,
+    lifetime: 'TEMPORARY',
+    enabled: true,
+    environment: 'PROD',
+    rolloutPercentage: 50,
+    variants: [],
+    defaultServe: null,
+    offVariant: null,
+    rules: [{ id: 'rule-1', type: 'ALLOWLIST', condition: { type: 'ALLOWLIST', userIds: ['alice'] }, serve: null, order: 0 }],
+    ...overrides,
+  };
+}
+
+describe('parseFlagImport', () => {
+  const exported = {
+    version: 1,
+    flags: [{ key: 'new-checkout', name: 'New Checkout', environments: { PROD: checkoutConfig } }],
+  };
+
+  it('round-trips JSON and YAML exports', () => {
+    const json = parseFlagImport(JSON.stringify(exported), 'json');
+    expect(json.success).toBe(true);
+    if (!json.success) return;
+
+    const yaml = parseFlagImport(serializeFlagExport(json.document, 'yaml'), 'yaml');
+    expect(yaml).toEqual(json);
+    expect(json.document.flags[0]).toMatchObject({ description: null, lifetime: 'TEMPORARY' });
+  });
+
+  it('rejects unparseable documents', () => {
+    const result = parseFlagImport('flags: [', 'yaml');
+
+    expect(result.success).toBe(false);
+    if (result.success) return;
+    expect(result.error).toMatch(/^Invalid YAML/);
+  });
+
+  it('validates rules with the flag rule schema and reports where', () => {
+    const invalid = structuredClone(exported);
+    invalid.flags[0].environments.PROD.rules = [{ condition: { type: 'PERCENT_ROLLOUT', percentage: 150 } as never, serve: null }];
+
+    const result = parseFlagImport(JSON.stringify(invalid), 'json');
+
+    expect(result.success).toBe(false);
+    if (result.success) return;
+    expect(result.error).toMatch(/^flags\.0\.environments\.PROD\.rules\.0\.condition/);
+  });
+
+  it('rejects duplicate keys', () => {
+    const result = parseFlagImport(JSON.stringify({ version: 1, flags: [exported.flags[0], exported.flags[0]] }), 'json');
+
+    expect(result).toEqual({ success: false, error: 'Flag "new-checkout" appears more than once' });
+  });
+});
+
+describe('planFlagImport', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockFlagFindMany.mockResolvedValue([]);
+    mockGraphFindMany.mockResolvedValue([]);
+    mockSegmentFindMany.mockResolvedValue([]);
+  });
+
+  it('reports creates, updates and unchanged flags per environment', async () => {
+    mockFlagFindMany.mockResolvedValue([existingFlag(), existingFlag({ id: 'flag-dev', environment: 'DEV' })]);
+
+    const plan = await planFlagImport(
+      'tenant-1',
+      document([
+        {
+          key: 'new-checkout',
+          name: 'New Checkout',
+          environments: { DEV: checkoutConfig, STAGING: checkoutConfig, PROD: { ...checkoutConfig, rolloutPercentage: 100 } },
+        },
+      ])
+    );
+
+    expect(plan.summary).toEqual({ create: 1, update: 1, unchanged: 1, conflict: 0 });
+    expect(plan.changes.map((change) => [change.environment, change.action, change.flagId])).toEqual([
+      ['DEV', 'unchanged', 'flag-dev'],
+      ['STAGING', 'create', null],
+      ['PROD', 'update', 'flag-prod'],
+    ]);
+    expect(plan.changes[2].diff!.fields).toEqual([{ field: 'rolloutPercentage', before: 50, after: 100 }]);
+  });
+
+  it('reports segments that do not exist in this tenant as conflicts', async () => {
+    const plan = await planFlagImport(
+      'tenant-1',
+      document([
+        {
+          key: 'beta',
+          name: 'Beta',
+          environments: { DEV: { ...checkoutConfig, rules: [{ condition: { type: 'SEGMENT', segmentId: 'seg-other' } }] } },
+        },
+      ])
+    );
+
+    expect(plan.summary.conflict).toBe(1);
+    expect(plan.changes[0].error).toBe('segment not found (seg-other)');
+  });
+
+  it('resolves prerequisites against flags in the same import', async () => {
+    const requires = (flagKey: string) => ({
+      ...checkoutConfig,
+      rules: [{ condition: { type: 'PREREQUISITE', flagKey, enabled: true } }],
+    });
+
+    const plan = await planFlagImport(
+      'tenant-1',
+      document([
+        { key: 'parent', name: 'Parent', environments: { DEV: checkoutConfig } },
+        { key: 'child', name: 'Child', environments: { DEV: requires('parent'), PROD: requires('parent') } },
+      ])
+    );
+
+    expect(plan.changes.map((change) => [change.key, change.environment, change.action, change.error])).toEqual([
+      ['parent', 'DEV', 'create', null],
+      ['child', 'DEV', 'create', null],
+      ['child', 'PROD', 'conflict', 'prerequisite flag not found in PROD (parent)'],
+    ]);
+  });
+
+  it('detects prerequisite cycles introduced by the import', async () => {
+    mockGraphFindMany.mockResolvedValue([
+      { key: 'a', rules: [{ condition: { type: 'PREREQUISITE', flagKey: 'b', enabled: true } }] },
+      { key: 'b', rules: [] },
+    ]);
+
+    const plan = await planFlagImport(
+      'tenant-1',
+      document([
+        {
+          key: 'b',
+          name: 'B',
+          environments: { DEV: { ...checkoutConfig, rules: [{ condition: { type: 'PREREQUISITE', flagKey: 'a', enabled: true } }] } },
+        },
+      ])
+    );
+
+    expect(plan.changes[0].action).toBe('conflict');
+    expect(plan.changes[0].error).toMatch(/^prerequisite cycle/);
+  });
+});
+
+describe('importFlags', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockFlagFindMany.mockResolvedValue([]);
+    mockGraphFindMany.mockResolvedValue([]);
+    mockSegmentFindMany.mockResolvedValue([]);
+    mockTenantFindUnique.mockResolvedValue({ flagApprovalEnvironments: ['PROD'] });
+  });
+
+  it('writes nothing when any flag conflicts', async () => {
+    const result = await importFlags(
+      'tenant-1',
+      document([
+        { key: 'ok', name: 'OK', environments: { DEV: checkoutConfig } },
+        { key: 'broken', name: 'Broken', environments: { DEV: { ...checkoutConfig, offVariant: 'missing' } } },
+      ]),
+      'user-1'
+    );
+
+    expect(result).toMatchObject({ success: false, status: 409 });
+    expect(result.plan.summary).toMatchObject({ create: 1, conflict: 1 });
+    expect(mockTransaction).not.toHaveBeenCalled();
+  });
+
+  it('refuses to change flags in environments that require approval', async () => {
+    const result = await importFlags(
+      'tenant-1',
+      document([{ key: 'new-checkout', name: 'New Checkout', environments: { DEV: checkoutConfig, PROD: checkoutConfig } }]),
+      'user-1'
+    );
+
+    expect(result).toMatchObject({
+      success: false,
+      status: 409,
+      error: 'Cannot import flags: changes to PROD flags require approval',
+    });
+    expect(result.plan.summary).toMatchObject({ create: 2 });
+    expect(mockTransaction).not.toHaveBeenCalled();
+  });
+
+  it('allows unchanged flags in environments that require approval', async () => {
+    mockFlagFindMany.mockResolvedValue([existingFlag()]);
+    mockTransaction.mockResolvedValue(undefined);
+
+    const result = await importFlags(
+      'tenant-1',
+      document([{ key: 'new-checkout', name: 'New Checkout', environments: { DEV: checkoutConfig, PROD: checkoutConfig } }]),
+      'user-1'
+    );
+
+    expect(result.success).toBe(true);
+    expect(result.plan.summary).toMatchObject({ create: 1, unchanged: 1 });
+    expect(mockTransaction).toHaveBeenCalledTimes(1);
+  });
+});
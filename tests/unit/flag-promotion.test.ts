@@ -0,0 +1,137 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+
+const mockFindFirst = vi.fn();
+const mockValidateFlagConfiguration = vi.fn();
+
+vi.mock('@/lib/prisma', () => ({
+  prisma: {
+    featureFlag: {
+      findFirst: (args: unknown) => mockFindFirst(args),
+    },
+  },
+}));
+
+vi.mock('@/lib/flag-updates', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@/lib/flag-updates')>()),
+  validateFlagConfiguration: (...args: unknown[]) => mockValidateFlagConfiguration(...args),
+}));
+
+import { planPromotion, promoteFlag } from '@/lib/flag-promotion';
+
+const allowlist = { id: 'rule-1', type: 'ALLOWLIST', condition: { type: 'ALLOWLIST', userIds: ['alice'] }, serve: null, order: 0 };
+const rollout = { id: 'rule-2', type: 'PERCENT_ROLLOUT', condition: { type: 'PERCENT_ROLLOUT', percentage: 10 }, serve: null, order: 1 };
+
+function flag(overrides: Record<string, unknown> = {}) {
+  return {
+    id: 'flag-dev',
+    tenantId: 'tenant-1',
+    key: 'new-checkout',
+    name: 'New Checkout',
+    description: null,
+    enabled: true,
+    environment: 'DEV',
+    rolloutPercentage: 50,
+    variants: [],
+    defaultServe: null,
+    offVariant: null,
+    rules: [allowlist, rollout],
+    ...overrides,
+  };
+}
+
+describe('Flag promotion', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockValidateFlagConfiguration.mockResolvedValue({ valid: true });
+  });
+
+  it('should diff the source configuration against the next environment', async () => {
+    mockFindFirst
+      .mockResolvedValueOnce(flag())
+      .mockResolvedValueOnce(
+        flag({ id: 'flag-staging', name: 'Checkout (staging)', environment: 'STAGING', enabled: false, rolloutPercentage: 0, rules: [{ ...allowlist, id: 'rule-9' }] })
+      );
+
+    const result = await planPromotion('tenant-1', 'flag-dev');
+
+    expect(result.success).toBe(true);
+    if (!result.success) return;
+    expect(mockFindFirst).toHaveBeenLastCalledWith(
+      expect.objectContaining({ where: { tenantId: 'tenant-1', key: 'new-checkout', environment: 'STAGING' } })
+    );
+    expect(result.plan).toMatchObject({ targetEnvironment: 'STAGING', targetFlagId: 'flag-staging', error: null });
+    expect(result.plan.after.name).toBe('Checkout (staging)');
+    expect(result.plan.diff.fields).toEqual([
+      { field: 'enabled', before: false, after: true },
+      { field: 'rolloutPercentage', before: 0, after: 50 },
+    ]);
+    expect(result.plan.diff.rules).toEqual({ added: [rollout], removed: [], changed: [], unchanged: 1 });
+  });
+
+  it('should plan to create the target flag when it does not exist yet', async () => {
+    mockFindFirst.mockResolvedValueOnce(flag({ environment: 'STAGING' })).mockResolvedValueOnce(null);
+
+    const result = await planPromotion('tenant-1', 'flag-dev');
+
+    expect(result.success).toBe(true);
+    if (!result.success) return;
+    expect(result.plan).toMatchObject({ targetEnvironment: 'PROD', targetFlagId: null, before: null });
+    expect(result.plan.after.environment).toBe('PROD');
+    expect(result.plan.diff.rules.added).toHaveLength(2);
+  });
+
+  it('should carry lifetime, owner and layer slice to the target', async () => {
+    mockFindFirst
+      .mockResolvedValueOnce(flag({ lifetime: 'PERMANENT', ownerId: 'user-2', layerId: 'layer-1', layerStart: 0, layerPercentage: 25 }))
+      .mockResolvedValueOnce(
+        flag({ id: 'flag-staging', environment: 'STAGING', lifetime: 'TEMPORARY', ownerId: null, layerId: null, layerStart: null, layerPercentage: null })
+      );
+
+    const result = await planPromotion('tenant-1', 'flag-dev');
+
+    expect(result.success).toBe(true);
+    if (!result.success) return;
+    expect(result.plan.after).toMatchObject({ lifetime: 'PERMANENT', ownerId: 'user-2', layerId: 'layer-1', layerStart: 0, layerPercentage: 25 });
+    expect(result.plan.diff.fields.map((change) => change.field)).toEqual([
+      'lifetime',
+      'ownerId',
+      'layerId',
+      'layerStart',
+      'layerPercentage',
+    ]);
+    expect(mockValidateFlagConfiguration).toHaveBeenCalledWith(
+      'tenant-1',
+      { id: 'flag-staging', key: 'new-checkout', environment: 'STAGING' },
+      expect.objectContaining({ layerId: 'layer-1' })
+    );
+  });
+
+  it('should not promote past PROD', async () => {
+    mockFindFirst.mockResolvedValueOnce(flag({ environment: 'PROD' }));
+
+    const result = await planPromotion('tenant-1', 'flag-dev');
+
+    expect(result).toEqual({ success: false, status: 400, error: 'PROD flags cannot be promoted' });
+  });
+
+  it('should refuse to apply a copy whose rules are invalid on the target', async () => {
+    mockFindFirst.mockResolvedValueOnce(flag()).mockResolvedValueOnce(null);
+    mockValidateFlagConfiguration.mockResolvedValue({
+      valid: false,
+      error: 'invalid rule: Prerequisite flag "payments" does not exist',
+    });
+
+    const result = await promoteFlag('tenant-1', 'flag-dev', 'user-1');
+
+    expect(result).toEqual({
+      success: false,
+      status: 400,
+      error: 'Cannot promote: invalid rule: Prerequisite flag "payments" does not exist',
+    });
+    expect(mockValidateFlagConfiguration).toHaveBeenCalledWith(
+      'tenant-1',
+      { key: 'new-checkout', environment: 'STAGING' },
+      expect.objectContaining({ environment: 'STAGING' })
+    );
+  });
+});
@@ -0,0 +1,124 @@
+import { describe, it, expect, vi } from 'vitest';
+import {
+  diffFlagSnapshots,
+  recordFlagRevision,
+  snapshotLifecycleData,
+  toRevisionSnapshot,
+  type FlagRevisionSnapshot,
+} from '@/lib/flag-revisions';
+
+const allowlist = { id: 'rule-1', type: 'ALLOWLIST', condition: { type: 'ALLOWLIST', userIds: ['alice'] }, serve: null, order: 0 };
+const rollout = { id: 'rule-2', type: 'PERCENT_ROLLOUT', condition: { type: 'PERCENT_ROLLOUT', percentage: 10 }, serve: null, order: 1 };
+
+function snapshot(overrides: Partial<FlagRevisionSnapshot> = {}): FlagRevisionSnapshot {
+  return {
+    name: 'New Checkout',
+    key: 'new-checkout',
+    description: null,
+    enabled: true,
+    environment: 'PROD',
+    rolloutPercentage: 0,
+    variants: [],
+    defaultServe: null,
+    offVariant: null,
+    rules: [allowlist, rollout],
+    ...overrides,
+  };
+}
+
+describe('Flag revisions', () => {
+  it('should snapshot rules in evaluation order', () => {
+    const result = toRevisionSnapshot({ ...snapshot(), rules: [rollout, allowlist] });
+
+    expect(result.rules.map((rule) => rule.id)).toEqual(['rule-1', 'rule-2']);
+  });
+
+  it('should report changed fields with before and after values', () => {
+    const diff = diffFlagSnapshots(snapshot(), snapshot({ enabled: false, rolloutPercentage: 25 }));
+
+    expect(diff.fields).toEqual([
+      { field: 'enabled', before: true, after: false },
+      { field: 'rolloutPercentage', before: 0, after: 25 },
+    ]);
+    expect(diff.rules).toEqual({ added: [], removed: [], changed: [], unchanged: 2 });
+  });
+
+  it('should restore lifetime, owner and layer slice from a stored snapshot', () => {
+    const lifecycle = { lifetime: 'PERMANENT', ownerId: 'user-2', layerId: 'layer-1', layerStart: 20, layerPercentage: 30 };
+
+    const stored = JSON.parse(JSON.stringify(toRevisionSnapshot({ ...snapshot(), ...lifecycle })));
+
+    expect(snapshotLifecycleData(stored)).toEqual(lifecycle);
+  });
+
+  it('should leave lifecycle fields alone when an older snapshot did not capture them', () => {
+    const older = snapshot();
+    const current = snapshot({ lifetime: 'TEMPORARY', ownerId: 'user-2', layerId: null, layerStart: null, layerPercentage: null });
+
+    expect(snapshotLifecycleData(older)).toEqual({});
+    expect(diffFlagSnapshots(older, current).fields).toEqual([]);
+  });
+
+  it('should report added, removed and edited rules', () => {
+    const edited = { ...rollout, condition: { type: 'PERCENT_ROLLOUT', percentage: 50 } };
+    const segment = { id: 'rule-3', type: 'SEGMENT', condition: { type: 'SEGMENT', segmentId: 'beta' }, serve: null, order: 2 };
+
+    const diff = diffFlagSnapshots(snapshot(), snapshot({ rules: [edited, segment] }));
+
+    expect(diff.rules.added).toEqual([segment]);
+    expect(diff.rules.removed).toEqual([allowlist]);
+    expect(diff.rules.changed).toEqual([{ before: rollout, after: edited }]);
+    expect(diff.rules.unchanged).toBe(0);
+  });
+
+  it('should match re-created rules by content', () => {
+    const recreated = [
+      { ...allowlist, id: 'rule-9' },
+      { ...rollout, id: 'rule-10' },
+    ];
+
+    const diff = diffFlagSnapshots(snapshot(), snapshot({ rules: recreated }));
+
+    expect(diff.rules).toEqual({ added: [], removed: [], changed: [], unchanged: 2 });
+  });
+
+  it('should treat everything as added when there is no earlier revision', () => {
+    const diff = diffFlagSnapshots(null, snapshot());
+
+    expect(diff.fields.map((change) => change.field)).toContain('key');
+    expect(diff.rules.added).toHaveLength(2);
+  });
+
+  it('should number revisions per flag', async () => {
+    const tx = {
+      featureFlag: {
+        update: vi.fn().mockResolvedValue({ ...snapshot(), id: 'flag-1', revisionCount: 5 }),
+      },
+      flagRevision: {
+        create: vi.fn().mockImplementation(({ data }) => Promise.resolve(data)),
+      },
+    };
+
+    const revision = await recordFlagRevision(tx as never, 'tenant-1', 'flag-1', {
+      changeType: 'updated',
+      actorId: 'user-1',
+      metadata: { scheduledChangeId: 'schedule-1' },
+    });
+
+    expect(revision).toMatchObject({
+      tenantId: 'tenant-1',
+      flagId: 'flag-1',
+      version: 5,
+      changeType: 'updated',
+      actorId: 'user-1',
+      metadata: { scheduledChangeId: 'schedule-1' },
+    });
+    expect(revision.snapshot).toEqual(snapshot());
+    expect(tx.featureFlag.update).toHaveBeenCalledWith(
+      expect.objectContaining({
+        where: { id: 'flag-1', tenantId: 'tenant-1' },
+        data: { revisionCount: { increment: 1 } },
+      })
+    );
+  });
+});
@@ -0,0 +1,166 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+
+const mockQueryRaw = vi.fn();
+
+vi.mock('@/lib/prisma', () => ({
+  prisma: {
+    $queryRaw: (...args: unknown[]) => mockQueryRaw(...args),
+  },
+}));
+
+import { getIncidentMetrics, startOfDay, summarizeIncidentMetrics } from '@/lib/incident-metrics';
+
+const now = new Date('2026-01-21T15:30:00.000Z');
+const from = new Date('2026-01-19T00:00:00.000Z');
+
+function responseTimes(day: string, overrides: Record<string, unknown> = {}) {
+  return {
+    day: new Date(day),
+    severity: 'SEV1',
+    opened: 1,
+    acknowledged: 0,
+    acknowledgeSeconds: null,
+    mitigated: 0,
+    mitigateSeconds: null,
+    resolved: 0,
+    resolveSeconds: null,
+    ...overrides,
+  };
+}
+
+function breakdown(overrides: Record<string, unknown>) {
+  return { severity: null, service: null, environment: null, status: null, count: 1, ...overrides };
+}
+
+describe('startOfDay', () => {
+  it('truncates to the UTC day', () => {
+    expect(startOfDay(now).toISOString()).toBe('2026-01-21T00:00:00.000Z');
+    expect(startOfDay(new Date('2026-01-18T23:59:00.000Z')).toISOString()).toBe('2026-01-18T00:00:00.000Z');
+  });
+});
+
+describe('summarizeIncidentMetrics', () => {
+  it('fills empty buckets so the trend has no gaps', () => {
+    const metrics = summarizeIncidentMetrics([responseTimes('2026-01-20', { opened: 2 })], [], [], from, 3, 'day', now);
+
+    expect(metrics.trend.map((point) => [point.start, point.opened])).toEqual([
+      ['2026-01-19T00:00:00.000Z', 0],
+      ['2026-01-20T00:00:00.000Z', 2],
+      ['2026-01-21T00:00:00.000Z', 0],
+    ]);
+    expect(metrics.trend[1].bySeverity).toEqual({ SEV1: 2, SEV2: 0, SEV3: 0, SEV4: 0 });
+  });
+
+  it('averages response times over incidents that reached each stage', () => {
+    const metrics = summarizeIncidentMetrics(
+      [
+        responseTimes('2026-01-19', { opened: 2, acknowledged: 2, acknowledgeSeconds: 600, resolved: 1, resolveSeconds: 3600 }),
+        responseTimes('2026-01-20', { severity: 'SEV2', acknowledged: 1, acknowledgeSeconds: 900 }),
+      ],
+      [],
+      [],
+      from,
+      3,
+      'day',
+      now
+    );
+
+    expect(metrics.responseTimes).toEqual({
+      mtta: { averageSeconds: 500, incidents: 3 },
+      mttm: { averageSeconds: null, incidents: 0 },
+      mttr: { averageSeconds: 3600, incidents: 1 },
+    });
+    expect(metrics.trend[0]).toMatchObject({ mttaSeconds: 300, mttrSeconds: 3600 });
+    expect(metrics.trend[2]).toMatchObject({ mttaSeconds: null, mttrSeconds: null });
+  });
+
+  it('splits grouping set rows into breakdowns', () => {
+    const metrics = summarizeIncidentMetrics(
+      [],
+      [
+        breakdown({ status: 'OPEN', count: 2 }),
+        breakdown({ status: 'RESOLVED', count: 3 }),
+        breakdown({ severity: 'SEV2', count: 5 }),
+        breakdown({ service: 'search', count: 1 }),
+        breakdown({ service: 'payments', count: 4 }),
+        breakdown({ environment: 'PROD', count: 5 }),
+      ],
+      [],
+      from,
+      3,
+      'day',
+      now
+    );
+
+    expect(metrics.total).toBe(5);
+    expect(metrics.byStatus.find((c) => c.key === 'ACKNOWLEDGED')?.count).toBe(0);
+    expect(metrics.bySeverity.map((c) => c.count)).toEqual([0, 5, 0, 0]);
+    expect(metrics.byService).toEqual([
+      { key: 'payments', count: 4 },
+      { key: 'search', count: 1 },
+    ]);
+    expect(metrics.byEnvironment).toEqual([
+      { key: 'DEV', count: 0 },
+      { key: 'STAGING', count: 0 },
+      { key: 'PROD', count: 5 },
+    ]);
+  });
+
+  it('starts weekly buckets at the start of the range so none is cut short', () => {
+    const metrics = summarizeIncidentMetrics(
+      [responseTimes('2026-01-14'), responseTimes('2026-01-20', { opened: 3 }), responseTimes('2026-01-21', { opened: 2 })],
+      [],
+      [],
+      new Date('2026-01-14T00:00:00.000Z'),
+      8,
+      'week',
+      now
+    );
+
+    expect(metrics.trend.map((point) => [point.start, point.opened])).toEqual([
+      ['2026-01-14T00:00:00.000Z', 4],
+      ['2026-01-21T00:00:00.000Z', 2],
+    ]);
+  });
+
+  it('counts unresolved incidents opened before the range', () => {
+    // An incident opened last month is still acknowledged; nothing was opened in the range
+    const metrics = summarizeIncidentMetrics([], [], [{ key: 'ACKNOWLEDGED', count: 1 }], from, 3, 'day', now);
+
+    expect(metrics.total).toBe(0);
+    expect(metrics.unresolved).toEqual([
+      { key: 'OPEN', count: 0 },
+      { key: 'ACKNOWLEDGED', count: 1 },
+      { key: 'MITIGATED', count: 0 },
+    ]);
+  });
+});
+
+describe('getIncidentMetrics', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockQueryRaw.mockResolvedValue([]);
+  });
+
+  it("scopes the range queries to the tenant and the range's first day", async () => {
+    const metrics = await getIncidentMetrics('tenant-1', 3, 'day', now);
+
+    expect(metrics.from).toBe('2026-01-19T00:00:00.000Z');
+    expect(mockQueryRaw).toHaveBeenCalledTimes(3);
+    const [responseTimeCall, breakdownCall] = mockQueryRaw.mock.calls;
+    for (const [, ...values] of [responseTimeCall, breakdownCall]) {
+      expect(values).toContain('tenant-1');
+      expect(values).toContainEqual(from);
+    }
+  });
+
+  it('counts unresolved incidents without the range filter', async () => {
+    mockQueryRaw.mockResolvedValueOnce([]).mockResolvedValueOnce([]).mockResolvedValueOnce([{ key: 'OPEN', count: 2 }]);
+
+    const metrics = await getIncidentMetrics('tenant-1', 3, 'day', now);
+
+    const [, ...values] = mockQueryRaw.mock.calls[2];
+    expect(values).toEqual(['tenant-1']);
+    expect(metrics.unresolved[0]).toEqual({ key: 'OPEN', count: 2 });
+  });
+});
@@ -0,0 +1,195 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+
+const mockTenantFindMany = vi.fn();
+const mockSlaTargetFindMany = vi.fn();
+const mockIncidentFindMany = vi.fn();
+const mockAlertCreateMany = vi.fn();
+const mockTimelineCreate = vi.fn();
+const mockJobCreate = vi.fn();
+
+vi.mock('@/lib/prisma', () => ({
+  prisma: {
+    tenant: {
+      findMany: (args: unknown) => mockTenantFindMany(args),
+    },
+    slaTarget: {
+      findMany: (args: unknown) => mockSlaTargetFindMany(args),
+    },
+    incident: {
+      findMany: (args: unknown) => mockIncidentFindMany(args),
+    },
+    incidentSlaAlert: {
+      createMany: (args: unknown) => mockAlertCreateMany(args),
+    },
+    timelineEvent: {
+      create: (args: unknown) => mockTimelineCreate(args),
+    },
+    job: {
+      create: (args: unknown) => mockJobCreate(args),
+    },
+  },
+}));
+
+vi.mock('@/lib/tenant', () => ({
+  runWithTenantContext: (_context: unknown, fn: () => unknown) => fn(),
+}));
+
+import { computeSla, findSlaTarget, processSlaAlerts, slaTargetSchema } from '@/lib/incident-sla';
+
+const openedAt = new Date('2026-01-18T09:00:00Z');
+
+function minutesAfterOpen(minutes: number) {
+  return new Date(openedAt.getTime() + minutes * 60_000);
+}
+
+function statusChange(to: string, minutes: number) {
+  return { type: 'STATUS_CHANGE', createdAt: minutesAfterOpen(minutes), data: { from: 'OPEN', to } };
+}
+
+const target = {
+  severity: 'SEV1',
+  service: null,
+  acknowledgeMinutes: 10,
+  mitigateMinutes: 60,
+  resolveMinutes: null,
+};
+
+const incident = {
+  id: 'incident-1',
+  title: 'Checkout failing',
+  severity: 'SEV1',
+  service: 'payments',
+  status: 'OPEN',
+  createdById: 'reporter',
+  assigneeId: 'alice',
+  createdAt: openedAt,
+  updatedAt: openedAt,
+};
+
+describe('computeSla', () => {
+  it('counts down from when the incident opened', () => {
+    const clocks = computeSla(incident, [], target, minutesAfterOpen(5));
+
+    expect(clocks).toEqual([
+      { stage: 'ACKNOWLEDGE', targetMinutes: 10, dueAt: minutesAfterOpen(10), reachedAt: null, status: 'ON_TRACK' },
+      { stage: 'MITIGATE', targetMinutes: 60, dueAt: minutesAfterOpen(60), reachedAt: null, status: 'ON_TRACK' },
+    ]);
+  });
+
+  it('flags stages about to breach and breached', () => {
+    expect(computeSla(incident, [], target, minutesAfterOpen(8))[0].status).toBe('AT_RISK');
+    expect(computeSla(incident, [], target, minutesAfterOpen(10))[0].status).toBe('BREACHED');
+  });
+
+  it('uses the first status change that reaches each stage', () => {
+    const events = [
+      statusChange('ACKNOWLEDGED', 4),
+      { type: 'NOTE', createdAt: minutesAfterOpen(5), data: null },
+      statusChange('RESOLVED', 90),
+    ];
+
+    const [acknowledge, mitigate] = computeSla({ ...incident, status: 'RESOLVED' }, events, target, minutesAfterOpen(120));
+
+    expect(acknowledge).toMatchObject({ reachedAt: minutesAfterOpen(4), status: 'MET' });
+    // Resolving without mitigating first reaches the mitigate stage late
+    expect(mitigate).toMatchObject({ reachedAt: minutesAfterOpen(90), status: 'BREACHED' });
+  });
+
+  it('keeps a reached stage after the incident is reopened', () => {
+    const events = [statusChange('RESOLVED', 5), statusChange('OPEN', 30)];
+
+    expect(computeSla(incident, events, target, minutesAfterOpen(120))[0]).toMatchObject({ status: 'MET' });
+  });
+
+  it('returns no clocks without a target', () => {
+    expect(computeSla(incident, [], null)).toEqual([]);
+  });
+});
+
+describe('findSlaTarget', () => {
+  const targets = [
+    { ...target, id: 'default' },
+    { ...target, id: 'payments', service: 'payments' },
+    { ...target, id: 'sev2', severity: 'SEV2' },
+  ];
+
+  it("prefers the service's own target over the severity default", () => {
+    expect(findSlaTarget(targets, 'SEV1', 'payments')?.id).toBe('payments');
+    expect(findSlaTarget(targets, 'SEV1', 'search')?.id).toBe('default');
+    expect(findSlaTarget(targets, 'SEV3', 'payments')).toBeNull();
+  });
+});
+
+describe('slaTargetSchema', () => {
+  it('requires at least one stage target', () => {
+    expect(slaTargetSchema.safeParse({ severity: 'SEV1', resolveMinutes: 240 }).success).toBe(true);
+    expect(slaTargetSchema.safeParse({ severity: 'SEV1', acknowledgeMinutes: null }).error?.issues[0].message).toBe(
+      'Set at least one target'
+    );
+    expect(slaTargetSchema.safeParse({ severity: 'SEV1', acknowledgeMinutes: 0 }).success).toBe(false);
+  });
+});
+
+describe('processSlaAlerts', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockTenantFindMany.mockResolvedValue([{ id: 'tenant-1', slug: 'acme' }]);
+    mockSlaTargetFindMany.mockResolvedValue([target]);
+    mockAlertCreateMany.mockResolvedValue({ count: 1 });
+    mockJobCreate.mockResolvedValue({ id: 'job-1' });
+  });
+
+  it('records a timeline event and notifies the assignee when a stage breaches', async () => {
+    mockIncidentFindMany.mockResolvedValue([{ ...incident, timeline: [], slaAlerts: [] }]);
+
+    expect(await processSlaAlerts(minutesAfterOpen(12))).toBe(1);
+
+    expect(mockAlertCreateMany).toHaveBeenCalledWith({
+      data: [{ tenantId: 'tenant-1', incidentId: 'incident-1', stage: 'ACKNOWLEDGE', kind: 'BREACHED' }],
+      skipDuplicates: true,
+    });
+    expect(mockTimelineCreate.mock.calls[0][0].data).toMatchObject({
+      type: 'ACTION',
+      message: 'SLA breached: time to acknowledge target of 10 min passed',
+      createdById: 'reporter',
+    });
+    expect(mockJobCreate.mock.calls[0][0].data).toMatchObject({
+      type: 'SEND_NOTIFICATION',
+      payload: { userId: 'alice', type: 'incident_sla', incidentId: 'incident-1' },
+    });
+  });
+
+  it('warns once when a stage is about to breach', async () => {
+    mockIncidentFindMany.mockResolvedValue([{ ...incident, timeline: [], slaAlerts: [] }]);
+
+    await processSlaAlerts(minutesAfterOpen(9));
+    expect(mockTimelineCreate.mock.calls[0][0].data.message).toBe(
+      'SLA at risk: time to acknowledge target of 10 min is due in 1 min'
+    );
+
+    vi.clearAllMocks();
+    mockIncidentFindMany.mockResolvedValue([
+      { ...incident, timeline: [], slaAlerts: [{ stage: 'ACKNOWLEDGE', kind: 'AT_RISK' }] },
+    ]);
+
+    expect(await processSlaAlerts(minutesAfterOpen(9))).toBe(0);
+    expect(mockAlertCreateMany).not.toHaveBeenCalled();
+  });
+
+  it('skips alerts another worker already sent', async () => {
+    mockIncidentFindMany.mockResolvedValue([{ ...incident, timeline: [], slaAlerts: [] }]);
+    mockAlertCreateMany.mockResolvedValue({ count: 0 });
+
+    expect(await processSlaAlerts(minutesAfterOpen(12))).toBe(0);
+    expect(mockTimelineCreate).not.toHaveBeenCalled();
+    expect(mockJobCreate).not.toHaveBeenCalled();
+  });
+
+  it('ignores stages that were already reached', async () => {
+    mockIncidentFindMany.mockResolvedValue([
+      { ...incident, status: 'ACKNOWLEDGED', timeline: [statusChange('ACKNOWLEDGED', 20)], slaAlerts: [] },
+    ]);
+
+    expect(await processSlaAlerts(minutesAfterOpen(30))).toBe(0);
+  });
+});
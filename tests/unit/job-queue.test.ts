@@ -0,0 +1,63 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+
+const mockScheduledChanges = vi.fn();
+const mockRolloutPlans = vi.fn();
+const mockEscalations = vi.fn();
+const mockSlaAlerts = vi.fn();
+const mockRollup = vi.fn();
+const mockCleanupTenants = vi.fn();
+const mockJobFindMany = vi.fn();
+
+vi.mock('@/lib/prisma', () => ({
+  prisma: {
+    tenant: {
+      findMany: (args: unknown) => mockCleanupTenants(args),
+    },
+    job: {
+      findMany: (args: unknown) => mockJobFindMany(args),
+    },
+  },
+}));
+
+vi.mock('@/lib/tenant', () => ({
+  runWithTenantContext: (_context: unknown, fn: () => unknown) => fn(),
+}));
+
+vi.mock('@/lib/scheduled-flag-changes', () => ({ processDueScheduledChanges: () => mockScheduledChanges() }));
+vi.mock('@/lib/rollout-plans', () => ({ processDueRolloutPlans: () => mockRolloutPlans() }));
+vi.mock('@/lib/escalations', () => ({ processDueEscalations: () => mockEscalations() }));
+vi.mock('@/lib/incident-sla', () => ({ processSlaAlerts: () => mockSlaAlerts() }));
+vi.mock('@/lib/flag-analytics', () => ({ rollupFlagEvaluations: () => mockRollup() }));
+
+import { runWorkerTick } from '@/lib/job-queue';
+
+describe('runWorkerTick', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    mockCleanupTenants.mockResolvedValue([]);
+    mockJobFindMany.mockResolvedValue([]);
+  });
+
+  it('keeps running later stages and the job queue when a stage fails', async () => {
+    mockScheduledChanges.mockRejectedValue(new Error('connection reset'));
+    mockEscalations.mockRejectedValue(new Error('connection reset'));
+
+    await runWorkerTick();
+
+    expect(mockRolloutPlans).toHaveBeenCalled();
+    expect(mockSlaAlerts).toHaveBeenCalled();
+    expect(mockRollup).toHaveBeenCalled();
+    expect(mockCleanupTenants).toHaveBeenCalled();
+    expect(mockJobFindMany).toHaveBeenCalled();
+    expect(console.error).toHaveBeenCalledWith('[WORKER] Error processing scheduled flag changes:', expect.any(Error));
+    expect(console.error).toHaveBeenCalledWith('[WORKER] Error processing escalations:', expect.any(Error));
+  });
+
+  it('does not throw when fetching pending jobs fails', async () => {
+    mockJobFindMany.mockRejectedValue(new Error('connection reset'));
+
+    await expect(runWorkerTick()).resolves.toBeUndefined();
+    expect(console.error).toHaveBeenCalledWith('[WORKER] Error in job processing loop:', expect.any(Error));
+  });
+});
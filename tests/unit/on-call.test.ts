@@ -0,0 +1,204 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+
+const mockMembershipFindMany = vi.fn();
+
+vi.mock('@/lib/prisma', () => ({
+  prisma: {
+    membership: {
+      findMany: (args: unknown) => mockMembershipFindMany(args),
+    },
+  },
+}));
+
+import {
+  findNonMembers,
+  resolveOnCall,
+  rotationSchema,
+  rotationShiftAt,
+  scheduleSchema,
+  type RotationDefinition,
+} from '@/lib/on-call';
+
+function rotation(overrides: Partial<RotationDefinition> = {}): RotationDefinition {
+  return {
+    id: 'rot-1',
+    name: 'Primary',
+    layer: 1,
+    handoff: 'DAILY',
+    handoffTime: '09:00',
+    handoffDay: null,
+    userIds: ['alice', 'bob', 'carol'],
+    startsAt: new Date('2026-03-02T09:00:00.000Z'),
+    endsAt: null,
+    restrictStart: null,
+    restrictEnd: null,
+    ...overrides,
+  };
+}
+
+function at(iso: string) {
+  return new Date(iso);
+}
+
+describe('rotationShiftAt', () => {
+  it('hands off daily at the handoff time and wraps around', () => {
+    const daily = rotation();
+
+    expect(rotationShiftAt(daily, at('2026-03-02T12:00:00.000Z'), 'UTC')?.userId).toBe('alice');
+    expect(rotationShiftAt(daily, at('2026-03-03T08:59:00.000Z'), 'UTC')?.userId).toBe('alice');
+    expect(rotationShiftAt(daily, at('2026-03-03T09:00:00.000Z'), 'UTC')?.userId).toBe('bob');
+    expect(rotationShiftAt(daily, at('2026-03-04T10:00:00.000Z'), 'UTC')?.userId).toBe('carol');
+    expect(rotationShiftAt(daily, at('2026-03-05T10:00:00.000Z'), 'UTC')?.userId).toBe('alice');
+    expect(rotationShiftAt(daily, at('2026-03-02T12:00:00.000Z'), 'UTC')?.until).toEqual(at('2026-03-03T09:00:00.000Z'));
+  });
+
+  it('hands off weekly on the handoff day in the schedule time zone', () => {
+    // Mondays 09:00 New York time (UTC-5 until March 8)
+    const weekly = rotation({
+      handoff: 'WEEKLY',
+      handoffDay: 1,
+      userIds: ['alice', 'bob'],
+      startsAt: at('2026-03-02T14:00:00.000Z'),
+    });
+
+    expect(rotationShiftAt(weekly, at('2026-03-06T20:00:00.000Z'), 'America/New_York')?.userId).toBe('alice');
+    expect(rotationShiftAt(weekly, at('2026-03-09T12:00:00.000Z'), 'America/New_York')?.userId).toBe('alice');
+    // After the DST change, 09:00 local is 13:00 UTC
+    expect(rotationShiftAt(weekly, at('2026-03-09T13:00:00.000Z'), 'America/New_York')).toEqual({
+      userId: 'bob',
+      until: at('2026-03-16T13:00:00.000Z'),
+    });
+  });
+
+  it('starts counting shifts from the first handoff after startsAt', () => {
+    // Starting mid-shift, alice still covers until the next 09:00
+    const midShift = rotation({ startsAt: at('2026-03-02T20:00:00.000Z') });
+
+    expect(rotationShiftAt(midShift, at('2026-03-02T19:00:00.000Z'), 'UTC')).toBeNull();
+    expect(rotationShiftAt(midShift, at('2026-03-03T08:00:00.000Z'), 'UTC')?.userId).toBe('alice');
+    expect(rotationShiftAt(midShift, at('2026-03-03T09:00:00.000Z'), 'UTC')?.userId).toBe('bob');
+  });
+
+  it('only covers its daily restriction window, including windows past midnight', () => {
+    const nights = rotation({ restrictStart: '18:00', restrictEnd: '08:00' });
+
+    expect(rotationShiftAt(nights, at('2026-03-03T12:00:00.000Z'), 'UTC')).toBeNull();
+    expect(rotationShiftAt(nights, at('2026-03-03T19:00:00.000Z'), 'UTC')).toEqual({
+      userId: 'bob',
+      until: at('2026-03-04T08:00:00.000Z'),
+    });
+    expect(rotationShiftAt(nights, at('2026-03-04T07:00:00.000Z'), 'UTC')?.userId).toBe('bob');
+  });
+
+  it('stops at endsAt', () => {
+    const ending = rotation({ endsAt: at('2026-03-03T18:00:00.000Z') });
+
+    expect(rotationShiftAt(ending, at('2026-03-03T12:00:00.000Z'), 'UTC')?.until).toEqual(at('2026-03-03T18:00:00.000Z'));
+    expect(rotationShiftAt(ending, at('2026-03-03T18:00:00.000Z'), 'UTC')).toBeNull();
+  });
+});
+
+describe('resolveOnCall', () => {
+  const base = rotation({ id: 'round-the-clock', name: 'Round the clock' });
+  const businessHours = rotation({
+    id: 'business-hours',
+    name: 'Business hours',
+    layer: 2,
+    userIds: ['dave'],
+    restrictStart: '09:00',
+    restrictEnd: '17:00',
+  });
+
+  it('prefers the highest layer with someone on call', () => {
+    const schedule = { timeZone: 'UTC', rotations: [base, businessHours], overrides: [] };
+
+    expect(resolveOnCall(schedule, at('2026-03-03T10:00:00.000Z'))).toMatchObject({
+      userId: 'dave',
+      source: 'ROTATION',
+      rotationId: 'business-hours',
+      layer: 2,
+    });
+    expect(resolveOnCall(schedule, at('2026-03-03T20:00:00.000Z'))).toMatchObject({
+      userId: 'bob',
+      rotationId: 'round-the-clock',
+      layer: 1,
+    });
+  });
+
+  it('lets overrides win, the most recent one first', () => {
+    const schedule = {
+      timeZone: 'UTC',
+      rotations: [base, businessHours],
+      overrides: [
+        {
+          id: 'o-1',
+          userId: 'erin',
+          startsAt: at('2026-03-03T00:00:00.000Z'),
+          endsAt: at('2026-03-04T00:00:00.000Z'),
+          createdAt: at('2026-03-01T00:00:00.000Z'),
+        },
+        {
+          id: 'o-2',
+          userId: 'frank',
+          startsAt: at('2026-03-03T12:00:00.000Z'),
+          endsAt: at('2026-03-03T14:00:00.000Z'),
+          createdAt: at('2026-03-02T00:00:00.000Z'),
+        },
+      ],
+    };
+
+    expect(resolveOnCall(schedule, at('2026-03-03T10:00:00.000Z'))).toEqual({
+      userId: 'erin',
+      source: 'OVERRIDE',
+      overrideId: 'o-1',
+      until: at('2026-03-04T00:00:00.000Z'),
+    });
+    expect(resolveOnCall(schedule, at('2026-03-03T13:00:00.000Z'))?.userId).toBe('frank');
+    expect(resolveOnCall(schedule, at('2026-03-04T10:00:00.000Z'))?.userId).toBe('dave');
+  });
+
+  it('returns null when nobody is on call', () => {
+    expect(resolveOnCall({ timeZone: 'UTC', rotations: [businessHours], overrides: [] }, at('2026-03-03T20:00:00.000Z'))).toBeNull();
+  });
+});
+
+describe('schedule validation', () => {
+  it('rejects unknown time zones', () => {
+    expect(scheduleSchema.safeParse({ name: 'Primary', timeZone: 'Europe/Amsterdam' }).success).toBe(true);
+    expect(scheduleSchema.safeParse({ name: 'Primary', timeZone: 'Mars/Olympus' }).success).toBe(false);
+  });
+
+  it('requires a handoff day for weekly rotations and complete restriction windows', () => {
+    const valid = {
+      name: 'Primary',
+      handoff: 'WEEKLY',
+      handoffDay: 1,
+      handoffTime: '09:00',
+      userIds: ['alice'],
+      startsAt: '2026-03-02T09:00:00.000Z',
+    };
+
+    expect(rotationSchema.safeParse(valid).success).toBe(true);
+    expect(rotationSchema.safeParse({ ...valid, handoffDay: undefined }).error?.issues[0].message).toBe(
+      'Weekly rotations need a handoff day'
+    );
+    expect(rotationSchema.safeParse({ ...valid, restrictStart: '09:00' }).success).toBe(false);
+    expect(rotationSchema.safeParse({ ...valid, handoffTime: '9am' }).success).toBe(false);
+    expect(rotationSchema.safeParse({ ...valid, userIds: [] }).success).toBe(false);
+  });
+});
+
+describe('findNonMembers', () => {
+  beforeEach(() => {
+    mockMembershipFindMany.mockReset();
+  });
+
+  it('returns users without a membership in the tenant', async () => {
+    mockMembershipFindMany.mockResolvedValue([{ userId: 'alice' }]);
+
+    expect(await findNonMembers('tenant-1', ['alice', 'mallory', 'mallory'])).toEqual(['mallory']);
+    expect(mockMembershipFindMany).toHaveBeenCalledWith(
+      expect.objectContaining({ where: { tenantId: 'tenant-1', userId: { in: ['alice', 'mallory', 'mallory'] } } })
+    );
+  });
+});
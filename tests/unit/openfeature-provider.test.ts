@@ -0,0 +1,283 @@
+import { describe, it, expect, vi } from 'vitest';
+import { ErrorCode, OpenFeature } from '@openfeature/server-sdk';
+
+vi.mock('@/lib/prisma', () => ({ prisma: {} }));
+
+import { evaluateAllFlags } from '@next-ops/flag-evaluator';
+import { createFlagSnapshot, signSnapshot } from '@/lib/flag-snapshots';
+import {
+  NextOpsProvider,
+  toEvaluationContext,
+  toResolutionDetails,
+  toResolutionReason,
+} from '@/packages/openfeature-provider/src';
+
+const sdkKey = 'srv-prod-test';
+const signingSecret = 'signing-secret';
+
+const flags = [
+  {
+    key: 'theme',
+    enabled: true,
+    environment: 'PROD',
+    rolloutPercentage: 100,
+    variants: [
+      { key: 'light', value: 'light' },
+      { key: 'dark', value: 'dark' },
+      { key: 'limits', value: { maxItems: 10 } },
+    ],
+    defaultServe: { split: [{ variant: 'light', weight: 50 }, { variant: 'dark', weight: 50 }] },
+    offVariant: 'light',
+    rules: [
+      { condition: { type: 'ATTRIBUTE', attribute: 'plan', operator: 'IN', values: ['pro'] }, serve: { variant: 'limits' } },
+    ],
+  },
+  { key: 'new-checkout', enabled: true, environment: 'PROD', rolloutPercentage: 100, rules: [] },
+  { key: 'beta-nav', enabled: true, environment: 'PROD', rolloutPercentage: 30, rules: [] },
+  { key: 'dark-mode', enabled: false, environment: 'PROD', rolloutPercentage: 100, rules: [] },
+];
+
+function evaluate(flagKey: string, context: { userId: string; attributes?: Record<string, string> }) {
+  return evaluateAllFlags(flags, { ...context, environment: 'PROD' }, {}, { includeTrace: true })[flagKey];
+}
+
+function evaluateResponse() {
+  return vi.fn(async (url: URL | RequestInfo, init?: RequestInit) => {
+    const flagKey = decodeURIComponent(url.toString().split('/').pop()!);
+    const { userId, attributes } = JSON.parse(init!.body as string);
+    const results = evaluateAllFlags(flags, { userId, attributes, environment: 'PROD' }, {}, { includeTrace: true });
+    if (!results[flagKey]) {
+      return Response.json({ error: 'Feature flag not found' }, { status: 404 });
+    }
+    return Response.json({ environment: 'PROD', flagKey, evaluation: results[flagKey] });
+  });
+}
+
+describe('toEvaluationContext', () => {
+  it('maps the targeting key, service and primitive attributes', () => {
+    expect(
+      toEvaluationContext({
+        targetingKey: 'user-1',
+        service: 'checkout',
+        plan: 'pro',
+        seats: 5,
+        beta: true,
+        signedUpAt: new Date('2026-01-01T00:00:00.000Z'),
+        address: { country: 'NL' },
+      })
+    ).toEqual({
+      userId: 'user-1',
+      service: 'checkout',
+      attributes: { plan: 'pro', seats: 5, beta: true, signedUpAt: '2026-01-01T00:00:00.000Z' },
+    });
+  });
+
+  it('requires a targeting key', () => {
+    expect(() => toEvaluationContext({ plan: 'pro' })).toThrow('no targetingKey');
+  });
+});
+
+describe('toResolutionReason', () => {
+  it('maps rule matches, disabled flags and the default rule', () => {
+    expect(toResolutionReason(evaluate('theme', { userId: 'u', attributes: { plan: 'pro' } }))).toBe('TARGETING_MATCH');
+    expect(toResolutionReason(evaluate('dark-mode', { userId: 'u' }))).toBe('DISABLED');
+    expect(toResolutionReason(evaluate('new-checkout', { userId: 'u' }))).toBe('DEFAULT');
+    expect(toResolutionReason(evaluate('beta-nav', { userId: 'u' }))).toBe('SPLIT');
+    // 100% rollout, but the variant comes from a weighted split
+    expect(toResolutionReason(evaluate('theme', { userId: 'u' }))).toBe('SPLIT');
+    expect(
+      toResolutionReason({ enabled: false, reason: "Layer: bucket 70 is outside this flag's slice", reasonKind: 'outside_layer' })
+    ).toBe('SPLIT');
+  });
+
+  it('does not need the trace', () => {
+    const results = evaluateAllFlags(flags, { userId: 'u', environment: 'PROD' });
+
+    expect(results.theme.trace).toBeUndefined();
+    expect(toResolutionReason(results.theme)).toBe('SPLIT');
+    expect(toResolutionReason(results['new-checkout'])).toBe('DEFAULT');
+  });
+
+  it('reports evaluations for another environment as unknown', () => {
+    const [flag] = flags;
+
+    expect(toResolutionReason(evaluateAllFlags([flag], { userId: 'u', environment: 'DEV' }).theme)).toBe('UNKNOWN');
+  });
+});
+
+describe('toResolutionDetails', () => {
+  it('resolves booleans to the enabled state and other types to the variant value', () => {
+    const pro = evaluate('theme', { userId: 'u', attributes: { plan: 'pro' } });
+
+    expect(toResolutionDetails(pro, 'boolean', false)).toMatchObject({ value: true, variant: 'limits' });
+    expect(toResolutionDetails(pro, 'object', {})).toEqual({
+      value: { maxItems: 10 },
+      variant: 'limits',
+      reason: 'TARGETING_MATCH',
+      flagMetadata: expect.objectContaining({ enabled: true, evaluationReason: 'Matched rule 1', ruleIndex: 0 }),
+    });
+    expect(toResolutionDetails(pro, 'object', {}).flagMetadata!.trace).toContain('Serving variant "limits"');
+  });
+
+  it('reports type mismatches with the default value', () => {
+    const pro = evaluate('theme', { userId: 'u', attributes: { plan: 'pro' } });
+
+    expect(toResolutionDetails(pro, 'string', 'fallback')).toMatchObject({
+      value: 'fallback',
+      reason: 'ERROR',
+      errorCode: ErrorCode.TYPE_MISMATCH,
+    });
+    expect(toResolutionDetails(evaluate('new-checkout', { userId: 'u' }), 'number', 0)).toMatchObject({
+      value: 0,
+      errorCode: ErrorCode.TYPE_MISMATCH,
+    });
+  });
+
+  it('returns the default for disabled flags without an off variant', () => {
+    expect(toResolutionDetails(evaluate('dark-mode', { userId: 'u' }), 'string', 'fallback')).toMatchObject({
+      value: 'fallback',
+      reason: 'DISABLED',
+    });
+  });
+});
+
+describe('NextOpsProvider', () => {
+  it('evaluates remotely with the SDK key', async () => {
+    const fetchMock = evaluateResponse();
+    const provider = new NextOpsProvider({ baseUrl: 'http://localhost', sdkKey, fetch: fetchMock });
+
+    const result = await provider.resolveStringEvaluation('theme', 'light', { targetingKey: 'user-1', plan: 'free' });
+
+    expect(result.reason).toBe('SPLIT');
+    expect(['light', 'dark']).toContain(result.value);
+    expect(fetchMock.mock.calls[0][0].toString()).toBe('http://localhost/api/sdk/evaluate/theme');
+    expect(fetchMock.mock.calls[0][1]).toMatchObject({
+      method: 'POST',
+      headers: { Authorization: `Bearer ${sdkKey}` },
+    });
+    expect(JSON.parse(fetchMock.mock.calls[0][1]!.body as string)).toEqual({
+      userId: 'user-1',
+      attributes: { plan: 'free' },
+      includeTrace: true,
+    });
+  });
+
+  it('returns error details instead of throwing', async () => {
+    const provider = new NextOpsProvider({ baseUrl: 'http://localhost', sdkKey, fetch: evaluateResponse() });
+
+    expect(await provider.resolveBooleanEvaluation('missing', true, { targetingKey: 'user-1' })).toEqual({
+      value: true,
+      reason: 'ERROR',
+      errorCode: ErrorCode.FLAG_NOT_FOUND,
+      errorMessage: 'Flag "missing" not found',
+    });
+    expect((await provider.resolveBooleanEvaluation('new-checkout', false, {})).errorCode).toBe(
+      ErrorCode.TARGETING_KEY_MISSING
+    );
+
+    const failing = new NextOpsProvider({
+      baseUrl: 'http://localhost',
+      sdkKey,
+      fetch: vi.fn().mockResolvedValue(new Response(null, { status: 503 })),
+    });
+    expect(await failing.resolveBooleanEvaluation('new-checkout', false, { targetingKey: 'user-1' })).toMatchObject({
+      value: false,
+      errorCode: ErrorCode.GENERAL,
+      errorMessage: 'Failed to evaluate flag: 503',
+    });
+  });
+
+  it('evaluates locally from a snapshot with the same results as remote', async () => {
+    const body = JSON.stringify(createFlagSnapshot(1, 'PROD', flags, {}));
+    const fetchMock = vi.fn().mockResolvedValue(
+      new Response(body, { headers: { 'X-Snapshot-Signature': `sha256=${signSnapshot(body, signingSecret)}` } })
+    );
+    const local = new NextOpsProvider({
+      baseUrl: 'http://localhost',
+      sdkKey,
+      signingSecret,
+      fetch: fetchMock,
+      mode: 'local',
+    });
+    const remote = new NextOpsProvider({ baseUrl: 'http://localhost', sdkKey, fetch: evaluateResponse() });
+    const context = { targetingKey: 'user-9', plan: 'free' };
+
+    expect((await local.resolveBooleanEvaluation('new-checkout', false, context)).errorCode).toBe(
+      ErrorCode.PROVIDER_NOT_READY
+    );
+
+    await local.initialize();
+    await local.onClose();
+
+    expect(await local.resolveStringEvaluation('theme', 'light', context)).toEqual(
+      await remote.resolveStringEvaluation('theme', 'light', context)
+    );
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  it('is ready once a snapshot loads, even for an environment still at version 0', async () => {
+    const body = JSON.stringify(createFlagSnapshot(0, 'PROD', flags, {}));
+    const local = new NextOpsProvider({
+      baseUrl: 'http://localhost',
+      sdkKey,
+      signingSecret,
+      fetch: vi.fn().mockResolvedValue(
+        new Response(body, { headers: { 'X-Snapshot-Signature': `sha256=${signSnapshot(body, signingSecret)}` } })
+      ),
+      mode: 'local',
+    });
+
+    await local.initialize();
+    await local.onClose();
+
+    expect(await local.resolveBooleanEvaluation('new-checkout', false, { targetingKey: 'user-1' })).toMatchObject({
+      value: true,
+      reason: 'DEFAULT',
+    });
+  });
+
+  it('reports local exposures when it closes', async () => {
+    const body = JSON.stringify(createFlagSnapshot(1, 'PROD', flags, {}));
+    const fetchMock = vi.fn<typeof fetch>(async (url) =>
+      url.toString().endsWith('/api/sdk/exposures')
+        ? Response.json({ recorded: 1 }, { status: 202 })
+        : new Response(body, { headers: { 'X-Snapshot-Signature': `sha256=${signSnapshot(body, signingSecret)}` } })
+    );
+    const local = new NextOpsProvider({ baseUrl: 'http://localhost', sdkKey, signingSecret, fetch: fetchMock, mode: 'local' });
+
+    await local.initialize();
+    await local.resolveBooleanEvaluation('dark-mode', true, { targetingKey: 'user-1' });
+    await local.onClose();
+
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+    expect(fetchMock.mock.calls[1][0].toString()).toBe('http://localhost/api/sdk/exposures');
+    expect(JSON.parse(fetchMock.mock.calls[1][1]!.body as string)).toEqual({
+      userId: 'user-1',
+      exposures: [{ flagKey: 'dark-mode', enabled: false }],
+    });
+  });
+
+  it('requires the signing secret in local mode', () => {
+    expect(() => new NextOpsProvider({ baseUrl: 'http://localhost', sdkKey, mode: 'local' })).toThrow('signingSecret');
+  });
+
+  it('works through the OpenFeature client', async () => {
+    await OpenFeature.setProviderAndWait(
+      new NextOpsProvider({ baseUrl: 'http://localhost', sdkKey, fetch: evaluateResponse() })
+    );
+    const client = OpenFeature.getClient();
+
+    expect(await client.getBooleanValue('new-checkout', false, { targetingKey: 'user-1' })).toBe(true);
+    expect(await client.getObjectDetails('theme', {}, { targetingKey: 'user-1', plan: 'pro' })).toMatchObject({
+      value: { maxItems: 10 },
+      variant: 'limits',
+      reason: 'TARGETING_MATCH',
+    });
+    expect(await client.getStringDetails('missing', 'off', { targetingKey: 'user-1' })).toMatchObject({
+      value: 'off',
+      errorCode: ErrorCode.FLAG_NOT_FOUND,
+    });
+
+    await OpenFeature.close();
+  });
+});
@@ -0,0 +1,283 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+
+const mockFindMany = vi.fn();
+const mockUpdateMany = vi.fn();
+const mockUpdate = vi.fn();
+const mockTimelineCreate = vi.fn();
+const mockFlagFindFirst = vi.fn();
+const mockTenantFindUnique = vi.fn();
+const mockApplyFlagPatch = vi.fn();
+
+vi.mock('@/lib/prisma', () => ({
+  prisma: {
+    rolloutPlan: {
+      findMany: (args: unknown) => mockFindMany(args),
+      updateMany: (args: unknown) => mockUpdateMany(args),
+      update: (args: unknown) => mockUpdate(args),
+    },
+    timelineEvent: {
+      create: (args: unknown) => mockTimelineCreate(args),
+    },
+    featureFlag: {
+      findFirst: (args: unknown) => mockFlagFindFirst(args),
+    },
+    tenant: {
+      findUnique: (args: unknown) => mockTenantFindUnique(args),
+    },
+  },
+}));
+
+vi.mock('@/lib/tenant', () => ({
+  runWithTenantContext: (_context: unknown, fn: () => unknown) => fn(),
+}));
+
+vi.mock('@/lib/flag-updates', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@/lib/flag-updates')>()),
+  applyFlagPatch: (...args: unknown[]) => mockApplyFlagPatch(...args),
+}));
+
+import {
+  advanceRolloutPlan,
+  meetsSeverityThreshold,
+  rollbackGuardedRollouts,
+  rolloutPlanSchema,
+} from '@/lib/rollout-plans';
+
+const now = new Date('2026-01-07T09:00:00Z');
+
+function rolloutPlan(overrides: Record<string, unknown> = {}) {
+  return {
+    id: 'plan-1',
+    tenantId: 'tenant-1',
+    flagId: 'flag-1',
+    steps: [1, 5, 25, 50, 100],
+    intervalMinutes: 30,
+    currentStep: -1,
+    safeState: null as unknown,
+    createdById: 'user-1',
+    tenant: { slug: 'acme' },
+    ...overrides,
+  };
+}
+
+describe('Rollout plans', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockUpdateMany.mockResolvedValue({ count: 1 });
+    mockApplyFlagPatch.mockResolvedValue({ success: true, flag: { id: 'flag-1' } });
+    // As the plan left it after step 2 (5%)
+    mockFlagFindFirst.mockResolvedValue({ enabled: true, rolloutPercentage: 5, environment: 'PROD' });
+    mockTenantFindUnique.mockResolvedValue({ flagApprovalEnvironments: [] });
+  });
+
+  it('should require increasing steps between 0 and 100', () => {
+    expect(rolloutPlanSchema.safeParse({ steps: [1, 5, 25, 100], intervalMinutes: 60 }).success).toBe(true);
+    expect(rolloutPlanSchema.safeParse({ steps: [5, 5, 25], intervalMinutes: 60 }).success).toBe(false);
+    expect(rolloutPlanSchema.safeParse({ steps: [50, 150], intervalMinutes: 60 }).success).toBe(false);
+    expect(rolloutPlanSchema.safeParse({ steps: [], intervalMinutes: 60 }).success).toBe(false);
+  });
+
+  it('should apply the next step and schedule the one after it', async () => {
+    const result = await advanceRolloutPlan(
+      rolloutPlan({ currentStep: 1, safeState: { enabled: true, rolloutPercentage: 0 } }),
+      now
+    );
+
+    expect(result).toEqual({ success: true, completed: false });
+    expect(mockApplyFlagPatch).toHaveBeenCalledWith(
+      'tenant-1',
+      'flag-1',
+      { rolloutPercentage: 25 },
+      {
+        actorId: 'user-1',
+        action: 'ROLLOUT_STEP',
+        metadata: { rolloutPlanId: 'plan-1', step: 3, totalSteps: 5 },
+      }
+    );
+    expect(mockUpdate).toHaveBeenCalledWith({
+      where: { id: 'plan-1' },
+      data: {
+        currentStep: 2,
+        error: null,
+        nextStepAt: new Date('2026-01-07T09:30:00Z'),
+      },
+    });
+  });
+
+  it('should record the safe state right before the first step', async () => {
+    mockFlagFindFirst.mockResolvedValue({ enabled: true, rolloutPercentage: 0 });
+
+    await advanceRolloutPlan(rolloutPlan({ safeState: { enabled: false, rolloutPercentage: 10 } }), now);
+
+    expect(mockUpdate).toHaveBeenCalledWith({
+      where: { id: 'plan-1' },
+      data: { safeState: { enabled: true, rolloutPercentage: 0 } },
+    });
+    expect(mockApplyFlagPatch.mock.calls[0][2]).toEqual({ rolloutPercentage: 1 });
+  });
+
+  it('should abort instead of overwriting an edit made outside the plan', async () => {
+    mockFlagFindFirst.mockResolvedValue({ enabled: true, rolloutPercentage: 40 });
+
+    const result = await advanceRolloutPlan(
+      rolloutPlan({ currentStep: 1, safeState: { enabled: true, rolloutPercentage: 0 } }),
+      now
+    );
+
+    expect(result).toEqual({ success: false, error: 'Flag was edited outside the rollout plan' });
+    expect(mockApplyFlagPatch).not.toHaveBeenCalled();
+    expect(mockUpdate).toHaveBeenCalledWith({
+      where: { id: 'plan-1' },
+      data: { status: 'ABORTED', error: 'Flag was edited outside the rollout plan' },
+    });
+  });
+
+  it('should abort once the flag\'s environment requires approval', async () => {
+    mockTenantFindUnique.mockResolvedValue({ flagApprovalEnvironments: ['PROD'] });
+
+    const result = await advanceRolloutPlan(
+      rolloutPlan({ currentStep: 1, safeState: { enabled: true, rolloutPercentage: 0 } }),
+      now
+    );
+
+    const error = 'Cannot apply rollout step: changes to PROD flags require approval';
+    expect(result).toEqual({ success: false, error });
+    expect(mockApplyFlagPatch).not.toHaveBeenCalled();
+    expect(mockUpdate).toHaveBeenCalledWith({ where: { id: 'plan-1' }, data: { status: 'ABORTED', error } });
+  });
+
+  it('should complete the plan after the last step', async () => {
+    mockFlagFindFirst.mockResolvedValue({ enabled: true, rolloutPercentage: 50 });
+    const result = await advanceRolloutPlan(rolloutPlan({ currentStep: 3 }), now);
+
+    expect(result).toEqual({ success: true, completed: true });
+    expect(mockUpdate).toHaveBeenCalledWith({
+      where: { id: 'plan-1' },
+      data: { currentStep: 4, error: null, nextStepAt: null, status: 'COMPLETED' },
+    });
+  });
+
+  it('should pause the plan when a step fails', async () => {
+    mockApplyFlagPatch.mockResolvedValue({ success: false, status: 404, error: 'Feature flag not found' });
+
+    const result = await advanceRolloutPlan(rolloutPlan(), now);
+
+    expect(result).toEqual({ success: false, error: 'Feature flag not found' });
+    expect(mockUpdate).toHaveBeenCalledWith({
+      where: { id: 'plan-1' },
+      data: { status: 'PAUSED', error: 'Feature flag not found' },
+    });
+  });
+
+  it('should not apply a step another worker already claimed', async () => {
+    mockUpdateMany.mockResolvedValue({ count: 0 });
+
+    const result = await advanceRolloutPlan(rolloutPlan(), now);
+
+    expect(result.success).toBe(false);
+    expect(mockApplyFlagPatch).not.toHaveBeenCalled();
+    expect(mockUpdateMany).toHaveBeenCalledWith({
+      where: { id: 'plan-1', status: 'ACTIVE', currentStep: -1, nextStepAt: { not: null } },
+      data: { nextStepAt: null },
+    });
+  });
+});
+
+describe('Rollout guards', () => {
+  const tenant = { tenantId: 'tenant-1', tenantSlug: 'acme' };
+  const incident = { id: 'incident-1', service: 'checkout-api', severity: 'SEV2' as const };
+
+  function guardedPlan(overrides: Record<string, unknown> = {}) {
+    return {
+      ...rolloutPlan({ currentStep: 2 }),
+      status: 'ACTIVE',
+      guardService: 'checkout-api',
+      guardSeverity: 'SEV2',
+      safeState: { enabled: true, rolloutPercentage: 0 },
+      flag: { key: 'new-checkout', environment: 'PROD', enabled: true, rolloutPercentage: 25 },
+      ...overrides,
+    };
+  }
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockUpdateMany.mockResolvedValue({ count: 1 });
+    mockApplyFlagPatch.mockResolvedValue({ success: true, flag: { id: 'flag-1' } });
+  });
+
+  it('should treat lower SEV numbers as more severe', () => {
+    expect(meetsSeverityThreshold('SEV1', 'SEV2')).toBe(true);
+    expect(meetsSeverityThreshold('SEV2', 'SEV2')).toBe(true);
+    expect(meetsSeverityThreshold('SEV3', 'SEV2')).toBe(false);
+  });
+
+  it('should restore the safe state and note it on the incident', async () => {
+    mockFindMany.mockResolvedValue([guardedPlan()]);
+
+    const rolledBack = await rollbackGuardedRollouts(tenant, incident, 'user-2');
+
+    expect(rolledBack).toEqual(['flag-1']);
+    expect(mockFindMany).toHaveBeenCalledWith(
+      expect.objectContaining({
+        where: { tenantId: 'tenant-1', status: { in: ['ACTIVE', 'PAUSED'] }, guardService: 'checkout-api' },
+      })
+    );
+    expect(mockUpdateMany).toHaveBeenCalledWith({
+      where: { id: 'plan-1', status: { in: ['ACTIVE', 'PAUSED'] } },
+      data: { status: 'ROLLED_BACK', nextStepAt: null },
+    });
+    expect(mockApplyFlagPatch).toHaveBeenCalledWith(
+      'tenant-1',
+      'flag-1',
+      { enabled: true, rolloutPercentage: 0 },
+      { actorId: 'user-2', action: 'AUTO_ROLLBACK', metadata: { rolloutPlanId: 'plan-1', incidentId: 'incident-1' } }
+    );
+    expect(mockTimelineCreate).toHaveBeenCalledWith({
+      data: expect.objectContaining({ incidentId: 'incident-1', type: 'ACTION', createdById: 'user-2' }),
+    });
+  });
+
+  it('should not undo an edit made outside the plan', async () => {
+    mockFindMany.mockResolvedValue([
+      guardedPlan({ flag: { key: 'new-checkout', environment: 'PROD', enabled: false, rolloutPercentage: 25 } }),
+    ]);
+
+    const rolledBack = await rollbackGuardedRollouts(tenant, incident, 'user-2');
+
+    expect(rolledBack).toEqual([]);
+    expect(mockApplyFlagPatch).not.toHaveBeenCalled();
+    expect(mockUpdate).toHaveBeenCalledWith({
+      where: { id: 'plan-1' },
+      data: { error: 'Not rolled back: flag was edited outside the rollout plan' },
+    });
+    expect(mockTimelineCreate.mock.calls[0][0].data.message).toContain('edited outside the plan');
+  });
+
+  it('should only stop a plan that has not applied a step yet', async () => {
+    mockFindMany.mockResolvedValue([guardedPlan({ currentStep: -1, safeState: null })]);
+
+    const rolledBack = await rollbackGuardedRollouts(tenant, incident, 'user-2');
+
+    expect(rolledBack).toEqual([]);
+    expect(mockUpdateMany).toHaveBeenCalled();
+    expect(mockApplyFlagPatch).not.toHaveBeenCalled();
+    expect(mockUpdate).not.toHaveBeenCalled();
+  });
+
+  it('should leave rollouts guarded at a higher severity alone', async () => {
+    mockFindMany.mockResolvedValue([guardedPlan({ guardSeverity: 'SEV1' })]);
+
+    const rolledBack = await rollbackGuardedRollouts(tenant, incident, 'user-2');
+
+    expect(rolledBack).toEqual([]);
+    expect(mockUpdateMany).not.toHaveBeenCalled();
+    expect(mockApplyFlagPatch).not.toHaveBeenCalled();
+  });
+
+  it('should not fail incident creation when the rollback errors', async () => {
+    mockFindMany.mockRejectedValue(new Error('connection lost'));
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    await expect(rollbackGuardedRollouts(tenant, incident, 'user-2')).resolves.toEqual([]);
+  });
+});
@@ -0,0 +1,140 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+
+const mockFindMany = vi.fn();
+const mockUpdateMany = vi.fn();
+const mockUpdate = vi.fn();
+const mockApplyFlagPatch = vi.fn();
+const mockFlagFindFirst = vi.fn();
+const mockTenantFindUnique = vi.fn();
+const tenantContexts: unknown[] = [];
+
+vi.mock('@/lib/prisma', () => ({
+  prisma: {
+    scheduledFlagChange: {
+      findMany: (args: unknown) => mockFindMany(args),
+      updateMany: (args: unknown) => mockUpdateMany(args),
+      update: (args: unknown) => mockUpdate(args),
+    },
+    featureFlag: {
+      findFirst: (args: unknown) => mockFlagFindFirst(args),
+    },
+    tenant: {
+      findUnique: (args: unknown) => mockTenantFindUnique(args),
+    },
+  },
+}));
+
+vi.mock('@/lib/tenant', () => ({
+  runWithTenantContext: (context: unknown, fn: () => unknown) => {
+    tenantContexts.push(context);
+    return fn();
+  },
+}));
+
+vi.mock('@/lib/flag-updates', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@/lib/flag-updates')>()),
+  applyFlagPatch: (...args: unknown[]) => mockApplyFlagPatch(...args),
+}));
+
+import { applyScheduledChange, processDueScheduledChanges } from '@/lib/scheduled-flag-changes';
+
+function scheduledChange(overrides: Record<string, unknown> = {}) {
+  return {
+    id: 'schedule-1',
+    tenantId: 'tenant-1',
+    flagId: 'flag-1',
+    patch: { enabled: true, rolloutPercentage: 25 },
+    createdById: 'user-1',
+    tenant: { slug: 'acme' },
+    ...overrides,
+  };
+}
+
+describe('Scheduled flag changes', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    tenantContexts.length = 0;
+    mockUpdateMany.mockResolvedValue({ count: 1 });
+    mockFlagFindFirst.mockResolvedValue({ environment: 'PROD' });
+    mockTenantFindUnique.mockResolvedValue({ flagApprovalEnvironments: [] });
+  });
+
+  it('should apply the patch in the tenant context and mark the change applied', async () => {
+    mockApplyFlagPatch.mockResolvedValue({ success: true, flag: { id: 'flag-1' } });
+
+    const result = await applyScheduledChange(scheduledChange());
+
+    expect(result).toEqual({ success: true });
+    expect(tenantContexts).toEqual([{ tenantId: 'tenant-1', tenantSlug: 'acme' }]);
+    expect(mockApplyFlagPatch).toHaveBeenCalledWith(
+      'tenant-1',
+      'flag-1',
+      { enabled: true, rolloutPercentage: 25 },
+      { actorId: 'user-1', metadata: { scheduledChangeId: 'schedule-1' } }
+    );
+    expect(mockUpdate).toHaveBeenCalledWith({
+      where: { id: 'schedule-1' },
+      data: { status: 'APPLIED', appliedAt: expect.any(Date) },
+    });
+  });
+
+  it('should mark the change failed with the error from the patch path', async () => {
+    mockApplyFlagPatch.mockResolvedValue({ success: false, status: 409, error: 'Cannot change key' });
+
+    const result = await applyScheduledChange(scheduledChange({ patch: { key: 'renamed' } }));
+
+    expect(result).toEqual({ success: false, error: 'Cannot change key' });
+    expect(mockUpdate).toHaveBeenCalledWith({
+      where: { id: 'schedule-1' },
+      data: { status: 'FAILED', error: 'Cannot change key' },
+    });
+  });
+
+  it('should fail instead of bypassing approval for the flag\'s environment', async () => {
+    mockTenantFindUnique.mockResolvedValue({ flagApprovalEnvironments: ['PROD'] });
+
+    const result = await applyScheduledChange(scheduledChange());
+
+    const error = 'Cannot apply scheduled change: changes to PROD flags require approval';
+    expect(result).toEqual({ success: false, error });
+    expect(mockApplyFlagPatch).not.toHaveBeenCalled();
+    expect(mockUpdate).toHaveBeenCalledWith({ where: { id: 'schedule-1' }, data: { status: 'FAILED', error } });
+  });
+
+  it('should fail an invalid stored patch without touching the flag', async () => {
+    const result = await applyScheduledChange(scheduledChange({ patch: { rolloutPercentage: 250 } }));
+
+    expect(result.success).toBe(false);
+    expect(mockApplyFlagPatch).not.toHaveBeenCalled();
+    expect(mockUpdate).toHaveBeenCalledWith(
+      expect.objectContaining({ data: expect.objectContaining({ status: 'FAILED' }) })
+    );
+  });
+
+  it('should skip a change another worker already claimed', async () => {
+    mockUpdateMany.mockResolvedValue({ count: 0 });
+
+    const result = await applyScheduledChange(scheduledChange());
+
+    expect(result.success).toBe(false);
+    expect(mockApplyFlagPatch).not.toHaveBeenCalled();
+    expect(mockUpdate).not.toHaveBeenCalled();
+  });
+
+  it('should only load pending changes that are due', async () => {
+    const now = new Date('2026-01-06T09:00:00Z');
+    mockFindMany.mockResolvedValue([scheduledChange(), scheduledChange({ id: 'schedule-2' })]);
+    mockApplyFlagPatch.mockResolvedValue({ success: true, flag: { id: 'flag-1' } });
+
+    const processed = await processDueScheduledChanges(now);
+
+    expect(processed).toBe(2);
+    expect(mockFindMany).toHaveBeenCalledWith(
+      expect.objectContaining({
+        where: { status: 'PENDING', scheduledFor: { lte: now } },
+        orderBy: { scheduledFor: 'asc' },
+      })
+    );
+    expect(mockApplyFlagPatch).toHaveBeenCalledTimes(2);
+  });
+});
@@ -0,0 +1,38 @@
+import { describe, it, expect } from 'vitest';
+import { parseSdkEvaluateRequest } from '@/lib/sdk-evaluation';
+
+describe('parseSdkEvaluateRequest', () => {
+  it('returns traces to server keys that ask for them', () => {
+    const parsed = parseSdkEvaluateRequest(
+      { userId: 'user-1', includeTrace: true },
+      { scope: 'SERVER' }
+    );
+
+    expect(parsed).toEqual({ success: true, context: { userId: 'user-1' }, includeTrace: true });
+  });
+
+  it('ignores includeTrace for client keys', () => {
+    const parsed = parseSdkEvaluateRequest(
+      { userId: 'user-1', attributes: { plan: 'pro' }, includeTrace: true },
+      { scope: 'CLIENT' }
+    );
+
+    expect(parsed).toEqual({
+      success: true,
+      context: { userId: 'user-1', attributes: { plan: 'pro' } },
+      includeTrace: false,
+    });
+  });
+
+  it('omits traces by default', () => {
+    const parsed = parseSdkEvaluateRequest({ userId: 'user-1' }, { scope: 'SERVER' });
+
+    expect(parsed).toMatchObject({ success: true, includeTrace: false });
+  });
+
+  it('reports the first validation error', () => {
+    const parsed = parseSdkEvaluateRequest({ userId: '' }, { scope: 'SERVER' });
+
+    expect(parsed.success).toBe(false);
+  });
+});
@@ -0,0 +1,140 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+
+const mockFindUnique = vi.fn();
+const mockUpdate = vi.fn();
+
+vi.mock('@/lib/prisma', () => ({
+  prisma: {
+    sdkKey: {
+      findUnique: (args: unknown) => mockFindUnique(args),
+      update: (args: unknown) => mockUpdate(args),
+    },
+  },
+}));
+
+import {
+  generateSdkKey,
+  generateSigningSecret,
+  hashSdkKey,
+  getSdkKeyPrefix,
+  extractSdkKey,
+  authenticateSdkKey,
+} from '@/lib/sdk-keys';
+import { createEtag, matchesEtag } from '@/lib/etag';
+
+function requestWithHeaders(headers: Record<string, string>) {
+  return new Request('http://localhost/api/sdk/evaluate', { method: 'POST', headers });
+}
+
+describe('SDK Keys', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('should generate unique keys prefixed with the environment', () => {
+    const first = generateSdkKey('PROD');
+    const second = generateSdkKey('PROD');
+
+    expect(first).toMatch(/^sdk-prod-[A-Za-z0-9_-]{32}$/);
+    expect(first).not.toBe(second);
+    expect(getSdkKeyPrefix(first)).toBe(first.slice(0, 'sdk-prod-'.length + 6));
+  });
+
+  it('should tell server keys apart from client keys', () => {
+    const key = generateSdkKey('STAGING', 'SERVER');
+
+    expect(key).toMatch(/^srv-staging-[A-Za-z0-9_-]{32}$/);
+    expect(getSdkKeyPrefix(key)).toBe(key.slice(0, 'srv-staging-'.length + 6));
+    expect(generateSigningSecret()).not.toBe(generateSigningSecret());
+  });
+
+  it('should hash keys deterministically', () => {
+    const key = generateSdkKey('DEV');
+
+    expect(hashSdkKey(key)).toBe(hashSdkKey(key));
+    expect(hashSdkKey(key)).not.toContain(key);
+    expect(hashSdkKey(key)).toHaveLength(64);
+  });
+
+  it('should read the key from a bearer authorization header', () => {
+    expect(extractSdkKey(requestWithHeaders({ Authorization: 'Bearer sdk-dev-abc' }))).toBe('sdk-dev-abc');
+    expect(extractSdkKey(requestWithHeaders({ Authorization: 'Basic abc' }))).toBeNull();
+    expect(extractSdkKey(requestWithHeaders({}))).toBeNull();
+  });
+
+  it('should reject unknown and revoked keys', async () => {
+    mockFindUnique.mockResolvedValueOnce(null);
+    expect(await authenticateSdkKey(requestWithHeaders({ Authorization: 'Bearer sdk-dev-unknown' }))).toBeNull();
+
+    mockFindUnique.mockResolvedValueOnce({
+      id: 'key-1',
+      tenantId: 'tenant-1',
+      environment: 'DEV',
+      revokedAt: new Date(),
+      lastUsedAt: null,
+      tenant: { slug: 'acme' },
+    });
+    expect(await authenticateSdkKey(requestWithHeaders({ Authorization: 'Bearer sdk-dev-revoked' }))).toBeNull();
+    expect(mockUpdate).not.toHaveBeenCalled();
+  });
+
+  it('should resolve the tenant and environment for a valid key', async () => {
+    const key = 'sdk-prod-valid';
+    mockFindUnique.mockResolvedValueOnce({
+      id: 'key-1',
+      tenantId: 'tenant-1',
+      environment: 'PROD',
+      scope: 'SERVER',
+      keyHash: hashSdkKey(key),
+      signingSecret: 'secret',
+      revokedAt: null,
+      lastUsedAt: null,
+      tenant: { slug: 'acme' },
+    });
+
+    const context = await authenticateSdkKey(requestWithHeaders({ Authorization: `Bearer ${key}` }));
+
+    expect(mockFindUnique.mock.calls[0][0].where).toEqual({ keyHash: hashSdkKey(key) });
+    expect(context).toEqual({
+      id: 'key-1',
+      tenantId: 'tenant-1',
+      tenantSlug: 'acme',
+      environment: 'PROD',
+      scope: 'SERVER',
+      signingSecret: 'secret',
+    });
+    expect(mockUpdate).toHaveBeenCalledTimes(1);
+  });
+
+  it('should not record usage again within a minute', async () => {
+    mockFindUnique.mockResolvedValueOnce({
+      id: 'key-1',
+      tenantId: 'tenant-1',
+      environment: 'PROD',
+      revokedAt: null,
+      lastUsedAt: new Date(Date.now() - 10 * 1000),
+      tenant: { slug: 'acme' },
+    });
+
+    await authenticateSdkKey(requestWithHeaders({ Authorization: 'Bearer sdk-prod-valid' }));
+
+    expect(mockUpdate).not.toHaveBeenCalled();
+  });
+});
+
+describe('ETags', () => {
+  it('should change when the body changes', () => {
+    expect(createEtag('{"a":1}')).toBe(createEtag('{"a":1}'));
+    expect(createEtag('{"a":1}')).not.toBe(createEtag('{"a":2}'));
+  });
+
+  it('should match If-None-Match headers, including weak and listed tags', () => {
+    const etag = createEtag('body');
+
+    expect(matchesEtag(requestWithHeaders({ 'If-None-Match': etag }), etag)).toBe(true);
+    expect(matchesEtag(requestWithHeaders({ 'If-None-Match': `W/${etag}` }), etag)).toBe(true);
+    expect(matchesEtag(requestWithHeaders({ 'If-None-Match': `"other", ${etag}` }), etag)).toBe(true);
+    expect(matchesEtag(requestWithHeaders({ 'If-None-Match': '"other"' }), etag)).toBe(false);
+    expect(matchesEtag(requestWithHeaders({}), etag)).toBe(false);
+  });
+});
@@ -1,14 +1,27 @@
-import { describe, it, expect } from 'vitest';
+import { describe, it, expect, beforeEach, vi } from 'vitest';
 
-// Status transition rules (replicated from app/actions/incidents.ts)
-const VALID_TRANSITIONS: Record<string, string[]> = {
-  OPEN: ["MITIGATED", "RESOLVED"],
-  MITIGATED: ["RESOLVED"],
-  RESOLVED: [], // Cannot transition from resolved
-};
+const mockTenantFindUnique = vi.fn();
+
+vi.mock('@/lib/prisma', () => ({
+  prisma: {
+    tenant: {
+      findUnique: (args: unknown) => mockTenantFindUnique(args),
+    },
+  },
+}));
+
+import {
+  checkTransition,
+  DEFAULT_INCIDENT_WORKFLOW,
+  getIncidentWorkflow,
+  incidentWorkflowSchema,
+  partitionTransitions,
+} from '@/lib/incident-workflow';
+
+const VALID_TRANSITIONS = DEFAULT_INCIDENT_WORKFLOW;
 
 function isValidTransition(from: string, to: string): boolean {
-  return VALID_TRANSITIONS[from]?.includes(to) || false;
+  return checkTransition(DEFAULT_INCIDENT_WORKFLOW, from, to) === null;
 }
 
 describe('Incident Status Transitions', () => {
@@ -39,6 +52,12 @@ describe('Incident Status Transitions', () => {
       expect(isValidTransition('MITIGATED', 'OPEN')).toBe(false);
     });
 
+    it('should allow OPEN -> ACKNOWLEDGED and on to MITIGATED', () => {
+      expect(isValidTransition('OPEN', 'ACKNOWLEDGED')).toBe(true);
+      expect(isValidTransition('ACKNOWLEDGED', 'MITIGATED')).toBe(true);
+      expect(isValidTransition('ACKNOWLEDGED', 'OPEN')).toBe(false);
+    });
+
     it('should NOT allow same status transition', () => {
       expect(isValidTransition('OPEN', 'OPEN')).toBe(false);
       expect(isValidTransition('MITIGATED', 'MITIGATED')).toBe(false);
@@ -53,12 +72,17 @@ describe('Incident Status Transitions', () => {
   });
 
   describe('VALID_TRANSITIONS mapping', () => {
-    it('should have OPEN with 2 valid transitions', () => {
-      expect(VALID_TRANSITIONS['OPEN']).toHaveLength(2);
+    it('should have OPEN with 3 valid transitions', () => {
+      expect(VALID_TRANSITIONS['OPEN']).toHaveLength(3);
+      expect(VALID_TRANSITIONS['OPEN']).toContain('ACKNOWLEDGED');
       expect(VALID_TRANSITIONS['OPEN']).toContain('MITIGATED');
       expect(VALID_TRANSITIONS['OPEN']).toContain('RESOLVED');
     });
 
+    it('should have ACKNOWLEDGED with 2 valid transitions', () => {
+      expect(VALID_TRANSITIONS['ACKNOWLEDGED']).toEqual(['MITIGATED', 'RESOLVED']);
+    });
+
     it('should have MITIGATED with 1 valid transition', () => {
       expect(VALID_TRANSITIONS['MITIGATED']).toHaveLength(1);
       expect(VALID_TRANSITIONS['MITIGATED']).toContain('RESOLVED');
@@ -68,4 +92,87 @@ describe('Incident Status Transitions', () => {
       expect(VALID_TRANSITIONS['RESOLVED']).toHaveLength(0);
     });
   });
+
+  describe('checkTransition', () => {
+    it('explains rejected transitions', () => {
+      expect(checkTransition(DEFAULT_INCIDENT_WORKFLOW, 'MITIGATED', 'OPEN')).toBe(
+        'Cannot transition from MITIGATED to OPEN. Valid transitions: RESOLVED'
+      );
+      expect(checkTransition(DEFAULT_INCIDENT_WORKFLOW, 'RESOLVED', 'OPEN')).toBe(
+        'Cannot transition from RESOLVED to OPEN. Valid transitions: none'
+      );
+    });
+
+    it('allows reopening when the workflow has a reopen path', () => {
+      const workflow = { ...DEFAULT_INCIDENT_WORKFLOW, RESOLVED: ['OPEN' as const] };
+
+      expect(checkTransition(workflow, 'RESOLVED', 'OPEN')).toBeNull();
+      expect(checkTransition(workflow, 'RESOLVED', 'MITIGATED')).not.toBeNull();
+    });
+  });
+
+  describe('partitionTransitions', () => {
+    it('reports each incident the workflow rejects', () => {
+      const incidents = [
+        { id: 'a', status: 'OPEN' },
+        { id: 'b', status: 'RESOLVED' },
+        { id: 'c', status: 'ACKNOWLEDGED' },
+        { id: 'd', status: 'MITIGATED' },
+      ];
+
+      const { allowed, rejected } = partitionTransitions(DEFAULT_INCIDENT_WORKFLOW, incidents, 'MITIGATED');
+
+      expect(allowed.map((incident) => incident.id)).toEqual(['a', 'c']);
+      expect(rejected).toEqual([
+        { incidentId: 'b', error: 'Cannot transition from RESOLVED to MITIGATED. Valid transitions: none' },
+        { incidentId: 'd', error: 'Cannot transition from MITIGATED to MITIGATED. Valid transitions: RESOLVED' },
+      ]);
+    });
+  });
+
+  describe('incidentWorkflowSchema', () => {
+    it('normalizes transitions into lifecycle order', () => {
+      const parsed = incidentWorkflowSchema.parse({
+        OPEN: ['RESOLVED', 'ACKNOWLEDGED', 'RESOLVED'],
+        ACKNOWLEDGED: ['RESOLVED'],
+        MITIGATED: ['RESOLVED'],
+        RESOLVED: ['OPEN'],
+      });
+
+      expect(parsed.OPEN).toEqual(['ACKNOWLEDGED', 'RESOLVED']);
+      expect(parsed.RESOLVED).toEqual(['OPEN']);
+    });
+
+    it('rejects self transitions, dead ends and missing statuses', () => {
+      const base = { OPEN: ['RESOLVED'], ACKNOWLEDGED: ['RESOLVED'], MITIGATED: ['RESOLVED'], RESOLVED: [] };
+
+      expect(incidentWorkflowSchema.safeParse({ ...base, OPEN: ['OPEN', 'RESOLVED'] }).error?.issues[0].message).toBe(
+        'OPEN cannot transition to itself'
+      );
+      expect(
+        incidentWorkflowSchema.safeParse({ ...base, ACKNOWLEDGED: ['MITIGATED'], MITIGATED: ['ACKNOWLEDGED'] }).error
+          ?.issues[0].message
+      ).toBe('ACKNOWLEDGED has no path to RESOLVED');
+      expect(incidentWorkflowSchema.safeParse({ OPEN: ['RESOLVED'] }).success).toBe(false);
+    });
+  });
+
+  describe('getIncidentWorkflow', () => {
+    beforeEach(() => {
+      mockTenantFindUnique.mockReset();
+    });
+
+    it('uses the tenant workflow, falling back to the default', async () => {
+      const reopenable = { ...DEFAULT_INCIDENT_WORKFLOW, RESOLVED: ['OPEN'] };
+
+      mockTenantFindUnique.mockResolvedValue({ incidentWorkflow: reopenable });
+      expect(await getIncidentWorkflow('tenant-1')).toEqual(reopenable);
+
+      mockTenantFindUnique.mockResolvedValue({ incidentWorkflow: null });
+      expect(await getIncidentWorkflow('tenant-1')).toBe(DEFAULT_INCIDENT_WORKFLOW);
+
+      mockTenantFindUnique.mockResolvedValue({ incidentWorkflow: { OPEN: ['OPEN'] } });
+      expect(await getIncidentWorkflow('tenant-1')).toBe(DEFAULT_INCIDENT_WORKFLOW);
+    });
+  });
 });
@@ -13,6 +13,7 @@ export default defineConfig({
   resolve: {
     alias: {
       '@': path.resolve(__dirname, './'),
+      '@next-ops/flag-evaluator': path.resolve(__dirname, './packages/flag-evaluator/src'),
     },
   },
 });